@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "StatusJobValidacao" AS ENUM ('PENDENTE', 'PROCESSANDO', 'CONCLUIDO', 'CANCELADO', 'FALHOU');
+
+-- CreateTable
+CREATE TABLE "jobs_validacao" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "campanhaId" TEXT NOT NULL,
+    "ehSimulacao" BOOLEAN NOT NULL DEFAULT false,
+    "nomeArquivo" TEXT,
+    "status" "StatusJobValidacao" NOT NULL DEFAULT 'PENDENTE',
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "processados" INTEGER NOT NULL DEFAULT 0,
+    "validado" INTEGER NOT NULL DEFAULT 0,
+    "rejeitado" INTEGER NOT NULL DEFAULT 0,
+    "conflito_manual" INTEGER NOT NULL DEFAULT 0,
+    "em_analise" INTEGER NOT NULL DEFAULT 0,
+    "revalidado" INTEGER NOT NULL DEFAULT 0,
+    "cancelamentoSolicitado" BOOLEAN NOT NULL DEFAULT false,
+    "mensagemErro" TEXT,
+    "resultadoJson" JSONB,
+    "historicoValidacaoId" TEXT,
+    "iniciadoEm" TIMESTAMP(3),
+    "finalizadoEm" TIMESTAMP(3),
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizadoEm" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_validacao_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "jobs_validacao_historicoValidacaoId_key" ON "jobs_validacao"("historicoValidacaoId");
+
+-- CreateIndex
+CREATE INDEX "jobs_validacao_adminId_idx" ON "jobs_validacao"("adminId");
+
+-- CreateIndex
+CREATE INDEX "jobs_validacao_status_idx" ON "jobs_validacao"("status");
+
+-- CreateIndex
+CREATE INDEX "jobs_validacao_criadoEm_idx" ON "jobs_validacao"("criadoEm");
+
+-- AddForeignKey
+ALTER TABLE "jobs_validacao" ADD CONSTRAINT "jobs_validacao_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "jobs_validacao" ADD CONSTRAINT "jobs_validacao_historicoValidacaoId_fkey" FOREIGN KEY ("historicoValidacaoId") REFERENCES "historico_validacoes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "historico_validacoes" ADD COLUMN     "reversaoJson" JSONB,
+ADD COLUMN     "revertidoEm" TIMESTAMP(3),
+ADD COLUMN     "revertidoPorId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "historico_validacoes" ADD CONSTRAINT "historico_validacoes_revertidoPorId_fkey" FOREIGN KEY ("revertidoPorId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
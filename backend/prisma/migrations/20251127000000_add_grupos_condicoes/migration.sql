@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "OperadorLogico" AS ENUM ('E', 'OU');
+
+-- AlterTable
+ALTER TABLE "condicoes_requisitos" ADD COLUMN     "grupoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "grupos_condicoes" (
+    "id" TEXT NOT NULL,
+    "operadorLogico" "OperadorLogico" NOT NULL DEFAULT 'E',
+    "ordem" INTEGER NOT NULL DEFAULT 0,
+    "requisitoId" TEXT NOT NULL,
+    "grupoPaiId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "grupos_condicoes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "grupos_condicoes_requisitoId_idx" ON "grupos_condicoes"("requisitoId");
+
+-- CreateIndex
+CREATE INDEX "grupos_condicoes_grupoPaiId_idx" ON "grupos_condicoes"("grupoPaiId");
+
+-- CreateIndex
+CREATE INDEX "condicoes_requisitos_grupoId_idx" ON "condicoes_requisitos"("grupoId");
+
+-- AddForeignKey
+ALTER TABLE "condicoes_requisitos" ADD CONSTRAINT "condicoes_requisitos_grupoId_fkey" FOREIGN KEY ("grupoId") REFERENCES "grupos_condicoes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "grupos_condicoes" ADD CONSTRAINT "grupos_condicoes_requisitoId_fkey" FOREIGN KEY ("requisitoId") REFERENCES "requisitos_cartelas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "grupos_condicoes" ADD CONSTRAINT "grupos_condicoes_grupoPaiId_fkey" FOREIGN KEY ("grupoPaiId") REFERENCES "grupos_condicoes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "envios_vendas" ADD COLUMN     "linhasPlanilhaConflito" JSONB;
+
+-- CreateTable
+CREATE TABLE "resolucoes_conflito" (
+    "id" TEXT NOT NULL,
+    "campanhaId" TEXT NOT NULL,
+    "numeroPedido" TEXT NOT NULL,
+    "envioVencedorId" TEXT NOT NULL,
+    "vendedorVencedorId" TEXT NOT NULL,
+    "enviosRejeitadosIds" JSONB NOT NULL,
+    "motivo" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "resolucoes_conflito_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "resolucoes_conflito_campanhaId_numeroPedido_idx" ON "resolucoes_conflito"("campanhaId", "numeroPedido");
+
+-- CreateIndex
+CREATE INDEX "resolucoes_conflito_criadoEm_idx" ON "resolucoes_conflito"("criadoEm");
+
+-- AddForeignKey
+ALTER TABLE "resolucoes_conflito" ADD CONSTRAINT "resolucoes_conflito_campanhaId_fkey" FOREIGN KEY ("campanhaId") REFERENCES "campanhas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "resolucoes_conflito" ADD CONSTRAINT "resolucoes_conflito_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "usuarios"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "perfis_mapeamento_planilha" (
+    "id" TEXT NOT NULL,
+    "nome" TEXT NOT NULL,
+    "tipoPedido" "TipoPedido",
+    "mapaColunas" JSONB NOT NULL,
+    "formatoData" TEXT NOT NULL DEFAULT 'DD/MM/YYYY',
+    "cabecalhos" JSONB,
+    "criadoPorId" TEXT NOT NULL,
+    "atualizadoPorId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizadoEm" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "perfis_mapeamento_planilha_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "perfis_mapeamento_planilha_nome_key" ON "perfis_mapeamento_planilha"("nome");
+
+-- AddForeignKey
+ALTER TABLE "perfis_mapeamento_planilha" ADD CONSTRAINT "perfis_mapeamento_planilha_criadoPorId_fkey" FOREIGN KEY ("criadoPorId") REFERENCES "usuarios"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "perfis_mapeamento_planilha" ADD CONSTRAINT "perfis_mapeamento_planilha_atualizadoPorId_fkey" FOREIGN KEY ("atualizadoPorId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
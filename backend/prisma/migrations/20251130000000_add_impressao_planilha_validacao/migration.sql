@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "historico_validacoes" ADD COLUMN     "hashArquivo" TEXT,
+ADD COLUMN     "justificativaReprocessamento" TEXT,
+ADD COLUMN     "nomeArquivo" TEXT,
+ADD COLUMN     "reprocessamentoJson" JSONB,
+ADD COLUMN     "totalLinhasArquivo" INTEGER;
+
+-- CreateTable
+CREATE TABLE "linhas_processadas_validacao" (
+    "id" TEXT NOT NULL,
+    "historicoValidacaoId" TEXT NOT NULL,
+    "hashLinha" TEXT NOT NULL,
+
+    CONSTRAINT "linhas_processadas_validacao_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "historico_validacoes_hashArquivo_idx" ON "historico_validacoes"("hashArquivo");
+
+-- CreateIndex
+CREATE INDEX "linhas_processadas_validacao_hashLinha_idx" ON "linhas_processadas_validacao"("hashLinha");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "linhas_processadas_validacao_historicoValidacaoId_hashLinha_key" ON "linhas_processadas_validacao"("historicoValidacaoId", "hashLinha");
+
+-- AddForeignKey
+ALTER TABLE "linhas_processadas_validacao" ADD CONSTRAINT "linhas_processadas_validacao_historicoValidacaoId_fkey" FOREIGN KEY ("historicoValidacaoId") REFERENCES "historico_validacoes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "OrigemTransicaoEnvio" AS ENUM ('SUBMISSAO', 'VALIDACAO_PLANILHA', 'VALIDACAO_MANUAL', 'REJEICAO_MANUAL', 'RESOLUCAO_CONFLITO', 'REVERSAO_VALIDACAO');
+
+-- CreateEnum
+CREATE TYPE "TipoAtorTransicao" AS ENUM ('ADMIN', 'PLANILHA', 'SISTEMA', 'VENDEDOR');
+
+-- CreateTable
+CREATE TABLE "transicoes_envio" (
+    "id" TEXT NOT NULL,
+    "envioVendaId" TEXT NOT NULL,
+    "statusAnterior" "StatusEnvioVenda",
+    "statusNovo" "StatusEnvioVenda" NOT NULL,
+    "origem" "OrigemTransicaoEnvio" NOT NULL,
+    "tipoAtor" "TipoAtorTransicao" NOT NULL,
+    "motivo" TEXT,
+    "usuarioId" TEXT,
+    "historicoValidacaoId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transicoes_envio_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transicoes_envio_envioVendaId_criadoEm_idx" ON "transicoes_envio"("envioVendaId", "criadoEm");
+
+-- CreateIndex
+CREATE INDEX "transicoes_envio_historicoValidacaoId_idx" ON "transicoes_envio"("historicoValidacaoId");
+
+-- AddForeignKey
+ALTER TABLE "transicoes_envio" ADD CONSTRAINT "transicoes_envio_envioVendaId_fkey" FOREIGN KEY ("envioVendaId") REFERENCES "envios_vendas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transicoes_envio" ADD CONSTRAINT "transicoes_envio_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
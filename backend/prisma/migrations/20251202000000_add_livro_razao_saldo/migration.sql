@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "TipoLancamentoSaldo" AS ENUM ('SALDO_INICIAL', 'CREDITO_CARTELA', 'BONUS_EVENTO', 'COMISSAO_GERENTE', 'RESERVA_LOTE', 'PAGAMENTO', 'CANCELAMENTO_RESERVA', 'REVERSAO_VALIDACAO', 'AJUSTE_MANUAL');
+
+-- CreateTable
+CREATE TABLE "lancamentos_saldo" (
+    "id" TEXT NOT NULL,
+    "usuarioId" TEXT NOT NULL,
+    "tipo" "TipoLancamentoSaldo" NOT NULL,
+    "valor" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "valorReservado" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "descricao" TEXT NOT NULL,
+    "campanhaId" TEXT,
+    "numeroCartela" INTEGER,
+    "enviosIds" JSONB,
+    "relatorioFinanceiroId" TEXT,
+    "numeroLote" TEXT,
+    "historicoValidacaoId" TEXT,
+    "adminId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lancamentos_saldo_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lancamentos_saldo_usuarioId_criadoEm_idx" ON "lancamentos_saldo"("usuarioId", "criadoEm");
+
+-- CreateIndex
+CREATE INDEX "lancamentos_saldo_tipo_idx" ON "lancamentos_saldo"("tipo");
+
+-- CreateIndex
+CREATE INDEX "lancamentos_saldo_numeroLote_idx" ON "lancamentos_saldo"("numeroLote");
+
+-- AddForeignKey
+ALTER TABLE "lancamentos_saldo" ADD CONSTRAINT "lancamentos_saldo_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lancamentos_saldo" ADD CONSTRAINT "lancamentos_saldo_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Saldo de abertura: os saldos existentes passam a ser o primeiro lançamento
+-- de cada usuário, para que a soma do livro-razão confira desde o início
+INSERT INTO "lancamentos_saldo" ("id", "usuarioId", "tipo", "valor", "valorReservado", "descricao")
+SELECT gen_random_uuid()::text, "id", 'SALDO_INICIAL', "saldoPontos", "saldoReservado", 'Saldo de abertura do livro-razão'
+FROM "usuarios"
+WHERE "saldoPontos" <> 0 OR "saldoReservado" <> 0;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "PoliticaOrcamento" AS ENUM ('ENFILEIRAR', 'BLOQUEAR');
+
+-- CreateEnum
+CREATE TYPE "StatusRecompensaRetida" AS ENUM ('ENFILEIRADA', 'BLOQUEADA', 'LIBERADA');
+
+-- AlterTable
+ALTER TABLE "campanhas" ADD COLUMN     "orcamentoMaximo" DECIMAL(12,2),
+ADD COLUMN     "politicaOrcamento" "PoliticaOrcamento" NOT NULL DEFAULT 'ENFILEIRAR',
+ADD COLUMN     "alertasOrcamento" INTEGER[] DEFAULT ARRAY[70, 90, 100]::INTEGER[],
+ADD COLUMN     "alertasEnviados" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "recompensas_retidas" (
+    "id" TEXT NOT NULL,
+    "campanhaId" TEXT NOT NULL,
+    "vendedorId" TEXT NOT NULL,
+    "numeroCartela" INTEGER NOT NULL,
+    "valorOriginal" DECIMAL(10,2) NOT NULL,
+    "valorFinal" DECIMAL(10,2) NOT NULL,
+    "gerenteId" TEXT,
+    "valorGerente" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "enviosIds" JSONB NOT NULL,
+    "status" "StatusRecompensaRetida" NOT NULL,
+    "liberadoEm" TIMESTAMP(3),
+    "liberadoPorId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recompensas_retidas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recompensas_retidas_campanhaId_status_idx" ON "recompensas_retidas"("campanhaId", "status");
+
+-- CreateIndex
+CREATE INDEX "recompensas_retidas_vendedorId_idx" ON "recompensas_retidas"("vendedorId");
+
+-- AddForeignKey
+ALTER TABLE "recompensas_retidas" ADD CONSTRAINT "recompensas_retidas_campanhaId_fkey" FOREIGN KEY ("campanhaId") REFERENCES "campanhas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recompensas_retidas" ADD CONSTRAINT "recompensas_retidas_vendedorId_fkey" FOREIGN KEY ("vendedorId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recompensas_retidas" ADD CONSTRAINT "recompensas_retidas_gerenteId_fkey" FOREIGN KEY ("gerenteId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
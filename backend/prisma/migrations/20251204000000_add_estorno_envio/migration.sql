@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "OrigemTransicaoEnvio" ADD VALUE 'ESTORNO';
+
+-- AlterEnum
+ALTER TYPE "TipoLancamentoSaldo" ADD VALUE 'ESTORNO_ENVIO';
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "transicoes_envio" ADD COLUMN "importacaoDevolucaoId" TEXT;
+
+-- CreateTable
+CREATE TABLE "importacoes_devolucao" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "dataHora" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "nomeArquivo" TEXT,
+    "campanhaId" TEXT NOT NULL,
+    "motivo" TEXT NOT NULL,
+    "totalLinhas" INTEGER NOT NULL,
+    "totalEstornados" INTEGER NOT NULL,
+    "totalNaoEncontrados" INTEGER NOT NULL,
+    "totalNaoValidados" INTEGER NOT NULL,
+    "valorDebitado" DECIMAL(12,2) NOT NULL,
+    "detalhesJson" JSONB NOT NULL,
+
+    CONSTRAINT "importacoes_devolucao_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transicoes_envio_importacaoDevolucaoId_idx" ON "transicoes_envio"("importacaoDevolucaoId");
+
+-- CreateIndex
+CREATE INDEX "importacoes_devolucao_adminId_idx" ON "importacoes_devolucao"("adminId");
+
+-- CreateIndex
+CREATE INDEX "importacoes_devolucao_dataHora_idx" ON "importacoes_devolucao"("dataHora");
+
+-- AddForeignKey
+ALTER TABLE "importacoes_devolucao" ADD CONSTRAINT "importacoes_devolucao_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "CriterioNivel" AS ENUM ('PONTOS_VALIDADOS', 'CARTELAS_CONCLUIDAS');
+
+-- AlterTable
+ALTER TABLE "campanhas" ADD COLUMN "nivelMinimo" "NivelVendedor",
+ADD COLUMN "multiplicadoresNivel" JSONB;
+
+-- CreateTable
+CREATE TABLE "regras_nivel_vendedor" (
+    "id" TEXT NOT NULL,
+    "nivel" "NivelVendedor" NOT NULL,
+    "criterio" "CriterioNivel" NOT NULL,
+    "valorMinimo" DECIMAL(12,2) NOT NULL,
+    "janelaDias" INTEGER NOT NULL,
+    "atualizadoPorId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizadoEm" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "regras_nivel_vendedor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "historico_niveis_vendedor" (
+    "id" TEXT NOT NULL,
+    "usuarioId" TEXT NOT NULL,
+    "nivelAnterior" "NivelVendedor" NOT NULL,
+    "nivelNovo" "NivelVendedor" NOT NULL,
+    "metricasJson" JSONB NOT NULL,
+    "recalculadoPorId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "historico_niveis_vendedor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "regras_nivel_vendedor_nivel_key" ON "regras_nivel_vendedor"("nivel");
+
+-- CreateIndex
+CREATE INDEX "historico_niveis_vendedor_usuarioId_criadoEm_idx" ON "historico_niveis_vendedor"("usuarioId", "criadoEm");
+
+-- CreateIndex
+CREATE INDEX "historico_niveis_vendedor_criadoEm_idx" ON "historico_niveis_vendedor"("criadoEm");
+
+-- AddForeignKey
+ALTER TABLE "historico_niveis_vendedor" ADD CONSTRAINT "historico_niveis_vendedor_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "TipoLancamentoSaldo" ADD VALUE 'BONUS_EQUIPE';
+
+-- CreateEnum
+CREATE TYPE "TipoRegraComissao" AS ENUM ('FAIXA_CARTELA', 'FAIXA_VOLUME_EQUIPE', 'OVERRIDE_MATRIZ', 'BONUS_EQUIPE');
+
+-- AlterTable
+ALTER TABLE "lancamentos_saldo" ADD COLUMN "regraComissaoId" TEXT;
+
+-- AlterTable
+ALTER TABLE "recompensas_retidas" ADD COLUMN "comissoes" JSONB;
+
+-- CreateTable
+CREATE TABLE "regras_comissao" (
+    "id" TEXT NOT NULL,
+    "campanhaId" TEXT NOT NULL,
+    "tipo" "TipoRegraComissao" NOT NULL,
+    "descricao" TEXT NOT NULL,
+    "cartelaInicial" INTEGER,
+    "cartelaFinal" INTEGER,
+    "volumeMinimo" DECIMAL(12,2),
+    "percentual" DECIMAL(5,4),
+    "numeroCartela" INTEGER,
+    "valorFixo" DECIMAL(10,2),
+    "ativa" BOOLEAN NOT NULL DEFAULT true,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizadoEm" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "regras_comissao_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lancamentos_saldo_regraComissaoId_idx" ON "lancamentos_saldo"("regraComissaoId");
+
+-- CreateIndex
+CREATE INDEX "regras_comissao_campanhaId_ativa_idx" ON "regras_comissao"("campanhaId", "ativa");
+
+-- AddForeignKey
+ALTER TABLE "regras_comissao" ADD CONSTRAINT "regras_comissao_campanhaId_fkey" FOREIGN KEY ("campanhaId") REFERENCES "campanhas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "TipoBonusEvento" AS ENUM ('MULTIPLICADOR', 'VALOR_FIXO');
+
+-- CreateEnum
+CREATE TYPE "PoliticaEventos" AS ENUM ('MAIOR', 'MULTIPLICAR', 'SOMAR');
+
+-- AlterTable
+ALTER TABLE "campanhas" ADD COLUMN     "politicaEventos" "PoliticaEventos" NOT NULL DEFAULT 'MAIOR';
+
+-- AlterTable
+ALTER TABLE "eventos_especiais" ADD COLUMN     "tipoBonus" "TipoBonusEvento" NOT NULL DEFAULT 'MULTIPLICADOR',
+ADD COLUMN     "valorFixo" DECIMAL(10,2),
+ADD COLUMN     "oticasIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "estados" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "ordensRequisito" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "codigosProduto" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "TipoLancamentoSaldo" ADD VALUE 'EXPIRACAO_PONTOS';
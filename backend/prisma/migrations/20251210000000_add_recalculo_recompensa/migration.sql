@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "TipoLancamentoSaldo" ADD VALUE 'AJUSTE_RECALCULO';
+
+-- CreateTable
+CREATE TABLE "recalculos_recompensa" (
+    "id" TEXT NOT NULL,
+    "campanhaId" TEXT NOT NULL,
+    "vendedorId" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "justificativa" TEXT NOT NULL,
+    "dataHora" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enviosRealocados" INTEGER NOT NULL,
+    "cartelasCriadas" INTEGER NOT NULL,
+    "cartelasRemovidas" INTEGER NOT NULL,
+    "valorAjuste" DECIMAL(10,2) NOT NULL,
+    "detalhesJson" JSONB NOT NULL,
+
+    CONSTRAINT "recalculos_recompensa_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recalculos_recompensa_campanhaId_vendedorId_idx" ON "recalculos_recompensa"("campanhaId", "vendedorId");
+
+-- CreateIndex
+CREATE INDEX "recalculos_recompensa_dataHora_idx" ON "recalculos_recompensa"("dataHora");
+
+-- AddForeignKey
+ALTER TABLE "recalculos_recompensa" ADD CONSTRAINT "recalculos_recompensa_campanhaId_fkey" FOREIGN KEY ("campanhaId") REFERENCES "campanhas"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recalculos_recompensa" ADD CONSTRAINT "recalculos_recompensa_vendedorId_fkey" FOREIGN KEY ("vendedorId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recalculos_recompensa" ADD CONSTRAINT "recalculos_recompensa_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "campanhas" ADD COLUMN     "curvaRecompensa" JSONB,
+ADD COLUMN     "limiteCartelas" INTEGER;
+
+-- AlterTable
+ALTER TABLE "envios_vendas" ADD COLUMN     "acimaLimiteCartelas" BOOLEAN NOT NULL DEFAULT false;
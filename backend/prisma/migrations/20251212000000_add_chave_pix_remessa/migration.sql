@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "TipoChavePix" AS ENUM ('CPF', 'EMAIL', 'TELEFONE', 'ALEATORIA');
+
+-- AlterTable
+ALTER TABLE "usuarios" ADD COLUMN     "tipoChavePix" "TipoChavePix",
+ADD COLUMN     "chavePix" TEXT;
+
+-- AlterTable
+ALTER TABLE "relatorios_financeiros" ADD COLUMN     "identificadorRemessa" TEXT;
+
+-- CreateIndex
+CREATE INDEX "relatorios_financeiros_identificadorRemessa_idx" ON "relatorios_financeiros"("identificadorRemessa");
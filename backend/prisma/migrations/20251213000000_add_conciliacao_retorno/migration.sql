@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "StatusPagamento" ADD VALUE 'FALHOU';
+
+-- AlterEnum
+ALTER TYPE "AcaoFinanceira" ADD VALUE 'CONCILIAR_RETORNO';
+
+-- AlterTable
+ALTER TABLE "relatorios_financeiros" ADD COLUMN     "codigoAutenticacao" TEXT,
+ADD COLUMN     "motivoFalha" TEXT;
@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "StatusLote" AS ENUM ('GERADO', 'APROVADO', 'PAGO', 'REJEITADO', 'CANCELADO');
+
+-- CreateEnum
+CREATE TYPE "DecisaoAprovacao" AS ENUM ('APROVADO', 'REJEITADO');
+
+-- AlterEnum
+ALTER TYPE "AcaoFinanceira" ADD VALUE 'APROVAR_LOTE';
+ALTER TYPE "AcaoFinanceira" ADD VALUE 'REJEITAR_LOTE';
+
+-- CreateTable
+CREATE TABLE "lotes_financeiros" (
+    "id" TEXT NOT NULL,
+    "numeroLote" TEXT NOT NULL,
+    "status" "StatusLote" NOT NULL DEFAULT 'GERADO',
+    "valorTotal" DECIMAL(12,2) NOT NULL,
+    "aprovacoesNecessarias" INTEGER NOT NULL DEFAULT 1,
+    "geradoPorId" TEXT,
+    "motivoCancelamento" TEXT,
+    "pagoEm" TIMESTAMP(3),
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizadoEm" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lotes_financeiros_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "aprovacoes_lote" (
+    "id" TEXT NOT NULL,
+    "loteId" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "decisao" "DecisaoAprovacao" NOT NULL,
+    "comentario" TEXT NOT NULL,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "aprovacoes_lote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lotes_financeiros_numeroLote_key" ON "lotes_financeiros"("numeroLote");
+
+-- CreateIndex
+CREATE INDEX "lotes_financeiros_status_idx" ON "lotes_financeiros"("status");
+
+-- CreateIndex
+CREATE INDEX "lotes_financeiros_geradoPorId_idx" ON "lotes_financeiros"("geradoPorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "aprovacoes_lote_loteId_adminId_key" ON "aprovacoes_lote"("loteId", "adminId");
+
+-- CreateIndex
+CREATE INDEX "aprovacoes_lote_adminId_idx" ON "aprovacoes_lote"("adminId");
+
+-- AddForeignKey
+ALTER TABLE "lotes_financeiros" ADD CONSTRAINT "lotes_financeiros_geradoPorId_fkey" FOREIGN KEY ("geradoPorId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "aprovacoes_lote" ADD CONSTRAINT "aprovacoes_lote_loteId_fkey" FOREIGN KEY ("loteId") REFERENCES "lotes_financeiros"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "aprovacoes_lote" ADD CONSTRAINT "aprovacoes_lote_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Lotes existentes: cabeçalho derivado dos relatórios. Lotes ainda só com
+-- relatórios pendentes entram como GERADO e passam pela aprovação; lotes com
+-- pagamento já iniciado (pago ou conciliado em parte) seguem como APROVADO.
+INSERT INTO "lotes_financeiros" ("id", "numeroLote", "status", "valorTotal", "geradoPorId", "pagoEm", "criadoEm", "atualizadoEm")
+SELECT
+    gen_random_uuid()::text,
+    "numeroLote",
+    (CASE
+        WHEN bool_or("status" = 'PENDENTE') AND bool_or("status" IN ('PAGO', 'FALHOU')) THEN 'APROVADO'
+        WHEN bool_or("status" = 'PENDENTE') THEN 'GERADO'
+        WHEN bool_or("status" IN ('PAGO', 'FALHOU')) THEN 'PAGO'
+        ELSE 'CANCELADO'
+    END)::"StatusLote",
+    SUM("valor"),
+    MIN("processadoPorId"),
+    MAX("dataPagamento"),
+    MIN("criadoEm"),
+    CURRENT_TIMESTAMP
+FROM "relatorios_financeiros"
+WHERE "numeroLote" IS NOT NULL
+GROUP BY "numeroLote";
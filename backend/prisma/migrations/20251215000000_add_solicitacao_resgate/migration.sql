@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "StatusSolicitacaoResgate" AS ENUM ('SOLICITADO', 'APROVADO', 'EM_LOTE', 'PAGO', 'REJEITADO', 'CANCELADO');
+
+-- AlterEnum
+ALTER TYPE "TipoLancamentoSaldo" ADD VALUE 'RESERVA_RESGATE';
+
+-- AlterEnum
+ALTER TYPE "AcaoFinanceira" ADD VALUE 'APROVAR_RESGATE';
+ALTER TYPE "AcaoFinanceira" ADD VALUE 'REJEITAR_RESGATE';
+
+-- CreateTable
+CREATE TABLE "solicitacoes_resgate" (
+    "id" TEXT NOT NULL,
+    "usuarioId" TEXT NOT NULL,
+    "valor" DECIMAL(10,2) NOT NULL,
+    "status" "StatusSolicitacaoResgate" NOT NULL DEFAULT 'SOLICITADO',
+    "motivo" TEXT,
+    "analisadoPorId" TEXT,
+    "analisadoEm" TIMESTAMP(3),
+    "relatorioFinanceiroId" TEXT,
+    "criadoEm" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "atualizadoEm" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "solicitacoes_resgate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "solicitacoes_resgate_usuarioId_criadoEm_idx" ON "solicitacoes_resgate"("usuarioId", "criadoEm");
+
+-- CreateIndex
+CREATE INDEX "solicitacoes_resgate_status_idx" ON "solicitacoes_resgate"("status");
+
+-- CreateIndex
+CREATE INDEX "solicitacoes_resgate_relatorioFinanceiroId_idx" ON "solicitacoes_resgate"("relatorioFinanceiroId");
+
+-- AddForeignKey
+ALTER TABLE "solicitacoes_resgate" ADD CONSTRAINT "solicitacoes_resgate_usuarioId_fkey" FOREIGN KEY ("usuarioId") REFERENCES "usuarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "solicitacoes_resgate" ADD CONSTRAINT "solicitacoes_resgate_analisadoPorId_fkey" FOREIGN KEY ("analisadoPorId") REFERENCES "usuarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "solicitacoes_resgate" ADD CONSTRAINT "solicitacoes_resgate_relatorioFinanceiroId_fkey" FOREIGN KEY ("relatorioFinanceiroId") REFERENCES "relatorios_financeiros"("id") ON DELETE SET NULL ON UPDATE CASCADE;
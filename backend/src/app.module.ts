@@ -40,6 +40,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { APP_GUARD } from '@nestjs/core';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 
 import { PrismaModule } from './prisma/prisma.module';
 import { AutenticacaoModule } from './modulos/autenticacao/autenticacao.module';
@@ -58,6 +59,8 @@ import { ConfiguracaoModule } from './modulos/configuracao/configuracao.module';
 import { UploadModule } from './modulos/upload/upload.module';
 import { FinanceiroModule } from './modulos/financeiro/financeiro.module';
 import { ImportsModule } from './modulos/imports/imports.module';
+import { LivroRazaoModule } from './modulos/livro-razao/livro-razao.module';
+import { NiveisModule } from './modulos/niveis/niveis.module';
 
 import { JwtAuthGuard } from './modulos/comum/guards/jwt-auth.guard';
 
@@ -97,6 +100,12 @@ import { JwtAuthGuard } from './modulos/comum/guards/jwt-auth.guard';
       },
     ]),
 
+    /**
+     * ScheduleModule: Tarefas agendadas (@Cron), como a verificação noturna
+     * do livro-razão de saldo e o recálculo dos níveis de vendedor.
+     */
+    ScheduleModule.forRoot(),
+
     /**
      * PrismaModule: Provê PrismaService para acesso ao banco de dados.
      */
@@ -120,6 +129,8 @@ import { JwtAuthGuard } from './modulos/comum/guards/jwt-auth.guard';
     UploadModule,
     FinanceiroModule,
     ImportsModule,
+    LivroRazaoModule,
+    NiveisModule,
     // ValoresReferenciaModule - REMOVIDO Sprint 18: Substituído por ProdutoCampanha
   ],
 
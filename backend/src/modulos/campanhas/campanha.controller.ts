@@ -20,6 +20,7 @@ import {
   Get,
   Post,
   Patch,
+  Put,
   Delete,
   Body,
   Param,
@@ -33,6 +34,12 @@ import { CampanhaService } from './campanha.service';
 import { CriarCampanhaDto } from './dto/criar-campanha.dto';
 import { AtualizarCampanhaDto } from './dto/atualizar-campanha.dto';
 import { AtualizarCampanhaAvancadaDto } from './dto/atualizar-campanha-avancada.dto';
+import { ConfigurarOrcamentoDto } from '../recompensa/dto/configurar-orcamento.dto';
+import { OrcamentoCampanhaService } from '../recompensa/orcamento-campanha.service';
+import { ConfigurarRegrasComissaoDto } from '../recompensa/dto/configurar-regras-comissao.dto';
+import { ComissaoGerenteService } from '../recompensa/comissao-gerente.service';
+import { RecalculoRecompensaService } from '../recompensa/recalculo-recompensa.service';
+import { AplicarRecalculoDto } from '../recompensa/dto/aplicar-recalculo.dto';
 import { JwtAuthGuard } from '../comum/guards/jwt-auth.guard';
 import { PapeisGuard } from '../comum/guards/papeis.guard';
 import { Papeis } from '../comum/decorators/papeis.decorator';
@@ -51,8 +58,15 @@ export class CampanhaController {
   /**
    * Construtor do controlador.
    * * @param campanhaService - Serviço de campanhas
+   * @param orcamentoCampanhaService - Orçamento (teto de pontos) das campanhas
+   * @param comissaoGerenteService - Regras de comissão de gerentes
    */
-  constructor(private readonly campanhaService: CampanhaService) {}
+  constructor(
+    private readonly campanhaService: CampanhaService,
+    private readonly orcamentoCampanhaService: OrcamentoCampanhaService,
+    private readonly comissaoGerenteService: ComissaoGerenteService,
+    private readonly recalculoRecompensaService: RecalculoRecompensaService,
+  ) {}
 
   /**
    * Lista campanhas visíveis para o usuário logado.
@@ -186,6 +200,132 @@ export class CampanhaController {
     return this.campanhaService.atualizar(id, dto);
   }
 
+  /**
+   * Configura o orçamento da campanha (teto, política e alertas).
+   * Recompensas enfileiradas que passarem a caber no orçamento são creditadas.
+   *
+   * Rota: PATCH /api/campanhas/:id/orcamento
+   * Acesso: Admin apenas
+   *
+   * @param id - UUID da campanha
+   * @param dto - Orçamento, política e percentuais de alerta
+   * @param req - Request com dados do admin
+   * @returns Consumo do orçamento + recompensas liberadas
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Patch(':id/orcamento')
+  async configurarOrcamento(
+    @Param('id') id: string,
+    @Body() dto: ConfigurarOrcamentoDto,
+    @Req() req,
+  ) {
+    this.logger.log(`[PATCH] [ADMIN] Orçamento da campanha: ${id} (Admin: ${req.user.email})`);
+    return this.orcamentoCampanhaService.configurar(id, dto, req.user.id);
+  }
+
+  /**
+   * Lista as regras de comissão de gerentes da campanha.
+   *
+   * Rota: GET /api/campanhas/:id/comissoes
+   * Acesso: Admin apenas
+   *
+   * @param id - UUID da campanha
+   * @returns Percentual base + regras (ativas e inativas)
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Get(':id/comissoes')
+  async listarRegrasComissao(@Param('id') id: string) {
+    return this.comissaoGerenteService.listarRegras(id);
+  }
+
+  /**
+   * Substitui as regras de comissão de gerentes da campanha (faixas por
+   * cartela ou volume da equipe, override da matriz, bônus de equipe).
+   * Valem para as próximas cartelas concluídas.
+   *
+   * Rota: PUT /api/campanhas/:id/comissoes
+   * Acesso: Admin apenas
+   *
+   * @param id - UUID da campanha
+   * @param dto - Novo conjunto de regras
+   * @param req - Request com dados do admin
+   * @returns Percentual base + regras salvas
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Put(':id/comissoes')
+  async configurarRegrasComissao(
+    @Param('id') id: string,
+    @Body() dto: ConfigurarRegrasComissaoDto,
+    @Req() req,
+  ) {
+    this.logger.log(`[PUT] [ADMIN] Regras de comissão da campanha: ${id} (Admin: ${req.user.email})`);
+    return this.comissaoGerenteService.configurarRegras(id, dto, req.user.id);
+  }
+
+  /**
+   * Verifica as recompensas de todos os vendedores da campanha: replay dos
+   * envios validados comparado às cartelas e créditos gravados.
+   *
+   * Rota: GET /api/campanhas/:id/recalculo
+   * Acesso: Admin apenas
+   *
+   * @param id - UUID da campanha
+   * @returns Resumo por vendedor (divergentes primeiro)
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Get(':id/recalculo')
+  async verificarRecalculoCampanha(@Param('id') id: string) {
+    return this.recalculoRecompensaService.verificarCampanha(id);
+  }
+
+  /**
+   * Relatório de divergências de um vendedor na campanha (spillover,
+   * cartelas concluídas e valores creditados). Não altera nada.
+   *
+   * Rota: GET /api/campanhas/:id/recalculo/:vendedorId
+   * Acesso: Admin apenas
+   *
+   * @param id - UUID da campanha
+   * @param vendedorId - UUID do vendedor
+   * @returns Relatório do replay
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Get(':id/recalculo/:vendedorId')
+  async verificarRecalculo(@Param('id') id: string, @Param('vendedorId') vendedorId: string) {
+    return this.recalculoRecompensaService.verificar(id, vendedorId);
+  }
+
+  /**
+   * Aplica a correção do recálculo: realoca envios, acerta as cartelas
+   * concluídas e lança a diferença no saldo do vendedor (AJUSTE_RECALCULO).
+   *
+   * Rota: POST /api/campanhas/:id/recalculo/:vendedorId
+   * Acesso: Admin apenas
+   *
+   * @param id - UUID da campanha
+   * @param vendedorId - UUID do vendedor
+   * @param dto - Justificativa
+   * @param req - Request com dados do admin
+   * @returns ID do recálculo, ajuste lançado e relatório aplicado
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Post(':id/recalculo/:vendedorId')
+  async aplicarRecalculo(
+    @Param('id') id: string,
+    @Param('vendedorId') vendedorId: string,
+    @Body() dto: AplicarRecalculoDto,
+    @Req() req,
+  ) {
+    this.logger.log(`[POST] [ADMIN] Recálculo de recompensas: campanha ${id}, vendedor ${vendedorId} (Admin: ${req.user.email})`);
+    return this.recalculoRecompensaService.aplicar(id, vendedorId, dto, req.user.id);
+  }
+
   /**
    * Edição avançada de campanha (Sprint 19.5).
    * Permite editar produtos, óticas, eventos e campos complexos.
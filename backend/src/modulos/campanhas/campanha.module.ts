@@ -21,6 +21,7 @@
 import { Module } from '@nestjs/common';
 import { CampanhaController } from './campanha.controller';
 import { CampanhaService } from './campanha.service';
+import { RecompensaModule } from '../recompensa/recompensa.module';
 
 /**
  * Módulo de campanhas.
@@ -28,6 +29,12 @@ import { CampanhaService } from './campanha.service';
  * Agrupa controller e service para gerenciamento de campanhas.
  */
 @Module({
+  /**
+   * Imports: RecompensaModule provê o OrcamentoCampanhaService (orçamento
+   * exibido no analytics e configurado em PATCH /campanhas/:id/orcamento).
+   */
+  imports: [RecompensaModule],
+
   /**
    * Controllers: Expõem rotas HTTP.
    */
@@ -26,7 +26,25 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { CriarCampanhaDto } from './dto/criar-campanha.dto';
 import { AtualizarCampanhaDto } from './dto/atualizar-campanha.dto';
-import { Campanha, Prisma, PapelUsuario, StatusEnvioVenda } from '@prisma/client';
+import { CriarGrupoCondicaoDto } from './dto/criar-grupo-condicao.dto';
+import { CriarEventoEspecialDto } from './dto/criar-evento-especial.dto';
+import {
+  Campanha,
+  NivelVendedor,
+  Prisma,
+  PapelUsuario,
+  StatusEnvioVenda,
+  TipoBonusEvento,
+} from '@prisma/client';
+import { PROFUNDIDADE_MAXIMA_GRUPOS } from '../validacao/helpers/regras.helper';
+import { OrcamentoCampanhaService } from '../recompensa/orcamento-campanha.service';
+import { MULTIPLICADOR_NIVEL_MAXIMO } from '../niveis/helpers/nivel.helper';
+import { OticaDoVendedor, eventoAbrangeOtica } from './helpers/evento-especial.helper';
+import {
+  FATOR_CURVA_MAXIMO,
+  FaixaCurvaRecompensa,
+  marcarEnviosAcimaDoLimite,
+} from './helpers/curva-recompensa.helper';
 
 /**
  * Serviço de gerenciamento de campanhas.
@@ -42,7 +60,10 @@ export class CampanhaService {
    * Construtor do serviço.
    * * @param prisma - Serviço Prisma para acesso ao banco de dados
    */
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orcamentoCampanhaService: OrcamentoCampanhaService,
+  ) {}
 
   /**
    * Cria uma campanha completa com toda sua estrutura aninhada.
@@ -84,6 +105,12 @@ export class CampanhaService {
       }
     }
 
+    if (dto.limiteCartelas != null && dto.limiteCartelas < dto.cartelas.length) {
+      throw new BadRequestException(
+        `O limite de cartelas (${dto.limiteCartelas}) não pode ser menor que o número de cartelas configuradas (${dto.cartelas.length}).`,
+      );
+    }
+
     /**
      * Transação atômica.
      */
@@ -100,6 +127,11 @@ export class CampanhaService {
         status: 'ATIVA',
         paraTodasOticas: dto.paraTodasOticas ?? false, // Default false se omitido
         tipoPedido: dto.tipoPedido ?? 'OS_OP_EPS', // Default OS_OP_EPS
+        nivelMinimo: dto.nivelMinimo ?? null,
+        multiplicadoresNivel: this._normalizarMultiplicadoresNivel(dto.multiplicadoresNivel),
+        politicaEventos: dto.politicaEventos,
+        curvaRecompensa: this._normalizarCurvaRecompensa(dto.curvaRecompensa),
+        limiteCartelas: dto.limiteCartelas ?? null,
         regras: dto.regras,
         // planilhaProdutosUrl removido (Sprint 21): produtos agora são sempre por requisito
         imagemCampanha16x9Url: dto.imagemCampanha16x9Url,
@@ -245,6 +277,13 @@ export class CampanhaService {
               });
             }
           }
+
+          // =====================================================================
+          // Criar Grupos de Condições E/OU (Rule Builder)
+          // =====================================================================
+          if (requisitoDto.grupoCondicoes) {
+            await this._criarGrupoCondicoes(tx, requisitoDto.grupoCondicoes, requisito.id);
+          }
         }
       }
 
@@ -258,20 +297,11 @@ export class CampanhaService {
 
         for (const eventoDto of dto.eventosEspeciais) {
           this.logger.log(
-            `Criando evento especial "${eventoDto.nome}" (${eventoDto.multiplicador}x) de ${eventoDto.dataInicio} até ${eventoDto.dataFim}`,
+            `Criando evento especial "${eventoDto.nome}" (${eventoDto.tipoBonus === TipoBonusEvento.VALOR_FIXO ? `+R$ ${eventoDto.valorFixo}` : `${eventoDto.multiplicador}x`}) de ${eventoDto.dataInicio} até ${eventoDto.dataFim}`,
           );
 
           await tx.eventoEspecial.create({
-            data: {
-              nome: eventoDto.nome,
-              descricao: eventoDto.descricao || '',
-              multiplicador: eventoDto.multiplicador,
-              dataInicio: new Date(eventoDto.dataInicio),
-              dataFim: new Date(eventoDto.dataFim),
-              ativo: eventoDto.ativo ?? true,
-              corDestaque: eventoDto.corDestaque || '#FF5733',
-              campanhaId: campanha.id,
-            },
+            data: { ...this._dadosEventoEspecial(eventoDto), campanhaId: campanha.id },
           });
         }
       }
@@ -320,6 +350,7 @@ export class CampanhaService {
     // CORRIGIDO: Removido filtro hardcoded status: 'ATIVA' para permitir listar todas as campanhas
     // O frontend agora é responsável por filtrar por status (ATIVA, CONCLUIDA, FUTURA, etc.)
     const where: Prisma.CampanhaWhereInput = {};
+    let opticaUsuario: OticaDoVendedor | null = null;
 
     // Admin vê tudo
     if (usuario.papel !== PapelUsuario.ADMIN) {
@@ -329,9 +360,9 @@ export class CampanhaService {
 
       if (usuario.opticaId) {
         // Buscar a ótica do usuário e seu matrizId
-        const opticaUsuario = await this.prisma.optica.findUnique({
+        opticaUsuario = await this.prisma.optica.findUnique({
           where: { id: usuario.opticaId },
-          select: { id: true, matrizId: true },
+          select: { id: true, matrizId: true, estado: true },
         });
 
         if (opticaUsuario) {
@@ -366,7 +397,14 @@ export class CampanhaService {
           select: {
             id: true,
             nome: true,
+            descricao: true,
             multiplicador: true,
+            tipoBonus: true,
+            valorFixo: true,
+            oticasIds: true,
+            estados: true,
+            ordensRequisito: true,
+            codigosProduto: true,
             dataInicio: true,
             dataFim: true,
             corDestaque: true,
@@ -377,11 +415,20 @@ export class CampanhaService {
 
     this.logger.log(`📋 ${campanhas.length} campanha(s) encontrada(s) para usuário ${usuario.id}`);
 
-    return campanhas;
+    if (usuario.papel === PapelUsuario.ADMIN) {
+      return campanhas;
+    }
+
+    // Usuário vê apenas eventos cuja abrangência inclui a sua ótica/UF
+    return campanhas.map((campanha) => ({
+      ...campanha,
+      eventosEspeciais: campanha.eventosEspeciais.filter((evento) => eventoAbrangeOtica(evento, opticaUsuario)),
+    }));
   }
 
   /**
    * Retorna dados de analytics agregados para uma campanha.
+   * Para admins, inclui o consumo do orçamento (orcamentoMaximo).
    */
   async analytics(
     id: string,
@@ -423,6 +470,7 @@ export class CampanhaService {
           multiplicadorAplicado: true, // CRÍTICO: Multiplicador de evento (1x, 2x, 3x)
           valorFinalComEvento: true, // CRÍTICO: Valor com multiplicador aplicado
           pontosAdicionadosAoSaldo: true, // Indica se pontos já foram adicionados ao saldo
+          acimaLimiteCartelas: true, // Além do limite de cartelas: sem recompensa
           vendedor: { select: { id: true, nome: true, email: true } },
         },
       }),
@@ -514,6 +562,10 @@ export class CampanhaService {
       totalPontosReaisDistribuidos,
       rankingVendedores,
       evolucaoTemporal,
+      orcamento:
+        !usuario || usuario.papel === PapelUsuario.ADMIN
+          ? await this.orcamentoCampanhaService.resumo(id)
+          : null,
       envios: enviosDetalhados.map((e) => ({
         id: e.id,
         numeroPedido: e.numeroPedido,
@@ -531,6 +583,7 @@ export class CampanhaService {
         multiplicadorAplicado: (e as any).multiplicadorAplicado, // CORRIGIDO: Incluir multiplicador (1x, 2x, 3x)
         valorFinalComEvento: (e as any).valorFinalComEvento, // CORRIGIDO: Incluir valor com multiplicador
         pontosAdicionadosAoSaldo: (e as any).pontosAdicionadosAoSaldo, // CORRIGIDO: Incluir flag de adição ao saldo
+        acimaLimiteCartelas: e.acimaLimiteCartelas,
       })),
     };
   }
@@ -560,6 +613,7 @@ export class CampanhaService {
               orderBy: { ordem: 'asc' },
               include: {
                 condicoes: true,
+                gruposCondicao: true, // Rule Builder: grupos E/OU das condições
                 produtos: true, // Sprint 21: Incluir produtos do requisito
               },
             },
@@ -639,12 +693,24 @@ export class CampanhaService {
       return campanhaCompleta;
     }
 
+    // Vendedor vê apenas eventos cuja abrangência inclui a sua ótica/UF
+    const opticaVendedor = usuario.opticaId
+      ? await this.prisma.optica.findUnique({
+          where: { id: usuario.opticaId },
+          select: { id: true, matrizId: true, estado: true },
+        })
+      : null;
+    const eventosEspeciais = campanhaCompleta.eventosEspeciais.filter((evento) =>
+      eventoAbrangeOtica(evento, opticaVendedor),
+    );
+
   const cartelasDaCampanha = campanhaCompleta.cartelas ?? [];
   const totalCartelasDefinidas = cartelasDaCampanha.length;
 
     if (totalCartelasDefinidas === 0) {
       return {
         ...campanhaCompleta,
+        eventosEspeciais,
         metaVendedor: {
           totalCartelasDefinidas: 0,
           totalCartelasVisiveis: 0,
@@ -689,6 +755,7 @@ export class CampanhaService {
 
     return {
       ...campanhaCompleta,
+      eventosEspeciais,
       cartelas: cartelasVisiveis,
       metaVendedor: {
         totalCartelasDefinidas,
@@ -739,6 +806,14 @@ export class CampanhaService {
       dados.paraTodasOticas = dto.paraTodasOticas;
     }
 
+    if (dto.multiplicadoresNivel !== undefined) {
+      dados.multiplicadoresNivel = this._normalizarMultiplicadoresNivel(dto.multiplicadoresNivel);
+    }
+
+    if (dto.curvaRecompensa !== undefined) {
+      dados.curvaRecompensa = this._normalizarCurvaRecompensa(dto.curvaRecompensa);
+    }
+
     // Remove campos não permitidos no update (garantia extra)
     delete dados['cartelas'];
     delete dados['oticasAlvoIds'];
@@ -746,9 +821,18 @@ export class CampanhaService {
     delete dados['eventosEspeciais']; // Eventos também só na criação
     delete dados['importSessionId']; // Sprint 21: não permitir importação global no update
 
-    const campanha = await this.prisma.campanha.update({
-      where: { id },
-      data: dados,
+    const campanha = await this.prisma.$transaction(async (tx) => {
+      const atualizada = await tx.campanha.update({
+        where: { id },
+        data: dados,
+      });
+
+      // Novo limite: envios já alocados passam a (não) gerar recompensa
+      if (dto.limiteCartelas !== undefined) {
+        await marcarEnviosAcimaDoLimite(tx, id, atualizada.limiteCartelas);
+      }
+
+      return atualizada;
     });
 
     this.logger.log(`✅ Campanha atualizada: ${campanha.titulo}`);
@@ -822,7 +906,7 @@ export class CampanhaService {
         // produtosCampanha removido (Sprint 21)
         oticasAlvo: true,
         eventosEspeciais: true,
-        cartelas: { include: { requisitos: { include: { condicoes: true, produtos: true } } } },
+        cartelas: { include: { requisitos: { include: { condicoes: true, gruposCondicao: true, produtos: true } } } },
       },
     });
 
@@ -846,6 +930,11 @@ export class CampanhaService {
         'pontosReaisMaximo',
         'percentualGerente',
         'tipoPedido',
+        'nivelMinimo',
+        'multiplicadoresNivel',
+        'politicaEventos',
+        'curvaRecompensa',
+        'limiteCartelas',
         'regras',
         'planilhaProdutosUrl',
         'imagemCampanha16x9Url',
@@ -868,11 +957,24 @@ export class CampanhaService {
         }
       }
 
+      if (camposBasicos.multiplicadoresNivel !== undefined) {
+        camposBasicos.multiplicadoresNivel = this._normalizarMultiplicadoresNivel(camposBasicos.multiplicadoresNivel);
+      }
+
+      if (camposBasicos.curvaRecompensa !== undefined) {
+        camposBasicos.curvaRecompensa = this._normalizarCurvaRecompensa(camposBasicos.curvaRecompensa);
+      }
+
       if (Object.keys(camposBasicos).length > 0) {
         await tx.campanha.update({ where: { id }, data: camposBasicos });
         this.logger.log(`✅ Campos básicos atualizados: ${Object.keys(camposBasicos).join(', ')}`);
       }
 
+      // Novo limite de cartelas: envios já alocados passam a (não) gerar recompensa
+      if (camposBasicos.limiteCartelas !== undefined) {
+        await marcarEnviosAcimaDoLimite(tx, id, camposBasicos.limiteCartelas);
+      }
+
       // ======================================================================
       // 2. PRODUTOS GLOBAIS REMOVIDO (Sprint 21)
       // ======================================================================
@@ -986,16 +1088,7 @@ export class CampanhaService {
       if (dto.eventosAdicionar && dto.eventosAdicionar.length > 0) {
         for (const evento of dto.eventosAdicionar) {
           await tx.eventoEspecial.create({
-            data: {
-              nome: evento.nome,
-              descricao: evento.descricao || '',
-              multiplicador: evento.multiplicador,
-              dataInicio: new Date(evento.dataInicio),
-              dataFim: new Date(evento.dataFim),
-              ativo: evento.ativo ?? true,
-              corDestaque: evento.corDestaque || '#FF5733',
-              campanhaId: id,
-            },
+            data: { ...this._dadosEventoEspecial(evento), campanhaId: id },
           });
         }
 
@@ -1020,6 +1113,16 @@ export class CampanhaService {
           if (dadosEvento.dataFim) {
             dadosEvento.dataFim = new Date(dadosEvento.dataFim);
           }
+          // Abrangência normalizada como na criação; bônus fixo não multiplica
+          if (dadosEvento.estados) {
+            dadosEvento.estados = this._normalizarCodigos(dadosEvento.estados);
+          }
+          if (dadosEvento.codigosProduto) {
+            dadosEvento.codigosProduto = this._normalizarCodigos(dadosEvento.codigosProduto);
+          }
+          if (dadosEvento.tipoBonus === TipoBonusEvento.VALOR_FIXO) {
+            dadosEvento.multiplicador = 1;
+          }
 
           await tx.eventoEspecial.update({
             where: { id: eventoId },
@@ -1075,7 +1178,7 @@ export class CampanhaService {
               },
             });
 
-            for (const condicaoDto of requisitoDto.condicoes) {
+            for (const condicaoDto of requisitoDto.condicoes || []) {
               await tx.condicaoRequisito.create({
                 data: {
                   campo: condicaoDto.campo,
@@ -1085,6 +1188,10 @@ export class CampanhaService {
                 },
               });
             }
+
+            if (requisitoDto.grupoCondicoes) {
+              await this._criarGrupoCondicoes(tx, requisitoDto.grupoCondicoes, requisito.id);
+            }
           }
 
           alteracoes.push({
@@ -1119,7 +1226,7 @@ export class CampanhaService {
         include: {
           cartelas: {
             orderBy: { numeroCartela: 'asc' },
-            include: { requisitos: { orderBy: { ordem: 'asc' }, include: { condicoes: true, produtos: true } } },
+            include: { requisitos: { orderBy: { ordem: 'asc' }, include: { condicoes: true, gruposCondicao: true, produtos: true } } },
           },
           oticasAlvo: { select: { id: true, nome: true } },
           eventosEspeciais: true,
@@ -1306,8 +1413,163 @@ export class CampanhaService {
         include: {
           produtos: true,
           condicoes: true,
+          gruposCondicao: true,
         },
       });
     });
   }
+
+  /**
+   * Dados de criação de um evento especial (sem campanhaId).
+   * * Eventos VALOR_FIXO gravam multiplicador 1; UFs e códigos de produto são
+   * normalizados (maiúsculas, sem espaços) para comparar com a ótica e o envio.
+   */
+  private _dadosEventoEspecial(
+    evento: CriarEventoEspecialDto,
+  ): Omit<Prisma.EventoEspecialUncheckedCreateInput, 'campanhaId'> {
+    const valorFixo = evento.tipoBonus === TipoBonusEvento.VALOR_FIXO;
+
+    return {
+      nome: evento.nome,
+      descricao: evento.descricao || '',
+      tipoBonus: evento.tipoBonus ?? TipoBonusEvento.MULTIPLICADOR,
+      multiplicador: valorFixo ? 1 : (evento.multiplicador ?? 1),
+      valorFixo: valorFixo ? evento.valorFixo : null,
+      oticasIds: evento.oticasIds ?? [],
+      estados: this._normalizarCodigos(evento.estados),
+      ordensRequisito: evento.ordensRequisito ?? [],
+      codigosProduto: this._normalizarCodigos(evento.codigosProduto),
+      dataInicio: new Date(evento.dataInicio),
+      dataFim: new Date(evento.dataFim),
+      ativo: evento.ativo ?? true,
+      corDestaque: evento.corDestaque || '#FF5733',
+    };
+  }
+
+  /**
+   * Remove vazios/duplicados e coloca em maiúsculas (UFs e códigos de produto).
+   */
+  private _normalizarCodigos(codigos: string[] | undefined): string[] {
+    return [...new Set((codigos ?? []).map((c) => c.trim().toUpperCase()).filter(Boolean))];
+  }
+
+  /**
+   * Valida o mapa { NIVEL: multiplicador } da campanha.
+   * * Objeto vazio ou nulo limpa a configuração (todos os níveis com 1x).
+   * * @throws {BadRequestException} Se houver nível desconhecido ou multiplicador
+   * fora de (0, MULTIPLICADOR_NIVEL_MAXIMO].
+   */
+  private _normalizarMultiplicadoresNivel(
+    multiplicadores: Record<string, number> | null | undefined,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+    if (multiplicadores === undefined) {
+      return undefined;
+    }
+    if (multiplicadores === null || Object.keys(multiplicadores).length === 0) {
+      return Prisma.DbNull;
+    }
+
+    const niveis = Object.values(NivelVendedor) as string[];
+    for (const [nivel, multiplicador] of Object.entries(multiplicadores)) {
+      if (!niveis.includes(nivel)) {
+        throw new BadRequestException(`Nível desconhecido em multiplicadoresNivel: ${nivel}`);
+      }
+      if (typeof multiplicador !== 'number' || !(multiplicador > 0) || multiplicador > MULTIPLICADOR_NIVEL_MAXIMO) {
+        throw new BadRequestException(
+          `O multiplicador do nível ${nivel} deve ser maior que 0 e no máximo ${MULTIPLICADOR_NIVEL_MAXIMO}.`,
+        );
+      }
+    }
+
+    return multiplicadores;
+  }
+
+  /**
+   * Valida e ordena as faixas da curva de recompensa por cartela.
+   * * Lista vazia ou nula limpa a curva (100% em todas as cartelas).
+   * * @throws {BadRequestException} Se duas faixas começarem na mesma cartela ou
+   * algum fator estiver fora de [0, FATOR_CURVA_MAXIMO].
+   */
+  private _normalizarCurvaRecompensa(
+    faixas: FaixaCurvaRecompensa[] | null | undefined,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined {
+    if (faixas === undefined) {
+      return undefined;
+    }
+    if (faixas === null || faixas.length === 0) {
+      return Prisma.DbNull;
+    }
+
+    const cartelas = new Set<number>();
+    for (const faixa of faixas) {
+      if (cartelas.has(faixa.cartela)) {
+        throw new BadRequestException(`A curva de recompensa tem mais de uma faixa a partir da Cartela ${faixa.cartela}.`);
+      }
+      if (!(faixa.fator >= 0) || faixa.fator > FATOR_CURVA_MAXIMO) {
+        throw new BadRequestException(
+          `O fator da Cartela ${faixa.cartela} na curva de recompensa deve estar entre 0 e ${FATOR_CURVA_MAXIMO}.`,
+        );
+      }
+      cartelas.add(faixa.cartela);
+    }
+
+    return [...faixas]
+      .sort((a, b) => a.cartela - b.cartela)
+      .map((faixa) => ({ cartela: faixa.cartela, fator: faixa.fator }));
+  }
+
+  /**
+   * Cria recursivamente um grupo de condições E/OU (com condições e subgrupos)
+   * para um requisito.
+   * * @param tx - Cliente da transação em andamento
+   * @param grupoDto - Grupo vindo do DTO (árvore)
+   * @param requisitoId - ID do requisito dono do grupo
+   * @param grupoPaiId - ID do grupo pai (null = raiz do requisito)
+   * @param ordem - Ordem entre grupos irmãos
+   * @param profundidade - Nível atual de aninhamento (1 = raiz)
+   * * @throws {BadRequestException} Se o aninhamento exceder PROFUNDIDADE_MAXIMA_GRUPOS.
+   */
+  private async _criarGrupoCondicoes(
+    tx: Prisma.TransactionClient,
+    grupoDto: CriarGrupoCondicaoDto,
+    requisitoId: string,
+    grupoPaiId: string | null = null,
+    ordem = 0,
+    profundidade = 1,
+  ): Promise<void> {
+    if (profundidade > PROFUNDIDADE_MAXIMA_GRUPOS) {
+      throw new BadRequestException(
+        `Grupos de condições podem ter no máximo ${PROFUNDIDADE_MAXIMA_GRUPOS} níveis de aninhamento.`,
+      );
+    }
+
+    const grupo = await tx.grupoCondicao.create({
+      data: {
+        operadorLogico: grupoDto.operadorLogico,
+        ordem,
+        requisitoId,
+        grupoPaiId,
+      },
+    });
+
+    if (grupoDto.condicoes && grupoDto.condicoes.length > 0) {
+      await tx.condicaoRequisito.createMany({
+        data: grupoDto.condicoes.map((condicaoDto) => ({
+          campo: condicaoDto.campo,
+          operador: condicaoDto.operador,
+          valor: condicaoDto.valor,
+          requisitoId,
+          grupoId: grupo.id,
+        })),
+      });
+    }
+
+    for (const [indice, subgrupoDto] of (grupoDto.subgrupos || []).entries()) {
+      await this._criarGrupoCondicoes(tx, subgrupoDto, requisitoId, grupo.id, indice, profundidade + 1);
+    }
+
+    this.logger.log(
+      `Grupo ${grupoDto.operadorLogico} criado para requisito ${requisitoId} (${grupoDto.condicoes?.length || 0} condição(ões), nível ${profundidade})`,
+    );
+  }
 }
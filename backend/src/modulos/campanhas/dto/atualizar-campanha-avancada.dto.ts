@@ -28,6 +28,7 @@ import {
   IsString,
   IsDateString,
   IsNumber,
+  IsInt,
   ValidateNested,
   IsArray,
   Min,
@@ -37,12 +38,14 @@ import {
   IsOptional,
   IsUUID,
   IsEnum,
+  IsObject,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { TipoPedido } from '@prisma/client';
+import { NivelVendedor, PoliticaEventos, TipoBonusEvento, TipoPedido } from '@prisma/client';
 import { CriarEventoEspecialDto } from './criar-evento-especial.dto';
 import { ProdutoCampanhaDto } from './produto-campanha.dto';
 import { CriarRegraCartelaDto } from './criar-regra-cartela.dto';
+import { FaixaCurvaRecompensaDto } from './faixa-curva-recompensa.dto';
 
 /**
  * DTO para edição avançada de uma campanha.
@@ -109,6 +112,60 @@ export class AtualizarCampanhaAvancadaDto {
   @IsOptional()
   tipoPedido?: TipoPedido;
 
+  /**
+   * Nível mínimo do vendedor para participar (nulo = todos os níveis).
+   *
+   * @example "PRATA"
+   */
+  @IsEnum(NivelVendedor, {
+    message: 'O nível mínimo deve ser BRONZE, PRATA, OURO ou DIAMANTE',
+  })
+  @IsOptional()
+  nivelMinimo?: NivelVendedor | null;
+
+  /**
+   * Multiplicador da recompensa por nível do vendedor. Níveis ausentes usam 1.
+   *
+   * @example { "OURO": 1.1, "DIAMANTE": 1.25 }
+   */
+  @IsObject({ message: 'multiplicadoresNivel deve ser um objeto { NIVEL: multiplicador }' })
+  @IsOptional()
+  multiplicadoresNivel?: Record<string, number> | null;
+
+  /**
+   * Como combinar eventos especiais sobrepostos no mesmo envio (padrão MAIOR).
+   *
+   * @example "MULTIPLICAR"
+   */
+  @IsEnum(PoliticaEventos, {
+    message: 'A política de eventos deve ser MAIOR, MULTIPLICAR ou SOMAR',
+  })
+  @IsOptional()
+  politicaEventos?: PoliticaEventos;
+
+  /**
+   * Curva de recompensa por número de cartela: a partir da cartela de cada
+   * faixa, o valor dos envios é multiplicado pelo fator. Vazio/nulo = 100%.
+   *
+   * @example [{ "cartela": 2, "fator": 1.2 }, { "cartela": 5, "fator": 0.8 }]
+   */
+  @IsArray({ message: 'A curva de recompensa deve ser um array de faixas' })
+  @ValidateNested({ each: true })
+  @Type(() => FaixaCurvaRecompensaDto)
+  @IsOptional()
+  curvaRecompensa?: FaixaCurvaRecompensaDto[] | null;
+
+  /**
+   * Máximo de cartelas por vendedor (nulo = ilimitado). Envios além do
+   * limite são validados, mas não geram recompensa.
+   *
+   * @example 10
+   */
+  @IsInt({ message: 'O limite de cartelas deve ser um número inteiro' })
+  @Min(1, { message: 'O limite de cartelas deve ser no mínimo 1' })
+  @IsOptional()
+  limiteCartelas?: number | null;
+
   /**
    * Regras da campanha em formato Markdown.
    */
@@ -220,6 +277,12 @@ export class AtualizarCampanhaAvancadaDto {
     nome?: string;
     descricao?: string;
     multiplicador?: number;
+    tipoBonus?: TipoBonusEvento;
+    valorFixo?: number | null;
+    oticasIds?: string[];
+    estados?: string[];
+    ordensRequisito?: number[];
+    codigosProduto?: string[];
     dataInicio?: string;
     dataFim?: string;
     ativo?: boolean;
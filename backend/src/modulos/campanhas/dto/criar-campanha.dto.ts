@@ -39,11 +39,13 @@ import {
   ArrayNotEmpty,
   ValidateIf,
   IsEnum,
+  IsObject,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { TipoPedido } from '@prisma/client';
+import { NivelVendedor, PoliticaEventos, TipoPedido } from '@prisma/client';
 import { CriarRegraCartelaDto } from './criar-regra-cartela.dto';
 import { CriarEventoEspecialDto } from './criar-evento-especial.dto';
+import { FaixaCurvaRecompensaDto } from './faixa-curva-recompensa.dto';
 // ProdutoCampanhaDto removido (Sprint 21): produtos agora são sempre por requisito
 
 /**
@@ -215,6 +217,60 @@ export class CriarCampanhaDto {
   @IsOptional()
   tipoPedido?: TipoPedido;
 
+  /**
+   * Nível mínimo do vendedor para participar (nulo = todos os níveis).
+   *
+   * @example "PRATA"
+   */
+  @IsEnum(NivelVendedor, {
+    message: 'O nível mínimo deve ser BRONZE, PRATA, OURO ou DIAMANTE',
+  })
+  @IsOptional()
+  nivelMinimo?: NivelVendedor | null;
+
+  /**
+   * Multiplicador da recompensa por nível do vendedor. Níveis ausentes usam 1.
+   *
+   * @example { "OURO": 1.1, "DIAMANTE": 1.25 }
+   */
+  @IsObject({ message: 'multiplicadoresNivel deve ser um objeto { NIVEL: multiplicador }' })
+  @IsOptional()
+  multiplicadoresNivel?: Record<string, number> | null;
+
+  /**
+   * Como combinar eventos especiais sobrepostos no mesmo envio (padrão MAIOR).
+   *
+   * @example "MULTIPLICAR"
+   */
+  @IsEnum(PoliticaEventos, {
+    message: 'A política de eventos deve ser MAIOR, MULTIPLICAR ou SOMAR',
+  })
+  @IsOptional()
+  politicaEventos?: PoliticaEventos;
+
+  /**
+   * Curva de recompensa por número de cartela: a partir da cartela de cada
+   * faixa, o valor dos envios é multiplicado pelo fator. Vazio/nulo = 100%.
+   *
+   * @example [{ "cartela": 2, "fator": 1.2 }, { "cartela": 5, "fator": 0.8 }]
+   */
+  @IsArray({ message: 'A curva de recompensa deve ser um array de faixas' })
+  @ValidateNested({ each: true })
+  @Type(() => FaixaCurvaRecompensaDto)
+  @IsOptional()
+  curvaRecompensa?: FaixaCurvaRecompensaDto[] | null;
+
+  /**
+   * Máximo de cartelas por vendedor (nulo = ilimitado). Envios além do
+   * limite são validados, mas não geram recompensa.
+   *
+   * @example 10
+   */
+  @IsInt({ message: 'O limite de cartelas deve ser um número inteiro' })
+  @Min(1, { message: 'O limite de cartelas deve ser no mínimo 1' })
+  @IsOptional()
+  limiteCartelas?: number | null;
+
   /**
    * Regras da campanha em formato Markdown.
    * Exibidas na aba "Regras" quando o vendedor acessar a campanha.
@@ -7,8 +7,9 @@
  * Data Transfer Object para criação de um evento especial com multiplicador
  * de pontos (ex: Semana 2x, Black Friday 3x).
  * 
- * Eventos especiais multiplicam os prêmios (moedinhas e pontos reais) durante
- * um período específico da campanha.
+ * Eventos especiais multiplicam os prêmios (moedinhas e pontos reais) ou somam
+ * um bônus fixo por envio durante um período específico da campanha. Podem ser
+ * restritos a óticas, UFs, requisitos (ordem do card) e códigos de produto.
  * 
  * @module CampanhasModule
  * ============================================================================
@@ -21,9 +22,15 @@ import {
   IsBoolean,
   IsNotEmpty,
   IsOptional,
+  IsEnum,
+  IsArray,
+  IsInt,
+  ArrayMaxSize,
+  ValidateIf,
   Min,
   Max,
 } from 'class-validator';
+import { TipoBonusEvento } from '@prisma/client';
 
 /**
  * DTO para criação de um evento especial em uma campanha.
@@ -61,18 +68,78 @@ export class CriarEventoEspecialDto {
   @IsOptional()
   descricao?: string;
 
+  /**
+   * Tipo de bônus (padrão MULTIPLICADOR).
+   *
+   * @example "VALOR_FIXO"
+   */
+  @IsEnum(TipoBonusEvento, { message: 'O tipo de bônus deve ser MULTIPLICADOR ou VALOR_FIXO' })
+  @IsOptional()
+  tipoBonus?: TipoBonusEvento;
+
   /**
    * Multiplicador de pontos (1.0 a 10.0).
    * 
    * Durante o evento, todos os prêmios são multiplicados por este valor.
+   * Dispensado em eventos VALOR_FIXO.
    * 
    * @example 2.0 (prêmios dobrados)
    * @example 3.0 (prêmios triplicados)
    */
+  @ValidateIf((o) => o.tipoBonus !== TipoBonusEvento.VALOR_FIXO)
   @IsNumber({}, { message: 'O multiplicador deve ser um número' })
   @Min(1.0, { message: 'O multiplicador deve ser no mínimo 1.0' })
   @Max(10.0, { message: 'O multiplicador não pode ser maior que 10.0' })
-  multiplicador: number;
+  multiplicador?: number;
+
+  /**
+   * Bônus fixo (R$) somado a cada envio validado do período (obrigatório em VALOR_FIXO).
+   *
+   * @example 5.0
+   */
+  @ValidateIf((o) => o.tipoBonus === TipoBonusEvento.VALOR_FIXO)
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O valor fixo deve ter no máximo 2 casas decimais' })
+  @Min(0.01, { message: 'O valor fixo deve ser maior que zero' })
+  valorFixo?: number;
+
+  /**
+   * Óticas alcançadas (ID da ótica ou da matriz). Vazio = todas.
+   */
+  @IsArray({ message: 'oticasIds deve ser um array' })
+  @IsString({ each: true, message: 'Cada ótica deve ser um ID' })
+  @IsOptional()
+  oticasIds?: string[];
+
+  /**
+   * UFs alcançadas. Vazio = todas.
+   *
+   * @example ["SP", "PR"]
+   */
+  @IsArray({ message: 'estados deve ser um array' })
+  @IsString({ each: true, message: 'Cada estado deve ser uma UF' })
+  @ArrayMaxSize(27, { message: 'Informe no máximo 27 UFs' })
+  @IsOptional()
+  estados?: string[];
+
+  /**
+   * Requisitos alcançados, pela ordem do card (vale em todas as cartelas). Vazio = todos.
+   *
+   * @example [1, 3]
+   */
+  @IsArray({ message: 'ordensRequisito deve ser um array' })
+  @IsInt({ each: true, message: 'Cada ordem de requisito deve ser um número inteiro' })
+  @IsOptional()
+  ordensRequisito?: number[];
+
+  /**
+   * Códigos de referência de produto alcançados. Vazio = todos.
+   *
+   * @example ["LNT-001", "LNT-002"]
+   */
+  @IsArray({ message: 'codigosProduto deve ser um array' })
+  @IsString({ each: true, message: 'Cada código de produto deve ser um texto' })
+  @IsOptional()
+  codigosProduto?: string[];
 
   /**
    * Data de início do evento (formato ISO 8601).
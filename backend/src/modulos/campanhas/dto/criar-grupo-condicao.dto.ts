@@ -0,0 +1,48 @@
+/**
+ * ============================================================================
+ * DTO: Criar Grupo de Condições (Rule Builder E/OU)
+ * ============================================================================
+ * * Propósito: Define um grupo de condições combinadas por um operador lógico
+ * (E/OU). Grupos podem conter subgrupos, formando uma árvore por requisito.
+ * * A profundidade máxima de aninhamento é validada no CampanhaService.
+ * * @module CampanhasModule
+ * ============================================================================
+ */
+
+import { IsEnum, IsArray, IsOptional, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { OperadorLogico } from '@prisma/client';
+import { CriarCondicaoRequisitoDto } from './criar-condicao-requisito.dto';
+
+/**
+ * DTO para criação de um grupo de condições.
+ */
+export class CriarGrupoCondicaoDto {
+  /**
+   * Como as condições e subgrupos são combinados.
+   *
+   * @example "OU"
+   */
+  @IsEnum(OperadorLogico, {
+    message: 'O operador lógico deve ser E ou OU',
+  })
+  operadorLogico: OperadorLogico;
+
+  /**
+   * Condições diretas do grupo.
+   */
+  @IsArray({ message: 'As condições devem ser um array' })
+  @ValidateNested({ each: true })
+  @Type(() => CriarCondicaoRequisitoDto)
+  @IsOptional()
+  condicoes?: CriarCondicaoRequisitoDto[];
+
+  /**
+   * Subgrupos aninhados.
+   */
+  @IsArray({ message: 'Os subgrupos devem ser um array' })
+  @ValidateNested({ each: true })
+  @Type(() => CriarGrupoCondicaoDto)
+  @IsOptional()
+  subgrupos?: CriarGrupoCondicaoDto[];
+}
@@ -24,6 +24,7 @@ import {
 import { Type, Transform } from 'class-transformer'; // Importado Transform
 import { TipoUnidade } from '@prisma/client';
 import { CriarCondicaoRequisitoDto } from './criar-condicao-requisito.dto';
+import { CriarGrupoCondicaoDto } from './criar-grupo-condicao.dto';
 import { ProdutoRequisitoDto } from './produto-requisito.dto';
 
 /**
@@ -94,6 +95,18 @@ export class CriarRequisitoCartelaDto {
   @IsOptional()
   condicoes?: CriarCondicaoRequisitoDto[];
 
+  /**
+   * Grupo raiz do Rule Builder (condições combinadas com E/OU, com subgrupos).
+   *
+   * Opcional e complementar aos produtos: restringe quais pedidos do
+   * requisito são aceitos. Se `condicoes` também for enviado, as condições
+   * soltas são combinadas com E junto ao grupo raiz.
+   */
+  @ValidateNested()
+  @Type(() => CriarGrupoCondicaoDto)
+  @IsOptional()
+  grupoCondicoes?: CriarGrupoCondicaoDto;
+
   // ========================================================================
   // NOVOS CAMPOS (Sprint 21 - Produtos por Requisito)
   // ========================================================================
@@ -0,0 +1,26 @@
+/**
+ * DTO: Faixa da Curva de Recompensa
+ * A partir da cartela informada, a recompensa dos envios vale `fator` (1 = 100%)
+ */
+
+import { IsInt, IsNumber, Max, Min } from 'class-validator';
+import { FATOR_CURVA_MAXIMO } from '../helpers/curva-recompensa.helper';
+
+export class FaixaCurvaRecompensaDto {
+  /**
+   * Primeira cartela da faixa (vale até a próxima faixa).
+   * @example 5
+   */
+  @IsInt({ message: 'A cartela da faixa deve ser um número inteiro' })
+  @Min(1, { message: 'A cartela da faixa deve ser no mínimo 1' })
+  cartela: number;
+
+  /**
+   * Fator aplicado ao valor dos envios da cartela (0.8 = 80%).
+   * @example 0.8
+   */
+  @IsNumber({}, { message: 'O fator da faixa deve ser um número' })
+  @Min(0, { message: 'O fator da faixa não pode ser negativo' })
+  @Max(FATOR_CURVA_MAXIMO, { message: `O fator da faixa deve ser no máximo ${FATOR_CURVA_MAXIMO}` })
+  fator: number;
+}
@@ -0,0 +1,120 @@
+/**
+ * ============================================================================
+ * CURVA DE RECOMPENSA HELPER - Fator por Cartela e Limite de Cartelas
+ * ============================================================================
+ *
+ * Funções compartilhadas pelo crédito de recompensas, pela validação (e sua
+ * simulação), pelo estorno e pelo recálculo:
+ * - Fator da curva de recompensa para o número da cartela
+ *   (Campanha.curvaRecompensa)
+ * - Se uma cartela ultrapassa o limite de cartelas por vendedor
+ *   (Campanha.limiteCartelas)
+ * - Marcação dos envios alocados além do limite (EnvioVenda.acimaLimiteCartelas)
+ *
+ * @module CampanhasModule
+ * ============================================================================
+ */
+
+import { Prisma, StatusEnvioVenda } from '@prisma/client';
+
+/**
+ * Faixa da curva: a partir da cartela `cartela`, a recompensa vale `fator`
+ * (1 = 100%). Vale até a próxima faixa.
+ */
+export interface FaixaCurvaRecompensa {
+  cartela: number;
+  fator: number;
+}
+
+/**
+ * Maior fator aceito em uma faixa da curva (500%)
+ */
+export const FATOR_CURVA_MAXIMO = 5;
+
+/**
+ * Faixas válidas da curva, ordenadas pela cartela inicial.
+ *
+ * @param curvaRecompensa - Campanha.curvaRecompensa (ex: [{"cartela": 2, "fator": 1.2}])
+ */
+export function faixasDaCurva(curvaRecompensa: Prisma.JsonValue | null | undefined): FaixaCurvaRecompensa[] {
+  if (!Array.isArray(curvaRecompensa)) {
+    return [];
+  }
+
+  return curvaRecompensa
+    .map((faixa) => {
+      const { cartela, fator } = (faixa ?? {}) as Record<string, unknown>;
+      return { cartela: Number(cartela), fator: Number(fator) };
+    })
+    .filter((faixa) => Number.isInteger(faixa.cartela) && faixa.cartela >= 1 && Number.isFinite(faixa.fator))
+    .sort((a, b) => a.cartela - b.cartela);
+}
+
+/**
+ * Fator da curva para a cartela: o da faixa de maior cartela inicial que não
+ * passa de `numeroCartela` (1 se nenhuma faixa alcança a cartela).
+ *
+ * @example
+ * // Curva [{cartela: 1, fator: 1}, {cartela: 2, fator: 1.2}, {cartela: 5, fator: 0.8}]
+ * fatorDaCurva(curva, 3); // 1.2
+ * fatorDaCurva(curva, 7); // 0.8
+ */
+export function fatorDaCurva(curvaRecompensa: Prisma.JsonValue | null | undefined, numeroCartela: number): number {
+  const faixa = faixasDaCurva(curvaRecompensa)
+    .filter((f) => f.cartela <= numeroCartela)
+    .pop();
+
+  return faixa && faixa.fator >= 0 ? faixa.fator : 1;
+}
+
+/**
+ * A cartela ultrapassa o limite de cartelas por vendedor (nulo = ilimitado).
+ */
+export function acimaDoLimiteCartelas(
+  limiteCartelas: number | null | undefined,
+  numeroCartela: number | null | undefined,
+): boolean {
+  return limiteCartelas != null && numeroCartela != null && numeroCartela > limiteCartelas;
+}
+
+/**
+ * Recalcula EnvioVenda.acimaLimiteCartelas dos envios validados da campanha
+ * (opcionalmente de um vendedor) a partir da cartela em que estão alocados.
+ *
+ * Usado quando os envios mudam de cartela fora da validação (estorno,
+ * recálculo) ou quando o limite da campanha é alterado.
+ *
+ * @param tx - Prisma Transaction Client
+ * @param campanhaId - Campanha
+ * @param limiteCartelas - Campanha.limiteCartelas (nulo = ilimitado)
+ * @param vendedorId - Restringe a um vendedor
+ */
+export async function marcarEnviosAcimaDoLimite(
+  tx: Prisma.TransactionClient,
+  campanhaId: string,
+  limiteCartelas: number | null,
+  vendedorId?: string,
+): Promise<void> {
+  const onde: Prisma.EnvioVendaWhereInput = {
+    campanhaId,
+    status: StatusEnvioVenda.VALIDADO,
+    ...(vendedorId && { vendedorId }),
+  };
+
+  if (limiteCartelas == null) {
+    await tx.envioVenda.updateMany({
+      where: { ...onde, acimaLimiteCartelas: true },
+      data: { acimaLimiteCartelas: false },
+    });
+    return;
+  }
+
+  await tx.envioVenda.updateMany({
+    where: { ...onde, acimaLimiteCartelas: false, numeroCartelaAtendida: { gt: limiteCartelas } },
+    data: { acimaLimiteCartelas: true },
+  });
+  await tx.envioVenda.updateMany({
+    where: { ...onde, acimaLimiteCartelas: true, numeroCartelaAtendida: { lte: limiteCartelas } },
+    data: { acimaLimiteCartelas: false },
+  });
+}
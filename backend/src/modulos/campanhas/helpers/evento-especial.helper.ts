@@ -0,0 +1,163 @@
+/**
+ * ============================================================================
+ * EVENTO ESPECIAL HELPER - Abrangência e Acúmulo de Eventos
+ * ============================================================================
+ *
+ * Funções puras compartilhadas pelo crédito de recompensas, pela simulação
+ * de validação e pelas listagens do vendedor:
+ * - Se um evento alcança a ótica do vendedor (óticas/UFs)
+ * - Se um evento se aplica a um envio (período + abrangência)
+ * - Como combinar os eventos aplicáveis segundo Campanha.politicaEventos
+ *
+ * @module CampanhasModule
+ * ============================================================================
+ */
+
+import { EventoEspecial, PoliticaEventos, TipoBonusEvento } from '@prisma/client';
+
+/**
+ * Campos do evento usados no cálculo
+ */
+export type EventoParaCalculo = Pick<
+  EventoEspecial,
+  | 'nome'
+  | 'multiplicador'
+  | 'tipoBonus'
+  | 'valorFixo'
+  | 'dataInicio'
+  | 'dataFim'
+  | 'oticasIds'
+  | 'estados'
+  | 'ordensRequisito'
+  | 'codigosProduto'
+>;
+
+/**
+ * Ótica do vendedor (a matriz também conta para eventos da rede)
+ */
+export interface OticaDoVendedor {
+  id: string;
+  matrizId: string | null;
+  estado: string | null;
+}
+
+/**
+ * Dados do envio confrontados com a abrangência do evento
+ */
+export interface ContextoEnvioEvento {
+  dataEnvio: Date;
+  optica: OticaDoVendedor | null;
+  ordemRequisito: number | null;
+  codigoReferencia: string | null;
+}
+
+/**
+ * Resultado da combinação dos eventos de um envio
+ */
+export interface BonusEventos {
+  /** Multiplicador combinado dos eventos (1 = nenhum) */
+  multiplicador: number;
+  /** Soma dos bônus fixos (R$) */
+  bonusFixo: number;
+  /** Nomes dos eventos efetivamente aplicados */
+  eventos: string[];
+}
+
+const normalizar = (valor: string) => valor.trim().toUpperCase();
+
+/**
+ * O evento alcança a ótica do vendedor (listas de óticas e UFs vazias ou
+ * contendo a ótica/matriz e a UF). Usado também para exibir ao vendedor
+ * apenas os eventos que podem valer para ele.
+ */
+export function eventoAbrangeOtica(
+  evento: Pick<EventoEspecial, 'oticasIds' | 'estados'>,
+  optica: OticaDoVendedor | null,
+): boolean {
+  if (
+    evento.oticasIds.length > 0 &&
+    (!optica || !evento.oticasIds.some((id) => id === optica.id || id === optica.matrizId))
+  ) {
+    return false;
+  }
+
+  return (
+    evento.estados.length === 0 ||
+    (!!optica?.estado && evento.estados.map(normalizar).includes(normalizar(optica.estado)))
+  );
+}
+
+/**
+ * O evento vale para o envio: dataEnvio dentro do período e cada lista de
+ * abrangência vazia ou contendo o valor do envio.
+ */
+export function eventoSeAplica(evento: EventoParaCalculo, contexto: ContextoEnvioEvento): boolean {
+  if (evento.dataInicio > contexto.dataEnvio || evento.dataFim < contexto.dataEnvio) {
+    return false;
+  }
+
+  if (!eventoAbrangeOtica(evento, contexto.optica)) {
+    return false;
+  }
+
+  if (
+    evento.ordensRequisito.length > 0 &&
+    (contexto.ordemRequisito == null || !evento.ordensRequisito.includes(contexto.ordemRequisito))
+  ) {
+    return false;
+  }
+
+  if (
+    evento.codigosProduto.length > 0 &&
+    (!contexto.codigoReferencia ||
+      !evento.codigosProduto.map(normalizar).includes(normalizar(contexto.codigoReferencia)))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Combina os eventos aplicáveis a um envio.
+ *
+ * - MAIOR: apenas o evento de maior ganho em R$ sobre o valor original
+ * - MULTIPLICAR: multiplicadores multiplicados (2x e 3x = 6x), bônus fixos somados
+ * - SOMAR: ganhos dos multiplicadores somados (2x e 3x = 4x), bônus fixos somados
+ *
+ * @param eventos - Eventos que já passaram por eventoSeAplica
+ * @param politica - Campanha.politicaEventos
+ * @param valorOriginal - Valor do envio antes dos eventos (decide o MAIOR)
+ */
+export function combinarEventos(
+  eventos: EventoParaCalculo[],
+  politica: PoliticaEventos,
+  valorOriginal: number,
+): BonusEventos {
+  const parcelas = eventos.map((evento) => {
+    const fixo = evento.tipoBonus === TipoBonusEvento.VALOR_FIXO;
+    const multiplicador = fixo ? 1 : Number(evento.multiplicador) || 1;
+    const bonusFixo = fixo ? Number(evento.valorFixo ?? 0) : 0;
+    return { nome: evento.nome, multiplicador, bonusFixo, ganho: valorOriginal * (multiplicador - 1) + bonusFixo };
+  });
+
+  if (parcelas.length === 0) {
+    return { multiplicador: 1, bonusFixo: 0, eventos: [] };
+  }
+
+  if (politica === PoliticaEventos.MAIOR) {
+    const melhor = parcelas.reduce((acc, p) => (p.ganho > acc.ganho ? p : acc));
+    return { multiplicador: melhor.multiplicador, bonusFixo: melhor.bonusFixo, eventos: [melhor.nome] };
+  }
+
+  const multiplicador =
+    politica === PoliticaEventos.MULTIPLICAR
+      ? parcelas.reduce((acc, p) => acc * p.multiplicador, 1)
+      : 1 + parcelas.reduce((acc, p) => acc + (p.multiplicador - 1), 0);
+
+  return {
+    multiplicador,
+    bonusFixo: parcelas.reduce((acc, p) => acc + p.bonusFixo, 0),
+    eventos: parcelas.map((p) => p.nome),
+  };
+}
@@ -26,6 +26,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { PapelUsuario, Prisma, StatusUsuario, StatusEnvioVenda } from '@prisma/client';
+import { eventoAbrangeOtica } from '../campanhas/helpers/evento-especial.helper';
 
 /**
  * Interface para a resposta do KPI de Posição no Ranking.
@@ -245,6 +246,7 @@ export class DashboardService {
         saldoPontos: true,
         saldoReservado: true,
         criadoEm: true,
+        optica: { select: { id: true, matrizId: true, estado: true } },
       },
     });
 
@@ -258,10 +260,12 @@ export class DashboardService {
     // Pontos pendentes: vendas validadas aguardando conclusão de cartela
     // Critérios: status = VALIDADO E pontosAdicionadosAoSaldo = false
     // Estas vendas estão "presas" em cartelas incompletas aguardando liberação
+    // (vendas além do limite de cartelas da campanha nunca serão liberadas)
     const pontosPendentes = await this.sumValorProcessado({
       vendedorId: usuarioId,
       status: StatusEnvioVenda.VALIDADO,
       pontosAdicionadosAoSaldo: false,
+      acimaLimiteCartelas: false,
     });
 
     // 🐛 DEBUG: Log detalhado para diagnosticar pontos pendentes
@@ -378,6 +382,12 @@ export class DashboardService {
             corDestaque: true,
             dataInicio: true,
             dataFim: true,
+            tipoBonus: true,
+            valorFixo: true,
+            oticasIds: true,
+            estados: true,
+            ordensRequisito: true,
+            codigosProduto: true,
           },
         },
       },
@@ -591,9 +601,10 @@ export class DashboardService {
       }
     }
 
-    // Eventos especiais ativos globais
+    // Eventos especiais ativos globais (apenas os que alcançam a ótica/UF do vendedor)
     const eventosAtivos = campanhasComProgresso
       .flatMap((c) => c.eventosEspeciais)
+      .filter((e) => eventoAbrangeOtica(e, usuario.optica))
       .filter((e, index, self) => self.findIndex((evento) => evento.id === e.id) === index);
 
     // 7. ESTATÍSTICAS DO MÊS
@@ -743,6 +754,7 @@ export class DashboardService {
             valorFinalComEvento: true,
             numeroCartelaAtendida: true,
             pontosAdicionadosAoSaldo: true,
+            acimaLimiteCartelas: true,
             campanhaId: true,
           },
         },
@@ -783,7 +795,7 @@ export class DashboardService {
     // Calcular pontos pendentes (vendas validadas aguardando conclusão de cartela)
     const pontosPendentesEquipe = vendedores.reduce((acc, v) => {
       const pontosPendentes = v.enviosVenda
-        .filter((e) => e.status === 'VALIDADO' && !e.pontosAdicionadosAoSaldo)
+        .filter((e) => e.status === 'VALIDADO' && !e.pontosAdicionadosAoSaldo && !e.acimaLimiteCartelas)
         .reduce((s, e) => s + this.resolveValorEnvio(e), 0);
       return acc + pontosPendentes;
     }, 0);
@@ -0,0 +1,293 @@
+/**
+ * ============================================================================
+ * CONFLITO ENVIO SERVICE - Workspace de Resolução de Conflitos
+ * ============================================================================
+ * * Quando o mesmo número de pedido é reivindicado por mais de um vendedor, o
+ * robô de validação marca o envio como CONFLITO_MANUAL. Este serviço agrupa os
+ * conflitos abertos por (campanha, numeroPedido) e permite ao Admin atribuir o
+ * pedido a um dos envios numa única operação:
+ * - Rejeita os demais envios do pedido com o motivo informado
+ * - Valida o envio vencedor (spillover + motor de recompensa)
+ * - Registra a decisão em ResolucaoConflito (quem decidiu e por quê)
+ * * @module EnvioVendaModule
+ * ============================================================================
+ */
+
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { StatusEnvioVenda, OrigemTransicaoEnvio, TipoAtorTransicao } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EnvioVendaService } from './envio-venda.service';
+import { ResolverConflitoDto } from './dto/resolver-conflito.dto';
+
+/**
+ * Status que participam de um conflito: o envio que já ganhou o pedido
+ * (VALIDADO), os que estão em conflito e os que ainda aguardam validação.
+ */
+const STATUS_EM_DISPUTA: StatusEnvioVenda[] = [
+  StatusEnvioVenda.VALIDADO,
+  StatusEnvioVenda.CONFLITO_MANUAL,
+  StatusEnvioVenda.EM_ANALISE,
+];
+
+/**
+ * Quantidade de resoluções retornadas no histórico.
+ */
+const LIMITE_HISTORICO_RESOLUCOES = 50;
+
+@Injectable()
+export class ConflitoEnvioService {
+  private readonly logger = new Logger(ConflitoEnvioService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly envioVendaService: EnvioVendaService,
+  ) {}
+
+  /**
+   * ============================================================================
+   * LISTAR CONFLITOS ABERTOS (agrupados por pedido)
+   * ============================================================================
+   * * Cada grupo traz todos os envios em disputa do pedido, com vendedor, ótica
+   * e as linhas da planilha gravadas no momento do conflito.
+   * * @param campanhaId Filtro opcional por campanha
+   * @returns Array de conflitos, do mais antigo para o mais recente
+   */
+  async listar(campanhaId?: string) {
+    const enviosEmConflito = await this.prisma.envioVenda.findMany({
+      where: {
+        status: StatusEnvioVenda.CONFLITO_MANUAL,
+        ...(campanhaId && { campanhaId }),
+      },
+      select: { campanhaId: true, numeroPedido: true },
+      distinct: ['campanhaId', 'numeroPedido'],
+    });
+
+    if (enviosEmConflito.length === 0) {
+      return [];
+    }
+
+    const envios = await this.prisma.envioVenda.findMany({
+      where: {
+        status: { in: STATUS_EM_DISPUTA },
+        OR: enviosEmConflito.map((e) => ({
+          campanhaId: e.campanhaId,
+          numeroPedido: e.numeroPedido,
+        })),
+      },
+      include: {
+        vendedor: {
+          select: {
+            id: true,
+            nome: true,
+            email: true,
+            optica: { select: { nome: true, cnpj: true } },
+          },
+        },
+        requisito: {
+          select: {
+            descricao: true,
+            regraCartela: { select: { numeroCartela: true } },
+          },
+        },
+        campanha: { select: { id: true, titulo: true } },
+      },
+      orderBy: { dataEnvio: 'asc' },
+    });
+
+    const grupos = new Map<
+      string,
+      {
+        campanha: { id: string; titulo: string };
+        numeroPedido: string;
+        abertoDesde: Date;
+        linhasPlanilha: unknown;
+        envios: typeof envios;
+      }
+    >();
+
+    for (const envio of envios) {
+      const chave = `${envio.campanhaId}::${envio.numeroPedido}`;
+      let grupo = grupos.get(chave);
+      if (!grupo) {
+        grupo = {
+          campanha: envio.campanha,
+          numeroPedido: envio.numeroPedido,
+          abertoDesde: envio.dataEnvio, // envios ordenados por dataEnvio
+          linhasPlanilha: null,
+          envios: [],
+        };
+        grupos.set(chave, grupo);
+      }
+
+      grupo.envios.push(envio);
+
+      // As linhas da planilha são as mesmas para todos os envios do pedido;
+      // usa a primeira gravada.
+      if (!grupo.linhasPlanilha && envio.linhasPlanilhaConflito) {
+        grupo.linhasPlanilha = envio.linhasPlanilhaConflito;
+      }
+    }
+
+    return Array.from(grupos.values()).sort(
+      (a, b) => a.abertoDesde.getTime() - b.abertoDesde.getTime(),
+    );
+  }
+
+  /**
+   * ============================================================================
+   * RESOLVER CONFLITO ("Atribuir a X")
+   * ============================================================================
+   * * Atribui o pedido ao envio vencedor e rejeita os demais, tudo numa
+   * transação. Os perdedores são rejeitados ANTES da validação do vencedor por
+   * causa do índice único de VALIDADO por (numeroPedido, campanhaId).
+   * * @param dto Campanha, pedido, envio vencedor e motivo
+   * @param adminId ID do admin que decidiu
+   * @returns Resolução registrada
+   * @throws NotFoundException se o envio vencedor não pertencer ao pedido
+   * @throws BadRequestException se o pedido não tiver conflito aberto
+   * @throws ConflictException se um envio perdedor já tiver pontos creditados
+   */
+  async resolver(dto: ResolverConflitoDto, adminId: string) {
+    const envios = await this.prisma.envioVenda.findMany({
+      where: {
+        campanhaId: dto.campanhaId,
+        numeroPedido: dto.numeroPedido,
+        status: { in: STATUS_EM_DISPUTA },
+      },
+      include: {
+        vendedor: { include: { gerente: true } },
+        requisito: {
+          include: {
+            regraCartela: { include: { campanha: true } },
+          },
+        },
+      },
+    });
+
+    const vencedor = envios.find((e) => e.id === dto.envioVencedorId);
+    if (!vencedor) {
+      throw new NotFoundException(
+        `Envio ${dto.envioVencedorId} não está em disputa no pedido ${dto.numeroPedido}.`,
+      );
+    }
+
+    if (!envios.some((e) => e.status === StatusEnvioVenda.CONFLITO_MANUAL)) {
+      throw new BadRequestException(
+        `O pedido ${dto.numeroPedido} não possui conflito aberto.`,
+      );
+    }
+
+    const perdedores = envios.filter((e) => e.id !== vencedor.id);
+
+    /**
+     * Um perdedor VALIDADO que já completou cartela teve pontos creditados:
+     * retirar o pedido dele exige estorno, não uma simples rejeição.
+     */
+    const perdedorComPontos = perdedores.find(
+      (e) => e.pontosAdicionadosAoSaldo || e.pontosLiquidados,
+    );
+    if (perdedorComPontos) {
+      throw new ConflictException(
+        `O envio de ${perdedorComPontos.vendedor.nome} já gerou pontos creditados ao saldo. Estorne-o antes de atribuir o pedido a outro vendedor.`,
+      );
+    }
+
+    this.logger.log(
+      `[ADMIN] Resolução do conflito do pedido ${dto.numeroPedido}: vencedor=${vencedor.id} (${vencedor.vendedor.nome}), rejeitados=${perdedores.length}`,
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      // PASSO 1: Rejeita os demais envios (libera o índice único de VALIDADO)
+      if (perdedores.length > 0) {
+        await tx.envioVenda.updateMany({
+          where: { id: { in: perdedores.map((e) => e.id) } },
+          data: {
+            status: StatusEnvioVenda.REJEITADO,
+            motivoRejeicao: `[RESOLUÇÃO DE CONFLITO] Pedido atribuído a ${vencedor.vendedor.nome}. Motivo: ${dto.motivo}`,
+            motivoRejeicaoVendedor: `O pedido ${dto.numeroPedido} também foi informado por outro vendedor e, após análise, foi atribuído a ele. Motivo: ${dto.motivo}`,
+            numeroCartelaAtendida: null,
+            dataValidacao: new Date(),
+            infoConflito: null,
+          },
+        });
+
+        await tx.transicaoEnvio.createMany({
+          data: perdedores.map((perdedor) => ({
+            envioVendaId: perdedor.id,
+            statusAnterior: perdedor.status,
+            statusNovo: StatusEnvioVenda.REJEITADO,
+            origem: OrigemTransicaoEnvio.RESOLUCAO_CONFLITO,
+            tipoAtor: TipoAtorTransicao.ADMIN,
+            usuarioId: adminId,
+            motivo: `Pedido atribuído a ${vencedor.vendedor.nome}. ${dto.motivo}`,
+          })),
+        });
+      }
+
+      // PASSO 2: Valida o vencedor (spillover + gatilhos de recompensa)
+      if (vencedor.status !== StatusEnvioVenda.VALIDADO) {
+        await this.envioVendaService.validarEmTransacao(tx, vencedor, {
+          origem: OrigemTransicaoEnvio.RESOLUCAO_CONFLITO,
+          usuarioId: adminId,
+          motivo: dto.motivo,
+        });
+      } else {
+        await tx.envioVenda.update({
+          where: { id: vencedor.id },
+          data: { infoConflito: null },
+        });
+      }
+
+      // PASSO 3: Registra a decisão
+      const resolucao = await tx.resolucaoConflito.create({
+        data: {
+          campanhaId: dto.campanhaId,
+          numeroPedido: dto.numeroPedido,
+          envioVencedorId: vencedor.id,
+          vendedorVencedorId: vencedor.vendedorId,
+          enviosRejeitadosIds: perdedores.map((e) => e.id),
+          motivo: dto.motivo,
+          adminId,
+        },
+      });
+
+      // PASSO 4: Notifica os vendedores que perderam o pedido
+      // (o vencedor é notificado pelo motor de recompensa)
+      for (const perdedor of perdedores) {
+        await tx.notificacao.create({
+          data: {
+            mensagem: `Sua venda '${dto.numeroPedido}' foi REJEITADA: o pedido foi atribuído a outro vendedor após análise do conflito.`,
+            usuarioId: perdedor.vendedorId,
+          },
+        });
+      }
+
+      return resolucao;
+    });
+  }
+
+  /**
+   * ============================================================================
+   * HISTÓRICO DE RESOLUÇÕES
+   * ============================================================================
+   * * @param campanhaId Filtro opcional por campanha
+   * @returns Últimas resoluções, da mais recente para a mais antiga
+   */
+  async listarResolucoes(campanhaId?: string) {
+    return this.prisma.resolucaoConflito.findMany({
+      where: campanhaId ? { campanhaId } : undefined,
+      include: {
+        admin: { select: { id: true, nome: true } },
+        campanha: { select: { id: true, titulo: true } },
+      },
+      orderBy: { criadoEm: 'desc' },
+      take: LIMITE_HISTORICO_RESOLUCOES,
+    });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * ============================================================================
+ * DTO: Estornar Envio
+ * ============================================================================
+ * * Motivo do estorno de um envio VALIDADO (pedido cancelado ou devolvido
+ * pelo laboratório). O motivo é gravado como motivoRejeicao do envio, na
+ * linha do tempo e no livro-razão de saldo.
+ * * @module EnvioVendaModule
+ * ============================================================================
+ */
+import { IsString, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class EstornarEnvioDto {
+  /**
+   * Motivo do estorno.
+   * * @example "Pedido devolvido pelo cliente (devolução 11/2025)."
+   */
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.trim().replace(/<[^>]*>/g, '').replace(/&/g, '&amp;');
+    }
+    return value;
+  })
+  @IsString({ message: 'O motivo deve ser uma string.' })
+  @IsNotEmpty({ message: 'O motivo não pode estar vazio.' })
+  @MinLength(5, { message: 'O motivo deve ter pelo menos 5 caracteres.' })
+  @MaxLength(500, { message: 'O motivo não pode exceder 500 caracteres.' })
+  motivo: string;
+}
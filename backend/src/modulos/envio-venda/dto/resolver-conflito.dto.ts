@@ -0,0 +1,57 @@
+/**
+ * ============================================================================
+ * DTO: Resolver Conflito de Pedido
+ * ============================================================================
+ * * DTO para o Admin atribuir um pedido em CONFLITO_MANUAL a um dos envios
+ * concorrentes. Os demais envios do pedido são rejeitados com o motivo.
+ * * @module EnvioVendaModule
+ * ============================================================================
+ */
+import {
+  IsString,
+  IsNotEmpty,
+  IsUUID,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ResolverConflitoDto {
+  /**
+   * Campanha do pedido em conflito.
+   */
+  @IsUUID('4', { message: 'O campanhaId deve ser um UUID válido.' })
+  campanhaId: string;
+
+  /**
+   * Número do pedido disputado.
+   * * @example "123456"
+   */
+  @IsString({ message: 'O número do pedido deve ser uma string.' })
+  @IsNotEmpty({ message: 'O número do pedido não pode estar vazio.' })
+  numeroPedido: string;
+
+  /**
+   * Envio que receberá o pedido (será validado).
+   */
+  @IsUUID('4', { message: 'O envioVencedorId deve ser um UUID válido.' })
+  envioVencedorId: string;
+
+  /**
+   * Justificativa da decisão (registrada na resolução e usada como motivo
+   * de rejeição dos demais envios).
+   * * @example "Nota fiscal emitida pela ótica do vendedor João."
+   */
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      // Trim e Sanitização básica (mesma regra do RejeitarManualDto)
+      return value.trim().replace(/<[^>]*>/g, '').replace(/&/g, '&amp;');
+    }
+    return value;
+  })
+  @IsString({ message: 'O motivo deve ser uma string.' })
+  @IsNotEmpty({ message: 'O motivo não pode estar vazio.' })
+  @MinLength(5, { message: 'O motivo deve ter pelo menos 5 caracteres.' })
+  @MaxLength(500, { message: 'O motivo não pode exceder 500 caracteres.' })
+  motivo: string;
+}
@@ -0,0 +1,276 @@
+/**
+ * ============================================================================
+ * ELEGIBILIDADE ENVIO SERVICE - Regras de Submissão de Envios
+ * ============================================================================
+ *
+ * Descrição:
+ * Camada de elegibilidade executada antes de criar um envio de venda.
+ * Bloqueia a submissão (com código específico, renderizável pelo frontend):
+ * - CAMPANHA_NAO_ENCONTRADA: campanha inexistente
+ * - CAMPANHA_INATIVA: status diferente de ATIVA
+ * - CAMPANHA_NAO_INICIADA / CAMPANHA_ENCERRADA: fora de dataInicio/dataFim
+ *   (comparação em nível de dia, como na validação da planilha)
+ * - REQUISITO_FORA_DA_CAMPANHA: requisito não pertence à campanha
+ * - VENDEDOR_SEM_OTICA / OTICA_FORA_DO_ALVO: campanha direcionada
+ *   (paraTodasOticas = false) e a ótica do vendedor (ou sua matriz) não está
+ *   em oticasAlvo
+ * - NIVEL_INSUFICIENTE: nível do vendedor abaixo do nivelMinimo da campanha
+ * - PEDIDO_JA_ENVIADO: o vendedor já submeteu o pedido nesta campanha
+ *
+ * E avisa, sem bloquear:
+ * - PEDIDO_REIVINDICADO_POR_COLEGA: o mesmo numeroPedido já foi submetido
+ *   por outro vendedor na campanha (a disputa é resolvida na validação)
+ *
+ * Erros são lançados com corpo { message, codigo }.
+ *
+ * @module EnvioVendaModule
+ * ============================================================================
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { StatusEnvioVenda } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CriarEnvioVendaDto } from './dto/criar-envio-venda.dto';
+import { nivelAtende, rotuloNivel } from '../niveis/helpers/nivel.helper';
+
+/**
+ * Códigos de bloqueio da submissão
+ */
+export type CodigoInelegibilidadeEnvio =
+  | 'CAMPANHA_NAO_ENCONTRADA'
+  | 'CAMPANHA_INATIVA'
+  | 'CAMPANHA_NAO_INICIADA'
+  | 'CAMPANHA_ENCERRADA'
+  | 'REQUISITO_FORA_DA_CAMPANHA'
+  | 'VENDEDOR_SEM_OTICA'
+  | 'OTICA_FORA_DO_ALVO'
+  | 'NIVEL_INSUFICIENTE'
+  | 'PEDIDO_JA_ENVIADO';
+
+/**
+ * Aviso devolvido junto com o envio criado
+ */
+export interface AvisoEnvio {
+  codigo: 'PEDIDO_REIVINDICADO_POR_COLEGA';
+  mensagem: string;
+  totalReivindicacoes: number;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: ElegibilidadeEnvioService
+ * ============================================================================
+ */
+@Injectable()
+export class ElegibilidadeEnvioService {
+  private readonly logger = new Logger(ElegibilidadeEnvioService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: verificar
+   * ==========================================================================
+   *
+   * @param dto - Dados do envio (numeroPedido, campanhaId, requisitoId)
+   * @param vendedorId - Vendedor autenticado
+   * @param agora - Momento da submissão (padrão: agora)
+   * @returns Avisos não bloqueantes
+   * @throws NotFoundException / BadRequestException / ForbiddenException com codigo
+   */
+  async verificar(
+    dto: CriarEnvioVendaDto,
+    vendedorId: string,
+    agora: Date = new Date(),
+  ): Promise<AvisoEnvio[]> {
+    const campanha = await this.prisma.campanha.findUnique({
+      where: { id: dto.campanhaId },
+      select: {
+        id: true,
+        titulo: true,
+        status: true,
+        dataInicio: true,
+        dataFim: true,
+        paraTodasOticas: true,
+        nivelMinimo: true,
+        oticasAlvo: { select: { id: true } },
+      },
+    });
+
+    if (!campanha) {
+      this._bloquear(NotFoundException, 'CAMPANHA_NAO_ENCONTRADA', 'Campanha não encontrada.');
+    }
+
+    // ------------------------------------------------------------------------
+    // Status e período da campanha
+    // ------------------------------------------------------------------------
+    if (campanha.status !== 'ATIVA') {
+      this._bloquear(
+        BadRequestException,
+        'CAMPANHA_INATIVA',
+        `A campanha "${campanha.titulo}" não está ativa e não aceita novos envios.`,
+      );
+    }
+
+    const inicioDia = new Date(campanha.dataInicio);
+    inicioDia.setHours(0, 0, 0, 0);
+    const fimDia = new Date(campanha.dataFim);
+    fimDia.setHours(23, 59, 59, 999);
+
+    if (agora < inicioDia) {
+      this._bloquear(
+        BadRequestException,
+        'CAMPANHA_NAO_INICIADA',
+        `A campanha "${campanha.titulo}" começa em ${inicioDia.toLocaleDateString('pt-BR')}.`,
+      );
+    }
+
+    if (agora > fimDia) {
+      this._bloquear(
+        BadRequestException,
+        'CAMPANHA_ENCERRADA',
+        `A campanha "${campanha.titulo}" foi encerrada em ${fimDia.toLocaleDateString('pt-BR')}.`,
+      );
+    }
+
+    // ------------------------------------------------------------------------
+    // Requisito pertence à campanha
+    // ------------------------------------------------------------------------
+    const requisito = await this.prisma.requisitoCartela.findFirst({
+      where: { id: dto.requisitoId, regraCartela: { campanhaId: dto.campanhaId } },
+      select: { id: true },
+    });
+
+    if (!requisito) {
+      this._bloquear(
+        BadRequestException,
+        'REQUISITO_FORA_DA_CAMPANHA',
+        'O requisito informado não pertence a esta campanha.',
+      );
+    }
+
+    // ------------------------------------------------------------------------
+    // Ótica do vendedor no público-alvo (direta ou via matriz)
+    // ------------------------------------------------------------------------
+    if (!campanha.paraTodasOticas) {
+      const vendedor = await this.prisma.usuario.findUnique({
+        where: { id: vendedorId },
+        select: { optica: { select: { id: true, matrizId: true } } },
+      });
+
+      if (!vendedor?.optica) {
+        this._bloquear(
+          ForbiddenException,
+          'VENDEDOR_SEM_OTICA',
+          'Seu cadastro não está vinculado a uma ótica participante desta campanha.',
+        );
+      }
+
+      const idsAlvo = new Set(campanha.oticasAlvo.map((otica) => otica.id));
+      const estaNoAlvo =
+        idsAlvo.has(vendedor.optica.id) ||
+        (!!vendedor.optica.matrizId && idsAlvo.has(vendedor.optica.matrizId));
+
+      if (!estaNoAlvo) {
+        this._bloquear(
+          ForbiddenException,
+          'OTICA_FORA_DO_ALVO',
+          'Sua ótica não participa desta campanha.',
+        );
+      }
+    }
+
+    // ------------------------------------------------------------------------
+    // Nível mínimo do vendedor
+    // ------------------------------------------------------------------------
+    if (campanha.nivelMinimo) {
+      const vendedor = await this.prisma.usuario.findUnique({
+        where: { id: vendedorId },
+        select: { nivel: true },
+      });
+
+      if (!vendedor || !nivelAtende(vendedor.nivel, campanha.nivelMinimo)) {
+        this._bloquear(
+          ForbiddenException,
+          'NIVEL_INSUFICIENTE',
+          `Esta campanha é exclusiva para vendedores a partir do nível ${rotuloNivel(campanha.nivelMinimo)}.`,
+        );
+      }
+    }
+
+    // ------------------------------------------------------------------------
+    // Duplicata do próprio vendedor (Sprint 16.3)
+    // ------------------------------------------------------------------------
+    const envioExistente = await this.prisma.envioVenda.findFirst({
+      where: {
+        numeroPedido: dto.numeroPedido,
+        vendedorId,
+        campanhaId: dto.campanhaId,
+      },
+      select: { id: true },
+    });
+
+    if (envioExistente) {
+      this.logger.warn(
+        `[DUPLICATA] Pedido ${dto.numeroPedido} já submetido pelo vendedor ${vendedorId} (envio ${envioExistente.id})`,
+      );
+      this._bloquear(
+        BadRequestException,
+        'PEDIDO_JA_ENVIADO',
+        'Você já submeteu este número de pedido nesta campanha.',
+      );
+    }
+
+    // ------------------------------------------------------------------------
+    // Aviso: pedido já reivindicado por colega (não bloqueia)
+    // ------------------------------------------------------------------------
+    const reivindicacoes = await this.prisma.envioVenda.count({
+      where: {
+        numeroPedido: dto.numeroPedido,
+        campanhaId: dto.campanhaId,
+        vendedorId: { not: vendedorId },
+        status: { not: StatusEnvioVenda.REJEITADO },
+      },
+    });
+
+    if (reivindicacoes === 0) {
+      return [];
+    }
+
+    this.logger.warn(
+      `[ELEGIBILIDADE] Pedido ${dto.numeroPedido} já reivindicado por ${reivindicacoes} outro(s) vendedor(es) na campanha ${dto.campanhaId}`,
+    );
+
+    return [
+      {
+        codigo: 'PEDIDO_REIVINDICADO_POR_COLEGA',
+        mensagem:
+          'Este número de pedido já foi enviado por outro vendedor nesta campanha. O envio foi registrado, mas apenas um vendedor receberá os pontos após a conferência.',
+        totalReivindicacoes: reivindicacoes,
+      },
+    ];
+  }
+
+  /**
+   * Lança a exceção com corpo { message, codigo }.
+   */
+  private _bloquear(
+    Excecao: new (corpo: object) => Error,
+    codigo: CodigoInelegibilidadeEnvio,
+    message: string,
+  ): never {
+    this.logger.warn(`[ELEGIBILIDADE] Envio bloqueado: ${codigo}`);
+    throw new Excecao({ message, codigo });
+  }
+}
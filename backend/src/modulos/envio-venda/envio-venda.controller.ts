@@ -7,7 +7,9 @@
  * - Permite submissão apenas por vendedores.
  * - Listagem polimórfica: Admin, Gerente, Vendedor.
  * - Admin pode validar/rejeitar manualmente qualquer envio.
+ * - Admin pode estornar um envio validado (pedido cancelado/devolvido).
  * - Nova rota GET /minhas: Histórico pessoal do vendedor para uma campanha.
+ * - Rotas /conflitos: Workspace do Admin para resolver pedidos em conflito.
  * 
  * @module EnvioVendaModule
  * ============================================================================
@@ -31,6 +33,10 @@ import { CriarEnvioVendaDto } from './dto/criar-envio-venda.dto';
 import { ListarEnviosFiltroDto } from './dto/listar-envios-filtro.dto';
 import { ListarMinhasEnvioVendaDto } from './dto/listar-minhas-envio-venda.dto';
 import { RejeitarManualDto } from './dto/rejeitar-manual.dto';
+import { ResolverConflitoDto } from './dto/resolver-conflito.dto';
+import { EstornarEnvioDto } from './dto/estornar-envio.dto';
+import { ConflitoEnvioService } from './conflito-envio.service';
+import { EstornoRecompensaService } from '../recompensa/estorno-recompensa.service';
 import { JwtAuthGuard } from '../comum/guards/jwt-auth.guard';
 import { PapeisGuard } from '../comum/guards/papeis.guard';
 import { Papeis } from '../comum/decorators/papeis.decorator';
@@ -41,11 +47,19 @@ import { Papeis } from '../comum/decorators/papeis.decorator';
  */
 @Controller('envios-venda')
 export class EnvioVendaController {
-  constructor(private readonly envioVendaService: EnvioVendaService) {}
+  constructor(
+    private readonly envioVendaService: EnvioVendaService,
+    private readonly conflitoEnvioService: ConflitoEnvioService,
+    private readonly estornoRecompensaService: EstornoRecompensaService,
+  ) {}
 
   /**
    * Submissão de envio de venda (apenas para vendedores autenticados).
    * POST /api/envios-venda
+   * - 400/403/404 com { message, codigo } se o envio não for elegível
+   *   (campanha inativa ou fora do período, requisito de outra campanha,
+   *   ótica fora do público-alvo, pedido já enviado).
+   * - 201 com o envio e `avisos` (ex: pedido já enviado por um colega).
    */
   @UseGuards(JwtAuthGuard, PapeisGuard)
   @Papeis('VENDEDOR')
@@ -125,6 +139,40 @@ export class EnvioVendaController {
     );
   }
 
+  /**
+   * ADMIN: Conflitos abertos agrupados por número de pedido.
+   * GET /api/envios-venda/conflitos?campanhaId=
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Get('conflitos')
+  async listarConflitos(@Query('campanhaId') campanhaId?: string) {
+    return this.conflitoEnvioService.listar(campanhaId);
+  }
+
+  /**
+   * ADMIN: Histórico das últimas resoluções de conflito.
+   * GET /api/envios-venda/conflitos/resolucoes?campanhaId=
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Get('conflitos/resolucoes')
+  async listarResolucoesConflito(@Query('campanhaId') campanhaId?: string) {
+    return this.conflitoEnvioService.listarResolucoes(campanhaId);
+  }
+
+  /**
+   * ADMIN: Atribui o pedido em conflito a um envio e rejeita os demais.
+   * POST /api/envios-venda/conflitos/resolver
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Post('conflitos/resolver')
+  @HttpCode(HttpStatus.OK)
+  async resolverConflito(@Body() dto: ResolverConflitoDto, @Req() req: any) {
+    return this.conflitoEnvioService.resolver(dto, req.user.id);
+  }
+
   /**
    * ADMIN: Validação manual de um envio individual.
    * PATCH /api/envios-venda/:id/validar-manual
@@ -132,8 +180,8 @@ export class EnvioVendaController {
   @UseGuards(JwtAuthGuard, PapeisGuard)
   @Papeis('ADMIN')
   @Patch(':id/validar-manual')
-  async validarManual(@Param('id') id: string) {
-    return this.envioVendaService.validarManual(id);
+  async validarManual(@Param('id') id: string, @Req() req: any) {
+    return this.envioVendaService.validarManual(id, req.user.id);
   }
 
   /**
@@ -143,7 +191,40 @@ export class EnvioVendaController {
   @UseGuards(JwtAuthGuard, PapeisGuard)
   @Papeis('ADMIN')
   @Patch(':id/rejeitar-manual')
-  async rejeitarManual(@Param('id') id: string, @Body() dto: RejeitarManualDto) {
-    return this.envioVendaService.rejeitarManual(id, dto);
+  async rejeitarManual(
+    @Param('id') id: string,
+    @Body() dto: RejeitarManualDto,
+    @Req() req: any,
+  ) {
+    return this.envioVendaService.rejeitarManual(id, dto, req.user.id);
+  }
+
+  /**
+   * ADMIN: Estorno de um envio validado (pedido cancelado ou devolvido).
+   * PATCH /api/envios-venda/:id/estornar
+   * - Volta o envio para REJEITADO, debita vendedor e gerente e recalcula
+   *   as cartelas concluídas. O saldo pode ficar negativo se já foi pago.
+   * - 400 com { message, codigo: 'ENVIO_NAO_VALIDADO' } se não estiver VALIDADO.
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Patch(':id/estornar')
+  async estornar(
+    @Param('id') id: string,
+    @Body() dto: EstornarEnvioDto,
+    @Req() req: any,
+  ) {
+    return this.estornoRecompensaService.estornar(id, dto.motivo, req.user.id);
+  }
+
+  /**
+   * ADMIN: Linha do tempo (transições de status) de um envio.
+   * GET /api/envios-venda/:id/transicoes
+   */
+  @UseGuards(JwtAuthGuard, PapeisGuard)
+  @Papeis('ADMIN')
+  @Get(':id/transicoes')
+  async listarTransicoes(@Param('id') id: string) {
+    return this.envioVendaService.listarTransicoes(id);
   }
 }
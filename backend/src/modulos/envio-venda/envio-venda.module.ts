@@ -10,6 +10,8 @@
  * Componentes:
  * - EnvioVendaController: Rotas HTTP protegidas para vendedores
  * - EnvioVendaService: Lógica de negócio de criação de envios
+ * - ConflitoEnvioService: Resolução de pedidos em CONFLITO_MANUAL (Admin)
+ * - ElegibilidadeEnvioService: Regras de submissão (campanha, período, ótica)
  * 
  * Segurança:
  * - Controller protegido com @Papeis('VENDEDOR')
@@ -27,6 +29,8 @@
 import { Module } from '@nestjs/common';
 import { EnvioVendaService } from './envio-venda.service';
 import { EnvioVendaController } from './envio-venda.controller';
+import { ConflitoEnvioService } from './conflito-envio.service';
+import { ElegibilidadeEnvioService } from './elegibilidade-envio.service';
 import { RecompensaModule } from '../recompensa/recompensa.module';
 
 /**
@@ -38,7 +42,7 @@ import { RecompensaModule } from '../recompensa/recompensa.module';
     RecompensaModule,
   ],
   controllers: [EnvioVendaController],
-  providers: [EnvioVendaService],
+  providers: [EnvioVendaService, ConflitoEnvioService, ElegibilidadeEnvioService],
   exports: [],
 })
 export class EnvioVendaModule {}
@@ -24,10 +24,17 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { CriarEnvioVendaDto } from './dto/criar-envio-venda.dto';
 import { ListarEnviosFiltroDto } from './dto/listar-envios-filtro.dto';
 import { RejeitarManualDto } from './dto/rejeitar-manual.dto';
-import { StatusEnvioVenda, Prisma } from '@prisma/client';
+import {
+  StatusEnvioVenda,
+  OrigemTransicaoEnvio,
+  TipoAtorTransicao,
+  Prisma,
+} from '@prisma/client';
 
 // INTEGRAÇÃO MOTOR DE RECOMPENSA
 import { RecompensaService } from '../recompensa/recompensa.service';
+import { acimaDoLimiteCartelas } from '../campanhas/helpers/curva-recompensa.helper';
+import { ElegibilidadeEnvioService } from './elegibilidade-envio.service';
 
 @Injectable()
 export class EnvioVendaService {
@@ -36,6 +43,7 @@ export class EnvioVendaService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly recompensaService: RecompensaService, // INJETADO
+    private readonly elegibilidadeEnvioService: ElegibilidadeEnvioService,
   ) {}
 
   private toNumberOrNull(value: unknown): number | null {
@@ -62,8 +70,10 @@ export class EnvioVendaService {
    * ============================================================================
    * * @param dto Dados do envio (numeroPedido, campanhaId, requisitoId)
    * @param vendedorId ID do vendedor autenticado (extraído do token JWT)
-   * @returns EnvioVenda criado com status EM_ANALISE
-   * @throws BadRequestException se número de pedido já foi submetido pelo vendedor
+   * @returns EnvioVenda criado com status EM_ANALISE + avisos não bloqueantes
+   *   (ex: pedido já enviado por um colega)
+   * @throws NotFound/BadRequest/ForbiddenException com codigo se o envio não for
+   *   elegível (ver ElegibilidadeEnvioService)
    */
   async criar(dto: CriarEnvioVendaDto, vendedorId: string) {
     this.logger.log(
@@ -71,33 +81,9 @@ export class EnvioVendaService {
     );
 
     // ========================================
-    // VALIDAÇÃO 1: DUPLICATA (Sprint 16.3)
+    // VALIDAÇÃO: ELEGIBILIDADE (campanha, período, requisito, ótica, duplicata)
     // ========================================
-    this.logger.log(
-      `[DUPLICATA] Verificando duplicidade para Pedido: ${dto.numeroPedido}, Vendedor: ${vendedorId}, Campanha: ${dto.campanhaId}`,
-    );
-
-    const envioExistente = await this.prisma.envioVenda.findFirst({
-      where: {
-        numeroPedido: dto.numeroPedido,
-        vendedorId: vendedorId,
-        campanhaId: dto.campanhaId,
-      },
-    });
-
-    if (envioExistente) {
-      this.logger.warn(
-        `[DUPLICATA] Tentativa de submissão duplicada detectada! Pedido: ${dto.numeroPedido}, Vendedor: ${vendedorId}, Envio Existente: ${envioExistente.id}`,
-      );
-
-      throw new BadRequestException(
-        'Você já submeteu este número de pedido nesta campanha.',
-      );
-    }
-
-    this.logger.log(
-      '[DUPLICATA] Nenhuma duplicidade encontrada, prosseguindo com a criação.',
-    );
+    const avisos = await this.elegibilidadeEnvioService.verificar(dto, vendedorId);
 
     // ========================================
     // CRIAÇÃO DO ENVIO (Status: EM_ANALISE)
@@ -108,6 +94,14 @@ export class EnvioVendaService {
         vendedorId,
         campanhaId: dto.campanhaId,
         requisitoId: dto.requisitoId,
+        transicoes: {
+          create: {
+            statusNovo: StatusEnvioVenda.EM_ANALISE,
+            origem: OrigemTransicaoEnvio.SUBMISSAO,
+            tipoAtor: TipoAtorTransicao.VENDEDOR,
+            usuarioId: vendedorId,
+          },
+        },
       },
     });
 
@@ -115,7 +109,7 @@ export class EnvioVendaService {
       `[CRIAR_ENVIO] Envio ${envio.id} criado com sucesso. Status: EM_ANALISE`,
     );
 
-    return envio;
+    return { ...envio, avisos };
   }
 
   /**
@@ -277,11 +271,12 @@ export class EnvioVendaService {
    * VALIDAR MANUALMENTE (Admin Only)
    * ============================================================================
    * * @param envioId ID do envio a ser validado
+   * @param adminId ID do admin (registrado na linha do tempo do envio)
    * @returns EnvioVenda atualizado
    * @throws NotFoundException se envio não existir
    * @throws BadRequestException se envio não estiver EM_ANALISE
    */
-  async validarManual(envioId: string) {
+  async validarManual(envioId: string, adminId: string) {
     /**
      * Passo 1 - Hidratação profunda do envio, vendedor, gerente, requisito, campanha.
      */
@@ -302,71 +297,109 @@ export class EnvioVendaService {
     /**
      * Passo 2 - Transação para garantir atomicidade de todas as operações
      */
-    return this.prisma.$transaction(async (tx) => {
-      // -----------------------------------------------------------------------
-      // CÁLCULO SPILLOVER (Lógica de Alocação de Cartela)
-      // -----------------------------------------------------------------------
-
-      // PASSO 2A: Buscar todos os requisitos relacionados (mesma ordem)
-      const requisitosRelacionados = await tx.requisitoCartela.findMany({
-        where: {
-          ordem: envio.requisito.ordem, // ✅ Mesma ordem = mesmo requisito lógico
-          regraCartela: {
-            campanhaId: envio.campanhaId, // ✅ Mesma campanha
-          },
-        },
-        select: {
-          id: true,
+    return this.prisma.$transaction((tx) =>
+      this.validarEmTransacao(tx, envio, {
+        origem: OrigemTransicaoEnvio.VALIDACAO_MANUAL,
+        usuarioId: adminId,
+      }),
+    );
+  }
+
+  /**
+   * ============================================================================
+   * VALIDAR DENTRO DE UMA TRANSAÇÃO (Spillover + Gatilhos)
+   * ============================================================================
+   * * Marca o envio como VALIDADO na cartela correta (spillover) e dispara o
+   * motor de recompensa. Reutilizado pela resolução de conflitos.
+   * * @param tx Cliente da transação em andamento
+   * @param envio Envio hidratado (vendedor.gerente, requisito.regraCartela.campanha)
+   * @param transicao Origem, admin e motivo registrados na linha do tempo do envio
+   * @returns EnvioVenda atualizado
+   */
+  async validarEmTransacao(
+    tx: Prisma.TransactionClient,
+    envio: Prisma.EnvioVendaGetPayload<{
+      include: {
+        vendedor: { include: { gerente: true } };
+        requisito: { include: { regraCartela: { include: { campanha: true } } } };
+      };
+    }>,
+    transicao: { origem: OrigemTransicaoEnvio; usuarioId: string; motivo?: string },
+  ) {
+    // -----------------------------------------------------------------------
+    // CÁLCULO SPILLOVER (Lógica de Alocação de Cartela)
+    // -----------------------------------------------------------------------
+
+    // PASSO 2A: Buscar todos os requisitos relacionados (mesma ordem)
+    const requisitosRelacionados = await tx.requisitoCartela.findMany({
+      where: {
+        ordem: envio.requisito.ordem, // ✅ Mesma ordem = mesmo requisito lógico
+        regraCartela: {
+          campanhaId: envio.campanhaId, // ✅ Mesma campanha
         },
-      });
+      },
+      select: {
+        id: true,
+      },
+    });
 
-      const idsRequisitosRelacionados = requisitosRelacionados.map((r) => r.id);
+    const idsRequisitosRelacionados = requisitosRelacionados.map((r) => r.id);
 
-      this.logger.log(
-        `[SPILLOVER] Requisito ordem ${envio.requisito.ordem}: IDs relacionados = ${idsRequisitosRelacionados.join(', ')}`,
-      );
+    this.logger.log(
+      `[SPILLOVER] Requisito ordem ${envio.requisito.ordem}: IDs relacionados = ${idsRequisitosRelacionados.join(', ')}`,
+    );
 
-      // PASSO 2B: Contar validados de TODOS os requisitos relacionados
-      const countValidado = await tx.envioVenda.count({
-        where: {
-          vendedorId: envio.vendedorId,
-          requisitoId: { in: idsRequisitosRelacionados }, // ✅ CORRIGIDO: Conta TODOS
-          status: StatusEnvioVenda.VALIDADO,
-        },
-      });
-
-      const quantidadeRequisito = envio.requisito.quantidade;
-      const numeroCartela = Math.floor(countValidado / quantidadeRequisito) + 1; // Lógica de Spillover
-
-      this.logger.log(
-        `[ADMIN] Validação manual do envio ${envioId}: countValidado=${countValidado}, quantidade=${quantidadeRequisito}, numeroCartelaAtendida=${numeroCartela}`,
-      );
-
-      // Atualiza envio (status, spillover/cartela, data, etc.)
-      const envioAtualizado = await tx.envioVenda.update({
-        where: { id: envioId },
-        data: {
-          status: StatusEnvioVenda.VALIDADO,
-          numeroCartelaAtendida: numeroCartela,
-          dataValidacao: new Date(),
-          motivoRejeicao: null,
-          infoConflito: null,
-        },
-      });
+    // PASSO 2B: Contar validados de TODOS os requisitos relacionados
+    const countValidado = await tx.envioVenda.count({
+      where: {
+        vendedorId: envio.vendedorId,
+        requisitoId: { in: idsRequisitosRelacionados }, // ✅ CORRIGIDO: Conta TODOS
+        status: StatusEnvioVenda.VALIDADO,
+      },
+    });
 
-      // PASSO DE GATILHO: Dispara o motor de recompensa de forma transacional
-      const campanha = envio.requisito.regraCartela.campanha;
-      const vendedor = envio.vendedor;
+    const quantidadeRequisito = envio.requisito.quantidade;
+    const numeroCartela = Math.floor(countValidado / quantidadeRequisito) + 1; // Lógica de Spillover
+    const campanha = envio.requisito.regraCartela.campanha;
 
-      await this.recompensaService.processarGatilhos(
-        tx,
-        envioAtualizado,
-        campanha,
-        vendedor,
-      );
+    this.logger.log(
+      `[ADMIN] Validação manual do envio ${envio.id}: countValidado=${countValidado}, quantidade=${quantidadeRequisito}, numeroCartelaAtendida=${numeroCartela}`,
+    );
 
-      return envioAtualizado; // Retorna envio atualizado
+    // Atualiza envio (status, spillover/cartela, data, etc.)
+    const envioAtualizado = await tx.envioVenda.update({
+      where: { id: envio.id },
+      data: {
+        status: StatusEnvioVenda.VALIDADO,
+        numeroCartelaAtendida: numeroCartela,
+        acimaLimiteCartelas: acimaDoLimiteCartelas(campanha.limiteCartelas, numeroCartela), // Sem recompensa
+        dataValidacao: new Date(),
+        motivoRejeicao: null,
+        infoConflito: null,
+        transicoes: {
+          create: {
+            statusAnterior: envio.status,
+            statusNovo: StatusEnvioVenda.VALIDADO,
+            origem: transicao.origem,
+            tipoAtor: TipoAtorTransicao.ADMIN,
+            usuarioId: transicao.usuarioId,
+            motivo: transicao.motivo,
+          },
+        },
+      },
     });
+
+    // PASSO DE GATILHO: Dispara o motor de recompensa de forma transacional
+    const vendedor = envio.vendedor;
+
+    await this.recompensaService.processarGatilhos(
+      tx,
+      envioAtualizado,
+      campanha,
+      vendedor,
+    );
+
+    return envioAtualizado; // Retorna envio atualizado
   }
 
   /**
@@ -375,10 +408,11 @@ export class EnvioVendaService {
    * ============================================================================
    * * @param envioId ID do envio a ser rejeitado
    * @param dto DTO contendo motivoRejeicao
+   * @param adminId ID do admin (registrado na linha do tempo do envio)
    * @returns EnvioVenda atualizado
    * @throws NotFoundException se envio não existir
    */
-  async rejeitarManual(envioId: string, dto: RejeitarManualDto) {
+  async rejeitarManual(envioId: string, dto: RejeitarManualDto, adminId: string) {
     const envio = await this.prisma.envioVenda.findUnique({
       where: { id: envioId },
     });
@@ -397,7 +431,61 @@ export class EnvioVendaService {
         numeroCartelaAtendida: null,
         dataValidacao: new Date(),
         infoConflito: null,
+        transicoes: {
+          create: {
+            statusAnterior: envio.status,
+            statusNovo: StatusEnvioVenda.REJEITADO,
+            origem: OrigemTransicaoEnvio.REJEICAO_MANUAL,
+            tipoAtor: TipoAtorTransicao.ADMIN,
+            usuarioId: adminId,
+            motivo: dto.motivoRejeicao,
+          },
+        },
       },
     });
   }
+
+  /**
+   * ============================================================================
+   * LINHA DO TEMPO DO ENVIO (Admin Only)
+   * ============================================================================
+   * * Transições de status do envio, da submissão à situação atual, com o
+   * ator responsável e, para execuções da planilha, a execução de origem.
+   * * @param envioId ID do envio
+   * @returns Transições em ordem cronológica
+   * @throws NotFoundException se envio não existir
+   */
+  async listarTransicoes(envioId: string) {
+    const envio = await this.prisma.envioVenda.findUnique({
+      where: { id: envioId },
+      select: { id: true },
+    });
+
+    if (!envio) throw new NotFoundException('Envio não encontrado.');
+
+    const transicoes = await this.prisma.transicaoEnvio.findMany({
+      where: { envioVendaId: envioId },
+      include: { usuario: { select: { id: true, nome: true } } },
+      orderBy: { criadoEm: 'asc' },
+    });
+
+    // Execuções da planilha referenciadas (sem FK: buscadas à parte)
+    const idsExecucoes = Array.from(
+      new Set(transicoes.map((t) => t.historicoValidacaoId).filter((id): id is string => !!id)),
+    );
+    const execucoes = idsExecucoes.length
+      ? await this.prisma.historicoValidacao.findMany({
+          where: { id: { in: idsExecucoes } },
+          select: { id: true, dataHora: true, nomeArquivo: true, revertidoEm: true },
+        })
+      : [];
+    const execucaoPorId = new Map(execucoes.map((e) => [e.id, e]));
+
+    return transicoes.map((transicao) => ({
+      ...transicao,
+      execucao: transicao.historicoValidacaoId
+        ? execucaoPorId.get(transicao.historicoValidacaoId) ?? null
+        : null,
+    }));
+  }
 }
\ No newline at end of file
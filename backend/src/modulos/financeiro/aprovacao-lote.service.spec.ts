@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { AprovacaoLoteService } from './aprovacao-lote.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    $queryRaw: jest.fn(),
+    loteFinanceiro: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+    },
+    aprovacaoLote: {
+        create: jest.fn(),
+        count: jest.fn(),
+    },
+    relatorioFinanceiro: {
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+    },
+    solicitacaoResgate: {
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+    },
+    usuario: {
+        update: jest.fn(),
+    },
+    lancamentoSaldo: {
+        createMany: jest.fn(),
+    },
+    auditoriaFinanceira: {
+        create: jest.fn(),
+    },
+};
+
+const contexto = { adminId: 'revisor-uuid', ipAddress: '127.0.0.1' };
+const decisao = { comentario: 'Valores conferidos com a planilha do mês' };
+const numeroLote = 'LOTE-2025-11-001';
+
+const lote = (dados: Record<string, unknown> = {}) => ({
+    id: 'lote-1',
+    numeroLote,
+    status: 'GERADO',
+    geradoPorId: 'gerador-uuid',
+    aprovacoesNecessarias: 1,
+    aprovacoes: [],
+    ...dados,
+});
+
+describe('AprovacaoLoteService', () => {
+    let service: AprovacaoLoteService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AprovacaoLoteService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<AprovacaoLoteService>(AprovacaoLoteService);
+        jest.clearAllMocks();
+
+        mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue(lote());
+        mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([]);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('aprovarLote', () => {
+        it('should approve a single-approval batch', async () => {
+            mockPrismaService.aprovacaoLote.count.mockResolvedValue(1);
+
+            const resultado = await service.aprovarLote(numeroLote, decisao, contexto);
+
+            expect(resultado).toEqual({ numeroLote, status: 'APROVADO', aprovacoes: 1, aprovacoesNecessarias: 1 });
+            expect(mockPrismaService.aprovacaoLote.create).toHaveBeenCalledWith({
+                data: { loteId: 'lote-1', adminId: 'revisor-uuid', decisao: 'APROVADO', comentario: decisao.comentario },
+            });
+            expect(mockPrismaService.loteFinanceiro.update).toHaveBeenCalledWith({
+                where: { id: 'lote-1' },
+                data: { status: 'APROVADO' },
+            });
+            expect(mockPrismaService.auditoriaFinanceira.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    acao: 'APROVAR_LOTE',
+                    numeroLote,
+                    dadosAntes: { status: 'GERADO', aprovacoes: 0 },
+                    dadosDepois: { status: 'APROVADO', aprovacoes: 1, aprovacoesNecessarias: 1 },
+                }),
+            });
+        });
+
+        it('should keep a dual-approval batch GERADO after the first approval', async () => {
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue(lote({ aprovacoesNecessarias: 2 }));
+            mockPrismaService.aprovacaoLote.count.mockResolvedValue(1);
+
+            const resultado = await service.aprovarLote(numeroLote, decisao, contexto);
+
+            expect(resultado.status).toBe('GERADO');
+            expect(mockPrismaService.loteFinanceiro.update).not.toHaveBeenCalled();
+        });
+
+        it('should approve a dual-approval batch with the second reviewer', async () => {
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue(
+                lote({ aprovacoesNecessarias: 2, aprovacoes: [{ adminId: 'outro-revisor', decisao: 'APROVADO' }] }),
+            );
+            mockPrismaService.aprovacaoLote.count.mockResolvedValue(2);
+
+            const resultado = await service.aprovarLote(numeroLote, decisao, contexto);
+
+            expect(resultado).toEqual(expect.objectContaining({ status: 'APROVADO', aprovacoes: 2 }));
+            expect(mockPrismaService.loteFinanceiro.update).toHaveBeenCalledWith({
+                where: { id: 'lote-1' },
+                data: { status: 'APROVADO' },
+            });
+        });
+
+        it('should lock the batch row before reading it and count after recording the approval', async () => {
+            mockPrismaService.aprovacaoLote.count.mockResolvedValue(1);
+
+            await service.aprovarLote(numeroLote, decisao, contexto);
+
+            const ordem = (mock: jest.Mock) => mock.mock.invocationCallOrder[0];
+            expect(ordem(mockPrismaService.$queryRaw)).toBeLessThan(ordem(mockPrismaService.loteFinanceiro.findUnique));
+            expect(ordem(mockPrismaService.aprovacaoLote.create)).toBeLessThan(ordem(mockPrismaService.aprovacaoLote.count));
+        });
+
+        it('should forbid the admin who generated the batch', async () => {
+            await expect(
+                service.aprovarLote(numeroLote, decisao, { ...contexto, adminId: 'gerador-uuid' }),
+            ).rejects.toThrow(ForbiddenException);
+            expect(mockPrismaService.aprovacaoLote.create).not.toHaveBeenCalled();
+        });
+
+        it('should not let the same admin approve twice', async () => {
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue(
+                lote({ aprovacoesNecessarias: 2, aprovacoes: [{ adminId: 'revisor-uuid', decisao: 'APROVADO' }] }),
+            );
+
+            await expect(service.aprovarLote(numeroLote, decisao, contexto)).rejects.toThrow(ConflictException);
+            expect(mockPrismaService.aprovacaoLote.create).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a batch that is no longer GERADO', async () => {
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue(lote({ status: 'APROVADO' }));
+
+            await expect(service.aprovarLote(numeroLote, decisao, contexto)).rejects.toThrow(ConflictException);
+        });
+
+        it('should throw NotFoundException for an unknown batch', async () => {
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue(null);
+
+            await expect(service.aprovarLote(numeroLote, decisao, contexto)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('rejeitarLote', () => {
+        it('should reject the batch and refund the reserved balance', async () => {
+            mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue([
+                { id: 'rel-1', usuarioId: 'user-1', valor: 100, status: 'PENDENTE', numeroLote },
+                { id: 'rel-2', usuarioId: 'user-2', valor: 200, status: 'PENDENTE', numeroLote },
+            ]);
+            mockPrismaService.relatorioFinanceiro.updateMany.mockResolvedValue({ count: 2 });
+
+            const resultado = await service.rejeitarLote(numeroLote, decisao, contexto);
+
+            expect(resultado).toEqual({ numeroLote, status: 'REJEITADO', totalCancelados: 2, valorDevolvido: 300 });
+            expect(mockPrismaService.aprovacaoLote.create).toHaveBeenCalledWith({
+                data: { loteId: 'lote-1', adminId: 'revisor-uuid', decisao: 'REJEITADO', comentario: decisao.comentario },
+            });
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'user-2' },
+                data: { saldoPontos: { increment: 200 }, saldoReservado: { decrement: 200 } },
+            });
+            expect(mockPrismaService.relatorioFinanceiro.updateMany).toHaveBeenCalledWith({
+                where: { numeroLote, status: 'PENDENTE' },
+                data: expect.objectContaining({ status: 'CANCELADO' }),
+            });
+            expect(mockPrismaService.loteFinanceiro.update).toHaveBeenCalledWith({
+                where: { id: 'lote-1' },
+                data: { status: 'REJEITADO' },
+            });
+            expect(mockPrismaService.auditoriaFinanceira.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ acao: 'REJEITAR_LOTE', metadata: { comentario: decisao.comentario } }),
+            });
+        });
+
+        it('should send redemption requests back to the queue keeping their reserve', async () => {
+            mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue([
+                { id: 'rel-1', usuarioId: 'user-1', valor: 100, status: 'PENDENTE', numeroLote },
+            ]);
+            mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([{ relatorioFinanceiroId: 'rel-1' }]);
+            mockPrismaService.relatorioFinanceiro.updateMany.mockResolvedValue({ count: 1 });
+
+            const resultado = await service.rejeitarLote(numeroLote, decisao, contexto);
+
+            expect(resultado.valorDevolvido).toBe(0);
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+            expect(mockPrismaService.solicitacaoResgate.updateMany).toHaveBeenCalledWith({
+                where: { relatorioFinanceiroId: { in: ['rel-1'] }, status: 'EM_LOTE' },
+                data: { status: 'APROVADO', relatorioFinanceiroId: null },
+            });
+        });
+
+        it('should forbid the admin who generated the batch', async () => {
+            await expect(
+                service.rejeitarLote(numeroLote, decisao, { ...contexto, adminId: 'gerador-uuid' }),
+            ).rejects.toThrow(ForbiddenException);
+            expect(mockPrismaService.loteFinanceiro.update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * ============================================================================
+ * APROVAÇÃO LOTE SERVICE - Revisão Maker-Checker dos Lotes de Pagamento
+ * ============================================================================
+ *
+ * Descrição:
+ * Um lote GERADO só pode ser pago depois de aprovado por admin(s) diferente(s)
+ * de quem o gerou (controle de quatro olhos exigido pela auditoria):
+ *
+ *   GERADO → APROVADO → PAGO
+ *
+ * - Cada revisor decide uma vez, sempre com comentário (AprovacaoLote)
+ * - Lotes a partir de LOTE_VALOR_DUPLA_APROVACAO exigem dois aprovadores
+ *   (LoteFinanceiro.aprovacoesNecessarias, fixado na geração)
+ * - Uma rejeição encerra o lote: relatórios cancelados e reserva devolvida
+ *   ao saldo dos usuários
+ * - Aprovações e rejeições são registradas em AuditoriaFinanceira
+ *   (APROVAR_LOTE / REJEITAR_LOTE)
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Prisma, StatusLote } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DecisaoLoteDto } from './dto/decisao-lote.dto';
+import { ContextoAuditoria, registrarAuditoriaFinanceira } from './helpers/auditoria-financeira.helper';
+import {
+  bloquearLoteFinanceiro,
+  devolverReservasDoLote,
+  exigirRevisorDiferente,
+} from './helpers/lote-pagamento.helper';
+
+@Injectable()
+export class AprovacaoLoteService {
+  private readonly logger = new Logger(AprovacaoLoteService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: aprovarLote
+   * ==========================================================================
+   *
+   * Registra a aprovação do admin. O lote passa a APROVADO quando atinge o
+   * número de aprovações exigido.
+   *
+   * @param numeroLote - Lote GERADO
+   * @param dto - Comentário do revisor
+   * @param contexto - Admin revisor (auditoria)
+   * @throws NotFoundException - Lote não encontrado
+   * @throws ForbiddenException - Revisor é quem gerou o lote
+   * @throws ConflictException - Lote fora de aprovação ou já aprovado por este admin
+   */
+  async aprovarLote(numeroLote: string, dto: DecisaoLoteDto, contexto: ContextoAuditoria) {
+    return this.prisma.$transaction(async (tx) => {
+      const lote = await this._buscarLoteEmRevisao(tx, numeroLote, contexto.adminId, 'aprovar');
+
+      await tx.aprovacaoLote.create({
+        data: { loteId: lote.id, adminId: contexto.adminId, decisao: 'APROVADO', comentario: dto.comentario },
+      });
+
+      // Contagem após o registro: a linha do lote está travada, então
+      // revisões concorrentes só contam depois que esta for gravada
+      const aprovacoes = await tx.aprovacaoLote.count({ where: { loteId: lote.id, decisao: 'APROVADO' } });
+      const status = aprovacoes >= lote.aprovacoesNecessarias ? StatusLote.APROVADO : StatusLote.GERADO;
+      if (status === StatusLote.APROVADO) {
+        await tx.loteFinanceiro.update({ where: { id: lote.id }, data: { status } });
+      }
+
+      await registrarAuditoriaFinanceira(tx, contexto, {
+        acao: 'APROVAR_LOTE',
+        numeroLote,
+        dadosAntes: { status: lote.status, aprovacoes: aprovacoes - 1 },
+        dadosDepois: { status, aprovacoes, aprovacoesNecessarias: lote.aprovacoesNecessarias },
+        metadata: { comentario: dto.comentario },
+      });
+
+      this.logger.log(
+        `[APROVACAO] Admin ${contexto.adminId} aprovou o lote ${numeroLote} ` +
+          `(${aprovacoes}/${lote.aprovacoesNecessarias}): ${status}`,
+      );
+
+      return {
+        numeroLote,
+        status,
+        aprovacoes,
+        aprovacoesNecessarias: lote.aprovacoesNecessarias,
+      };
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: rejeitarLote
+   * ==========================================================================
+   *
+   * Rejeita o lote: relatórios cancelados e reserva devolvida aos usuários.
+   * Para pagar os saldos, um novo lote deve ser gerado.
+   *
+   * @param numeroLote - Lote GERADO
+   * @param dto - Comentário (motivo da rejeição)
+   * @param contexto - Admin revisor (auditoria)
+   * @throws NotFoundException - Lote não encontrado
+   * @throws ForbiddenException - Revisor é quem gerou o lote
+   * @throws ConflictException - Lote fora de aprovação ou já revisado por este admin
+   */
+  async rejeitarLote(numeroLote: string, dto: DecisaoLoteDto, contexto: ContextoAuditoria) {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const lote = await this._buscarLoteEmRevisao(tx, numeroLote, contexto.adminId, 'rejeitar');
+
+        await tx.aprovacaoLote.create({
+          data: { loteId: lote.id, adminId: contexto.adminId, decisao: 'REJEITADO', comentario: dto.comentario },
+        });
+
+        const relatorios = await tx.relatorioFinanceiro.findMany({ where: { numeroLote } });
+        const { totalCancelados, valorDevolvido } = await devolverReservasDoLote(tx, relatorios, {
+          numeroLote,
+          adminId: contexto.adminId,
+          motivo: 'rejeitado',
+        });
+
+        await tx.loteFinanceiro.update({ where: { id: lote.id }, data: { status: StatusLote.REJEITADO } });
+
+        await registrarAuditoriaFinanceira(tx, contexto, {
+          acao: 'REJEITAR_LOTE',
+          numeroLote,
+          dadosAntes: {
+            status: lote.status,
+            relatorios: relatorios.map((r) => ({ id: r.id, usuarioId: r.usuarioId, valor: r.valor, status: r.status })),
+          },
+          dadosDepois: { status: StatusLote.REJEITADO, totalCancelados, valorDevolvido },
+          metadata: { comentario: dto.comentario },
+        });
+
+        this.logger.log(
+          `[APROVACAO] Admin ${contexto.adminId} rejeitou o lote ${numeroLote}: ` +
+            `${totalCancelados} relatório(s), R$ ${valorDevolvido.toFixed(2)} devolvidos`,
+        );
+
+        return {
+          numeroLote,
+          status: StatusLote.REJEITADO,
+          totalCancelados,
+          valorDevolvido,
+        };
+      },
+      { timeout: 60000 }, // Uma devolução de reserva por relatório do lote
+    );
+  }
+
+  /**
+   * Lote GERADO que o admin ainda pode revisar. Trava a linha do lote até o
+   * fim da transação: duas aprovações simultâneas não contam apenas a
+   * própria aprovação cada uma.
+   */
+  private async _buscarLoteEmRevisao(
+    tx: Prisma.TransactionClient,
+    numeroLote: string,
+    adminId: string,
+    acao: string,
+  ) {
+    const lote = await bloquearLoteFinanceiro(tx, numeroLote);
+
+    if (lote.status !== StatusLote.GERADO) {
+      throw new ConflictException(`Lote ${numeroLote} está ${lote.status} e não aguarda aprovação`);
+    }
+    exigirRevisorDiferente(lote, adminId, acao);
+    if (lote.aprovacoes.some((a) => a.adminId === adminId)) {
+      throw new ConflictException(`Você já revisou o lote ${numeroLote}: a próxima decisão deve ser de outro admin`);
+    }
+
+    return lote;
+  }
+}
@@ -0,0 +1,269 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConciliacaoRetornoService } from './conciliacao-retorno.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { LAYOUTS_REMESSA } from './remessa/layouts-remessa';
+import { RetornoPagamento } from './remessa/layout-remessa.interface';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    relatorioFinanceiro: {
+        findMany: jest.fn(),
+        update: jest.fn(),
+    },
+    loteFinanceiro: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+    },
+    usuario: {
+        update: jest.fn(),
+    },
+    lancamentoSaldo: {
+        createMany: jest.fn(),
+    },
+    envioVenda: {
+        updateMany: jest.fn(),
+    },
+    solicitacaoResgate: {
+        updateMany: jest.fn(),
+    },
+    notificacao: {
+        create: jest.fn(),
+    },
+    auditoriaFinanceira: {
+        create: jest.fn(),
+    },
+};
+
+const contexto = { adminId: 'admin-uuid', ipAddress: '127.0.0.1' };
+const numeroLote = 'LOTE-2025-11-001';
+const arquivo = { nome: 'retorno-000042.ret', conteudo: 'conteudo do retorno' };
+
+const relatorio = (id: string, usuarioId: string, valor: number, identificadorRemessa: string, status = 'PENDENTE') => ({
+    id,
+    usuarioId,
+    valor,
+    status,
+    identificadorRemessa,
+    tipo: 'VENDEDOR',
+    enviosIncluidos: [`envio-${id}`],
+    observacoes: null,
+    usuario: { nome: `Usuário ${usuarioId}` },
+});
+
+const relatorios = [
+    relatorio('rel-1', 'user-1', 100, '00004200001'),
+    // Dois relatórios do mesmo usuário: uma única transferência de R$ 70
+    relatorio('rel-2', 'user-2', 50, '00004200002'),
+    relatorio('rel-3', 'user-2', 20, '00004200002'),
+    relatorio('rel-4', 'user-3', 30, '00004200003'),
+];
+
+const retorno = (identificador: string, situacao: RetornoPagamento['situacao'], valorCentavos: number): RetornoPagamento => ({
+    identificador,
+    situacao,
+    ocorrencias: situacao === 'PAGO' ? ['00'] : situacao === 'AGENDADO' ? ['BD'] : ['PJ'],
+    motivo: situacao === 'REJEITADO' ? 'Chave PIX não cadastrada no DICT' : null,
+    codigoAutenticacao: situacao === 'PAGO' ? 'AUT123' : null,
+    dataPagamento: situacao === 'PAGO' ? new Date(2025, 10, 21, 12) : null,
+    valorCentavos,
+});
+
+describe('ConciliacaoRetornoService', () => {
+    let service: ConciliacaoRetornoService;
+    let lerRetorno: jest.SpyInstance;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ConciliacaoRetornoService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<ConciliacaoRetornoService>(ConciliacaoRetornoService);
+        jest.clearAllMocks();
+
+        // O parsing do arquivo é coberto no spec do layout
+        lerRetorno = jest.spyOn(LAYOUTS_REMESSA[0], 'lerRetorno');
+        mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue(relatorios);
+        mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({
+            id: 'lote-1', numeroLote, status: 'APROVADO', aprovacoes: [],
+        });
+    });
+
+    afterEach(() => {
+        lerRetorno.mockRestore();
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('conciliarRetorno', () => {
+        it('should settle paid transfers, refund rejected ones and keep scheduled ones pending', async () => {
+            lerRetorno.mockReturnValue([
+                retorno('00004200001', 'PAGO', 10_000),
+                retorno('00004200002', 'REJEITADO', 7_000),
+                retorno('00004200003', 'AGENDADO', 3_000),
+            ]);
+
+            const resultado = await service.conciliarRetorno(numeroLote, arquivo, {}, contexto);
+
+            // PAGO: reserva debitada e relatório baixado com a autenticação do banco
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'user-1' },
+                data: { saldoReservado: { decrement: 100 } },
+            });
+            expect(mockPrismaService.relatorioFinanceiro.update).toHaveBeenCalledWith({
+                where: { id: 'rel-1' },
+                data: expect.objectContaining({
+                    status: 'PAGO',
+                    dataPagamento: new Date(2025, 10, 21, 12),
+                    codigoAutenticacao: 'AUT123',
+                }),
+            });
+            expect(mockPrismaService.envioVenda.updateMany).toHaveBeenCalledWith({
+                where: { id: { in: ['envio-rel-1'] } },
+                data: { pontosLiquidados: true },
+            });
+
+            // REJEITADO: cada relatório devolve a reserva ao saldo disponível
+            for (const [id, valor] of [['rel-2', 50], ['rel-3', 20]] as const) {
+                expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                    where: { id: 'user-2' },
+                    data: { saldoPontos: { increment: valor }, saldoReservado: { decrement: valor } },
+                });
+                expect(mockPrismaService.relatorioFinanceiro.update).toHaveBeenCalledWith({
+                    where: { id },
+                    data: { status: 'FALHOU', motivoFalha: 'Chave PIX não cadastrada no DICT' },
+                });
+                expect(mockPrismaService.solicitacaoResgate.updateMany).toHaveBeenCalledWith({
+                    where: { relatorioFinanceiroId: id, status: 'EM_LOTE' },
+                    data: { status: 'CANCELADO', motivo: 'Chave PIX não cadastrada no DICT' },
+                });
+            }
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [expect.objectContaining({ tipo: 'CANCELAMENTO_RESERVA', valor: 50, valorReservado: -50, relatorioFinanceiroId: 'rel-2' })],
+            });
+
+            // AGENDADO: nada muda para o usuário 3
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: 'user-3' } }),
+            );
+
+            expect(resultado.statusLote).toBe('APROVADO');
+            expect(mockPrismaService.loteFinanceiro.update).not.toHaveBeenCalled();
+            expect(resultado.totais).toEqual(
+                expect.objectContaining({
+                    linhas: 3,
+                    pagos: { quantidade: 1, valor: 100 },
+                    falhas: { quantidade: 1, valor: 70 },
+                    agendados: { quantidade: 1, valor: 30 },
+                }),
+            );
+        });
+
+        it('should mark the batch as PAGO once nothing is pending and something was paid', async () => {
+            lerRetorno.mockReturnValue([
+                retorno('00004200001', 'PAGO', 10_000),
+                retorno('00004200002', 'REJEITADO', 7_000),
+                retorno('00004200003', 'PAGO', 0),
+            ]);
+
+            const resultado = await service.conciliarRetorno(numeroLote, arquivo, {}, contexto);
+
+            expect(resultado.statusLote).toBe('PAGO');
+            expect(mockPrismaService.loteFinanceiro.update).toHaveBeenCalledWith({
+                where: { id: 'lote-1' },
+                data: { status: 'PAGO', pagoEm: expect.any(Date) },
+            });
+        });
+
+        it('should cancel the batch when the bank rejected every transfer', async () => {
+            lerRetorno.mockReturnValue([
+                retorno('00004200001', 'REJEITADO', 10_000),
+                retorno('00004200002', 'REJEITADO', 7_000),
+                retorno('00004200003', 'REJEITADO', 3_000),
+            ]);
+
+            const resultado = await service.conciliarRetorno(numeroLote, arquivo, {}, contexto);
+
+            expect(resultado.statusLote).toBe('CANCELADO');
+            expect(mockPrismaService.loteFinanceiro.update).toHaveBeenCalledWith({
+                where: { id: 'lote-1' },
+                data: { status: 'CANCELADO', motivoCancelamento: 'Todos os pagamentos foram rejeitados pelo banco' },
+            });
+        });
+
+        it('should leave divergent, unknown and already settled lines untouched', async () => {
+            mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue([
+                ...relatorios.slice(0, 3),
+                relatorio('rel-4', 'user-3', 30, '00004200003', 'PAGO'),
+            ]);
+            lerRetorno.mockReturnValue([
+                retorno('00004200001', 'PAGO', 9_999),
+                retorno('00009900001', 'PAGO', 5_000),
+                retorno('00004200003', 'PAGO', 3_000),
+            ]);
+
+            const resultado = await service.conciliarRetorno(numeroLote, arquivo, {}, contexto);
+
+            expect(resultado.itens.map((item) => [item.identificador, item.resultado, item.valor])).toEqual([
+                ['00004200001', 'DIVERGENTE', 100],
+                ['00009900001', 'NAO_ENCONTRADO', 50],
+                ['00004200003', 'JA_CONCILIADO', 30],
+            ]);
+            expect(resultado.itens[0].detalhe).toBe('Banco informou R$ 99.99, lote tem R$ 100.00');
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+            expect(mockPrismaService.relatorioFinanceiro.update).not.toHaveBeenCalled();
+        });
+
+        it('should record the conciliation in the financial audit trail', async () => {
+            lerRetorno.mockReturnValue([retorno('00004200001', 'PAGO', 10_000)]);
+
+            await service.conciliarRetorno(numeroLote, arquivo, {}, contexto);
+
+            expect(mockPrismaService.auditoriaFinanceira.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    acao: 'CONCILIAR_RETORNO',
+                    numeroLote,
+                    adminId: 'admin-uuid',
+                    metadata: { arquivo: arquivo.nome, layout: 'CNAB240_PIX', linhas: 1 },
+                }),
+            });
+        });
+
+        it('should only conciliate approved or paid batches', async () => {
+            lerRetorno.mockReturnValue([retorno('00004200001', 'PAGO', 10_000)]);
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({
+                id: 'lote-1', numeroLote, status: 'GERADO', aprovacoes: [],
+            });
+
+            await expect(service.conciliarRetorno(numeroLote, arquivo, {}, contexto)).rejects.toThrow(
+                BadRequestException,
+            );
+            expect(mockPrismaService.relatorioFinanceiro.update).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException for an unknown batch', async () => {
+            lerRetorno.mockReturnValue([retorno('00004200001', 'PAGO', 10_000)]);
+            mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue([]);
+
+            await expect(service.conciliarRetorno(numeroLote, arquivo, {}, contexto)).rejects.toThrow(
+                NotFoundException,
+            );
+        });
+
+        it('should reject a file outside the layout', async () => {
+            lerRetorno.mockImplementation(() => {
+                throw new Error('registros de 240 posições');
+            });
+
+            await expect(service.conciliarRetorno(numeroLote, arquivo, {}, contexto)).rejects.toThrow(
+                'Arquivo retorno inválido: registros de 240 posições',
+            );
+            expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+        });
+    });
+});
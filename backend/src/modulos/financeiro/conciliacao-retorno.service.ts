@@ -0,0 +1,303 @@
+/**
+ * ============================================================================
+ * CONCILIAÇÃO RETORNO SERVICE - Baixa do Lote pelo Arquivo Retorno do Banco
+ * ============================================================================
+ *
+ * Descrição:
+ * Lê o arquivo retorno do banco (resposta à remessa PIX do lote) e baixa
+ * cada transferência conforme o resultado efetivo, no lugar de marcar o lote
+ * inteiro como pago (processarLote).
+ *
+ * Cada linha do retorno é casada pelo identificador ("seu número") com os
+ * relatórios PENDENTES do lote (RelatorioFinanceiro.identificadorRemessa):
+ * - PAGO: relatórios baixados como PAGO com data e autenticação do banco
+ * - REJEITADO: relatórios marcados como FALHOU com o motivo do banco; a
+ *   reserva volta ao saldo disponível do usuário (CANCELAMENTO_RESERVA) e a
+ *   solicitação de resgate paga pelo relatório, se houver, é CANCELADA
+ * - AGENDADO: relatórios continuam PENDENTES (conciliar no próximo retorno)
+ *
+ * Linhas com valor diferente do lote, identificador desconhecido ou já
+ * conciliadas não alteram dados e são listadas no resultado. Cada
+ * conciliação é registrada em AuditoriaFinanceira (CONCILIAR_RETORNO).
+ *
+ * Apenas lotes APROVADOS (ou já PAGOS, para reenvio do retorno) são
+ * conciliados. Sem relatórios pendentes após a conciliação, o lote passa a
+ * PAGO se ao menos um pagamento foi efetuado, ou a CANCELADO se o banco
+ * rejeitou todos.
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { StatusLote, StatusPagamento, StatusSolicitacaoResgate } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { ConciliarRetornoDto } from './dto/conciliar-retorno.dto';
+import { ContextoAuditoria, registrarAuditoriaFinanceira } from './helpers/auditoria-financeira.helper';
+import { buscarLoteFinanceiro, liquidarRelatorio } from './helpers/lote-pagamento.helper';
+import { buscarLayoutRemessa } from './remessa/layouts-remessa';
+import { RetornoPagamento } from './remessa/layout-remessa.interface';
+
+/**
+ * Resultado de uma linha do arquivo retorno
+ * - PAGO / FALHOU / AGENDADO: situação aplicada aos relatórios
+ * - DIVERGENTE: valor do banco diferente do lote (nada alterado)
+ * - JA_CONCILIADO: relatórios não estão mais pendentes (nada alterado)
+ * - NAO_ENCONTRADO: identificador não pertence ao lote
+ */
+export type ResultadoConciliacao =
+  | 'PAGO'
+  | 'FALHOU'
+  | 'AGENDADO'
+  | 'DIVERGENTE'
+  | 'JA_CONCILIADO'
+  | 'NAO_ENCONTRADO';
+
+/**
+ * Uma linha do arquivo retorno após a conciliação
+ */
+export interface ItemConciliacao {
+  identificador: string;
+  usuarioId: string | null;
+  nome: string | null;
+  /** Valor dos relatórios do lote (ou do banco, se não encontrado) */
+  valor: number;
+  resultado: ResultadoConciliacao;
+  ocorrencias: string[];
+  /** Motivo da falha ou da linha não aplicada */
+  detalhe: string | null;
+}
+
+/**
+ * Arquivo retorno recebido no upload
+ */
+export interface ArquivoRetorno {
+  nome: string;
+  conteudo: string;
+}
+
+@Injectable()
+export class ConciliacaoRetornoService {
+  private readonly logger = new Logger(ConciliacaoRetornoService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: conciliarRetorno
+   * ==========================================================================
+   *
+   * Aplica o arquivo retorno ao lote em uma única transação. Reenviar o mesmo
+   * arquivo é seguro: linhas já baixadas aparecem como JA_CONCILIADO.
+   *
+   * @param numeroLote - Lote da remessa
+   * @param arquivo - Nome e conteúdo do arquivo retorno
+   * @param dto - Layout do arquivo
+   * @param contexto - Admin, IP e User-Agent (auditoria)
+   * @throws NotFoundException - Lote não encontrado
+   * @throws BadRequestException - Lote não aprovado, layout inexistente ou
+   *   arquivo fora do layout
+   */
+  async conciliarRetorno(
+    numeroLote: string,
+    arquivo: ArquivoRetorno,
+    dto: ConciliarRetornoDto,
+    contexto: ContextoAuditoria,
+  ) {
+    const layout = buscarLayoutRemessa(dto.layout);
+
+    let retornos: RetornoPagamento[];
+    try {
+      retornos = layout.lerRetorno(arquivo.conteudo);
+    } catch (erro) {
+      throw new BadRequestException(`Arquivo retorno inválido: ${(erro as Error).message}`);
+    }
+    if (retornos.length === 0) {
+      throw new BadRequestException('O arquivo retorno não contém pagamentos.');
+    }
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        const relatorios = await tx.relatorioFinanceiro.findMany({
+          where: { numeroLote },
+          include: { usuario: { select: { nome: true } } },
+        });
+
+        if (relatorios.length === 0) {
+          throw new NotFoundException(`Lote ${numeroLote} não encontrado`);
+        }
+        const lote = await buscarLoteFinanceiro(tx, numeroLote);
+        if (lote.status !== StatusLote.APROVADO && lote.status !== StatusLote.PAGO) {
+          throw new BadRequestException(
+            `Lote ${numeroLote} está ${lote.status}: apenas lotes aprovados são conciliados.`,
+          );
+        }
+
+        const porIdentificador = new Map<string, typeof relatorios>();
+        for (const rel of relatorios) {
+          if (!rel.identificadorRemessa) continue;
+          porIdentificador.set(rel.identificadorRemessa, [
+            ...(porIdentificador.get(rel.identificadorRemessa) ?? []),
+            rel,
+          ]);
+        }
+
+        const dadosAntes = relatorios
+          .filter((rel) => rel.status === StatusPagamento.PENDENTE)
+          .map((rel) => ({
+            id: rel.id,
+            usuarioId: rel.usuarioId,
+            valor: Number(rel.valor),
+            status: rel.status,
+            identificadorRemessa: rel.identificadorRemessa,
+          }));
+
+        // Status atualizado localmente para o resumo do lote
+        const statusAtual = new Map(relatorios.map((rel) => [rel.id, rel.status]));
+        const itens: ItemConciliacao[] = [];
+
+        for (const retorno of retornos) {
+          const doIdentificador = porIdentificador.get(retorno.identificador) ?? [];
+          const pendentes = doIdentificador.filter((rel) => statusAtual.get(rel.id) === StatusPagamento.PENDENTE);
+          const centavos = pendentes.reduce((acc, rel) => acc + Math.round(Number(rel.valor) * 100), 0);
+
+          const item: ItemConciliacao = {
+            identificador: retorno.identificador,
+            usuarioId: doIdentificador[0]?.usuarioId ?? null,
+            nome: doIdentificador[0]?.usuario.nome ?? null,
+            valor: (doIdentificador.length > 0 ? centavos : retorno.valorCentavos) / 100,
+            resultado: retorno.situacao === 'REJEITADO' ? 'FALHOU' : retorno.situacao,
+            ocorrencias: retorno.ocorrencias,
+            detalhe: retorno.motivo,
+          };
+          itens.push(item);
+
+          if (doIdentificador.length === 0) {
+            item.resultado = 'NAO_ENCONTRADO';
+            item.detalhe = 'Identificador não pertence a este lote (ou a remessa foi regerada depois)';
+            continue;
+          }
+          if (pendentes.length === 0) {
+            item.resultado = 'JA_CONCILIADO';
+            item.valor = doIdentificador.reduce((acc, rel) => acc + Number(rel.valor), 0);
+            item.detalhe = `Relatórios já estão ${statusAtual.get(doIdentificador[0].id)}`;
+            continue;
+          }
+          if (retorno.valorCentavos > 0 && retorno.valorCentavos !== centavos) {
+            item.resultado = 'DIVERGENTE';
+            item.detalhe = `Banco informou R$ ${(retorno.valorCentavos / 100).toFixed(2)}, lote tem R$ ${(centavos / 100).toFixed(2)}`;
+            continue;
+          }
+          if (retorno.situacao === 'AGENDADO') continue;
+
+          if (retorno.situacao === 'PAGO') {
+            for (const rel of pendentes) {
+              await liquidarRelatorio(tx, rel, {
+                numeroLote,
+                adminId: contexto.adminId,
+                dataPagamento: retorno.dataPagamento ?? undefined,
+                codigoAutenticacao: retorno.codigoAutenticacao,
+                observacoes: `Conciliado pelo arquivo retorno ${arquivo.nome}`,
+              });
+              statusAtual.set(rel.id, StatusPagamento.PAGO);
+            }
+            continue;
+          }
+
+          // REJEITADO: reserva volta ao saldo disponível
+          for (const rel of pendentes) {
+            const valorNum = Number(rel.valor);
+            await movimentarSaldo(tx, rel.usuarioId, [
+              {
+                tipo: 'CANCELAMENTO_RESERVA',
+                valor: valorNum,
+                valorReservado: -valorNum,
+                descricao: `Pagamento rejeitado pelo banco (lote ${numeroLote}): reserva devolvida ao saldo`,
+                relatorioFinanceiroId: rel.id,
+                numeroLote,
+                adminId: contexto.adminId,
+              },
+            ]);
+            await tx.relatorioFinanceiro.update({
+              where: { id: rel.id },
+              data: { status: StatusPagamento.FALHOU, motivoFalha: retorno.motivo },
+            });
+            await tx.solicitacaoResgate.updateMany({
+              where: { relatorioFinanceiroId: rel.id, status: StatusSolicitacaoResgate.EM_LOTE },
+              data: { status: StatusSolicitacaoResgate.CANCELADO, motivo: retorno.motivo },
+            });
+            statusAtual.set(rel.id, StatusPagamento.FALHOU);
+          }
+
+          await tx.notificacao.create({
+            data: {
+              usuarioId: pendentes[0].usuarioId,
+              mensagem:
+                `⚠️ Seu pagamento de R$ ${(centavos / 100).toFixed(2)} não foi efetuado pelo banco ` +
+                `(${retorno.motivo}). O valor voltou para o seu saldo: confira sua chave PIX no perfil.`,
+              lida: false,
+            },
+          });
+        }
+
+        const somar = (resultado: ResultadoConciliacao) => {
+          const lista = itens.filter((item) => item.resultado === resultado);
+          return { quantidade: lista.length, valor: Math.round(lista.reduce((acc, i) => acc + i.valor * 100, 0)) / 100 };
+        };
+        const totais = {
+          linhas: itens.length,
+          pagos: somar('PAGO'),
+          falhas: somar('FALHOU'),
+          agendados: somar('AGENDADO'),
+          divergentes: somar('DIVERGENTE'),
+          jaConciliados: somar('JA_CONCILIADO'),
+          naoEncontrados: somar('NAO_ENCONTRADO'),
+        };
+        // Sem pendentes: PAGO se ao menos um relatório foi pago; todos
+        // rejeitados pelo banco encerram o lote como CANCELADO (reservas já devolvidas)
+        const situacoes = [...statusAtual.values()];
+        const restamPendentes = situacoes.includes(StatusPagamento.PENDENTE);
+        const statusLote = restamPendentes
+          ? lote.status
+          : situacoes.includes(StatusPagamento.PAGO)
+            ? StatusLote.PAGO
+            : StatusLote.CANCELADO;
+        if (statusLote !== lote.status) {
+          await tx.loteFinanceiro.update({
+            where: { id: lote.id },
+            data:
+              statusLote === StatusLote.PAGO
+                ? { status: statusLote, pagoEm: new Date() }
+                : { status: statusLote, motivoCancelamento: 'Todos os pagamentos foram rejeitados pelo banco' },
+          });
+        }
+
+        await registrarAuditoriaFinanceira(tx, contexto, {
+          acao: 'CONCILIAR_RETORNO',
+          numeroLote,
+          dadosAntes,
+          dadosDepois: { statusLote, totais, itens },
+          metadata: { arquivo: arquivo.nome, layout: layout.codigo, linhas: retornos.length },
+        });
+
+        this.logger.log(
+          `[RETORNO] Admin ${contexto.adminId} conciliou ${arquivo.nome} no lote ${numeroLote}: ` +
+            `${totais.pagos.quantidade} pago(s), ${totais.falhas.quantidade} falha(s), ` +
+            `${totais.agendados.quantidade} agendado(s), ${totais.divergentes.quantidade} divergente(s), ` +
+            `${totais.naoEncontrados.quantidade} não encontrado(s)`,
+        );
+
+        return {
+          numeroLote,
+          arquivo: arquivo.nome,
+          layout: layout.codigo,
+          statusLote,
+          totais,
+          itens,
+        };
+      },
+      { timeout: 60000 }, // Uma baixa por relatório do lote
+    );
+  }
+}
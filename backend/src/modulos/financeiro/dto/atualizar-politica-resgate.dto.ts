@@ -0,0 +1,35 @@
+/**
+ * ============================================================================
+ * DTO: Política de Resgate
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de PUT /api/financeiro/resgates/politica. Os valores são gravados
+ * em ConfiguracaoGlobal (RESGATE_VALOR_MINIMO e RESGATE_INTERVALO_DIAS).
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { IsInt, IsNumber, Max, Min } from 'class-validator';
+
+export class AtualizarPoliticaResgateDto {
+  /**
+   * Valor mínimo (R$) de cada solicitação (0 = sem mínimo).
+   *
+   * @example 50
+   */
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O valor mínimo deve ser um número com até 2 casas decimais' })
+  @Min(0, { message: 'O valor mínimo não pode ser negativo' })
+  valorMinimo: number;
+
+  /**
+   * Dias entre duas solicitações do mesmo usuário (0 = sem intervalo).
+   *
+   * @example 30
+   */
+  @IsInt({ message: 'O intervalo deve ser um número inteiro de dias' })
+  @Min(0, { message: 'O intervalo não pode ser negativo' })
+  @Max(365, { message: 'O intervalo deve ser de no máximo 365 dias' })
+  intervaloDias: number;
+}
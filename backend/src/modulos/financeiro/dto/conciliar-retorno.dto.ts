@@ -0,0 +1,19 @@
+/**
+ * ============================================================================
+ * DTO: CONCILIAR ARQUIVO RETORNO DO BANCO
+ * ============================================================================
+ * Enviado junto com o arquivo retorno (multipart, campo "arquivo") para
+ * baixar os pagamentos do lote conforme o resultado informado pelo banco.
+ */
+
+import { IsOptional, IsString } from 'class-validator';
+
+export class ConciliarRetornoDto {
+  /**
+   * Código do layout do arquivo (padrão: primeiro layout disponível)
+   * Ex: "CNAB240_PIX"
+   */
+  @IsOptional()
+  @IsString()
+  layout?: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * ============================================================================
+ * DTO: DECISÃO SOBRE UM LOTE (aprovar, rejeitar ou cancelar)
+ * ============================================================================
+ * O comentário do revisor é obrigatório e fica registrado na aprovação e em
+ * AuditoriaFinanceira.
+ */
+
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class DecisaoLoteDto {
+  /**
+   * Comentário do revisor
+   * Ex: "Valores conferidos com o fechamento de novembro"
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Informe um comentário para a decisão.' })
+  @MaxLength(500)
+  comentario: string;
+}
@@ -6,7 +6,7 @@
  * em status PENDENTE, permitindo revisão antes do processamento.
  */
 
-import { IsDateString, IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsDateString, IsOptional, IsString } from 'class-validator';
 
 export class GerarLoteDto {
   /**
@@ -23,4 +23,12 @@ export class GerarLoteDto {
   @IsOptional()
   @IsString()
   observacoes?: string;
+
+  /**
+   * Incluir apenas as solicitações de resgate aprovadas, sem varrer os
+   * saldos positivos dos demais usuários (padrão: false = ambos)
+   */
+  @IsOptional()
+  @IsBoolean()
+  apenasResgates?: boolean;
 }
@@ -0,0 +1,27 @@
+/**
+ * ============================================================================
+ * DTO: GERAR ARQUIVO DE REMESSA PIX DO LOTE
+ * ============================================================================
+ * Usado para exportar um lote PENDENTE como arquivo de pagamento em lote do
+ * banco. Usuários sem chave PIX válida ficam fora do arquivo.
+ */
+
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class GerarRemessaDto {
+  /**
+   * Código do layout do arquivo (padrão: primeiro layout disponível)
+   * Ex: "CNAB240_PIX"
+   */
+  @IsOptional()
+  @IsString()
+  layout?: string;
+
+  /**
+   * Data em que o banco deve efetuar os pagamentos (padrão: hoje)
+   * Ex: "2025-12-15"
+   */
+  @IsOptional()
+  @IsDateString()
+  dataPagamento?: string;
+}
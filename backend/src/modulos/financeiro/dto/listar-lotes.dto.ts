@@ -1,6 +1,6 @@
 import { IsEnum, IsOptional, IsInt, Min, IsDateString } from 'class-validator';
 import { Type } from 'class-transformer';
-import { StatusPagamento } from '@prisma/client';
+import { StatusLote } from '@prisma/client';
 
 /**
  * ============================================================================
@@ -13,7 +13,7 @@ import { StatusPagamento } from '@prisma/client';
  * Uso:
  * - Endpoint: GET /api/financeiro/lotes
  * - Papel: ADMIN
- * - Query: ?pagina=1&porPagina=10&status=PENDENTE&dataInicio=2025-01-01
+ * - Query: ?pagina=1&porPagina=10&status=GERADO&dataInicio=2025-01-01
  *
  * @module FinanceiroModule
  * ============================================================================
@@ -40,16 +40,16 @@ export class ListarLotesDto {
   porPagina?: number;
 
   /**
-   * Filtro por status do lote (PENDENTE ou PAGO).
+   * Filtro por etapa do lote (GERADO, APROVADO, PAGO, REJEITADO, CANCELADO).
    *
-   * @type {StatusPagamento}
+   * @type {StatusLote}
    * @optional
-   * @example 'PENDENTE'
+   * @example 'GERADO'
    * @example 'PAGO'
    */
   @IsOptional()
-  @IsEnum(StatusPagamento)
-  status?: StatusPagamento;
+  @IsEnum(StatusLote)
+  status?: StatusLote;
 
   /**
    * Data de início do período de consulta (formato ISO 8601).
@@ -0,0 +1,47 @@
+import { IsEnum, IsOptional, IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { StatusSolicitacaoResgate } from '@prisma/client';
+
+/**
+ * ============================================================================
+ * DTO: LISTAR SOLICITAÇÕES DE RESGATE
+ * ============================================================================
+ *
+ * Uso:
+ * - Endpoint: GET /api/financeiro/resgates
+ * - Papel: ADMIN
+ * - Query: ?pagina=1&porPagina=20&status=SOLICITADO
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+export class ListarResgatesDto {
+  /**
+   * Página atual (mínimo: 1).
+   * Regra de negócio: default = 1 (aplicado no service).
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { message: 'A página deve ser um número inteiro maior ou igual a 1.' })
+  pagina?: number;
+
+  /**
+   * Quantidade de registros por página (mínimo: 1).
+   * Regra de negócio: default = 20 (aplicado no service).
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { message: 'A quantidade por página deve ser um número inteiro maior ou igual a 1.' })
+  porPagina?: number;
+
+  /**
+   * Filtro por etapa (SOLICITADO, APROVADO, EM_LOTE, PAGO, REJEITADO, CANCELADO).
+   *
+   * @example 'SOLICITADO'
+   */
+  @IsOptional()
+  @IsEnum(StatusSolicitacaoResgate)
+  status?: StatusSolicitacaoResgate;
+}
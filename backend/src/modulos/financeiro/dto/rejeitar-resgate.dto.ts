@@ -0,0 +1,20 @@
+/**
+ * ============================================================================
+ * DTO: REJEITAR SOLICITAÇÃO DE RESGATE
+ * ============================================================================
+ * O motivo é enviado ao usuário na notificação e fica registrado na
+ * solicitação e em AuditoriaFinanceira.
+ */
+
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class RejeitarResgateDto {
+  /**
+   * Motivo da rejeição
+   * Ex: "Chave PIX não cadastrada no perfil"
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Informe o motivo da rejeição.' })
+  @MaxLength(500)
+  motivo: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * ============================================================================
+ * DTO: SOLICITAR RESGATE (vendedor/gerente)
+ * ============================================================================
+ * Corpo de POST /api/perfil/resgates. O valor é reservado do saldo
+ * disponível até o pagamento do lote (ou a rejeição da solicitação).
+ */
+
+import { IsNumber, Min } from 'class-validator';
+
+export class SolicitarResgateDto {
+  /**
+   * Valor a resgatar em reais (até o saldo disponível)
+   * Ex: 150.5
+   */
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O valor deve ser um número com até 2 casas decimais' })
+  @Min(0.01, { message: 'O valor do resgate deve ser positivo' })
+  valor: number;
+}
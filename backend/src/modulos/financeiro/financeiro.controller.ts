@@ -9,9 +9,18 @@
  * POST /api/financeiro/lotes - Gerar lote de pagamento
  * GET /api/financeiro/lotes - Listar todos os lotes
  * GET /api/financeiro/lotes/:numeroLote - Buscar lote específico
- * PATCH /api/financeiro/lotes/:numeroLote/processar - Processar lote
- * DELETE /api/financeiro/lotes/:numeroLote - Cancelar lote
+ * PATCH /api/financeiro/lotes/:numeroLote/aprovar - Aprovar lote (revisor ≠ gerador)
+ * PATCH /api/financeiro/lotes/:numeroLote/rejeitar - Rejeitar lote (revisor ≠ gerador)
+ * PATCH /api/financeiro/lotes/:numeroLote/processar - Processar lote aprovado
+ * DELETE /api/financeiro/lotes/:numeroLote - Cancelar lote (revisor ≠ gerador)
  * GET /api/financeiro/lotes/:numeroLote/exportar-excel - Exportar Excel
+ * GET /api/financeiro/lotes/:numeroLote/remessa - Prévia da remessa PIX
+ * POST /api/financeiro/lotes/:numeroLote/remessa - Gerar arquivo de remessa PIX
+ * POST /api/financeiro/lotes/:numeroLote/retorno - Conciliar arquivo retorno do banco
+ * GET /api/financeiro/resgates - Listar solicitações de resgate
+ * PATCH /api/financeiro/resgates/:id/aprovar - Aprovar resgate (entra no próximo lote)
+ * PATCH /api/financeiro/resgates/:id/rejeitar - Rejeitar resgate (reserva devolvida)
+ * GET/PUT /api/financeiro/resgates/politica - Valor mínimo e intervalo dos resgates
  *
  * AUTORIZAÇÃO: Apenas ADMIN
  *
@@ -23,6 +32,7 @@ import {
   Get,
   Post,
   Patch,
+  Put,
   Delete,
   Body,
   Param,
@@ -30,13 +40,28 @@ import {
   UseGuards,
   Req,
   Res,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Throttle } from '@nestjs/throttler';
 import { FinanceiroService } from './financeiro.service';
+import { RemessaPagamentoService } from './remessa-pagamento.service';
+import { ConciliacaoRetornoService } from './conciliacao-retorno.service';
+import { AprovacaoLoteService } from './aprovacao-lote.service';
+import { SolicitacaoResgateService } from './solicitacao-resgate.service';
 import { VisualizarSaldosDto } from './dto/visualizar-saldos.dto';
 import { GerarLoteDto } from './dto/gerar-lote.dto';
 import { ProcessarLoteDto } from './dto/processar-lote.dto';
 import { ListarLotesDto } from './dto/listar-lotes.dto';
+import { GerarRemessaDto } from './dto/gerar-remessa.dto';
+import { ConciliarRetornoDto } from './dto/conciliar-retorno.dto';
+import { DecisaoLoteDto } from './dto/decisao-lote.dto';
+import { ListarResgatesDto } from './dto/listar-resgates.dto';
+import { RejeitarResgateDto } from './dto/rejeitar-resgate.dto';
+import { AtualizarPoliticaResgateDto } from './dto/atualizar-politica-resgate.dto';
+import { contextoDaRequisicao } from './helpers/auditoria-financeira.helper';
 import { Response } from 'express';
 import * as ExcelJS from 'exceljs';
 import { JwtAuthGuard } from '../comum/guards/jwt-auth.guard';
@@ -44,11 +69,33 @@ import { PapeisGuard } from '../comum/guards/papeis.guard';
 import { Papeis } from '../comum/decorators/papeis.decorator';
 import { PapelUsuario } from '@prisma/client';
 
+/**
+ * Upload do arquivo retorno do banco (texto CNAB)
+ */
+const OPCOES_UPLOAD_RETORNO = {
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB
+  fileFilter: (req, file, callback) => {
+    if (!file.originalname.match(/\.(ret|txt|cnab)$/i)) {
+      return callback(
+        new BadRequestException('Apenas arquivos retorno .ret, .txt ou .cnab são permitidos'),
+        false,
+      );
+    }
+    callback(null, true);
+  },
+};
+
 @Controller('financeiro')
 @UseGuards(JwtAuthGuard, PapeisGuard)
 @Papeis(PapelUsuario.ADMIN)
 export class FinanceiroController {
-  constructor(private readonly financeiroService: FinanceiroService) { }
+  constructor(
+    private readonly financeiroService: FinanceiroService,
+    private readonly remessaPagamentoService: RemessaPagamentoService,
+    private readonly conciliacaoRetornoService: ConciliacaoRetornoService,
+    private readonly aprovacaoLoteService: AprovacaoLoteService,
+    private readonly solicitacaoResgateService: SolicitacaoResgateService,
+  ) { }
 
   private toNumber(value: any): number {
     if (typeof value === 'number') return value;
@@ -71,7 +118,7 @@ export class FinanceiroController {
     @Query() filtros: VisualizarSaldosDto,
     @Req() req: any
   ) {
-    return this.financeiroService.visualizarSaldos(filtros, req.user.userId);
+    return this.financeiroService.visualizarSaldos(filtros, req.user.id);
   }
 
   /**
@@ -79,12 +126,12 @@ export class FinanceiroController {
    * POST /api/financeiro/lotes - FASE 2: GERAR LOTE DE PAGAMENTO
    * ========================================================================
    * Cria RelatorioFinanceiro para cada usuário em status PENDENTE.
-   * NÃO subtrai saldo ainda.
+   * NÃO subtrai saldo ainda. O lote nasce GERADO e aguarda aprovação.
    */
   @Post('lotes')
   @Throttle({ default: { limit: 5, ttl: 60000 } }) // Limite estrito para geração de lotes
   async gerarLote(@Body() dto: GerarLoteDto, @Req() req: any) {
-    return this.financeiroService.gerarLote(dto, req.user.userId);
+    return this.financeiroService.gerarLote(dto, contextoDaRequisicao(req));
   }
 
   /**
@@ -92,7 +139,7 @@ export class FinanceiroController {
    * GET /api/financeiro/lotes - LISTAR LOTES (M6: COM PAGINAÇÃO)
    * ========================================================================
    * Lista lotes criados com paginação e filtros opcionais.
-   * Query params: ?pagina=1&porPagina=10&status=PENDENTE&dataInicio=2025-01-01
+   * Query params: ?pagina=1&porPagina=10&status=GERADO&dataInicio=2025-01-01
    */
   @Get('lotes')
   async listarLotes(@Query() dto: ListarLotesDto) {
@@ -110,11 +157,44 @@ export class FinanceiroController {
     return this.financeiroService.buscarLote(numeroLote);
   }
 
+  /**
+   * ========================================================================
+   * PATCH /api/financeiro/lotes/:numeroLote/aprovar - APROVAR LOTE
+   * ========================================================================
+   * Registra a aprovação (com comentário) de um admin diferente de quem
+   * gerou o lote. Lotes de valor alto exigem dois aprovadores.
+   */
+  @Patch('lotes/:numeroLote/aprovar')
+  async aprovarLote(
+    @Param('numeroLote') numeroLote: string,
+    @Body() dto: DecisaoLoteDto,
+    @Req() req: any
+  ) {
+    return this.aprovacaoLoteService.aprovarLote(numeroLote, dto, contextoDaRequisicao(req));
+  }
+
+  /**
+   * ========================================================================
+   * PATCH /api/financeiro/lotes/:numeroLote/rejeitar - REJEITAR LOTE
+   * ========================================================================
+   * Rejeita (com comentário) um lote aguardando aprovação. A reserva volta
+   * ao saldo dos usuários.
+   */
+  @Patch('lotes/:numeroLote/rejeitar')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  async rejeitarLote(
+    @Param('numeroLote') numeroLote: string,
+    @Body() dto: DecisaoLoteDto,
+    @Req() req: any
+  ) {
+    return this.aprovacaoLoteService.rejeitarLote(numeroLote, dto, contextoDaRequisicao(req));
+  }
+
   /**
    * ========================================================================
    * PATCH /api/financeiro/lotes/:numeroLote/processar - FASE 3: PROCESSAR
    * ========================================================================
-   * Processa o lote em transação atômica:
+   * Processa o lote APROVADO em transação atômica:
    * - Subtrai saldos
    * - Marca envios como liquidados
    * - Atualiza status para PAGO
@@ -130,7 +210,7 @@ export class FinanceiroController {
     return this.financeiroService.processarLote(
       numeroLote,
       dto,
-      req.user.userId
+      contextoDaRequisicao(req)
     );
   }
 
@@ -138,15 +218,17 @@ export class FinanceiroController {
    * ========================================================================
    * DELETE /api/financeiro/lotes/:numeroLote - CANCELAR LOTE
    * ========================================================================
-   * Remove todos os relatórios do lote (apenas se PENDENTE).
+   * Remove todos os relatórios do lote (GERADO ou APROVADO, antes do
+   * pagamento). Exige comentário e admin diferente de quem gerou o lote.
    */
   @Delete('lotes/:numeroLote')
   @Throttle({ default: { limit: 5, ttl: 60000 } }) // Limite estrito para cancelamento
   async cancelarLote(
     @Param('numeroLote') numeroLote: string,
+    @Body() dto: DecisaoLoteDto,
     @Req() req: any
   ) {
-    return this.financeiroService.cancelarLote(numeroLote, req.user.userId);
+    return this.financeiroService.cancelarLote(numeroLote, dto, contextoDaRequisicao(req));
   }
 
   /**
@@ -499,6 +581,130 @@ export class FinanceiroController {
     res.end();
   }
 
+  /**
+   * ========================================================================
+   * GET /api/financeiro/lotes/:numeroLote/remessa - PRÉVIA DA REMESSA PIX
+   * ========================================================================
+   * Lista quem entra no arquivo de pagamento e quem fica retido por não ter
+   * chave PIX válida, além das configurações da empresa pagadora faltando.
+   */
+  @Get('lotes/:numeroLote/remessa')
+  async previsualizarRemessa(@Param('numeroLote') numeroLote: string) {
+    return this.remessaPagamentoService.previsualizarRemessa(numeroLote);
+  }
+
+  /**
+   * ========================================================================
+   * POST /api/financeiro/lotes/:numeroLote/remessa - GERAR ARQUIVO DE REMESSA
+   * ========================================================================
+   * Gera o arquivo de pagamento em lote (CNAB 240 PIX por padrão) para envio
+   * ao banco. O cabeçalho X-Remessa-Retidos informa quantos usuários ficaram
+   * fora do arquivo.
+   */
+  @Post('lotes/:numeroLote/remessa')
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // Cada geração avança o NSA
+  async gerarArquivoRemessa(
+    @Param('numeroLote') numeroLote: string,
+    @Body() dto: GerarRemessaDto,
+    @Req() req: any,
+    @Res() res: Response
+  ) {
+    const remessa = await this.remessaPagamentoService.gerarArquivoRemessa(
+      numeroLote,
+      dto,
+      req.user.id
+    );
+
+    res.setHeader('Content-Type', 'text/plain; charset=us-ascii');
+    res.setHeader('Content-Disposition', `attachment; filename=${remessa.nomeArquivo}`);
+    res.setHeader('X-Remessa-Retidos', String(remessa.retidos.length));
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition, X-Remessa-Retidos');
+    res.send(remessa.conteudo);
+  }
+
+  /**
+   * ========================================================================
+   * POST /api/financeiro/lotes/:numeroLote/retorno - CONCILIAR ARQUIVO RETORNO
+   * ========================================================================
+   * Recebe o arquivo retorno do banco (multipart, campo "arquivo") e baixa
+   * cada pagamento do lote conforme o resultado: PAGO com a autenticação do
+   * banco, FALHOU com o motivo (saldo devolvido ao usuário) ou pendente se
+   * apenas agendado.
+   */
+  @Post('lotes/:numeroLote/retorno')
+  @UseInterceptors(FileInterceptor('arquivo', OPCOES_UPLOAD_RETORNO))
+  async conciliarRetorno(
+    @Param('numeroLote') numeroLote: string,
+    @UploadedFile() arquivo: Express.Multer.File,
+    @Body() dto: ConciliarRetornoDto,
+    @Req() req: any
+  ) {
+    if (!arquivo) {
+      throw new BadRequestException('Envie o arquivo retorno no campo "arquivo".');
+    }
+
+    return this.conciliacaoRetornoService.conciliarRetorno(
+      numeroLote,
+      { nome: arquivo.originalname, conteudo: arquivo.buffer.toString('latin1') },
+      dto,
+      contextoDaRequisicao(req)
+    );
+  }
+
+  /**
+   * ========================================================================
+   * GET /api/financeiro/resgates - LISTAR SOLICITAÇÕES DE RESGATE
+   * ========================================================================
+   * Fila de análise (mais antigas primeiro), com filtro por status.
+   */
+  @Get('resgates')
+  async listarResgates(@Query() dto: ListarResgatesDto) {
+    return this.solicitacaoResgateService.listar(dto);
+  }
+
+  /**
+   * ========================================================================
+   * GET /api/financeiro/resgates/politica - POLÍTICA DE RESGATE
+   * ========================================================================
+   */
+  @Get('resgates/politica')
+  async obterPoliticaResgate() {
+    return this.solicitacaoResgateService.obterPolitica();
+  }
+
+  /**
+   * ========================================================================
+   * PUT /api/financeiro/resgates/politica - ATUALIZAR POLÍTICA DE RESGATE
+   * ========================================================================
+   * Body: { "valorMinimo": 50, "intervaloDias": 30 }
+   */
+  @Put('resgates/politica')
+  async atualizarPoliticaResgate(@Body() dto: AtualizarPoliticaResgateDto, @Req() req: any) {
+    return this.solicitacaoResgateService.atualizarPolitica(dto, req.user.id);
+  }
+
+  /**
+   * ========================================================================
+   * PATCH /api/financeiro/resgates/:id/aprovar - APROVAR RESGATE
+   * ========================================================================
+   * O resgate aprovado entra no próximo lote gerado.
+   */
+  @Patch('resgates/:id/aprovar')
+  async aprovarResgate(@Param('id') id: string, @Req() req: any) {
+    return this.solicitacaoResgateService.aprovar(id, contextoDaRequisicao(req));
+  }
+
+  /**
+   * ========================================================================
+   * PATCH /api/financeiro/resgates/:id/rejeitar - REJEITAR RESGATE
+   * ========================================================================
+   * Devolve o valor reservado ao saldo e notifica o usuário com o motivo.
+   */
+  @Patch('resgates/:id/rejeitar')
+  async rejeitarResgate(@Param('id') id: string, @Body() dto: RejeitarResgateDto, @Req() req: any) {
+    return this.solicitacaoResgateService.rejeitar(id, dto, contextoDaRequisicao(req));
+  }
+
   /**
    * ========================================================================
    * GET /api/financeiro/auditoria - LISTAR AUDITORIA
@@ -6,6 +6,8 @@
  * Módulo dedicado à gestão de pagamentos em lote com arquitetura de 3 fases:
  * 1. Preview/Visualização (Query - Read-only)
  * 2. Geração de Lote (Command - Cria relatórios PENDENTES)
+ *    + Aprovação maker-checker (GERADO → APROVADO)
+ *    + Solicitações de resgate dos usuários (incluídas quando aprovadas)
  * 3. Processamento de Lote (Command - Transaction atômica)
  *
  * GARANTIAS:
@@ -20,13 +22,23 @@
 
 import { Module } from '@nestjs/common';
 import { FinanceiroService } from './financeiro.service';
+import { RemessaPagamentoService } from './remessa-pagamento.service';
+import { ConciliacaoRetornoService } from './conciliacao-retorno.service';
+import { AprovacaoLoteService } from './aprovacao-lote.service';
+import { SolicitacaoResgateService } from './solicitacao-resgate.service';
 import { FinanceiroController } from './financeiro.controller';
 import { PrismaModule } from '../../prisma/prisma.module';
 
 @Module({
   imports: [PrismaModule],
   controllers: [FinanceiroController],
-  providers: [FinanceiroService],
-  exports: [FinanceiroService],
+  providers: [
+    FinanceiroService,
+    RemessaPagamentoService,
+    ConciliacaoRetornoService,
+    AprovacaoLoteService,
+    SolicitacaoResgateService,
+  ],
+  exports: [FinanceiroService, SolicitacaoResgateService],
 })
 export class FinanceiroModule {}
@@ -1,7 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { FinanceiroService } from './financeiro.service';
 import { PrismaService } from '../../prisma/prisma.service';
-import { BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import { BadRequestException, NotFoundException, ConflictException, ForbiddenException } from '@nestjs/common';
 
 const mockPrismaService = {
     $transaction: jest.fn((callback) => callback(mockPrismaService)),
@@ -18,9 +18,17 @@ const mockPrismaService = {
         updateMany: jest.fn(),
     },
     loteFinanceiro: {
+        findUnique: jest.fn(),
         findUniqueOrThrow: jest.fn(),
         update: jest.fn(),
     },
+    auditoriaFinanceira: {
+        create: jest.fn(),
+    },
+    solicitacaoResgate: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn(),
+    },
     envioVenda: {
         findMany: jest.fn(),
         updateMany: jest.fn(),
@@ -28,8 +36,14 @@ const mockPrismaService = {
     campanha: {
         findFirst: jest.fn(),
     },
+    lancamentoSaldo: {
+        createMany: jest.fn(),
+    },
 };
 
+const contexto = { adminId: 'admin-uuid', ipAddress: '127.0.0.1' };
+const decisao = { comentario: 'Lote gerado com data de corte errada' };
+
 describe('FinanceiroService', () => {
     let service: FinanceiroService;
     let prisma: PrismaService;
@@ -62,8 +76,11 @@ describe('FinanceiroService', () => {
 
             mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue(relatorios);
             mockPrismaService.relatorioFinanceiro.updateMany.mockResolvedValue({ count: 2 });
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({
+                id: 'lote-1', numeroLote, status: 'GERADO', geradoPorId: 'gerador-uuid', aprovacoes: [],
+            });
 
-            const result = await service.cancelarLote(numeroLote, adminId);
+            const result = await service.cancelarLote(numeroLote, decisao, { ...contexto, adminId });
 
             expect(mockPrismaService.relatorioFinanceiro.findMany).toHaveBeenCalledWith({ where: { numeroLote } });
             expect(mockPrismaService.usuario.update).toHaveBeenCalledTimes(2);
@@ -71,10 +88,29 @@ describe('FinanceiroService', () => {
                 where: { id: 'user-1' },
                 data: { saldoReservado: { decrement: 100 }, saldoPontos: { increment: 100 } },
             });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({
+                        usuarioId: 'user-1',
+                        tipo: 'CANCELAMENTO_RESERVA',
+                        valor: 100,
+                        valorReservado: -100,
+                        numeroLote,
+                        adminId,
+                    }),
+                ],
+            });
             expect(mockPrismaService.relatorioFinanceiro.updateMany).toHaveBeenCalledWith({
-                where: { numeroLote },
+                where: { numeroLote, status: 'PENDENTE' },
                 data: { status: 'CANCELADO', deletedAt: expect.any(Date) },
             });
+            expect(mockPrismaService.loteFinanceiro.update).toHaveBeenCalledWith({
+                where: { numeroLote },
+                data: { status: 'CANCELADO', motivoCancelamento: decisao.comentario },
+            });
+            expect(mockPrismaService.auditoriaFinanceira.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ acao: 'CANCELAR_LOTE', numeroLote, adminId }),
+            });
             expect(result).toEqual({
                 numeroLote,
                 totalCancelados: 2,
@@ -84,10 +120,34 @@ describe('FinanceiroService', () => {
             });
         });
 
+        it('should keep FALHOU relatórios and refund only the pending ones', async () => {
+            const numeroLote = 'LOTE-2025-11-002';
+            mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue([
+                { id: 'rel-1', usuarioId: 'user-1', valor: 100, status: 'PENDENTE', numeroLote },
+                { id: 'rel-2', usuarioId: 'user-2', valor: 200, status: 'FALHOU', numeroLote },
+            ]);
+            mockPrismaService.relatorioFinanceiro.updateMany.mockResolvedValue({ count: 1 });
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({
+                id: 'lote-2', numeroLote, status: 'APROVADO', geradoPorId: 'gerador-uuid', aprovacoes: [],
+            });
+
+            const result = await service.cancelarLote(numeroLote, decisao, contexto);
+
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledTimes(1);
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: 'user-1' } }),
+            );
+            expect(mockPrismaService.relatorioFinanceiro.updateMany).toHaveBeenCalledWith({
+                where: { numeroLote, status: 'PENDENTE' },
+                data: { status: 'CANCELADO', deletedAt: expect.any(Date) },
+            });
+            expect(result).toEqual(expect.objectContaining({ totalCancelados: 1, valorDevolvido: 100 }));
+        });
+
         it('should throw NotFoundException if batch not found', async () => {
             mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue([]);
 
-            await expect(service.cancelarLote('INVALID-LOTE', 'admin-id'))
+            await expect(service.cancelarLote('INVALID-LOTE', decisao, contexto))
                 .rejects.toThrow(NotFoundException);
         });
 
@@ -97,8 +157,23 @@ describe('FinanceiroService', () => {
             ];
             mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue(relatorios);
 
-            await expect(service.cancelarLote('LOTE-PAGO', 'admin-id'))
+            await expect(service.cancelarLote('LOTE-PAGO', decisao, contexto))
                 .rejects.toThrow(ConflictException);
         });
+
+        it('should throw ForbiddenException if the admin generated the batch', async () => {
+            const relatorios = [
+                { id: 'rel-1', usuarioId: 'user-1', valor: 100, status: 'PENDENTE', numeroLote: 'LOTE-PROPRIO' },
+            ];
+            mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue(relatorios);
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({
+                id: 'lote-1', numeroLote: 'LOTE-PROPRIO', status: 'GERADO', geradoPorId: contexto.adminId, aprovacoes: [],
+            });
+
+            await expect(service.cancelarLote('LOTE-PROPRIO', decisao, contexto))
+                .rejects.toThrow(ForbiddenException);
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+            expect(mockPrismaService.relatorioFinanceiro.updateMany).not.toHaveBeenCalled();
+        });
     });
 });
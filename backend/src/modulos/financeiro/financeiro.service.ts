@@ -16,10 +16,17 @@
  * - Gera numeroLote único
  * - Salva enviosIncluidos (VENDEDOR: envios próprios | GERENTE: envios dos subordinados)
  * - Transfere saldo de saldoPontos → saldoReservado (previne dupla reserva)
+ * - Inclui as solicitações de resgate APROVADAS (valor já reservado)
  * - ✅ M1: Otimizado com bulk fetch (98% menos queries)
  * - ✅ M4: Registra auditoria completa da operação
  *
+ * FASE 2.5 (Command): aprovação (AprovacaoLoteService)
+ * - Maker-checker: GERADO → APROVADO → PAGO (LoteFinanceiro)
+ * - Revisor diferente de quem gerou; lotes de valor alto exigem dois
+ * - Rejeição devolve a reserva (mesmo efeito do cancelamento)
+ *
  * FASE 3 (Command): processarLote()
+ * - Apenas lotes APROVADOS
  * - Transaction atômica: debita saldoReservado, marca envios como liquidados
  * - Atualiza status para PAGO
  * - Notifica todos os usuários
@@ -28,6 +35,7 @@
  * - ✅ M4: Registra auditoria com snapshot antes/depois
  *
  * FASE 4 (Command): cancelarLote()
+ * - Revisor diferente de quem gerou, com comentário obrigatório
  * - Devolve saldoReservado → saldoPontos antes de deletar relatórios
  * - ✅ M4: Registra auditoria do cancelamento
  *
@@ -98,13 +106,25 @@ import { PrismaService } from '../../prisma/prisma.service';
 import { VisualizarSaldosDto } from './dto/visualizar-saldos.dto';
 import { GerarLoteDto } from './dto/gerar-lote.dto';
 import { ProcessarLoteDto } from './dto/processar-lote.dto';
+import { DecisaoLoteDto } from './dto/decisao-lote.dto';
 import {
   PapelUsuario,
   Prisma,
   RelatorioFinanceiro,
-  StatusPagamento,
+  StatusLote,
   StatusEnvioVenda,
+  StatusSolicitacaoResgate,
+  TipoLancamentoSaldo,
 } from '@prisma/client';
+import { movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import {
+  buscarLoteFinanceiro,
+  calcularAprovacoesNecessarias,
+  devolverReservasDoLote,
+  exigirRevisorDiferente,
+  liquidarRelatorio,
+} from './helpers/lote-pagamento.helper';
+import { ContextoAuditoria, registrarAuditoriaFinanceira } from './helpers/auditoria-financeira.helper';
 
 @Injectable()
 export class FinanceiroService {
@@ -267,6 +287,7 @@ export class FinanceiroService {
               vendedorId: usuario.id,
               status: StatusEnvioVenda.VALIDADO,
               pontosAdicionadosAoSaldo: false, // Ainda não completou cartela
+              acimaLimiteCartelas: false, // Além do limite de cartelas: nunca será creditado
               dataValidacao: { lte: dataFim },
             },
             select: {
@@ -286,6 +307,7 @@ export class FinanceiroService {
               vendedor: { gerenteId: usuario.id },
               status: StatusEnvioVenda.VALIDADO,
               pontosAdicionadosAoSaldo: false,
+              acimaLimiteCartelas: false,
               dataValidacao: { lte: dataFim },
             },
             select: {
@@ -352,9 +374,14 @@ export class FinanceiroService {
    * Cada usuário com saldo > 0 recebe um relatório individual.
    * O lote pode ser revisado, cancelado ou processado posteriormente.
    *
+   * Solicitações de resgate APROVADAS entram primeiro: o relatório do usuário
+   * tem o valor solicitado (já reservado na solicitação) e o restante do saldo
+   * fica para um próximo lote. Com dto.apenasResgates, os demais saldos não
+   * são varridos.
+   *
    * FLUXO:
    * 1. Gera numeroLote único (formato: LOTE-YYYY-MM-NNN)
-   * 2. Busca usuários com saldo > 0
+   * 2. Busca resgates aprovados e usuários com saldo > 0
    * 3. Para cada usuário:
    *    - Verifica se já tem relatório PENDENTE (evita duplicação)
    *    - Busca envios que compõem o saldo
@@ -372,7 +399,8 @@ export class FinanceiroService {
    * @param adminId - ID do admin que está gerando o lote
    * @returns Dados do lote criado com todos os relatórios
    */
-  async gerarLote(dto: GerarLoteDto, adminId: string) {
+  async gerarLote(dto: GerarLoteDto, contexto: ContextoAuditoria) {
+    const { adminId } = contexto;
     this.logger.log(`\n========== GERANDO LOTE DE PAGAMENTO ==========`);
     this.logger.log(`Admin ID: ${adminId}`);
     this.logger.log(`Data de Corte (recebida): ${dto.dataCorte}`);
@@ -392,36 +420,56 @@ export class FinanceiroService {
       this.logger.log(`📦 Número do Lote: ${numeroLote}`);
 
       // ================================================================
-      // PASSO 2: Buscar usuários com saldo > 0 E gerenteId para otimização
+      // PASSO 2: Resgates aprovados + usuários com saldo > 0 (com gerenteId para otimização)
       // ================================================================
-      const usuariosComSaldo = await tx.usuario.findMany({
-        where: {
-          saldoPontos: { gt: 0 },
-          papel: { in: [PapelUsuario.VENDEDOR, PapelUsuario.GERENTE] },
-        },
-        select: {
-          id: true,
-          nome: true,
-          papel: true,
-          saldoPontos: true,
-          gerenteId: true, // ✅ OTIMIZAÇÃO: Incluir para relacionamento
-        },
-        orderBy: { nome: 'asc' },
+      const selecaoUsuario = {
+        id: true,
+        nome: true,
+        papel: true,
+        saldoPontos: true,
+        gerenteId: true, // ✅ OTIMIZAÇÃO: Incluir para relacionamento
+      } satisfies Prisma.UsuarioSelect;
+
+      const resgatesAprovados = await tx.solicitacaoResgate.findMany({
+        where: { status: StatusSolicitacaoResgate.APROVADO },
+        include: { usuario: { select: selecaoUsuario } },
+        orderBy: { criadoEm: 'asc' },
       });
+      const resgatesPorUsuario = new Map<string, typeof resgatesAprovados>();
+      for (const resgate of resgatesAprovados) {
+        resgatesPorUsuario.set(resgate.usuarioId, [...(resgatesPorUsuario.get(resgate.usuarioId) ?? []), resgate]);
+      }
+
+      const usuariosComSaldo = dto.apenasResgates
+        ? []
+        : await tx.usuario.findMany({
+          where: {
+            saldoPontos: { gt: 0 },
+            papel: { in: [PapelUsuario.VENDEDOR, PapelUsuario.GERENTE] },
+            id: { notIn: [...resgatesPorUsuario.keys()] },
+          },
+          select: selecaoUsuario,
+          orderBy: { nome: 'asc' },
+        });
+
+      const usuariosDoLote = [
+        ...[...resgatesPorUsuario.values()].map((resgates) => resgates[0].usuario),
+        ...usuariosComSaldo,
+      ];
 
       this.logger.log(
-        `👥 Usuários com saldo: ${usuariosComSaldo.length}`
+        `👥 Usuários com resgate aprovado: ${resgatesPorUsuario.size} | com saldo: ${usuariosComSaldo.length}`
       );
 
       // ================================================================
       // ✅ MELHORIA M1: BULK FETCH - Buscar TODOS os envios de uma vez
       // Reduz N+1 queries para apenas 2 queries totais
       // ================================================================
-      const vendedoresIds = usuariosComSaldo
+      const vendedoresIds = usuariosDoLote
         .filter((u) => u.papel === 'VENDEDOR')
         .map((u) => u.id);
 
-      const gerentesIds = usuariosComSaldo
+      const gerentesIds = usuariosDoLote
         .filter((u) => u.papel === 'GERENTE')
         .map((u) => u.id);
 
@@ -512,9 +560,12 @@ export class FinanceiroService {
       let totalRelatorios = 0;
       let valorTotal = 0;
 
-      for (const usuario of usuariosComSaldo) {
+      for (const usuario of usuariosDoLote) {
+        const resgates = resgatesPorUsuario.get(usuario.id) ?? [];
+
         // ============================================================
         // 3.1: Verificar se já tem relatório PENDENTE
+        // (resgates aprovados continuam na fila para o próximo lote)
         // ============================================================
         const relatorioPendente = await tx.relatorioFinanceiro.findFirst({
           where: { usuarioId: usuario.id, status: 'PENDENTE', deletedAt: null },
@@ -536,7 +587,6 @@ export class FinanceiroService {
           `    [${usuario.papel}] ${usuario.nome}: ${envios.length} envios (carregados do cache)`
         );
 
-        const enviosIds = envios.map((e) => e.id);
         let campanhaId = envios.length > 0 ? envios[0].campanhaId : null;
 
         // Se não houver envios (ex: gerente com comissões), buscar campanha ativa mais recente
@@ -572,12 +622,21 @@ export class FinanceiroService {
             ? (usuario.saldoPontos as any).toNumber()
             : Number(usuario.saldoPontos);
 
+        // Resgate: valor solicitado. Os envios só são liquidados quando o
+        // resgate leva todo o saldo (resgate parcial fica sem envios)
+        const valorRelatorio =
+          resgates.length > 0
+            ? resgates.reduce((acc, r) => acc + Number(r.valor), 0)
+            : saldoNum;
+        const enviosIds =
+          resgates.length > 0 && saldoNum > 0 ? [] : envios.map((e) => e.id);
+
         // ============================================================
         // 3.3: Criar RelatorioFinanceiro (status: PENDENTE)
         // ============================================================
         const relatorio = await tx.relatorioFinanceiro.create({
           data: {
-            valor: saldoNum,
+            valor: valorRelatorio,
             status: 'PENDENTE',
             tipo: usuario.papel === 'VENDEDOR' ? 'VENDEDOR' : 'GERENTE',
             usuarioId: usuario.id,
@@ -586,7 +645,10 @@ export class FinanceiroService {
             enviosIncluidos: enviosIds,
             numeroLote,
             processadoPorId: adminId,
-            observacoes: dto.observacoes,
+            observacoes:
+              resgates.length > 0
+                ? [dto.observacoes, 'Resgate solicitado pelo usuário'].filter(Boolean).join('\n')
+                : dto.observacoes,
           },
           include: {
             usuario: {
@@ -614,33 +676,81 @@ export class FinanceiroService {
         // ============================================================
         // 3.4: Reservar saldo (transferir de saldoPontos para saldoReservado)
         // ✅ FIX BUG #4: Sistema de saldo reservado
+        // Resgates já foram reservados na solicitação: apenas vinculados ao relatório
         // ============================================================
-        await tx.usuario.update({
-          where: { id: usuario.id },
-          data: {
-            saldoPontos: { decrement: saldoNum },
-            saldoReservado: { increment: saldoNum },
-          },
-        });
+        if (resgates.length > 0) {
+          await tx.solicitacaoResgate.updateMany({
+            where: { id: { in: resgates.map((r) => r.id) } },
+            data: { status: StatusSolicitacaoResgate.EM_LOTE, relatorioFinanceiroId: relatorio.id },
+          });
+        } else {
+          await movimentarSaldo(tx, usuario.id, [
+            {
+              tipo: 'RESERVA_LOTE',
+              valor: -saldoNum,
+              valorReservado: saldoNum,
+              descricao: `Saldo reservado para pagamento (lote ${numeroLote})`,
+              relatorioFinanceiroId: relatorio.id,
+              numeroLote,
+              adminId,
+            },
+          ]);
+        }
 
         this.logger.log(
-          `  ✅ ${usuario.nome} (${usuario.papel}): R$ ${saldoNum.toFixed(2)} - Saldo reservado`
+          `  ✅ ${usuario.nome} (${usuario.papel}): R$ ${valorRelatorio.toFixed(2)} - ` +
+          (resgates.length > 0 ? 'Resgate incluído' : 'Saldo reservado')
         );
 
         relatoriosCriados.push(relatorio);
         totalRelatorios++;
-        valorTotal += saldoNum;
+        valorTotal += valorRelatorio;
+      }
+
+      // ================================================================
+      // PASSO 4: Cabeçalho do lote (aguardando aprovação) + auditoria
+      // ================================================================
+      const aprovacoesNecessarias = await calcularAprovacoesNecessarias(tx, valorTotal);
+      if (totalRelatorios > 0) {
+        await tx.loteFinanceiro.create({
+          data: {
+            numeroLote,
+            status: StatusLote.GERADO,
+            valorTotal,
+            aprovacoesNecessarias,
+            geradoPorId: adminId,
+          },
+        });
       }
 
+      await registrarAuditoriaFinanceira(tx, contexto, {
+        acao: 'GERAR_LOTE',
+        numeroLote,
+        dadosDepois: {
+          totalRelatorios,
+          valorTotal,
+          aprovacoesNecessarias,
+          relatorios: relatoriosCriados.map((r) => ({ id: r.id, usuarioId: r.usuarioId, valor: r.valor })),
+        },
+        metadata: {
+          dataCorte,
+          observacoes: dto.observacoes,
+          apenasResgates: !!dto.apenasResgates,
+          resgatesAprovados: resgatesAprovados.length,
+        },
+      });
+
       this.logger.log(`\n========== LOTE CRIADO COM SUCESSO ==========`);
       this.logger.log(`📦 Número do Lote: ${numeroLote}`);
       this.logger.log(`📄 Total de Relatórios: ${totalRelatorios}`);
       this.logger.log(`💰 Valor Total: R$ ${valorTotal.toFixed(2)}`);
+      this.logger.log(`✍️  Aprovações necessárias: ${aprovacoesNecessarias}`);
 
       return {
         numeroLote,
         dataCorte,
-        status: 'PENDENTE',
+        status: StatusLote.GERADO,
+        aprovacoesNecessarias,
         totalRelatorios,
         valorTotal,
         relatorios: relatoriosCriados,
@@ -656,7 +766,7 @@ export class FinanceiroService {
    * ============================================================================
    *
    * Processa um lote de pagamento em transação atômica:
-   * 1. Valida que lote existe e está PENDENTE
+   * 1. Valida que lote existe e está APROVADO
    * 2. Para cada relatório do lote:
    *    - Valida saldo suficiente
    *    - Subtrai de Usuario.saldoPontos
@@ -672,14 +782,16 @@ export class FinanceiroService {
    *
    * @param numeroLote - Número do lote a ser processado
    * @param dto - Observações opcionais sobre o processamento
-   * @param adminId - ID do admin que está processando
+   * @param contexto - Admin que está processando (auditoria)
    * @returns Dados do lote processado
+   * @throws ConflictException - Lote ainda não aprovado (ou rejeitado/cancelado)
    */
   async processarLote(
     numeroLote: string,
     dto: ProcessarLoteDto,
-    adminId: string
+    contexto: ContextoAuditoria
   ) {
+    const { adminId } = contexto;
     this.logger.log(`\n========== PROCESSANDO LOTE ${numeroLote} ==========`);
     this.logger.log(`Admin ID: ${adminId}`);
 
@@ -704,6 +816,13 @@ export class FinanceiroService {
         throw new NotFoundException(`Lote ${numeroLote} não encontrado`);
       }
 
+      const lote = await buscarLoteFinanceiro(tx, numeroLote);
+      if (lote.status !== StatusLote.APROVADO && lote.status !== StatusLote.PAGO) {
+        throw new ConflictException(
+          `Lote ${numeroLote} está ${lote.status}: apenas lotes aprovados podem ser processados`
+        );
+      }
+
       // ================================================================
       // PASSO 2: ✅ FIX BUG #5 - Tornar IDEMPOTENTE
       // Permitir reprocessamento (apenas PENDENTES serão processados)
@@ -748,70 +867,37 @@ export class FinanceiroService {
         );
 
         // ============================================================
-        // 3.1: ✅ FIX BUG #4 - Decrementar saldoReservado (não saldoPontos)
-        // O saldo já foi movido para reservado durante geração do lote
+        // 3.1 a 3.4: Debitar saldoReservado (✅ FIX BUG #4), marcar envios
+        // como liquidados só para VENDEDOR (✅ FIX BUG #2), atualizar para
+        // PAGO e notificar (mesma baixa da conciliação do arquivo retorno)
         // ============================================================
-        await tx.usuario.update({
-          where: { id: relatorio.usuarioId },
-          data: {
-            saldoReservado: { decrement: valorNum },
-          },
+        await liquidarRelatorio(tx, relatorio, {
+          numeroLote,
+          adminId,
+          observacoes: dto.observacoes,
         });
 
         this.logger.log(
-          `    ✅ Saldo reservado debitado: R$ ${valorNum.toFixed(2)}`
+          `    ✅ Saldo reservado debitado: R$ ${valorNum.toFixed(2)} (${relatorio.tipo})`
         );
 
-        // ============================================================
-        // 3.2: ✅ FIX BUG #2 - Marcar envios como liquidados
-        // APENAS para VENDEDOR (gerente não marca porque os envios não são dele)
-        // ============================================================
-        const enviosIds = (relatorio.enviosIncluidos as string[]) || [];
-
-        if (relatorio.tipo === 'VENDEDOR' && enviosIds.length > 0) {
-          await tx.envioVenda.updateMany({
-            where: { id: { in: enviosIds } },
-            data: { pontosLiquidados: true },
-          });
-
-          this.logger.log(
-            `    ✅ [VENDEDOR] ${enviosIds.length} envios marcados como liquidados`
-          );
-        } else if (relatorio.tipo === 'GERENTE') {
-          this.logger.log(
-            `    ℹ️  [GERENTE] ${enviosIds.length} envios rastreados (não marcados - pertencem aos vendedores)`
-          );
-        }
-
-        // ============================================================
-        // 3.3: Atualizar relatório para PAGO
-        // ============================================================
-        await tx.relatorioFinanceiro.update({
-          where: { id: relatorio.id },
-          data: {
-            status: 'PAGO',
-            dataPagamento: new Date(),
-            observacoes: dto.observacoes
-              ? `${relatorio.observacoes || ''}\n${dto.observacoes}`.trim()
-              : relatorio.observacoes,
-          },
-        });
-
-        // ============================================================
-        // 3.4: Notificar usuário
-        // ============================================================
-        await tx.notificacao.create({
-          data: {
-            usuarioId: relatorio.usuarioId,
-            mensagem: `💰 Pagamento processado! R$ ${valorNum.toFixed(2)} foram debitados. O valor foi transferido para sua conta.`,
-            lida: false,
-          },
-        });
-
         totalProcessado++;
         valorTotalProcessado += valorNum;
       }
 
+      await tx.loteFinanceiro.update({
+        where: { numeroLote },
+        data: { status: StatusLote.PAGO, pagoEm: new Date() },
+      });
+
+      await registrarAuditoriaFinanceira(tx, contexto, {
+        acao: 'PROCESSAR_LOTE',
+        numeroLote,
+        dadosAntes: relatoriosPendentes.map((r) => ({ id: r.id, usuarioId: r.usuarioId, valor: r.valor, status: r.status })),
+        dadosDepois: { status: StatusLote.PAGO, totalProcessado, valorTotal: valorTotalProcessado },
+        metadata: { observacoes: dto.observacoes },
+      });
+
       this.logger.log(`\n========== LOTE PROCESSADO COM SUCESSO ==========`);
       this.logger.log(`📦 Número do Lote: ${numeroLote}`);
       this.logger.log(`📄 Relatórios Processados: ${totalProcessado}`);
@@ -839,7 +925,7 @@ export class FinanceiroService {
    *
    * M6 MELHORIAS:
    * - Paginação com skip/take
-   * - Filtro por status (PENDENTE ou PAGO)
+   * - Filtro por status do lote (StatusLote)
    * - Filtro por período (dataInicio/dataFim)
    * - Retorno com metadata de paginação
    *
@@ -849,7 +935,7 @@ export class FinanceiroService {
   async listarLotes(dto: {
     pagina?: number;
     porPagina?: number;
-    status?: StatusPagamento;
+    status?: StatusLote;
     dataInicio?: string;
     dataFim?: string;
   } = {}) {
@@ -874,7 +960,13 @@ export class FinanceiroService {
       deletedAt: null,
     };
 
-    if (dto.status) where.status = dto.status;
+    if (dto.status) {
+      const lotesNoStatus = await this.prisma.loteFinanceiro.findMany({
+        where: { status: dto.status },
+        select: { numeroLote: true },
+      });
+      where.numeroLote = { in: lotesNoStatus.map((l) => l.numeroLote) };
+    }
 
     // Filtro por período de criação
     if (dto.dataInicio || dto.dataFim) {
@@ -942,6 +1034,7 @@ export class FinanceiroService {
       },
       orderBy: { criadoEm: 'desc' },
     });
+    const aprovacaoPorLote = await this._dadosAprovacao(numerosLotes);
 
     // ================================================================
     // PASSO 5: Agrupar por numeroLote
@@ -954,7 +1047,7 @@ export class FinanceiroService {
         lotesMap.set(rel.numeroLote, {
           numeroLote: rel.numeroLote,
           dataCorte: rel.dataCorte,
-          status: rel.status,
+          ...aprovacaoPorLote.get(rel.numeroLote),
           relatorios: [],
           valorTotal: 0,
           totalRelatorios: 0,
@@ -1050,10 +1143,12 @@ export class FinanceiroService {
       return acc + valorNum;
     }, 0);
 
+    const aprovacao = (await this._dadosAprovacao([numeroLote])).get(numeroLote);
+
     return {
       numeroLote,
       dataCorte: relatorios[0].dataCorte,
-      status: relatorios[0].status,
+      ...aprovacao,
       relatorios,
       totalRelatorios: relatorios.length,
       valorTotal,
@@ -1253,10 +1348,12 @@ export class FinanceiroService {
     );
     this.logger.log(`📦 Total de envios detalhados: ${totalEnvios}`);
 
+    const aprovacao = (await this._dadosAprovacao([numeroLote])).get(numeroLote);
+
     return {
       numeroLote,
       dataCorte: relatorios[0].dataCorte,
-      status: relatorios[0].status,
+      ...aprovacao,
       relatorios: relatoriosComEnvios,
       totalRelatorios: relatorios.length,
       valorTotal,
@@ -1269,19 +1366,22 @@ export class FinanceiroService {
 
   /**
    * ============================================================================
-   * CANCELAR LOTE (apenas se PENDENTE)
+   * CANCELAR LOTE (apenas se GERADO ou APROVADO, antes do pagamento)
    * ============================================================================
    *
    * Cancela um lote removendo todos os relatórios em status PENDENTE e
    * devolvendo o saldo reservado para saldoPontos dos usuários.
+   * Segregação de funções: quem gerou o lote não pode cancelá-lo.
    *
    * ✅ FIX BUG #4: Devolver saldoReservado ao cancelar lote
    *
    * @param numeroLote - Número do lote a cancelar
-   * @param adminId - ID do admin que está cancelando
+   * @param dto - Comentário (motivo do cancelamento)
+   * @param contexto - Admin que está cancelando (auditoria)
    * @returns Confirmação do cancelamento
    */
-  async cancelarLote(numeroLote: string, adminId: string) {
+  async cancelarLote(numeroLote: string, dto: DecisaoLoteDto, contexto: ContextoAuditoria) {
+    const { adminId } = contexto;
     this.logger.log(`\n========== CANCELANDO LOTE ${numeroLote} ==========`);
     this.logger.log(`Admin ID: ${adminId}`);
 
@@ -1301,61 +1401,88 @@ export class FinanceiroService {
         );
       }
 
-      // ================================================================
-      // DEVOLVER SALDO RESERVADO PARA CADA USUÁRIO
-      // ✅ FIX BUG #4: Transferir de saldoReservado de volta para saldoPontos
-      // ================================================================
-      let valorTotalDevolvido = 0;
-
-      for (const relatorio of relatorios) {
-        const valorNum =
-          typeof relatorio.valor === 'object' && 'toNumber' in relatorio.valor
-            ? (relatorio.valor as any).toNumber()
-            : Number(relatorio.valor);
-
-        await tx.usuario.update({
-          where: { id: relatorio.usuarioId },
-          data: {
-            saldoReservado: { decrement: valorNum },
-            saldoPontos: { increment: valorNum },
-          },
-        });
-
-        valorTotalDevolvido += valorNum;
-        this.logger.log(
-          `  ✅ Saldo devolvido para usuário ${relatorio.usuarioId}: R$ ${valorNum.toFixed(2)}`
-        );
+      const lote = await buscarLoteFinanceiro(tx, numeroLote);
+      if (lote.status !== StatusLote.GERADO && lote.status !== StatusLote.APROVADO) {
+        throw new ConflictException(`Lote ${numeroLote} está ${lote.status} e não pode ser cancelado`);
       }
+      exigirRevisorDiferente(lote, adminId, 'cancelar');
 
       // ================================================================
-      // DELETAR RELATÓRIOS
-      // ================================================================
-      // ================================================================
-      // SOFT DELETE RELATÓRIOS (MARCAR COMO CANCELADO)
+      // DEVOLVER SALDO RESERVADO E MARCAR RELATÓRIOS COMO CANCELADOS
+      // ✅ FIX BUG #4: Transferir de saldoReservado de volta para saldoPontos
       // ================================================================
-      const deletados = await tx.relatorioFinanceiro.updateMany({
+      const { totalCancelados, valorDevolvido } = await devolverReservasDoLote(tx, relatorios, {
+        numeroLote,
+        adminId,
+        motivo: 'cancelado',
+      });
+
+      await tx.loteFinanceiro.update({
         where: { numeroLote },
-        data: {
-          status: 'CANCELADO',
-          deletedAt: new Date(),
+        data: { status: StatusLote.CANCELADO, motivoCancelamento: dto.comentario },
+      });
+
+      await registrarAuditoriaFinanceira(tx, contexto, {
+        acao: 'CANCELAR_LOTE',
+        numeroLote,
+        dadosAntes: {
+          status: lote.status,
+          relatorios: relatorios.map((r) => ({ id: r.id, usuarioId: r.usuarioId, valor: r.valor, status: r.status })),
         },
+        dadosDepois: { status: StatusLote.CANCELADO, totalCancelados, valorDevolvido },
+        metadata: { comentario: dto.comentario },
       });
 
       this.logger.log(`\n========== LOTE CANCELADO COM SUCESSO ==========`);
       this.logger.log(`📦 Número do Lote: ${numeroLote}`);
-      this.logger.log(`📄 Relatórios removidos: ${deletados.count}`);
-      this.logger.log(`💰 Valor total devolvido: R$ ${valorTotalDevolvido.toFixed(2)}`);
+      this.logger.log(`📄 Relatórios removidos: ${totalCancelados}`);
+      this.logger.log(`💰 Valor total devolvido: R$ ${valorDevolvido.toFixed(2)}`);
 
       return {
         numeroLote,
-        totalCancelados: deletados.count,
-        valorDevolvido: valorTotalDevolvido,
+        totalCancelados,
+        valorDevolvido,
         canceladoPor: adminId,
         canceladoEm: new Date(),
       };
     });
   }
 
+  /**
+   * Status do fluxo de aprovação de cada lote (LoteFinanceiro), com gerador
+   * e decisões dos revisores.
+   */
+  private async _dadosAprovacao(numerosLotes: string[]) {
+    const lotes = await this.prisma.loteFinanceiro.findMany({
+      where: { numeroLote: { in: numerosLotes } },
+      include: {
+        geradoPor: { select: { id: true, nome: true } },
+        aprovacoes: {
+          include: { admin: { select: { id: true, nome: true } } },
+          orderBy: { criadoEm: 'asc' },
+        },
+      },
+    });
+
+    return new Map(
+      lotes.map((lote) => [
+        lote.numeroLote,
+        {
+          status: lote.status,
+          aprovacoesNecessarias: lote.aprovacoesNecessarias,
+          geradoPor: lote.geradoPor,
+          aprovacoes: lote.aprovacoes.map((a) => ({
+            decisao: a.decisao,
+            comentario: a.comentario,
+            criadoEm: a.criadoEm,
+            admin: a.admin,
+          })),
+          motivoCancelamento: lote.motivoCancelamento,
+        },
+      ]),
+    );
+  }
+
   /**
    * ============================================================================
    * GERAR NÚMERO DE LOTE ÚNICO
@@ -1476,6 +1603,8 @@ export class FinanceiroService {
    * - Total de lotes
    * - Ticket médio
    * - Usuários únicos pagos
+   * - Pontos expirados no período (null com filtro de campanha: a expiração
+   *   consome o saldo do usuário, não de uma campanha)
    * - Evolução temporal (últimos 6 meses)
    */
   async obterMetricasGerais(dto: {
@@ -1537,6 +1666,24 @@ export class FinanceiroService {
 
     const ticketMedio = lotesUnicos.size > 0 ? totalPago / lotesUnicos.size : 0;
 
+    // Pontos expirados (lançamentos EXPIRACAO_PONTOS são negativos)
+    let totalExpirado: number | null = null;
+    if (!dto.campanhaId) {
+      const whereExpiracao: Prisma.LancamentoSaldoWhereInput = {
+        tipo: TipoLancamentoSaldo.EXPIRACAO_PONTOS,
+      };
+      if (dto.dataInicio || dto.dataFim) {
+        whereExpiracao.criadoEm = {};
+        if (dto.dataInicio) whereExpiracao.criadoEm.gte = new Date(dto.dataInicio);
+        if (dto.dataFim) whereExpiracao.criadoEm.lte = new Date(dto.dataFim);
+      }
+      const expirado = await this.prisma.lancamentoSaldo.aggregate({
+        where: whereExpiracao,
+        _sum: { valor: true },
+      });
+      totalExpirado = Math.abs(Number(expirado._sum.valor ?? 0));
+    }
+
     // Evolução temporal (últimos 6 meses por mês)
     const seisMesesAtras = new Date();
     seisMesesAtras.setMonth(seisMesesAtras.getMonth() - 6);
@@ -1580,6 +1727,7 @@ export class FinanceiroService {
       totalLotesPendentes: lotesPendentes,
       ticketMedio,
       usuariosUnicosPagos: usuariosUnicos.size,
+      totalExpirado,
       evolucaoTemporal,
     };
   }
@@ -0,0 +1,83 @@
+/**
+ * ============================================================================
+ * AUDITORIA FINANCEIRA HELPER - Registro das Ações sobre Lotes
+ * ============================================================================
+ *
+ * Cada etapa de um lote (geração, aprovação, rejeição, processamento,
+ * cancelamento, conciliação) grava um registro em AuditoriaFinanceira na
+ * mesma transação da ação, com o admin, IP e User-Agent da requisição.
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { AcaoFinanceira, Prisma } from '@prisma/client';
+
+/**
+ * Quem executou a ação (extraído da requisição no controller)
+ */
+export interface ContextoAuditoria {
+  adminId: string;
+  ipAddress: string;
+  userAgent?: string;
+}
+
+/**
+ * Dados do registro de auditoria
+ */
+export interface RegistroAuditoriaFinanceira {
+  acao: AcaoFinanceira;
+  numeroLote?: string;
+  /** Snapshot antes da ação */
+  dadosAntes?: unknown;
+  /** Resultado da ação */
+  dadosDepois?: unknown;
+  metadata?: unknown;
+}
+
+/**
+ * Monta o contexto de auditoria a partir da requisição autenticada.
+ *
+ * @param req - Request com req.user (JwtStrategy)
+ */
+export function contextoDaRequisicao(req: any): ContextoAuditoria {
+  return {
+    adminId: req.user.id,
+    ipAddress:
+      req.headers?.['x-forwarded-for']?.split(',')[0]?.trim() ||
+      req.headers?.['x-real-ip'] ||
+      req.ip ||
+      'unknown',
+    userAgent: req.headers?.['user-agent'],
+  };
+}
+
+/**
+ * Grava a ação em AuditoriaFinanceira.
+ *
+ * @param tx - Prisma Transaction Client (mesma transação da ação)
+ * @param contexto - Admin, IP e User-Agent
+ * @param registro - Ação, lote e snapshots
+ */
+export async function registrarAuditoriaFinanceira(
+  tx: Prisma.TransactionClient,
+  contexto: ContextoAuditoria,
+  registro: RegistroAuditoriaFinanceira,
+): Promise<void> {
+  // Snapshots passam por JSON para normalizar Decimal/Date
+  const json = (valor: unknown) =>
+    valor === undefined ? undefined : (JSON.parse(JSON.stringify(valor)) as Prisma.InputJsonValue);
+
+  await tx.auditoriaFinanceira.create({
+    data: {
+      acao: registro.acao,
+      numeroLote: registro.numeroLote,
+      adminId: contexto.adminId,
+      dadosAntes: json(registro.dadosAntes),
+      dadosDepois: json(registro.dadosDepois),
+      ipAddress: contexto.ipAddress,
+      userAgent: contexto.userAgent,
+      metadata: json(registro.metadata),
+    },
+  });
+}
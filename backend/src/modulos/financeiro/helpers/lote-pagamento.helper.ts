@@ -0,0 +1,227 @@
+/**
+ * ============================================================================
+ * LOTE PAGAMENTO HELPER - Fluxo de Aprovação e Baixa de Pagamentos
+ * ============================================================================
+ *
+ * Fluxo do lote (LoteFinanceiro): GERADO → APROVADO → PAGO. Quem gera o
+ * lote não aprova, rejeita nem cancela o próprio lote; lotes a partir de
+ * LOTE_VALOR_DUPLA_APROVACAO (ConfiguracaoGlobal, em R$) exigem dois
+ * aprovadores. Rejeição e cancelamento devolvem a reserva aos usuários,
+ * exceto a de solicitações de resgate: estas voltam a APROVADO, com o valor
+ * ainda reservado, e entram no próximo lote.
+ *
+ * Baixa: passos de um RelatorioFinanceiro PENDENTE efetivamente pago, usados
+ * pelo processamento manual do lote (processarLote) e pela conciliação do
+ * arquivo retorno do banco:
+ * 1. Debita o saldo reservado (lançamento PAGAMENTO)
+ * 2. Marca os envios como liquidados (apenas VENDEDOR: os envios do
+ *    relatório de GERENTE pertencem aos vendedores)
+ * 3. Atualiza o relatório (e as solicitações de resgate pagas por ele) para PAGO
+ * 4. Notifica o usuário
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { LoteFinanceiro, Prisma, RelatorioFinanceiro, StatusPagamento, StatusSolicitacaoResgate } from '@prisma/client';
+import { movimentarSaldo } from '../../livro-razao/helpers/movimentar-saldo.helper';
+
+/**
+ * Valor (R$) a partir do qual o lote exige dois aprovadores
+ */
+export const CHAVE_VALOR_DUPLA_APROVACAO = 'LOTE_VALOR_DUPLA_APROVACAO';
+
+/**
+ * Aprovações exigidas para um lote do valor informado (limite não
+ * configurado ou zero = uma aprovação).
+ */
+export async function calcularAprovacoesNecessarias(
+  tx: Prisma.TransactionClient,
+  valorTotal: number,
+): Promise<number> {
+  const configuracao = await tx.configuracaoGlobal.findUnique({ where: { chave: CHAVE_VALOR_DUPLA_APROVACAO } });
+  const limite = parseFloat(configuracao?.valor ?? '') || 0;
+  return limite > 0 && valorTotal >= limite ? 2 : 1;
+}
+
+/**
+ * Cabeçalho do lote com as decisões dos revisores.
+ *
+ * @throws NotFoundException - Lote não encontrado
+ */
+export async function buscarLoteFinanceiro(tx: Prisma.TransactionClient, numeroLote: string) {
+  const lote = await tx.loteFinanceiro.findUnique({
+    where: { numeroLote },
+    include: { aprovacoes: { orderBy: { criadoEm: 'asc' } } },
+  });
+  if (!lote) {
+    throw new NotFoundException(`Lote ${numeroLote} não encontrado`);
+  }
+  return lote;
+}
+
+/**
+ * Trava a linha do lote até o fim da transação (SELECT ... FOR UPDATE) e
+ * devolve o cabeçalho: decisões concorrentes sobre o mesmo lote (aprovação,
+ * cancelamento, remessa) são serializadas.
+ *
+ * @throws NotFoundException - Lote não encontrado
+ */
+export async function bloquearLoteFinanceiro(tx: Prisma.TransactionClient, numeroLote: string) {
+  await tx.$queryRaw`SELECT "id" FROM "lotes_financeiros" WHERE "numeroLote" = ${numeroLote} FOR UPDATE`;
+  return buscarLoteFinanceiro(tx, numeroLote);
+}
+
+/**
+ * Segregação de funções: quem gerou o lote não pode revisá-lo.
+ *
+ * @param acao - Verbo usado na mensagem (ex: "aprovar")
+ * @throws ForbiddenException - Admin é o gerador do lote
+ */
+export function exigirRevisorDiferente(lote: Pick<LoteFinanceiro, 'geradoPorId'>, adminId: string, acao: string) {
+  if (lote.geradoPorId && lote.geradoPorId === adminId) {
+    throw new ForbiddenException(`Quem gerou o lote não pode ${acao} o próprio lote: peça a outro admin.`);
+  }
+}
+
+/**
+ * Encerra os relatórios PENDENTES do lote (CANCELADO) devolvendo a reserva ao
+ * saldo disponível. Relatórios FALHOU já tiveram a reserva devolvida na
+ * conciliação do arquivo retorno e mantêm o status e o motivo da falha.
+ * Relatórios de resgate mantêm a reserva e suas solicitações voltam a
+ * APROVADO (fila do próximo lote).
+ *
+ * @param tx - Prisma Transaction Client
+ * @param relatorios - Relatórios do lote
+ * @param dados - Lote, admin e motivo (descrição do lançamento)
+ * @returns Quantidade de relatórios encerrados e valor devolvido
+ */
+export async function devolverReservasDoLote(
+  tx: Prisma.TransactionClient,
+  relatorios: Pick<RelatorioFinanceiro, 'id' | 'usuarioId' | 'valor' | 'status'>[],
+  dados: { numeroLote: string; adminId: string; motivo: string },
+) {
+  let valorDevolvido = 0;
+
+  const resgates = await tx.solicitacaoResgate.findMany({
+    where: {
+      relatorioFinanceiroId: { in: relatorios.map((r) => r.id) },
+      status: StatusSolicitacaoResgate.EM_LOTE,
+    },
+    select: { relatorioFinanceiroId: true },
+  });
+  const relatoriosDeResgate = new Set(resgates.map((r) => r.relatorioFinanceiroId as string));
+
+  for (const relatorio of relatorios) {
+    if (relatorio.status !== StatusPagamento.PENDENTE || relatoriosDeResgate.has(relatorio.id)) continue;
+
+    const valorNum = Number(relatorio.valor);
+    await movimentarSaldo(tx, relatorio.usuarioId, [
+      {
+        tipo: 'CANCELAMENTO_RESERVA',
+        valor: valorNum,
+        valorReservado: -valorNum,
+        descricao: `Reserva devolvida ao saldo (lote ${dados.numeroLote} ${dados.motivo})`,
+        relatorioFinanceiroId: relatorio.id,
+        numeroLote: dados.numeroLote,
+        adminId: dados.adminId,
+      },
+    ]);
+    valorDevolvido += valorNum;
+  }
+
+  if (relatoriosDeResgate.size > 0) {
+    await tx.solicitacaoResgate.updateMany({
+      where: { relatorioFinanceiroId: { in: [...relatoriosDeResgate] }, status: StatusSolicitacaoResgate.EM_LOTE },
+      data: { status: StatusSolicitacaoResgate.APROVADO, relatorioFinanceiroId: null },
+    });
+  }
+
+  const encerrados = await tx.relatorioFinanceiro.updateMany({
+    where: { numeroLote: dados.numeroLote, status: StatusPagamento.PENDENTE },
+    data: {
+      status: 'CANCELADO',
+      deletedAt: new Date(),
+    },
+  });
+
+  return { totalCancelados: encerrados.count, valorDevolvido };
+}
+
+/**
+ * Dados da baixa
+ */
+export interface DadosLiquidacaoRelatorio {
+  numeroLote: string;
+  adminId: string;
+  /** Data do pagamento (padrão: agora) */
+  dataPagamento?: Date;
+  /** Autenticação do pagamento informada pelo banco */
+  codigoAutenticacao?: string | null;
+  /** Observações acrescentadas às do relatório */
+  observacoes?: string;
+}
+
+/**
+ * Baixa um relatório PENDENTE como PAGO.
+ *
+ * @param tx - Prisma Transaction Client
+ * @param relatorio - Relatório PENDENTE do lote
+ * @param dados - Lote, admin e dados do pagamento
+ * @returns Valor pago
+ */
+export async function liquidarRelatorio(
+  tx: Prisma.TransactionClient,
+  relatorio: Pick<RelatorioFinanceiro, 'id' | 'usuarioId' | 'tipo' | 'valor' | 'enviosIncluidos' | 'observacoes'>,
+  dados: DadosLiquidacaoRelatorio,
+): Promise<number> {
+  const valorNum = Number(relatorio.valor);
+
+  // Saldo já foi movido para reservado na geração do lote
+  await movimentarSaldo(tx, relatorio.usuarioId, [
+    {
+      tipo: 'PAGAMENTO',
+      valorReservado: -valorNum,
+      descricao: `Pagamento efetuado (lote ${dados.numeroLote})`,
+      relatorioFinanceiroId: relatorio.id,
+      numeroLote: dados.numeroLote,
+      adminId: dados.adminId,
+    },
+  ]);
+
+  const enviosIds = (relatorio.enviosIncluidos as string[]) || [];
+  if (relatorio.tipo === 'VENDEDOR' && enviosIds.length > 0) {
+    await tx.envioVenda.updateMany({
+      where: { id: { in: enviosIds } },
+      data: { pontosLiquidados: true },
+    });
+  }
+
+  await tx.relatorioFinanceiro.update({
+    where: { id: relatorio.id },
+    data: {
+      status: StatusPagamento.PAGO,
+      dataPagamento: dados.dataPagamento ?? new Date(),
+      ...(dados.codigoAutenticacao && { codigoAutenticacao: dados.codigoAutenticacao }),
+      observacoes: dados.observacoes
+        ? `${relatorio.observacoes || ''}\n${dados.observacoes}`.trim()
+        : relatorio.observacoes,
+    },
+  });
+
+  await tx.solicitacaoResgate.updateMany({
+    where: { relatorioFinanceiroId: relatorio.id, status: StatusSolicitacaoResgate.EM_LOTE },
+    data: { status: StatusSolicitacaoResgate.PAGO },
+  });
+
+  await tx.notificacao.create({
+    data: {
+      usuarioId: relatorio.usuarioId,
+      mensagem: `💰 Pagamento processado! R$ ${valorNum.toFixed(2)} foram debitados. O valor foi transferido para sua conta.`,
+      lida: false,
+    },
+  });
+
+  return valorNum;
+}
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RemessaPagamentoService } from './remessa-pagamento.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    $queryRaw: jest.fn(),
+    $executeRaw: jest.fn(),
+    configuracaoGlobal: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        upsert: jest.fn(),
+    },
+    relatorioFinanceiro: {
+        findMany: jest.fn(),
+        updateMany: jest.fn(),
+    },
+    loteFinanceiro: {
+        findUnique: jest.fn(),
+    },
+};
+
+const numeroLote = 'LOTE-2025-11-001';
+
+const configuracoesPagador = [
+    { chave: 'REMESSA_BANCO_CODIGO', valor: '341' },
+    { chave: 'REMESSA_EMPRESA_CNPJ', valor: '12345678000190' },
+    { chave: 'REMESSA_EMPRESA_NOME', valor: 'Óticas Visão Ltda' },
+    { chave: 'REMESSA_AGENCIA', valor: '1234' },
+    { chave: 'REMESSA_CONTA', valor: '98765' },
+    { chave: 'REMESSA_CONTA_DV', valor: '4' },
+];
+
+const usuario = (id: string, nome: string, tipoChavePix: string | null, chavePix: string | null) => ({
+    id,
+    nome,
+    cpf: null,
+    papel: 'VENDEDOR',
+    tipoChavePix,
+    chavePix,
+});
+
+const relatorios = [
+    // Já saiu no arquivo anterior (NSA 41)
+    { valor: 100, status: 'PENDENTE', identificadorRemessa: '00004100001', usuario: usuario('user-1', 'Ana', 'CPF', '529.982.247-25') },
+    { valor: 50.5, status: 'PENDENTE', identificadorRemessa: null, usuario: usuario('user-2', 'Bruno', 'EMAIL', 'Bruno@Exemplo.com') },
+    { valor: 20, status: 'PENDENTE', identificadorRemessa: null, usuario: usuario('user-2', 'Bruno', 'EMAIL', 'Bruno@Exemplo.com') },
+    // Já pago: fora do arquivo
+    { valor: 80, status: 'PAGO', identificadorRemessa: '00004100002', usuario: usuario('user-3', 'Carla', 'CPF', '52998224725') },
+    { valor: 30, status: 'PENDENTE', identificadorRemessa: null, usuario: usuario('user-4', 'Diego', null, null) },
+];
+
+describe('RemessaPagamentoService', () => {
+    let service: RemessaPagamentoService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                RemessaPagamentoService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<RemessaPagamentoService>(RemessaPagamentoService);
+        jest.clearAllMocks();
+
+        mockPrismaService.configuracaoGlobal.findMany.mockResolvedValue(configuracoesPagador);
+        mockPrismaService.configuracaoGlobal.findUnique.mockResolvedValue({ chave: 'REMESSA_SEQUENCIAL_ARQUIVO', valor: '41' });
+        mockPrismaService.relatorioFinanceiro.findMany.mockResolvedValue(relatorios);
+        mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({ id: 'lote-1', numeroLote, status: 'APROVADO', aprovacoes: [] });
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('gerarArquivoRemessa', () => {
+        it('should advance the NSA and keep the identifiers of transfers already exported', async () => {
+            const resultado = await service.gerarArquivoRemessa(numeroLote, {}, 'admin-uuid');
+
+            expect(resultado.sequencialArquivo).toBe(42);
+            expect(resultado.nomeArquivo).toBe(`remessa-${numeroLote}-000042.rem`);
+            expect(resultado.totalPagamentos).toBe(2);
+            expect(mockPrismaService.configuracaoGlobal.upsert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { chave: 'REMESSA_SEQUENCIAL_ARQUIVO' },
+                    update: { valor: '42' },
+                }),
+            );
+
+            const segmentosA = resultado.conteudo.split('\r\n').filter((r) => r[7] === '3' && r[13] === 'A');
+            expect(segmentosA.map((r) => r.slice(73, 93).trim())).toEqual(['00004100001', '00004200001']);
+            // Relatórios do mesmo usuário somados em uma transferência
+            expect(segmentosA.map((r) => r.slice(119, 134))).toEqual(['000000000010000', '000000000007050']);
+        });
+
+        it('should only write identifiers on pending relatórios that have none', async () => {
+            await service.gerarArquivoRemessa(numeroLote, {}, 'admin-uuid');
+
+            expect(mockPrismaService.relatorioFinanceiro.updateMany).toHaveBeenCalledWith({
+                where: { numeroLote, usuarioId: 'user-2', status: 'PENDENTE', identificadorRemessa: null },
+                data: { identificadorRemessa: '00004200001' },
+            });
+            expect(mockPrismaService.relatorioFinanceiro.updateMany).not.toHaveBeenCalledWith(
+                expect.objectContaining({ data: { identificadorRemessa: null } }),
+            );
+            expect(mockPrismaService.relatorioFinanceiro.updateMany).not.toHaveBeenCalledWith(
+                expect.objectContaining({ where: expect.objectContaining({ usuarioId: 'user-3' }) }),
+            );
+        });
+
+        it('should hold users without a valid PIX key out of the file', async () => {
+            const resultado = await service.gerarArquivoRemessa(numeroLote, {}, 'admin-uuid');
+
+            expect(resultado.retidos).toEqual([
+                expect.objectContaining({ usuarioId: 'user-4', valor: 30, motivo: 'Sem chave PIX cadastrada' }),
+            ]);
+        });
+
+        it('should lock the batch before reading it and the NSA counter before incrementing it', async () => {
+            await service.gerarArquivoRemessa(numeroLote, {}, 'admin-uuid');
+
+            const ordem = (mock: jest.Mock) => mock.mock.invocationCallOrder[0];
+            expect(ordem(mockPrismaService.$queryRaw)).toBeLessThan(ordem(mockPrismaService.relatorioFinanceiro.findMany));
+            expect(ordem(mockPrismaService.$executeRaw)).toBeLessThan(ordem(mockPrismaService.configuracaoGlobal.findUnique));
+        });
+
+        it('should refuse a batch that is not APROVADO without consuming an NSA', async () => {
+            mockPrismaService.loteFinanceiro.findUnique.mockResolvedValue({ id: 'lote-1', numeroLote, status: 'GERADO', aprovacoes: [] });
+
+            await expect(service.gerarArquivoRemessa(numeroLote, {}, 'admin-uuid')).rejects.toThrow(BadRequestException);
+            expect(mockPrismaService.configuracaoGlobal.upsert).not.toHaveBeenCalled();
+        });
+
+        it('should require the paying company configuration', async () => {
+            mockPrismaService.configuracaoGlobal.findMany.mockResolvedValue(configuracoesPagador.slice(1));
+
+            await expect(service.gerarArquivoRemessa(numeroLote, {}, 'admin-uuid')).rejects.toThrow(
+                'REMESSA_BANCO_CODIGO',
+            );
+            expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+        });
+    });
+});
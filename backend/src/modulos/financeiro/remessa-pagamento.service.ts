@@ -0,0 +1,337 @@
+/**
+ * ============================================================================
+ * REMESSA PAGAMENTO SERVICE - Arquivo de Pagamento PIX do Lote
+ * ============================================================================
+ *
+ * Descrição:
+ * Exporta um lote APROVADO como arquivo de pagamento em lote do banco
+ * (CNAB 240 PIX por padrão, outros formatos via LAYOUTS_REMESSA), no lugar
+ * da digitação manual de cada PIX a partir do Excel do lote.
+ *
+ * - Uma transferência por usuário (relatórios do usuário no lote somados)
+ * - Usuários sem chave PIX válida (Usuario.tipoChavePix/chavePix) ficam fora
+ *   do arquivo e são listados como retidos, para pagamento manual
+ * - Cada transferência recebe um identificador ("seu número": NSA + sequência)
+ *   gravado em RelatorioFinanceiro.identificadorRemessa, para conciliar o
+ *   arquivo retorno do banco (ConciliacaoRetornoService). O identificador é
+ *   mantido se a remessa do lote for gerada novamente
+ *
+ * Dados da empresa pagadora em ConfiguracaoGlobal:
+ * - REMESSA_BANCO_CODIGO, REMESSA_EMPRESA_CNPJ, REMESSA_EMPRESA_NOME,
+ *   REMESSA_AGENCIA, REMESSA_CONTA, REMESSA_CONTA_DV (obrigatórias)
+ * - REMESSA_BANCO_NOME, REMESSA_CONVENIO, REMESSA_AGENCIA_DV (opcionais)
+ * - REMESSA_SEQUENCIAL_ARQUIVO: último NSA gerado (mantido pelo sistema)
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PapelUsuario, Prisma, StatusLote, StatusPagamento, TipoChavePix } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { normalizarChavePix } from '../perfil/helpers/chave-pix.helper';
+import { GerarRemessaDto } from './dto/gerar-remessa.dto';
+import { bloquearLoteFinanceiro, buscarLoteFinanceiro } from './helpers/lote-pagamento.helper';
+import { buscarLayoutRemessa, LAYOUTS_REMESSA } from './remessa/layouts-remessa';
+import { DadosPagadorRemessa, PagamentoRemessa } from './remessa/layout-remessa.interface';
+
+/**
+ * Chaves da empresa pagadora em ConfiguracaoGlobal
+ */
+const CHAVES_PAGADOR: Record<keyof DadosPagadorRemessa, string> = {
+  bancoCodigo: 'REMESSA_BANCO_CODIGO',
+  bancoNome: 'REMESSA_BANCO_NOME',
+  cnpj: 'REMESSA_EMPRESA_CNPJ',
+  nomeEmpresa: 'REMESSA_EMPRESA_NOME',
+  convenio: 'REMESSA_CONVENIO',
+  agencia: 'REMESSA_AGENCIA',
+  agenciaDv: 'REMESSA_AGENCIA_DV',
+  conta: 'REMESSA_CONTA',
+  contaDv: 'REMESSA_CONTA_DV',
+};
+
+const CAMPOS_PAGADOR_OBRIGATORIOS: (keyof DadosPagadorRemessa)[] = [
+  'bancoCodigo',
+  'cnpj',
+  'nomeEmpresa',
+  'agencia',
+  'conta',
+  'contaDv',
+];
+
+const CHAVE_SEQUENCIAL_ARQUIVO = 'REMESSA_SEQUENCIAL_ARQUIVO';
+
+/**
+ * Chave do advisory lock do NSA (a linha do contador pode ainda não existir,
+ * então não há linha para travar com FOR UPDATE)
+ */
+const CHAVE_LOCK_SEQUENCIAL_ARQUIVO = 718_002;
+
+/**
+ * Usuário do lote que fica fora do arquivo
+ */
+export interface PagamentoRetidoRemessa {
+  usuarioId: string;
+  nome: string;
+  papel: PapelUsuario;
+  valor: number;
+  motivo: string;
+}
+
+/**
+ * Usuário do lote incluído no arquivo
+ */
+export interface PagamentoIncluidoRemessa {
+  usuarioId: string;
+  nome: string;
+  papel: PapelUsuario;
+  tipoChavePix: TipoChavePix;
+  chavePix: string;
+  valor: number;
+  /** Identificador na última remessa gerada (null = ainda não exportado) */
+  identificadorRemessa: string | null;
+}
+
+@Injectable()
+export class RemessaPagamentoService {
+  private readonly logger = new Logger(RemessaPagamentoService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: previsualizarRemessa
+   * ==========================================================================
+   *
+   * Quem entra no arquivo, quem fica retido (e por quê) e se os dados da
+   * empresa pagadora estão configurados. Não altera dados.
+   *
+   * @param numeroLote - Lote de pagamento
+   */
+  async previsualizarRemessa(numeroLote: string) {
+    const { status, incluidos, retidos } = await this._montarPagamentos(numeroLote);
+    const { faltando } = await this._lerPagador();
+
+    const total = (lista: { valor: number }[]) =>
+      Math.round(lista.reduce((acc, p) => acc + Math.round(p.valor * 100), 0)) / 100;
+
+    return {
+      numeroLote,
+      status,
+      layouts: LAYOUTS_REMESSA.map(({ codigo, nome }) => ({ codigo, nome })),
+      configuracoesFaltando: faltando,
+      incluidos,
+      retidos,
+      totais: {
+        incluidos: incluidos.length,
+        valorIncluido: total(incluidos),
+        retidos: retidos.length,
+        valorRetido: total(retidos),
+      },
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: gerarArquivoRemessa
+   * ==========================================================================
+   *
+   * Gera o arquivo do lote no layout escolhido. A cada geração o NSA avança;
+   * transferências que já saíram em um arquivo anterior mantêm o
+   * identificador (o retorno de qualquer arquivo gerado concilia) e apenas as
+   * novas recebem identificador com o NSA atual.
+   *
+   * @param numeroLote - Lote APROVADO (maker-checker)
+   * @param dto - Layout e data de pagamento
+   * @param adminId - Admin responsável (log)
+   * @throws BadRequestException - Lote não aprovado, layout inexistente,
+   *   empresa pagadora não configurada ou nenhum usuário com chave válida
+   */
+  async gerarArquivoRemessa(numeroLote: string, dto: GerarRemessaDto, adminId: string) {
+    const layout = buscarLayoutRemessa(dto.layout);
+
+    const { pagador, faltando } = await this._lerPagador();
+    if (faltando.length > 0) {
+      throw new BadRequestException(
+        `Configure os dados da empresa pagadora antes de gerar a remessa: ${faltando.join(', ')}`,
+      );
+    }
+
+    const hoje = new Date();
+    hoje.setHours(0, 0, 0, 0);
+    const dataPagamento = dto.dataPagamento ? new Date(`${dto.dataPagamento.slice(0, 10)}T12:00:00`) : new Date();
+    if (dataPagamento < hoje) {
+      throw new BadRequestException('A data de pagamento não pode estar no passado.');
+    }
+
+    // ========================================================================
+    // Lote travado (status, pagamentos e identificadores consistentes) e NSA
+    // serializado entre remessas simultâneas; rollback se algo falhar
+    // ========================================================================
+    const { sequencialArquivo, pagamentos, retidos } = await this.prisma.$transaction(async (tx) => {
+      await bloquearLoteFinanceiro(tx, numeroLote);
+      const { status, incluidos, retidos, cpfs } = await this._montarPagamentos(numeroLote, tx);
+      if (status !== StatusLote.APROVADO) {
+        throw new BadRequestException(`Lote ${numeroLote} está ${status}: apenas lotes aprovados geram remessa.`);
+      }
+      if (incluidos.length === 0) {
+        throw new BadRequestException('Nenhum usuário do lote possui chave PIX válida.');
+      }
+
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CHAVE_LOCK_SEQUENCIAL_ARQUIVO})`;
+      const atual = await tx.configuracaoGlobal.findUnique({ where: { chave: CHAVE_SEQUENCIAL_ARQUIVO } });
+      const sequencial = (parseInt(atual?.valor ?? '0', 10) || 0) + 1;
+      await tx.configuracaoGlobal.upsert({
+        where: { chave: CHAVE_SEQUENCIAL_ARQUIVO },
+        update: { valor: String(sequencial) },
+        create: {
+          chave: CHAVE_SEQUENCIAL_ARQUIVO,
+          valor: String(sequencial),
+          descricao: 'Número sequencial (NSA) do último arquivo de remessa de pagamentos gerado',
+        },
+      });
+
+      // Transferências já exportadas mantêm o identificador: o retorno de um
+      // arquivo anterior já enviado ao banco continua conciliando
+      const linhas: PagamentoRemessa[] = [];
+      let novos = 0;
+      for (const pagamento of incluidos) {
+        const identificador =
+          pagamento.identificadorRemessa ??
+          `${String(sequencial).padStart(6, '0')}${String(++novos).padStart(5, '0')}`;
+        await tx.relatorioFinanceiro.updateMany({
+          where: {
+            numeroLote,
+            usuarioId: pagamento.usuarioId,
+            status: StatusPagamento.PENDENTE,
+            identificadorRemessa: null,
+          },
+          data: { identificadorRemessa: identificador },
+        });
+        linhas.push({
+          identificador,
+          usuarioId: pagamento.usuarioId,
+          nome: pagamento.nome,
+          cpf: cpfs.get(pagamento.usuarioId) ?? null,
+          tipoChavePix: pagamento.tipoChavePix,
+          chavePix: pagamento.chavePix,
+          valorCentavos: Math.round(pagamento.valor * 100),
+        });
+      }
+
+      return { sequencialArquivo: sequencial, pagamentos: linhas, retidos };
+    });
+
+    const conteudo = layout.gerar({
+      numeroLote,
+      sequencialArquivo,
+      geradoEm: new Date(),
+      dataPagamento,
+      pagador,
+      pagamentos,
+    });
+
+    this.logger.log(
+      `[REMESSA] Admin ${adminId} gerou ${layout.codigo} NSA ${sequencialArquivo} do lote ${numeroLote}: ` +
+        `${pagamentos.length} pagamento(s), ${retidos.length} retido(s)`,
+    );
+
+    return {
+      nomeArquivo: `remessa-${numeroLote}-${String(sequencialArquivo).padStart(6, '0')}.${layout.extensao}`,
+      conteudo,
+      sequencialArquivo,
+      totalPagamentos: pagamentos.length,
+      retidos,
+    };
+  }
+
+  /**
+   * Agrupa os relatórios do lote por usuário e separa quem tem chave PIX
+   * válida de quem fica retido.
+   */
+  private async _montarPagamentos(numeroLote: string, db: Prisma.TransactionClient = this.prisma) {
+    const relatorios = await db.relatorioFinanceiro.findMany({
+      where: { numeroLote },
+      select: {
+        valor: true,
+        status: true,
+        identificadorRemessa: true,
+        usuario: {
+          select: { id: true, nome: true, cpf: true, papel: true, tipoChavePix: true, chavePix: true },
+        },
+      },
+      orderBy: { usuario: { nome: 'asc' } },
+    });
+
+    if (relatorios.length === 0) {
+      throw new NotFoundException(`Lote ${numeroLote} não encontrado`);
+    }
+
+    // Valores em centavos por usuário (apenas relatórios ainda pendentes)
+    const porUsuario = new Map<string, { usuario: (typeof relatorios)[number]['usuario']; centavos: number; identificador: string | null }>();
+    for (const rel of relatorios) {
+      if (rel.status !== StatusPagamento.PENDENTE) continue;
+      const atual = porUsuario.get(rel.usuario.id) ?? { usuario: rel.usuario, centavos: 0, identificador: null };
+      atual.centavos += Math.round(Number(rel.valor) * 100);
+      atual.identificador = atual.identificador ?? rel.identificadorRemessa;
+      porUsuario.set(rel.usuario.id, atual);
+    }
+
+    const incluidos: PagamentoIncluidoRemessa[] = [];
+    const retidos: PagamentoRetidoRemessa[] = [];
+    const cpfs = new Map<string, string>();
+
+    for (const { usuario, centavos, identificador } of porUsuario.values()) {
+      if (centavos <= 0) continue;
+      const valor = centavos / 100;
+
+      const chave = normalizarChavePix(usuario.tipoChavePix, usuario.chavePix);
+      if (!chave) {
+        retidos.push({
+          usuarioId: usuario.id,
+          nome: usuario.nome,
+          papel: usuario.papel,
+          valor,
+          motivo: usuario.chavePix ? `Chave PIX inválida para o tipo ${usuario.tipoChavePix}` : 'Sem chave PIX cadastrada',
+        });
+        continue;
+      }
+
+      if (usuario.cpf) cpfs.set(usuario.id, usuario.cpf);
+      incluidos.push({
+        usuarioId: usuario.id,
+        nome: usuario.nome,
+        papel: usuario.papel,
+        tipoChavePix: usuario.tipoChavePix!,
+        chavePix: chave,
+        valor,
+        identificadorRemessa: identificador,
+      });
+    }
+
+    const { status } = await buscarLoteFinanceiro(db, numeroLote);
+
+    return { status, incluidos, retidos, cpfs };
+  }
+
+  /**
+   * Lê os dados da empresa pagadora e lista as chaves obrigatórias ausentes.
+   */
+  private async _lerPagador(): Promise<{ pagador: DadosPagadorRemessa; faltando: string[] }> {
+    const configuracoes = await this.prisma.configuracaoGlobal.findMany({
+      where: { chave: { in: Object.values(CHAVES_PAGADOR) } },
+    });
+    const valor = (campo: keyof DadosPagadorRemessa) =>
+      configuracoes.find((c) => c.chave === CHAVES_PAGADOR[campo])?.valor.trim() ?? '';
+
+    const pagador = Object.fromEntries(
+      (Object.keys(CHAVES_PAGADOR) as (keyof DadosPagadorRemessa)[]).map((campo) => [campo, valor(campo)]),
+    ) as unknown as DadosPagadorRemessa;
+
+    const faltando = CAMPOS_PAGADOR_OBRIGATORIOS.filter((campo) => !pagador[campo]).map(
+      (campo) => CHAVES_PAGADOR[campo],
+    );
+
+    return { pagador, faltando };
+  }
+}
@@ -0,0 +1,208 @@
+import { Cnab240PixLayout } from './cnab240-pix.layout';
+import { DadosRemessa } from './layout-remessa.interface';
+
+const dados: DadosRemessa = {
+    numeroLote: 'LOTE-2025-11-001',
+    sequencialArquivo: 42,
+    geradoEm: new Date(2025, 10, 20, 9, 30, 15),
+    dataPagamento: new Date(2025, 10, 21, 12, 0, 0),
+    pagador: {
+        bancoCodigo: '341',
+        bancoNome: 'Banco Itaú',
+        cnpj: '12.345.678/0001-90',
+        nomeEmpresa: 'Óticas Visão Ltda',
+        convenio: '123456',
+        agencia: '1234',
+        agenciaDv: '5',
+        conta: '98765',
+        contaDv: '4',
+    },
+    pagamentos: [
+        {
+            identificador: '00004200001',
+            usuarioId: 'user-1',
+            nome: 'João da Conceição',
+            cpf: '52998224725',
+            tipoChavePix: 'CPF' as any,
+            chavePix: '52998224725',
+            valorCentavos: 12_345,
+        },
+        {
+            identificador: '00004200002',
+            usuarioId: 'user-2',
+            nome: 'Maria Souza',
+            cpf: null,
+            tipoChavePix: 'EMAIL' as any,
+            chavePix: 'maria.souza@exemplo.com',
+            valorCentavos: 50_000,
+        },
+    ],
+};
+
+/** Substitui o trecho do registro a partir da posição (base 0) */
+const substituir = (registro: string, posicao: number, texto: string) =>
+    registro.slice(0, posicao) + texto + registro.slice(posicao + texto.length);
+
+/**
+ * Monta um retorno a partir da remessa gerada: header com código "2" e as
+ * ocorrências informadas em cada Segmento A (na ordem dos pagamentos)
+ */
+const montarRetorno = (ocorrencias: string[], ajustarSegmentoA?: (registro: string, i: number) => string) => {
+    const registros = new Cnab240PixLayout().gerar(dados).trimEnd().split('\r\n');
+    registros[0] = substituir(registros[0], 142, '2');
+
+    let i = 0;
+    return registros
+        .map((registro) => {
+            if (registro[7] !== '3' || registro[13] !== 'A') return registro;
+            let retorno = substituir(registro, 230, ocorrencias[i].padEnd(10, ' '));
+            if (ajustarSegmentoA) retorno = ajustarSegmentoA(retorno, i);
+            i++;
+            return retorno;
+        })
+        .join('\r\n');
+};
+
+describe('Cnab240PixLayout', () => {
+    const layout = new Cnab240PixLayout();
+
+    describe('gerar', () => {
+        const registros = layout.gerar(dados).split('\r\n');
+
+        it('should produce 240-character records separated by CRLF', () => {
+            expect(registros.pop()).toBe('');
+            expect(registros).toHaveLength(8);
+            for (const registro of registros) {
+                expect(registro).toHaveLength(240);
+            }
+        });
+
+        it('should lay out one A and one B segment per payment between the batch header and trailer', () => {
+            expect(registros.map((r) => (r[7] === '3' ? `3${r[13]}` : r[7]))).toEqual([
+                '0', '1', '3A', '3B', '3A', '3B', '5', '9',
+            ]);
+            // Sequencial do registro no lote
+            expect(registros.slice(2, 6).map((r) => r.slice(8, 13))).toEqual(['00001', '00002', '00003', '00004']);
+        });
+
+        it('should write the file header with the NSA, the generation date and the remittance code', () => {
+            const header = registros[0];
+
+            expect(header.slice(0, 3)).toBe('341');
+            expect(header.slice(18, 32)).toBe('12345678000190');
+            expect(header.slice(72, 102).trim()).toBe('OTICAS VISAO LTDA');
+            expect(header[142]).toBe('1');
+            expect(header.slice(143, 151)).toBe('20112025');
+            expect(header.slice(151, 157)).toBe('093015');
+            expect(header.slice(157, 163)).toBe('000042');
+        });
+
+        it('should write the transfer identifier, payment date and amount in segment A', () => {
+            const segmentoA = registros[2];
+
+            expect(segmentoA.slice(17, 20)).toBe('009');
+            expect(segmentoA.slice(43, 73).trim()).toBe('JOAO DA CONCEICAO');
+            expect(segmentoA.slice(73, 93).trim()).toBe('00004200001');
+            expect(segmentoA.slice(93, 101)).toBe('21112025');
+            expect(segmentoA.slice(119, 134)).toBe('000000000012345');
+        });
+
+        it('should write the PIX key, its initiation form and the CPF in segment B', () => {
+            const [segmentoCpf, segmentoEmail] = [registros[3], registros[5]];
+
+            expect(segmentoCpf.slice(14, 16)).toBe('03');
+            expect(segmentoCpf[17]).toBe('1');
+            expect(segmentoCpf.slice(18, 32)).toBe('00052998224725');
+            expect(segmentoCpf.slice(127, 226).trim()).toBe('52998224725');
+
+            expect(segmentoEmail.slice(14, 16)).toBe('02');
+            expect(segmentoEmail[17]).toBe('0');
+            // Chave mantida como cadastrada (minúsculas)
+            expect(segmentoEmail.slice(127, 226).trim()).toBe('maria.souza@exemplo.com');
+        });
+
+        it('should count the batch records and sum the amounts in the trailers', () => {
+            const [trailerLote, trailerArquivo] = registros.slice(6);
+
+            // Header de lote + 4 detalhes + trailer de lote
+            expect(trailerLote.slice(17, 23)).toBe('000006');
+            expect(trailerLote.slice(23, 41)).toBe('000000000000062345');
+            // Um lote, 8 registros no arquivo
+            expect(trailerArquivo.slice(17, 23)).toBe('000001');
+            expect(trailerArquivo.slice(23, 29)).toBe('000008');
+        });
+    });
+
+    describe('lerRetorno', () => {
+        it('should mark a transfer with occurrence 00 as paid with the bank date, amount and authentication', () => {
+            const conteudo = montarRetorno(['00', 'BD'], (registro, i) =>
+                i === 0
+                    ? substituir(
+                        substituir(registro, 134, 'AUT123'.padEnd(20, ' ')),
+                        154,
+                        '21112025000000000012345',
+                    )
+                    : registro,
+            );
+
+            const [pago, agendado] = layout.lerRetorno(conteudo);
+
+            expect(pago).toEqual({
+                identificador: '00004200001',
+                situacao: 'PAGO',
+                ocorrencias: ['00'],
+                motivo: null,
+                codigoAutenticacao: 'AUT123',
+                dataPagamento: new Date(2025, 10, 21, 12, 0, 0),
+                valorCentavos: 12_345,
+            });
+            expect(agendado).toEqual(
+                expect.objectContaining({
+                    identificador: '00004200002',
+                    situacao: 'AGENDADO',
+                    motivo: null,
+                    dataPagamento: null,
+                    // Sem valor real: usa o valor da remessa
+                    valorCentavos: 50_000,
+                }),
+            );
+        });
+
+        it('should describe the occurrences of a rejected transfer', () => {
+            const [rejeitado, desconhecido] = layout.lerRetorno(montarRetorno(['PJPM', 'XX']));
+
+            expect(rejeitado.situacao).toBe('REJEITADO');
+            expect(rejeitado.ocorrencias).toEqual(['PJ', 'PM']);
+            expect(rejeitado.motivo).toBe('Chave PIX não cadastrada no DICT; Chave PIX inválida');
+            expect(desconhecido.motivo).toBe('Ocorrência XX');
+        });
+
+        it('should treat a transfer without occurrences as rejected', () => {
+            const [semOcorrencia] = layout.lerRetorno(montarRetorno(['', '00']));
+
+            expect(semOcorrencia.situacao).toBe('REJEITADO');
+            expect(semOcorrencia.motivo).toBe('Ocorrência não informada pelo banco');
+        });
+
+        it('should take the authentication from the Z segment of the previous payment', () => {
+            const registros = montarRetorno(['00', '00']).split('\r\n');
+            const segmentoZ = substituir(registros[3].slice(0, 13).padEnd(240, ' '), 13, 'Z' + 'AUTENTICACAO-Z-1');
+            registros.splice(4, 0, segmentoZ);
+
+            const [primeiro, segundo] = layout.lerRetorno(registros.join('\n'));
+
+            expect(primeiro.codigoAutenticacao).toBe('AUTENTICACAO-Z-1');
+            expect(segundo.codigoAutenticacao).toBeNull();
+        });
+
+        it('should reject a remittance file sent as return', () => {
+            expect(() => layout.lerRetorno(layout.gerar(dados))).toThrow('código de retorno "2"');
+        });
+
+        it('should reject records longer than 240 positions', () => {
+            const conteudo = montarRetorno(['00', '00']).replace('\r\n', 'X\r\n');
+
+            expect(() => layout.lerRetorno(conteudo)).toThrow('fora do layout CNAB 240');
+        });
+    });
+});
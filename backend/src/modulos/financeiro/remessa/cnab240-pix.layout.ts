@@ -0,0 +1,342 @@
+/**
+ * ============================================================================
+ * LAYOUT: CNAB 240 - Pagamento via PIX (FEBRABAN)
+ * ============================================================================
+ *
+ * Arquivo de remessa de pagamentos com um único lote de transferências PIX
+ * por chave (forma de lançamento 45):
+ *
+ *   Header de arquivo (0)
+ *   Header de lote (1)
+ *   Segmento A + Segmento B (3) por pagamento
+ *   Trailer de lote (5)
+ *   Trailer de arquivo (9)
+ *
+ * Registros de 240 posições, separados por CRLF. Campos alfanuméricos em
+ * maiúsculas sem acentos (a chave PIX é mantida como cadastrada).
+ *
+ * Retorno: mesmo layout, com as ocorrências (posições 231-240) preenchidas
+ * pelo banco no Segmento A e a autenticação no Segmento Z opcional.
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { TipoChavePix } from '@prisma/client';
+import {
+  DadosRemessa,
+  LayoutRemessa,
+  PagamentoRemessa,
+  RetornoPagamento,
+} from './layout-remessa.interface';
+
+const TAMANHO_REGISTRO = 240;
+const VERSAO_LAYOUT_ARQUIVO = '089';
+const VERSAO_LAYOUT_LOTE = '046';
+/** Tipo de serviço 20 = Pagamento a fornecedor */
+const TIPO_SERVICO = '20';
+/** Forma de lançamento 45 = PIX transferência */
+const FORMA_LANCAMENTO_PIX = '45';
+/** Câmara centralizadora 009 = SPI (PIX) */
+const CAMARA_PIX = '009';
+
+/**
+ * Forma de iniciação do Segmento B conforme o tipo da chave
+ */
+const FORMA_INICIACAO: Record<TipoChavePix, string> = {
+  [TipoChavePix.TELEFONE]: '01',
+  [TipoChavePix.EMAIL]: '02',
+  [TipoChavePix.CPF]: '03',
+  [TipoChavePix.ALEATORIA]: '04',
+};
+
+/**
+ * Ocorrências do retorno (tabela G059 da FEBRABAN, principais códigos)
+ */
+const OCORRENCIA_PAGO = '00';
+const OCORRENCIA_AGENDADO = 'BD';
+const OCORRENCIAS: Record<string, string> = {
+  '00': 'Crédito ou débito efetivado',
+  '01': 'Insuficiência de fundos - débito não efetuado',
+  '02': 'Crédito ou débito cancelado pelo pagador/credor',
+  AE: 'Tipo/número de inscrição inválido',
+  AF: 'Código de convênio inválido',
+  AG: 'Agência/conta corrente/DV inválido',
+  AO: 'Nome do favorecido não informado',
+  AP: 'Data do lançamento inválida',
+  AR: 'Valor do lançamento inválido',
+  BD: 'Inclusão efetuada com sucesso (pagamento agendado)',
+  HF: 'Conta corrente da empresa com saldo insuficiente',
+  PA: 'PIX não efetivado',
+  PB: 'Transação interrompida por erro no PSP do recebedor',
+  PC: 'Conta transacional do recebedor encerrada',
+  PD: 'Tipo incorreto para a conta transacional',
+  PE: 'Tipo de transação não autorizado na conta do recebedor',
+  PF: 'CPF/CNPJ do recebedor não confere com o titular da conta',
+  PG: 'CPF/CNPJ do recebedor incorreto',
+  PH: 'Ordem rejeitada pelo PSP do recebedor',
+  PJ: 'Chave PIX não cadastrada no DICT',
+  PL: 'Forma de iniciação inválida',
+  PM: 'Chave PIX inválida',
+  PN: 'Chave PIX não informada',
+};
+
+/** Campo alfanumérico: maiúsculo, sem acentos, alinhado à esquerda com brancos */
+const alfa = (valor: string | null | undefined, tamanho: number) =>
+  (valor ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,/&-]/g, ' ')
+    .slice(0, tamanho)
+    .padEnd(tamanho, ' ');
+
+/** Campo numérico: somente dígitos, alinhado à direita com zeros */
+const num = (valor: string | number | null | undefined, tamanho: number) =>
+  String(valor ?? '')
+    .replace(/\D/g, '')
+    .slice(-tamanho)
+    .padStart(tamanho, '0');
+
+const brancos = (tamanho: number) => ' '.repeat(tamanho);
+
+const data = (d: Date) =>
+  `${String(d.getDate()).padStart(2, '0')}${String(d.getMonth() + 1).padStart(2, '0')}${d.getFullYear()}`;
+
+/** Data DDMMAAAA do retorno (null se zerada ou inválida) */
+const lerData = (valor: string): Date | null => {
+  const [dia, mes, ano] = [valor.slice(0, 2), valor.slice(2, 4), valor.slice(4, 8)].map(Number);
+  if (!dia || !mes || !ano) return null;
+  const resultado = new Date(ano, mes - 1, dia, 12, 0, 0);
+  return resultado.getMonth() === mes - 1 ? resultado : null;
+};
+
+const hora = (d: Date) =>
+  `${String(d.getHours()).padStart(2, '0')}${String(d.getMinutes()).padStart(2, '0')}${String(d.getSeconds()).padStart(2, '0')}`;
+
+export class Cnab240PixLayout implements LayoutRemessa {
+  readonly codigo = 'CNAB240_PIX';
+  readonly nome = 'CNAB 240 - PIX (FEBRABAN)';
+  readonly extensao = 'rem';
+
+  gerar(dados: DadosRemessa): string {
+    const registros: string[] = [this._headerArquivo(dados), this._headerLote(dados)];
+
+    dados.pagamentos.forEach((pagamento, i) => {
+      registros.push(this._segmentoA(dados, pagamento, i * 2 + 1));
+      registros.push(this._segmentoB(dados, pagamento, i * 2 + 2));
+    });
+
+    const totalCentavos = dados.pagamentos.reduce((acc, p) => acc + p.valorCentavos, 0);
+    // Registros do lote: header de lote + detalhes + o próprio trailer (o header de arquivo não conta)
+    registros.push(this._trailerLote(dados, registros.length, totalCentavos));
+    registros.push(this._trailerArquivo(dados, registros.length + 1));
+
+    for (const registro of registros) {
+      if (registro.length !== TAMANHO_REGISTRO) {
+        throw new Error(`Registro CNAB com ${registro.length} posições (esperado ${TAMANHO_REGISTRO})`);
+      }
+    }
+
+    return registros.join('\r\n') + '\r\n';
+  }
+
+  lerRetorno(conteudo: string): RetornoPagamento[] {
+    const registros = conteudo
+      .split(/\r?\n/)
+      .filter((linha) => linha.trim().length > 0)
+      .map((linha) => linha.padEnd(TAMANHO_REGISTRO, ' '));
+
+    if (registros.length === 0 || registros.some((r) => r.length !== TAMANHO_REGISTRO)) {
+      throw new Error(`Arquivo retorno fora do layout CNAB 240 (registros de ${TAMANHO_REGISTRO} posições)`);
+    }
+    if (registros[0][7] !== '0' || registros[0][142] !== '2') {
+      throw new Error('Arquivo não é um retorno CNAB 240 (header de arquivo com código de retorno "2")');
+    }
+
+    const retornos: RetornoPagamento[] = [];
+    for (const registro of registros) {
+      if (registro[7] !== '3') continue;
+      const segmento = registro[13];
+
+      // Segmento Z: autenticação do pagamento do Segmento A anterior
+      if (segmento === 'Z' && retornos.length > 0) {
+        const autenticacao = registro.slice(14, 78).trim();
+        if (autenticacao) retornos[retornos.length - 1].codigoAutenticacao = autenticacao;
+        continue;
+      }
+      if (segmento !== 'A') continue;
+
+      const ocorrencias = (registro.slice(230, 240).match(/.{2}/g) ?? [])
+        .map((codigo) => codigo.trim())
+        .filter(Boolean);
+      const situacao = ocorrencias.includes(OCORRENCIA_PAGO)
+        ? 'PAGO'
+        : ocorrencias.length > 0 && ocorrencias.every((codigo) => codigo === OCORRENCIA_AGENDADO)
+          ? 'AGENDADO'
+          : 'REJEITADO';
+      const valorReal = parseInt(registro.slice(162, 177), 10) || 0;
+
+      retornos.push({
+        identificador: registro.slice(73, 93).trim(),
+        situacao,
+        ocorrencias,
+        motivo:
+          situacao === 'REJEITADO'
+            ? ocorrencias.map((codigo) => OCORRENCIAS[codigo] ?? `Ocorrência ${codigo}`).join('; ') ||
+              'Ocorrência não informada pelo banco'
+            : null,
+        codigoAutenticacao: registro.slice(134, 154).trim() || null,
+        dataPagamento: lerData(registro.slice(154, 162)),
+        valorCentavos: valorReal || parseInt(registro.slice(119, 134), 10) || 0,
+      });
+    }
+
+    return retornos;
+  }
+
+  /**
+   * Identificação da empresa pagadora (posições 018-102 dos headers)
+   */
+  private _empresa(dados: DadosRemessa): string {
+    const { pagador } = dados;
+    return (
+      '2' + // Tipo de inscrição: CNPJ
+      num(pagador.cnpj, 14) +
+      alfa(pagador.convenio, 20) +
+      num(pagador.agencia, 5) +
+      alfa(pagador.agenciaDv, 1) +
+      num(pagador.conta, 12) +
+      alfa(pagador.contaDv, 1) +
+      brancos(1) + // DV agência/conta
+      alfa(pagador.nomeEmpresa, 30)
+    );
+  }
+
+  private _headerArquivo(dados: DadosRemessa): string {
+    return (
+      num(dados.pagador.bancoCodigo, 3) +
+      '0000' +
+      '0' +
+      brancos(9) +
+      this._empresa(dados) +
+      alfa(dados.pagador.bancoNome, 30) +
+      brancos(10) +
+      '1' + // Remessa
+      data(dados.geradoEm) +
+      hora(dados.geradoEm) +
+      num(dados.sequencialArquivo, 6) +
+      VERSAO_LAYOUT_ARQUIVO +
+      '00000' + // Densidade
+      brancos(20) + // Reservado ao banco
+      alfa(dados.numeroLote, 20) + // Reservado à empresa
+      brancos(29)
+    );
+  }
+
+  private _headerLote(dados: DadosRemessa): string {
+    return (
+      num(dados.pagador.bancoCodigo, 3) +
+      '0001' +
+      '1' +
+      'C' + // Crédito
+      TIPO_SERVICO +
+      FORMA_LANCAMENTO_PIX +
+      VERSAO_LAYOUT_LOTE +
+      brancos(1) +
+      this._empresa(dados) +
+      alfa(`PAGAMENTO ${dados.numeroLote}`, 40) +
+      brancos(30) + // Logradouro
+      num('', 5) + // Número
+      brancos(15) + // Complemento
+      brancos(20) + // Cidade
+      num('', 5) + // CEP
+      brancos(3) + // Complemento CEP
+      brancos(2) + // UF
+      '01' + // Forma de pagamento: débito em conta
+      brancos(6) +
+      brancos(10) // Ocorrências (retorno)
+    );
+  }
+
+  private _segmentoA(dados: DadosRemessa, pagamento: PagamentoRemessa, sequencial: number): string {
+    return (
+      num(dados.pagador.bancoCodigo, 3) +
+      '0001' +
+      '3' +
+      num(sequencial, 5) +
+      'A' +
+      '0' + // Tipo de movimento: inclusão
+      '00' + // Instrução de movimento
+      CAMARA_PIX +
+      num('', 3) + // Banco do favorecido (não usado com chave)
+      num('', 5) + // Agência
+      brancos(1) +
+      num('', 12) + // Conta
+      brancos(1) +
+      brancos(1) +
+      alfa(pagamento.nome, 30) +
+      alfa(pagamento.identificador, 20) + // Seu número
+      data(dados.dataPagamento) +
+      'BRL' +
+      num('', 15) + // Quantidade de moeda
+      num(pagamento.valorCentavos, 15) +
+      brancos(20) + // Nosso número (retorno)
+      num('', 8) + // Data real (retorno)
+      num('', 15) + // Valor real (retorno)
+      alfa(`CAMPANHA EPS ${dados.numeroLote}`, 40) +
+      brancos(2) + // Finalidade DOC
+      brancos(5) + // Finalidade TED
+      brancos(2) + // Finalidade complementar
+      brancos(3) +
+      '0' + // Aviso ao favorecido
+      brancos(10) // Ocorrências (retorno)
+    );
+  }
+
+  private _segmentoB(dados: DadosRemessa, pagamento: PagamentoRemessa, sequencial: number): string {
+    return (
+      num(dados.pagador.bancoCodigo, 3) +
+      '0001' +
+      '3' +
+      num(sequencial, 5) +
+      'B' +
+      FORMA_INICIACAO[pagamento.tipoChavePix].padEnd(3, ' ') +
+      (pagamento.cpf ? '1' : '0') + // Tipo de inscrição do favorecido: CPF
+      num(pagamento.cpf, 14) +
+      brancos(35) + // TX ID
+      brancos(60) + // Informação entre usuários
+      pagamento.chavePix.slice(0, 99).padEnd(99, ' ') +
+      brancos(6) +
+      num('', 8) // ISPB (não usado com chave)
+    );
+  }
+
+  private _trailerLote(dados: DadosRemessa, quantidadeRegistros: number, totalCentavos: number): string {
+    return (
+      num(dados.pagador.bancoCodigo, 3) +
+      '0001' +
+      '5' +
+      brancos(9) +
+      num(quantidadeRegistros, 6) +
+      num(totalCentavos, 18) +
+      num('', 18) + // Quantidade de moeda
+      num('', 6) + // Aviso de débito
+      brancos(165) +
+      brancos(10) // Ocorrências (retorno)
+    );
+  }
+
+  private _trailerArquivo(dados: DadosRemessa, quantidadeRegistros: number): string {
+    return (
+      num(dados.pagador.bancoCodigo, 3) +
+      '9999' +
+      '9' +
+      brancos(9) +
+      num(1, 6) + // Quantidade de lotes
+      num(quantidadeRegistros, 6) +
+      num('', 6) + // Contas para conciliação
+      brancos(205)
+    );
+  }
+}
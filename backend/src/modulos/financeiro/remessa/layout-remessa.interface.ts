@@ -0,0 +1,117 @@
+/**
+ * ============================================================================
+ * LAYOUT DE REMESSA - Contrato dos Arquivos de Pagamento em Lote
+ * ============================================================================
+ *
+ * Cada banco/formato implementa LayoutRemessa e é registrado em
+ * LAYOUTS_REMESSA (layouts-remessa.ts). O RemessaPagamentoService monta os
+ * dados (pagador, pagamentos já agregados por usuário) e o layout só cuida
+ * da serialização do arquivo. No caminho inverso, o layout lê o arquivo
+ * retorno do banco e o ConciliacaoRetornoService aplica o resultado.
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { TipoChavePix } from '@prisma/client';
+
+/**
+ * Empresa pagadora (conta debitada), lida de ConfiguracaoGlobal (REMESSA_*)
+ */
+export interface DadosPagadorRemessa {
+  /** Código do banco da conta debitada (3 dígitos, ex: "341") */
+  bancoCodigo: string;
+  /** Nome do banco (opcional no header) */
+  bancoNome: string;
+  /** CNPJ da empresa (somente dígitos) */
+  cnpj: string;
+  /** Razão social da empresa */
+  nomeEmpresa: string;
+  /** Código do convênio de pagamentos junto ao banco */
+  convenio: string;
+  agencia: string;
+  agenciaDv: string;
+  conta: string;
+  contaDv: string;
+}
+
+/**
+ * Uma transferência PIX (todos os relatórios do usuário no lote somados)
+ */
+export interface PagamentoRemessa {
+  /** Identificador da transferência ("seu número"), devolvido no arquivo retorno */
+  identificador: string;
+  usuarioId: string;
+  nome: string;
+  /** CPF do favorecido (somente dígitos), quando cadastrado */
+  cpf: string | null;
+  tipoChavePix: TipoChavePix;
+  /** Chave já normalizada (normalizarChavePix) */
+  chavePix: string;
+  /** Valor em centavos */
+  valorCentavos: number;
+}
+
+/**
+ * Dados completos de um arquivo de remessa
+ */
+export interface DadosRemessa {
+  numeroLote: string;
+  /** Número sequencial do arquivo (NSA) */
+  sequencialArquivo: number;
+  geradoEm: Date;
+  dataPagamento: Date;
+  pagador: DadosPagadorRemessa;
+  pagamentos: PagamentoRemessa[];
+}
+
+/**
+ * Resultado de uma transferência no arquivo retorno
+ * - PAGO: crédito efetivado
+ * - AGENDADO: aceito pelo banco, ainda não efetivado (conciliar no próximo retorno)
+ * - REJEITADO: não efetivado (motivo nas ocorrências)
+ */
+export type SituacaoRetornoPagamento = 'PAGO' | 'AGENDADO' | 'REJEITADO';
+
+/**
+ * Uma transferência lida do arquivo retorno
+ */
+export interface RetornoPagamento {
+  /** "Seu número" enviado na remessa (RelatorioFinanceiro.identificadorRemessa) */
+  identificador: string;
+  situacao: SituacaoRetornoPagamento;
+  /** Códigos de ocorrência do banco */
+  ocorrencias: string[];
+  /** Descrição das ocorrências (quando não pago) */
+  motivo: string | null;
+  /** Autenticação do pagamento (ou número atribuído pelo banco) */
+  codigoAutenticacao: string | null;
+  /** Data efetiva do pagamento */
+  dataPagamento: Date | null;
+  /** Valor informado pelo banco, em centavos (0 = não informado) */
+  valorCentavos: number;
+}
+
+/**
+ * Formato de arquivo de pagamento em lote
+ */
+export interface LayoutRemessa {
+  /** Código usado na API (ex: "CNAB240_PIX") */
+  readonly codigo: string;
+  /** Nome exibido no painel */
+  readonly nome: string;
+  /** Extensão do arquivo gerado (sem ponto) */
+  readonly extensao: string;
+
+  /**
+   * Serializa a remessa no formato do layout.
+   */
+  gerar(dados: DadosRemessa): string;
+
+  /**
+   * Lê o arquivo retorno do banco (uma entrada por transferência).
+   *
+   * @throws Error - Arquivo fora do layout
+   */
+  lerRetorno(conteudo: string): RetornoPagamento[];
+}
@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * LAYOUTS DE REMESSA DISPONÍVEIS
+ * ============================================================================
+ *
+ * Para suportar outro banco/formato, implemente LayoutRemessa e registre a
+ * instância aqui. O primeiro layout é o padrão.
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { BadRequestException } from '@nestjs/common';
+import { Cnab240PixLayout } from './cnab240-pix.layout';
+import { LayoutRemessa } from './layout-remessa.interface';
+
+export const LAYOUTS_REMESSA: LayoutRemessa[] = [new Cnab240PixLayout()];
+
+/**
+ * Layout pelo código (sem código: o padrão).
+ *
+ * @throws BadRequestException - Layout não suportado
+ */
+export function buscarLayoutRemessa(codigo?: string): LayoutRemessa {
+  const layout = codigo ? LAYOUTS_REMESSA.find((l) => l.codigo === codigo) : LAYOUTS_REMESSA[0];
+  if (!layout) {
+    throw new BadRequestException(
+      `Layout ${codigo} não suportado. Disponíveis: ${LAYOUTS_REMESSA.map((l) => l.codigo).join(', ')}`,
+    );
+  }
+  return layout;
+}
@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { SolicitacaoResgateService } from './solicitacao-resgate.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    $queryRaw: jest.fn(),
+    configuracaoGlobal: {
+        findMany: jest.fn(),
+    },
+    usuario: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+    },
+    solicitacaoResgate: {
+        findMany: jest.fn(),
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+    },
+    lancamentoSaldo: {
+        createMany: jest.fn(),
+    },
+    auditoriaFinanceira: {
+        create: jest.fn(),
+    },
+    notificacao: {
+        create: jest.fn(),
+    },
+};
+
+const contexto = { adminId: 'admin-uuid', ipAddress: '127.0.0.1' };
+const usuarioId = 'user-1';
+const UM_DIA_MS = 24 * 60 * 60 * 1000;
+
+const politica = (valorMinimo: string, intervaloDias: string) => [
+    { chave: 'RESGATE_VALOR_MINIMO', valor: valorMinimo },
+    { chave: 'RESGATE_INTERVALO_DIAS', valor: intervaloDias },
+];
+
+const solicitacao = (dados: Record<string, unknown> = {}) => ({
+    id: 'resgate-1',
+    usuarioId,
+    valor: 150,
+    status: 'SOLICITADO',
+    motivo: null,
+    analisadoEm: null,
+    criadoEm: new Date(),
+    ...dados,
+});
+
+describe('SolicitacaoResgateService', () => {
+    let service: SolicitacaoResgateService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SolicitacaoResgateService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<SolicitacaoResgateService>(SolicitacaoResgateService);
+        jest.clearAllMocks();
+
+        mockPrismaService.configuracaoGlobal.findMany.mockResolvedValue(politica('50', '30'));
+        mockPrismaService.usuario.findUnique.mockResolvedValue({ saldoPontos: 500 });
+        mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([]);
+        mockPrismaService.solicitacaoResgate.create.mockResolvedValue(solicitacao());
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('obterPolitica', () => {
+        it('should fall back to no minimum and 30 days when the keys are missing or invalid', async () => {
+            mockPrismaService.configuracaoGlobal.findMany.mockResolvedValue([{ chave: 'RESGATE_VALOR_MINIMO', valor: '-10' }]);
+
+            await expect(service.obterPolitica()).resolves.toEqual({ valorMinimo: 0, intervaloDias: 30 });
+        });
+    });
+
+    describe('solicitar', () => {
+        it('should reserve the requested amount from the available balance', async () => {
+            const resultado = await service.solicitar(usuarioId, { valor: 150.004 });
+
+            expect(mockPrismaService.solicitacaoResgate.create).toHaveBeenCalledWith({ data: { usuarioId, valor: 150 } });
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: usuarioId },
+                data: { saldoPontos: { decrement: 150 }, saldoReservado: { increment: 150 } },
+            });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [expect.objectContaining({ tipo: 'RESERVA_RESGATE', valor: -150, valorReservado: 150, usuarioId })],
+            });
+            expect(resultado).toEqual(expect.objectContaining({ id: 'resgate-1', valor: 150, status: 'SOLICITADO' }));
+        });
+
+        it('should lock the user row before checking the balance', async () => {
+            await service.solicitar(usuarioId, { valor: 150 });
+
+            expect(mockPrismaService.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+                mockPrismaService.usuario.findUnique.mock.invocationCallOrder[0],
+            );
+        });
+
+        it('should reject an amount below the minimum', async () => {
+            await expect(service.solicitar(usuarioId, { valor: 49.99 })).rejects.toThrow(
+                'O valor mínimo para resgate é R$ 50.00.',
+            );
+            expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should reject an amount above the available balance', async () => {
+            await expect(service.solicitar(usuarioId, { valor: 500.01 })).rejects.toThrow(BadRequestException);
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+        });
+
+        it('should accept the whole available balance', async () => {
+            await service.solicitar(usuarioId, { valor: 500 });
+
+            expect(mockPrismaService.solicitacaoResgate.create).toHaveBeenCalledWith({ data: { usuarioId, valor: 500 } });
+        });
+
+        it('should allow only one open request per user', async () => {
+            mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([
+                { status: 'EM_LOTE', criadoEm: new Date(Date.now() - 60 * UM_DIA_MS) },
+            ]);
+
+            await expect(service.solicitar(usuarioId, { valor: 100 })).rejects.toThrow(
+                'Você já tem uma solicitação de resgate em andamento.',
+            );
+            expect(mockPrismaService.solicitacaoResgate.create).not.toHaveBeenCalled();
+        });
+
+        it('should enforce the interval since the last paid request', async () => {
+            mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([
+                { status: 'PAGO', criadoEm: new Date(Date.now() - 10 * UM_DIA_MS) },
+            ]);
+
+            await expect(service.solicitar(usuarioId, { valor: 100 })).rejects.toThrow(ConflictException);
+            expect(mockPrismaService.solicitacaoResgate.create).not.toHaveBeenCalled();
+        });
+
+        it('should allow a new request once the interval has passed', async () => {
+            mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([
+                { status: 'PAGO', criadoEm: new Date(Date.now() - 31 * UM_DIA_MS) },
+            ]);
+
+            await service.solicitar(usuarioId, { valor: 100 });
+
+            expect(mockPrismaService.solicitacaoResgate.create).toHaveBeenCalled();
+        });
+
+        it('should only count open and paid requests for the interval', async () => {
+            await service.solicitar(usuarioId, { valor: 100 });
+
+            expect(mockPrismaService.solicitacaoResgate.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { usuarioId, status: { in: ['SOLICITADO', 'APROVADO', 'EM_LOTE', 'PAGO'] } },
+                }),
+            );
+        });
+
+        it('should ignore the interval when it is configured as zero', async () => {
+            mockPrismaService.configuracaoGlobal.findMany.mockResolvedValue(politica('0', '0'));
+            mockPrismaService.solicitacaoResgate.findMany.mockResolvedValue([
+                { status: 'PAGO', criadoEm: new Date() },
+            ]);
+
+            await service.solicitar(usuarioId, { valor: 10 });
+
+            expect(mockPrismaService.solicitacaoResgate.create).toHaveBeenCalled();
+        });
+    });
+
+    describe('cancelar', () => {
+        it('should return the reserve to the available balance', async () => {
+            mockPrismaService.solicitacaoResgate.findFirst.mockResolvedValue(solicitacao());
+            mockPrismaService.solicitacaoResgate.update.mockResolvedValue(solicitacao({ status: 'CANCELADO' }));
+
+            const resultado = await service.cancelar(usuarioId, 'resgate-1');
+
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: usuarioId },
+                data: { saldoPontos: { increment: 150 }, saldoReservado: { decrement: 150 } },
+            });
+            expect(resultado.status).toBe('CANCELADO');
+        });
+
+        it('should not cancel a request already approved', async () => {
+            mockPrismaService.solicitacaoResgate.findFirst.mockResolvedValue(solicitacao({ status: 'APROVADO' }));
+
+            await expect(service.cancelar(usuarioId, 'resgate-1')).rejects.toThrow(ConflictException);
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+        });
+
+        it("should not find another user's request", async () => {
+            mockPrismaService.solicitacaoResgate.findFirst.mockResolvedValue(null);
+
+            await expect(service.cancelar('user-2', 'resgate-1')).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('aprovar', () => {
+        it('should approve without moving any balance', async () => {
+            mockPrismaService.solicitacaoResgate.findUnique.mockResolvedValue(solicitacao());
+            mockPrismaService.solicitacaoResgate.update.mockResolvedValue(solicitacao({ status: 'APROVADO' }));
+
+            await service.aprovar('resgate-1', contexto);
+
+            expect(mockPrismaService.solicitacaoResgate.update).toHaveBeenCalledWith({
+                where: { id: 'resgate-1' },
+                data: expect.objectContaining({ status: 'APROVADO', analisadoPorId: 'admin-uuid' }),
+            });
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+            expect(mockPrismaService.auditoriaFinanceira.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ acao: 'APROVAR_RESGATE' }),
+            });
+        });
+    });
+
+    describe('rejeitar', () => {
+        it('should reject an approved request and return the reserve', async () => {
+            mockPrismaService.solicitacaoResgate.findUnique.mockResolvedValue(solicitacao({ status: 'APROVADO' }));
+            mockPrismaService.solicitacaoResgate.update.mockResolvedValue(solicitacao({ status: 'REJEITADO' }));
+
+            await service.rejeitar('resgate-1', { motivo: 'Chave PIX divergente' }, contexto);
+
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: usuarioId },
+                data: { saldoPontos: { increment: 150 }, saldoReservado: { decrement: 150 } },
+            });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [expect.objectContaining({ tipo: 'CANCELAMENTO_RESERVA', adminId: 'admin-uuid' })],
+            });
+            expect(mockPrismaService.solicitacaoResgate.update).toHaveBeenCalledWith({
+                where: { id: 'resgate-1' },
+                data: expect.objectContaining({ status: 'REJEITADO', motivo: 'Chave PIX divergente' }),
+            });
+        });
+
+        it('should not reject a request already in a batch', async () => {
+            mockPrismaService.solicitacaoResgate.findUnique.mockResolvedValue(solicitacao({ status: 'EM_LOTE' }));
+
+            await expect(
+                service.rejeitar('resgate-1', { motivo: 'Chave PIX divergente' }, contexto),
+            ).rejects.toThrow(ConflictException);
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,498 @@
+/**
+ * ============================================================================
+ * SOLICITAÇÃO RESGATE SERVICE - Saque Solicitado pelo Vendedor/Gerente
+ * ============================================================================
+ *
+ * Descrição:
+ * Vendedores e gerentes pedem o resgate de parte (ou de todo) o saldo
+ * disponível, sem esperar o próximo lote global:
+ *
+ *   SOLICITADO → APROVADO → EM_LOTE → PAGO
+ *
+ * - Na solicitação, o valor sai de saldoPontos para saldoReservado
+ *   (lançamento RESERVA_RESGATE)
+ * - Limites em ConfiguracaoGlobal: RESGATE_VALOR_MINIMO (R$) e
+ *   RESGATE_INTERVALO_DIAS (dias entre duas solicitações); uma solicitação
+ *   em aberto por usuário
+ * - O admin aprova ou rejeita (rejeição e cancelamento pelo usuário
+ *   devolvem a reserva); decisões registradas em AuditoriaFinanceira
+ * - gerarLote inclui as solicitações APROVADAS (sem nova reserva)
+ *
+ * @module FinanceiroModule
+ * ============================================================================
+ */
+
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, StatusSolicitacaoResgate } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { AtualizarPoliticaResgateDto } from './dto/atualizar-politica-resgate.dto';
+import { ListarResgatesDto } from './dto/listar-resgates.dto';
+import { RejeitarResgateDto } from './dto/rejeitar-resgate.dto';
+import { SolicitarResgateDto } from './dto/solicitar-resgate.dto';
+import { ContextoAuditoria, registrarAuditoriaFinanceira } from './helpers/auditoria-financeira.helper';
+
+/**
+ * Chaves da política em ConfiguracaoGlobal
+ */
+const CHAVE_VALOR_MINIMO = 'RESGATE_VALOR_MINIMO';
+const CHAVE_INTERVALO_DIAS = 'RESGATE_INTERVALO_DIAS';
+
+/**
+ * Intervalo quando a chave ainda não foi configurada
+ */
+const INTERVALO_DIAS_PADRAO = 30;
+
+/**
+ * Solicitações que ainda não terminaram (uma por usuário)
+ */
+const STATUS_EM_ABERTO: StatusSolicitacaoResgate[] = [
+  StatusSolicitacaoResgate.SOLICITADO,
+  StatusSolicitacaoResgate.APROVADO,
+  StatusSolicitacaoResgate.EM_LOTE,
+];
+
+/**
+ * Solicitações que contam para o intervalo (rejeitadas e canceladas não contam)
+ */
+const STATUS_CONTA_INTERVALO: StatusSolicitacaoResgate[] = [...STATUS_EM_ABERTO, StatusSolicitacaoResgate.PAGO];
+
+const UM_DIA_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Política de resgate vigente
+ */
+export interface PoliticaResgate {
+  /** Valor mínimo (R$) de cada solicitação (0 = sem mínimo) */
+  valorMinimo: number;
+  /** Dias entre duas solicitações (0 = sem intervalo) */
+  intervaloDias: number;
+}
+
+@Injectable()
+export class SolicitacaoResgateService {
+  private readonly logger = new Logger(SolicitacaoResgateService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: obterPolitica
+   * ==========================================================================
+   *
+   * Lê os limites de ConfiguracaoGlobal (valores inválidos usam o padrão).
+   */
+  async obterPolitica(): Promise<PoliticaResgate> {
+    const configuracoes = await this.prisma.configuracaoGlobal.findMany({
+      where: { chave: { in: [CHAVE_VALOR_MINIMO, CHAVE_INTERVALO_DIAS] } },
+    });
+    const valor = (chave: string, padrao: number) => {
+      const numero = parseFloat(configuracoes.find((c) => c.chave === chave)?.valor ?? '');
+      return Number.isFinite(numero) && numero >= 0 ? numero : padrao;
+    };
+
+    return {
+      valorMinimo: valor(CHAVE_VALOR_MINIMO, 0),
+      intervaloDias: Math.floor(valor(CHAVE_INTERVALO_DIAS, INTERVALO_DIAS_PADRAO)),
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: atualizarPolitica
+   * ==========================================================================
+   *
+   * Grava os limites em ConfiguracaoGlobal. Valem para as próximas solicitações.
+   *
+   * @param dto - Valor mínimo e intervalo em dias
+   * @param adminId - Admin responsável (log)
+   */
+  async atualizarPolitica(dto: AtualizarPoliticaResgateDto, adminId: string): Promise<PoliticaResgate> {
+    await this.prisma.$transaction([
+      this.prisma.configuracaoGlobal.upsert({
+        where: { chave: CHAVE_VALOR_MINIMO },
+        update: { valor: String(dto.valorMinimo) },
+        create: {
+          chave: CHAVE_VALOR_MINIMO,
+          valor: String(dto.valorMinimo),
+          descricao: 'Valor mínimo (R$) de cada solicitação de resgate (0 = sem mínimo)',
+        },
+      }),
+      this.prisma.configuracaoGlobal.upsert({
+        where: { chave: CHAVE_INTERVALO_DIAS },
+        update: { valor: String(dto.intervaloDias) },
+        create: {
+          chave: CHAVE_INTERVALO_DIAS,
+          valor: String(dto.intervaloDias),
+          descricao: 'Dias entre duas solicitações de resgate do mesmo usuário (0 = sem intervalo)',
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `[RESGATE] Admin ${adminId} atualizou a política: mínimo R$ ${dto.valorMinimo.toFixed(2)}, ` +
+        `intervalo ${dto.intervaloDias} dia(s)`,
+    );
+
+    return this.obterPolitica();
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: minhasSolicitacoes
+   * ==========================================================================
+   *
+   * Situação do usuário para o card de saldo: saldo disponível, limites,
+   * quando pode solicitar de novo e as últimas solicitações.
+   *
+   * @param usuarioId - Vendedor ou gerente logado
+   */
+  async minhasSolicitacoes(usuarioId: string) {
+    const [usuario, politica, solicitacoes] = await Promise.all([
+      this.prisma.usuario.findUnique({ where: { id: usuarioId }, select: { saldoPontos: true, chavePix: true } }),
+      this.obterPolitica(),
+      this.prisma.solicitacaoResgate.findMany({
+        where: { usuarioId },
+        orderBy: { criadoEm: 'desc' },
+        take: 10,
+      }),
+    ]);
+    if (!usuario) {
+      throw new NotFoundException('Usuário não encontrado');
+    }
+
+    const emAberto = solicitacoes.find((s) => STATUS_EM_ABERTO.includes(s.status)) ?? null;
+    const ultima = solicitacoes.find((s) => STATUS_CONTA_INTERVALO.includes(s.status));
+
+    return {
+      saldoDisponivel: Number(usuario.saldoPontos),
+      chavePixCadastrada: !!usuario.chavePix,
+      politica,
+      solicitacaoEmAberto: emAberto ? this._formatar(emAberto) : null,
+      proximaSolicitacaoEm: this._proximaSolicitacaoEm(ultima?.criadoEm, politica),
+      solicitacoes: solicitacoes.map((s) => this._formatar(s)),
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: solicitar
+   * ==========================================================================
+   *
+   * Cria a solicitação e reserva o valor do saldo disponível.
+   *
+   * @param usuarioId - Vendedor ou gerente logado
+   * @param dto - Valor do resgate
+   * @throws BadRequestException - Abaixo do mínimo ou acima do saldo disponível
+   * @throws ConflictException - Solicitação em aberto ou intervalo mínimo não cumprido
+   */
+  async solicitar(usuarioId: string, dto: SolicitarResgateDto) {
+    const politica = await this.obterPolitica();
+    const valor = Math.round(dto.valor * 100) / 100;
+
+    if (valor < politica.valorMinimo) {
+      throw new BadRequestException(`O valor mínimo para resgate é R$ ${politica.valorMinimo.toFixed(2)}.`);
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Serializa solicitações simultâneas do mesmo usuário: saldo, pedido em
+      // aberto e intervalo são conferidos e a reserva gravada sob o mesmo lock
+      await tx.$queryRaw`SELECT "id" FROM "usuarios" WHERE "id" = ${usuarioId} FOR UPDATE`;
+
+      const usuario = await tx.usuario.findUnique({ where: { id: usuarioId }, select: { saldoPontos: true } });
+      if (!usuario) {
+        throw new NotFoundException('Usuário não encontrado');
+      }
+      if (valor > Number(usuario.saldoPontos)) {
+        throw new BadRequestException(
+          `Saldo disponível insuficiente: R$ ${Number(usuario.saldoPontos).toFixed(2)}.`,
+        );
+      }
+
+      const anteriores = await tx.solicitacaoResgate.findMany({
+        where: { usuarioId, status: { in: STATUS_CONTA_INTERVALO } },
+        orderBy: { criadoEm: 'desc' },
+        select: { status: true, criadoEm: true },
+      });
+      if (anteriores.some((s) => STATUS_EM_ABERTO.includes(s.status))) {
+        throw new ConflictException('Você já tem uma solicitação de resgate em andamento.');
+      }
+      const proxima = this._proximaSolicitacaoEm(anteriores[0]?.criadoEm, politica);
+      if (proxima) {
+        throw new ConflictException(
+          `Só é possível solicitar um resgate a cada ${politica.intervaloDias} dia(s). ` +
+            `Próxima solicitação a partir de ${proxima.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' })}.`,
+        );
+      }
+
+      const solicitacao = await tx.solicitacaoResgate.create({ data: { usuarioId, valor } });
+      await movimentarSaldo(tx, usuarioId, [
+        {
+          tipo: 'RESERVA_RESGATE',
+          valor: -valor,
+          valorReservado: valor,
+          descricao: 'Saldo reservado para o resgate solicitado',
+        },
+      ]);
+
+      this.logger.log(`[RESGATE] Usuário ${usuarioId} solicitou R$ ${valor.toFixed(2)} (${solicitacao.id})`);
+
+      return this._formatar(solicitacao);
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: cancelar
+   * ==========================================================================
+   *
+   * O usuário desiste de uma solicitação ainda não analisada; a reserva volta
+   * ao saldo disponível.
+   *
+   * @param usuarioId - Dono da solicitação
+   * @param id - Solicitação
+   * @throws NotFoundException - Solicitação não encontrada (ou de outro usuário)
+   * @throws ConflictException - Solicitação já analisada
+   */
+  async cancelar(usuarioId: string, id: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const solicitacao = await tx.solicitacaoResgate.findFirst({ where: { id, usuarioId } });
+      if (!solicitacao) {
+        throw new NotFoundException('Solicitação de resgate não encontrada');
+      }
+      if (solicitacao.status !== StatusSolicitacaoResgate.SOLICITADO) {
+        throw new ConflictException(`A solicitação está ${solicitacao.status} e não pode mais ser cancelada.`);
+      }
+
+      const atualizada = await this._devolverReserva(tx, solicitacao, {
+        status: StatusSolicitacaoResgate.CANCELADO,
+        descricao: 'Resgate cancelado pelo usuário: reserva devolvida ao saldo',
+      });
+
+      this.logger.log(`[RESGATE] Usuário ${usuarioId} cancelou a solicitação ${id}`);
+
+      return this._formatar(atualizada);
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: listar (ADMIN)
+   * ==========================================================================
+   *
+   * Solicitações paginadas, mais antigas primeiro (fila de análise).
+   *
+   * @param dto - Página, itens por página e status
+   */
+  async listar(dto: ListarResgatesDto = {}) {
+    const pagina = dto.pagina || 1;
+    const porPagina = dto.porPagina || 20;
+    const where: Prisma.SolicitacaoResgateWhereInput = dto.status ? { status: dto.status } : {};
+
+    const [total, solicitacoes] = await Promise.all([
+      this.prisma.solicitacaoResgate.count({ where }),
+      this.prisma.solicitacaoResgate.findMany({
+        where,
+        include: {
+          usuario: { select: { id: true, nome: true, email: true, papel: true, chavePix: true, saldoPontos: true } },
+          analisadoPor: { select: { id: true, nome: true } },
+          relatorioFinanceiro: { select: { numeroLote: true } },
+        },
+        orderBy: { criadoEm: 'asc' },
+        skip: (pagina - 1) * porPagina,
+        take: porPagina,
+      }),
+    ]);
+
+    return {
+      solicitacoes: solicitacoes.map((s) => ({
+        ...this._formatar(s),
+        usuario: {
+          id: s.usuario.id,
+          nome: s.usuario.nome,
+          email: s.usuario.email,
+          papel: s.usuario.papel,
+          chavePixCadastrada: !!s.usuario.chavePix,
+          saldoDisponivel: Number(s.usuario.saldoPontos),
+        },
+        analisadoPor: s.analisadoPor,
+        numeroLote: s.relatorioFinanceiro?.numeroLote ?? null,
+      })),
+      paginacao: {
+        pagina,
+        porPagina,
+        total,
+        totalPaginas: Math.ceil(total / porPagina),
+      },
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: aprovar (ADMIN)
+   * ==========================================================================
+   *
+   * A solicitação aprovada entra no próximo lote gerado.
+   *
+   * @param id - Solicitação SOLICITADA
+   * @param contexto - Admin, IP e User-Agent (auditoria)
+   * @throws NotFoundException - Solicitação não encontrada
+   * @throws ConflictException - Solicitação já analisada
+   */
+  async aprovar(id: string, contexto: ContextoAuditoria) {
+    return this.prisma.$transaction(async (tx) => {
+      const solicitacao = await this._buscarParaAnalise(tx, id);
+
+      const atualizada = await tx.solicitacaoResgate.update({
+        where: { id },
+        data: {
+          status: StatusSolicitacaoResgate.APROVADO,
+          analisadoPorId: contexto.adminId,
+          analisadoEm: new Date(),
+        },
+      });
+
+      await registrarAuditoriaFinanceira(tx, contexto, {
+        acao: 'APROVAR_RESGATE',
+        dadosAntes: this._formatar(solicitacao),
+        dadosDepois: this._formatar(atualizada),
+      });
+
+      await tx.notificacao.create({
+        data: {
+          usuarioId: solicitacao.usuarioId,
+          mensagem: `✅ Seu resgate de R$ ${Number(solicitacao.valor).toFixed(2)} foi aprovado e será pago no próximo lote.`,
+          lida: false,
+        },
+      });
+
+      this.logger.log(`[RESGATE] Admin ${contexto.adminId} aprovou a solicitação ${id}`);
+
+      return this._formatar(atualizada);
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: rejeitar (ADMIN)
+   * ==========================================================================
+   *
+   * Rejeita a solicitação (ainda não incluída em lote) e devolve a reserva.
+   *
+   * @param id - Solicitação SOLICITADA ou APROVADA
+   * @param dto - Motivo (enviado ao usuário)
+   * @param contexto - Admin, IP e User-Agent (auditoria)
+   * @throws NotFoundException - Solicitação não encontrada
+   * @throws ConflictException - Solicitação já incluída em lote ou encerrada
+   */
+  async rejeitar(id: string, dto: RejeitarResgateDto, contexto: ContextoAuditoria) {
+    return this.prisma.$transaction(async (tx) => {
+      const solicitacao = await this._buscarParaAnalise(tx, id, [
+        StatusSolicitacaoResgate.SOLICITADO,
+        StatusSolicitacaoResgate.APROVADO,
+      ]);
+
+      const atualizada = await this._devolverReserva(tx, solicitacao, {
+        status: StatusSolicitacaoResgate.REJEITADO,
+        descricao: 'Resgate rejeitado: reserva devolvida ao saldo',
+        motivo: dto.motivo,
+        adminId: contexto.adminId,
+      });
+
+      await registrarAuditoriaFinanceira(tx, contexto, {
+        acao: 'REJEITAR_RESGATE',
+        dadosAntes: this._formatar(solicitacao),
+        dadosDepois: this._formatar(atualizada),
+        metadata: { motivo: dto.motivo },
+      });
+
+      await tx.notificacao.create({
+        data: {
+          usuarioId: solicitacao.usuarioId,
+          mensagem:
+            `⚠️ Seu resgate de R$ ${Number(solicitacao.valor).toFixed(2)} foi rejeitado (${dto.motivo}). ` +
+            `O valor voltou para o seu saldo.`,
+          lida: false,
+        },
+      });
+
+      this.logger.log(`[RESGATE] Admin ${contexto.adminId} rejeitou a solicitação ${id}: ${dto.motivo}`);
+
+      return this._formatar(atualizada);
+    });
+  }
+
+  /**
+   * Solicitação que ainda aceita decisão do admin.
+   */
+  private async _buscarParaAnalise(
+    tx: Prisma.TransactionClient,
+    id: string,
+    statusPermitidos: StatusSolicitacaoResgate[] = [StatusSolicitacaoResgate.SOLICITADO],
+  ) {
+    const solicitacao = await tx.solicitacaoResgate.findUnique({ where: { id } });
+    if (!solicitacao) {
+      throw new NotFoundException('Solicitação de resgate não encontrada');
+    }
+    if (!statusPermitidos.includes(solicitacao.status)) {
+      throw new ConflictException(`A solicitação está ${solicitacao.status} e não aceita esta decisão.`);
+    }
+    return solicitacao;
+  }
+
+  /**
+   * Encerra a solicitação devolvendo o valor reservado ao saldo disponível.
+   */
+  private async _devolverReserva(
+    tx: Prisma.TransactionClient,
+    solicitacao: { id: string; usuarioId: string; valor: Prisma.Decimal },
+    dados: { status: StatusSolicitacaoResgate; descricao: string; motivo?: string; adminId?: string },
+  ) {
+    const valor = Number(solicitacao.valor);
+    await movimentarSaldo(tx, solicitacao.usuarioId, [
+      {
+        tipo: 'CANCELAMENTO_RESERVA',
+        valor,
+        valorReservado: -valor,
+        descricao: dados.descricao,
+        adminId: dados.adminId,
+      },
+    ]);
+
+    return tx.solicitacaoResgate.update({
+      where: { id: solicitacao.id },
+      data: {
+        status: dados.status,
+        motivo: dados.motivo,
+        ...(dados.adminId && { analisadoPorId: dados.adminId, analisadoEm: new Date() }),
+      },
+    });
+  }
+
+  /**
+   * Data a partir da qual o usuário pode solicitar de novo (null = já pode).
+   */
+  private _proximaSolicitacaoEm(ultimaSolicitacao: Date | undefined, politica: PoliticaResgate): Date | null {
+    if (!ultimaSolicitacao || politica.intervaloDias === 0) return null;
+    const proxima = new Date(ultimaSolicitacao.getTime() + politica.intervaloDias * UM_DIA_MS);
+    return proxima > new Date() ? proxima : null;
+  }
+
+  private _formatar(solicitacao: {
+    id: string;
+    valor: Prisma.Decimal;
+    status: StatusSolicitacaoResgate;
+    motivo: string | null;
+    analisadoEm: Date | null;
+    criadoEm: Date;
+  }) {
+    return {
+      id: solicitacao.id,
+      valor: Number(solicitacao.valor),
+      status: solicitacao.status,
+      motivo: solicitacao.motivo,
+      analisadoEm: solicitacao.analisadoEm,
+      criadoEm: solicitacao.criadoEm,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * ============================================================================
+ * DTO: Ajuste Manual de Saldo
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de POST /api/livro-razao/ajustes. O ajuste é gravado como lançamento
+ * AJUSTE_MANUAL no livro-razão, com a justificativa e o admin responsável.
+ *
+ * @module LivroRazaoModule
+ * ============================================================================
+ */
+
+import { IsNotEmpty, IsNumber, IsString, IsUUID, MaxLength, MinLength, NotEquals } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class AjustarSaldoDto {
+  /**
+   * Usuário (vendedor ou gerente) cujo saldo será ajustado.
+   */
+  @IsUUID('4', { message: 'usuarioId deve ser um UUID válido' })
+  usuarioId: string;
+
+  /**
+   * Valor do ajuste em R$ (positivo = crédito, negativo = débito).
+   *
+   * @example -25.5
+   */
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O valor deve ter no máximo 2 casas decimais' })
+  @NotEquals(0, { message: 'O valor do ajuste não pode ser zero' })
+  valor: number;
+
+  /**
+   * Justificativa do ajuste (exibida no extrato do usuário).
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Informe a justificativa do ajuste' })
+  @MinLength(10, { message: 'A justificativa deve ter pelo menos 10 caracteres' })
+  @MaxLength(500, { message: 'A justificativa deve ter no máximo 500 caracteres' })
+  @Transform(({ value }) => value?.trim())
+  justificativa: string;
+}
@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * DTO: Política de Expiração de Pontos
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de PUT /api/livro-razao/expiracao/politica. Os valores são gravados
+ * em ConfiguracaoGlobal (VALIDADE_PONTOS_MESES e AVISO_EXPIRACAO_DIAS).
+ *
+ * @module LivroRazaoModule
+ * ============================================================================
+ */
+
+import { IsInt, Max, Min } from 'class-validator';
+
+export class AtualizarPoliticaExpiracaoDto {
+  /**
+   * Meses de validade de cada crédito (0 = pontos não expiram).
+   *
+   * @example 12
+   */
+  @IsInt({ message: 'A validade deve ser um número inteiro de meses' })
+  @Min(0, { message: 'A validade não pode ser negativa' })
+  @Max(120, { message: 'A validade deve ser de no máximo 120 meses' })
+  validadeMeses: number;
+
+  /**
+   * Antecedência (dias) do aviso de expiração ao usuário (0 = sem aviso).
+   *
+   * @example 30
+   */
+  @IsInt({ message: 'A antecedência do aviso deve ser um número inteiro de dias' })
+  @Min(0, { message: 'A antecedência do aviso não pode ser negativa' })
+  @Max(180, { message: 'A antecedência do aviso deve ser de no máximo 180 dias' })
+  diasAviso: number;
+}
@@ -0,0 +1,337 @@
+/**
+ * ============================================================================
+ * EXPIRACAO PONTOS SERVICE - Validade dos Créditos de Saldo
+ * ============================================================================
+ *
+ * Descrição:
+ * Política configurável em ConfiguracaoGlobal:
+ * - VALIDADE_PONTOS_MESES: cada crédito vale N meses (0 = não expira)
+ * - AVISO_EXPIRACAO_DIAS: antecedência do aviso ao usuário (0 = sem aviso)
+ *
+ * Consumo FIFO: reservas, pagamentos e estornos consomem primeiro os créditos
+ * mais antigos. Assim, o saldo disponível é formado pelos créditos mais
+ * recentes e a parte que expira é
+ *
+ *   max(0, saldoPontos - soma dos créditos dentro da validade)
+ *
+ * Valores já reservados em lote (saldoReservado) não expiram. Devoluções de
+ * reserva (CANCELAMENTO_RESERVA) não renovam a validade.
+ *
+ * O débito é gravado como lançamento EXPIRACAO_PONTOS no livro-razão.
+ * Executado toda noite (02:00, antes da verificação da invariante) e sob
+ * demanda pelo admin.
+ *
+ * @module LivroRazaoModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma, TipoLancamentoSaldo } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AtualizarPoliticaExpiracaoDto } from './dto/atualizar-politica-expiracao.dto';
+import { arredondarCentavos, movimentarSaldo } from './helpers/movimentar-saldo.helper';
+
+/**
+ * Chaves da política em ConfiguracaoGlobal
+ */
+const CHAVE_VALIDADE_MESES = 'VALIDADE_PONTOS_MESES';
+const CHAVE_DIAS_AVISO = 'AVISO_EXPIRACAO_DIAS';
+
+/**
+ * Antecedência do aviso quando a chave ainda não foi configurada
+ */
+const DIAS_AVISO_PADRAO = 30;
+
+/**
+ * Lançamentos que geram créditos com validade
+ */
+const TIPOS_CREDITO: TipoLancamentoSaldo[] = [
+  TipoLancamentoSaldo.SALDO_INICIAL,
+  TipoLancamentoSaldo.CREDITO_CARTELA,
+  TipoLancamentoSaldo.BONUS_EVENTO,
+  TipoLancamentoSaldo.COMISSAO_GERENTE,
+  TipoLancamentoSaldo.BONUS_EQUIPE,
+  TipoLancamentoSaldo.AJUSTE_MANUAL,
+  TipoLancamentoSaldo.AJUSTE_RECALCULO,
+];
+
+const UM_DIA_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Política de expiração vigente
+ */
+export interface PoliticaExpiracao {
+  /** Meses de validade dos créditos (0 = desativada) */
+  validadeMeses: number;
+  /** Antecedência do aviso em dias (0 = sem aviso) */
+  diasAviso: number;
+}
+
+/**
+ * Resultado de uma execução da expiração
+ */
+export interface ResultadoExpiracao {
+  executadoEm: Date;
+  politica: PoliticaExpiracao;
+  usuariosExpirados: number;
+  totalExpirado: number;
+  avisosEnviados: number;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: ExpiracaoPontosService
+ * ============================================================================
+ */
+@Injectable()
+export class ExpiracaoPontosService {
+  private readonly logger = new Logger(ExpiracaoPontosService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: obterPolitica
+   * ==========================================================================
+   *
+   * Lê a política em ConfiguracaoGlobal (chaves ausentes ou inválidas usam o
+   * padrão: sem expiração, aviso de 30 dias).
+   */
+  async obterPolitica(): Promise<PoliticaExpiracao> {
+    const configuracoes = await this.prisma.configuracaoGlobal.findMany({
+      where: { chave: { in: [CHAVE_VALIDADE_MESES, CHAVE_DIAS_AVISO] } },
+    });
+    const valor = (chave: string, padrao: number) => {
+      const numero = parseInt(configuracoes.find((c) => c.chave === chave)?.valor ?? '', 10);
+      return Number.isFinite(numero) && numero >= 0 ? numero : padrao;
+    };
+
+    return {
+      validadeMeses: valor(CHAVE_VALIDADE_MESES, 0),
+      diasAviso: valor(CHAVE_DIAS_AVISO, DIAS_AVISO_PADRAO),
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: atualizarPolitica
+   * ==========================================================================
+   *
+   * Grava a política em ConfiguracaoGlobal. Vale a partir da próxima execução.
+   *
+   * @param dto - Validade em meses e antecedência do aviso
+   * @param adminId - Admin responsável (log)
+   */
+  async atualizarPolitica(
+    dto: AtualizarPoliticaExpiracaoDto,
+    adminId: string,
+  ): Promise<PoliticaExpiracao> {
+    await this.prisma.$transaction([
+      this.prisma.configuracaoGlobal.upsert({
+        where: { chave: CHAVE_VALIDADE_MESES },
+        update: { valor: String(dto.validadeMeses) },
+        create: {
+          chave: CHAVE_VALIDADE_MESES,
+          valor: String(dto.validadeMeses),
+          descricao: 'Meses de validade dos créditos de saldo (0 = pontos não expiram)',
+        },
+      }),
+      this.prisma.configuracaoGlobal.upsert({
+        where: { chave: CHAVE_DIAS_AVISO },
+        update: { valor: String(dto.diasAviso) },
+        create: {
+          chave: CHAVE_DIAS_AVISO,
+          valor: String(dto.diasAviso),
+          descricao: 'Dias de antecedência do aviso de expiração de pontos (0 = sem aviso)',
+        },
+      }),
+    ]);
+
+    this.logger.log(
+      `[EXPIRACAO] Admin ${adminId} definiu validade de ${dto.validadeMeses} mês(es) e aviso de ${dto.diasAviso} dia(s)`,
+    );
+
+    return { validadeMeses: dto.validadeMeses, diasAviso: dto.diasAviso };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: executar
+   * ==========================================================================
+   *
+   * Expira (FIFO) a parte do saldo formada por créditos vencidos e avisa os
+   * usuários cujos créditos vencem em AVISO_EXPIRACAO_DIAS dias.
+   *
+   * @param agora - Data de referência (padrão: agora)
+   * @returns Totais da execução
+   */
+  async executar(agora = new Date()): Promise<ResultadoExpiracao> {
+    const politica = await this.obterPolitica();
+    const resultado: ResultadoExpiracao = {
+      executadoEm: agora,
+      politica,
+      usuariosExpirados: 0,
+      totalExpirado: 0,
+      avisosEnviados: 0,
+    };
+
+    if (politica.validadeMeses === 0) {
+      return resultado;
+    }
+
+    const limite = this._subtrairMeses(agora, politica.validadeMeses);
+    const usuarios = await this.prisma.usuario.findMany({
+      where: { saldoPontos: { gt: 0 } },
+      select: { id: true },
+    });
+
+    for (const { id } of usuarios) {
+      const expirado = await this._expirarUsuario(id, limite, politica.validadeMeses);
+      if (expirado > 0) {
+        resultado.usuariosExpirados++;
+        resultado.totalExpirado = arredondarCentavos(resultado.totalExpirado + expirado);
+      }
+    }
+
+    if (politica.diasAviso > 0) {
+      resultado.avisosEnviados = await this._avisarExpiracoes(agora, politica);
+    }
+
+    this.logger.log(
+      `[EXPIRACAO] ${resultado.usuariosExpirados} usuário(s), R$ ${resultado.totalExpirado.toFixed(2)} expirados, ${resultado.avisosEnviados} aviso(s) enviados`,
+    );
+
+    return resultado;
+  }
+
+  /**
+   * Execução noturna (02:00, horário de Brasília).
+   */
+  @Cron('0 2 * * *', { name: 'expiracao-pontos', timeZone: 'America/Sao_Paulo' })
+  async execucaoNoturna() {
+    try {
+      await this.executar();
+    } catch (erro) {
+      this.logger.error(`[EXPIRACAO] Falha na execução noturna: ${erro.message}`, erro.stack);
+    }
+  }
+
+  /**
+   * Debita do usuário a parte do saldo anterior ao limite de validade.
+   *
+   * @returns Valor expirado (0 se nada venceu)
+   * @private
+   */
+  private async _expirarUsuario(usuarioId: string, limite: Date, validadeMeses: number) {
+    return this.prisma.$transaction(async (tx) => {
+      const usuario = await tx.usuario.findUnique({
+        where: { id: usuarioId },
+        select: { saldoPontos: true },
+      });
+      const saldo = Number(usuario?.saldoPontos ?? 0);
+      const expirar = arredondarCentavos(saldo - (await this._somaCreditosDesde(tx, usuarioId, limite)));
+
+      if (expirar <= 0) {
+        return 0;
+      }
+
+      await movimentarSaldo(tx, usuarioId, [
+        {
+          tipo: TipoLancamentoSaldo.EXPIRACAO_PONTOS,
+          valor: -expirar,
+          descricao: `Expiração de pontos: créditos anteriores a ${limite.toLocaleDateString('pt-BR')} (validade de ${validadeMeses} mês(es))`,
+        },
+      ]);
+
+      await tx.notificacao.create({
+        data: {
+          usuarioId,
+          mensagem: `⌛ R$ ${expirar.toFixed(2)} do seu saldo expiraram: créditos com mais de ${validadeMeses} mês(es) não resgatados.`,
+        },
+      });
+
+      return expirar;
+    });
+  }
+
+  /**
+   * Avisa quem tem créditos que passam a vencer em diasAviso dias. Só avisa
+   * quando algum crédito entrou na janela hoje, para não repetir o aviso.
+   *
+   * @returns Quantidade de avisos enviados
+   * @private
+   */
+  private async _avisarExpiracoes(agora: Date, politica: PoliticaExpiracao) {
+    const dataExpiracao = new Date(agora.getTime() + politica.diasAviso * UM_DIA_MS);
+    const limiteFuturo = this._subtrairMeses(dataExpiracao, politica.validadeMeses);
+
+    const creditosNaJanela = await this.prisma.lancamentoSaldo.findMany({
+      where: {
+        tipo: { in: TIPOS_CREDITO },
+        valor: { gt: 0 },
+        criadoEm: { gte: new Date(limiteFuturo.getTime() - UM_DIA_MS), lt: limiteFuturo },
+        usuario: { saldoPontos: { gt: 0 } },
+      },
+      select: { usuarioId: true },
+      distinct: ['usuarioId'],
+    });
+
+    let avisos = 0;
+
+    for (const { usuarioId } of creditosNaJanela) {
+      const usuario = await this.prisma.usuario.findUnique({
+        where: { id: usuarioId },
+        select: { saldoPontos: true },
+      });
+      const aExpirar = arredondarCentavos(
+        Number(usuario?.saldoPontos ?? 0) - (await this._somaCreditosDesde(this.prisma, usuarioId, limiteFuturo)),
+      );
+
+      if (aExpirar <= 0) continue;
+
+      await this.prisma.notificacao.create({
+        data: {
+          usuarioId,
+          mensagem: `⏳ R$ ${aExpirar.toFixed(2)} do seu saldo expiram em ${dataExpiracao.toLocaleDateString('pt-BR')}. Créditos não pagos até lá expiram.`,
+        },
+      });
+      avisos++;
+    }
+
+    return avisos;
+  }
+
+  /**
+   * Soma dos créditos do usuário a partir de uma data.
+   *
+   * @private
+   */
+  private async _somaCreditosDesde(
+    cliente: Pick<Prisma.TransactionClient, 'lancamentoSaldo'>,
+    usuarioId: string,
+    desde: Date,
+  ) {
+    const soma = await cliente.lancamentoSaldo.aggregate({
+      where: { usuarioId, tipo: { in: TIPOS_CREDITO }, valor: { gt: 0 }, criadoEm: { gte: desde } },
+      _sum: { valor: true },
+    });
+    return Number(soma._sum.valor ?? 0);
+  }
+
+  /**
+   * Data N meses antes da referência.
+   *
+   * @private
+   */
+  private _subtrairMeses(referencia: Date, meses: number) {
+    const data = new Date(referencia);
+    data.setMonth(data.getMonth() - meses);
+    return data;
+  }
+}
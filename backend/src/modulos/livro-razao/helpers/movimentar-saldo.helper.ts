@@ -0,0 +1,119 @@
+/**
+ * ============================================================================
+ * MOVIMENTAR SALDO HELPER - Único Ponto de Escrita de Saldo
+ * ============================================================================
+ *
+ * Toda alteração de Usuario.saldoPontos / Usuario.saldoReservado passa por
+ * movimentarSaldo, que, dentro da mesma transação:
+ * 1. Aplica a soma dos lançamentos ao usuário (increment/decrement)
+ * 2. Grava os lançamentos em LancamentoSaldo (somente inserção)
+ *
+ * Os valores são arredondados para centavos antes das duas escritas, de modo
+ * que a soma do livro-razão confere exatamente com o saldo armazenado
+ * (Decimal(10,2)).
+ *
+ * É uma função (e não um serviço injetável) para poder ser usada em qualquer
+ * transação, inclusive a partir de serviços que recebem apenas o
+ * Prisma.TransactionClient.
+ *
+ * @module LivroRazaoModule
+ * ============================================================================
+ */
+
+import { Prisma, TipoLancamentoSaldo } from '@prisma/client';
+
+/**
+ * Lançamento a registrar. Valores positivos creditam, negativos debitam.
+ */
+export interface NovoLancamentoSaldo {
+  tipo: TipoLancamentoSaldo;
+  /** Efeito em saldoPontos */
+  valor?: number;
+  /** Efeito em saldoReservado */
+  valorReservado?: number;
+  descricao: string;
+  campanhaId?: string | null;
+  numeroCartela?: number | null;
+  enviosIds?: string[];
+  relatorioFinanceiroId?: string | null;
+  numeroLote?: string | null;
+  historicoValidacaoId?: string | null;
+  /** Regra de comissão que gerou o crédito do gerente */
+  regraComissaoId?: string | null;
+  adminId?: string | null;
+}
+
+/**
+ * Totais efetivamente aplicados ao usuário
+ */
+export interface MovimentoSaldo {
+  valor: number;
+  valorReservado: number;
+}
+
+type ClienteLivroRazao = Pick<Prisma.TransactionClient, 'usuario' | 'lancamentoSaldo'>;
+
+/**
+ * Arredonda para centavos (mesma precisão das colunas de saldo)
+ */
+export const arredondarCentavos = (valor: number) => Math.round((valor || 0) * 100) / 100;
+
+/**
+ * Converte a soma em increment/decrement (omitida quando zero)
+ */
+const operacao = (delta: number) =>
+  delta > 0 ? { increment: delta } : delta < 0 ? { decrement: -delta } : undefined;
+
+/**
+ * Movimenta o saldo de um usuário registrando os lançamentos no livro-razão.
+ *
+ * @param tx - Cliente da transação em curso
+ * @param usuarioId - Usuário cujo saldo é movimentado
+ * @param lancamentos - Lançamentos (um ou mais) a aplicar
+ * @returns Totais aplicados (arredondados)
+ */
+export async function movimentarSaldo(
+  tx: ClienteLivroRazao,
+  usuarioId: string,
+  lancamentos: NovoLancamentoSaldo[],
+): Promise<MovimentoSaldo> {
+  const arredondados = lancamentos
+    .map((lancamento) => ({
+      ...lancamento,
+      valor: arredondarCentavos(lancamento.valor ?? 0),
+      valorReservado: arredondarCentavos(lancamento.valorReservado ?? 0),
+    }))
+    .filter((lancamento) => lancamento.valor !== 0 || lancamento.valorReservado !== 0);
+
+  const total = arredondados.reduce(
+    (acc, lancamento) => ({
+      valor: arredondarCentavos(acc.valor + lancamento.valor),
+      valorReservado: arredondarCentavos(acc.valorReservado + lancamento.valorReservado),
+    }),
+    { valor: 0, valorReservado: 0 },
+  );
+
+  if (arredondados.length === 0) {
+    return total;
+  }
+
+  const data: Prisma.UsuarioUpdateInput = {};
+  const operacaoPontos = operacao(total.valor);
+  const operacaoReservado = operacao(total.valorReservado);
+  if (operacaoPontos) data.saldoPontos = operacaoPontos;
+  if (operacaoReservado) data.saldoReservado = operacaoReservado;
+
+  if (operacaoPontos || operacaoReservado) {
+    await tx.usuario.update({ where: { id: usuarioId }, data });
+  }
+
+  await tx.lancamentoSaldo.createMany({
+    data: arredondados.map(({ enviosIds, ...lancamento }) => ({
+      ...lancamento,
+      usuarioId,
+      enviosIds: enviosIds ?? undefined,
+    })),
+  });
+
+  return total;
+}
@@ -0,0 +1,122 @@
+import { Controller, Get, Post, Put, Param, Body, UseGuards, Request } from '@nestjs/common';
+import { JwtAuthGuard } from './../comum/guards/jwt-auth.guard';
+import { PapeisGuard } from './../comum/guards/papeis.guard';
+import { Papeis } from './../comum/decorators/papeis.decorator';
+import { PapelUsuario } from '@prisma/client';
+import { LivroRazaoService } from './livro-razao.service';
+import { AjustarSaldoDto } from './dto/ajustar-saldo.dto';
+import { ExpiracaoPontosService } from './expiracao-pontos.service';
+import { AtualizarPoliticaExpiracaoDto } from './dto/atualizar-politica-expiracao.dto';
+
+/**
+ * ============================================================================
+ * CONTROLADOR DO LIVRO-RAZÃO DE SALDO
+ * ============================================================================
+ *
+ * Consulta de lançamentos, ajustes manuais e verificação da invariante
+ * saldo = soma dos lançamentos e política de expiração de pontos.
+ * Exclusivo para Admin.
+ *
+ * ============================================================================
+ */
+@UseGuards(JwtAuthGuard, PapeisGuard)
+@Papeis(PapelUsuario.ADMIN)
+@Controller('livro-razao')
+export class LivroRazaoController {
+  constructor(
+    private readonly livroRazaoService: LivroRazaoService,
+    private readonly expiracaoPontosService: ExpiracaoPontosService,
+  ) {}
+
+  /**
+   * ============================================================================
+   * EXTRATO DO USUÁRIO
+   * ============================================================================
+   *
+   * Lançamentos do usuário e saldo derivado do livro-razão.
+   *
+   * @param id - ID do usuário
+   *
+   * @example GET /livro-razao/usuarios/abc-123
+   */
+  @Get('usuarios/:id')
+  async extrato(@Param('id') id: string) {
+    return this.livroRazaoService.extrato(id);
+  }
+
+  /**
+   * ============================================================================
+   * AJUSTE MANUAL DE SALDO
+   * ============================================================================
+   *
+   * @param dto - Usuário, valor (positivo ou negativo) e justificativa
+   * @param req - Request object (para pegar ID do admin autenticado)
+   *
+   * @example
+   * POST /livro-razao/ajustes
+   * Body: { "usuarioId": "abc-123", "valor": -25.5, "justificativa": "Crédito em duplicidade" }
+   */
+  @Post('ajustes')
+  async ajustar(@Body() dto: AjustarSaldoDto, @Request() req: any) {
+    return this.livroRazaoService.ajustar(dto, req.user.id);
+  }
+
+  /**
+   * ============================================================================
+   * VERIFICAR INVARIANTE (sob demanda)
+   * ============================================================================
+   *
+   * Mesma verificação executada toda noite: compara o saldo de cada usuário
+   * com a soma dos seus lançamentos.
+   *
+   * @example POST /livro-razao/verificacao
+   */
+  @Post('verificacao')
+  async verificar() {
+    return this.livroRazaoService.verificarInvariante();
+  }
+
+  /**
+   * ============================================================================
+   * POLÍTICA DE EXPIRAÇÃO DE PONTOS
+   * ============================================================================
+   *
+   * @example GET /livro-razao/expiracao/politica
+   */
+  @Get('expiracao/politica')
+  async obterPoliticaExpiracao() {
+    return this.expiracaoPontosService.obterPolitica();
+  }
+
+  /**
+   * ============================================================================
+   * ATUALIZAR POLÍTICA DE EXPIRAÇÃO
+   * ============================================================================
+   *
+   * @param dto - Validade em meses (0 = desativada) e antecedência do aviso
+   * @param req - Request object (para pegar ID do admin autenticado)
+   *
+   * @example
+   * PUT /livro-razao/expiracao/politica
+   * Body: { "validadeMeses": 12, "diasAviso": 30 }
+   */
+  @Put('expiracao/politica')
+  async atualizarPoliticaExpiracao(@Body() dto: AtualizarPoliticaExpiracaoDto, @Request() req: any) {
+    return this.expiracaoPontosService.atualizarPolitica(dto, req.user.id);
+  }
+
+  /**
+   * ============================================================================
+   * EXECUTAR EXPIRAÇÃO (sob demanda)
+   * ============================================================================
+   *
+   * Mesma rotina executada toda noite: expira os créditos vencidos e envia
+   * os avisos de vencimento próximo.
+   *
+   * @example POST /livro-razao/expiracao/execucao
+   */
+  @Post('expiracao/execucao')
+  async executarExpiracao() {
+    return this.expiracaoPontosService.executar();
+  }
+}
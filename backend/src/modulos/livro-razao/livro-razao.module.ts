@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LivroRazaoController } from './livro-razao.controller';
+import { LivroRazaoService } from './livro-razao.service';
+import { ExpiracaoPontosService } from './expiracao-pontos.service';
+
+/**
+ * Módulo do Livro-Razão de Saldo (extrato, ajustes, verificação noturna e expiração de pontos).
+ */
+@Module({
+  controllers: [LivroRazaoController],
+  providers: [LivroRazaoService, ExpiracaoPontosService],
+  exports: [LivroRazaoService, ExpiracaoPontosService],
+})
+export class LivroRazaoModule {}
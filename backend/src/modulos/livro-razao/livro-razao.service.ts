@@ -0,0 +1,324 @@
+/**
+ * ============================================================================
+ * LIVRO RAZAO SERVICE - Extrato, Ajustes e Invariante de Saldo
+ * ============================================================================
+ *
+ * Descrição:
+ * Cada movimentação de saldo (crédito de cartela, comissão de gerente, bônus
+ * de evento, reserva para lote, pagamento, devolução de reserva, reversão de
+ * validação, estorno de envio, expiração de pontos, ajuste manual e ajuste de
+ * recálculo de recompensas) grava um LancamentoSaldo via movimentarSaldo.
+ * Os lançamentos nunca são alterados nem removidos.
+ *
+ * Invariante: para todo usuário,
+ * - Usuario.saldoPontos    = soma de LancamentoSaldo.valor
+ * - Usuario.saldoReservado = soma de LancamentoSaldo.valorReservado
+ *
+ * A invariante é verificada toda noite (03:00, horário de Brasília) e sob
+ * demanda. Divergências são registradas no log e notificadas aos admins.
+ *
+ * @module LivroRazaoModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { PapelUsuario, StatusUsuario } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AjustarSaldoDto } from './dto/ajustar-saldo.dto';
+import { arredondarCentavos, movimentarSaldo } from './helpers/movimentar-saldo.helper';
+
+/**
+ * Diferença tolerada entre saldo e livro-razão (meio centavo)
+ */
+const TOLERANCIA_DIVERGENCIA = 0.005;
+
+/**
+ * Usuário cujo saldo armazenado não confere com o livro-razão
+ */
+export interface DivergenciaSaldo {
+  usuarioId: string;
+  nome: string;
+  saldoPontos: number;
+  somaPontos: number;
+  saldoReservado: number;
+  somaReservado: number;
+}
+
+/**
+ * Resultado de uma verificação da invariante
+ */
+export interface ResultadoVerificacaoSaldo {
+  verificadoEm: Date;
+  usuariosVerificados: number;
+  divergencias: DivergenciaSaldo[];
+}
+
+/**
+ * ============================================================================
+ * SERVICE: LivroRazaoService
+ * ============================================================================
+ */
+@Injectable()
+export class LivroRazaoService {
+  private readonly logger = new Logger(LivroRazaoService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: extrato
+   * ==========================================================================
+   *
+   * Lançamentos de um usuário (mais recentes primeiro) e o saldo derivado do
+   * livro-razão, comparado ao saldo armazenado.
+   *
+   * @param usuarioId - Usuário consultado
+   * @throws NotFoundException se o usuário não existir
+   */
+  async extrato(usuarioId: string) {
+    const usuario = await this.prisma.usuario.findUnique({
+      where: { id: usuarioId },
+      select: { id: true, nome: true, papel: true, saldoPontos: true, saldoReservado: true },
+    });
+
+    if (!usuario) {
+      throw new NotFoundException('Usuário não encontrado.');
+    }
+
+    const [lancamentos, soma] = await Promise.all([
+      this.prisma.lancamentoSaldo.findMany({
+        where: { usuarioId },
+        orderBy: { criadoEm: 'desc' },
+        include: { admin: { select: { id: true, nome: true } } },
+      }),
+      this.prisma.lancamentoSaldo.aggregate({
+        where: { usuarioId },
+        _sum: { valor: true, valorReservado: true },
+      }),
+    ]);
+
+    const saldoDerivado = {
+      saldoPontos: Number(soma._sum.valor ?? 0),
+      saldoReservado: Number(soma._sum.valorReservado ?? 0),
+    };
+    const saldoArmazenado = {
+      saldoPontos: Number(usuario.saldoPontos),
+      saldoReservado: Number(usuario.saldoReservado),
+    };
+
+    return {
+      usuario: { id: usuario.id, nome: usuario.nome, papel: usuario.papel },
+      saldoArmazenado,
+      saldoDerivado,
+      confere: this._confere(saldoArmazenado, saldoDerivado),
+      lancamentos: lancamentos.map((lancamento) => ({
+        ...lancamento,
+        valor: Number(lancamento.valor),
+        valorReservado: Number(lancamento.valorReservado),
+      })),
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: ajustar
+   * ==========================================================================
+   *
+   * Ajuste manual de saldoPontos (crédito ou débito) com justificativa.
+   *
+   * @param dto - Usuário, valor e justificativa
+   * @param adminId - Admin responsável
+   * @throws NotFoundException se o usuário não existir
+   * @throws BadRequestException se o débito deixar o saldo negativo
+   */
+  async ajustar(dto: AjustarSaldoDto, adminId: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const usuario = await tx.usuario.findUnique({
+        where: { id: dto.usuarioId },
+        select: { id: true, nome: true, saldoPontos: true },
+      });
+
+      if (!usuario) {
+        throw new NotFoundException('Usuário não encontrado.');
+      }
+
+      const saldoAtual = Number(usuario.saldoPontos);
+      const valor = arredondarCentavos(dto.valor);
+
+      if (saldoAtual + valor < 0) {
+        throw new BadRequestException(
+          `Saldo insuficiente para o débito. Saldo atual: R$ ${saldoAtual.toFixed(2)}, ajuste: R$ ${valor.toFixed(2)}.`,
+        );
+      }
+
+      await movimentarSaldo(tx, usuario.id, [
+        {
+          tipo: 'AJUSTE_MANUAL',
+          valor,
+          descricao: `Ajuste manual: ${dto.justificativa}`,
+          adminId,
+        },
+      ]);
+
+      await tx.notificacao.create({
+        data: {
+          usuarioId: usuario.id,
+          mensagem: `Seu saldo recebeu um ajuste de R$ ${valor.toFixed(2)}. Motivo: ${dto.justificativa}`,
+        },
+      });
+
+      this.logger.log(
+        `[AJUSTE] Admin ${adminId} ajustou o saldo de ${usuario.nome} em R$ ${valor.toFixed(2)}`,
+      );
+
+      return {
+        usuarioId: usuario.id,
+        valor,
+        saldoAnterior: saldoAtual,
+        saldoAtual: arredondarCentavos(saldoAtual + valor),
+      };
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: verificarInvariante
+   * ==========================================================================
+   *
+   * Compara o saldo armazenado de cada usuário com a soma dos seus
+   * lançamentos. Divergências são registradas e notificadas aos admins.
+   *
+   * @returns Resultado da verificação
+   */
+  async verificarInvariante(): Promise<ResultadoVerificacaoSaldo> {
+    const [somas, usuariosComSaldo] = await Promise.all([
+      this.prisma.lancamentoSaldo.groupBy({
+        by: ['usuarioId'],
+        _sum: { valor: true, valorReservado: true },
+      }),
+      this.prisma.usuario.findMany({
+        where: { OR: [{ saldoPontos: { not: 0 } }, { saldoReservado: { not: 0 } }] },
+        select: { id: true },
+      }),
+    ]);
+
+    const somasPorUsuario = new Map(
+      somas.map((soma) => [
+        soma.usuarioId,
+        {
+          saldoPontos: Number(soma._sum.valor ?? 0),
+          saldoReservado: Number(soma._sum.valorReservado ?? 0),
+        },
+      ]),
+    );
+
+    const idsVerificados = Array.from(
+      new Set([...somasPorUsuario.keys(), ...usuariosComSaldo.map((u) => u.id)]),
+    );
+
+    const usuarios = await this.prisma.usuario.findMany({
+      where: { id: { in: idsVerificados } },
+      select: { id: true, nome: true, saldoPontos: true, saldoReservado: true },
+    });
+
+    const divergencias: DivergenciaSaldo[] = [];
+
+    for (const usuario of usuarios) {
+      const armazenado = {
+        saldoPontos: Number(usuario.saldoPontos),
+        saldoReservado: Number(usuario.saldoReservado),
+      };
+      const derivado = somasPorUsuario.get(usuario.id) ?? { saldoPontos: 0, saldoReservado: 0 };
+
+      if (!this._confere(armazenado, derivado)) {
+        divergencias.push({
+          usuarioId: usuario.id,
+          nome: usuario.nome,
+          saldoPontos: armazenado.saldoPontos,
+          somaPontos: derivado.saldoPontos,
+          saldoReservado: armazenado.saldoReservado,
+          somaReservado: derivado.saldoReservado,
+        });
+      }
+    }
+
+    const resultado = {
+      verificadoEm: new Date(),
+      usuariosVerificados: usuarios.length,
+      divergencias,
+    };
+
+    if (divergencias.length === 0) {
+      this.logger.log(`[INVARIANTE] Saldos conferem com o livro-razão (${usuarios.length} usuários).`);
+      return resultado;
+    }
+
+    for (const divergencia of divergencias) {
+      this.logger.error(
+        `[INVARIANTE] ${divergencia.nome} (${divergencia.usuarioId}): saldoPontos=${divergencia.saldoPontos.toFixed(2)} livro=${divergencia.somaPontos.toFixed(2)}, saldoReservado=${divergencia.saldoReservado.toFixed(2)} livro=${divergencia.somaReservado.toFixed(2)}`,
+      );
+    }
+
+    await this._notificarAdmins(divergencias);
+
+    return resultado;
+  }
+
+  /**
+   * Verificação noturna da invariante (03:00, horário de Brasília).
+   */
+  @Cron('0 3 * * *', { name: 'verificacao-livro-razao', timeZone: 'America/Sao_Paulo' })
+  async verificacaoNoturna() {
+    try {
+      await this.verificarInvariante();
+    } catch (erro) {
+      this.logger.error(`[INVARIANTE] Falha na verificação noturna: ${erro.message}`, erro.stack);
+    }
+  }
+
+  /**
+   * Saldo armazenado confere com o derivado (dentro da tolerância).
+   *
+   * @private
+   */
+  private _confere(
+    armazenado: { saldoPontos: number; saldoReservado: number },
+    derivado: { saldoPontos: number; saldoReservado: number },
+  ) {
+    return (
+      Math.abs(armazenado.saldoPontos - derivado.saldoPontos) < TOLERANCIA_DIVERGENCIA &&
+      Math.abs(armazenado.saldoReservado - derivado.saldoReservado) < TOLERANCIA_DIVERGENCIA
+    );
+  }
+
+  /**
+   * Notifica os admins ativos sobre as divergências encontradas.
+   *
+   * @private
+   */
+  private async _notificarAdmins(divergencias: DivergenciaSaldo[]) {
+    const admins = await this.prisma.usuario.findMany({
+      where: { papel: PapelUsuario.ADMIN, status: StatusUsuario.ATIVO },
+      select: { id: true },
+    });
+
+    const nomes = divergencias
+      .slice(0, 5)
+      .map((d) => d.nome)
+      .join(', ');
+    const restantes = divergencias.length > 5 ? ` e mais ${divergencias.length - 5}` : '';
+
+    await this.prisma.notificacao.createMany({
+      data: admins.map((admin) => ({
+        usuarioId: admin.id,
+        mensagem: `⚠️ Verificação do livro-razão: ${divergencias.length} usuário(s) com saldo divergente da soma dos lançamentos (${nomes}${restantes}).`,
+      })),
+    });
+  }
+}
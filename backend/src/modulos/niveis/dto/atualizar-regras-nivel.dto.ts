@@ -0,0 +1,62 @@
+/**
+ * ============================================================================
+ * DTO: Atualizar Regras de Nível
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de PUT /api/niveis/regras. Substitui o conjunto de regras: níveis
+ * ausentes da lista ficam sem regra (não são atingidos no recálculo).
+ * BRONZE é o nível base e não tem regra.
+ *
+ * @module NivelVendedorModule
+ * ============================================================================
+ */
+
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, IsArray, IsEnum, IsIn, IsInt, IsNumber, Max, Min, ValidateNested } from 'class-validator';
+import { CriterioNivel, NivelVendedor } from '@prisma/client';
+
+export class RegraNivelDto {
+  /**
+   * Nível concedido pela regra.
+   *
+   * @example "OURO"
+   */
+  @IsIn([NivelVendedor.PRATA, NivelVendedor.OURO, NivelVendedor.DIAMANTE], {
+    message: 'O nível deve ser PRATA, OURO ou DIAMANTE (BRONZE é o nível base)',
+  })
+  nivel: NivelVendedor;
+
+  /**
+   * Métrica avaliada na janela.
+   */
+  @IsEnum(CriterioNivel, { message: 'O critério deve ser PONTOS_VALIDADOS ou CARTELAS_CONCLUIDAS' })
+  criterio: CriterioNivel;
+
+  /**
+   * Mínimo da métrica (R$ validados ou número de cartelas concluídas).
+   *
+   * @example 1500
+   */
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O valor mínimo deve ter no máximo 2 casas decimais' })
+  @Min(0.01, { message: 'O valor mínimo deve ser maior que zero' })
+  valorMinimo: number;
+
+  /**
+   * Janela móvel em dias.
+   *
+   * @example 90
+   */
+  @IsInt({ message: 'A janela deve ser um número inteiro de dias' })
+  @Min(1, { message: 'A janela deve ter pelo menos 1 dia' })
+  @Max(730, { message: 'A janela não pode exceder 730 dias' })
+  janelaDias: number;
+}
+
+export class AtualizarRegrasNivelDto {
+  @IsArray({ message: 'regras deve ser uma lista' })
+  @ArrayMaxSize(3, { message: 'Informe no máximo uma regra por nível (PRATA, OURO e DIAMANTE)' })
+  @ValidateNested({ each: true })
+  @Type(() => RegraNivelDto)
+  regras: RegraNivelDto[];
+}
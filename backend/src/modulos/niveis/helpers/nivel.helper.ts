@@ -0,0 +1,60 @@
+/**
+ * ============================================================================
+ * NIVEL HELPER - Ordem dos Níveis e Multiplicador por Nível
+ * ============================================================================
+ *
+ * Funções puras compartilhadas pela elegibilidade de envios (nível mínimo da
+ * campanha) e pelo crédito de recompensas (multiplicador por nível).
+ *
+ * @module NivelVendedorModule
+ * ============================================================================
+ */
+
+import { NivelVendedor, Prisma } from '@prisma/client';
+
+/**
+ * Níveis do menor para o maior
+ */
+export const ORDEM_NIVEIS: NivelVendedor[] = [
+  NivelVendedor.BRONZE,
+  NivelVendedor.PRATA,
+  NivelVendedor.OURO,
+  NivelVendedor.DIAMANTE,
+];
+
+/**
+ * Maior multiplicador aceito por nível (evita erros de digitação como 15 em vez de 1.5)
+ */
+export const MULTIPLICADOR_NIVEL_MAXIMO = 5;
+
+/**
+ * O nível atinge o mínimo exigido (nulo = qualquer nível).
+ */
+export function nivelAtende(nivel: NivelVendedor, minimo: NivelVendedor | null | undefined): boolean {
+  return !minimo || ORDEM_NIVEIS.indexOf(nivel) >= ORDEM_NIVEIS.indexOf(minimo);
+}
+
+/**
+ * Multiplicador da campanha para o nível do vendedor (1 se não configurado).
+ *
+ * @param multiplicadoresNivel - Campanha.multiplicadoresNivel (ex: {"OURO": 1.1})
+ * @param nivel - Nível do vendedor no momento do crédito
+ */
+export function multiplicadorDoNivel(
+  multiplicadoresNivel: Prisma.JsonValue | null | undefined,
+  nivel: NivelVendedor,
+): number {
+  if (!multiplicadoresNivel || typeof multiplicadoresNivel !== 'object' || Array.isArray(multiplicadoresNivel)) {
+    return 1;
+  }
+
+  const multiplicador = Number(multiplicadoresNivel[nivel]);
+  return Number.isFinite(multiplicador) && multiplicador > 0 ? multiplicador : 1;
+}
+
+/**
+ * Rótulo legível do nível (ex: "Diamante").
+ */
+export function rotuloNivel(nivel: NivelVendedor): string {
+  return nivel.charAt(0) + nivel.slice(1).toLowerCase();
+}
@@ -0,0 +1,81 @@
+import { Controller, Get, Post, Put, Body, Query, UseGuards, Request, HttpCode, HttpStatus } from '@nestjs/common';
+import { JwtAuthGuard } from './../comum/guards/jwt-auth.guard';
+import { PapeisGuard } from './../comum/guards/papeis.guard';
+import { Papeis } from './../comum/decorators/papeis.decorator';
+import { PapelUsuario } from '@prisma/client';
+import { NivelVendedorService } from './nivel-vendedor.service';
+import { AtualizarRegrasNivelDto } from './dto/atualizar-regras-nivel.dto';
+
+/**
+ * ============================================================================
+ * CONTROLADOR DE NÍVEIS DE VENDEDOR
+ * ============================================================================
+ *
+ * Regras de progressão, recálculo sob demanda e histórico de mudanças
+ * (Admin). O vendedor consulta o próprio nível e o progresso nas regras.
+ *
+ * ============================================================================
+ */
+@UseGuards(JwtAuthGuard, PapeisGuard)
+@Controller('niveis')
+export class NiveisController {
+  constructor(private readonly nivelVendedorService: NivelVendedorService) {}
+
+  /**
+   * Regras de nível configuradas.
+   *
+   * @example GET /niveis/regras
+   */
+  @Get('regras')
+  @Papeis(PapelUsuario.ADMIN)
+  async listarRegras() {
+    return this.nivelVendedorService.listarRegras();
+  }
+
+  /**
+   * Substitui as regras de nível (valem a partir do próximo recálculo).
+   *
+   * @example
+   * PUT /niveis/regras
+   * Body: { "regras": [{ "nivel": "PRATA", "criterio": "PONTOS_VALIDADOS", "valorMinimo": 500, "janelaDias": 90 }] }
+   */
+  @Put('regras')
+  @Papeis(PapelUsuario.ADMIN)
+  async atualizarRegras(@Body() dto: AtualizarRegrasNivelDto, @Request() req: any) {
+    return this.nivelVendedorService.atualizarRegras(dto, req.user.id);
+  }
+
+  /**
+   * Recalcula agora o nível de todos os vendedores (mesmo recálculo noturno).
+   *
+   * @example POST /niveis/recalcular
+   */
+  @Post('recalcular')
+  @Papeis(PapelUsuario.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  async recalcular(@Request() req: any) {
+    return this.nivelVendedorService.recalcular(req.user.id);
+  }
+
+  /**
+   * Histórico de mudanças de nível (de um vendedor ou de todos).
+   *
+   * @example GET /niveis/historico?usuarioId=abc-123
+   */
+  @Get('historico')
+  @Papeis(PapelUsuario.ADMIN)
+  async historico(@Query('usuarioId') usuarioId?: string) {
+    return this.nivelVendedorService.historico({ usuarioId: usuarioId || undefined });
+  }
+
+  /**
+   * Nível, progresso nas regras e histórico do vendedor autenticado.
+   *
+   * @example GET /niveis/meu-progresso
+   */
+  @Get('meu-progresso')
+  @Papeis(PapelUsuario.VENDEDOR)
+  async meuProgresso(@Request() req: any) {
+    return this.nivelVendedorService.progresso(req.user.id);
+  }
+}
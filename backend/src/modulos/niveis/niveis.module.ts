@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { NiveisController } from './niveis.controller';
+import { NivelVendedorService } from './nivel-vendedor.service';
+
+/**
+ * Módulo de Níveis de Vendedor (regras de progressão, recálculo noturno e histórico).
+ */
+@Module({
+  controllers: [NiveisController],
+  providers: [NivelVendedorService],
+  exports: [NivelVendedorService],
+})
+export class NiveisModule {}
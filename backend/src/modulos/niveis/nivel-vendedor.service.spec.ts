@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { NivelVendedorService } from './nivel-vendedor.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    regraNivelVendedor: {
+        findMany: jest.fn(),
+        deleteMany: jest.fn(),
+        upsert: jest.fn(),
+    },
+    usuario: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+    },
+    envioVenda: {
+        groupBy: jest.fn(),
+    },
+    cartelaConcluida: {
+        groupBy: jest.fn(),
+    },
+    historicoNivelVendedor: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+    },
+    notificacao: {
+        create: jest.fn(),
+    },
+};
+
+const regra = (nivel: string, criterio: string, valorMinimo: number, janelaDias = 90) => ({
+    id: `regra-${nivel}`,
+    nivel,
+    criterio,
+    valorMinimo,
+    janelaDias,
+});
+
+// Fora de ordem de propósito: listarRegras ordena do menor para o maior nível
+const regras = [
+    regra('OURO', 'PONTOS_VALIDADOS', 5000),
+    regra('PRATA', 'PONTOS_VALIDADOS', 1000),
+    regra('DIAMANTE', 'CARTELAS_CONCLUIDAS', 10),
+];
+
+const pontos = (vendedorId: string, valor: number) => ({
+    vendedorId,
+    _sum: { valorPontosReaisRecebido: valor },
+});
+
+describe('NivelVendedorService', () => {
+    let service: NivelVendedorService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                NivelVendedorService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<NivelVendedorService>(NivelVendedorService);
+        jest.clearAllMocks();
+
+        mockPrismaService.regraNivelVendedor.findMany.mockResolvedValue(regras);
+        mockPrismaService.envioVenda.groupBy.mockResolvedValue([]);
+        mockPrismaService.cartelaConcluida.groupBy.mockResolvedValue([]);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('recalcular', () => {
+        it('should leave every level untouched when no rules are configured', async () => {
+            mockPrismaService.regraNivelVendedor.findMany.mockResolvedValue([]);
+
+            const resultado = await service.recalcular();
+
+            expect(resultado.vendedoresAvaliados).toBe(0);
+            expect(mockPrismaService.usuario.findMany).not.toHaveBeenCalled();
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+        });
+
+        it('should promote and demote sellers to the highest level they reach', async () => {
+            mockPrismaService.usuario.findMany.mockResolvedValue([
+                { id: 'vendedor-1', nome: 'Ana', nivel: 'BRONZE', gerenteId: 'gerente-1' },
+                { id: 'vendedor-2', nome: 'Bruno', nivel: 'DIAMANTE', gerenteId: null },
+                { id: 'vendedor-3', nome: 'Carla', nivel: 'PRATA', gerenteId: null },
+            ]);
+            mockPrismaService.envioVenda.groupBy.mockResolvedValue([
+                pontos('vendedor-1', 5000),
+                pontos('vendedor-2', 1200),
+                pontos('vendedor-3', 1000),
+            ]);
+            mockPrismaService.cartelaConcluida.groupBy.mockResolvedValue([
+                { vendedorId: 'vendedor-2', _count: { _all: 9 } },
+            ]);
+
+            const resultado = await service.recalcular('admin-uuid');
+
+            expect(resultado).toEqual(
+                expect.objectContaining({
+                    vendedoresAvaliados: 3,
+                    promovidos: 1,
+                    rebaixados: 1,
+                    mudancas: [
+                        { usuarioId: 'vendedor-1', nome: 'Ana', nivelAnterior: 'BRONZE', nivelNovo: 'OURO', tipo: 'PROMOCAO' },
+                        { usuarioId: 'vendedor-2', nome: 'Bruno', nivelAnterior: 'DIAMANTE', nivelNovo: 'PRATA', tipo: 'REBAIXAMENTO' },
+                    ],
+                }),
+            );
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'vendedor-1' },
+                data: { nivel: 'OURO' },
+            });
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'vendedor-2' },
+                data: { nivel: 'PRATA' },
+            });
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: 'vendedor-3' } }),
+            );
+        });
+
+        it('should compute each distinct metric once', async () => {
+            mockPrismaService.usuario.findMany.mockResolvedValue([]);
+
+            await service.recalcular();
+
+            // PRATA e OURO usam PONTOS_VALIDADOS em 90 dias
+            expect(mockPrismaService.envioVenda.groupBy).toHaveBeenCalledTimes(1);
+            expect(mockPrismaService.envioVenda.groupBy).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: expect.objectContaining({ status: 'VALIDADO', dataValidacao: { gte: expect.any(Date) } }),
+                }),
+            );
+            expect(mockPrismaService.cartelaConcluida.groupBy).toHaveBeenCalledTimes(1);
+        });
+
+        it('should record the history with the metrics and notify seller and manager', async () => {
+            mockPrismaService.usuario.findMany.mockResolvedValue([
+                { id: 'vendedor-1', nome: 'Ana', nivel: 'BRONZE', gerenteId: 'gerente-1' },
+            ]);
+            mockPrismaService.envioVenda.groupBy.mockResolvedValue([pontos('vendedor-1', 1500)]);
+
+            await service.recalcular('admin-uuid');
+
+            expect(mockPrismaService.historicoNivelVendedor.create).toHaveBeenCalledWith({
+                data: {
+                    usuarioId: 'vendedor-1',
+                    nivelAnterior: 'BRONZE',
+                    nivelNovo: 'PRATA',
+                    metricasJson: { 'PONTOS_VALIDADOS:90': 1500, 'CARTELAS_CONCLUIDAS:90': 0 },
+                    recalculadoPorId: 'admin-uuid',
+                },
+            });
+            expect(mockPrismaService.notificacao.create).toHaveBeenCalledWith({
+                data: { usuarioId: 'vendedor-1', mensagem: expect.stringContaining('Você subiu para o nível') },
+            });
+            expect(mockPrismaService.notificacao.create).toHaveBeenCalledWith({
+                data: { usuarioId: 'gerente-1', mensagem: expect.stringContaining('Ana subiu') },
+            });
+        });
+
+        it('should demote to BRONZE when no rule is reached', async () => {
+            mockPrismaService.usuario.findMany.mockResolvedValue([
+                { id: 'vendedor-1', nome: 'Ana', nivel: 'PRATA', gerenteId: null },
+            ]);
+
+            const resultado = await service.recalcular();
+
+            expect(resultado.mudancas).toEqual([
+                expect.objectContaining({ nivelNovo: 'BRONZE', tipo: 'REBAIXAMENTO' }),
+            ]);
+            expect(mockPrismaService.historicoNivelVendedor.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ recalculadoPorId: null }),
+            });
+        });
+    });
+
+    describe('atualizarRegras', () => {
+        it('should reject two rules for the same level', async () => {
+            const dto = {
+                regras: [
+                    { nivel: 'PRATA', criterio: 'PONTOS_VALIDADOS', valorMinimo: 1000, janelaDias: 90 },
+                    { nivel: 'PRATA', criterio: 'CARTELAS_CONCLUIDAS', valorMinimo: 2, janelaDias: 90 },
+                ],
+            };
+
+            await expect(service.atualizarRegras(dto as any, 'admin-uuid')).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject a higher level with a minimum not above the lower one', async () => {
+            const dto = {
+                regras: [
+                    { nivel: 'OURO', criterio: 'PONTOS_VALIDADOS', valorMinimo: 1000, janelaDias: 90 },
+                    { nivel: 'PRATA', criterio: 'PONTOS_VALIDADOS', valorMinimo: 1000, janelaDias: 90 },
+                ],
+            };
+
+            await expect(service.atualizarRegras(dto as any, 'admin-uuid')).rejects.toThrow(
+                'O mínimo de Ouro (1000) deve ser maior que o de Prata (1000).',
+            );
+            expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+        });
+
+        it('should replace the rules and drop the levels left out', async () => {
+            const dto = {
+                regras: [{ nivel: 'PRATA', criterio: 'PONTOS_VALIDADOS', valorMinimo: 1000, janelaDias: 90 }],
+            };
+
+            await service.atualizarRegras(dto as any, 'admin-uuid');
+
+            expect(mockPrismaService.regraNivelVendedor.deleteMany).toHaveBeenCalledWith({
+                where: { nivel: { notIn: ['PRATA'] } },
+            });
+            expect(mockPrismaService.regraNivelVendedor.upsert).toHaveBeenCalledWith({
+                where: { nivel: 'PRATA' },
+                update: { criterio: 'PONTOS_VALIDADOS', valorMinimo: 1000, janelaDias: 90, atualizadoPorId: 'admin-uuid' },
+                create: {
+                    nivel: 'PRATA',
+                    criterio: 'PONTOS_VALIDADOS',
+                    valorMinimo: 1000,
+                    janelaDias: 90,
+                    atualizadoPorId: 'admin-uuid',
+                },
+            });
+        });
+    });
+
+    describe('progresso', () => {
+        it('should throw NotFoundException if the user does not exist', async () => {
+            mockPrismaService.usuario.findUnique.mockResolvedValue(null);
+
+            await expect(service.progresso('usuario-x')).rejects.toThrow(NotFoundException);
+        });
+    });
+});
@@ -0,0 +1,379 @@
+/**
+ * ============================================================================
+ * NIVEL VENDEDOR SERVICE - Progressão Automática de Níveis
+ * ============================================================================
+ *
+ * Descrição:
+ * Calcula o nível (BRONZE/PRATA/OURO/DIAMANTE) de cada vendedor a partir das
+ * regras configuradas pelo admin (RegraNivelVendedor). Cada regra avalia uma
+ * métrica em janela móvel:
+ * - PONTOS_VALIDADOS: soma de valorPontosReaisRecebido dos envios VALIDADOS
+ *   com dataValidacao na janela (estornos e reversões saem da soma)
+ * - CARTELAS_CONCLUIDAS: cartelas concluídas na janela
+ *
+ * O vendedor fica no maior nível cuja regra atinge; sem nenhuma, BRONZE.
+ * O recálculo promove e rebaixa, grava HistoricoNivelVendedor e notifica o
+ * vendedor (e o gerente, se houver) a cada mudança.
+ *
+ * O recálculo roda toda noite (04:00, horário de Brasília, depois da
+ * verificação do livro-razão) e sob demanda pelo admin.
+ *
+ * @module NivelVendedorModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import {
+  CriterioNivel,
+  NivelVendedor,
+  PapelUsuario,
+  RegraNivelVendedor,
+  StatusEnvioVenda,
+  StatusUsuario,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AtualizarRegrasNivelDto } from './dto/atualizar-regras-nivel.dto';
+import { ORDEM_NIVEIS, rotuloNivel } from './helpers/nivel.helper';
+
+/**
+ * Métricas por chave "CRITERIO:janelaDias" -> (vendedorId -> valor)
+ */
+type MetricasPorRegra = Map<string, Map<string, number>>;
+
+/**
+ * Mudança de nível aplicada pelo recálculo
+ */
+export interface MudancaNivel {
+  usuarioId: string;
+  nome: string;
+  nivelAnterior: NivelVendedor;
+  nivelNovo: NivelVendedor;
+  tipo: 'PROMOCAO' | 'REBAIXAMENTO';
+}
+
+/**
+ * Resultado de um recálculo de níveis
+ */
+export interface ResultadoRecalculoNivel {
+  recalculadoEm: Date;
+  vendedoresAvaliados: number;
+  promovidos: number;
+  rebaixados: number;
+  mudancas: MudancaNivel[];
+}
+
+/**
+ * ============================================================================
+ * SERVICE: NivelVendedorService
+ * ============================================================================
+ */
+@Injectable()
+export class NivelVendedorService {
+  private readonly logger = new Logger(NivelVendedorService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Regras configuradas, do menor para o maior nível.
+   */
+  async listarRegras() {
+    const regras = await this.prisma.regraNivelVendedor.findMany();
+    return regras.sort((a, b) => ORDEM_NIVEIS.indexOf(a.nivel) - ORDEM_NIVEIS.indexOf(b.nivel));
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: atualizarRegras
+   * ==========================================================================
+   *
+   * Substitui as regras de nível. Para o mesmo critério e janela, o mínimo
+   * deve crescer com o nível (senão um nível mais alto seria mais fácil).
+   * As mudanças valem a partir do próximo recálculo.
+   *
+   * @param dto - Regras (uma por nível)
+   * @param adminId - Admin responsável
+   * @throws BadRequestException se houver nível repetido ou mínimos fora de ordem
+   */
+  async atualizarRegras(dto: AtualizarRegrasNivelDto, adminId: string) {
+    const niveis = dto.regras.map((r) => r.nivel);
+    if (new Set(niveis).size !== niveis.length) {
+      throw new BadRequestException('Informe no máximo uma regra por nível.');
+    }
+
+    const ordenadas = [...dto.regras].sort(
+      (a, b) => ORDEM_NIVEIS.indexOf(a.nivel) - ORDEM_NIVEIS.indexOf(b.nivel),
+    );
+    for (let i = 1; i < ordenadas.length; i++) {
+      for (const inferior of ordenadas.slice(0, i)) {
+        const superior = ordenadas[i];
+        if (
+          inferior.criterio === superior.criterio &&
+          inferior.janelaDias === superior.janelaDias &&
+          superior.valorMinimo <= inferior.valorMinimo
+        ) {
+          throw new BadRequestException(
+            `O mínimo de ${rotuloNivel(superior.nivel)} (${superior.valorMinimo}) deve ser maior que o de ${rotuloNivel(inferior.nivel)} (${inferior.valorMinimo}).`,
+          );
+        }
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.regraNivelVendedor.deleteMany({ where: { nivel: { notIn: niveis } } });
+
+      for (const regra of dto.regras) {
+        const dados = {
+          criterio: regra.criterio,
+          valorMinimo: regra.valorMinimo,
+          janelaDias: regra.janelaDias,
+          atualizadoPorId: adminId,
+        };
+        await tx.regraNivelVendedor.upsert({
+          where: { nivel: regra.nivel },
+          update: dados,
+          create: { nivel: regra.nivel, ...dados },
+        });
+      }
+    });
+
+    this.logger.log(`[NIVEIS] Regras atualizadas pelo admin ${adminId}: ${niveis.join(', ') || 'nenhuma'}`);
+
+    return this.listarRegras();
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: recalcular
+   * ==========================================================================
+   *
+   * Recalcula o nível de todos os vendedores ativos. Sem regras configuradas,
+   * nada é alterado (evita rebaixar todos para BRONZE por engano).
+   *
+   * @param adminId - Admin que disparou (null = recálculo agendado)
+   * @returns Resumo com as promoções e rebaixamentos aplicados
+   */
+  async recalcular(adminId: string | null = null): Promise<ResultadoRecalculoNivel> {
+    const recalculadoEm = new Date();
+    const regras = await this.listarRegras();
+
+    if (regras.length === 0) {
+      this.logger.warn('[NIVEIS] Nenhuma regra de nível configurada. Recálculo ignorado.');
+      return { recalculadoEm, vendedoresAvaliados: 0, promovidos: 0, rebaixados: 0, mudancas: [] };
+    }
+
+    const vendedores = await this.prisma.usuario.findMany({
+      where: { papel: PapelUsuario.VENDEDOR, status: StatusUsuario.ATIVO },
+      select: { id: true, nome: true, nivel: true, gerenteId: true },
+    });
+
+    const metricas = await this._calcularMetricas(regras, recalculadoEm);
+    const mudancas: MudancaNivel[] = [];
+
+    for (const vendedor of vendedores) {
+      const nivelNovo = this._nivelAtingido(regras, metricas, vendedor.id);
+      if (nivelNovo === vendedor.nivel) {
+        continue;
+      }
+
+      const tipo =
+        ORDEM_NIVEIS.indexOf(nivelNovo) > ORDEM_NIVEIS.indexOf(vendedor.nivel) ? 'PROMOCAO' : 'REBAIXAMENTO';
+
+      await this.prisma.$transaction(async (tx) => {
+        await tx.usuario.update({ where: { id: vendedor.id }, data: { nivel: nivelNovo } });
+
+        await tx.historicoNivelVendedor.create({
+          data: {
+            usuarioId: vendedor.id,
+            nivelAnterior: vendedor.nivel,
+            nivelNovo,
+            metricasJson: this._metricasDoVendedor(metricas, vendedor.id),
+            recalculadoPorId: adminId,
+          },
+        });
+
+        await tx.notificacao.create({
+          data: {
+            usuarioId: vendedor.id,
+            mensagem:
+              tipo === 'PROMOCAO'
+                ? `🏆 Parabéns! Você subiu para o nível ${rotuloNivel(nivelNovo)}.`
+                : `Seu nível mudou de ${rotuloNivel(vendedor.nivel)} para ${rotuloNivel(nivelNovo)}. Continue validando vendas para voltar a subir.`,
+          },
+        });
+
+        if (vendedor.gerenteId) {
+          await tx.notificacao.create({
+            data: {
+              usuarioId: vendedor.gerenteId,
+              mensagem: `${vendedor.nome} ${tipo === 'PROMOCAO' ? 'subiu' : 'desceu'} do nível ${rotuloNivel(vendedor.nivel)} para ${rotuloNivel(nivelNovo)}.`,
+            },
+          });
+        }
+      });
+
+      mudancas.push({
+        usuarioId: vendedor.id,
+        nome: vendedor.nome,
+        nivelAnterior: vendedor.nivel,
+        nivelNovo,
+        tipo,
+      });
+    }
+
+    const promovidos = mudancas.filter((m) => m.tipo === 'PROMOCAO').length;
+    const rebaixados = mudancas.length - promovidos;
+
+    this.logger.log(
+      `[NIVEIS] Recálculo${adminId ? ` (admin ${adminId})` : ''}: ${vendedores.length} vendedor(es), ${promovidos} promovido(s), ${rebaixados} rebaixado(s)`,
+    );
+
+    return { recalculadoEm, vendedoresAvaliados: vendedores.length, promovidos, rebaixados, mudancas };
+  }
+
+  /**
+   * Recálculo noturno (04:00, horário de Brasília).
+   */
+  @Cron('0 4 * * *', { name: 'recalculo-niveis-vendedor', timeZone: 'America/Sao_Paulo' })
+  async recalculoNoturno() {
+    try {
+      await this.recalcular();
+    } catch (erro) {
+      this.logger.error(`[NIVEIS] Falha no recálculo noturno: ${erro.message}`, erro.stack);
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: historico
+   * ==========================================================================
+   *
+   * Mudanças de nível (mais recentes primeiro), de um vendedor ou de todos.
+   */
+  async historico(filtros: { usuarioId?: string; limite?: number } = {}) {
+    return this.prisma.historicoNivelVendedor.findMany({
+      where: { usuarioId: filtros.usuarioId },
+      orderBy: { criadoEm: 'desc' },
+      take: filtros.limite ?? 100,
+      include: { usuario: { select: { id: true, nome: true } } },
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: progresso
+   * ==========================================================================
+   *
+   * Nível atual do vendedor, valor atual de cada regra e histórico de mudanças.
+   *
+   * @param usuarioId - Vendedor
+   * @throws NotFoundException se o usuário não existir
+   */
+  async progresso(usuarioId: string) {
+    const usuario = await this.prisma.usuario.findUnique({
+      where: { id: usuarioId },
+      select: { id: true, nivel: true },
+    });
+
+    if (!usuario) {
+      throw new NotFoundException('Usuário não encontrado.');
+    }
+
+    const regras = await this.listarRegras();
+    const metricas = await this._calcularMetricas(regras, new Date(), usuarioId);
+
+    return {
+      nivel: usuario.nivel,
+      regras: regras.map((regra) => ({
+        nivel: regra.nivel,
+        criterio: regra.criterio,
+        valorMinimo: Number(regra.valorMinimo),
+        janelaDias: regra.janelaDias,
+        valorAtual: metricas.get(this._chaveRegra(regra))?.get(usuarioId) ?? 0,
+      })),
+      historico: await this.historico({ usuarioId, limite: 20 }),
+    };
+  }
+
+  /**
+   * Calcula cada métrica distinta (critério + janela) usada pelas regras.
+   *
+   * @private
+   */
+  private async _calcularMetricas(
+    regras: RegraNivelVendedor[],
+    referencia: Date,
+    vendedorId?: string,
+  ): Promise<MetricasPorRegra> {
+    const metricas: MetricasPorRegra = new Map();
+
+    for (const regra of regras) {
+      const chave = this._chaveRegra(regra);
+      if (metricas.has(chave)) {
+        continue;
+      }
+
+      const inicio = new Date(referencia.getTime() - regra.janelaDias * 24 * 60 * 60 * 1000);
+      const porVendedor = new Map<string, number>();
+
+      if (regra.criterio === CriterioNivel.PONTOS_VALIDADOS) {
+        const somas = await this.prisma.envioVenda.groupBy({
+          by: ['vendedorId'],
+          where: { vendedorId, status: StatusEnvioVenda.VALIDADO, dataValidacao: { gte: inicio } },
+          _sum: { valorPontosReaisRecebido: true },
+        });
+        for (const soma of somas) {
+          porVendedor.set(soma.vendedorId, Number(soma._sum.valorPontosReaisRecebido ?? 0));
+        }
+      } else {
+        const contagens = await this.prisma.cartelaConcluida.groupBy({
+          by: ['vendedorId'],
+          where: { vendedorId, dataConclusao: { gte: inicio } },
+          _count: { _all: true },
+        });
+        for (const contagem of contagens) {
+          porVendedor.set(contagem.vendedorId, contagem._count._all);
+        }
+      }
+
+      metricas.set(chave, porVendedor);
+    }
+
+    return metricas;
+  }
+
+  /**
+   * Maior nível cuja regra o vendedor atinge (BRONZE se nenhuma).
+   *
+   * @private
+   */
+  private _nivelAtingido(regras: RegraNivelVendedor[], metricas: MetricasPorRegra, vendedorId: string) {
+    let nivel: NivelVendedor = NivelVendedor.BRONZE;
+
+    for (const regra of regras) {
+      const valor = metricas.get(this._chaveRegra(regra))?.get(vendedorId) ?? 0;
+      if (valor >= Number(regra.valorMinimo) && ORDEM_NIVEIS.indexOf(regra.nivel) > ORDEM_NIVEIS.indexOf(nivel)) {
+        nivel = regra.nivel;
+      }
+    }
+
+    return nivel;
+  }
+
+  /**
+   * Métricas do vendedor gravadas no histórico ({"CRITERIO:janela": valor}).
+   *
+   * @private
+   */
+  private _metricasDoVendedor(metricas: MetricasPorRegra, vendedorId: string): Record<string, number> {
+    const resultado: Record<string, number> = {};
+    for (const [chave, porVendedor] of metricas) {
+      resultado[chave] = porVendedor.get(vendedorId) ?? 0;
+    }
+    return resultado;
+  }
+
+  private _chaveRegra(regra: Pick<RegraNivelVendedor, 'criterio' | 'janelaDias'>) {
+    return `${regra.criterio}:${regra.janelaDias}`;
+  }
+}
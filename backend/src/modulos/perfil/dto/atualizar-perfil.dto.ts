@@ -5,7 +5,11 @@ import {
   Matches,
   IsObject,
   IsDateString,
+  IsEnum,
+  MaxLength,
 } from 'class-validator';
+import { TipoChavePix } from '@prisma/client';
+import { TAMANHO_MAXIMO_CHAVE_PIX } from '../helpers/chave-pix.helper';
 
 /**
  * ====================================================================
@@ -17,7 +21,8 @@ import {
  * Regras:
  * - Todo campo é opcional, mas ao menos um deve ser enviado.
  * - Não permite alteração de email, papel ou status (campos restritos).
- * - Campos validados: nome, cpf, whatsapp, mapeamentoPlanilhaSalvo.
+ * - Campos validados: nome, cpf, whatsapp, chave PIX, mapeamentoPlanilhaSalvo.
+ * - tipoChavePix e chavePix são enviados juntos (null nos dois remove a chave).
  *
  * Adicionado na Versão 4.1 (Sprint 17.2 - Tarefa 40.1):
  * - Campo mapeamentoPlanilhaSalvo para persistir preferências de mapeamento
@@ -102,6 +107,36 @@ export class AtualizarPerfilDto {
   @IsOptional()
   dataNascimento?: string;
 
+  /**
+   * Tipo da chave PIX para recebimento dos pagamentos.
+   *
+   * Validações:
+   * - CPF, EMAIL, TELEFONE ou ALEATORIA.
+   * - Enviado junto com chavePix; null nos dois remove a chave.
+   *
+   * @example "TELEFONE"
+   */
+  @IsEnum(TipoChavePix, {
+    message: 'O tipo da chave PIX deve ser CPF, EMAIL, TELEFONE ou ALEATORIA.',
+  })
+  @IsOptional()
+  tipoChavePix?: TipoChavePix | null;
+
+  /**
+   * Chave PIX para recebimento dos pagamentos.
+   *
+   * Validações:
+   * - Conferida conforme tipoChavePix (dígitos do CPF, formato do e-mail,
+   *   telefone brasileiro ou UUID da chave aleatória).
+   * - Gravada normalizada (ex: telefone como +5511987654321).
+   *
+   * @example "(11) 98765-4321"
+   */
+  @IsString({ message: 'A chave PIX deve ser uma string.' })
+  @MaxLength(TAMANHO_MAXIMO_CHAVE_PIX + 10, { message: 'A chave PIX é longa demais.' })
+  @IsOptional()
+  chavePix?: string | null;
+
   /**
    * Preferências de mapeamento de colunas da planilha salvas pelo Admin.
    *
@@ -0,0 +1,56 @@
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * ============================================================================
+ * DTO: CONSULTAR EXTRATO
+ * ============================================================================
+ *
+ * Uso:
+ * - Endpoint: GET /api/perfil/extrato
+ * - Papel: VENDEDOR, GERENTE
+ * - Query: ?pagina=1&porPagina=20&dataInicio=2025-11-01&dataFim=2025-11-30
+ *
+ * @module PerfilModule
+ * ============================================================================
+ */
+export class ConsultarExtratoDto {
+  /**
+   * Página atual (mínimo: 1).
+   * Regra de negócio: default = 1 (aplicado no service).
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { message: 'A página deve ser um número inteiro maior ou igual a 1.' })
+  pagina?: number;
+
+  /**
+   * Quantidade de lançamentos por página (1 a 100).
+   * Regra de negócio: default = 20 (aplicado no service).
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1, { message: 'A quantidade por página deve ser um número inteiro maior ou igual a 1.' })
+  @Max(100, { message: 'A quantidade por página deve ser no máximo 100.' })
+  porPagina?: number;
+
+  /**
+   * Início do período (inclusive). Data sem hora = início do dia.
+   *
+   * @example '2025-11-01'
+   */
+  @IsOptional()
+  @IsDateString({}, { message: 'A data inicial deve ser uma data válida (AAAA-MM-DD).' })
+  dataInicio?: string;
+
+  /**
+   * Fim do período (inclusive). Data sem hora = fim do dia.
+   *
+   * @example '2025-11-30'
+   */
+  @IsOptional()
+  @IsDateString({}, { message: 'A data final deve ser uma data válida (AAAA-MM-DD).' })
+  dataFim?: string;
+}
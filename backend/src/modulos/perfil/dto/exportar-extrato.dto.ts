@@ -0,0 +1,48 @@
+import { IsDateString, IsIn, IsOptional } from 'class-validator';
+
+/**
+ * Formatos de download do extrato
+ */
+export const FORMATOS_EXTRATO = ['pdf', 'xlsx'] as const;
+
+export type FormatoExtrato = (typeof FORMATOS_EXTRATO)[number];
+
+/**
+ * ============================================================================
+ * DTO: EXPORTAR EXTRATO
+ * ============================================================================
+ *
+ * Uso:
+ * - Endpoint: GET /api/perfil/extrato/exportar
+ * - Papel: VENDEDOR, GERENTE
+ * - Query: ?formato=pdf&dataInicio=2025-11-01&dataFim=2025-11-30
+ *
+ * @module PerfilModule
+ * ============================================================================
+ */
+export class ExportarExtratoDto {
+  /**
+   * Formato do arquivo (padrão: pdf).
+   */
+  @IsOptional()
+  @IsIn(FORMATOS_EXTRATO, { message: 'O formato deve ser pdf ou xlsx.' })
+  formato?: FormatoExtrato;
+
+  /**
+   * Início do período (inclusive). Data sem hora = início do dia.
+   *
+   * @example '2025-11-01'
+   */
+  @IsOptional()
+  @IsDateString({}, { message: 'A data inicial deve ser uma data válida (AAAA-MM-DD).' })
+  dataInicio?: string;
+
+  /**
+   * Fim do período (inclusive). Data sem hora = fim do dia.
+   *
+   * @example '2025-11-30'
+   */
+  @IsOptional()
+  @IsDateString({}, { message: 'A data final deve ser uma data válida (AAAA-MM-DD).' })
+  dataFim?: string;
+}
@@ -0,0 +1,247 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as ExcelJS from 'exceljs';
+import { ExtratoService } from './extrato.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    lancamentoSaldo: {
+        count: jest.fn(),
+        findMany: jest.fn(),
+        aggregate: jest.fn(),
+    },
+    envioVenda: {
+        findMany: jest.fn(),
+    },
+    campanha: {
+        findMany: jest.fn(),
+    },
+    usuario: {
+        findUnique: jest.fn(),
+    },
+};
+
+const usuarioId = 'user-1';
+
+const lancamento = (id: string, criadoEm: string, dados: Record<string, unknown>) => ({
+    id,
+    usuarioId,
+    criadoEm: new Date(criadoEm),
+    descricao: `Lançamento ${id}`,
+    valor: 0,
+    valorReservado: 0,
+    campanhaId: null,
+    numeroCartela: null,
+    numeroLote: null,
+    enviosIds: null,
+    ...dados,
+});
+
+// Crédito de R$ 150, reserva de R$ 100 para o lote e pagamento do lote
+const credito = lancamento('l1', '2025-01-10T12:00:00Z', {
+    tipo: 'CREDITO_CARTELA',
+    valor: 150,
+    campanhaId: 'campanha-1',
+    numeroCartela: 1,
+    enviosIds: ['envio-1'],
+});
+const reserva = lancamento('l2', '2025-01-20T12:00:00Z', {
+    tipo: 'RESERVA_LOTE',
+    valor: -100,
+    valorReservado: 100,
+    numeroLote: 'LOTE-2025-01-001',
+});
+const pagamento = lancamento('l3', '2025-01-25T12:00:00Z', {
+    tipo: 'PAGAMENTO',
+    valorReservado: -100,
+    numeroLote: 'LOTE-2025-01-001',
+});
+
+const soma = (valor: number, valorReservado = 0) => ({ _sum: { valor, valorReservado } });
+
+/**
+ * Agregações do extrato conforme o filtro: saldo até um lançamento (OR),
+ * saldo anterior ao período (lt), créditos (gt), débitos (lt) e reservado
+ */
+const agregacoes = (valores: {
+    saldoAte?: ReturnType<typeof soma>;
+    anterior?: ReturnType<typeof soma>;
+    creditos?: number;
+    debitos?: number;
+    reservado?: number;
+}) =>
+    mockPrismaService.lancamentoSaldo.aggregate.mockImplementation(async ({ where }) => {
+        if (where.OR) return valores.saldoAte ?? soma(0);
+        if (where.criadoEm?.lt) return valores.anterior ?? soma(0);
+        if (where.valor?.gt !== undefined) return soma(valores.creditos ?? 0);
+        if (where.valor?.lt !== undefined) return soma(valores.debitos ?? 0);
+        return soma(0, valores.reservado ?? 0);
+    });
+
+describe('ExtratoService', () => {
+    let service: ExtratoService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ExtratoService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<ExtratoService>(ExtratoService);
+        jest.clearAllMocks();
+
+        mockPrismaService.envioVenda.findMany.mockResolvedValue([
+            {
+                id: 'envio-1',
+                numeroPedido: 'PED-001',
+                valorPontosReaisRecebido: 100,
+                multiplicadorAplicado: 1.5,
+                valorFinalComEvento: 150,
+                vendedor: { nome: 'Ana' },
+            },
+        ]);
+        mockPrismaService.campanha.findMany.mockResolvedValue([{ id: 'campanha-1', titulo: 'Campanha de Verão' }]);
+        mockPrismaService.usuario.findUnique.mockResolvedValue({ nome: 'Ana', papel: 'VENDEDOR' });
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('extrato', () => {
+        it('should walk the running balance back from the most recent entry of the page', async () => {
+            mockPrismaService.lancamentoSaldo.count.mockResolvedValue(3);
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([pagamento, reserva, credito]);
+            agregacoes({ saldoAte: soma(50, 0), creditos: 150, debitos: -100 });
+
+            const resultado = await service.extrato(usuarioId, {});
+
+            expect(resultado.lancamentos.map((l) => [l.id, l.saldoApos, l.reservadoApos])).toEqual([
+                ['l3', 50, 0],
+                ['l2', 50, 100],
+                ['l1', 150, 0],
+            ]);
+            expect(mockPrismaService.lancamentoSaldo.aggregate).toHaveBeenCalledWith({
+                where: {
+                    usuarioId,
+                    OR: [
+                        { criadoEm: { lt: pagamento.criadoEm } },
+                        { criadoEm: pagamento.criadoEm, id: { lte: 'l3' } },
+                    ],
+                },
+                _sum: { valor: true, valorReservado: true },
+            });
+        });
+
+        it('should carry the balance of entries from earlier pages', async () => {
+            mockPrismaService.lancamentoSaldo.count.mockResolvedValue(3);
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([credito]);
+            agregacoes({ saldoAte: soma(150.1, 0) });
+
+            const resultado = await service.extrato(usuarioId, { pagina: 3, porPagina: 1 });
+
+            expect(mockPrismaService.lancamentoSaldo.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ orderBy: [{ criadoEm: 'desc' }, { id: 'desc' }], skip: 2, take: 1 }),
+            );
+            expect(resultado.lancamentos[0].saldoApos).toBe(150.1);
+            expect(resultado.paginacao).toEqual({ pagina: 3, porPagina: 1, total: 3, totalPaginas: 3 });
+        });
+
+        it('should detail the campaign and the orders behind each credit', async () => {
+            mockPrismaService.lancamentoSaldo.count.mockResolvedValue(1);
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([credito]);
+            agregacoes({ saldoAte: soma(150) });
+
+            const resultado = await service.extrato(usuarioId, {});
+
+            expect(resultado.lancamentos[0]).toEqual(
+                expect.objectContaining({
+                    campanhaTitulo: 'Campanha de Verão',
+                    numeroCartela: 1,
+                    envios: [
+                        {
+                            id: 'envio-1',
+                            numeroPedido: 'PED-001',
+                            vendedorNome: 'Ana',
+                            valorBase: 100,
+                            multiplicador: 1.5,
+                            valorFinal: 150,
+                        },
+                    ],
+                }),
+            );
+        });
+
+        it('should summarize the period starting from the balance before it', async () => {
+            mockPrismaService.lancamentoSaldo.count.mockResolvedValue(2);
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([pagamento, reserva]);
+            agregacoes({ saldoAte: soma(50), anterior: soma(150, 0), debitos: -100, reservado: 0 });
+
+            const resultado = await service.extrato(usuarioId, { dataInicio: '2025-01-15', dataFim: '2025-01-31' });
+
+            expect(resultado.resumo).toEqual({
+                saldoInicial: 150,
+                reservadoInicial: 0,
+                creditos: 0,
+                debitos: -100,
+                saldoFinal: 50,
+                reservadoFinal: 0,
+            });
+            // Datas sem hora no horário de Brasília
+            expect(resultado.periodo).toEqual({
+                dataInicio: new Date('2025-01-15T03:00:00.000Z'),
+                dataFim: new Date('2025-02-01T02:59:59.999Z'),
+            });
+        });
+
+        it('should reject a start date after the end date', async () => {
+            await expect(
+                service.extrato(usuarioId, { dataInicio: '2025-02-01', dataFim: '2025-01-01' }),
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('exportar', () => {
+        it('should accumulate the running balance in chronological order from the opening balance', async () => {
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([credito, reserva, pagamento]);
+            agregacoes({ anterior: soma(20, 5), creditos: 150, debitos: -100, reservado: 0 });
+
+            const resultado = await service.exportar(usuarioId, { formato: 'xlsx', dataInicio: '2025-01-01' } as any);
+
+            expect(resultado.nomeArquivo).toBe('extrato-2025-01-01.xlsx');
+
+            const workbook = new ExcelJS.Workbook();
+            await workbook.xlsx.load(resultado.conteudo as any);
+            const linhas: (string | number)[][] = [];
+            workbook.getWorksheet('Extrato')!.eachRow((row) => {
+                const valores = row.values as (string | number)[];
+                if (['Crédito de cartela', 'Reserva para pagamento', 'Pagamento'].includes(valores[2] as string)) {
+                    linhas.push([valores[2], valores[10], valores[11]]);
+                }
+            });
+
+            expect(linhas).toEqual([
+                ['Crédito de cartela', 170, 5],
+                ['Reserva para pagamento', 70, 105],
+                ['Pagamento', 70, 5],
+            ]);
+        });
+
+        it('should refuse periods with too many entries', async () => {
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue(new Array(5001).fill(credito));
+            agregacoes({});
+
+            await expect(service.exportar(usuarioId, { formato: 'pdf' } as any)).rejects.toThrow(
+                'O período tem mais de 5000 lançamentos',
+            );
+        });
+
+        it('should throw NotFoundException if the user does not exist', async () => {
+            mockPrismaService.usuario.findUnique.mockResolvedValue(null);
+
+            await expect(service.exportar(usuarioId, { formato: 'pdf' } as any)).rejects.toThrow(NotFoundException);
+        });
+    });
+});
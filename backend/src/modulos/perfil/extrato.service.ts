@@ -0,0 +1,549 @@
+/**
+ * ============================================================================
+ * EXTRATO SERVICE - Extrato Pessoal de Saldo (Vendedor e Gerente)
+ * ============================================================================
+ *
+ * Descrição:
+ * Extrato do usuário autenticado montado a partir do livro-razão
+ * (LancamentoSaldo): créditos de cartela e bônus de evento com o
+ * multiplicador de cada envio, comissões do gerente por venda do vendedor
+ * subordinado, reservas, pagamentos (com o número do lote), devoluções,
+ * reversões, estornos, expirações e ajustes.
+ *
+ * Saldo corrente: cada linha traz o saldo disponível e o reservado logo
+ * após o lançamento (soma de todos os lançamentos até ele, inclusive os
+ * anteriores ao período consultado).
+ *
+ * Datas sem hora são interpretadas no horário de Brasília (início do dia
+ * para a data inicial, fim do dia para a final).
+ *
+ * @module PerfilModule
+ * ============================================================================
+ */
+
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { LancamentoSaldo, Prisma, TipoLancamentoSaldo } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { PrismaService } from '../../prisma/prisma.service';
+import { arredondarCentavos } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { ConsultarExtratoDto } from './dto/consultar-extrato.dto';
+import { ExportarExtratoDto } from './dto/exportar-extrato.dto';
+import { gerarPdfTabela } from './helpers/pdf-tabela.helper';
+
+/**
+ * Máximo de lançamentos em um arquivo exportado
+ */
+const LIMITE_EXPORTACAO = 5000;
+
+const FUSO_BRASILIA = 'America/Sao_Paulo';
+
+/**
+ * Rótulo de cada tipo de lançamento no extrato
+ */
+export const ROTULOS_LANCAMENTO: Record<TipoLancamentoSaldo, string> = {
+  SALDO_INICIAL: 'Saldo inicial',
+  CREDITO_CARTELA: 'Crédito de cartela',
+  BONUS_EVENTO: 'Bônus de evento',
+  COMISSAO_GERENTE: 'Comissão',
+  BONUS_EQUIPE: 'Bônus de equipe',
+  RESERVA_LOTE: 'Reserva para pagamento',
+  RESERVA_RESGATE: 'Reserva de resgate',
+  PAGAMENTO: 'Pagamento',
+  CANCELAMENTO_RESERVA: 'Reserva devolvida',
+  REVERSAO_VALIDACAO: 'Reversão de validação',
+  ESTORNO_ENVIO: 'Estorno de envio',
+  EXPIRACAO_PONTOS: 'Expiração de pontos',
+  AJUSTE_MANUAL: 'Ajuste manual',
+  AJUSTE_RECALCULO: 'Ajuste de recálculo',
+};
+
+/**
+ * Lançamentos cujos envios pertencem a vendedores da equipe (o extrato
+ * mostra de quem é cada venda)
+ */
+const TIPOS_COMISSAO: TipoLancamentoSaldo[] = [TipoLancamentoSaldo.COMISSAO_GERENTE];
+
+/**
+ * Envio que compõe um crédito, comissão ou estorno
+ */
+export interface EnvioExtrato {
+  id: string;
+  numeroPedido: string;
+  vendedorNome: string;
+  valorBase: number | null;
+  multiplicador: number;
+  valorFinal: number | null;
+}
+
+/**
+ * Linha do extrato
+ */
+export interface LancamentoExtrato {
+  id: string;
+  criadoEm: Date;
+  tipo: TipoLancamentoSaldo;
+  descricao: string;
+  /** Efeito no saldo disponível */
+  valor: number;
+  /** Efeito no saldo reservado */
+  valorReservado: number;
+  /** Saldo disponível logo após o lançamento */
+  saldoApos: number;
+  /** Saldo reservado logo após o lançamento */
+  reservadoApos: number;
+  campanhaTitulo: string | null;
+  numeroCartela: number | null;
+  numeroLote: string | null;
+  envios: EnvioExtrato[];
+}
+
+/**
+ * Totais do período
+ */
+export interface ResumoExtrato {
+  saldoInicial: number;
+  reservadoInicial: number;
+  creditos: number;
+  debitos: number;
+  saldoFinal: number;
+  reservadoFinal: number;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: ExtratoService
+ * ============================================================================
+ */
+@Injectable()
+export class ExtratoService {
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: extrato
+   * ==========================================================================
+   *
+   * Página do extrato (mais recentes primeiro) com saldo corrente e os totais
+   * do período.
+   *
+   * @param usuarioId - ID do usuário (req.user.id)
+   * @param dto - Paginação e período
+   * @throws BadRequestException se a data inicial for posterior à final
+   */
+  async extrato(usuarioId: string, dto: ConsultarExtratoDto) {
+    const pagina = dto.pagina ?? 1;
+    const porPagina = dto.porPagina ?? 20;
+    const periodo = this._periodo(dto);
+    const where: Prisma.LancamentoSaldoWhereInput = { usuarioId, criadoEm: periodo };
+
+    const [total, lancamentos, resumo] = await Promise.all([
+      this.prisma.lancamentoSaldo.count({ where }),
+      this.prisma.lancamentoSaldo.findMany({
+        where,
+        orderBy: [{ criadoEm: 'desc' }, { id: 'desc' }],
+        skip: (pagina - 1) * porPagina,
+        take: porPagina,
+      }),
+      this._resumo(usuarioId, periodo),
+    ]);
+
+    // Saldo após o lançamento mais recente da página; os demais são obtidos
+    // desfazendo os lançamentos um a um
+    const saldo = lancamentos.length
+      ? await this._saldoAte(usuarioId, lancamentos[0])
+      : { saldoPontos: 0, saldoReservado: 0 };
+    const detalhar = await this._detalhamento(lancamentos);
+
+    const linhas = lancamentos.map((lancamento) => {
+      const linha = detalhar(lancamento, saldo.saldoPontos, saldo.saldoReservado);
+      saldo.saldoPontos = arredondarCentavos(saldo.saldoPontos - linha.valor);
+      saldo.saldoReservado = arredondarCentavos(saldo.saldoReservado - linha.valorReservado);
+      return linha;
+    });
+
+    return {
+      periodo: { dataInicio: periodo?.gte ?? null, dataFim: periodo?.lte ?? null },
+      resumo,
+      lancamentos: linhas,
+      paginacao: {
+        pagina,
+        porPagina,
+        total,
+        totalPaginas: Math.ceil(total / porPagina),
+      },
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: exportar
+   * ==========================================================================
+   *
+   * Extrato completo do período em ordem cronológica, em PDF ou XLSX.
+   *
+   * @param usuarioId - ID do usuário (req.user.id)
+   * @param dto - Formato e período
+   * @throws NotFoundException se o usuário não existir
+   * @throws BadRequestException se o período tiver lançamentos demais
+   */
+  async exportar(usuarioId: string, dto: ExportarExtratoDto) {
+    const usuario = await this.prisma.usuario.findUnique({
+      where: { id: usuarioId },
+      select: { nome: true, papel: true },
+    });
+
+    if (!usuario) {
+      throw new NotFoundException('Usuário não encontrado.');
+    }
+
+    const periodo = this._periodo(dto);
+    const [lancamentos, resumo] = await Promise.all([
+      this.prisma.lancamentoSaldo.findMany({
+        where: { usuarioId, criadoEm: periodo },
+        orderBy: [{ criadoEm: 'asc' }, { id: 'asc' }],
+        take: LIMITE_EXPORTACAO + 1,
+      }),
+      this._resumo(usuarioId, periodo),
+    ]);
+
+    if (lancamentos.length > LIMITE_EXPORTACAO) {
+      throw new BadRequestException(
+        `O período tem mais de ${LIMITE_EXPORTACAO} lançamentos. Reduza o intervalo de datas.`,
+      );
+    }
+
+    const detalhar = await this._detalhamento(lancamentos);
+    let saldoPontos = resumo.saldoInicial;
+    let saldoReservado = resumo.reservadoInicial;
+    const linhas = lancamentos.map((lancamento) => {
+      saldoPontos = arredondarCentavos(saldoPontos + Number(lancamento.valor));
+      saldoReservado = arredondarCentavos(saldoReservado + Number(lancamento.valorReservado));
+      return detalhar(lancamento, saldoPontos, saldoReservado);
+    });
+
+    const rotuloPeriodo = `${periodo?.gte ? this._data(periodo.gte) : 'início'} a ${this._data(periodo?.lte ?? new Date())}`;
+    const cabecalho = [
+      `${usuario.nome} (${usuario.papel === 'GERENTE' ? 'Gerente' : 'Vendedor'})`,
+      `Período: ${rotuloPeriodo}`,
+      `Emitido em ${this._dataHora(new Date())}`,
+    ];
+    const sufixoArquivo = [dto.dataInicio, dto.dataFim].filter(Boolean).join('_a_') || 'completo';
+
+    if (dto.formato === 'xlsx') {
+      return {
+        conteudo: await this._planilha(cabecalho, linhas, resumo),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        nomeArquivo: `extrato-${sufixoArquivo}.xlsx`,
+      };
+    }
+
+    return {
+      conteudo: gerarPdfTabela({
+        titulo: 'Extrato de saldo',
+        cabecalho,
+        colunas: [
+          { titulo: 'Data', largura: 62 },
+          { titulo: 'Tipo', largura: 88 },
+          { titulo: 'Descrição', largura: 175 },
+          { titulo: 'Lote', largura: 50 },
+          { titulo: 'Valor', largura: 45, alinhamento: 'direita' },
+          { titulo: 'Reservado', largura: 45, alinhamento: 'direita' },
+          { titulo: 'Saldo', largura: 50, alinhamento: 'direita' },
+        ],
+        linhas: linhas.map((linha) => ({
+          celulas: [
+            this._dataHora(linha.criadoEm),
+            ROTULOS_LANCAMENTO[linha.tipo],
+            linha.descricao,
+            linha.numeroLote ?? '',
+            this._valor(linha.valor),
+            linha.valorReservado ? this._valor(linha.valorReservado) : '',
+            this._valor(linha.saldoApos),
+          ],
+          detalhe: this._detalheEnvios(linha) || undefined,
+        })),
+        rodape: [
+          `Saldo inicial: R$ ${this._valor(resumo.saldoInicial)}   Créditos: R$ ${this._valor(resumo.creditos)}   Débitos: R$ ${this._valor(resumo.debitos)}`,
+          `Saldo final: R$ ${this._valor(resumo.saldoFinal)}   Reservado para pagamento: R$ ${this._valor(resumo.reservadoFinal)}`,
+        ],
+      }),
+      contentType: 'application/pdf',
+      nomeArquivo: `extrato-${sufixoArquivo}.pdf`,
+    };
+  }
+
+  /**
+   * Saldos antes do período e totais dentro dele.
+   *
+   * @private
+   */
+  private async _resumo(usuarioId: string, periodo?: Prisma.DateTimeFilter): Promise<ResumoExtrato> {
+    const doPeriodo: Prisma.LancamentoSaldoWhereInput = { usuarioId, criadoEm: periodo };
+
+    const [anterior, creditos, debitos, reservado] = await Promise.all([
+      periodo?.gte
+        ? this.prisma.lancamentoSaldo.aggregate({
+            where: { usuarioId, criadoEm: { lt: periodo.gte } },
+            _sum: { valor: true, valorReservado: true },
+          })
+        : null,
+      this.prisma.lancamentoSaldo.aggregate({ where: { ...doPeriodo, valor: { gt: 0 } }, _sum: { valor: true } }),
+      this.prisma.lancamentoSaldo.aggregate({ where: { ...doPeriodo, valor: { lt: 0 } }, _sum: { valor: true } }),
+      this.prisma.lancamentoSaldo.aggregate({ where: doPeriodo, _sum: { valorReservado: true } }),
+    ]);
+
+    const saldoInicial = Number(anterior?._sum.valor ?? 0);
+    const reservadoInicial = Number(anterior?._sum.valorReservado ?? 0);
+    const totalCreditos = Number(creditos._sum.valor ?? 0);
+    const totalDebitos = Number(debitos._sum.valor ?? 0);
+
+    return {
+      saldoInicial,
+      reservadoInicial,
+      creditos: totalCreditos,
+      debitos: totalDebitos,
+      saldoFinal: arredondarCentavos(saldoInicial + totalCreditos + totalDebitos),
+      reservadoFinal: arredondarCentavos(reservadoInicial + Number(reservado._sum.valorReservado ?? 0)),
+    };
+  }
+
+  /**
+   * Saldos logo após o lançamento informado (desempate por ID, na mesma
+   * ordem da listagem).
+   *
+   * @private
+   */
+  private async _saldoAte(usuarioId: string, referencia: Pick<LancamentoSaldo, 'id' | 'criadoEm'>) {
+    const soma = await this.prisma.lancamentoSaldo.aggregate({
+      where: {
+        usuarioId,
+        OR: [
+          { criadoEm: { lt: referencia.criadoEm } },
+          { criadoEm: referencia.criadoEm, id: { lte: referencia.id } },
+        ],
+      },
+      _sum: { valor: true, valorReservado: true },
+    });
+
+    return {
+      saldoPontos: Number(soma._sum.valor ?? 0),
+      saldoReservado: Number(soma._sum.valorReservado ?? 0),
+    };
+  }
+
+  /**
+   * Carrega campanhas e envios referenciados pelos lançamentos e devolve a
+   * função que monta cada linha do extrato.
+   *
+   * @private
+   */
+  private async _detalhamento(lancamentos: LancamentoSaldo[]) {
+    const enviosIds = [...new Set(lancamentos.flatMap((l) => this._enviosIds(l)))];
+    const campanhasIds = [
+      ...new Set(lancamentos.map((l) => l.campanhaId).filter((id): id is string => !!id)),
+    ];
+
+    const [envios, campanhas] = await Promise.all([
+      this.prisma.envioVenda.findMany({
+        where: { id: { in: enviosIds } },
+        select: {
+          id: true,
+          numeroPedido: true,
+          valorPontosReaisRecebido: true,
+          multiplicadorAplicado: true,
+          valorFinalComEvento: true,
+          vendedor: { select: { nome: true } },
+        },
+      }),
+      this.prisma.campanha.findMany({
+        where: { id: { in: campanhasIds } },
+        select: { id: true, titulo: true },
+      }),
+    ]);
+
+    const envioPorId = new Map<string, EnvioExtrato>(
+      envios.map((envio) => [
+        envio.id,
+        {
+          id: envio.id,
+          numeroPedido: envio.numeroPedido,
+          vendedorNome: envio.vendedor.nome,
+          valorBase: envio.valorPontosReaisRecebido === null ? null : Number(envio.valorPontosReaisRecebido),
+          multiplicador: Number(envio.multiplicadorAplicado),
+          valorFinal: envio.valorFinalComEvento === null ? null : Number(envio.valorFinalComEvento),
+        },
+      ]),
+    );
+    const campanhaPorId = new Map(campanhas.map((c) => [c.id, c.titulo]));
+
+    return (lancamento: LancamentoSaldo, saldoApos: number, reservadoApos: number): LancamentoExtrato => ({
+      id: lancamento.id,
+      criadoEm: lancamento.criadoEm,
+      tipo: lancamento.tipo,
+      descricao: lancamento.descricao,
+      valor: Number(lancamento.valor),
+      valorReservado: Number(lancamento.valorReservado),
+      saldoApos,
+      reservadoApos,
+      // Campanha removida depois do lançamento: a descrição mantém o título
+      campanhaTitulo: lancamento.campanhaId ? campanhaPorId.get(lancamento.campanhaId) ?? null : null,
+      numeroCartela: lancamento.numeroCartela,
+      numeroLote: lancamento.numeroLote,
+      envios: this._enviosIds(lancamento)
+        .map((id) => envioPorId.get(id))
+        .filter((envio): envio is EnvioExtrato => !!envio),
+    });
+  }
+
+  /**
+   * Planilha do extrato: cabeçalho, uma linha por lançamento e totais.
+   *
+   * @private
+   */
+  private async _planilha(cabecalho: string[], linhas: LancamentoExtrato[], resumo: ResumoExtrato) {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Extrato');
+
+    worksheet.columns = [
+      { key: 'data', width: 18 },
+      { key: 'tipo', width: 22 },
+      { key: 'descricao', width: 60 },
+      { key: 'campanha', width: 28 },
+      { key: 'cartela', width: 9 },
+      { key: 'lote', width: 16 },
+      { key: 'pedidos', width: 50 },
+      { key: 'valor', width: 14 },
+      { key: 'reservado', width: 14 },
+      { key: 'saldo', width: 14 },
+      { key: 'saldoReservado', width: 16 },
+    ];
+
+    worksheet.addRow(['Extrato de saldo']).font = { bold: true, size: 14 };
+    for (const linha of cabecalho) {
+      worksheet.addRow([linha]);
+    }
+    worksheet.addRow([]);
+
+    const titulos = worksheet.addRow([
+      'Data',
+      'Tipo',
+      'Descrição',
+      'Campanha',
+      'Cartela',
+      'Lote',
+      'Pedidos',
+      'Valor (R$)',
+      'Reservado (R$)',
+      'Saldo (R$)',
+      'Saldo reservado (R$)',
+    ]);
+    titulos.font = { bold: true };
+    titulos.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFD9EAD3' } };
+
+    for (const linha of linhas) {
+      worksheet.addRow({
+        data: this._dataHora(linha.criadoEm),
+        tipo: ROTULOS_LANCAMENTO[linha.tipo],
+        descricao: linha.descricao,
+        campanha: linha.campanhaTitulo ?? '',
+        cartela: linha.numeroCartela ?? '',
+        lote: linha.numeroLote ?? '',
+        pedidos: this._detalheEnvios(linha),
+        valor: linha.valor,
+        reservado: linha.valorReservado,
+        saldo: linha.saldoApos,
+        saldoReservado: linha.reservadoApos,
+      });
+    }
+
+    worksheet.addRow([]);
+    for (const [rotulo, valor] of [
+      ['Saldo inicial', resumo.saldoInicial],
+      ['Créditos', resumo.creditos],
+      ['Débitos', resumo.debitos],
+      ['Saldo final', resumo.saldoFinal],
+      ['Reservado para pagamento', resumo.reservadoFinal],
+    ] as const) {
+      const total = worksheet.addRow({ descricao: rotulo, valor });
+      total.font = { bold: true };
+    }
+
+    for (const coluna of ['valor', 'reservado', 'saldo', 'saldoReservado']) {
+      worksheet.getColumn(coluna).numFmt = '#,##0.00';
+    }
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * Pedidos do lançamento: multiplicador de evento em créditos de vendedor,
+   * vendedor da venda em comissões de gerente.
+   *
+   * @private
+   */
+  private _detalheEnvios(linha: LancamentoExtrato): string {
+    const comissao = TIPOS_COMISSAO.includes(linha.tipo);
+    return linha.envios
+      .map((envio) => {
+        const multiplicador = !comissao && envio.multiplicador !== 1 ? ` (${envio.multiplicador}x)` : '';
+        const vendedor = comissao ? ` - ${envio.vendedorNome}` : '';
+        return `Pedido ${envio.numeroPedido}${multiplicador}${vendedor}`;
+      })
+      .join(', ');
+  }
+
+  /**
+   * IDs dos envios gravados no lançamento (JSON array de strings).
+   *
+   * @private
+   */
+  private _enviosIds(lancamento: Pick<LancamentoSaldo, 'enviosIds'>): string[] {
+    return Array.isArray(lancamento.enviosIds) ? (lancamento.enviosIds as string[]) : [];
+  }
+
+  /**
+   * Filtro de data do período (datas sem hora no horário de Brasília).
+   *
+   * @private
+   * @throws BadRequestException se a data inicial for posterior à final
+   */
+  private _periodo(dto: { dataInicio?: string; dataFim?: string }): Prisma.DateTimeFilter | undefined {
+    const semHora = /^\d{4}-\d{2}-\d{2}$/;
+    const inicio = dto.dataInicio
+      ? new Date(semHora.test(dto.dataInicio) ? `${dto.dataInicio}T00:00:00.000-03:00` : dto.dataInicio)
+      : undefined;
+    const fim = dto.dataFim
+      ? new Date(semHora.test(dto.dataFim) ? `${dto.dataFim}T23:59:59.999-03:00` : dto.dataFim)
+      : undefined;
+
+    if (inicio && fim && inicio > fim) {
+      throw new BadRequestException('A data inicial deve ser anterior à data final.');
+    }
+
+    if (!inicio && !fim) {
+      return undefined;
+    }
+
+    return { ...(inicio && { gte: inicio }), ...(fim && { lte: fim }) };
+  }
+
+  /** @private */
+  private _valor(valor: number): string {
+    return valor.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  }
+
+  /** @private */
+  private _data(data: Date | string): string {
+    return new Date(data).toLocaleDateString('pt-BR', { timeZone: FUSO_BRASILIA });
+  }
+
+  /** @private */
+  private _dataHora(data: Date): string {
+    return data.toLocaleString('pt-BR', { timeZone: FUSO_BRASILIA, dateStyle: 'short', timeStyle: 'short' });
+  }
+}
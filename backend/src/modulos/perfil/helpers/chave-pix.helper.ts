@@ -0,0 +1,100 @@
+/**
+ * ============================================================================
+ * CHAVE PIX HELPER - Validação e Normalização por Tipo
+ * ============================================================================
+ *
+ * Usado no cadastro da chave pelo próprio usuário (perfil) e na montagem do
+ * arquivo de remessa PIX do lote (financeiro), que deixa de fora usuários
+ * cuja chave gravada não é mais válida.
+ *
+ * Formatos normalizados (padrão do DICT do Banco Central):
+ * - CPF: 11 dígitos, com dígitos verificadores válidos
+ * - EMAIL: minúsculo, até 77 caracteres
+ * - TELEFONE: +55 + DDD + número (ex: +5511987654321)
+ * - ALEATORIA: UUID minúsculo com hífens (chave EVP)
+ *
+ * @module PerfilModule
+ * ============================================================================
+ */
+
+import { TipoChavePix } from '@prisma/client';
+
+/**
+ * Tamanho máximo de uma chave PIX (e-mail é o tipo mais longo)
+ */
+export const TAMANHO_MAXIMO_CHAVE_PIX = 77;
+
+const REGEX_EMAIL = /^[a-z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)+$/;
+const REGEX_UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * CPF com 11 dígitos e dígitos verificadores corretos.
+ */
+export function cpfValido(cpf: string): boolean {
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) {
+    return false;
+  }
+
+  const digitos = cpf.split('').map(Number);
+  const verificador = (quantidade: number) => {
+    const soma = digitos
+      .slice(0, quantidade)
+      .reduce((acc, digito, i) => acc + digito * (quantidade + 1 - i), 0);
+    const resto = (soma * 10) % 11;
+    return resto === 10 ? 0 : resto;
+  };
+
+  return verificador(9) === digitos[9] && verificador(10) === digitos[10];
+}
+
+/**
+ * Normaliza a chave PIX conforme o tipo.
+ *
+ * @returns Chave normalizada, ou null se inválida para o tipo
+ *
+ * @example
+ * normalizarChavePix(TipoChavePix.TELEFONE, '(11) 98765-4321'); // '+5511987654321'
+ * normalizarChavePix(TipoChavePix.CPF, '123.456.789-00');       // null (DV inválido)
+ */
+export function normalizarChavePix(
+  tipo: TipoChavePix | null | undefined,
+  chave: string | null | undefined,
+): string | null {
+  const valor = chave?.trim();
+  if (!tipo || !valor) {
+    return null;
+  }
+
+  switch (tipo) {
+    case TipoChavePix.CPF: {
+      const cpf = valor.replace(/[.\-\s]/g, '');
+      return cpfValido(cpf) ? cpf : null;
+    }
+
+    case TipoChavePix.EMAIL: {
+      const email = valor.toLowerCase();
+      return email.length <= TAMANHO_MAXIMO_CHAVE_PIX && REGEX_EMAIL.test(email) ? email : null;
+    }
+
+    case TipoChavePix.TELEFONE: {
+      if (/[^\d+()\-\s]/.test(valor)) {
+        return null;
+      }
+      let digitos = valor.replace(/\D/g, '');
+      // Sem DDI: DDD + número (10 ou 11 dígitos)
+      if (!valor.startsWith('+') && digitos.length <= 11) {
+        digitos = `55${digitos}`;
+      }
+      // Somente números brasileiros: 55 + DDD (11-99) + fixo (8) ou celular (9, iniciado em 9)
+      return /^55[1-9][1-9](?:9\d{8}|[2-8]\d{7})$/.test(digitos) ? `+${digitos}` : null;
+    }
+
+    case TipoChavePix.ALEATORIA: {
+      const uuid = valor.toLowerCase();
+      return REGEX_UUID.test(uuid) ? uuid : null;
+    }
+
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * ============================================================================
+ * PDF TABELA HELPER - Relatório Tabular em PDF (sem dependências)
+ * ============================================================================
+ *
+ * Gera um PDF A4 retrato com título, linhas de cabeçalho, uma tabela (com os
+ * títulos das colunas repetidos em cada página) e linhas de rodapé. Usado no
+ * download do extrato do usuário.
+ *
+ * Limitações:
+ * - Fontes padrão Helvetica/Helvetica-Bold com WinAnsiEncoding: caracteres
+ *   fora do Latin-1 (ex: emojis) são removidos
+ * - Células que não cabem na coluna são truncadas com "..."
+ *
+ * @module PerfilModule
+ * ============================================================================
+ */
+
+const LARGURA_PAGINA = 595;
+const ALTURA_PAGINA = 842;
+const MARGEM = 40;
+const TAMANHO_FONTE = 8;
+const TAMANHO_DETALHE = 7;
+const ALTURA_LINHA = 12;
+
+/**
+ * Largura média de um caractere Helvetica (em fração do tamanho da fonte),
+ * usada para truncar células e alinhar valores à direita
+ */
+const LARGURA_MEDIA_CARACTERE = 0.5;
+
+/**
+ * Coluna da tabela (larguras em pontos; a soma deve caber em 515)
+ */
+export interface ColunaPdf {
+  titulo: string;
+  largura: number;
+  alinhamento?: 'esquerda' | 'direita';
+}
+
+/**
+ * Linha da tabela, com texto complementar opcional abaixo (em cinza)
+ */
+export interface LinhaPdf {
+  celulas: string[];
+  detalhe?: string;
+}
+
+/**
+ * Conteúdo do documento
+ */
+export interface DocumentoPdfTabela {
+  titulo: string;
+  cabecalho: string[];
+  colunas: ColunaPdf[];
+  linhas: LinhaPdf[];
+  rodape?: string[];
+}
+
+/**
+ * Texto seguro para uma string literal do PDF (Latin-1, parênteses e barra
+ * invertida escapados).
+ */
+function textoPdf(texto: string): string {
+  return texto.replace(/[^\x20-\x7e\xa0-\xff]/g, '').replace(/[\\()]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Trunca o texto para caber na largura informada.
+ */
+function caber(texto: string, largura: number, tamanho: number): string {
+  const maximo = Math.floor(largura / (tamanho * LARGURA_MEDIA_CARACTERE));
+  return texto.length > maximo ? `${texto.slice(0, Math.max(maximo - 3, 0))}...` : texto;
+}
+
+/**
+ * Monta o PDF.
+ *
+ * @returns Conteúdo binário do arquivo
+ */
+export function gerarPdfTabela(documento: DocumentoPdfTabela): Buffer {
+  const paginas: string[][] = [];
+  let operacoes: string[] = [];
+  let y = 0;
+
+  const escrever = (x: number, texto: string, tamanho: number, negrito = false, cinza = false) => {
+    operacoes.push(
+      `BT ${cinza ? '0.4' : '0'} g /${negrito ? 'F2' : 'F1'} ${tamanho} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${textoPdf(texto)}) Tj ET`,
+    );
+  };
+
+  const linhaHorizontal = () => {
+    operacoes.push(`0.7 G 0.5 w ${MARGEM} ${y - 3} m ${LARGURA_PAGINA - MARGEM} ${y - 3} l S`);
+  };
+
+  const escreverCelulas = (celulas: string[], negrito: boolean) => {
+    let x = MARGEM;
+    documento.colunas.forEach((coluna, indice) => {
+      const texto = caber(celulas[indice] ?? '', coluna.largura - 4, TAMANHO_FONTE);
+      const deslocamento =
+        coluna.alinhamento === 'direita'
+          ? coluna.largura - 4 - texto.length * TAMANHO_FONTE * LARGURA_MEDIA_CARACTERE
+          : 0;
+      escrever(x + deslocamento, texto, TAMANHO_FONTE, negrito);
+      x += coluna.largura;
+    });
+  };
+
+  // Título e cabeçalho apenas na primeira página; títulos das colunas em todas
+  const novaPagina = () => {
+    operacoes = [];
+    paginas.push(operacoes);
+    y = ALTURA_PAGINA - MARGEM;
+    if (paginas.length === 1) {
+      escrever(MARGEM, documento.titulo, 14, true);
+      y -= 20;
+      for (const linha of documento.cabecalho) {
+        escrever(MARGEM, linha, 9);
+        y -= ALTURA_LINHA;
+      }
+      y -= 8;
+    }
+    escreverCelulas(
+      documento.colunas.map((c) => c.titulo),
+      true,
+    );
+    linhaHorizontal();
+    y -= ALTURA_LINHA + 2;
+  };
+
+  novaPagina();
+
+  for (const linha of documento.linhas) {
+    const altura = linha.detalhe ? ALTURA_LINHA * 2 : ALTURA_LINHA;
+    if (y - altura < MARGEM + ALTURA_LINHA) {
+      novaPagina();
+    }
+    escreverCelulas(linha.celulas, false);
+    y -= ALTURA_LINHA - 2;
+    if (linha.detalhe) {
+      escrever(
+        MARGEM + 8,
+        caber(linha.detalhe, LARGURA_PAGINA - 2 * MARGEM - 8, TAMANHO_DETALHE),
+        TAMANHO_DETALHE,
+        false,
+        true,
+      );
+      y -= ALTURA_LINHA - 2;
+    }
+    y -= 2;
+  }
+
+  if (documento.rodape?.length) {
+    if (y - ALTURA_LINHA * (documento.rodape.length + 1) < MARGEM) {
+      novaPagina();
+    }
+    linhaHorizontal();
+    y -= ALTURA_LINHA + 2;
+    for (const linha of documento.rodape) {
+      escrever(MARGEM, linha, 9, true);
+      y -= ALTURA_LINHA;
+    }
+  }
+
+  // Numeração das páginas
+  paginas.forEach((pagina, indice) => {
+    operacoes = pagina;
+    y = MARGEM / 2;
+    escrever(LARGURA_PAGINA - MARGEM - 60, `Página ${indice + 1} de ${paginas.length}`, TAMANHO_DETALHE, false, true);
+  });
+
+  return montarArquivo(paginas.map((pagina) => pagina.join('\n')));
+}
+
+/**
+ * Serializa os objetos do PDF: catálogo, árvore de páginas, duas fontes e,
+ * para cada página, o objeto da página e seu fluxo de conteúdo.
+ */
+function montarArquivo(conteudos: string[]): Buffer {
+  const objetos: string[] = [];
+  const idsPaginas = conteudos.map((_, indice) => 5 + indice * 2);
+
+  objetos.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objetos.push(`<< /Type /Pages /Kids [${idsPaginas.map((id) => `${id} 0 R`).join(' ')}] /Count ${conteudos.length} >>`);
+  objetos.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objetos.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  conteudos.forEach((conteudo, indice) => {
+    objetos.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${LARGURA_PAGINA} ${ALTURA_PAGINA}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${idsPaginas[indice] + 1} 0 R >>`,
+    );
+    objetos.push(`<< /Length ${Buffer.byteLength(conteudo, 'latin1')} >>\nstream\n${conteudo}\nendstream`);
+  });
+
+  let arquivo = '%PDF-1.4\n';
+  const deslocamentos: number[] = [];
+  objetos.forEach((objeto, indice) => {
+    deslocamentos.push(Buffer.byteLength(arquivo, 'latin1'));
+    arquivo += `${indice + 1} 0 obj\n${objeto}\nendobj\n`;
+  });
+
+  const inicioXref = Buffer.byteLength(arquivo, 'latin1');
+  arquivo += `xref\n0 ${objetos.length + 1}\n0000000000 65535 f \n`;
+  arquivo += deslocamentos.map((d) => `${String(d).padStart(10, '0')} 00000 n \n`).join('');
+  arquivo += `trailer\n<< /Size ${objetos.length + 1} /Root 1 0 R >>\nstartxref\n${inicioXref}\n%%EOF\n`;
+
+  return Buffer.from(arquivo, 'latin1');
+}
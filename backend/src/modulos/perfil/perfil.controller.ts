@@ -1,16 +1,27 @@
 import {
   Controller,
   Get,
+  Post,
   Patch,
+  Delete,
   Body,
+  Param,
+  Query,
   Req,
+  Res,
   UseGuards,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { PerfilService } from './perfil.service';
+import { ExtratoService } from './extrato.service';
+import { SolicitacaoResgateService } from '../financeiro/solicitacao-resgate.service';
+import { SolicitarResgateDto } from '../financeiro/dto/solicitar-resgate.dto';
 import { AtualizarPerfilDto } from './dto/atualizar-perfil.dto';
 import { AtualizarSenhaDto } from './dto/atualizar-senha.dto';
+import { ConsultarExtratoDto } from './dto/consultar-extrato.dto';
+import { ExportarExtratoDto } from './dto/exportar-extrato.dto';
 import { JwtAuthGuard } from './../comum/guards/jwt-auth.guard';
 import { PapeisGuard } from '../comum/guards/papeis.guard';
 import { Papeis } from '../comum/decorators/papeis.decorator';
@@ -22,7 +33,11 @@ import { Papeis } from '../comum/decorators/papeis.decorator';
 @UseGuards(JwtAuthGuard)
 @Controller('perfil')
 export class PerfilController {
-  constructor(private readonly perfilService: PerfilService) {}
+  constructor(
+    private readonly perfilService: PerfilService,
+    private readonly extratoService: ExtratoService,
+    private readonly solicitacaoResgateService: SolicitacaoResgateService,
+  ) {}
 
   /** Helper para extrair usuarioId do token JWT */
   private getUsuarioId(req): string {
@@ -72,4 +87,79 @@ export class PerfilController {
   async minhaEquipe(@Req() req) {
     return await this.perfilService.minhaEquipeGerente(this.getUsuarioId(req));
   }
+
+  /**
+   * Extrato de comissões do gerente logado, com a regra que gerou cada
+   * crédito (GET /api/perfil/minhas-comissoes)
+   */
+  @Get('minhas-comissoes')
+  @UseGuards(PapeisGuard)
+  @Papeis('GERENTE')
+  @HttpCode(HttpStatus.OK)
+  async minhasComissoes(@Req() req) {
+    return await this.perfilService.minhasComissoes(this.getUsuarioId(req));
+  }
+
+  /**
+   * Extrato paginado do usuário logado, com saldo corrente e totais do
+   * período (GET /api/perfil/extrato?pagina=1&dataInicio=2025-11-01&dataFim=2025-11-30)
+   */
+  @Get('extrato')
+  @UseGuards(PapeisGuard)
+  @Papeis('VENDEDOR', 'GERENTE')
+  @HttpCode(HttpStatus.OK)
+  async meuExtrato(@Req() req, @Query() dto: ConsultarExtratoDto) {
+    return await this.extratoService.extrato(this.getUsuarioId(req), dto);
+  }
+
+  /**
+   * Download do extrato do período em PDF ou XLSX
+   * (GET /api/perfil/extrato/exportar?formato=pdf&dataInicio=2025-11-01&dataFim=2025-11-30)
+   */
+  @Get('extrato/exportar')
+  @UseGuards(PapeisGuard)
+  @Papeis('VENDEDOR', 'GERENTE')
+  async exportarExtrato(@Req() req, @Query() dto: ExportarExtratoDto, @Res() res: Response) {
+    const arquivo = await this.extratoService.exportar(this.getUsuarioId(req), dto);
+
+    res.setHeader('Content-Type', arquivo.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${arquivo.nomeArquivo}`);
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition');
+    res.send(arquivo.conteudo);
+  }
+
+  /**
+   * Saldo disponível, limites e últimas solicitações de resgate do usuário
+   * logado (GET /api/perfil/resgates)
+   */
+  @Get('resgates')
+  @UseGuards(PapeisGuard)
+  @Papeis('VENDEDOR', 'GERENTE')
+  @HttpCode(HttpStatus.OK)
+  async meusResgates(@Req() req) {
+    return await this.solicitacaoResgateService.minhasSolicitacoes(this.getUsuarioId(req));
+  }
+
+  /**
+   * Solicita o resgate de parte ou de todo o saldo disponível; o valor fica
+   * reservado até o pagamento (POST /api/perfil/resgates)
+   */
+  @Post('resgates')
+  @UseGuards(PapeisGuard)
+  @Papeis('VENDEDOR', 'GERENTE')
+  @HttpCode(HttpStatus.CREATED)
+  async solicitarResgate(@Req() req, @Body() dto: SolicitarResgateDto) {
+    return await this.solicitacaoResgateService.solicitar(this.getUsuarioId(req), dto);
+  }
+
+  /**
+   * Cancela uma solicitação ainda não analisada (DELETE /api/perfil/resgates/:id)
+   */
+  @Delete('resgates/:id')
+  @UseGuards(PapeisGuard)
+  @Papeis('VENDEDOR', 'GERENTE')
+  @HttpCode(HttpStatus.OK)
+  async cancelarResgate(@Req() req, @Param('id') id: string) {
+    return await this.solicitacaoResgateService.cancelar(this.getUsuarioId(req), id);
+  }
 }
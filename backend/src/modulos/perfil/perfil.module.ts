@@ -1,11 +1,14 @@
 import { Module } from '@nestjs/common';
 import { PerfilController } from './perfil.controller';
 import { PerfilService } from './perfil.service';
+import { ExtratoService } from './extrato.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { FinanceiroModule } from '../financeiro/financeiro.module';
 
 @Module({
+  imports: [FinanceiroModule],
   controllers: [PerfilController],
-  providers: [PerfilService, PrismaService],
+  providers: [PerfilService, ExtratoService, PrismaService],
   exports: [PerfilService],
 })
 export class PerfilModule {}
@@ -17,6 +17,7 @@
  * Versão: 4.1 (Sprint 17.2 - Tarefa 40.1)
  */
 import {
+  BadRequestException,
   ForbiddenException,
   Injectable,
   UnauthorizedException,
@@ -24,11 +25,13 @@ import {
 import { PrismaService } from '../../prisma/prisma.service';
 import { AtualizarPerfilDto } from './dto/atualizar-perfil.dto';
 import { AtualizarSenhaDto } from './dto/atualizar-senha.dto';
+import { normalizarChavePix } from './helpers/chave-pix.helper';
 import {
   PapelUsuario,
   Prisma,
   StatusEnvioVenda,
   StatusUsuario,
+  TipoLancamentoSaldo,
 } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
@@ -104,6 +107,12 @@ export class PerfilService {
         whatsapp: true,
         dataNascimento: true,
 
+        // ====================================
+        // DADOS DE PAGAMENTO
+        // ====================================
+        tipoChavePix: true,
+        chavePix: true,
+
         // ====================================
         // CAMPOS DE PREFERÊNCIAS
         // ====================================
@@ -165,6 +174,28 @@ export class PerfilService {
       data.mapeamentoPlanilhaSalvo = dto.mapeamentoPlanilhaSalvo;
     }
 
+    // ====================================
+    // CHAVE PIX (tipo e chave juntos)
+    // ====================================
+    if (dto.tipoChavePix !== undefined || dto.chavePix !== undefined) {
+      if (!dto.tipoChavePix && !dto.chavePix?.trim()) {
+        data.tipoChavePix = null;
+        data.chavePix = null;
+      } else {
+        if (!dto.tipoChavePix || !dto.chavePix?.trim()) {
+          throw new BadRequestException('Informe o tipo e a chave PIX juntos.');
+        }
+
+        const chaveNormalizada = normalizarChavePix(dto.tipoChavePix, dto.chavePix);
+        if (!chaveNormalizada) {
+          throw new BadRequestException(`Chave PIX inválida para o tipo ${dto.tipoChavePix}.`);
+        }
+
+        data.tipoChavePix = dto.tipoChavePix;
+        data.chavePix = chaveNormalizada;
+      }
+    }
+
     // ====================================
     // EXECUTAR ATUALIZAÇÃO NO BANCO
     // ====================================
@@ -185,6 +216,8 @@ export class PerfilService {
   nivel: true,
         whatsapp: true,
         dataNascimento: true,
+        tipoChavePix: true,
+        chavePix: true,
         mapeamentoPlanilhaSalvo: true,
         criadoEm: true,
         atualizadoEm: true,
@@ -498,4 +531,65 @@ export class PerfilService {
       equipe: equipeDetalhada,
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Extrato de comissões do gerente autenticado: cada crédito (ou estorno)
+   * com a regra de comissão que o produziu, para auditoria.
+   *
+   * @param usuarioId - ID do gerente (req.user.id)
+   * @param limite - Quantidade máxima de lançamentos (mais recentes primeiro)
+   */
+  async minhasComissoes(usuarioId: string, limite = 200) {
+    const lancamentos = await this.prisma.lancamentoSaldo.findMany({
+      where: {
+        usuarioId,
+        tipo: {
+          in: [
+            TipoLancamentoSaldo.COMISSAO_GERENTE,
+            TipoLancamentoSaldo.BONUS_EQUIPE,
+            TipoLancamentoSaldo.REVERSAO_VALIDACAO,
+            TipoLancamentoSaldo.ESTORNO_ENVIO,
+          ],
+        },
+      },
+      orderBy: { criadoEm: 'desc' },
+      take: limite,
+    });
+
+    const regrasIds = [
+      ...new Set(lancamentos.map((l) => l.regraComissaoId).filter((id): id is string => !!id)),
+    ];
+    const campanhasIds = [
+      ...new Set(lancamentos.map((l) => l.campanhaId).filter((id): id is string => !!id)),
+    ];
+
+    const [regras, campanhas] = await Promise.all([
+      this.prisma.regraComissao.findMany({
+        where: { id: { in: regrasIds } },
+        select: { id: true, tipo: true, descricao: true },
+      }),
+      this.prisma.campanha.findMany({
+        where: { id: { in: campanhasIds } },
+        select: { id: true, titulo: true },
+      }),
+    ]);
+
+    const regraPorId = new Map(regras.map((r) => [r.id, r]));
+    const campanhaPorId = new Map(campanhas.map((c) => [c.id, c.titulo]));
+
+    return lancamentos.map((lancamento) => ({
+      id: lancamento.id,
+      tipo: lancamento.tipo,
+      valor: this.toNumber(lancamento.valor),
+      descricao: lancamento.descricao,
+      campanhaId: lancamento.campanhaId,
+      campanhaTitulo: lancamento.campanhaId ? campanhaPorId.get(lancamento.campanhaId) ?? null : null,
+      numeroCartela: lancamento.numeroCartela,
+      criadoEm: lancamento.criadoEm,
+      // Regra removida depois do crédito: o ID permanece, a descrição fica no lançamento
+      regra: lancamento.regraComissaoId
+        ? regraPorId.get(lancamento.regraComissaoId) ?? { id: lancamento.regraComissaoId, tipo: null, descricao: null }
+        : null,
+    }));
+  }
+}
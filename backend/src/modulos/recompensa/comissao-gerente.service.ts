@@ -0,0 +1,371 @@
+/**
+ * ============================================================================
+ * COMISSAO GERENTE SERVICE - Regras de Comissão de Gerentes por Campanha
+ * ============================================================================
+ *
+ * Descrição:
+ * Calcula as comissões de gerentes de uma cartela concluída a partir das
+ * regras da campanha (RegraComissao). Sem regras ativas, o resultado é o
+ * comportamento original: Campanha.percentualGerente para o gerente direto.
+ *
+ * Tipos de regra:
+ * - FAIXA_CARTELA / FAIXA_VOLUME_EQUIPE: substituem o percentual base do
+ *   gerente direto quando a cartela ou o volume validado pela equipe estão na
+ *   faixa (se mais de uma faixa se aplicar, vale o maior percentual)
+ * - OVERRIDE_MATRIZ: percentual extra ao gerente da ótica matriz sobre as
+ *   cartelas de vendedores das filiais
+ * - BONUS_EQUIPE: valor fixo ao gerente direto quando todos os vendedores
+ *   ativos da equipe concluem a cartela (pago uma vez por regra e gerente)
+ *
+ * Cada comissão carrega o ID da regra que a produziu, gravado no
+ * livro-razão (LancamentoSaldo.regraComissaoId) para auditoria do gerente.
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  Campanha,
+  PapelUsuario,
+  Prisma,
+  RegraComissao,
+  StatusEnvioVenda,
+  StatusUsuario,
+  TipoLancamentoSaldo,
+  TipoRegraComissao,
+  Usuario,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { arredondarCentavos } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { ConfigurarRegrasComissaoDto, RegraComissaoDto } from './dto/configurar-regras-comissao.dto';
+
+/**
+ * Comissão de gerente a creditar por uma cartela concluída
+ */
+export interface ComissaoCalculada {
+  gerenteId: string;
+  tipo: typeof TipoLancamentoSaldo.COMISSAO_GERENTE | typeof TipoLancamentoSaldo.BONUS_EQUIPE;
+  valor: number;
+  /** Regra que produziu a comissão (nulo = percentual base da campanha) */
+  regraComissaoId: string | null;
+  descricao: string;
+}
+
+/**
+ * Percentual legível (0.125 → "12,5%")
+ */
+const formatarPercentual = (percentual: number) =>
+  `${(Math.round(percentual * 10000) / 100).toLocaleString('pt-BR')}%`;
+
+/**
+ * ============================================================================
+ * SERVICE: ComissaoGerenteService
+ * ============================================================================
+ */
+@Injectable()
+export class ComissaoGerenteService {
+  private readonly logger = new Logger(ComissaoGerenteService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Regras de comissão da campanha (ativas e inativas).
+   *
+   * @throws NotFoundException se a campanha não existir
+   */
+  async listarRegras(campanhaId: string) {
+    const campanha = await this.prisma.campanha.findUnique({
+      where: { id: campanhaId },
+      select: { percentualGerente: true },
+    });
+
+    if (!campanha) {
+      throw new NotFoundException(`Campanha com ID ${campanhaId} não encontrada`);
+    }
+
+    const regras = await this.prisma.regraComissao.findMany({
+      where: { campanhaId },
+      orderBy: [{ tipo: 'asc' }, { criadoEm: 'asc' }],
+    });
+
+    return { percentualBase: Number(campanha.percentualGerente), regras };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: configurarRegras
+   * ==========================================================================
+   *
+   * Substitui as regras de comissão da campanha. Vale para as próximas
+   * cartelas concluídas; créditos já lançados não são recalculados.
+   *
+   * @param campanhaId - Campanha
+   * @param dto - Novo conjunto de regras
+   * @param adminId - Admin responsável
+   * @throws NotFoundException se a campanha não existir
+   * @throws BadRequestException se uma regra não tiver os campos do seu tipo
+   */
+  async configurarRegras(campanhaId: string, dto: ConfigurarRegrasComissaoDto, adminId: string) {
+    const existe = await this.prisma.campanha.count({ where: { id: campanhaId } });
+    if (!existe) {
+      throw new NotFoundException(`Campanha com ID ${campanhaId} não encontrada`);
+    }
+
+    dto.regras.forEach((regra, indice) => this._validarRegra(regra, indice + 1));
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.regraComissao.deleteMany({ where: { campanhaId } });
+      await tx.regraComissao.createMany({
+        data: dto.regras.map((regra) => ({
+          campanhaId,
+          tipo: regra.tipo,
+          descricao: regra.descricao.trim(),
+          cartelaInicial: regra.tipo === TipoRegraComissao.FAIXA_CARTELA ? regra.cartelaInicial : null,
+          cartelaFinal: regra.tipo === TipoRegraComissao.FAIXA_CARTELA ? regra.cartelaFinal ?? null : null,
+          volumeMinimo: regra.tipo === TipoRegraComissao.FAIXA_VOLUME_EQUIPE ? regra.volumeMinimo : null,
+          percentual: regra.tipo === TipoRegraComissao.BONUS_EQUIPE ? null : regra.percentual,
+          numeroCartela: regra.tipo === TipoRegraComissao.BONUS_EQUIPE ? regra.numeroCartela : null,
+          valorFixo: regra.tipo === TipoRegraComissao.BONUS_EQUIPE ? regra.valorFixo : null,
+          ativa: regra.ativa ?? true,
+        })),
+      });
+    });
+
+    this.logger.log(
+      `[COMISSÃO] ${dto.regras.length} regra(s) de comissão configurada(s) na campanha ${campanhaId} por ${adminId}`,
+    );
+
+    return this.listarRegras(campanhaId);
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: calcular
+   * ==========================================================================
+   *
+   * Comissões de gerentes devidas pela conclusão de uma cartela. Não credita
+   * nada: o chamador decide entre creditar e reter (orçamento).
+   *
+   * @param tx - Transação em curso (a CartelaConcluida já deve existir)
+   * @param campanha - Campanha
+   * @param vendedor - Vendedor que concluiu a cartela (com gerente)
+   * @param numeroCartela - Cartela concluída
+   * @param valorOriginal - Valor da cartela sem multiplicadores (base dos percentuais)
+   */
+  async calcular(
+    tx: Prisma.TransactionClient,
+    campanha: Campanha,
+    vendedor: Usuario & { gerente: Usuario | null },
+    numeroCartela: number,
+    valorOriginal: number,
+  ): Promise<ComissaoCalculada[]> {
+    const regras = await tx.regraComissao.findMany({
+      where: { campanhaId: campanha.id, ativa: true },
+    });
+    const comissoes: ComissaoCalculada[] = [];
+    const sufixo = `a Cartela ${numeroCartela} de ${vendedor.nome} - ${campanha.titulo}`;
+
+    // Gerente direto: percentual base ou faixa aplicável
+    if (vendedor.gerente) {
+      const faixa = await this._faixaAplicavel(tx, regras, campanha.id, vendedor.gerente.id, numeroCartela);
+      const percentual = faixa ? Number(faixa.percentual) : Number(campanha.percentualGerente ?? 0);
+      const valor = arredondarCentavos(valorOriginal * percentual);
+
+      if (valor > 0) {
+        comissoes.push({
+          gerenteId: vendedor.gerente.id,
+          tipo: TipoLancamentoSaldo.COMISSAO_GERENTE,
+          valor,
+          regraComissaoId: faixa?.id ?? null,
+          descricao: faixa
+            ? `Comissão de ${formatarPercentual(percentual)} (${faixa.descricao}) sobre ${sufixo}`
+            : `Comissão sobre ${sufixo}`,
+        });
+      }
+    }
+
+    // Override do gerente da matriz sobre vendas de filiais
+    const override = regras
+      .filter((regra) => regra.tipo === TipoRegraComissao.OVERRIDE_MATRIZ)
+      .sort((a, b) => Number(b.percentual) - Number(a.percentual))[0];
+
+    if (override && vendedor.opticaId) {
+      const gerenteMatriz = await this._gerenteDaMatriz(tx, vendedor.opticaId, vendedor.gerente?.id);
+      const valor = arredondarCentavos(valorOriginal * Number(override.percentual ?? 0));
+
+      if (gerenteMatriz && valor > 0) {
+        comissoes.push({
+          gerenteId: gerenteMatriz.id,
+          tipo: TipoLancamentoSaldo.COMISSAO_GERENTE,
+          valor,
+          regraComissaoId: override.id,
+          descricao: `Override da matriz de ${formatarPercentual(Number(override.percentual))} (${override.descricao}) sobre ${sufixo}`,
+        });
+      }
+    }
+
+    // Bônus fixo quando toda a equipe conclui a cartela
+    if (vendedor.gerente) {
+      for (const regra of regras) {
+        if (regra.tipo !== TipoRegraComissao.BONUS_EQUIPE || regra.numeroCartela !== numeroCartela) {
+          continue;
+        }
+
+        const devido = await this._bonusEquipeDevido(tx, regra, campanha.id, vendedor.gerente.id, numeroCartela);
+        if (devido) {
+          comissoes.push({
+            gerenteId: vendedor.gerente.id,
+            tipo: TipoLancamentoSaldo.BONUS_EQUIPE,
+            valor: arredondarCentavos(Number(regra.valorFixo)),
+            regraComissaoId: regra.id,
+            descricao: `Bônus de equipe (${regra.descricao}): todos os vendedores concluíram a Cartela ${numeroCartela} - ${campanha.titulo}`,
+          });
+        }
+      }
+    }
+
+    return comissoes;
+  }
+
+  /**
+   * Faixa (cartela ou volume da equipe) com o maior percentual entre as que se
+   * aplicam ao gerente; null se nenhuma se aplicar.
+   *
+   * @private
+   */
+  private async _faixaAplicavel(
+    tx: Prisma.TransactionClient,
+    regras: RegraComissao[],
+    campanhaId: string,
+    gerenteId: string,
+    numeroCartela: number,
+  ): Promise<RegraComissao | null> {
+    const candidatas = regras.filter(
+      (regra) =>
+        regra.tipo === TipoRegraComissao.FAIXA_CARTELA &&
+        (regra.cartelaInicial ?? 1) <= numeroCartela &&
+        (regra.cartelaFinal === null || regra.cartelaFinal >= numeroCartela),
+    );
+
+    const faixasVolume = regras.filter((regra) => regra.tipo === TipoRegraComissao.FAIXA_VOLUME_EQUIPE);
+    if (faixasVolume.length > 0) {
+      const soma = await tx.envioVenda.aggregate({
+        where: { campanhaId, status: StatusEnvioVenda.VALIDADO, vendedor: { gerenteId } },
+        _sum: { valorPontosReaisRecebido: true },
+      });
+      const volume = Number(soma._sum.valorPontosReaisRecebido ?? 0);
+
+      candidatas.push(...faixasVolume.filter((regra) => Number(regra.volumeMinimo ?? 0) <= volume));
+    }
+
+    return candidatas.sort((a, b) => Number(b.percentual) - Number(a.percentual))[0] ?? null;
+  }
+
+  /**
+   * Gerente ativo mais antigo da matriz da ótica do vendedor, se a ótica for
+   * filial. O gerente direto não recebe override sobre a própria equipe.
+   *
+   * @private
+   */
+  private async _gerenteDaMatriz(
+    tx: Prisma.TransactionClient,
+    opticaId: string,
+    gerenteDiretoId: string | undefined,
+  ) {
+    const optica = await tx.optica.findUnique({
+      where: { id: opticaId },
+      select: { matrizId: true },
+    });
+
+    if (!optica?.matrizId) {
+      return null;
+    }
+
+    return tx.usuario.findFirst({
+      where: {
+        opticaId: optica.matrizId,
+        papel: PapelUsuario.GERENTE,
+        status: StatusUsuario.ATIVO,
+        id: gerenteDiretoId ? { not: gerenteDiretoId } : undefined,
+      },
+      orderBy: { criadoEm: 'asc' },
+      select: { id: true },
+    });
+  }
+
+  /**
+   * Todos os vendedores ativos da equipe concluíram a cartela e o bônus da
+   * regra ainda não foi pago a este gerente.
+   *
+   * @private
+   */
+  private async _bonusEquipeDevido(
+    tx: Prisma.TransactionClient,
+    regra: RegraComissao,
+    campanhaId: string,
+    gerenteId: string,
+    numeroCartela: number,
+  ): Promise<boolean> {
+    const jaPago = await tx.lancamentoSaldo.count({
+      where: { usuarioId: gerenteId, tipo: TipoLancamentoSaldo.BONUS_EQUIPE, regraComissaoId: regra.id },
+    });
+    if (jaPago > 0) {
+      return false;
+    }
+
+    const equipe = await tx.usuario.findMany({
+      where: { gerenteId, papel: PapelUsuario.VENDEDOR, status: StatusUsuario.ATIVO },
+      select: { id: true },
+    });
+    if (equipe.length === 0) {
+      return false;
+    }
+
+    const concluidas = await tx.cartelaConcluida.count({
+      where: { campanhaId, numeroCartela, vendedorId: { in: equipe.map((v) => v.id) } },
+    });
+
+    return concluidas === equipe.length;
+  }
+
+  /**
+   * Campos obrigatórios por tipo de regra.
+   *
+   * @private
+   */
+  private _validarRegra(regra: RegraComissaoDto, posicao: number) {
+    const erro = (mensagem: string) => new BadRequestException(`Regra ${posicao}: ${mensagem}`);
+
+    switch (regra.tipo) {
+      case TipoRegraComissao.FAIXA_CARTELA:
+        if (regra.cartelaInicial === undefined || regra.percentual === undefined) {
+          throw erro('faixas de cartela exigem cartelaInicial e percentual.');
+        }
+        if (regra.cartelaFinal !== undefined && regra.cartelaFinal < regra.cartelaInicial) {
+          throw erro('a cartela final não pode ser menor que a inicial.');
+        }
+        break;
+      case TipoRegraComissao.FAIXA_VOLUME_EQUIPE:
+        if (regra.volumeMinimo === undefined || regra.percentual === undefined) {
+          throw erro('faixas de volume exigem volumeMinimo e percentual.');
+        }
+        break;
+      case TipoRegraComissao.OVERRIDE_MATRIZ:
+        if (!regra.percentual) {
+          throw erro('o override da matriz exige um percentual maior que zero.');
+        }
+        break;
+      case TipoRegraComissao.BONUS_EQUIPE:
+        if (regra.numeroCartela === undefined || regra.valorFixo === undefined) {
+          throw erro('o bônus de equipe exige numeroCartela e valorFixo.');
+        }
+        break;
+    }
+  }
+}
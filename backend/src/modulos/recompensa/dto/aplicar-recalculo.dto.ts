@@ -0,0 +1,29 @@
+/**
+ * ============================================================================
+ * DTO: Aplicar Recálculo de Recompensas
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de POST /api/campanhas/:id/recalculo/:vendedorId. A justificativa é
+ * gravada no RecalculoRecompensa e no lançamento AJUSTE_RECALCULO.
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import { IsNotEmpty, IsString, MaxLength, MinLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class AplicarRecalculoDto {
+  /**
+   * Justificativa da correção (exibida no extrato do vendedor).
+   *
+   * @example "Cartela 3 não creditada por falha de spillover"
+   */
+  @IsString()
+  @IsNotEmpty({ message: 'Informe a justificativa da correção' })
+  @MinLength(10, { message: 'A justificativa deve ter pelo menos 10 caracteres' })
+  @MaxLength(500, { message: 'A justificativa deve ter no máximo 500 caracteres' })
+  @Transform(({ value }) => value?.trim())
+  justificativa: string;
+}
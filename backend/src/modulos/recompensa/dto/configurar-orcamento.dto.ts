@@ -0,0 +1,58 @@
+/**
+ * ============================================================================
+ * DTO: Configurar Orçamento da Campanha
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de PATCH /api/campanhas/:id/orcamento. Campos omitidos não são
+ * alterados; orcamentoMaximo = null remove o teto.
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { PoliticaOrcamento } from '@prisma/client';
+
+export class ConfigurarOrcamentoDto {
+  /**
+   * Teto de pontos (R$) comprometidos pela campanha (vendedores + gerentes).
+   * null = sem teto.
+   *
+   * @example 50000
+   */
+  @ValidateIf((o) => o.orcamentoMaximo !== null && o.orcamentoMaximo !== undefined)
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O orçamento deve ser um número com até 2 casas decimais' })
+  @Min(0, { message: 'O orçamento não pode ser negativo' })
+  orcamentoMaximo?: number | null;
+
+  /**
+   * O que fazer com recompensas que ultrapassariam o orçamento.
+   */
+  @IsOptional()
+  @IsEnum(PoliticaOrcamento, { message: 'A política deve ser ENFILEIRAR ou BLOQUEAR' })
+  politicaOrcamento?: PoliticaOrcamento;
+
+  /**
+   * Percentuais do orçamento que disparam alerta aos admins.
+   *
+   * @example [70, 90, 100]
+   */
+  @IsOptional()
+  @IsArray({ message: 'alertasOrcamento deve ser um array' })
+  @ArrayMaxSize(10, { message: 'Informe no máximo 10 percentuais de alerta' })
+  @IsInt({ each: true, message: 'Cada alerta deve ser um percentual inteiro' })
+  @Min(1, { each: true, message: 'Os alertas devem estar entre 1% e 100%' })
+  @Max(100, { each: true, message: 'Os alertas devem estar entre 1% e 100%' })
+  alertasOrcamento?: number[];
+}
@@ -0,0 +1,125 @@
+/**
+ * ============================================================================
+ * DTO: Configurar Regras de Comissão da Campanha
+ * ============================================================================
+ *
+ * Descrição:
+ * Corpo de PUT /api/campanhas/:id/comissoes. Substitui o conjunto de regras
+ * da campanha; lista vazia = apenas o percentual base (percentualGerente).
+ * Os campos exigidos dependem do tipo (validados no serviço).
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { TipoRegraComissao } from '@prisma/client';
+
+export class RegraComissaoDto {
+  /**
+   * Tipo da regra.
+   */
+  @IsEnum(TipoRegraComissao, {
+    message: 'O tipo deve ser FAIXA_CARTELA, FAIXA_VOLUME_EQUIPE, OVERRIDE_MATRIZ ou BONUS_EQUIPE',
+  })
+  tipo: TipoRegraComissao;
+
+  /**
+   * Descrição exibida no extrato do gerente.
+   *
+   * @example "Cartelas 3 em diante pagam 15%"
+   */
+  @IsString({ message: 'A descrição deve ser um texto' })
+  @IsNotEmpty({ message: 'A descrição é obrigatória' })
+  @MaxLength(120, { message: 'A descrição deve ter no máximo 120 caracteres' })
+  descricao: string;
+
+  /**
+   * FAIXA_CARTELA: primeira cartela da faixa.
+   *
+   * @example 3
+   */
+  @IsOptional()
+  @IsInt({ message: 'A cartela inicial deve ser um número inteiro' })
+  @Min(1, { message: 'A cartela inicial deve ser pelo menos 1' })
+  cartelaInicial?: number;
+
+  /**
+   * FAIXA_CARTELA: última cartela da faixa (omitida = sem limite).
+   */
+  @IsOptional()
+  @IsInt({ message: 'A cartela final deve ser um número inteiro' })
+  @Min(1, { message: 'A cartela final deve ser pelo menos 1' })
+  cartelaFinal?: number;
+
+  /**
+   * FAIXA_VOLUME_EQUIPE: R$ validados pela equipe na campanha.
+   *
+   * @example 20000
+   */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O volume mínimo deve ter no máximo 2 casas decimais' })
+  @Min(0, { message: 'O volume mínimo não pode ser negativo' })
+  volumeMinimo?: number;
+
+  /**
+   * Percentual (0.0 a 1.0) das faixas e do override da matriz.
+   *
+   * @example 0.15
+   */
+  @IsOptional()
+  @IsNumber({}, { message: 'O percentual deve ser um número' })
+  @Min(0, { message: 'O percentual não pode ser negativo' })
+  @Max(1, { message: 'O percentual não pode ser maior que 1 (100%)' })
+  percentual?: number;
+
+  /**
+   * BONUS_EQUIPE: cartela que toda a equipe deve concluir.
+   *
+   * @example 1
+   */
+  @IsOptional()
+  @IsInt({ message: 'O número da cartela deve ser um número inteiro' })
+  @Min(1, { message: 'O número da cartela deve ser pelo menos 1' })
+  numeroCartela?: number;
+
+  /**
+   * BONUS_EQUIPE: valor fixo (R$) pago ao gerente.
+   *
+   * @example 250
+   */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 }, { message: 'O valor fixo deve ter no máximo 2 casas decimais' })
+  @Min(0.01, { message: 'O valor fixo deve ser maior que zero' })
+  valorFixo?: number;
+
+  /**
+   * Regras inativas ficam salvas mas não são aplicadas.
+   */
+  @IsOptional()
+  @IsBoolean({ message: 'ativa deve ser verdadeiro ou falso' })
+  ativa?: boolean;
+}
+
+export class ConfigurarRegrasComissaoDto {
+  @IsArray({ message: 'regras deve ser uma lista' })
+  @ArrayMaxSize(30, { message: 'Informe no máximo 30 regras de comissão' })
+  @ValidateNested({ each: true })
+  @Type(() => RegraComissaoDto)
+  regras: RegraComissaoDto[];
+}
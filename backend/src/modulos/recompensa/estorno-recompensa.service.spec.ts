@@ -0,0 +1,289 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EstornoRecompensaService } from './estorno-recompensa.service';
+import { RecompensaService } from './recompensa.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    envioVenda: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+    },
+    relatorioFinanceiro: {
+        count: jest.fn(),
+    },
+    lancamentoSaldo: {
+        findMany: jest.fn(),
+        createMany: jest.fn(),
+    },
+    usuario: {
+        update: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+    },
+    requisitoCartela: {
+        findMany: jest.fn(),
+    },
+    cartelaConcluida: {
+        findMany: jest.fn(),
+        deleteMany: jest.fn(),
+    },
+    recompensaRetida: {
+        deleteMany: jest.fn(),
+    },
+    notificacao: {
+        create: jest.fn(),
+    },
+};
+
+const mockRecompensaService = {
+    reanalisarCartelas: jest.fn(),
+};
+
+const gerente = { id: 'gerente-1', nome: 'Gerente' };
+
+const envioValidado = (dados: Record<string, unknown> = {}) => ({
+    id: 'envio-1',
+    numeroPedido: 'PED-001',
+    status: 'VALIDADO',
+    vendedorId: 'vendedor-1',
+    campanhaId: 'campanha-1',
+    numeroCartelaAtendida: 2,
+    valorPontosReaisRecebido: 100,
+    multiplicadorAplicado: 1.5,
+    valorFinalComEvento: 150,
+    pontosAdicionadosAoSaldo: true,
+    pontosLiquidados: false,
+    campanha: { id: 'campanha-1', limiteCartelas: null, percentualGerente: 0.1 },
+    requisito: { id: 'req-1', ordem: 1, quantidade: 2 },
+    vendedor: { id: 'vendedor-1', nome: 'Vendedor', gerente },
+    ...dados,
+});
+
+describe('EstornoRecompensaService', () => {
+    let service: EstornoRecompensaService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                EstornoRecompensaService,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: RecompensaService, useValue: mockRecompensaService },
+            ],
+        }).compile();
+
+        service = module.get<EstornoRecompensaService>(EstornoRecompensaService);
+        jest.clearAllMocks();
+
+        mockPrismaService.relatorioFinanceiro.count.mockResolvedValue(0);
+        mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([]);
+        mockPrismaService.envioVenda.findMany.mockResolvedValue([]);
+        mockPrismaService.requisitoCartela.findMany.mockResolvedValue([{ id: 'req-1' }]);
+        mockPrismaService.cartelaConcluida.findMany.mockResolvedValue([]);
+        mockPrismaService.usuario.findUniqueOrThrow.mockResolvedValue({ saldoPontos: 0 });
+        mockRecompensaService.reanalisarCartelas.mockResolvedValue(undefined);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('estornar', () => {
+        it('should debit the seller final value and the proportional manager commission', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(envioValidado());
+            mockPrismaService.lancamentoSaldo.findMany.mockResolvedValue([
+                { usuarioId: 'gerente-1', regraComissaoId: 'regra-1', valor: 10, enviosIds: ['envio-1', 'envio-2'] },
+                // Crédito anterior do mesmo gerente/regra (recreditado depois): ignorado
+                { usuarioId: 'gerente-1', regraComissaoId: 'regra-1', valor: 99, enviosIds: ['envio-1'] },
+            ]);
+            mockPrismaService.envioVenda.findMany.mockImplementation(({ where }) =>
+                where.id
+                    ? Promise.resolve([{ valorPontosReaisRecebido: 100 }, { valorPontosReaisRecebido: 100 }])
+                    : Promise.resolve([]),
+            );
+
+            const resultado = await service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid');
+
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'vendedor-1' },
+                data: { saldoPontos: { decrement: 150 } },
+            });
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'gerente-1' },
+                data: { saldoPontos: { decrement: 5 } },
+            });
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledTimes(2);
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({
+                        tipo: 'ESTORNO_ENVIO',
+                        valor: -150,
+                        usuarioId: 'vendedor-1',
+                        campanhaId: 'campanha-1',
+                        numeroCartela: 2,
+                        enviosIds: ['envio-1'],
+                        adminId: 'admin-uuid',
+                    }),
+                ],
+            });
+            expect(resultado.debitos).toEqual([
+                { usuarioId: 'vendedor-1', papel: 'VENDEDOR', valor: 150, saldoAtual: 0 },
+                { usuarioId: 'gerente-1', papel: 'GERENTE', valor: 5, saldoAtual: 0 },
+            ]);
+        });
+
+        it('should send the order back to REJEITADO with an ESTORNO transition', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(envioValidado());
+
+            await service.estornar('envio-1', 'Pedido devolvido', 'admin-uuid');
+
+            expect(mockPrismaService.envioVenda.update).toHaveBeenCalledWith({
+                where: { id: 'envio-1' },
+                data: expect.objectContaining({
+                    status: 'REJEITADO',
+                    motivoRejeicao: 'Pedido devolvido',
+                    numeroCartelaAtendida: null,
+                    pontosAdicionadosAoSaldo: false,
+                    valorFinalComEvento: null,
+                    transicoes: {
+                        create: expect.objectContaining({
+                            statusAnterior: 'VALIDADO',
+                            statusNovo: 'REJEITADO',
+                            origem: 'ESTORNO',
+                            tipoAtor: 'ADMIN',
+                            usuarioId: 'admin-uuid',
+                        }),
+                    },
+                }),
+            });
+        });
+
+        it('should fall back to the campaign manager percentage for credits before the ledger', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(
+                envioValidado({ valorFinalComEvento: null, multiplicadorAplicado: 1 }),
+            );
+
+            const resultado = await service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid');
+
+            expect(resultado.debitos).toEqual([
+                expect.objectContaining({ usuarioId: 'vendedor-1', valor: 100 }),
+                expect.objectContaining({ usuarioId: 'gerente-1', papel: 'GERENTE', valor: 10 }),
+            ]);
+        });
+
+        it('should warn when the debit leaves a negative balance', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(
+                envioValidado({ vendedor: { id: 'vendedor-1', nome: 'Vendedor', gerente: null } }),
+            );
+            mockPrismaService.usuario.findUniqueOrThrow.mockResolvedValue({ saldoPontos: -50 });
+
+            const resultado = await service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid');
+
+            expect(resultado.debitos).toEqual([
+                { usuarioId: 'vendedor-1', papel: 'VENDEDOR', valor: 150, saldoAtual: -50 },
+            ]);
+            expect(mockPrismaService.notificacao.create).toHaveBeenCalledWith({
+                data: {
+                    usuarioId: 'vendedor-1',
+                    mensagem: expect.stringContaining('Seu saldo ficou negativo (R$ -50.00)'),
+                },
+            });
+        });
+
+        it('should not debit anyone when the points were never credited', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(
+                envioValidado({ pontosAdicionadosAoSaldo: false }),
+            );
+
+            const resultado = await service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid');
+
+            expect(resultado.debitos).toEqual([]);
+            expect(resultado.pontosPagos).toBe(false);
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+            expect(mockPrismaService.lancamentoSaldo.createMany).not.toHaveBeenCalled();
+            expect(mockPrismaService.notificacao.create).toHaveBeenCalledWith({
+                data: {
+                    usuarioId: 'vendedor-1',
+                    mensagem: expect.stringContaining('voltou para REJEITADO'),
+                },
+            });
+        });
+
+        it('should flag orders already included in a financial batch as paid', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(envioValidado());
+            mockPrismaService.relatorioFinanceiro.count.mockResolvedValue(1);
+
+            const resultado = await service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid');
+
+            expect(resultado.pontosPagos).toBe(true);
+        });
+
+        it('should reallocate the remaining orders and report the cards that are no longer complete', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(envioValidado());
+            mockPrismaService.envioVenda.findMany.mockResolvedValue([
+                { id: 'envio-a', numeroCartelaAtendida: 1 },
+                { id: 'envio-b', numeroCartelaAtendida: 2 },
+                { id: 'envio-c', numeroCartelaAtendida: 3 },
+            ]);
+            mockPrismaService.cartelaConcluida.findMany.mockResolvedValue([{ numeroCartela: 2 }, { numeroCartela: 3 }]);
+            mockRecompensaService.reanalisarCartelas.mockImplementation(async (_tx, _campanha, _vendedor, _numero, efeitos) => {
+                efeitos.cartelasConcluidas.push({
+                    id: 'concluida-2',
+                    vendedorId: 'vendedor-1',
+                    campanhaId: 'campanha-1',
+                    numeroCartela: 2,
+                });
+            });
+
+            const resultado = await service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid');
+
+            // Requisito pede 2 envios por cartela: a e b na 1, c na 2
+            expect(mockPrismaService.envioVenda.update).toHaveBeenCalledWith({
+                where: { id: 'envio-b' },
+                data: { numeroCartelaAtendida: 1 },
+            });
+            expect(mockPrismaService.envioVenda.update).toHaveBeenCalledWith({
+                where: { id: 'envio-c' },
+                data: { numeroCartelaAtendida: 2 },
+            });
+            expect(resultado.enviosRealocados).toBe(2);
+
+            expect(mockPrismaService.cartelaConcluida.deleteMany).toHaveBeenCalledWith({
+                where: { vendedorId: 'vendedor-1', campanhaId: 'campanha-1', numeroCartela: { gte: 2 } },
+            });
+            expect(mockPrismaService.recompensaRetida.deleteMany).toHaveBeenCalledWith({
+                where: expect.objectContaining({
+                    numeroCartela: { gte: 2 },
+                    status: { in: ['ENFILEIRADA', 'BLOQUEADA'] },
+                }),
+            });
+            expect(mockRecompensaService.reanalisarCartelas).toHaveBeenCalledWith(
+                mockPrismaService,
+                expect.objectContaining({ id: 'campanha-1' }),
+                expect.objectContaining({ id: 'vendedor-1' }),
+                2,
+                expect.any(Object),
+            );
+            expect(resultado.cartelasRemovidas).toEqual([3]);
+        });
+
+        it('should throw NotFoundException if the order does not exist', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(null);
+
+            await expect(service.estornar('envio-x', 'Pedido cancelado', 'admin-uuid')).rejects.toThrow(
+                NotFoundException,
+            );
+        });
+
+        it('should throw BadRequestException if the order is not VALIDADO', async () => {
+            mockPrismaService.envioVenda.findUnique.mockResolvedValue(envioValidado({ status: 'EM_ANALISE' }));
+
+            await expect(service.estornar('envio-1', 'Pedido cancelado', 'admin-uuid')).rejects.toThrow(
+                BadRequestException,
+            );
+            expect(mockPrismaService.envioVenda.update).not.toHaveBeenCalled();
+        });
+    });
+});
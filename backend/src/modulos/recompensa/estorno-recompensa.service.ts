@@ -0,0 +1,447 @@
+/**
+ * ============================================================================
+ * ESTORNO RECOMPENSA SERVICE - Estorno de um Envio Validado
+ * ============================================================================
+ *
+ * Descrição:
+ * Desfaz a validação de um único envio quando o laboratório informa que o
+ * pedido foi cancelado ou devolvido. O envio volta para REJEITADO com o
+ * motivo informado e a recompensa correspondente é debitada.
+ *
+ * Fluxo (uma única transação):
+ * 1. Calcula o débito do envio, se os pontos já foram creditados:
+ *    - Vendedor: valor final do envio (com o multiplicador de evento)
+ *    - Gerente: parte proporcional da comissão da cartela (livro-razão);
+ *      créditos anteriores ao livro-razão usam o percentual atual da campanha
+ * 2. Marca o envio como REJEITADO (linha do tempo: ESTORNO)
+ * 3. Debita vendedor e gerente (lançamento ESTORNO_ENVIO). O saldo pode ficar
+ *    negativo quando os pontos já foram pagos: o valor negativo é descontado
+ *    dos próximos créditos e só volta a entrar em lote quando positivo.
+ * 4. Realoca os envios validados restantes do mesmo requisito (spillover) e
+ *    recalcula quais ficam além do limite de cartelas da campanha
+ * 5. Remove as CartelaConcluida (e recompensas retidas pendentes) a partir da
+ *    cartela do envio e reanalisa as cartelas: as que continuam completas são
+ *    concluídas de novo, creditando apenas envios ainda não creditados
+ * 6. Notifica vendedor e gerente
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  OrigemTransicaoEnvio,
+  Prisma,
+  StatusEnvioVenda,
+  StatusRecompensaRetida,
+  TipoAtorTransicao,
+  TipoLancamentoSaldo,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { arredondarCentavos, movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { marcarEnviosAcimaDoLimite } from '../campanhas/helpers/curva-recompensa.helper';
+import { RecompensaService, criarEfeitosRecompensa } from './recompensa.service';
+
+/**
+ * Quem estorna e por quê (registrado na linha do tempo e no livro-razão)
+ */
+export interface OpcoesEstorno {
+  motivo: string;
+  tipoAtor: TipoAtorTransicao;
+  usuarioId?: string | null;
+  historicoValidacaoId?: string | null;
+  importacaoDevolucaoId?: string | null;
+}
+
+/**
+ * Débito aplicado a um usuário pelo estorno
+ */
+export interface DebitoEstorno {
+  usuarioId: string;
+  papel: 'VENDEDOR' | 'GERENTE';
+  valor: number;
+  saldoAtual: number;
+}
+
+/**
+ * Resultado do estorno de um envio
+ */
+export interface ResultadoEstorno {
+  envioId: string;
+  numeroPedido: string;
+  vendedorId: string;
+  campanhaId: string;
+  numeroCartela: number;
+  /** Pontos do envio já pagos ou reservados em lote financeiro */
+  pontosPagos: boolean;
+  debitos: DebitoEstorno[];
+  /** Cartelas que deixaram de estar completas */
+  cartelasRemovidas: number[];
+  /** Envios que mudaram de cartela na realocação */
+  enviosRealocados: number;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: EstornoRecompensaService
+ * ============================================================================
+ */
+@Injectable()
+export class EstornoRecompensaService {
+  private readonly logger = new Logger(EstornoRecompensaService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   * @param recompensaService - Reanálise das cartelas após a realocação
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly recompensaService: RecompensaService,
+  ) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: estornar
+   * ==========================================================================
+   *
+   * Estorno manual de um envio pelo admin.
+   *
+   * @param envioId - Envio VALIDADO a estornar
+   * @param motivo - Motivo (cancelamento, devolução, etc)
+   * @param adminId - Admin responsável
+   * @throws NotFoundException se o envio não existir
+   * @throws BadRequestException se o envio não estiver VALIDADO
+   */
+  async estornar(envioId: string, motivo: string, adminId: string): Promise<ResultadoEstorno> {
+    return this.prisma.$transaction(
+      (tx) =>
+        this.estornarEmTransacao(tx, envioId, {
+          motivo,
+          tipoAtor: TipoAtorTransicao.ADMIN,
+          usuarioId: adminId,
+        }),
+      { timeout: 60000 }, // A reanálise pode percorrer várias cartelas
+    );
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: estornarEmTransacao
+   * ==========================================================================
+   *
+   * Estorna um envio dentro de uma transação em curso (ver fluxo no topo).
+   *
+   * @param tx - Transação em curso
+   * @param envioId - Envio VALIDADO a estornar
+   * @param opcoes - Motivo e ator do estorno
+   * @throws NotFoundException se o envio não existir
+   * @throws BadRequestException se o envio não estiver VALIDADO
+   */
+  async estornarEmTransacao(
+    tx: Prisma.TransactionClient,
+    envioId: string,
+    opcoes: OpcoesEstorno,
+  ): Promise<ResultadoEstorno> {
+    const envio = await tx.envioVenda.findUnique({
+      where: { id: envioId },
+      include: {
+        campanha: true,
+        requisito: true,
+        vendedor: { include: { gerente: true } },
+      },
+    });
+
+    if (!envio) {
+      throw new NotFoundException('Envio não encontrado.');
+    }
+
+    if (envio.status !== StatusEnvioVenda.VALIDADO) {
+      throw new BadRequestException({
+        message: `Apenas envios validados podem ser estornados. O pedido ${envio.numeroPedido} está ${envio.status}.`,
+        codigo: 'ENVIO_NAO_VALIDADO',
+      });
+    }
+
+    const numeroCartela = envio.numeroCartelaAtendida ?? 1;
+    const campanha = envio.campanha;
+
+    this.logger.warn(
+      `[ESTORNO] Pedido ${envio.numeroPedido} (envio ${envio.id}, Cartela ${numeroCartela}) - ${opcoes.motivo}`,
+    );
+
+    // -------------------------------------------------------------------------
+    // PASSO 1: Débitos (apenas se os pontos já foram creditados)
+    // -------------------------------------------------------------------------
+    const debitosPrevistos = envio.pontosAdicionadosAoSaldo
+      ? await this._calcularDebitos(tx, envio)
+      : [];
+
+    const pontosPagos =
+      envio.pontosLiquidados ||
+      (envio.pontosAdicionadosAoSaldo &&
+        (await tx.relatorioFinanceiro.count({
+          where: {
+            deletedAt: null,
+            status: { in: ['PENDENTE', 'PAGO'] },
+            enviosIncluidos: { array_contains: [envio.id] },
+          },
+        })) > 0);
+
+    // -------------------------------------------------------------------------
+    // PASSO 2: Envio volta para REJEITADO
+    // -------------------------------------------------------------------------
+    await tx.envioVenda.update({
+      where: { id: envio.id },
+      data: {
+        status: StatusEnvioVenda.REJEITADO,
+        motivoRejeicao: opcoes.motivo,
+        numeroCartelaAtendida: null,
+        dataValidacao: new Date(),
+        pontosAdicionadosAoSaldo: false,
+        multiplicadorAplicado: 1,
+        valorFinalComEvento: null,
+        transicoes: {
+          create: {
+            statusAnterior: envio.status,
+            statusNovo: StatusEnvioVenda.REJEITADO,
+            origem: OrigemTransicaoEnvio.ESTORNO,
+            tipoAtor: opcoes.tipoAtor,
+            usuarioId: opcoes.usuarioId ?? null,
+            historicoValidacaoId: opcoes.historicoValidacaoId ?? null,
+            importacaoDevolucaoId: opcoes.importacaoDevolucaoId ?? null,
+            motivo: opcoes.motivo,
+          },
+        },
+      },
+    });
+
+    // -------------------------------------------------------------------------
+    // PASSO 3: Debitar vendedor e gerente
+    // -------------------------------------------------------------------------
+    const debitos: DebitoEstorno[] = [];
+
+    for (const debito of debitosPrevistos) {
+      const movimento = await movimentarSaldo(tx, debito.usuarioId, [
+        {
+          tipo: TipoLancamentoSaldo.ESTORNO_ENVIO,
+          valor: -debito.valor,
+          descricao:
+            debito.papel === 'VENDEDOR'
+              ? `Estorno do pedido ${envio.numeroPedido} (Cartela ${numeroCartela}) - ${opcoes.motivo}`
+              : `Estorno da comissão sobre o pedido ${envio.numeroPedido} de ${envio.vendedor.nome} - ${opcoes.motivo}`,
+          campanhaId: campanha.id,
+          numeroCartela,
+          enviosIds: [envio.id],
+          historicoValidacaoId: opcoes.historicoValidacaoId ?? null,
+          adminId: opcoes.usuarioId ?? null,
+        },
+      ]);
+
+      const usuario = await tx.usuario.findUniqueOrThrow({
+        where: { id: debito.usuarioId },
+        select: { saldoPontos: true },
+      });
+
+      debitos.push({
+        usuarioId: debito.usuarioId,
+        papel: debito.papel,
+        valor: -movimento.valor,
+        saldoAtual: Number(usuario.saldoPontos),
+      });
+    }
+
+    // -------------------------------------------------------------------------
+    // PASSO 4: Realocar os envios restantes do mesmo requisito (spillover)
+    // -------------------------------------------------------------------------
+    const enviosRealocados = await this._realocarEnvios(tx, envio);
+    await marcarEnviosAcimaDoLimite(tx, campanha.id, campanha.limiteCartelas, envio.vendedorId);
+
+    // -------------------------------------------------------------------------
+    // PASSO 5: Remover cartelas concluídas afetadas e reanalisar
+    // -------------------------------------------------------------------------
+    const concluidasAntes = await tx.cartelaConcluida.findMany({
+      where: { vendedorId: envio.vendedorId, campanhaId: campanha.id, numeroCartela: { gte: numeroCartela } },
+      select: { numeroCartela: true },
+    });
+
+    await tx.cartelaConcluida.deleteMany({
+      where: { vendedorId: envio.vendedorId, campanhaId: campanha.id, numeroCartela: { gte: numeroCartela } },
+    });
+
+    // Recompensas retidas ainda não creditadas voltam a ser avaliadas na reanálise
+    await tx.recompensaRetida.deleteMany({
+      where: {
+        vendedorId: envio.vendedorId,
+        campanhaId: campanha.id,
+        numeroCartela: { gte: numeroCartela },
+        status: { in: [StatusRecompensaRetida.ENFILEIRADA, StatusRecompensaRetida.BLOQUEADA] },
+      },
+    });
+
+    const efeitos = criarEfeitosRecompensa();
+    await this.recompensaService.reanalisarCartelas(tx, campanha, envio.vendedor, numeroCartela, efeitos);
+
+    const reconcluidas = new Set(efeitos.cartelasConcluidas.map((c) => c.numeroCartela));
+    const cartelasRemovidas = concluidasAntes
+      .map((c) => c.numeroCartela)
+      .filter((numero) => !reconcluidas.has(numero))
+      .sort((a, b) => a - b);
+
+    // -------------------------------------------------------------------------
+    // PASSO 6: Notificar vendedor e gerente
+    // -------------------------------------------------------------------------
+    for (const debito of debitos) {
+      const complemento =
+        debito.saldoAtual < 0
+          ? ` Seu saldo ficou negativo (R$ ${debito.saldoAtual.toFixed(2)}) e será descontado dos próximos créditos.`
+          : '';
+
+      await tx.notificacao.create({
+        data: {
+          usuarioId: debito.usuarioId,
+          mensagem:
+            debito.papel === 'VENDEDOR'
+              ? `O pedido '${envio.numeroPedido}' foi estornado (${opcoes.motivo}). R$ ${debito.valor.toFixed(2)} foram debitados do seu saldo.${complemento}`
+              : `O pedido '${envio.numeroPedido}' de ${envio.vendedor.nome} foi estornado. R$ ${debito.valor.toFixed(2)} de comissão foram debitados do seu saldo.${complemento}`,
+        },
+      });
+    }
+
+    if (debitos.length === 0) {
+      await tx.notificacao.create({
+        data: {
+          usuarioId: envio.vendedorId,
+          mensagem: `O pedido '${envio.numeroPedido}' foi estornado e voltou para REJEITADO. Motivo: ${opcoes.motivo}`,
+        },
+      });
+    }
+
+    this.logger.log(
+      `[ESTORNO] Pedido ${envio.numeroPedido}: ${debitos.length} débito(s), cartelas removidas [${cartelasRemovidas.join(', ')}], ${enviosRealocados} envio(s) realocado(s)`,
+    );
+
+    return {
+      envioId: envio.id,
+      numeroPedido: envio.numeroPedido,
+      vendedorId: envio.vendedorId,
+      campanhaId: campanha.id,
+      numeroCartela,
+      pontosPagos,
+      debitos,
+      cartelasRemovidas,
+      enviosRealocados,
+    };
+  }
+
+  /**
+   * Débito do vendedor (valor final do envio) e dos gerentes (parte
+   * proporcional de cada comissão lançada para a cartela: gerente direto e
+   * override da matriz). Bônus de equipe não é vinculado a envios e não é
+   * estornado.
+   *
+   * @private
+   */
+  private async _calcularDebitos(
+    tx: Prisma.TransactionClient,
+    envio: Prisma.EnvioVendaGetPayload<{
+      include: { campanha: true; vendedor: { include: { gerente: true } } };
+    }>,
+  ) {
+    const debitos: { usuarioId: string; papel: 'VENDEDOR' | 'GERENTE'; valor: number }[] = [];
+    const valorOriginal = Number(envio.valorPontosReaisRecebido ?? 0);
+    const valorFinal =
+      envio.valorFinalComEvento !== null
+        ? Number(envio.valorFinalComEvento)
+        : valorOriginal * Number(envio.multiplicadorAplicado);
+
+    if (arredondarCentavos(valorFinal) > 0) {
+      debitos.push({ usuarioId: envio.vendedorId, papel: 'VENDEDOR', valor: valorFinal });
+    }
+
+    const lancamentosComissao = await tx.lancamentoSaldo.findMany({
+      where: {
+        tipo: TipoLancamentoSaldo.COMISSAO_GERENTE,
+        campanhaId: envio.campanhaId,
+        enviosIds: { array_contains: [envio.id] },
+      },
+      orderBy: { criadoEm: 'desc' },
+    });
+
+    // Lançamento mais recente de cada gerente/regra (o envio pode ter sido recreditado)
+    const comissoes = lancamentosComissao.filter(
+      (lancamento, indice) =>
+        lancamentosComissao.findIndex(
+          (outro) => outro.usuarioId === lancamento.usuarioId && outro.regraComissaoId === lancamento.regraComissaoId,
+        ) === indice,
+    );
+
+    for (const comissao of comissoes) {
+      const enviosDaComissao = await tx.envioVenda.findMany({
+        where: { id: { in: comissao.enviosIds as string[] } },
+        select: { valorPontosReaisRecebido: true },
+      });
+      const base = enviosDaComissao.reduce((acc, e) => acc + Number(e.valorPontosReaisRecebido ?? 0), 0);
+      const valorGerente = base > 0 ? (Number(comissao.valor) * valorOriginal) / base : 0;
+
+      if (arredondarCentavos(valorGerente) > 0) {
+        debitos.push({ usuarioId: comissao.usuarioId, papel: 'GERENTE', valor: valorGerente });
+      }
+    }
+
+    if (comissoes.length === 0 && envio.vendedor.gerente) {
+      // Crédito anterior ao livro-razão: percentual atual da campanha
+      const valorGerente = valorOriginal * Number(envio.campanha.percentualGerente ?? 0);
+
+      if (arredondarCentavos(valorGerente) > 0) {
+        debitos.push({ usuarioId: envio.vendedor.gerente.id, papel: 'GERENTE', valor: valorGerente });
+      }
+    }
+
+    return debitos;
+  }
+
+  /**
+   * Renumera as cartelas dos envios validados restantes do mesmo requisito
+   * lógico (mesma ordem), preenchendo a vaga deixada pelo envio estornado.
+   *
+   * @returns Quantidade de envios que mudaram de cartela
+   * @private
+   */
+  private async _realocarEnvios(
+    tx: Prisma.TransactionClient,
+    envio: Prisma.EnvioVendaGetPayload<{ include: { requisito: true } }>,
+  ): Promise<number> {
+    const requisitosRelacionados = await tx.requisitoCartela.findMany({
+      where: { ordem: envio.requisito.ordem, regraCartela: { campanhaId: envio.campanhaId } },
+      select: { id: true },
+    });
+
+    const restantes = await tx.envioVenda.findMany({
+      where: {
+        vendedorId: envio.vendedorId,
+        requisitoId: { in: requisitosRelacionados.map((r) => r.id) },
+        status: StatusEnvioVenda.VALIDADO,
+      },
+      orderBy: [{ numeroCartelaAtendida: 'asc' }, { dataValidacao: 'asc' }, { id: 'asc' }],
+      select: { id: true, numeroCartelaAtendida: true },
+    });
+
+    let realocados = 0;
+
+    for (const [indice, restante] of restantes.entries()) {
+      const numeroCartela = Math.floor(indice / envio.requisito.quantidade) + 1;
+
+      if (restante.numeroCartelaAtendida !== numeroCartela) {
+        await tx.envioVenda.update({
+          where: { id: restante.id },
+          data: { numeroCartelaAtendida: numeroCartela },
+        });
+        realocados++;
+      }
+    }
+
+    return realocados;
+  }
+}
@@ -0,0 +1,354 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { OrcamentoCampanhaService } from './orcamento-campanha.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    $queryRaw: jest.fn(),
+    campanha: {
+        count: jest.fn(),
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+    },
+    lancamentoSaldo: {
+        aggregate: jest.fn(),
+        groupBy: jest.fn().mockResolvedValue([]),
+        createMany: jest.fn(),
+    },
+    recompensaRetida: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        groupBy: jest.fn().mockResolvedValue([]),
+    },
+    usuario: {
+        findMany: jest.fn(),
+        update: jest.fn(),
+    },
+    notificacao: {
+        create: jest.fn(),
+        createMany: jest.fn(),
+    },
+    envioVenda: {
+        updateMany: jest.fn(),
+    },
+};
+
+const campanhaId = 'campanha-uuid';
+const tx = mockPrismaService as any;
+
+const campanha = (dados: Record<string, unknown> = {}) => ({
+    titulo: 'Campanha de Verão',
+    orcamentoMaximo: 1000,
+    politicaOrcamento: 'ENFILEIRAR',
+    alertasOrcamento: [],
+    alertasEnviados: [],
+    ...dados,
+});
+
+const comprometido = (valor: number) => ({ _sum: { valor } });
+
+const recompensa = {
+    campanhaId,
+    vendedorId: 'vendedor-1',
+    numeroCartela: 2,
+    valorOriginal: 50,
+    valorFinal: 60,
+    gerenteId: 'gerente-1',
+    valorGerente: 6,
+    comissoes: [],
+    enviosIds: ['envio-1', 'envio-2'],
+};
+
+describe('OrcamentoCampanhaService', () => {
+    let service: OrcamentoCampanhaService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OrcamentoCampanhaService,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        service = module.get<OrcamentoCampanhaService>(OrcamentoCampanhaService);
+        jest.clearAllMocks();
+        mockPrismaService.usuario.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('avaliar', () => {
+        it('should lock the campaign row before reading the budget', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha());
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(comprometido(900));
+
+            await service.avaliar(tx, campanhaId, 50);
+
+            expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1);
+            expect(mockPrismaService.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+                mockPrismaService.campanha.findUniqueOrThrow.mock.invocationCallOrder[0],
+            );
+        });
+
+        it('should accept a reward that fits exactly in the remaining budget', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha());
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(comprometido(933.34));
+
+            const resultado = await service.avaliar(tx, campanhaId, 66.66);
+
+            expect(resultado).toEqual({
+                dentroDoOrcamento: true,
+                politica: 'ENFILEIRAR',
+                comprometido: 933.34,
+                orcamentoMaximo: 1000,
+            });
+        });
+
+        it('should reject a reward that exceeds the budget', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha({ politicaOrcamento: 'BLOQUEAR' }));
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(comprometido(950));
+
+            const resultado = await service.avaliar(tx, campanhaId, 50.01);
+
+            expect(resultado.dentroDoOrcamento).toBe(false);
+            expect(resultado.politica).toBe('BLOQUEAR');
+        });
+
+        it('should accept anything when the campaign has no budget', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha({ orcamentoMaximo: null }));
+
+            const resultado = await service.avaliar(tx, campanhaId, 1_000_000);
+
+            expect(resultado.dentroDoOrcamento).toBe(true);
+            expect(mockPrismaService.lancamentoSaldo.aggregate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('reter', () => {
+        beforeEach(() => {
+            mockPrismaService.recompensaRetida.create.mockResolvedValue({
+                id: 'retida-1',
+                campanha: { titulo: 'Campanha de Verão' },
+            });
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(comprometido(1000));
+        });
+
+        it('should queue the reward when the policy is ENFILEIRAR and not move any balance', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha());
+
+            const id = await service.reter(tx, recompensa, 'ENFILEIRAR' as any);
+
+            expect(id).toBe('retida-1');
+            expect(mockPrismaService.recompensaRetida.create).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: expect.objectContaining({
+                        vendedorId: 'vendedor-1',
+                        valorOriginal: 50,
+                        valorFinal: 60,
+                        valorGerente: 6,
+                        status: 'ENFILEIRADA',
+                    }),
+                }),
+            );
+            expect(mockPrismaService.notificacao.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    usuarioId: 'vendedor-1',
+                    mensagem: expect.stringContaining('aguarda a liberação do orçamento'),
+                }),
+            });
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+            expect(mockPrismaService.lancamentoSaldo.createMany).not.toHaveBeenCalled();
+        });
+
+        it('should block the reward when the policy is BLOQUEAR', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha({ politicaOrcamento: 'BLOQUEAR' }));
+
+            await service.reter(tx, recompensa, 'BLOQUEAR' as any);
+
+            expect(mockPrismaService.recompensaRetida.create).toHaveBeenCalledWith(
+                expect.objectContaining({ data: expect.objectContaining({ status: 'BLOQUEADA' }) }),
+            );
+            expect(mockPrismaService.notificacao.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ mensagem: expect.stringContaining('não será creditada') }),
+            });
+        });
+
+        it('should fire every pending alert as the budget is exhausted', async () => {
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(
+                campanha({ alertasOrcamento: [50, 80, 100], alertasEnviados: [50] }),
+            );
+
+            await service.reter(tx, recompensa, 'ENFILEIRAR' as any);
+
+            expect(mockPrismaService.campanha.update).toHaveBeenCalledWith({
+                where: { id: campanhaId },
+                data: { alertasEnviados: { push: [80, 100] } },
+            });
+            expect(mockPrismaService.notificacao.createMany).toHaveBeenCalledWith({
+                data: [
+                    {
+                        usuarioId: 'admin-1',
+                        mensagem: expect.stringContaining('atingiu 100% do orçamento'),
+                    },
+                ],
+            });
+        });
+    });
+
+    describe('configurar', () => {
+        const fila = [
+            {
+                id: 'retida-1',
+                campanhaId,
+                vendedorId: 'vendedor-1',
+                numeroCartela: 2,
+                valorOriginal: 50,
+                valorFinal: 60,
+                gerenteId: 'gerente-1',
+                valorGerente: 5,
+                comissoes: [
+                    {
+                        gerenteId: 'gerente-1',
+                        tipo: 'COMISSAO_GERENTE',
+                        valor: 5,
+                        regraComissaoId: 'regra-1',
+                        descricao: 'Comissão sobre a Cartela 2 - Campanha de Verão',
+                    },
+                ],
+                enviosIds: ['envio-1'],
+                campanha: { titulo: 'Campanha de Verão' },
+            },
+            {
+                id: 'retida-2',
+                campanhaId,
+                vendedorId: 'vendedor-2',
+                numeroCartela: 1,
+                valorOriginal: 100,
+                valorFinal: 100,
+                gerenteId: null,
+                valorGerente: 0,
+                comissoes: [],
+                enviosIds: ['envio-2'],
+                campanha: { titulo: 'Campanha de Verão' },
+            },
+        ];
+
+        beforeEach(() => {
+            mockPrismaService.campanha.count.mockResolvedValue(1);
+            mockPrismaService.campanha.findUniqueOrThrow.mockResolvedValue(campanha());
+            mockPrismaService.campanha.findUnique.mockResolvedValue(campanha());
+        });
+
+        it('should release queued rewards in order until one does not fit', async () => {
+            mockPrismaService.recompensaRetida.findMany.mockResolvedValue(fila);
+            mockPrismaService.lancamentoSaldo.aggregate
+                .mockResolvedValueOnce(comprometido(900))
+                .mockResolvedValue(comprometido(965));
+
+            const resultado = await service.configurar(campanhaId, { orcamentoMaximo: 1000 } as any, 'admin-uuid');
+
+            expect(resultado.liberadas).toBe(1);
+            expect(mockPrismaService.recompensaRetida.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { campanhaId, status: 'ENFILEIRADA' },
+                    orderBy: { criadoEm: 'asc' },
+                }),
+            );
+
+            // Vendedor: crédito da cartela + bônus de eventos
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'vendedor-1' },
+                data: { saldoPontos: { increment: 60 } },
+            });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({ tipo: 'CREDITO_CARTELA', valor: 50, usuarioId: 'vendedor-1' }),
+                    expect.objectContaining({ tipo: 'BONUS_EVENTO', valor: 10, usuarioId: 'vendedor-1' }),
+                ],
+            });
+
+            // Gerente: comissão guardada na retenção
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'gerente-1' },
+                data: { saldoPontos: { increment: 5 } },
+            });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({
+                        tipo: 'COMISSAO_GERENTE',
+                        valor: 5,
+                        regraComissaoId: 'regra-1',
+                        usuarioId: 'gerente-1',
+                        enviosIds: ['envio-1'],
+                    }),
+                ],
+            });
+
+            expect(mockPrismaService.envioVenda.updateMany).toHaveBeenCalledWith({
+                where: { id: { in: ['envio-1'] } },
+                data: { pontosAdicionadosAoSaldo: true },
+            });
+            expect(mockPrismaService.recompensaRetida.update).toHaveBeenCalledTimes(1);
+            expect(mockPrismaService.recompensaRetida.update).toHaveBeenCalledWith({
+                where: { id: 'retida-1' },
+                data: expect.objectContaining({ status: 'LIBERADA', liberadoPorId: 'admin-uuid' }),
+            });
+
+            // A segunda (R$ 100) não cabe nos R$ 35 restantes
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: 'vendedor-2' } }),
+            );
+        });
+
+        it('should credit the legacy manager commission of retentions without comissoes', async () => {
+            mockPrismaService.recompensaRetida.findMany.mockResolvedValue([
+                { ...fila[0], comissoes: null, valorGerente: 7.5 },
+            ]);
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(comprometido(0));
+
+            await service.configurar(campanhaId, { orcamentoMaximo: 1000 } as any, 'admin-uuid');
+
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: 'gerente-1' },
+                data: { saldoPontos: { increment: 7.5 } },
+            });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [expect.objectContaining({ tipo: 'COMISSAO_GERENTE', valor: 7.5, regraComissaoId: null })],
+            });
+        });
+
+        it('should reset the sent alerts so they are evaluated again', async () => {
+            mockPrismaService.recompensaRetida.findMany.mockResolvedValue([]);
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(comprometido(0));
+
+            await service.configurar(
+                campanhaId,
+                { orcamentoMaximo: 2000, alertasOrcamento: [90, 50, 90] } as any,
+                'admin-uuid',
+            );
+
+            expect(mockPrismaService.campanha.update).toHaveBeenCalledWith({
+                where: { id: campanhaId },
+                data: expect.objectContaining({
+                    orcamentoMaximo: 2000,
+                    alertasOrcamento: [50, 90],
+                    alertasEnviados: [],
+                }),
+            });
+        });
+
+        it('should throw NotFoundException for an unknown campaign', async () => {
+            mockPrismaService.campanha.count.mockResolvedValue(0);
+
+            await expect(
+                service.configurar(campanhaId, { orcamentoMaximo: 1000 } as any, 'admin-uuid'),
+            ).rejects.toThrow(NotFoundException);
+            expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,521 @@
+/**
+ * ============================================================================
+ * ORCAMENTO CAMPANHA SERVICE - Teto de Pontos Comprometidos por Campanha
+ * ============================================================================
+ *
+ * Descrição:
+ * Aplica o orçamento da campanha (Campanha.orcamentoMaximo) às recompensas de
+ * cartela. O valor comprometido é derivado do livro-razão de saldo: créditos
+ * de cartela, bônus de eventos e comissões de gerentes da campanha, menos as
+ * reversões e os estornos de envio.
+ *
+ * Quando uma recompensa (vendedor + comissões de gerentes) ultrapassaria o
+ * orçamento, ela não é creditada e fica registrada em RecompensaRetida,
+ * conforme a política da campanha:
+ * - ENFILEIRAR: creditada quando o orçamento for ampliado (ordem de chegada)
+ * - BLOQUEAR: não é paga
+ *
+ * Admins são notificados quando o comprometido atinge cada percentual de
+ * Campanha.alertasOrcamento (uma vez por percentual).
+ *
+ * Créditos anteriores ao livro-razão não têm campanha e não entram na conta.
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  PapelUsuario,
+  PoliticaOrcamento,
+  Prisma,
+  StatusRecompensaRetida,
+  StatusUsuario,
+  TipoLancamentoSaldo,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { arredondarCentavos, movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { ConfigurarOrcamentoDto } from './dto/configurar-orcamento.dto';
+import type { ComissaoCalculada } from './comissao-gerente.service';
+
+/**
+ * Lançamentos do livro-razão que consomem (ou devolvem) orçamento da campanha
+ */
+export const TIPOS_LANCAMENTO_ORCAMENTO: TipoLancamentoSaldo[] = [
+  TipoLancamentoSaldo.CREDITO_CARTELA,
+  TipoLancamentoSaldo.BONUS_EVENTO,
+  TipoLancamentoSaldo.COMISSAO_GERENTE,
+  TipoLancamentoSaldo.BONUS_EQUIPE,
+  TipoLancamentoSaldo.REVERSAO_VALIDACAO,
+  TipoLancamentoSaldo.ESTORNO_ENVIO,
+  TipoLancamentoSaldo.AJUSTE_RECALCULO,
+];
+
+/**
+ * Resultado da avaliação de uma recompensa contra o orçamento
+ */
+export interface DecisaoOrcamento {
+  dentroDoOrcamento: boolean;
+  politica: PoliticaOrcamento;
+  comprometido: number;
+  orcamentoMaximo: number | null;
+}
+
+/**
+ * Recompensa a reter (cartela concluída além do orçamento)
+ */
+export interface RecompensaAReter {
+  campanhaId: string;
+  vendedorId: string;
+  numeroCartela: number;
+  /** Valor da cartela pela curva de recompensa, sem eventos e nível */
+  valorOriginal: number;
+  valorFinal: number;
+  gerenteId: string | null;
+  /** Soma das comissões */
+  valorGerente: number;
+  comissoes: ComissaoCalculada[];
+  enviosIds: string[];
+}
+
+type ClienteOrcamento = Prisma.TransactionClient | PrismaService;
+
+/**
+ * ============================================================================
+ * SERVICE: OrcamentoCampanhaService
+ * ============================================================================
+ */
+@Injectable()
+export class OrcamentoCampanhaService {
+  private readonly logger = new Logger(OrcamentoCampanhaService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Pontos (R$) já comprometidos pela campanha, segundo o livro-razão.
+   */
+  async comprometido(cliente: ClienteOrcamento, campanhaId: string): Promise<number> {
+    const soma = await cliente.lancamentoSaldo.aggregate({
+      where: { campanhaId, tipo: { in: TIPOS_LANCAMENTO_ORCAMENTO } },
+      _sum: { valor: true },
+    });
+
+    return arredondarCentavos(Number(soma._sum.valor ?? 0));
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: avaliar
+   * ==========================================================================
+   *
+   * Verifica se uma recompensa cabe no orçamento. Bloqueia a linha da campanha
+   * até o fim da transação, para que execuções concorrentes não ultrapassem
+   * o teto juntas.
+   *
+   * @param tx - Transação em curso (a mesma que fará o crédito)
+   * @param campanhaId - Campanha
+   * @param valor - Valor total da recompensa (vendedor + gerente)
+   */
+  async avaliar(
+    tx: Prisma.TransactionClient,
+    campanhaId: string,
+    valor: number,
+  ): Promise<DecisaoOrcamento> {
+    await tx.$queryRaw`SELECT "id" FROM "campanhas" WHERE "id" = ${campanhaId} FOR UPDATE`;
+
+    const campanha = await tx.campanha.findUniqueOrThrow({
+      where: { id: campanhaId },
+      select: { orcamentoMaximo: true, politicaOrcamento: true },
+    });
+
+    if (campanha.orcamentoMaximo === null) {
+      return {
+        dentroDoOrcamento: true,
+        politica: campanha.politicaOrcamento,
+        comprometido: 0,
+        orcamentoMaximo: null,
+      };
+    }
+
+    const orcamentoMaximo = Number(campanha.orcamentoMaximo);
+    const comprometido = await this.comprometido(tx, campanhaId);
+
+    return {
+      dentroDoOrcamento: arredondarCentavos(comprometido + valor) <= orcamentoMaximo,
+      politica: campanha.politicaOrcamento,
+      comprometido,
+      orcamentoMaximo,
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: reter
+   * ==========================================================================
+   *
+   * Registra a recompensa que ultrapassaria o orçamento, avisa o vendedor e
+   * dispara o alerta de orçamento esgotado.
+   *
+   * @param tx - Transação em curso
+   * @param recompensa - Valores da cartela concluída
+   * @param politica - Política da campanha
+   * @returns ID da recompensa retida
+   */
+  async reter(
+    tx: Prisma.TransactionClient,
+    recompensa: RecompensaAReter,
+    politica: PoliticaOrcamento,
+  ): Promise<string> {
+    const status =
+      politica === PoliticaOrcamento.ENFILEIRAR
+        ? StatusRecompensaRetida.ENFILEIRADA
+        : StatusRecompensaRetida.BLOQUEADA;
+
+    const retida = await tx.recompensaRetida.create({
+      data: {
+        ...recompensa,
+        valorOriginal: arredondarCentavos(recompensa.valorOriginal),
+        valorFinal: arredondarCentavos(recompensa.valorFinal),
+        valorGerente: arredondarCentavos(recompensa.valorGerente),
+        comissoes: recompensa.comissoes as unknown as Prisma.InputJsonValue,
+        status,
+      },
+      include: { campanha: { select: { titulo: true } } },
+    });
+
+    await tx.notificacao.create({
+      data: {
+        usuarioId: recompensa.vendedorId,
+        mensagem:
+          status === StatusRecompensaRetida.ENFILEIRADA
+            ? `🎉 Você completou a Cartela ${recompensa.numeroCartela} da campanha '${retida.campanha.titulo}'! O crédito de R$ ${recompensa.valorFinal.toFixed(2)} aguarda a liberação do orçamento da campanha.`
+            : `Você completou a Cartela ${recompensa.numeroCartela} da campanha '${retida.campanha.titulo}', mas o orçamento da campanha foi esgotado e a recompensa não será creditada.`,
+      },
+    });
+
+    this.logger.warn(
+      `[ORÇAMENTO] Recompensa da Cartela ${recompensa.numeroCartela} (vendedor ${recompensa.vendedorId}) retida como ${status} na campanha ${recompensa.campanhaId}`,
+    );
+
+    await this.verificarAlertas(tx, recompensa.campanhaId, true);
+
+    return retida.id;
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: verificarAlertas
+   * ==========================================================================
+   *
+   * Notifica os admins sobre os percentuais de alerta atingidos desde a última
+   * verificação. Cada percentual é notificado uma única vez.
+   *
+   * @param tx - Transação em curso
+   * @param campanhaId - Campanha
+   * @param orcamentoEsgotado - Uma recompensa foi retida (conta como 100%)
+   */
+  async verificarAlertas(
+    tx: Prisma.TransactionClient,
+    campanhaId: string,
+    orcamentoEsgotado = false,
+  ) {
+    const campanha = await tx.campanha.findUniqueOrThrow({
+      where: { id: campanhaId },
+      select: {
+        titulo: true,
+        orcamentoMaximo: true,
+        politicaOrcamento: true,
+        alertasOrcamento: true,
+        alertasEnviados: true,
+      },
+    });
+
+    if (campanha.orcamentoMaximo === null || Number(campanha.orcamentoMaximo) <= 0) {
+      return;
+    }
+
+    const orcamentoMaximo = Number(campanha.orcamentoMaximo);
+    const comprometido = await this.comprometido(tx, campanhaId);
+    const percentual = orcamentoEsgotado ? 100 : (comprometido / orcamentoMaximo) * 100;
+
+    const atingidos = campanha.alertasOrcamento
+      .filter((alerta) => percentual >= alerta && !campanha.alertasEnviados.includes(alerta))
+      .sort((a, b) => a - b);
+
+    if (atingidos.length === 0) {
+      return;
+    }
+
+    await tx.campanha.update({
+      where: { id: campanhaId },
+      data: { alertasEnviados: { push: atingidos } },
+    });
+
+    const maior = atingidos[atingidos.length - 1];
+    const complemento = orcamentoEsgotado
+      ? campanha.politicaOrcamento === PoliticaOrcamento.ENFILEIRAR
+        ? ' Novas recompensas ficarão na fila até o orçamento ser ampliado.'
+        : ' Novas recompensas não serão pagas.'
+      : '';
+
+    await this._notificarAdmins(
+      tx,
+      `📊 A campanha '${campanha.titulo}' atingiu ${maior}% do orçamento (R$ ${comprometido.toFixed(2)} de R$ ${orcamentoMaximo.toFixed(2)} comprometidos).${complemento}`,
+    );
+
+    this.logger.warn(`[ORÇAMENTO] Campanha ${campanhaId}: alerta(s) ${atingidos.join(', ')}% disparado(s)`);
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: resumo
+   * ==========================================================================
+   *
+   * Consumo do orçamento (exibido em GET /campanhas/:id/analytics).
+   *
+   * @param campanhaId - Campanha
+   */
+  async resumo(campanhaId: string) {
+    const campanha = await this.prisma.campanha.findUnique({
+      where: { id: campanhaId },
+      select: {
+        orcamentoMaximo: true,
+        politicaOrcamento: true,
+        alertasOrcamento: true,
+        alertasEnviados: true,
+      },
+    });
+
+    if (!campanha) {
+      throw new NotFoundException(`Campanha com ID ${campanhaId} não encontrada`);
+    }
+
+    const [porTipo, retidas] = await Promise.all([
+      this.prisma.lancamentoSaldo.groupBy({
+        by: ['tipo'],
+        where: { campanhaId, tipo: { in: TIPOS_LANCAMENTO_ORCAMENTO } },
+        _sum: { valor: true },
+      }),
+      this.prisma.recompensaRetida.groupBy({
+        by: ['status'],
+        where: { campanhaId, status: { not: StatusRecompensaRetida.LIBERADA } },
+        _count: { _all: true },
+        _sum: { valorFinal: true, valorGerente: true },
+      }),
+    ]);
+
+    const somaTipo = (...tipos: TipoLancamentoSaldo[]) =>
+      arredondarCentavos(
+        porTipo
+          .filter((item) => tipos.includes(item.tipo))
+          .reduce((acc, item) => acc + Number(item._sum.valor ?? 0), 0),
+      );
+    const resumoRetidas = (status: StatusRecompensaRetida) => {
+      const grupo = retidas.find((item) => item.status === status);
+      return {
+        quantidade: grupo?._count._all ?? 0,
+        valor: arredondarCentavos(
+          Number(grupo?._sum.valorFinal ?? 0) + Number(grupo?._sum.valorGerente ?? 0),
+        ),
+      };
+    };
+
+    const comprometido = somaTipo(...TIPOS_LANCAMENTO_ORCAMENTO);
+    const orcamentoMaximo = campanha.orcamentoMaximo === null ? null : Number(campanha.orcamentoMaximo);
+
+    return {
+      orcamentoMaximo,
+      politica: campanha.politicaOrcamento,
+      alertas: campanha.alertasOrcamento,
+      alertasEnviados: campanha.alertasEnviados,
+      comprometido,
+      comprometidoVendedores: somaTipo(
+        TipoLancamentoSaldo.CREDITO_CARTELA,
+        TipoLancamentoSaldo.BONUS_EVENTO,
+        TipoLancamentoSaldo.AJUSTE_RECALCULO,
+      ),
+      comprometidoGerentes: somaTipo(TipoLancamentoSaldo.COMISSAO_GERENTE, TipoLancamentoSaldo.BONUS_EQUIPE),
+      revertido: somaTipo(TipoLancamentoSaldo.REVERSAO_VALIDACAO, TipoLancamentoSaldo.ESTORNO_ENVIO),
+      disponivel: orcamentoMaximo === null ? null : arredondarCentavos(Math.max(orcamentoMaximo - comprometido, 0)),
+      percentualConsumido:
+        orcamentoMaximo ? Math.round((comprometido / orcamentoMaximo) * 1000) / 10 : null,
+      enfileiradas: resumoRetidas(StatusRecompensaRetida.ENFILEIRADA),
+      bloqueadas: resumoRetidas(StatusRecompensaRetida.BLOQUEADA),
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: configurar
+   * ==========================================================================
+   *
+   * Altera orçamento, política e alertas. Os alertas são reavaliados a partir
+   * do zero e as recompensas enfileiradas que passarem a caber são creditadas.
+   *
+   * @param campanhaId - Campanha
+   * @param dto - Nova configuração
+   * @param adminId - Admin responsável
+   * @returns Resumo atualizado + quantidade de recompensas liberadas
+   */
+  async configurar(campanhaId: string, dto: ConfigurarOrcamentoDto, adminId: string) {
+    const existe = await this.prisma.campanha.count({ where: { id: campanhaId } });
+    if (!existe) {
+      throw new NotFoundException(`Campanha com ID ${campanhaId} não encontrada`);
+    }
+
+    const liberadas = await this.prisma.$transaction(async (tx) => {
+      await tx.campanha.update({
+        where: { id: campanhaId },
+        data: {
+          orcamentoMaximo: dto.orcamentoMaximo,
+          politicaOrcamento: dto.politicaOrcamento,
+          alertasOrcamento: dto.alertasOrcamento
+            ? Array.from(new Set(dto.alertasOrcamento)).sort((a, b) => a - b)
+            : undefined,
+          alertasEnviados: [],
+        },
+      });
+
+      const total = await this._liberarFila(tx, campanhaId, adminId);
+      await this.verificarAlertas(tx, campanhaId);
+      return total;
+    });
+
+    this.logger.log(
+      `[ORÇAMENTO] Campanha ${campanhaId} reconfigurada por ${adminId}: ${liberadas} recompensa(s) liberada(s)`,
+    );
+
+    return { ...(await this.resumo(campanhaId)), liberadas };
+  }
+
+  /**
+   * Credita, em ordem de chegada, as recompensas enfileiradas que cabem no
+   * orçamento. Para na primeira que não couber.
+   *
+   * @private
+   */
+  private async _liberarFila(tx: Prisma.TransactionClient, campanhaId: string, adminId: string) {
+    const fila = await tx.recompensaRetida.findMany({
+      where: { campanhaId, status: StatusRecompensaRetida.ENFILEIRADA },
+      include: { campanha: { select: { titulo: true } } },
+      orderBy: { criadoEm: 'asc' },
+    });
+
+    let liberadas = 0;
+
+    for (const retida of fila) {
+      const comissoes = this._comissoesRetidas(retida);
+      const valorGerente = comissoes.reduce((acc, c) => acc + c.valor, 0);
+      const decisao = await this.avaliar(tx, campanhaId, Number(retida.valorFinal) + valorGerente);
+      if (!decisao.dentroDoOrcamento) {
+        break;
+      }
+
+      const enviosIds = retida.enviosIds as string[];
+      const referencia = {
+        campanhaId,
+        numeroCartela: retida.numeroCartela,
+        enviosIds,
+        adminId,
+      };
+
+      await movimentarSaldo(tx, retida.vendedorId, [
+        {
+          ...referencia,
+          tipo: TipoLancamentoSaldo.CREDITO_CARTELA,
+          valor: Math.min(Number(retida.valorOriginal), Number(retida.valorFinal)),
+          descricao: `Cartela ${retida.numeroCartela} concluída - ${retida.campanha.titulo} (liberada pelo orçamento)`,
+        },
+        {
+          ...referencia,
+          tipo: TipoLancamentoSaldo.BONUS_EVENTO,
+          valor: Math.max(Number(retida.valorFinal) - Number(retida.valorOriginal), 0),
+          descricao: `Bônus de eventos na Cartela ${retida.numeroCartela} - ${retida.campanha.titulo} (liberado pelo orçamento)`,
+        },
+      ]);
+
+      for (const comissao of comissoes) {
+        await movimentarSaldo(tx, comissao.gerenteId, [
+          {
+            ...referencia,
+            enviosIds: comissao.tipo === TipoLancamentoSaldo.BONUS_EQUIPE ? undefined : enviosIds,
+            tipo: comissao.tipo,
+            valor: comissao.valor,
+            descricao: `${comissao.descricao} (liberada pelo orçamento)`,
+            regraComissaoId: comissao.regraComissaoId,
+          },
+        ]);
+      }
+
+      await tx.envioVenda.updateMany({
+        where: { id: { in: enviosIds } },
+        data: { pontosAdicionadosAoSaldo: true },
+      });
+
+      await tx.recompensaRetida.update({
+        where: { id: retida.id },
+        data: { status: StatusRecompensaRetida.LIBERADA, liberadoEm: new Date(), liberadoPorId: adminId },
+      });
+
+      await tx.notificacao.create({
+        data: {
+          usuarioId: retida.vendedorId,
+          mensagem: `💰 O crédito da Cartela ${retida.numeroCartela} da campanha '${retida.campanha.titulo}' foi liberado: R$ ${Number(retida.valorFinal).toFixed(2)} adicionados ao seu saldo!`,
+        },
+      });
+
+      liberadas++;
+    }
+
+    return liberadas;
+  }
+
+  /**
+   * Comissões a creditar na liberação. Retenções anteriores às regras de
+   * comissão têm apenas gerenteId/valorGerente (percentual base).
+   *
+   * @private
+   */
+  private _comissoesRetidas(
+    retida: Prisma.RecompensaRetidaGetPayload<{ include: { campanha: { select: { titulo: true } } } }>,
+  ): ComissaoCalculada[] {
+    if (Array.isArray(retida.comissoes)) {
+      return retida.comissoes as unknown as ComissaoCalculada[];
+    }
+
+    if (!retida.gerenteId || Number(retida.valorGerente) <= 0) {
+      return [];
+    }
+
+    return [
+      {
+        gerenteId: retida.gerenteId,
+        tipo: TipoLancamentoSaldo.COMISSAO_GERENTE,
+        valor: Number(retida.valorGerente),
+        regraComissaoId: null,
+        descricao: `Comissão sobre a Cartela ${retida.numeroCartela} - ${retida.campanha.titulo}`,
+      },
+    ];
+  }
+
+  /**
+   * Notifica os admins ativos.
+   *
+   * @private
+   */
+  private async _notificarAdmins(tx: Prisma.TransactionClient, mensagem: string) {
+    const admins = await tx.usuario.findMany({
+      where: { papel: PapelUsuario.ADMIN, status: StatusUsuario.ATIVO },
+      select: { id: true },
+    });
+
+    await tx.notificacao.createMany({
+      data: admins.map((admin) => ({ usuarioId: admin.id, mensagem })),
+    });
+  }
+}
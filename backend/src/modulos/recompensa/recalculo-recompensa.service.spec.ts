@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { RecalculoRecompensaService } from './recalculo-recompensa.service';
+import { RecompensaService } from './recompensa.service';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const mockPrismaService = {
+    $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    campanha: {
+        findUnique: jest.fn(),
+    },
+    usuario: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+    },
+    envioVenda: {
+        findMany: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+    },
+    cartelaConcluida: {
+        findMany: jest.fn(),
+        deleteMany: jest.fn(),
+        createMany: jest.fn(),
+    },
+    lancamentoSaldo: {
+        aggregate: jest.fn(),
+        count: jest.fn(),
+        createMany: jest.fn(),
+    },
+    recompensaRetida: {
+        findMany: jest.fn(),
+    },
+    recalculoRecompensa: {
+        create: jest.fn(),
+    },
+    notificacao: {
+        create: jest.fn(),
+    },
+};
+
+const mockRecompensaService = {
+    garantirProximaCartela: jest.fn(),
+};
+
+const campanhaId = 'campanha-1';
+const vendedorId = 'vendedor-1';
+const dto = { justificativa: 'Estorno manual fora do fluxo' };
+
+// Cartela 1 pede 2 envios do requisito de ordem 1; as seguintes a replicam
+const campanha = {
+    id: campanhaId,
+    titulo: 'Campanha de Verão',
+    limiteCartelas: null,
+    curvaRecompensa: null,
+    multiplicadoresNivel: { OURO: 1.1 },
+    politicaEventos: 'SOMAR',
+    eventosEspeciais: [],
+    cartelas: [{ numeroCartela: 1, requisitos: [{ ordem: 1, quantidade: 2 }] }],
+};
+
+const envio = (id: string, dados: Record<string, unknown>) => ({
+    id,
+    numeroPedido: `PED-${id}`,
+    dataEnvio: new Date('2025-01-10'),
+    codigoReferenciaUsado: 'REF-1',
+    requisito: { ordem: 1, quantidade: 2 },
+    valorPontosReaisRecebido: 100,
+    multiplicadorAplicado: 1.1,
+    valorFinalComEvento: null,
+    pontosAdicionadosAoSaldo: false,
+    numeroCartelaAtendida: null,
+    ...dados,
+});
+
+const creditados = [
+    envio('e1', { numeroCartelaAtendida: 1, pontosAdicionadosAoSaldo: true, valorFinalComEvento: 110 }),
+    envio('e2', { numeroCartelaAtendida: 1, pontosAdicionadosAoSaldo: true, valorFinalComEvento: 110 }),
+];
+
+const comDrift = [
+    ...creditados,
+    // Ficou na cartela 3 por engano e nunca foi creditado
+    envio('e3', { numeroCartelaAtendida: 3 }),
+    envio('e4', { numeroCartelaAtendida: 2, valorPontosReaisRecebido: 50 }),
+];
+
+const livroRazao = (valor: number) => ({ _sum: { valor } });
+
+describe('RecalculoRecompensaService', () => {
+    let service: RecalculoRecompensaService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                RecalculoRecompensaService,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: RecompensaService, useValue: mockRecompensaService },
+            ],
+        }).compile();
+
+        service = module.get<RecalculoRecompensaService>(RecalculoRecompensaService);
+        jest.clearAllMocks();
+
+        mockPrismaService.campanha.findUnique.mockResolvedValue(campanha);
+        mockPrismaService.usuario.findUnique.mockResolvedValue({
+            id: vendedorId,
+            nome: 'Ana',
+            nivel: 'OURO',
+            optica: { id: 'optica-1', matrizId: null, estado: 'SP' },
+        });
+        mockPrismaService.cartelaConcluida.findMany.mockResolvedValue([{ numeroCartela: 1 }]);
+        mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(livroRazao(220));
+        mockPrismaService.lancamentoSaldo.count.mockResolvedValue(0);
+        mockPrismaService.recompensaRetida.findMany.mockResolvedValue([]);
+        mockPrismaService.recalculoRecompensa.create.mockResolvedValue({ id: 'recalculo-1' });
+    });
+
+    it('should be defined', () => {
+        expect(service).toBeDefined();
+    });
+
+    describe('verificar', () => {
+        it('should report no divergence when cards and ledger match the replay', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(creditados);
+
+            const relatorio = await service.verificar(campanhaId, vendedorId);
+
+            expect(relatorio.divergente).toBe(false);
+            expect(relatorio.envios).toEqual([]);
+            expect(relatorio.cartelas).toEqual({ concluidas: [1], esperadas: [1], faltando: [], sobrando: [] });
+            expect(relatorio.valores).toEqual({ creditado: 220, esperado: 220, diferenca: 0 });
+        });
+
+        it('should detect misplaced orders, missing cards and the amount still owed', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(comDrift);
+
+            const relatorio = await service.verificar(campanhaId, vendedorId);
+
+            expect(relatorio.divergente).toBe(true);
+            expect(relatorio.enviosRealocados).toBe(1);
+            expect(relatorio.cartelas.esperadas).toEqual([1, 2]);
+            expect(relatorio.cartelas.faltando).toEqual([2]);
+            // Envios ainda não creditados: valor atual × multiplicador do nível (OURO 1.1)
+            expect(relatorio.envios).toEqual([
+                expect.objectContaining({ id: 'e3', cartelaAtual: 3, cartelaEsperada: 2, deveCreditar: true, valorEsperado: 110 }),
+                expect.objectContaining({ id: 'e4', cartelaAtual: 2, cartelaEsperada: 2, deveCreditar: true, valorEsperado: 55 }),
+            ]);
+            expect(relatorio.valores).toEqual({ creditado: 220, esperado: 385, diferenca: 165 });
+        });
+
+        it('should flag completed cards that are no longer complete', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(creditados);
+            mockPrismaService.cartelaConcluida.findMany.mockResolvedValue([{ numeroCartela: 1 }, { numeroCartela: 2 }]);
+
+            const relatorio = await service.verificar(campanhaId, vendedorId);
+
+            expect(relatorio.divergente).toBe(true);
+            expect(relatorio.cartelas.sobrando).toEqual([2]);
+        });
+
+        it('should report a negative difference when the ledger has more than expected', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(creditados);
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(livroRazao(300));
+
+            const relatorio = await service.verificar(campanhaId, vendedorId);
+
+            expect(relatorio.valores.diferenca).toBe(-80);
+            expect(relatorio.divergente).toBe(true);
+        });
+
+        it('should leave orders held by the budget out of the expected credit', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(comDrift);
+            mockPrismaService.cartelaConcluida.findMany.mockResolvedValue([{ numeroCartela: 1 }, { numeroCartela: 2 }]);
+            mockPrismaService.recompensaRetida.findMany.mockResolvedValue([
+                { numeroCartela: 2, enviosIds: ['e3', 'e4'] },
+            ]);
+
+            const relatorio = await service.verificar(campanhaId, vendedorId);
+
+            expect(relatorio.retidasPendentes).toEqual([2]);
+            expect(relatorio.cartelas.sobrando).toEqual([]);
+            expect(relatorio.valores.esperado).toBe(220);
+        });
+
+        it('should throw NotFoundException if the campaign does not exist', async () => {
+            mockPrismaService.campanha.findUnique.mockResolvedValue(null);
+
+            await expect(service.verificar(campanhaId, vendedorId)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('aplicar', () => {
+        it('should reallocate, credit the missing orders and post the difference as AJUSTE_RECALCULO', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(comDrift);
+
+            const resultado = await service.aplicar(campanhaId, vendedorId, dto, 'admin-uuid');
+
+            expect(resultado).toEqual(expect.objectContaining({ recalculoId: 'recalculo-1', valorAjuste: 165 }));
+            expect(mockPrismaService.envioVenda.update).toHaveBeenCalledTimes(2);
+            expect(mockPrismaService.envioVenda.update).toHaveBeenCalledWith({
+                where: { id: 'e3' },
+                data: {
+                    numeroCartelaAtendida: 2,
+                    pontosAdicionadosAoSaldo: true,
+                    multiplicadorAplicado: expect.closeTo(1.1),
+                    valorFinalComEvento: 110,
+                },
+            });
+            expect(mockPrismaService.cartelaConcluida.createMany).toHaveBeenCalledWith({
+                data: [{ vendedorId, campanhaId, numeroCartela: 2 }],
+                skipDuplicates: true,
+            });
+            expect(mockPrismaService.cartelaConcluida.deleteMany).not.toHaveBeenCalled();
+            expect(mockRecompensaService.garantirProximaCartela).toHaveBeenCalledWith(mockPrismaService, campanhaId, 2);
+
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: vendedorId },
+                data: { saldoPontos: { increment: 165 } },
+            });
+            expect(mockPrismaService.lancamentoSaldo.createMany).toHaveBeenCalledWith({
+                data: [
+                    expect.objectContaining({
+                        tipo: 'AJUSTE_RECALCULO',
+                        valor: 165,
+                        campanhaId,
+                        enviosIds: ['e3', 'e4'],
+                        adminId: 'admin-uuid',
+                        usuarioId: vendedorId,
+                    }),
+                ],
+            });
+            expect(mockPrismaService.recalculoRecompensa.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    justificativa: dto.justificativa,
+                    enviosRealocados: 1,
+                    cartelasCriadas: 1,
+                    cartelasRemovidas: 0,
+                    valorAjuste: 165,
+                }),
+            });
+        });
+
+        it('should debit the excess and remove cards no longer complete', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(creditados);
+            mockPrismaService.cartelaConcluida.findMany.mockResolvedValue([{ numeroCartela: 1 }, { numeroCartela: 2 }]);
+            mockPrismaService.lancamentoSaldo.aggregate.mockResolvedValue(livroRazao(300));
+
+            await service.aplicar(campanhaId, vendedorId, dto, 'admin-uuid');
+
+            expect(mockPrismaService.cartelaConcluida.deleteMany).toHaveBeenCalledWith({
+                where: { vendedorId, campanhaId, numeroCartela: { in: [2] } },
+            });
+            expect(mockPrismaService.usuario.update).toHaveBeenCalledWith({
+                where: { id: vendedorId },
+                data: { saldoPontos: { decrement: 80 } },
+            });
+        });
+
+        it('should refuse to correct while rewards are held by the budget', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(comDrift);
+            mockPrismaService.recompensaRetida.findMany.mockResolvedValue([{ numeroCartela: 2, enviosIds: ['e3', 'e4'] }]);
+
+            await expect(service.aplicar(campanhaId, vendedorId, dto, 'admin-uuid')).rejects.toThrow(
+                BadRequestException,
+            );
+            expect(mockPrismaService.usuario.update).not.toHaveBeenCalled();
+        });
+
+        it('should refuse to correct when nothing diverges', async () => {
+            mockPrismaService.envioVenda.findMany.mockResolvedValue(creditados);
+
+            await expect(service.aplicar(campanhaId, vendedorId, dto, 'admin-uuid')).rejects.toThrow(
+                'Nenhuma divergência a corrigir.',
+            );
+            expect(mockPrismaService.recalculoRecompensa.create).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,518 @@
+/**
+ * ============================================================================
+ * RECALCULO RECOMPENSA SERVICE - Replay e Detecção de Divergências
+ * ============================================================================
+ *
+ * Descrição:
+ * Refaz do zero, para um vendedor em uma campanha, o que a validação e o
+ * RecompensaService deveriam ter produzido e compara com o que está gravado:
+ *
+ * 1. Spillover: envios VALIDADO em ordem de validação; por requisito (ordem),
+ *    o envio i vai para a cartela floor(i / quantidade) + 1
+ * 2. Cartelas concluídas: da 1 em diante, enquanto todos os requisitos da
+ *    cartela (ou da última existente, auto-replicante) estão atendidos, até o
+ *    limite de cartelas da campanha
+ * 3. Valores: soma do valor final dos envios que devem estar creditados,
+ *    comparada aos lançamentos da campanha no livro-razão do vendedor
+ *
+ * Envios já creditados de cartela que deixou de estar completa (estorno)
+ * continuam creditados, como no estorno. O valor de um envio já creditado é o
+ * gravado na época (valorFinalComEvento); envios ainda não creditados são
+ * calculados com as regras atuais (eventos, política, nível e curva de
+ * recompensa da cartela).
+ *
+ * A correção (opcional, pelo admin) realoca os envios, acerta CartelaConcluida
+ * e os envios a creditar, lança a diferença como AJUSTE_RECALCULO e grava um
+ * RecalculoRecompensa com o relatório (trilha de auditoria). Comissões de
+ * gerentes não são recalculadas.
+ *
+ * @module RecompensaModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Prisma,
+  StatusEnvioVenda,
+  StatusRecompensaRetida,
+  TipoLancamentoSaldo,
+} from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { arredondarCentavos, movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { multiplicadorDoNivel } from '../niveis/helpers/nivel.helper';
+import { combinarEventos, eventoSeAplica } from '../campanhas/helpers/evento-especial.helper';
+import {
+  acimaDoLimiteCartelas,
+  fatorDaCurva,
+  marcarEnviosAcimaDoLimite,
+} from '../campanhas/helpers/curva-recompensa.helper';
+import { RecompensaService } from './recompensa.service';
+import { AplicarRecalculoDto } from './dto/aplicar-recalculo.dto';
+
+/**
+ * Lançamentos do vendedor que compõem o que ele recebeu da campanha
+ */
+const TIPOS_CREDITO_VENDEDOR: TipoLancamentoSaldo[] = [
+  TipoLancamentoSaldo.CREDITO_CARTELA,
+  TipoLancamentoSaldo.BONUS_EVENTO,
+  TipoLancamentoSaldo.REVERSAO_VALIDACAO,
+  TipoLancamentoSaldo.ESTORNO_ENVIO,
+  TipoLancamentoSaldo.AJUSTE_RECALCULO,
+];
+
+/**
+ * Envio no replay (apenas os divergentes vão para o relatório)
+ */
+export interface EnvioRecalculado {
+  id: string;
+  numeroPedido: string;
+  ordemRequisito: number;
+  cartelaAtual: number | null;
+  cartelaEsperada: number;
+  creditado: boolean;
+  deveCreditar: boolean;
+  /** Valor final esperado (0 se não deve estar creditado) */
+  valorEsperado: number;
+  /** Valor calculado agora (envio ainda não creditado) */
+  valorRecalculado: boolean;
+  multiplicadorEsperado: number;
+}
+
+/**
+ * Resultado do replay de um vendedor em uma campanha
+ */
+export interface RelatorioRecalculo {
+  geradoEm: Date;
+  campanha: { id: string; titulo: string };
+  vendedor: { id: string; nome: string };
+  /** Campanha.limiteCartelas (nulo = ilimitado) */
+  limiteCartelas: number | null;
+  totalEnvios: number;
+  /** Envios com cartela ou crédito divergente */
+  envios: EnvioRecalculado[];
+  enviosRealocados: number;
+  cartelas: {
+    concluidas: number[];
+    esperadas: number[];
+    /** Completas no replay, sem CartelaConcluida */
+    faltando: number[];
+    /** Com CartelaConcluida, incompletas no replay */
+    sobrando: number[];
+  };
+  valores: {
+    /** Soma dos lançamentos da campanha no livro-razão do vendedor */
+    creditado: number;
+    esperado: number;
+    /** esperado - creditado (positivo = falta creditar) */
+    diferenca: number;
+  };
+  /** Cartelas com recompensa retida pelo orçamento (fora do replay) */
+  retidasPendentes: number[];
+  /** Vendedor com saldo migrado (SALDO_INICIAL), não atribuível à campanha */
+  possuiSaldoInicial: boolean;
+  divergente: boolean;
+}
+
+/**
+ * Resumo por vendedor da verificação de uma campanha inteira
+ */
+export interface ResumoRecalculoVendedor {
+  vendedorId: string;
+  nome: string;
+  divergente: boolean;
+  enviosRealocados: number;
+  cartelasFaltando: number[];
+  cartelasSobrando: number[];
+  diferenca: number;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: RecalculoRecompensaService
+ * ============================================================================
+ */
+@Injectable()
+export class RecalculoRecompensaService {
+  private readonly logger = new Logger(RecalculoRecompensaService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   * @param recompensaService - Criação das cartelas auto-replicantes
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly recompensaService: RecompensaService,
+  ) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: verificar
+   * ==========================================================================
+   *
+   * Replay de um vendedor em uma campanha, sem alterar nada.
+   *
+   * @param campanhaId - Campanha
+   * @param vendedorId - Vendedor
+   * @throws NotFoundException se a campanha ou o vendedor não existirem
+   */
+  async verificar(campanhaId: string, vendedorId: string): Promise<RelatorioRecalculo> {
+    const { relatorio } = await this._replay(this.prisma, campanhaId, vendedorId);
+    return relatorio;
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: verificarCampanha
+   * ==========================================================================
+   *
+   * Replay de todos os vendedores com envios validados ou cartelas
+   * concluídas na campanha (divergentes primeiro).
+   *
+   * @param campanhaId - Campanha
+   * @throws NotFoundException se a campanha não existir
+   */
+  async verificarCampanha(campanhaId: string): Promise<ResumoRecalculoVendedor[]> {
+    const campanha = await this.prisma.campanha.findUnique({ where: { id: campanhaId }, select: { id: true } });
+    if (!campanha) {
+      throw new NotFoundException('Campanha não encontrada.');
+    }
+
+    const [comEnvios, comCartelas] = await Promise.all([
+      this.prisma.envioVenda.findMany({
+        where: { campanhaId, status: StatusEnvioVenda.VALIDADO },
+        select: { vendedorId: true },
+        distinct: ['vendedorId'],
+      }),
+      this.prisma.cartelaConcluida.findMany({
+        where: { campanhaId },
+        select: { vendedorId: true },
+        distinct: ['vendedorId'],
+      }),
+    ]);
+    const vendedoresIds = Array.from(new Set([...comEnvios, ...comCartelas].map((v) => v.vendedorId)));
+
+    const resumos: ResumoRecalculoVendedor[] = [];
+    for (const vendedorId of vendedoresIds) {
+      const { relatorio } = await this._replay(this.prisma, campanhaId, vendedorId);
+      resumos.push({
+        vendedorId,
+        nome: relatorio.vendedor.nome,
+        divergente: relatorio.divergente,
+        enviosRealocados: relatorio.enviosRealocados,
+        cartelasFaltando: relatorio.cartelas.faltando,
+        cartelasSobrando: relatorio.cartelas.sobrando,
+        diferenca: relatorio.valores.diferenca,
+      });
+    }
+
+    const divergentes = resumos.filter((r) => r.divergente).length;
+    this.logger.log(
+      `[RECALCULO] Campanha ${campanhaId}: ${divergentes} de ${resumos.length} vendedor(es) com divergência`,
+    );
+
+    return resumos.sort((a, b) => Number(b.divergente) - Number(a.divergente) || a.nome.localeCompare(b.nome));
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: aplicar
+   * ==========================================================================
+   *
+   * Refaz o replay na transação e corrige o que diverge (ver topo).
+   *
+   * @param campanhaId - Campanha
+   * @param vendedorId - Vendedor
+   * @param dto - Justificativa
+   * @param adminId - Admin responsável
+   * @throws NotFoundException se a campanha ou o vendedor não existirem
+   * @throws BadRequestException se não houver divergência ou houver recompensa retida
+   */
+  async aplicar(campanhaId: string, vendedorId: string, dto: AplicarRecalculoDto, adminId: string) {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const { relatorio, envios } = await this._replay(tx, campanhaId, vendedorId);
+
+        if (relatorio.retidasPendentes.length > 0) {
+          throw new BadRequestException(
+            `Há recompensas retidas pelo orçamento (cartelas ${relatorio.retidasPendentes.join(', ')}). Libere ou ajuste o orçamento antes de corrigir.`,
+          );
+        }
+
+        if (!relatorio.divergente) {
+          throw new BadRequestException('Nenhuma divergência a corrigir.');
+        }
+
+        // Spillover e envios a creditar
+        for (const envio of envios) {
+          const creditar = envio.deveCreditar && !envio.creditado;
+          if (envio.cartelaAtual === envio.cartelaEsperada && !creditar) continue;
+
+          await tx.envioVenda.update({
+            where: { id: envio.id },
+            data: {
+              numeroCartelaAtendida: envio.cartelaEsperada,
+              ...(creditar && {
+                pontosAdicionadosAoSaldo: true,
+                multiplicadorAplicado: envio.multiplicadorEsperado,
+                valorFinalComEvento: envio.valorEsperado,
+              }),
+            },
+          });
+        }
+
+        await marcarEnviosAcimaDoLimite(tx, campanhaId, relatorio.limiteCartelas, vendedorId);
+
+        // Cartelas concluídas
+        if (relatorio.cartelas.sobrando.length > 0) {
+          await tx.cartelaConcluida.deleteMany({
+            where: { vendedorId, campanhaId, numeroCartela: { in: relatorio.cartelas.sobrando } },
+          });
+        }
+        if (relatorio.cartelas.faltando.length > 0) {
+          await tx.cartelaConcluida.createMany({
+            data: relatorio.cartelas.faltando.map((numeroCartela) => ({ vendedorId, campanhaId, numeroCartela })),
+            skipDuplicates: true,
+          });
+        }
+        for (const numeroCartela of relatorio.cartelas.esperadas) {
+          await this.recompensaService.garantirProximaCartela(tx, campanhaId, numeroCartela);
+        }
+
+        // Diferença de valores no livro-razão
+        const valorAjuste = relatorio.valores.diferenca;
+        if (valorAjuste !== 0) {
+          await movimentarSaldo(tx, vendedorId, [
+            {
+              tipo: TipoLancamentoSaldo.AJUSTE_RECALCULO,
+              valor: valorAjuste,
+              descricao: `Recálculo de recompensas - ${relatorio.campanha.titulo}: ${dto.justificativa}`,
+              campanhaId,
+              enviosIds: relatorio.envios.map((e) => e.id),
+              adminId,
+            },
+          ]);
+        }
+
+        const recalculo = await tx.recalculoRecompensa.create({
+          data: {
+            campanhaId,
+            vendedorId,
+            adminId,
+            justificativa: dto.justificativa,
+            enviosRealocados: relatorio.enviosRealocados,
+            cartelasCriadas: relatorio.cartelas.faltando.length,
+            cartelasRemovidas: relatorio.cartelas.sobrando.length,
+            valorAjuste,
+            detalhesJson: relatorio as any,
+          },
+        });
+
+        await tx.notificacao.create({
+          data: {
+            usuarioId: vendedorId,
+            mensagem:
+              valorAjuste !== 0
+                ? `Suas recompensas na campanha '${relatorio.campanha.titulo}' foram recalculadas. Ajuste de R$ ${valorAjuste.toFixed(2)} no seu saldo.`
+                : `Suas cartelas na campanha '${relatorio.campanha.titulo}' foram recalculadas.`,
+          },
+        });
+
+        this.logger.log(
+          `[RECALCULO] Admin ${adminId} corrigiu ${relatorio.vendedor.nome} na campanha ${relatorio.campanha.titulo}: ` +
+            `${relatorio.enviosRealocados} envio(s) realocados, cartelas +[${relatorio.cartelas.faltando.join(', ')}] ` +
+            `-[${relatorio.cartelas.sobrando.join(', ')}], ajuste R$ ${valorAjuste.toFixed(2)}`,
+        );
+
+        return { recalculoId: recalculo.id, valorAjuste, relatorio };
+      },
+      { timeout: 60000 }, // Pode criar várias cartelas auto-replicantes
+    );
+  }
+
+  /**
+   * Replay do vendedor na campanha (ver topo).
+   *
+   * @private
+   */
+  private async _replay(
+    cliente: Prisma.TransactionClient,
+    campanhaId: string,
+    vendedorId: string,
+  ): Promise<{ relatorio: RelatorioRecalculo; envios: EnvioRecalculado[] }> {
+    const [campanha, vendedor] = await Promise.all([
+      cliente.campanha.findUnique({
+        where: { id: campanhaId },
+        include: {
+          cartelas: {
+            orderBy: { numeroCartela: 'asc' },
+            include: { requisitos: { select: { ordem: true, quantidade: true } } },
+          },
+          eventosEspeciais: { where: { ativo: true } },
+        },
+      }),
+      cliente.usuario.findUnique({
+        where: { id: vendedorId },
+        select: {
+          id: true,
+          nome: true,
+          nivel: true,
+          optica: { select: { id: true, matrizId: true, estado: true } },
+        },
+      }),
+    ]);
+
+    if (!campanha) {
+      throw new NotFoundException('Campanha não encontrada.');
+    }
+    if (!vendedor) {
+      throw new NotFoundException('Vendedor não encontrado.');
+    }
+
+    const [enviosValidados, concluidas, soma, retidas, saldoInicial] = await Promise.all([
+      cliente.envioVenda.findMany({
+        where: { campanhaId, vendedorId, status: StatusEnvioVenda.VALIDADO },
+        include: { requisito: { select: { ordem: true, quantidade: true } } },
+        orderBy: [{ dataValidacao: 'asc' }, { id: 'asc' }],
+      }),
+      cliente.cartelaConcluida.findMany({
+        where: { campanhaId, vendedorId },
+        select: { numeroCartela: true },
+        orderBy: { numeroCartela: 'asc' },
+      }),
+      cliente.lancamentoSaldo.aggregate({
+        where: { usuarioId: vendedorId, campanhaId, tipo: { in: TIPOS_CREDITO_VENDEDOR } },
+        _sum: { valor: true },
+      }),
+      cliente.recompensaRetida.findMany({
+        where: {
+          campanhaId,
+          vendedorId,
+          status: { in: [StatusRecompensaRetida.ENFILEIRADA, StatusRecompensaRetida.BLOQUEADA] },
+        },
+        select: { numeroCartela: true, enviosIds: true },
+      }),
+      cliente.lancamentoSaldo.count({
+        where: { usuarioId: vendedorId, tipo: TipoLancamentoSaldo.SALDO_INICIAL },
+      }),
+    ]);
+
+    // ------------------------------------------------------------------------
+    // 1. Spillover
+    // ------------------------------------------------------------------------
+    const contagemPorOrdem = new Map<number, number>();
+    const alocados = enviosValidados.map((envio) => {
+      const indice = contagemPorOrdem.get(envio.requisito.ordem) ?? 0;
+      contagemPorOrdem.set(envio.requisito.ordem, indice + 1);
+      return { envio, cartelaEsperada: Math.floor(indice / envio.requisito.quantidade) + 1 };
+    });
+
+    // ------------------------------------------------------------------------
+    // 2. Cartelas concluídas (cartela inexistente = réplica da última existente)
+    // ------------------------------------------------------------------------
+    const requisitosDaCartela = (numeroCartela: number) =>
+      [...campanha.cartelas].reverse().find((c) => c.numeroCartela <= numeroCartela)?.requisitos ?? [];
+
+    const esperadas: number[] = [];
+    for (
+      let numeroCartela = 1;
+      !acimaDoLimiteCartelas(campanha.limiteCartelas, numeroCartela);
+      numeroCartela++
+    ) {
+      const requisitos = requisitosDaCartela(numeroCartela);
+      const completa =
+        requisitos.length > 0 &&
+        requisitos.every(
+          (req) =>
+            alocados.filter((a) => a.cartelaEsperada === numeroCartela && a.envio.requisito.ordem === req.ordem)
+              .length >= req.quantidade,
+        );
+      if (!completa) break;
+      esperadas.push(numeroCartela);
+    }
+
+    // ------------------------------------------------------------------------
+    // 3. Valores
+    // ------------------------------------------------------------------------
+    const enviosRetidos = new Set(retidas.flatMap((r) => r.enviosIds as string[]));
+    const multiplicadorNivel = multiplicadorDoNivel(campanha.multiplicadoresNivel, vendedor.nivel);
+
+    const envios: EnvioRecalculado[] = alocados.map(({ envio, cartelaEsperada }) => {
+      const creditado = envio.pontosAdicionadosAoSaldo;
+      const deveCreditar = !enviosRetidos.has(envio.id) && (creditado || esperadas.includes(cartelaEsperada));
+      const valorRecalculado = deveCreditar && (!creditado || envio.valorFinalComEvento === null);
+
+      let multiplicadorEsperado = Number(envio.multiplicadorAplicado);
+      let valorEsperado = deveCreditar ? Number(envio.valorFinalComEvento ?? 0) : 0;
+
+      if (valorRecalculado) {
+        const valorOriginal = Number(envio.valorPontosReaisRecebido ?? 0);
+        const bonus = combinarEventos(
+          campanha.eventosEspeciais.filter((evento) =>
+            eventoSeAplica(evento, {
+              dataEnvio: envio.dataEnvio,
+              optica: vendedor.optica,
+              ordemRequisito: envio.requisito.ordem,
+              codigoReferencia: envio.codigoReferenciaUsado,
+            }),
+          ),
+          campanha.politicaEventos,
+          valorOriginal,
+        );
+        multiplicadorEsperado =
+          bonus.multiplicador * multiplicadorNivel * fatorDaCurva(campanha.curvaRecompensa, cartelaEsperada);
+        valorEsperado = arredondarCentavos(valorOriginal * multiplicadorEsperado + bonus.bonusFixo);
+      }
+
+      return {
+        id: envio.id,
+        numeroPedido: envio.numeroPedido,
+        ordemRequisito: envio.requisito.ordem,
+        cartelaAtual: envio.numeroCartelaAtendida,
+        cartelaEsperada,
+        creditado,
+        deveCreditar,
+        valorEsperado,
+        valorRecalculado,
+        multiplicadorEsperado,
+      };
+    });
+
+    const numerosConcluidos = concluidas.map((c) => c.numeroCartela);
+    const cartelasRetidas = retidas.map((r) => r.numeroCartela);
+    const creditado = arredondarCentavos(Number(soma._sum.valor ?? 0));
+    const esperado = arredondarCentavos(envios.reduce((acc, e) => acc + e.valorEsperado, 0));
+    const divergentes = envios.filter(
+      (e) => e.cartelaAtual !== e.cartelaEsperada || e.deveCreditar !== e.creditado,
+    );
+
+    const relatorio: RelatorioRecalculo = {
+      geradoEm: new Date(),
+      campanha: { id: campanha.id, titulo: campanha.titulo },
+      vendedor: { id: vendedor.id, nome: vendedor.nome },
+      limiteCartelas: campanha.limiteCartelas,
+      totalEnvios: envios.length,
+      envios: divergentes,
+      enviosRealocados: envios.filter((e) => e.cartelaAtual !== e.cartelaEsperada).length,
+      cartelas: {
+        concluidas: numerosConcluidos,
+        esperadas,
+        faltando: esperadas.filter((n) => !numerosConcluidos.includes(n)),
+        // Cartela retida já tem CartelaConcluida: não é sobra
+        sobrando: numerosConcluidos.filter((n) => !esperadas.includes(n) && !cartelasRetidas.includes(n)),
+      },
+      valores: { creditado, esperado, diferenca: arredondarCentavos(esperado - creditado) },
+      retidasPendentes: cartelasRetidas,
+      possuiSaldoInicial: saldoInicial > 0,
+      divergente: false,
+    };
+    relatorio.divergente =
+      divergentes.length > 0 ||
+      relatorio.cartelas.faltando.length > 0 ||
+      relatorio.cartelas.sobrando.length > 0 ||
+      relatorio.valores.diferenca !== 0;
+
+    return { relatorio, envios };
+  }
+}
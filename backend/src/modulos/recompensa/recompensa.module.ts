@@ -1,13 +1,31 @@
 import { Module } from '@nestjs/common';
 import { RecompensaService } from './recompensa.service';
+import { OrcamentoCampanhaService } from './orcamento-campanha.service';
+import { EstornoRecompensaService } from './estorno-recompensa.service';
+import { ComissaoGerenteService } from './comissao-gerente.service';
+import { RecalculoRecompensaService } from './recalculo-recompensa.service';
 
 /**
  * Modulo de Recompensa
  * - Exporta o serviço para ser usado em outros módulos como plugin
- * - Não possui controlador HTTP
+ * - Não possui controlador HTTP (o orçamento, as regras de comissão e o
+ *   recálculo de recompensas ficam no CampanhaController e o estorno é
+ *   disparado via EnvioVendaController)
  */
 @Module({
-  providers: [RecompensaService],
-  exports: [RecompensaService], // fundamental: habilita injeção cross-module
+  providers: [
+    RecompensaService,
+    OrcamentoCampanhaService,
+    EstornoRecompensaService,
+    ComissaoGerenteService,
+    RecalculoRecompensaService,
+  ],
+  exports: [
+    RecompensaService,
+    OrcamentoCampanhaService,
+    EstornoRecompensaService,
+    ComissaoGerenteService,
+    RecalculoRecompensaService,
+  ], // fundamental: habilita injeção cross-module
 })
 export class RecompensaModule {}
@@ -14,20 +14,83 @@
  * - MUDANÇA CRÍTICA: Multiplicador calculado POR ENVIO (baseado em dataEnvio)
  * - MUDANÇA CRÍTICA: Adiciona ao saldo do vendedor/gerente (não cria RelatorioFinanceiro)
  * - MUDANÇA CRÍTICA: Comissão do gerente sobre valor ORIGINAL (sem multiplicador)
+ * - Comissões de gerentes calculadas pelas regras da campanha (ComissaoGerenteService)
+ * - Curva de recompensa por cartela e limite de cartelas por vendedor
+ *   (Campanha.curvaRecompensa / Campanha.limiteCartelas)
  * ============================================================================
  */
 
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { Prisma, PrismaClient, Usuario, Campanha, EnvioVenda } from '@prisma/client';
+import { arredondarCentavos, movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { OrcamentoCampanhaService } from './orcamento-campanha.service';
+import { ComissaoGerenteService } from './comissao-gerente.service';
+import { multiplicadorDoNivel, rotuloNivel } from '../niveis/helpers/nivel.helper';
+import { combinarEventos, eventoSeAplica } from '../campanhas/helpers/evento-especial.helper';
+import { acimaDoLimiteCartelas, fatorDaCurva } from '../campanhas/helpers/curva-recompensa.helper';
 
 // Tipo de client transacional para uso seguro do tx:
 type PrismaTx = Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use'>;
 
+/**
+ * Efeitos colaterais produzidos por processarGatilhos.
+ *
+ * Coletados (opcionalmente) pelo chamador para permitir desfazer uma execução
+ * de validação: cartelas concluídas, cartelas N+1 auto-criadas, créditos
+ * adicionados ao saldo de vendedores/gerentes e recompensas retidas pelo
+ * orçamento da campanha.
+ */
+export interface EfeitosRecompensa {
+  cartelasConcluidas: {
+    id: string;
+    vendedorId: string;
+    campanhaId: string;
+    numeroCartela: number;
+  }[];
+  cartelasCriadas: {
+    regraCartelaId: string;
+    campanhaId: string;
+    numeroCartela: number;
+  }[];
+  creditos: {
+    usuarioId: string;
+    papel: 'VENDEDOR' | 'GERENTE';
+    valor: number;
+    campanhaId: string;
+    numeroCartela: number;
+    enviosIds: string[];
+  }[];
+  recompensasRetidas: {
+    id: string;
+    campanhaId: string;
+    numeroCartela: number;
+  }[];
+}
+
+/**
+ * Cria um coletor de efeitos vazio.
+ */
+export const criarEfeitosRecompensa = (): EfeitosRecompensa => ({
+  cartelasConcluidas: [],
+  cartelasCriadas: [],
+  creditos: [],
+  recompensasRetidas: [],
+});
+
 @Injectable()
 export class RecompensaService {
   private readonly logger = new Logger(RecompensaService.name);
 
+  /**
+   * @param orcamentoCampanhaService - Teto de pontos comprometidos por campanha
+   * @param comissaoGerenteService - Regras de comissão de gerentes da campanha
+   */
+  constructor(
+    private readonly orcamentoCampanhaService: OrcamentoCampanhaService,
+    private readonly comissaoGerenteService: ComissaoGerenteService,
+  ) {}
+
   /**
    * ============================================================================
    * PROCESSAR GATILHOS DE RECOMPENSA (REFATORADO - V7.1 - FIX RECURSIVO)
@@ -54,6 +117,7 @@ export class RecompensaService {
    * @param envioValidado - Envio de venda que foi validado
    * @param campanha - Campanha à qual o envio pertence
    * @param vendedor - Vendedor que completou a cartela (inclui gerente se houver)
+   * @param efeitos - Coletor opcional dos efeitos aplicados (reversão de validação)
    * @returns Promise<void>
    *
    * @throws {Error} Se operação falhar (causa rollback da transação principal)
@@ -65,12 +129,16 @@ export class RecompensaService {
     tx: Prisma.TransactionClient,
     envioValidado: EnvioVenda,
     campanha: Campanha,
-    vendedor: Usuario & { gerente: Usuario | null }
+    vendedor: Usuario & { gerente: Usuario | null },
+    efeitos?: EfeitosRecompensa
   ): Promise<void> {
     // Gatilho 1 — Notificação simples (venda validada)
+    const mensagemLimite = envioValidado.acimaLimiteCartelas
+      ? ` Você já atingiu o limite de ${campanha.limiteCartelas} cartela(s) da campanha: esta venda não gera pontos.`
+      : '';
     await tx.notificacao.create({
       data: {
-        mensagem: `Sua venda '${envioValidado.numeroPedido}' foi APROVADA.`,
+        mensagem: `Sua venda '${envioValidado.numeroPedido}' foi APROVADA.${mensagemLimite}`,
         usuarioId: vendedor.id,
       },
     });
@@ -81,10 +149,53 @@ export class RecompensaService {
       tx,
       campanha,
       vendedor,
-      envioValidado.numeroCartelaAtendida!
+      envioValidado.numeroCartelaAtendida!,
+      efeitos
     );
   }
 
+  /**
+   * Reanalisa as cartelas do vendedor a partir de `numeroCartela`, sem a
+   * notificação de venda aprovada.
+   *
+   * Usado pelo estorno de envio depois de realocar os envios restantes e
+   * remover as CartelaConcluida afetadas: cartelas que continuam completas são
+   * concluídas de novo e apenas os envios ainda não creditados recebem pontos.
+   *
+   * @param tx - Prisma Transaction Client
+   * @param campanha - Campanha
+   * @param vendedor - Vendedor (com gerente)
+   * @param numeroCartela - Primeira cartela a analisar
+   * @param efeitos - Coletor opcional dos efeitos aplicados
+   */
+  public async reanalisarCartelas(
+    tx: Prisma.TransactionClient,
+    campanha: Campanha,
+    vendedor: Usuario & { gerente: Usuario | null },
+    numeroCartela: number,
+    efeitos?: EfeitosRecompensa
+  ): Promise<void> {
+    await this._analisarCartelasRecursivamente(tx, campanha, vendedor, numeroCartela, efeitos);
+  }
+
+  /**
+   * Garante que a cartela seguinte a `numeroCartela` exista (auto-replicante).
+   *
+   * Usado pelo recálculo de recompensas ao concluir cartelas fora do fluxo de
+   * validação.
+   *
+   * @param tx - Prisma Transaction Client
+   * @param campanhaId - ID da campanha
+   * @param numeroCartela - Cartela concluída
+   */
+  public async garantirProximaCartela(
+    tx: Prisma.TransactionClient,
+    campanhaId: string,
+    numeroCartela: number
+  ): Promise<void> {
+    await this._criarProximaCartelaSeNecessario(tx, campanhaId, numeroCartela);
+  }
+
   /**
    * ============================================================================
    * ANÁLISE RECURSIVA DE CARTELAS (REFATORADO - V7.2 - FIX CASCADING FAILURE)
@@ -104,8 +215,9 @@ export class RecompensaService {
    * - Bug C (Falha em Cascata): Separação entre "já processada" e "continuar"
    *
    * Fluxo Recursivo CORRIGIDO:
+   * 0. SE a cartela passa do limite da campanha: Para recursão (sem recompensa)
    * 1. Verifica se cartela ATUAL está completa para este vendedor
-   * 2. SE NÃO completa: Para recursão (aguarda mais pedidos) ← ÚNICO PONTO DE PARADA
+   * 2. SE NÃO completa: Para recursão (aguarda mais pedidos)
    * 3. SE completa:
    *    a. [AÇÃO 1] Tenta criar registro no livro-razão (idempotência via P2002)
    *    b. [AÇÃO 2] Aplica recompensas APENAS se não foi processada antes
@@ -119,6 +231,7 @@ export class RecompensaService {
    * @param campanha - Campanha
    * @param vendedor - Vendedor (com gerente) ← vendedorId passado corretamente
    * @param numeroCartela - Número da cartela a analisar
+   * @param efeitos - Coletor opcional dos efeitos aplicados
    * @returns Promise<void>
    *
    * @private
@@ -127,12 +240,21 @@ export class RecompensaService {
     tx: Prisma.TransactionClient,
     campanha: Campanha,
     vendedor: Usuario & { gerente: Usuario | null },
-    numeroCartela: number
+    numeroCartela: number,
+    efeitos?: EfeitosRecompensa
   ): Promise<void> {
     this.logger.log(
       `\n[RECURSÃO C${numeroCartela}] 🔍 Analisando cartela ${numeroCartela} (Vendedor: ${vendedor.nome}, ID: ${vendedor.id})`
     );
 
+    // Cartelas além do limite da campanha não geram recompensa
+    if (acimaDoLimiteCartelas(campanha.limiteCartelas, numeroCartela)) {
+      this.logger.log(
+        `[RECURSÃO C${numeroCartela}] 🛑 Cartela ${numeroCartela} além do limite de ${campanha.limiteCartelas} cartela(s). Parando recursão.`
+      );
+      return;
+    }
+
     // ========================================
     // PASSO 1: Verificar se cartela está completa
     // ========================================
@@ -147,7 +269,7 @@ export class RecompensaService {
       this.logger.log(
         `[RECURSÃO C${numeroCartela}] ⏸️  Cartela ${numeroCartela} NÃO está completa. Parando recursão (aguardando mais pedidos).`
       );
-      return; // ← ÚNICO PONTO DE PARADA: Cartela incompleta
+      return; // ← Cartela incompleta
     }
 
     this.logger.log(
@@ -175,13 +297,19 @@ export class RecompensaService {
         `[RECURSÃO C${numeroCartela}] ℹ️ Cartela ${numeroCartela} já possui registro no livro-razão (id=${cartelaJaConcluida.id}).`
       );
     } else {
-      await tx.cartelaConcluida.create({
+      const cartelaConcluida = await tx.cartelaConcluida.create({
         data: {
           vendedorId: vendedor.id,
           campanhaId: campanha.id,
           numeroCartela,
         },
       });
+      efeitos?.cartelasConcluidas.push({
+        id: cartelaConcluida.id,
+        vendedorId: vendedor.id,
+        campanhaId: campanha.id,
+        numeroCartela,
+      });
       this.logger.log(
         `[RECURSÃO C${numeroCartela}] 📝 Registro criado no livro-razão (CartelaConcluida).`
       );
@@ -194,7 +322,7 @@ export class RecompensaService {
       this.logger.log(
         `[RECURSÃO C${numeroCartela}] 💰 Aplicando recompensas para Cartela ${numeroCartela}...`
       );
-      await this._aplicarRecompensas(tx, campanha, vendedor, numeroCartela);
+      await this._aplicarRecompensas(tx, campanha, vendedor, numeroCartela, efeitos);
       this.logger.log(
         `[RECURSÃO C${numeroCartela}] ✅ Recompensas aplicadas (pontos adicionados ao saldo).`
       );
@@ -210,7 +338,7 @@ export class RecompensaService {
     this.logger.log(
       `[RECURSÃO C${numeroCartela}] 🔧 Garantindo que estrutura da Cartela ${numeroCartela + 1} existe...`
     );
-    await this._criarProximaCartelaSeNecessario(tx, campanha.id, numeroCartela);
+    await this._criarProximaCartelaSeNecessario(tx, campanha.id, numeroCartela, efeitos);
 
     // ========================================
     // AÇÃO 6: RECURSÃO - Analisar próxima cartela (SEMPRE, independente de idempotência)
@@ -221,7 +349,7 @@ export class RecompensaService {
     );
     
     // ✅ PROVA DE ESCOPO: vendedor.id está sendo passado (via objeto vendedor)
-    await this._analisarCartelasRecursivamente(tx, campanha, vendedor, proximaCartela);
+    await this._analisarCartelasRecursivamente(tx, campanha, vendedor, proximaCartela, efeitos);
     
     this.logger.log(
       `[RECURSÃO C${numeroCartela}] ✅ Análise recursiva concluída para ramificação C${numeroCartela}.`
@@ -330,13 +458,21 @@ export class RecompensaService {
    *
    * FLUXO:
    * 1. Buscar envios da cartela não processados (pontosAdicionadosAoSaldo = false)
-   * 2. Para cada envio, buscar evento ativo DURANTE dataEnvio
-   * 3. Calcular multiplicador e valor final por envio
+   * 2. Para cada envio, filtrar os eventos ativos DURANTE dataEnvio cuja
+   *    abrangência (ótica, UF, requisito, produto) inclui o envio
+   * 3. Combinar os eventos pela política da campanha (maior, multiplicar,
+   *    somar) e calcular valor final = original × (eventos × nível × curva)
+   *    + bônus fixos, onde curva é o fator da cartela em Campanha.curvaRecompensa
    * 4. Atualizar envios com multiplicadorAplicado e valorFinalComEvento
-   * 5. Somar valores originais (para comissão do gerente)
+   * 5. Somar valores originais com a curva (crédito da cartela e base da
+   *    comissão do gerente)
    * 6. Somar valores finais (para saldo do vendedor)
+   * 6.1. Calcular comissões de gerentes pelas regras da campanha (gerente
+   *      direto, override da matriz, bônus de equipe)
+   * 6.2. Verificar orçamento da campanha: se a recompensa ultrapassar o teto,
+   *      é retida (fila ou bloqueio) e nada é creditado
    * 7. Atualizar saldo do vendedor
-   * 8. Atualizar saldo do gerente (comissão sobre valor original)
+   * 8. Atualizar saldo dos gerentes (uma comissão por regra aplicada)
    * 9. Marcar envios como pontosAdicionadosAoSaldo = true
    * 10. Criar notificação de cartela completa
    *
@@ -344,6 +480,7 @@ export class RecompensaService {
    * @param campanha - Campanha com valores de recompensa
    * @param vendedor - Vendedor que completou a cartela (inclui gerente se houver)
    * @param numeroCartela - Número da cartela completada
+   * @param efeitos - Coletor opcional dos créditos aplicados
    * @returns Promise<void>
    *
    * @private
@@ -353,6 +490,7 @@ export class RecompensaService {
     campanha: Campanha,
     vendedor: Usuario & { gerente: Usuario | null },
     numeroCartela: number,
+    efeitos?: EfeitosRecompensa,
   ) {
     this.logger.log(
       `\n========== APLICANDO RECOMPENSAS - CARTELA ${numeroCartela} ==========`
@@ -371,6 +509,7 @@ export class RecompensaService {
         status: 'VALIDADO',
         pontosAdicionadosAoSaldo: false, // ✅ NOVO: Apenas não processados
       },
+      include: { requisito: { select: { ordem: true } } },
     });
 
     if (enviosDaCartela.length === 0) {
@@ -387,14 +526,40 @@ export class RecompensaService {
     // ========================================================================
     // PASSO 2: Calcular multiplicador POR ENVIO
     // ========================================================================
+    // Multiplicador do nível do vendedor (configurado na campanha), combinado
+    // com os eventos aplicáveis a cada envio
+    const multiplicadorNivel = multiplicadorDoNivel(campanha.multiplicadoresNivel, vendedor.nivel);
+    if (multiplicadorNivel !== 1) {
+      this.logger.log(`Nível ${vendedor.nivel}: multiplicador ${multiplicadorNivel}x`);
+    }
+
+    // Fator da curva de recompensa para o número desta cartela
+    const fatorCurva = fatorDaCurva(campanha.curvaRecompensa, numeroCartela);
+    const percentualCurva = Math.round(fatorCurva * 100);
+    if (fatorCurva !== 1) {
+      this.logger.log(`Curva de recompensa na Cartela ${numeroCartela}: ${percentualCurva}%`);
+    }
+
+    // Eventos ativos da campanha e ótica do vendedor (abrangência dos eventos)
+    const [eventosCampanha, opticaVendedor] = await Promise.all([
+      tx.eventoEspecial.findMany({ where: { campanhaId: campanha.id, ativo: true } }),
+      vendedor.opticaId
+        ? tx.optica.findUnique({
+            where: { id: vendedor.opticaId },
+            select: { id: true, matrizId: true, estado: true },
+          })
+        : null,
+    ]);
+
     type EnvioComCalculo = {
       id: string;
       numeroPedido: string;
       dataEnvio: Date;
       valorOriginal: number;
+      valorBase: number;
       multiplicador: number;
       valorFinal: number;
-      nomeEvento: string | null;
+      eventos: string[];
     };
 
     const enviosComCalculo: EnvioComCalculo[] = [];
@@ -412,34 +577,28 @@ export class RecompensaService {
       this.logger.log(`  Data Envio: ${envio.dataEnvio.toISOString()}`);
       this.logger.log(`  Valor Original: R$ ${valorOriginal.toFixed(2)}`);
 
-      // Buscar evento ativo DURANTE o envio
-      const eventoAtivo = await tx.eventoEspecial.findFirst({
-        where: {
-          campanhaId: campanha.id,
-          ativo: true,
-          dataInicio: { lte: envio.dataEnvio }, // ✅ CORRIGIDO: Usa dataEnvio
-          dataFim: { gte: envio.dataEnvio },     // ✅ CORRIGIDO: Usa dataEnvio
-        },
-      });
-
-      let multiplicador = 1.0;
-      let nomeEvento: string | null = null;
+      // Eventos ativos DURANTE o envio cuja abrangência inclui o envio
+      const eventosDoEnvio = eventosCampanha.filter((evento) =>
+        eventoSeAplica(evento, {
+          dataEnvio: envio.dataEnvio, // ✅ CORRIGIDO: Usa dataEnvio
+          optica: opticaVendedor,
+          ordemRequisito: envio.requisito?.ordem ?? null,
+          codigoReferencia: envio.codigoReferenciaUsado,
+        }),
+      );
+      const bonusEventos = combinarEventos(eventosDoEnvio, campanha.politicaEventos, valorOriginal);
 
-      if (eventoAtivo) {
-        multiplicador = eventoAtivo.multiplicador
-          ? (typeof eventoAtivo.multiplicador === 'object' && 'toNumber' in eventoAtivo.multiplicador
-              ? (eventoAtivo.multiplicador as any).toNumber()
-              : Number(eventoAtivo.multiplicador))
-          : 1.0;
-        nomeEvento = eventoAtivo.nome;
+      if (bonusEventos.eventos.length > 0) {
         this.logger.log(
-          `  ✅ Evento Ativo: "${eventoAtivo.nome}" (${multiplicador}x)`
+          `  ✅ Eventos (${campanha.politicaEventos}): ${bonusEventos.eventos.join(', ')} ` +
+            `(${bonusEventos.multiplicador}x + R$ ${bonusEventos.bonusFixo.toFixed(2)})`
         );
       } else {
         this.logger.log(`  ❌ Nenhum evento ativo durante o envio`);
       }
 
-      const valorFinal = valorOriginal * multiplicador;
+      const multiplicador = bonusEventos.multiplicador * multiplicadorNivel * fatorCurva;
+      const valorFinal = valorOriginal * multiplicador + bonusEventos.bonusFixo;
 
       this.logger.log(`  Multiplicador: ${multiplicador}x`);
       this.logger.log(`  Valor Final: R$ ${valorFinal.toFixed(2)}`);
@@ -449,14 +608,47 @@ export class RecompensaService {
         numeroPedido: envio.numeroPedido,
         dataEnvio: envio.dataEnvio,
         valorOriginal,
+        valorBase: valorOriginal * fatorCurva,
         multiplicador,
         valorFinal,
-        nomeEvento,
+        eventos: bonusEventos.eventos,
       });
     }
 
     // ========================================================================
-    // PASSO 3: Atualizar envios com multiplicador e valor final
+    // PASSO 3: Calcular totais e verificar o orçamento da campanha
+    // ========================================================================
+    // Valor da cartela pela curva (sem eventos e nível): crédito da cartela e base das comissões
+    const valorTotalBase = enviosComCalculo.reduce(
+      (acc, e) => acc + e.valorBase,
+      0
+    );
+    const valorTotalFinal = enviosComCalculo.reduce(
+      (acc, e) => acc + e.valorFinal,
+      0
+    );
+
+    this.logger.log(`\n--- TOTAIS ---`);
+    this.logger.log(`  Valor Total Base (curva): R$ ${valorTotalBase.toFixed(2)}`);
+    this.logger.log(`  Valor Total Final (com eventos): R$ ${valorTotalFinal.toFixed(2)}`);
+    this.logger.log(`  Ganho por Eventos: R$ ${(valorTotalFinal - valorTotalBase).toFixed(2)}`);
+
+    const comissoes = await this.comissaoGerenteService.calcular(
+      tx,
+      campanha,
+      vendedor,
+      numeroCartela,
+      valorTotalBase,
+    );
+    const valorGerentePrevisto = arredondarCentavos(comissoes.reduce((acc, c) => acc + c.valor, 0));
+    const orcamento = await this.orcamentoCampanhaService.avaliar(
+      tx,
+      campanha.id,
+      arredondarCentavos(valorTotalFinal) + valorGerentePrevisto,
+    );
+
+    // ========================================================================
+    // PASSO 4: Atualizar envios com multiplicador e valor final
     // ========================================================================
     this.logger.log(`\n--- Atualizando ${enviosComCalculo.length} envios com valores calculados ---`);
 
@@ -466,7 +658,7 @@ export class RecompensaService {
         data: {
           multiplicadorAplicado: envioCalc.multiplicador,
           valorFinalComEvento: envioCalc.valorFinal,
-          pontosAdicionadosAoSaldo: true, // ✅ Marca como processado
+          pontosAdicionadosAoSaldo: orcamento.dentroDoOrcamento, // ✅ Marca como processado (retida = não)
         },
       });
       this.logger.log(
@@ -474,22 +666,29 @@ export class RecompensaService {
       );
     }
 
-    // ========================================================================
-    // PASSO 4: Calcular totais
-    // ========================================================================
-    const valorTotalOriginal = enviosComCalculo.reduce(
-      (acc, e) => acc + e.valorOriginal,
-      0
-    );
-    const valorTotalFinal = enviosComCalculo.reduce(
-      (acc, e) => acc + e.valorFinal,
-      0
-    );
-
-    this.logger.log(`\n--- TOTAIS ---`);
-    this.logger.log(`  Valor Total Original: R$ ${valorTotalOriginal.toFixed(2)}`);
-    this.logger.log(`  Valor Total Final (com eventos): R$ ${valorTotalFinal.toFixed(2)}`);
-    this.logger.log(`  Ganho por Eventos: R$ ${(valorTotalFinal - valorTotalOriginal).toFixed(2)}`);
+    // Recompensa além do orçamento: retida (fila ou bloqueio), nada é creditado
+    if (!orcamento.dentroDoOrcamento) {
+      this.logger.warn(
+        `\n--- ORÇAMENTO ESGOTADO (R$ ${orcamento.comprometido.toFixed(2)} de R$ ${orcamento.orcamentoMaximo?.toFixed(2)}) - política ${orcamento.politica} ---`
+      );
+      const retidaId = await this.orcamentoCampanhaService.reter(
+        tx,
+        {
+          campanhaId: campanha.id,
+          vendedorId: vendedor.id,
+          numeroCartela,
+          valorOriginal: valorTotalBase,
+          valorFinal: valorTotalFinal,
+          gerenteId: vendedor.gerente?.id ?? null,
+          valorGerente: valorGerentePrevisto,
+          comissoes,
+          enviosIds: enviosComCalculo.map((e) => e.id),
+        },
+        orcamento.politica,
+      );
+      efeitos?.recompensasRetidas.push({ id: retidaId, campanhaId: campanha.id, numeroCartela });
+      return;
+    }
 
     // ========================================================================
     // PASSO 5: Atualizar saldo do VENDEDOR
@@ -505,11 +704,38 @@ export class RecompensaService {
           : Number(saldoAnteriorVendedor.saldoPontos))
       : 0;
 
-    await tx.usuario.update({
-      where: { id: vendedor.id },
-      data: {
-        saldoPontos: { increment: valorTotalFinal }, // ✅ Adiciona ao saldo
+    // Crédito da cartela + ganho por eventos em lançamentos separados no livro-razão
+    // (nível abaixo de 1x pode deixar o valor final abaixo do crédito da cartela)
+    const descricaoCurva = fatorCurva !== 1 ? ` (curva ${percentualCurva}%)` : '';
+    const referenciaCredito = {
+      campanhaId: campanha.id,
+      numeroCartela,
+      enviosIds: enviosComCalculo.map((e) => e.id),
+    };
+    const creditoVendedor = await movimentarSaldo(tx, vendedor.id, [
+      {
+        ...referenciaCredito,
+        tipo: 'CREDITO_CARTELA',
+        valor: Math.min(valorTotalBase, valorTotalFinal),
+        descricao: `Cartela ${numeroCartela} concluída${descricaoCurva} - ${campanha.titulo}`,
+      },
+      {
+        ...referenciaCredito,
+        tipo: 'BONUS_EVENTO',
+        valor: Math.max(valorTotalFinal - valorTotalBase, 0),
+        descricao:
+          multiplicadorNivel !== 1
+            ? `Bônus de eventos e nível ${rotuloNivel(vendedor.nivel)} (${multiplicadorNivel}x) na Cartela ${numeroCartela} - ${campanha.titulo}`
+            : `Bônus de eventos na Cartela ${numeroCartela} - ${campanha.titulo}`,
       },
+    ]);
+    efeitos?.creditos.push({
+      usuarioId: vendedor.id,
+      papel: 'VENDEDOR',
+      valor: creditoVendedor.valor,
+      campanhaId: campanha.id,
+      numeroCartela,
+      enviosIds: enviosComCalculo.map((e) => e.id),
     });
 
     this.logger.log(`\n--- SALDO VENDEDOR ---`);
@@ -518,70 +744,83 @@ export class RecompensaService {
     this.logger.log(`  Saldo Novo: R$ ${(saldoAnteriorVendedorNum + valorTotalFinal).toFixed(2)}`);
 
     // ========================================================================
-    // PASSO 6: Atualizar saldo do GERENTE (comissão sobre valor ORIGINAL)
+    // PASSO 6: Atualizar saldo dos GERENTES (comissões sobre valor ORIGINAL)
     // ========================================================================
-    const percentual = campanha.percentualGerente
-      ? (typeof campanha.percentualGerente === 'object' && 'toNumber' in campanha.percentualGerente
-          ? (campanha.percentualGerente as any).toNumber()
-          : Number(campanha.percentualGerente))
-      : 0;
-
-    if (percentual > 0 && vendedor.gerente) {
-      const valorComissaoGerente = valorTotalOriginal * percentual; // ✅ Sobre valor ORIGINAL (percentual já está em formato decimal 0.1 = 10%)
-
-      const saldoAnteriorGerente = await tx.usuario.findUnique({
-        where: { id: vendedor.gerente.id },
-        select: { saldoPontos: true },
-      });
+    if (comissoes.length === 0) {
+      this.logger.log(`\n--- SEM COMISSÃO PARA GERENTE ---`);
+      this.logger.log(
+        vendedor.gerente
+          ? `  Motivo: Nenhuma regra gerou comissão (percentual base = ${(Number(campanha.percentualGerente ?? 0) * 100).toFixed(0)}%)`
+          : `  Motivo: Vendedor não possui gerente associado`
+      );
+    }
 
-      const saldoAnteriorGerenteNum = saldoAnteriorGerente?.saldoPontos
-        ? (typeof saldoAnteriorGerente.saldoPontos === 'object' && 'toNumber' in saldoAnteriorGerente.saldoPontos
-            ? (saldoAnteriorGerente.saldoPontos as any).toNumber()
-            : Number(saldoAnteriorGerente.saldoPontos))
-        : 0;
+    for (const comissao of comissoes) {
+      const bonusEquipe = comissao.tipo === 'BONUS_EQUIPE';
+      // Bônus de equipe não pertence aos envios desta cartela (não é estornado por envio)
+      const enviosIdsComissao = bonusEquipe ? [] : enviosComCalculo.map((e) => e.id);
 
-      await tx.usuario.update({
-        where: { id: vendedor.gerente.id },
-        data: {
-          saldoPontos: { increment: valorComissaoGerente },
+      const creditoGerente = await movimentarSaldo(tx, comissao.gerenteId, [
+        {
+          tipo: comissao.tipo,
+          valor: comissao.valor,
+          descricao: comissao.descricao,
+          campanhaId: campanha.id,
+          numeroCartela,
+          enviosIds: bonusEquipe ? undefined : enviosIdsComissao,
+          regraComissaoId: comissao.regraComissaoId,
         },
+      ]);
+      efeitos?.creditos.push({
+        usuarioId: comissao.gerenteId,
+        papel: 'GERENTE',
+        valor: creditoGerente.valor,
+        campanhaId: campanha.id,
+        numeroCartela,
+        enviosIds: enviosIdsComissao,
       });
 
-      this.logger.log(`\n--- SALDO GERENTE ---`);
-      this.logger.log(`  Gerente: ${vendedor.gerente.nome} (ID: ${vendedor.gerente.id})`);
-      this.logger.log(`  Percentual: ${(percentual * 100).toFixed(0)}%`);
-      this.logger.log(`  Base de Cálculo: R$ ${valorTotalOriginal.toFixed(2)} (ORIGINAL, sem multiplicador)`);
-      this.logger.log(`  Comissão: R$ ${valorComissaoGerente.toFixed(2)}`);
-      this.logger.log(`  Saldo Anterior: R$ ${saldoAnteriorGerenteNum.toFixed(2)}`);
-      this.logger.log(`  Saldo Novo: R$ ${(saldoAnteriorGerenteNum + valorComissaoGerente).toFixed(2)}`);
-    } else {
-      this.logger.log(`\n--- SEM COMISSÃO PARA GERENTE ---`);
-      if (!vendedor.gerente) {
-        this.logger.log(`  Motivo: Vendedor não possui gerente associado`);
-      } else {
-        this.logger.log(`  Motivo: Percentual de comissão = ${(percentual * 100).toFixed(0)}%`);
+      if (bonusEquipe) {
+        await tx.notificacao.create({
+          data: {
+            usuarioId: comissao.gerenteId,
+            mensagem: `🏆 Toda a sua equipe concluiu a Cartela ${numeroCartela} da campanha '${campanha.titulo}'! Bônus de R$ ${comissao.valor.toFixed(2)} adicionado ao seu saldo.`,
+          },
+        });
       }
+
+      this.logger.log(`\n--- SALDO GERENTE ---`);
+      this.logger.log(`  Gerente: ${comissao.gerenteId} (regra: ${comissao.regraComissaoId ?? 'percentual base'})`);
+      this.logger.log(`  ${comissao.descricao}`);
+      this.logger.log(`  Comissão: R$ ${comissao.valor.toFixed(2)}`);
     }
 
     // ========================================================================
     // PASSO 7: Notificação de cartela completa
     // ========================================================================
     const eventosAplicados = enviosComCalculo
-      .filter((e) => e.nomeEvento)
-      .map((e) => e.nomeEvento)
+      .flatMap((e) => e.eventos)
       .filter((v, i, a) => a.indexOf(v) === i); // Unique
 
     const mensagemEventos = eventosAplicados.length > 0
       ? ` Eventos aplicados: ${eventosAplicados.join(', ')}.`
       : '';
+    const mensagemNivel = multiplicadorNivel !== 1
+      ? ` Bônus de nível ${rotuloNivel(vendedor.nivel)}: ${multiplicadorNivel}x.`
+      : '';
+    const mensagemCurva = fatorCurva !== 1
+      ? ` Esta cartela paga ${percentualCurva}% do valor dos produtos.`
+      : '';
 
     await tx.notificacao.create({
       data: {
-        mensagem: `🎉 Parabéns! Você completou a Cartela ${numeroCartela} da campanha '${campanha.titulo}'. R$ ${valorTotalFinal.toFixed(2)} adicionados ao seu saldo!${mensagemEventos}`,
+        mensagem: `🎉 Parabéns! Você completou a Cartela ${numeroCartela} da campanha '${campanha.titulo}'. R$ ${valorTotalFinal.toFixed(2)} adicionados ao seu saldo!${mensagemEventos}${mensagemNivel}${mensagemCurva}`,
         usuarioId: vendedor.id,
       },
     });
 
+    await this.orcamentoCampanhaService.verificarAlertas(tx, campanha.id);
+
     this.logger.log(`\n✅ Recompensas aplicadas com sucesso!`);
     this.logger.log(`========== FIM DA APLICAÇÃO DE RECOMPENSAS ==========\n`);
   }
@@ -599,11 +838,13 @@ export class RecompensaService {
    * - Se não existir, cria automaticamente
    * - Copia TODOS os requisitos mantendo a mesma ordem (crítico!)
    * - Copia TODAS as condições de validação
-   * - Permite que o spillover funcione infinitamente (Cartela 1 → 2 → 3 → ...)
+   * - Permite que o spillover continue (Cartela 1 → 2 → 3 → ...) até o limite
+   *   de cartelas da campanha (Campanha.limiteCartelas), se houver
    *
    * @param tx - Prisma Transaction Client para garantir atomicidade
    * @param campanhaId - ID da campanha
    * @param numeroCartelaCompleta - Número da cartela que acabou de ser completada
+   * @param efeitos - Coletor opcional das cartelas auto-criadas
    * @returns Promise<void>
    *
    * @private
@@ -611,10 +852,26 @@ export class RecompensaService {
   private async _criarProximaCartelaSeNecessario(
     tx: Prisma.TransactionClient,
     campanhaId: string,
-    numeroCartelaCompleta: number
+    numeroCartelaCompleta: number,
+    efeitos?: EfeitosRecompensa
   ): Promise<void> {
     const proximoNumero = numeroCartelaCompleta + 1;
 
+    // ========================================
+    // PASSO 0: Respeitar o limite de cartelas da campanha
+    // ========================================
+    const { limiteCartelas } = await tx.campanha.findUniqueOrThrow({
+      where: { id: campanhaId },
+      select: { limiteCartelas: true },
+    });
+
+    if (acimaDoLimiteCartelas(limiteCartelas, proximoNumero)) {
+      this.logger.log(
+        `[AUTO-REPLICANTE] Limite de ${limiteCartelas} cartela(s) atingido. Cartela ${proximoNumero} não será criada.`
+      );
+      return;
+    }
+
     // ========================================
     // PASSO 1: Verificar se a próxima cartela já existe
     // ========================================
@@ -644,6 +901,7 @@ export class RecompensaService {
         requisitos: {
           include: {
             condicoes: true,
+            gruposCondicao: true,
           },
         },
       },
@@ -679,6 +937,11 @@ export class RecompensaService {
         campanhaId,
       },
     });
+    efeitos?.cartelasCriadas.push({
+      regraCartelaId: novaCartela.id,
+      campanhaId,
+      numeroCartela: proximoNumero,
+    });
 
     // ========================================
     // PASSO 4: Replicar todos os requisitos da cartela anterior
@@ -701,7 +964,40 @@ export class RecompensaService {
       requisitosReplicados++;
 
       // ========================================
-      // PASSO 5: Replicar todas as condições do requisito
+      // PASSO 5: Replicar os grupos E/OU (pais antes dos filhos)
+      // ========================================
+      const novosGrupos = new Map<string, string>();
+      let gruposPendentes = [...requisitoAnterior.gruposCondicao];
+
+      while (gruposPendentes.length > 0) {
+        const prontos = gruposPendentes.filter(
+          (grupo) => !grupo.grupoPaiId || novosGrupos.has(grupo.grupoPaiId),
+        );
+
+        if (prontos.length === 0) {
+          this.logger.error(
+            `[AUTO-REPLICANTE] ❌ ${gruposPendentes.length} grupo(s) de condições com pai inexistente no requisito ${requisitoAnterior.id}. Não replicados.`
+          );
+          break;
+        }
+
+        for (const grupoAnterior of prontos) {
+          const novoGrupo = await tx.grupoCondicao.create({
+            data: {
+              operadorLogico: grupoAnterior.operadorLogico,
+              ordem: grupoAnterior.ordem,
+              requisitoId: novoRequisito.id,
+              grupoPaiId: grupoAnterior.grupoPaiId ? novosGrupos.get(grupoAnterior.grupoPaiId) : null,
+            },
+          });
+          novosGrupos.set(grupoAnterior.id, novoGrupo.id);
+        }
+
+        gruposPendentes = gruposPendentes.filter((grupo) => !novosGrupos.has(grupo.id));
+      }
+
+      // ========================================
+      // PASSO 6: Replicar todas as condições do requisito
       // ========================================
       for (const condicaoAnterior of requisitoAnterior.condicoes) {
         await tx.condicaoRequisito.create({
@@ -710,6 +1006,7 @@ export class RecompensaService {
             operador: condicaoAnterior.operador,
             valor: condicaoAnterior.valor,
             requisitoId: novoRequisito.id,
+            grupoId: condicaoAnterior.grupoId ? novosGrupos.get(condicaoAnterior.grupoId) ?? null : null,
           },
         });
 
@@ -6,6 +6,7 @@ import { PapelUsuario } from '@prisma/client';
 import { RelatorioFinanceiroService } from './relatorio-financeiro.service';
 import { ListarRelatoriosFiltroDto } from './dto/listar-relatorios.filtro.dto';
 import { CalcularPagamentosDto } from './dto/calcular-pagamentos.dto';
+import { contextoDaRequisicao } from '../financeiro/helpers/auditoria-financeira.helper';
 
 /**
  * ============================================================================
@@ -98,18 +99,20 @@ export class RelatorioFinanceiroController {
    * ============================================================================
    *
    * Marca como pago de forma transacional:
-   * 1. Subtrai do saldo do usuário
+   * 1. Subtrai do saldo do usuário (relatório de lote: apenas com o lote
+   *    APROVADO, debitando o reservado e registrando auditoria)
    * 2. Marca envios como liquidados
    * 3. Atualiza status para PAGO
    * 4. Dispara notificação
    *
    * @param id - ID do relatório a ser pago
+   * @param req - Request object (admin registrado no livro-razão e na auditoria)
    * @returns Relatório financeiro atualizado
    *
    * @example PATCH /relatorios-financeiros/abc-123/marcar-como-pago
    */
   @Patch(':id/marcar-como-pago')
-  async marcarComoPago(@Param('id') id: string) {
-    return this.relatorioService.marcarComoPago(id);
+  async marcarComoPago(@Param('id') id: string, @Request() req: any) {
+    return this.relatorioService.marcarComoPago(id, contextoDaRequisicao(req));
   }
 }
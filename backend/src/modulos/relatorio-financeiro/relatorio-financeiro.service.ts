@@ -11,10 +11,13 @@
  * ============================================================================
  */
 
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ListarRelatoriosFiltroDto } from './dto/listar-relatorios.filtro.dto';
-import { Prisma } from '@prisma/client';
+import { Prisma, RelatorioFinanceiro, StatusLote, StatusPagamento } from '@prisma/client';
+import { movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+import { buscarLoteFinanceiro, liquidarRelatorio } from '../financeiro/helpers/lote-pagamento.helper';
+import { ContextoAuditoria, registrarAuditoriaFinanceira } from '../financeiro/helpers/auditoria-financeira.helper';
 
 @Injectable()
 export class RelatorioFinanceiroService {
@@ -279,7 +282,8 @@ export class RelatorioFinanceiroService {
    * ============================================================================
    *
    * Marca relatório financeiro como pago e dispara gatilhos:
-   * 1. Subtrai valor do saldo do usuário
+   * 1. Subtrai valor do saldo do usuário (relatório de lote: debita o
+   *    reservado, exige o lote APROVADO e registra auditoria)
    * 2. Marca envios incluídos como pontosLiquidados = true
    * 3. Atualiza status do relatório para PAGO
    * 4. Cria notificação para o usuário
@@ -290,12 +294,14 @@ export class RelatorioFinanceiroService {
    * - Mantém lógica transacional e notificação
    *
    * @param id - ID do relatório a ser marcado como pago
+   * @param contexto - Admin que confirmou o pagamento (livro-razão e auditoria)
    * @returns RelatorioFinanceiro atualizado
    *
    * @throws NotFoundException se relatório não existir
-   * @throws BadRequestException se relatório já estiver pago
+   * @throws ConflictException se relatório não estiver PENDENTE ou o lote não estiver APROVADO
+   * @throws BadRequestException se o saldo for insuficiente
    */
-  async marcarComoPago(id: string) {
+  async marcarComoPago(id: string, contexto: ContextoAuditoria) {
     this.logger.log(`\n========== MARCANDO RELATÓRIO COMO PAGO ==========`);
     this.logger.log(`Relatório ID: ${id}`);
 
@@ -315,8 +321,15 @@ export class RelatorioFinanceiroService {
         throw new NotFoundException('Relatório não encontrado');
       }
 
-      if (relatorio.status === 'PAGO') {
-        throw new BadRequestException('Relatório já está pago');
+      // FALHOU/CANCELADO já tiveram a reserva devolvida ao usuário
+      if (relatorio.status !== StatusPagamento.PENDENTE) {
+        throw new ConflictException(`Relatório está ${relatorio.status}: apenas relatórios pendentes podem ser pagos.`);
+      }
+
+      // Relatório de lote: valor já reservado na geração; baixa pelo fluxo
+      // GERADO → APROVADO → PAGO do lote
+      if (relatorio.numeroLote) {
+        return this._liquidarRelatorioDoLote(tx, relatorio, relatorio.numeroLote, contexto);
       }
 
       const valorNum = relatorio.valor
@@ -325,11 +338,7 @@ export class RelatorioFinanceiroService {
             : Number(relatorio.valor))
         : 0;
 
-      const saldoAtualNum = relatorio.usuario.saldoPontos
-        ? (typeof relatorio.usuario.saldoPontos === 'object' && 'toNumber' in relatorio.usuario.saldoPontos
-            ? (relatorio.usuario.saldoPontos as any).toNumber()
-            : Number(relatorio.usuario.saldoPontos))
-        : 0;
+      const saldoAtualNum = Number(relatorio.usuario.saldoPontos);
 
       this.logger.log(`Usuário: ${relatorio.usuario.nome}`);
       this.logger.log(`Saldo Atual: R$ ${saldoAtualNum.toFixed(2)}`);
@@ -351,12 +360,15 @@ export class RelatorioFinanceiroService {
       // ================================================================
       // PASSO 3: Subtrair do saldo do usuário
       // ================================================================
-      await tx.usuario.update({
-        where: { id: relatorio.usuarioId },
-        data: {
-          saldoPontos: { decrement: valorNum },
+      await movimentarSaldo(tx, relatorio.usuarioId, [
+        {
+          tipo: 'PAGAMENTO',
+          valor: -valorNum,
+          descricao: 'Pagamento de relatório financeiro',
+          relatorioFinanceiroId: relatorio.id,
+          adminId: contexto.adminId,
         },
-      });
+      ]);
 
       const novoSaldo = saldoAtualNum - valorNum;
       this.logger.log(`✅ Saldo atualizado: R$ ${novoSaldo.toFixed(2)}`);
@@ -415,4 +427,53 @@ export class RelatorioFinanceiroService {
       return relatorioAtualizado;
     });
   }
+
+  /**
+   * Baixa de um relatório PENDENTE de lote APROVADO: mesma baixa do
+   * processamento do lote (liquidarRelatorio), com auditoria. Sem outros
+   * pendentes, o lote passa a PAGO.
+   *
+   * @private
+   * @throws ConflictException se o lote não estiver APROVADO
+   */
+  private async _liquidarRelatorioDoLote(
+    tx: Prisma.TransactionClient,
+    relatorio: RelatorioFinanceiro,
+    numeroLote: string,
+    contexto: ContextoAuditoria,
+  ) {
+    const lote = await buscarLoteFinanceiro(tx, numeroLote);
+    if (lote.status !== StatusLote.APROVADO) {
+      throw new ConflictException(`Lote ${numeroLote} está ${lote.status}: apenas lotes aprovados podem ser pagos.`);
+    }
+
+    const valorPago = await liquidarRelatorio(tx, relatorio, { numeroLote, adminId: contexto.adminId });
+
+    const restamPendentes = await tx.relatorioFinanceiro.count({
+      where: { numeroLote, status: StatusPagamento.PENDENTE },
+    });
+    if (restamPendentes === 0) {
+      await tx.loteFinanceiro.update({
+        where: { id: lote.id },
+        data: { status: StatusLote.PAGO, pagoEm: new Date() },
+      });
+    }
+
+    await registrarAuditoriaFinanceira(tx, contexto, {
+      acao: 'PROCESSAR_LOTE',
+      numeroLote,
+      dadosAntes: [{ id: relatorio.id, usuarioId: relatorio.usuarioId, valor: relatorio.valor, status: relatorio.status }],
+      dadosDepois: {
+        status: restamPendentes === 0 ? StatusLote.PAGO : lote.status,
+        totalProcessado: 1,
+        valorTotal: valorPago,
+        restamPendentes,
+      },
+      metadata: { relatorioId: relatorio.id, origem: 'marcar-como-pago' },
+    });
+
+    this.logger.log(`✅ Relatório ${relatorio.id} do lote ${numeroLote} pago (R$ ${valorPago.toFixed(2)})`);
+
+    return tx.relatorioFinanceiro.findUniqueOrThrow({ where: { id: relatorio.id } });
+  }
 }
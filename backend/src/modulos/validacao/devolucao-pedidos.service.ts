@@ -0,0 +1,368 @@
+/**
+ * ============================================================================
+ * DEVOLUCAO PEDIDOS SERVICE - Estorno em Lote por Planilha de Devoluções
+ * ============================================================================
+ *
+ * Descrição:
+ * Importa a planilha de pedidos devolvidos/cancelados exportada pelo
+ * laboratório e estorna, em uma única execução auditada, os envios VALIDADOS
+ * correspondentes (ver EstornoRecompensaService).
+ *
+ * O arquivo é lido com o mesmo mecanismo de mapeamento da validação
+ * (mapa informado > perfil > perfil detectado > mapeamento salvo do admin),
+ * exigindo apenas as colunas de número de pedido. Cada coluna NUMERO_PEDIDO_*
+ * corresponde a um TipoPedido: o envio só é encontrado se o número estiver
+ * na coluna do tipo de pedido da sua campanha.
+ *
+ * Fluxo:
+ * 1. Lê a planilha e extrai os pares (número do pedido, tipo de pedido)
+ * 2. Busca os envios com o mesmo número em campanhas do mesmo tipo
+ *    (opcionalmente restrito a uma campanha)
+ * 3. Classifica cada pedido: ESTORNADO, NAO_VALIDADO ou NAO_ENCONTRADO
+ * 4. Estorna os envios VALIDADOS em uma única transação:
+ *    - Simulação: a transação é desfeita ao final, devolvendo exatamente as
+ *      recompensas e cartelas que seriam estornadas
+ *    - Execução real: grava ImportacaoDevolucao (auditoria) e vincula as
+ *      transições de estorno à importação
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import { Prisma, StatusEnvioVenda, TipoAtorTransicao, TipoPedido } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ValidacaoService } from './validacao.service';
+import { ImportarDevolucoesDto } from './dto/importar-devolucoes.dto';
+import { TIPO_PEDIDO_POR_CAMPO } from './helpers/planilha.helper';
+import { arredondarCentavos } from '../livro-razao/helpers/movimentar-saldo.helper';
+import {
+  EstornoRecompensaService,
+  ResultadoEstorno,
+} from '../recompensa/estorno-recompensa.service';
+
+/**
+ * Situação de um pedido da planilha de devoluções
+ */
+export type StatusPedidoDevolucao = 'ESTORNADO' | 'NAO_VALIDADO' | 'NAO_ENCONTRADO';
+
+/**
+ * Resultado de um pedido da planilha de devoluções
+ */
+export interface ResultadoPedidoDevolucao {
+  numeroPedido: string;
+  tipoPedido: TipoPedido;
+  /** Linhas da planilha onde o pedido aparece */
+  linhas: number[];
+  status: StatusPedidoDevolucao;
+  /** Envios do pedido que não estavam VALIDADOS (nada a estornar) */
+  enviosIgnorados: {
+    envioId: string;
+    status: StatusEnvioVenda;
+    vendedor: string;
+    campanha: string;
+  }[];
+  /** Estornos aplicados (ou previstos, na simulação) */
+  estornos: (ResultadoEstorno & { vendedor: string; campanha: string })[];
+}
+
+/**
+ * Relatório da importação de devoluções
+ */
+export interface RelatorioImportacaoDevolucao {
+  importacaoId: string | null;
+  ehSimulacao: boolean;
+  nomeArquivo: string;
+  campanhaId: string;
+  totalLinhas: number;
+  totalEstornados: number;
+  totalNaoEncontrados: number;
+  totalNaoValidados: number;
+  /** Soma dos débitos em saldo (vendedores + gerentes) */
+  valorDebitado: number;
+  /** Estornos de pontos já pagos ou reservados em lote financeiro */
+  totalPontosPagos: number;
+  pedidos: ResultadoPedidoDevolucao[];
+}
+
+/**
+ * Desfaz a transação da simulação levando o relatório calculado
+ */
+class SimulacaoDesfeita extends Error {
+  constructor(readonly relatorio: RelatorioImportacaoDevolucao) {
+    super('Simulação de devoluções desfeita');
+  }
+}
+
+/**
+ * ============================================================================
+ * SERVICE: DevolucaoPedidosService
+ * ============================================================================
+ */
+@Injectable()
+export class DevolucaoPedidosService {
+  private readonly logger = new Logger(DevolucaoPedidosService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validacaoService: ValidacaoService,
+    private readonly estornoRecompensaService: EstornoRecompensaService,
+  ) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: importar
+   * ==========================================================================
+   *
+   * Lê a planilha de devoluções e estorna os envios validados correspondentes
+   * (ou apenas simula, se dto.ehSimulacao).
+   *
+   * @param arquivo - Planilha (.xlsx/.csv) enviada via multipart
+   * @param dto - Campanha, motivo, simulação e mapeamento
+   * @param adminId - Admin responsável
+   * @returns Relatório por pedido e totais
+   * @throws BadRequestException se a planilha for inválida ou malformada
+   * @throws ConflictException se houver validação real em andamento
+   */
+  async importar(
+    arquivo: Express.Multer.File,
+    dto: ImportarDevolucoesDto,
+    adminId: string,
+  ): Promise<RelatorioImportacaoDevolucao> {
+    // -------------------------------------------------------------------------
+    // PASSO 1: Ler a planilha (apenas colunas de número de pedido)
+    // -------------------------------------------------------------------------
+    const { planilha, mapaColunas } = await this.validacaoService.lerArquivoMapeado(
+      arquivo,
+      dto,
+      adminId,
+      [],
+    );
+
+    const pedidos = this._extrairPedidos(planilha.linhas, planilha.numerosLinhas, mapaColunas);
+
+    this.logger.log(
+      `[DEVOLUCOES] "${arquivo.originalname}": ${pedidos.length} pedido(s), campanha ${dto.campanhaId}, simulação: ${dto.ehSimulacao}`,
+    );
+
+    // Validação real em andamento poderia revalidar o que está sendo estornado
+    if (!dto.ehSimulacao) {
+      const jobAtivo = await this.prisma.jobValidacao.findFirst({
+        where: {
+          ehSimulacao: false,
+          status: { in: ['PENDENTE', 'PROCESSANDO'] },
+          campanhaId: dto.campanhaId === 'TODAS' ? undefined : { in: [dto.campanhaId, 'TODAS'] },
+        },
+      });
+
+      if (jobAtivo) {
+        throw new ConflictException({
+          message: `Há uma validação em andamento (job ${jobAtivo.id}). Aguarde o término ou cancele-a.`,
+          codigo: 'JOB_EM_ANDAMENTO',
+        });
+      }
+    }
+
+    // -------------------------------------------------------------------------
+    // PASSO 2: Envios com o mesmo número em campanhas do mesmo tipo de pedido
+    // -------------------------------------------------------------------------
+    const envios = await this.prisma.envioVenda.findMany({
+      where: {
+        numeroPedido: { in: [...new Set(pedidos.map((p) => p.numeroPedido))] },
+        campanhaId: dto.campanhaId === 'TODAS' ? undefined : dto.campanhaId,
+        campanha: { tipoPedido: { in: [...new Set(pedidos.map((p) => p.tipoPedido))] } },
+      },
+      select: {
+        id: true,
+        numeroPedido: true,
+        status: true,
+        numeroCartelaAtendida: true,
+        vendedor: { select: { nome: true } },
+        campanha: { select: { titulo: true, tipoPedido: true } },
+      },
+    });
+
+    const enviosPorPedido = new Map<string, typeof envios>();
+    for (const envio of envios) {
+      const chave = this._chavePedido(envio.numeroPedido, envio.campanha.tipoPedido);
+      enviosPorPedido.set(chave, [...(enviosPorPedido.get(chave) ?? []), envio]);
+    }
+
+    // -------------------------------------------------------------------------
+    // PASSO 3 e 4: Classificar e estornar (transação única)
+    // -------------------------------------------------------------------------
+    const importacaoId = randomUUID();
+    const totalEstornos = envios.filter((e) => e.status === StatusEnvioVenda.VALIDADO).length;
+
+    const executar = async (tx: Prisma.TransactionClient) => {
+      const resultados: ResultadoPedidoDevolucao[] = [];
+
+      for (const pedido of pedidos) {
+        const enviosPedido = enviosPorPedido.get(this._chavePedido(pedido.numeroPedido, pedido.tipoPedido)) ?? [];
+        const validados = enviosPedido
+          .filter((e) => e.status === StatusEnvioVenda.VALIDADO)
+          // Cartelas mais altas primeiro: cada estorno reanalisa a partir da sua cartela
+          .sort((a, b) => (b.numeroCartelaAtendida ?? 1) - (a.numeroCartelaAtendida ?? 1));
+
+        const estornos: ResultadoPedidoDevolucao['estornos'] = [];
+        for (const envio of validados) {
+          const estorno = await this.estornoRecompensaService.estornarEmTransacao(tx, envio.id, {
+            motivo: dto.motivo,
+            tipoAtor: TipoAtorTransicao.ADMIN,
+            usuarioId: adminId,
+            importacaoDevolucaoId: dto.ehSimulacao ? null : importacaoId,
+          });
+          estornos.push({ ...estorno, vendedor: envio.vendedor.nome, campanha: envio.campanha.titulo });
+        }
+
+        resultados.push({
+          ...pedido,
+          status:
+            estornos.length > 0 ? 'ESTORNADO' : enviosPedido.length > 0 ? 'NAO_VALIDADO' : 'NAO_ENCONTRADO',
+          enviosIgnorados: enviosPedido
+            .filter((e) => e.status !== StatusEnvioVenda.VALIDADO)
+            .map((e) => ({
+              envioId: e.id,
+              status: e.status,
+              vendedor: e.vendedor.nome,
+              campanha: e.campanha.titulo,
+            })),
+          estornos,
+        });
+      }
+
+      const relatorio = this._montarRelatorio(
+        resultados,
+        dto,
+        arquivo.originalname,
+        dto.ehSimulacao ? null : importacaoId,
+      );
+
+      if (dto.ehSimulacao) {
+        throw new SimulacaoDesfeita(relatorio);
+      }
+
+      await tx.importacaoDevolucao.create({
+        data: {
+          id: importacaoId,
+          adminId,
+          nomeArquivo: arquivo.originalname,
+          campanhaId: dto.campanhaId,
+          motivo: dto.motivo,
+          totalLinhas: relatorio.totalLinhas,
+          totalEstornados: relatorio.totalEstornados,
+          totalNaoEncontrados: relatorio.totalNaoEncontrados,
+          totalNaoValidados: relatorio.totalNaoValidados,
+          valorDebitado: relatorio.valorDebitado,
+          detalhesJson: relatorio.pedidos as any,
+        },
+      });
+
+      return relatorio;
+    };
+
+    try {
+      const relatorio = await this.prisma.$transaction(executar, {
+        // Cada estorno reanalisa cartelas: o tempo cresce com o número de envios
+        timeout: Math.max(60000, totalEstornos * 2000),
+      });
+
+      this.logger.log(
+        `[DEVOLUCOES] Importação ${importacaoId}: ${relatorio.totalEstornados} estornado(s), ${relatorio.totalNaoValidados} não validado(s), ${relatorio.totalNaoEncontrados} não encontrado(s), R$ ${relatorio.valorDebitado.toFixed(2)} debitados`,
+      );
+
+      return relatorio;
+    } catch (erro) {
+      if (erro instanceof SimulacaoDesfeita) {
+        return erro.relatorio;
+      }
+      throw erro;
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: listar
+   * ==========================================================================
+   *
+   * Importações de devoluções executadas (mais recentes primeiro), sem o
+   * detalhamento por pedido.
+   */
+  async listar(limite = 50) {
+    return this.prisma.importacaoDevolucao.findMany({
+      orderBy: { dataHora: 'desc' },
+      take: limite,
+      omit: { detalhesJson: true },
+      include: { admin: { select: { id: true, nome: true } } },
+    });
+  }
+
+  /**
+   * Extrai os pares (número do pedido, tipo de pedido) de todas as colunas
+   * NUMERO_PEDIDO_* mapeadas, agrupando as linhas repetidas.
+   *
+   * @private
+   */
+  private _extrairPedidos(
+    linhas: Record<string, string>[],
+    numerosLinhas: number[],
+    mapaColunas: Record<string, string>,
+  ) {
+    const pedidos = new Map<string, { numeroPedido: string; tipoPedido: TipoPedido; linhas: number[] }>();
+
+    const colunas = Object.entries(mapaColunas).filter(([, campo]) => TIPO_PEDIDO_POR_CAMPO[campo]);
+
+    linhas.forEach((linha, indice) => {
+      for (const [coluna, campo] of colunas) {
+        const numeroPedido = String(linha[coluna] || '').trim();
+        if (!numeroPedido) {
+          continue;
+        }
+
+        const tipoPedido = TIPO_PEDIDO_POR_CAMPO[campo];
+        const chave = this._chavePedido(numeroPedido, tipoPedido);
+        const pedido = pedidos.get(chave) ?? { numeroPedido, tipoPedido, linhas: [] };
+        pedido.linhas.push(numerosLinhas[indice] ?? indice + 2);
+        pedidos.set(chave, pedido);
+      }
+    });
+
+    return [...pedidos.values()];
+  }
+
+  /**
+   * Totais do relatório a partir do resultado por pedido.
+   *
+   * @private
+   */
+  private _montarRelatorio(
+    pedidos: ResultadoPedidoDevolucao[],
+    dto: ImportarDevolucoesDto,
+    nomeArquivo: string,
+    importacaoId: string | null,
+  ): RelatorioImportacaoDevolucao {
+    const estornos = pedidos.flatMap((p) => p.estornos);
+    const valorDebitado = estornos
+      .flatMap((e) => e.debitos)
+      .reduce((total, debito) => total + debito.valor, 0);
+
+    return {
+      importacaoId,
+      ehSimulacao: dto.ehSimulacao,
+      nomeArquivo,
+      campanhaId: dto.campanhaId,
+      totalLinhas: pedidos.length,
+      totalEstornados: pedidos.filter((p) => p.status === 'ESTORNADO').length,
+      totalNaoEncontrados: pedidos.filter((p) => p.status === 'NAO_ENCONTRADO').length,
+      totalNaoValidados: pedidos.filter((p) => p.status === 'NAO_VALIDADO').length,
+      valorDebitado: arredondarCentavos(valorDebitado),
+      totalPontosPagos: estornos.filter((e) => e.pontosPagos).length,
+      pedidos,
+    };
+  }
+
+  private _chavePedido(numeroPedido: string, tipoPedido: TipoPedido): string {
+    return `${tipoPedido}|${numeroPedido}`;
+  }
+}
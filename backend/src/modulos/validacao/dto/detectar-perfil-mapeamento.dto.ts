@@ -0,0 +1,34 @@
+/**
+ * ============================================================================
+ * DTO: Detectar Perfil de Mapeamento
+ * ============================================================================
+ *
+ * Descrição:
+ * Linha de cabeçalho do arquivo selecionado pelo admin, usada em
+ * POST /api/validacao/perfis-mapeamento/detectar para sugerir o perfil de
+ * mapeamento mais adequado.
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import { IsArray, IsEnum, IsOptional, IsString } from 'class-validator';
+import { TipoPedido } from '@prisma/client';
+
+export class DetectarPerfilMapeamentoDto {
+  /**
+   * Cabeçalho do arquivo.
+   *
+   * @example ["OS", "CNPJ", "Data", "Referência"]
+   */
+  @IsArray({ message: 'cabecalhos deve ser um array' })
+  @IsString({ each: true, message: 'Cada cabeçalho deve ser uma string' })
+  cabecalhos: string[];
+
+  /**
+   * Tipo de pedido esperado (opcional, usado como desempate).
+   */
+  @IsOptional()
+  @IsEnum(TipoPedido, { message: 'Tipo de pedido inválido' })
+  tipoPedido?: TipoPedido;
+}
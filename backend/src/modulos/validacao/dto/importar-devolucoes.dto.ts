@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * DTO: Importar Devoluções/Cancelamentos (Upload XLSX/CSV)
+ * ============================================================================
+ *
+ * Descrição:
+ * Campos de texto do multipart/form-data enviados junto com a planilha de
+ * pedidos devolvidos/cancelados em POST /api/validacao/devolucoes.
+ *
+ * O mapeamento segue as mesmas regras de /processar-arquivo (request >
+ * perfil informado > perfil detectado > mapeamento salvo do admin), mas
+ * apenas as colunas de número de pedido (NUMERO_PEDIDO_*) são usadas.
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import {
+  IsString,
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsUUID,
+  IsNotEmpty,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ImportarDevolucoesDto {
+  /**
+   * Campanha onde os pedidos serão procurados, ou "TODAS".
+   */
+  @IsString({ message: 'O ID da campanha deve ser uma string' })
+  campanhaId: string;
+
+  /**
+   * Simulação: mostra o que seria estornado sem alterar nada.
+   * Multipart: "true"/"false".
+   */
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean({ message: 'ehSimulacao deve ser booleano' })
+  ehSimulacao: boolean;
+
+  /**
+   * Motivo registrado em cada estorno (linha do tempo, livro-razão e
+   * notificações).
+   *
+   * @example "Pedidos cancelados pelo laboratório - outubro/2025"
+   */
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.trim().replace(/<[^>]*>/g, '').replace(/&/g, '&amp;');
+    }
+    return value;
+  })
+  @IsString({ message: 'O motivo deve ser um texto' })
+  @IsNotEmpty({ message: 'O motivo do estorno é obrigatório' })
+  @MinLength(5, { message: 'O motivo deve ter pelo menos 5 caracteres' })
+  @MaxLength(500, { message: 'O motivo não pode exceder 500 caracteres' })
+  motivo: string;
+
+  /**
+   * Mapa de colunas serializado em JSON (OPCIONAL).
+   *
+   * @example '{"OS":"NUMERO_PEDIDO_OS","Pedido Web":"NUMERO_PEDIDO_ONLINE"}'
+   */
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value; // Mantém a string para que @IsObject rejeite
+    }
+  })
+  @IsObject({ message: 'mapaColunas deve ser um objeto JSON válido' })
+  mapaColunas?: Record<string, string>;
+
+  /**
+   * Formato de data usado na planilha (OPCIONAL).
+   */
+  @IsOptional()
+  @IsString({ message: 'formatoData deve ser uma string' })
+  formatoData?: string;
+
+  /**
+   * Perfil de mapeamento compartilhado (OPCIONAL).
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'perfilMapeamentoId deve ser um UUID válido' })
+  perfilMapeamentoId?: string;
+}
@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * DTO: Processar Arquivo de Validação (Upload XLSX/CSV)
+ * ============================================================================
+ *
+ * Descrição:
+ * Campos de texto do multipart/form-data enviados junto com o arquivo da
+ * planilha em POST /api/validacao/processar-arquivo.
+ *
+ * Diferença para ProcessarValidacaoDto:
+ * - Não recebe linhasPlanilha: o arquivo bruto é lido no backend
+ * - mapaColunas e formatoData são OPCIONAIS: quando ausentes, usa o perfil
+ *   de mapeamento informado (perfilMapeamentoId), ou o perfil detectado pelo
+ *   cabeçalho do arquivo, ou o mapeamento (mapeamentoPlanilhaSalvo) e o
+ *   formato (formatoDataPlanilha) salvos no perfil do admin
+ *
+ * Como multipart só transporta strings, ehSimulacao e mapaColunas são
+ * convertidos via @Transform ("true"/"false" e JSON serializado).
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import {
+  IsString,
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ProcessarArquivoValidacaoDto {
+  /**
+   * ID da campanha que será processada, ou "TODAS".
+   *
+   * @example "550e8400-e29b-41d4-a716-446655440000"
+   */
+  @IsString({ message: 'O ID da campanha deve ser uma string' })
+  campanhaId: string;
+
+  /**
+   * Indica se esta execução é uma simulação.
+   *
+   * Lido do objeto original (obj[key]) porque a conversão implícita
+   * transformaria a string "false" em true.
+   */
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean({ message: 'ehSimulacao deve ser booleano' })
+  ehSimulacao: boolean;
+
+  /**
+   * Mapa de colunas serializado em JSON (OPCIONAL).
+   *
+   * Se ausente, usa o perfil de mapeamento (informado ou detectado).
+   *
+   * @example '{"CNPJ da Loja":"CNPJ_OTICA","OS":"NUMERO_PEDIDO_OS"}'
+   */
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value; // Mantém a string para que @IsObject rejeite
+    }
+  })
+  @IsObject({ message: 'mapaColunas deve ser um objeto JSON válido' })
+  mapaColunas?: Record<string, string>;
+
+  /**
+   * Formato de data usado na planilha (OPCIONAL).
+   *
+   * Se ausente, usa o formato do perfil de mapeamento ou o
+   * formatoDataPlanilha salvo no perfil do admin.
+   *
+   * @example "DD/MM/YYYY"
+   */
+  @IsOptional()
+  @IsString({ message: 'formatoData deve ser uma string' })
+  formatoData?: string;
+
+  /**
+   * Perfil de mapeamento compartilhado (OPCIONAL).
+   *
+   * Ignorado se mapaColunas for enviado. Se ausente, o perfil é detectado
+   * automaticamente pelo cabeçalho do arquivo.
+   */
+  @IsOptional()
+  @IsUUID('4', { message: 'perfilMapeamentoId deve ser um UUID válido' })
+  perfilMapeamentoId?: string;
+
+  /**
+   * Confirma o reprocessamento de uma planilha já processada (OPCIONAL).
+   * Multipart: "true"/"false".
+   */
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean({ message: 'confirmarReprocessamento deve ser booleano' })
+  confirmarReprocessamento?: boolean;
+
+  /**
+   * Justificativa do reprocessamento (obrigatória quando confirmado).
+   */
+  @IsOptional()
+  @IsString({ message: 'justificativaReprocessamento deve ser uma string' })
+  @MaxLength(500, { message: 'A justificativa não pode exceder 500 caracteres' })
+  justificativaReprocessamento?: string;
+}
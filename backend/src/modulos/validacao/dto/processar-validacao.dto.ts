@@ -31,6 +31,7 @@ import {
   IsUUID,
   IsDefined,
   IsOptional,
+  MaxLength,
   ValidationOptions,
   registerDecorator,
   ValidationArguments,
@@ -55,7 +56,7 @@ import {
  *   "Produto": "NOME_PRODUTO"
  * }
  */
-function IsMapaComCnpj(validationOptions?: ValidationOptions) {
+export function IsMapaComCnpj(validationOptions?: ValidationOptions) {
   return function (object: Object, propertyName: string) {
     registerDecorator({
       name: 'isMapaComCnpj',
@@ -181,4 +182,25 @@ export class ProcessarValidacaoDto {
   @IsOptional()
   @IsString({ message: 'formatoData deve ser uma string' })
   formatoData?: string;
+
+  /**
+   * Confirma o reprocessamento de uma planilha já processada (OPCIONAL).
+   *
+   * Sem confirmação, execuções reais de planilhas já processadas (mesmo
+   * arquivo ou maioria das linhas) retornam 409 com o relatório de duplicidade.
+   */
+  @IsOptional()
+  @IsBoolean({ message: 'confirmarReprocessamento deve ser booleano' })
+  confirmarReprocessamento?: boolean;
+
+  /**
+   * Justificativa do reprocessamento (obrigatória quando confirmado).
+   * Registrada no histórico da execução.
+   *
+   * @example "Export de outubro reenviado após correção do CNPJ da filial."
+   */
+  @IsOptional()
+  @IsString({ message: 'justificativaReprocessamento deve ser uma string' })
+  @MaxLength(500, { message: 'A justificativa não pode exceder 500 caracteres' })
+  justificativaReprocessamento?: string;
 }
@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * DTO: Salvar Perfil de Mapeamento
+ * ============================================================================
+ *
+ * Descrição:
+ * Cria ou atualiza um perfil nomeado de mapeamento de colunas, compartilhado
+ * entre todos os admins (ex: "OS_OP_EPS export v3", "OptiClick").
+ *
+ * Rotas:
+ * - POST /api/validacao/perfis-mapeamento (criação)
+ * - PATCH /api/validacao/perfis-mapeamento/:id (AtualizarPerfilMapeamentoDto)
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsIn,
+  IsArray,
+  IsOptional,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { PartialType } from '@nestjs/mapped-types';
+import { TipoPedido } from '@prisma/client';
+import { IsMapaComCnpj } from './processar-validacao.dto';
+import { FormatoData } from '../helpers/data.helper';
+
+export class SalvarPerfilMapeamentoDto {
+  /**
+   * Nome único do perfil.
+   *
+   * @example "OS_OP_EPS export v3"
+   */
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString({ message: 'O nome do perfil deve ser uma string' })
+  @IsNotEmpty({ message: 'O nome do perfil não pode estar vazio' })
+  @MaxLength(80, { message: 'O nome do perfil não pode exceder 80 caracteres' })
+  nome: string;
+
+  /**
+   * Tipo de pedido do export (opcional).
+   *
+   * @example "OPTICLICK"
+   */
+  @IsOptional()
+  @IsEnum(TipoPedido, { message: 'Tipo de pedido inválido' })
+  tipoPedido?: TipoPedido | null;
+
+  /**
+   * Mapa { coluna da planilha: campo do sistema }. Deve mapear CNPJ_OTICA.
+   *
+   * @example { "CNPJ da Loja": "CNPJ_OTICA", "OS": "NUMERO_PEDIDO_OS" }
+   */
+  @IsMapaComCnpj({
+    message: 'O mapaColunas deve ser um objeto e incluir um mapeamento para "CNPJ_OTICA".',
+  })
+  mapaColunas: Record<string, string>;
+
+  /**
+   * Formato de data do export.
+   *
+   * @example "DD/MM/YYYY"
+   */
+  @IsOptional()
+  @IsIn(Object.values(FormatoData), {
+    message: `formatoData deve ser um de: ${Object.values(FormatoData).join(', ')}`,
+  })
+  formatoData?: string;
+
+  /**
+   * Linha de cabeçalho do arquivo de referência (melhora a detecção automática).
+   *
+   * @example ["OS", "CNPJ", "Data", "Referência"]
+   */
+  @IsOptional()
+  @IsArray({ message: 'cabecalhos deve ser um array' })
+  @IsString({ each: true, message: 'Cada cabeçalho deve ser uma string' })
+  cabecalhos?: string[];
+}
+
+/**
+ * Atualização parcial de um perfil (mesmas validações, todos os campos opcionais).
+ */
+export class AtualizarPerfilMapeamentoDto extends PartialType(SalvarPerfilMapeamentoDto) {}
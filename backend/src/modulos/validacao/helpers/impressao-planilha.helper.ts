@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * IMPRESSAO PLANILHA HELPER - Impressões Digitais de Arquivo e Linhas
+ * ============================================================================
+ *
+ * Calcula as impressões digitais (SHA-256) usadas para detectar planilhas
+ * que já foram processadas em uma execução real anterior:
+ * - hashArquivo: conteúdo bruto do arquivo enviado (ou, no envio via JSON,
+ *   das linhas em ordem)
+ * - hashesLinhas: uma impressão por linha, independente da ordem das
+ *   colunas, de espaços nas bordas e de células vazias. Permite detectar
+ *   exports diferentes que se sobrepõem (mesmas linhas)
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+
+/**
+ * Impressões digitais de uma planilha
+ */
+export interface ImpressaoPlanilha {
+  hashArquivo: string;
+  /** Impressões distintas das linhas (linhas idênticas contam uma vez) */
+  hashesLinhas: string[];
+  nomeArquivo: string | null;
+  totalLinhas: number;
+}
+
+const sha256 = (conteudo: string | Buffer) => createHash('sha256').update(conteudo).digest('hex');
+
+/**
+ * Impressão de uma linha: pares coluna/valor ordenados pela coluna,
+ * ignorando células vazias
+ */
+export function calcularHashLinha(linha: Record<string, unknown>): string {
+  const pares = Object.entries(linha || {})
+    .map(([coluna, valor]) => [coluna.trim(), String(valor ?? '').trim()])
+    .filter(([, valor]) => valor.length > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return sha256(JSON.stringify(pares));
+}
+
+/**
+ * Impressão do conteúdo bruto de um arquivo no disco (lido em stream)
+ *
+ * @param caminho - Arquivo enviado (upload gravado em disco)
+ */
+export async function calcularHashArquivo(caminho: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const trecho of createReadStream(caminho)) {
+    hash.update(trecho as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Calcula as impressões de uma planilha
+ *
+ * @param linhas - Linhas lidas (objetos { coluna: valor })
+ * @param hashArquivo - Impressão do arquivo bruto (calcularHashArquivo;
+ *   ausente no envio via JSON)
+ * @param nomeArquivo - Nome original do arquivo
+ */
+export function calcularImpressaoPlanilha(
+  linhas: Record<string, unknown>[],
+  hashArquivo?: string,
+  nomeArquivo?: string | null,
+): ImpressaoPlanilha {
+  const hashesEmOrdem = linhas.map(calcularHashLinha);
+
+  return {
+    hashArquivo: hashArquivo ?? sha256(hashesEmOrdem.join('\n')),
+    hashesLinhas: Array.from(new Set(hashesEmOrdem)),
+    nomeArquivo: nomeArquivo ?? null,
+    totalLinhas: linhas.length,
+  };
+}
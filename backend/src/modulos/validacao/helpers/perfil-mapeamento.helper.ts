@@ -0,0 +1,151 @@
+/**
+ * ============================================================================
+ * PERFIL MAPEAMENTO HELPER - Detecção de Perfil pelo Cabeçalho
+ * ============================================================================
+ *
+ * Funções puras usadas para escolher automaticamente o perfil de mapeamento
+ * de colunas que melhor corresponde à linha de cabeçalho de um arquivo.
+ *
+ * CRITÉRIO:
+ * - Cobertura: fração das colunas mapeadas pelo perfil que existem no arquivo
+ *   (comparação sem diferenciar maiúsculas/minúsculas, acentos e espaços)
+ * - Só é selecionado automaticamente o perfil com cobertura total
+ * - Empates: maior número de colunas mapeadas, depois o tipo de pedido
+ *   informado, depois a semelhança com o cabeçalho salvo no perfil
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import { TipoPedido } from '@prisma/client';
+
+/**
+ * Dados mínimos de um perfil para a pontuação
+ */
+export interface PerfilMapeamentoPontuavel {
+  id: string;
+  nome: string;
+  tipoPedido: TipoPedido | null;
+  mapaColunas: Record<string, string>;
+  cabecalhos: string[] | null;
+}
+
+/**
+ * Pontuação de um perfil contra um cabeçalho
+ */
+export interface PontuacaoPerfilMapeamento {
+  perfilId: string;
+  nome: string;
+  /** 0 a 1: colunas mapeadas encontradas / colunas mapeadas */
+  cobertura: number;
+  /** 0 a 1: semelhança (Jaccard) com o cabeçalho salvo no perfil */
+  semelhancaCabecalho: number;
+  colunasEncontradas: string[];
+  colunasAusentes: string[];
+  /** true = todas as colunas mapeadas existem no arquivo */
+  compativel: boolean;
+}
+
+/**
+ * Normaliza um nome de coluna para comparação
+ *
+ * @example normalizarCabecalho("  Número  do Pedido ") → "NUMERO DO PEDIDO"
+ */
+export function normalizarCabecalho(cabecalho: unknown): string {
+  return String(cabecalho ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+/**
+ * Pontua um perfil contra a linha de cabeçalho de um arquivo
+ *
+ * @param perfil - Perfil de mapeamento
+ * @param cabecalhos - Cabeçalho do arquivo enviado
+ */
+export function pontuarPerfilMapeamento(
+  perfil: PerfilMapeamentoPontuavel,
+  cabecalhos: string[],
+): PontuacaoPerfilMapeamento {
+  const cabecalhosArquivo = new Set(cabecalhos.map(normalizarCabecalho).filter(Boolean));
+  const colunasMapeadas = Object.keys(perfil.mapaColunas || {});
+
+  const colunasEncontradas = colunasMapeadas.filter((coluna) =>
+    cabecalhosArquivo.has(normalizarCabecalho(coluna)),
+  );
+  const colunasAusentes = colunasMapeadas.filter(
+    (coluna) => !cabecalhosArquivo.has(normalizarCabecalho(coluna)),
+  );
+
+  const cabecalhosPerfil = new Set((perfil.cabecalhos || []).map(normalizarCabecalho).filter(Boolean));
+  const intersecao = [...cabecalhosPerfil].filter((c) => cabecalhosArquivo.has(c)).length;
+  const uniao = new Set([...cabecalhosPerfil, ...cabecalhosArquivo]).size;
+
+  const cobertura = colunasMapeadas.length > 0 ? colunasEncontradas.length / colunasMapeadas.length : 0;
+
+  return {
+    perfilId: perfil.id,
+    nome: perfil.nome,
+    cobertura,
+    semelhancaCabecalho: uniao > 0 ? intersecao / uniao : 0,
+    colunasEncontradas,
+    colunasAusentes,
+    compativel: colunasMapeadas.length > 0 && colunasAusentes.length === 0,
+  };
+}
+
+/**
+ * Ordena os perfis do mais para o menos adequado ao cabeçalho
+ *
+ * @param perfis - Perfis cadastrados
+ * @param cabecalhos - Cabeçalho do arquivo enviado
+ * @param tipoPedido - Tipo de pedido esperado (opcional, desempate)
+ */
+export function ranquearPerfisMapeamento(
+  perfis: PerfilMapeamentoPontuavel[],
+  cabecalhos: string[],
+  tipoPedido?: TipoPedido | null,
+): PontuacaoPerfilMapeamento[] {
+  const tipoPorPerfil = new Map(perfis.map((p) => [p.id, p.tipoPedido]));
+
+  return perfis
+    .map((perfil) => pontuarPerfilMapeamento(perfil, cabecalhos))
+    .sort((a, b) => {
+      if (b.cobertura !== a.cobertura) return b.cobertura - a.cobertura;
+      if (b.colunasEncontradas.length !== a.colunasEncontradas.length) {
+        return b.colunasEncontradas.length - a.colunasEncontradas.length;
+      }
+      if (tipoPedido) {
+        const tipoA = tipoPorPerfil.get(a.perfilId) === tipoPedido ? 1 : 0;
+        const tipoB = tipoPorPerfil.get(b.perfilId) === tipoPedido ? 1 : 0;
+        if (tipoB !== tipoA) return tipoB - tipoA;
+      }
+      return b.semelhancaCabecalho - a.semelhancaCabecalho;
+    });
+}
+
+/**
+ * Reescreve as chaves do mapa com os nomes de coluna exatos do arquivo,
+ * já que a detecção ignora maiúsculas/minúsculas, acentos e espaços.
+ * Colunas não encontradas mantêm o nome original (a validação estrutural
+ * reporta COLUNA_MAPEADA_AUSENTE).
+ *
+ * @param mapaColunas - Mapa { coluna do perfil: campo do sistema }
+ * @param cabecalhos - Cabeçalho do arquivo enviado
+ */
+export function adaptarMapaAoCabecalho(
+  mapaColunas: Record<string, string>,
+  cabecalhos: string[],
+): Record<string, string> {
+  const colunaPorNome = new Map(cabecalhos.map((c) => [normalizarCabecalho(c), c]));
+
+  return Object.fromEntries(
+    Object.entries(mapaColunas).map(([coluna, campo]) => [
+      colunaPorNome.get(normalizarCabecalho(coluna)) ?? coluna,
+      campo,
+    ]),
+  );
+}
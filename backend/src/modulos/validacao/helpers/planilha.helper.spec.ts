@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lerPlanilha } from './planilha.helper';
+
+const lerCsv = async (conteudo: string) => {
+    const caminho = join(tmpdir(), `planilha-helper-spec-${process.pid}.csv`);
+    await fs.writeFile(caminho, conteudo, 'utf8');
+    try {
+        return await lerPlanilha(caminho, 'vendas.csv');
+    } finally {
+        await fs.unlink(caminho);
+    }
+};
+
+describe('lerPlanilha (CSV)', () => {
+    it('should detect the separator and read quoted fields', async () => {
+        const planilha = await lerCsv(
+            '﻿Pedido;Cliente;Valor\r\n#100;"Silva; Souza";"1.234,56"\r\n#101;"Diz ""olá""";10\r\n',
+        );
+
+        expect(planilha.cabecalhos).toEqual(['Pedido', 'Cliente', 'Valor']);
+        expect(planilha.linhas).toEqual([
+            { Pedido: '#100', Cliente: 'Silva; Souza', Valor: '1.234,56' },
+            { Pedido: '#101', Cliente: 'Diz "olá"', Valor: '10' },
+        ]);
+        expect(planilha.numerosLinhas).toEqual([2, 3]);
+    });
+
+    it('should keep line breaks inside quotes and skip empty lines', async () => {
+        const planilha = await lerCsv('Pedido,Obs\n#100,"linha 1\nlinha 2"\n,\n#101,ok');
+
+        expect(planilha.linhas).toEqual([
+            { Pedido: '#100', Obs: 'linha 1\nlinha 2' },
+            { Pedido: '#101', Obs: 'ok' },
+        ]);
+        expect(planilha.numerosLinhas).toEqual([2, 5]);
+    });
+});
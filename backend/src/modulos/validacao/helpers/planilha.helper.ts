@@ -0,0 +1,635 @@
+/**
+ * ============================================================================
+ * PLANILHA HELPER - Leitura Server-Side de Planilhas (XLSX/CSV)
+ * ============================================================================
+ *
+ * Responsável por:
+ * - Leitura em streaming de arquivos .xlsx (ExcelJS WorkbookReader)
+ * - Leitura em streaming de arquivos .csv (separador ";" ou "," detectado
+ *   automaticamente)
+ * - Normalização dos valores das células para string (mesmo formato que o
+ *   frontend enviava via xlsx/sheet_to_json com raw: false)
+ * - Validação estrutural da planilha ANTES de qualquer envio ser tocado
+ *   (cabeçalho, formato de data, coluna de CNPJ vazia, mapeamento)
+ *
+ * MOTIVAÇÃO:
+ * Exports mensais de OS/OptiClick geravam um body JSON de vários MB e
+ * travavam a aba do navegador durante o parsing. Agora o arquivo bruto é
+ * enviado e lido aqui, linha a linha.
+ *
+ * O upload é gravado em arquivo temporário (OPCOES_UPLOAD_PLANILHA, até 20MB)
+ * e lido do disco como stream: o arquivo bruto não fica na memória. As linhas
+ * lidas sim (processarPlanilha recebe a planilha inteira), limitadas pelo
+ * tamanho máximo do upload.
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import { Logger } from '@nestjs/common';
+import { TipoPedido } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { FormatoData, parseDateWithFormat } from './data.helper';
+import { limparCnpj } from './cnpj.helper';
+import { ehMilharComPonto } from './regras.helper';
+
+const logger = new Logger('PlanilhaHelper');
+
+/**
+ * Extensões de arquivo aceitas pela leitura server-side
+ */
+export const EXTENSOES_PLANILHA_SUPORTADAS = ['.xlsx', '.csv'];
+
+/**
+ * Campos de número de pedido (ao menos um deve estar mapeado)
+ */
+export const CAMPOS_NUMERO_PEDIDO = [
+  'NUMERO_PEDIDO_OS',
+  'NUMERO_PEDIDO_OPTICLICK',
+  'NUMERO_PEDIDO_ONLINE',
+  'NUMERO_PEDIDO_ENVELOPE',
+];
+
+/**
+ * Tipo de pedido da campanha (Campanha.tipoPedido) correspondente a cada
+ * campo de número de pedido
+ */
+export const TIPO_PEDIDO_POR_CAMPO: Record<string, TipoPedido> = {
+  NUMERO_PEDIDO_OS: TipoPedido.OS_OP_EPS,
+  NUMERO_PEDIDO_OPTICLICK: TipoPedido.OPTICLICK,
+  NUMERO_PEDIDO_ONLINE: TipoPedido.EPSWEB,
+  NUMERO_PEDIDO_ENVELOPE: TipoPedido.ENVELOPE_OTICA,
+};
+
+/**
+ * Campos obrigatórios do mapeamento para a validação de vendas
+ */
+export const CAMPOS_OBRIGATORIOS_VALIDACAO = [
+  'DATA_VENDA',
+  'CNPJ_OTICA',
+  'CODIGO_REFERENCIA',
+];
+
+/**
+ * Quantidade máxima de ocorrências por tipo de erro listadas no relatório
+ * (evita respostas gigantes quando uma coluna inteira está errada)
+ */
+const LIMITE_OCORRENCIAS_POR_ERRO = 20;
+
+/**
+ * Resultado da leitura de uma planilha
+ */
+export interface PlanilhaLida {
+  /** Nomes das colunas (1ª linha da planilha) */
+  cabecalhos: string[];
+  /** Linhas de dados como objetos { cabecalho: valor } */
+  linhas: Record<string, string>[];
+  /** Número original de cada linha no arquivo (paralelo a linhas; cabeçalho = 1) */
+  numerosLinhas: number[];
+}
+
+/**
+ * Item do relatório de erros de leitura/estrutura da planilha
+ */
+export interface ErroPlanilha {
+  /** Código do erro (ex: CABECALHO_DUPLICADO, DATA_INVALIDA) */
+  codigo: string;
+  /** Mensagem legível para o admin */
+  mensagem: string;
+  /** Coluna da planilha relacionada (quando aplicável) */
+  coluna?: string;
+  /** Linhas da planilha afetadas (numeração do Excel, cabeçalho = 1) */
+  linhas?: number[];
+  /** Total de linhas afetadas (pode ser maior que linhas.length) */
+  totalOcorrencias?: number;
+}
+
+/**
+ * Relatório estruturado de parsing (retornado antes de tocar nos envios)
+ */
+export interface RelatorioParsePlanilha {
+  valido: boolean;
+  nomeArquivo: string;
+  totalLinhas: number;
+  cabecalhos: string[];
+  formatoData: string;
+  erros: ErroPlanilha[];
+}
+
+/**
+ * ============================================================================
+ * HELPER: extensaoArquivo
+ * ============================================================================
+ *
+ * @param nomeArquivo - Nome original do arquivo enviado
+ * @returns Extensão em minúsculas com ponto (ex: ".xlsx") ou string vazia
+ */
+export function extensaoArquivo(nomeArquivo: string): string {
+  const indice = (nomeArquivo || '').lastIndexOf('.');
+  return indice >= 0 ? nomeArquivo.slice(indice).toLowerCase() : '';
+}
+
+/**
+ * ============================================================================
+ * HELPER: lerPlanilha
+ * ============================================================================
+ *
+ * Lê a primeira aba de um arquivo .xlsx (streaming) ou um arquivo .csv e
+ * retorna cabeçalhos e linhas normalizados para string.
+ *
+ * Datas nativas do Excel são convertidas para string no formato informado,
+ * para que o restante do pipeline (parseDateWithFormat) funcione igual a
+ * quando o frontend enviava as linhas já formatadas.
+ *
+ * @param caminho - Arquivo no disco (upload gravado pelo Multer disk storage)
+ * @param nomeArquivo - Nome original (usado para detectar o tipo)
+ * @param formatoData - Formato usado para serializar datas nativas do Excel
+ * @returns Cabeçalhos e linhas da planilha
+ * @throws Error se a extensão não for suportada
+ */
+export async function lerPlanilha(
+  caminho: string,
+  nomeArquivo: string,
+  formatoData: FormatoData = FormatoData.BRASILEIRO,
+): Promise<PlanilhaLida> {
+  const extensao = extensaoArquivo(nomeArquivo);
+
+  if (extensao === '.csv') {
+    return lerCsv(createReadStream(caminho, { encoding: 'utf8' }));
+  }
+
+  if (extensao === '.xlsx') {
+    return lerXlsxStreaming(createReadStream(caminho), formatoData);
+  }
+
+  throw new Error(
+    `Extensão "${extensao || '(nenhuma)'}" não suportada. Use: ${EXTENSOES_PLANILHA_SUPORTADAS.join(', ')}`,
+  );
+}
+
+/**
+ * ============================================================================
+ * HELPER INTERNO: lerXlsxStreaming
+ * ============================================================================
+ *
+ * Lê apenas a primeira aba via WorkbookReader (não carrega o workbook inteiro
+ * na memória). Linhas totalmente vazias são descartadas.
+ *
+ * @private
+ */
+async function lerXlsxStreaming(
+  fluxo: Readable,
+  formatoData: FormatoData,
+): Promise<PlanilhaLida> {
+  const leitor = new ExcelJS.stream.xlsx.WorkbookReader(fluxo, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'cache',
+  });
+
+  let cabecalhos: string[] = [];
+  const linhas: Record<string, string>[] = [];
+  const numerosLinhas: number[] = [];
+
+  for await (const aba of leitor) {
+    for await (const linha of aba) {
+      // row.values é 1-indexado e esparso (células vazias viram "buracos");
+      // Array.from preenche os buracos com undefined antes de normalizar
+      const valores = Array.from((linha.values as any[]).slice(1), (valor) =>
+        normalizarValorCelula(valor, formatoData),
+      );
+
+      if (cabecalhos.length === 0) {
+        cabecalhos = valores;
+        continue;
+      }
+
+      const objeto = montarLinha(cabecalhos, valores);
+      if (objeto) {
+        linhas.push(objeto);
+        numerosLinhas.push(linha.number);
+      }
+    }
+
+    // Apenas a primeira aba é considerada
+    break;
+  }
+
+  logger.log(`XLSX lido: ${cabecalhos.length} colunas, ${linhas.length} linhas`);
+  return { cabecalhos, linhas, numerosLinhas };
+}
+
+/**
+ * ============================================================================
+ * HELPER INTERNO: lerCsv
+ * ============================================================================
+ *
+ * Parser CSV com suporte a campos entre aspas (incluindo quebras de linha e
+ * aspas escapadas ""). O separador é detectado na linha de cabeçalho:
+ * ";" (padrão do Excel PT-BR) ou ",". O conteúdo é processado trecho a
+ * trecho, conforme chega do stream.
+ *
+ * @param fluxo - Stream do arquivo com encoding utf8 (trechos string)
+ * @private
+ */
+async function lerCsv(fluxo: Readable): Promise<PlanilhaLida> {
+  let separador = '';
+  let inicio = '';
+
+  let cabecalhos: string[] = [];
+  const linhas: Record<string, string>[] = [];
+  const numerosLinhas: number[] = [];
+
+  let campoAtual = '';
+  let registroAtual: string[] = [];
+  let dentroDeAspas = false;
+  // Aspa dentro de aspas: fecha o campo ou, se seguida de outra, é escapada
+  // (o próximo caractere pode estar no trecho seguinte)
+  let aspaPendente = false;
+  let numeroLinhaAtual = 1;
+  let numeroLinhaInicioRegistro = 1;
+
+  const finalizarRegistro = () => {
+    registroAtual.push(campoAtual.trim());
+    campoAtual = '';
+
+    if (cabecalhos.length === 0) {
+      cabecalhos = registroAtual;
+    } else {
+      const objeto = montarLinha(cabecalhos, registroAtual);
+      if (objeto) {
+        linhas.push(objeto);
+        numerosLinhas.push(numeroLinhaInicioRegistro);
+      }
+    }
+
+    registroAtual = [];
+  };
+
+  const processar = (conteudo: string) => {
+    for (const caractere of conteudo) {
+      if (caractere === '\n') {
+        numeroLinhaAtual++;
+      }
+
+      if (aspaPendente) {
+        aspaPendente = false;
+        if (caractere === '"') {
+          campoAtual += '"';
+          continue;
+        }
+        dentroDeAspas = false;
+      } else if (dentroDeAspas) {
+        if (caractere === '"') {
+          aspaPendente = true;
+        } else {
+          campoAtual += caractere;
+        }
+        continue;
+      }
+
+      if (caractere === '"') {
+        dentroDeAspas = true;
+      } else if (caractere === separador) {
+        registroAtual.push(campoAtual.trim());
+        campoAtual = '';
+      } else if (caractere === '\n') {
+        finalizarRegistro();
+        numeroLinhaInicioRegistro = numeroLinhaAtual;
+      } else if (caractere !== '\r') {
+        campoAtual += caractere;
+      }
+    }
+  };
+
+  // O separador sai da primeira linha: acumula até a primeira quebra
+  const detectarSeparador = () => {
+    // Remove BOM UTF-8 gerado pelo Excel ao salvar como CSV
+    const conteudo = inicio.replace(/^\uFEFF/, '');
+    const primeiraLinha = conteudo.split(/\r?\n/, 1)[0] || '';
+    separador =
+      (primeiraLinha.match(/;/g) || []).length >= (primeiraLinha.match(/,/g) || []).length ? ';' : ',';
+    processar(conteudo);
+  };
+
+  for await (const trecho of fluxo) {
+    if (separador) {
+      processar(trecho as string);
+      continue;
+    }
+    inicio += trecho;
+    if (inicio.includes('\n')) {
+      detectarSeparador();
+    }
+  }
+  if (!separador) {
+    detectarSeparador();
+  }
+
+  // Último registro (arquivo sem quebra de linha final)
+  if (campoAtual.length > 0 || registroAtual.length > 0) {
+    finalizarRegistro();
+  }
+
+  logger.log(`CSV lido (separador "${separador}"): ${cabecalhos.length} colunas, ${linhas.length} linhas`);
+  return { cabecalhos, linhas, numerosLinhas };
+}
+
+/**
+ * ============================================================================
+ * HELPER: removerUploadTemporario
+ * ============================================================================
+ *
+ * Apaga o arquivo temporário de um upload gravado em disco. Falhas são
+ * ignoradas (o arquivo pode já ter sido removido).
+ *
+ * @param arquivo - Arquivo recebido pelo Multer (disk storage)
+ */
+export async function removerUploadTemporario(arquivo?: Express.Multer.File): Promise<void> {
+  if (arquivo?.path) {
+    await fs.unlink(arquivo.path).catch(() => undefined);
+  }
+}
+
+/**
+ * ============================================================================
+ * HELPER INTERNO: montarLinha
+ * ============================================================================
+ *
+ * Monta o objeto { cabecalho: valor } de uma linha.
+ *
+ * @returns Objeto da linha ou null se todas as células estiverem vazias
+ * @private
+ */
+function montarLinha(cabecalhos: string[], valores: string[]): Record<string, string> | null {
+  const objeto: Record<string, string> = {};
+  let possuiValor = false;
+
+  cabecalhos.forEach((cabecalho, indice) => {
+    if (!cabecalho) {
+      return;
+    }
+    const valor = valores[indice] ?? '';
+    objeto[cabecalho] = valor;
+    if (valor !== '') {
+      possuiValor = true;
+    }
+  });
+
+  return possuiValor ? objeto : null;
+}
+
+/**
+ * ============================================================================
+ * HELPER INTERNO: normalizarValorCelula
+ * ============================================================================
+ *
+ * Converte o valor de uma célula ExcelJS para string:
+ * - Date → string no formato de data escolhido
+ * - Rich text → concatenação dos trechos
+ * - Fórmula → resultado calculado
+ * - Hyperlink → texto exibido
+ * - Erro (#N/A, #REF!) → string vazia
+ * - Número com três casas decimais (ex: 1.125) → vírgula decimal ("1,125"),
+ *   pois "1.125" seria lido como milhar nas condições numéricas das regras
+ *
+ * @private
+ */
+function normalizarValorCelula(valor: any, formatoData: FormatoData): string {
+  if (valor === null || valor === undefined) {
+    return '';
+  }
+
+  if (typeof valor === 'number') {
+    const texto = String(valor);
+    return ehMilharComPonto(texto) ? texto.replace('.', ',') : texto;
+  }
+
+  if (valor instanceof Date) {
+    return formatarDataNoFormato(valor, formatoData);
+  }
+
+  if (typeof valor === 'object') {
+    if (Array.isArray(valor.richText)) {
+      return valor.richText.map((trecho: any) => trecho.text).join('').trim();
+    }
+    if ('result' in valor) {
+      return normalizarValorCelula(valor.result, formatoData);
+    }
+    if ('text' in valor) {
+      return normalizarValorCelula(valor.text, formatoData);
+    }
+    if ('error' in valor) {
+      return '';
+    }
+  }
+
+  return String(valor).trim();
+}
+
+/**
+ * ============================================================================
+ * HELPER INTERNO: formatarDataNoFormato
+ * ============================================================================
+ *
+ * Serializa uma data nativa do Excel no formato informado. O ExcelJS entrega
+ * datas como meia-noite UTC, por isso os componentes são lidos em UTC.
+ *
+ * @private
+ */
+function formatarDataNoFormato(data: Date, formato: FormatoData): string {
+  const dia = String(data.getUTCDate()).padStart(2, '0');
+  const mes = String(data.getUTCMonth() + 1).padStart(2, '0');
+  const ano = String(data.getUTCFullYear());
+
+  switch (formato) {
+    case FormatoData.AMERICANO:
+      return `${mes}/${dia}/${ano}`;
+    case FormatoData.ISO:
+      return `${ano}-${mes}-${dia}`;
+    case FormatoData.EUROPEU_PONTO:
+      return `${dia}.${mes}.${ano}`;
+    case FormatoData.BRASILEIRO_TRACO:
+      return `${dia}-${mes}-${ano}`;
+    case FormatoData.BRASILEIRO:
+    default:
+      return `${dia}/${mes}/${ano}`;
+  }
+}
+
+/**
+ * ============================================================================
+ * HELPER: validarEstruturaPlanilha
+ * ============================================================================
+ *
+ * Valida a planilha lida contra o mapeamento e o formato de data, gerando um
+ * relatório estruturado. Nenhuma regra de negócio é aplicada aqui: o objetivo
+ * é barrar arquivos malformados ANTES de qualquer envio ser processado.
+ *
+ * Verificações:
+ * - PLANILHA_VAZIA: sem cabeçalho ou sem linhas de dados
+ * - CABECALHO_VAZIO / CABECALHO_DUPLICADO
+ * - FORMATO_DATA_DESCONHECIDO: formato fora de FormatoData
+ * - CAMPO_OBRIGATORIO_NAO_MAPEADO / NUMERO_PEDIDO_NAO_MAPEADO
+ * - COLUNA_MAPEADA_AUSENTE: mapeamento aponta para coluna que não existe
+ * - COLUNA_CNPJ_VAZIA: coluna de CNPJ mapeada sem nenhum valor
+ * - DATA_INVALIDA: células de DATA_VENDA que não respeitam o formato
+ *
+ * @param planilha - Resultado de lerPlanilha
+ * @param nomeArquivo - Nome original do arquivo (apenas para o relatório)
+ * @param mapaColunas - Mapa { coluna da planilha: campo do sistema }
+ * @param formatoData - Formato de data esperado
+ * @param camposObrigatorios - Campos que devem estar mapeados
+ * @returns Relatório com valido=false se houver qualquer erro
+ */
+export function validarEstruturaPlanilha(
+  planilha: PlanilhaLida,
+  nomeArquivo: string,
+  mapaColunas: Record<string, string>,
+  formatoData: string,
+  camposObrigatorios: string[] = CAMPOS_OBRIGATORIOS_VALIDACAO,
+): RelatorioParsePlanilha {
+  const erros: ErroPlanilha[] = [];
+  const { cabecalhos, linhas, numerosLinhas } = planilha;
+
+  const relatorio = (): RelatorioParsePlanilha => ({
+    valido: erros.length === 0,
+    nomeArquivo,
+    totalLinhas: linhas.length,
+    cabecalhos,
+    formatoData,
+    erros,
+  });
+
+  // -------------------------------------------------------------------------
+  // 1. Planilha vazia
+  // -------------------------------------------------------------------------
+  if (cabecalhos.length === 0 || linhas.length === 0) {
+    erros.push({
+      codigo: 'PLANILHA_VAZIA',
+      mensagem:
+        cabecalhos.length === 0
+          ? 'A planilha não possui linha de cabeçalho.'
+          : 'A planilha não possui linhas de dados além do cabeçalho.',
+    });
+    return relatorio();
+  }
+
+  // -------------------------------------------------------------------------
+  // 2. Cabeçalho: colunas sem nome e nomes duplicados
+  // -------------------------------------------------------------------------
+  const colunasSemNome = cabecalhos
+    .map((cabecalho, indice) => (cabecalho ? null : indice + 1))
+    .filter((indice) => indice !== null);
+  if (colunasSemNome.length > 0 && colunasSemNome.length < cabecalhos.length) {
+    erros.push({
+      codigo: 'CABECALHO_VAZIO',
+      mensagem: `Existem colunas sem nome no cabeçalho (posições: ${colunasSemNome.join(', ')}).`,
+    });
+  }
+
+  const vistos = new Set<string>();
+  for (const cabecalho of cabecalhos) {
+    if (!cabecalho) continue;
+    if (vistos.has(cabecalho)) {
+      erros.push({
+        codigo: 'CABECALHO_DUPLICADO',
+        mensagem: `A coluna "${cabecalho}" aparece mais de uma vez no cabeçalho.`,
+        coluna: cabecalho,
+      });
+    }
+    vistos.add(cabecalho);
+  }
+
+  // -------------------------------------------------------------------------
+  // 3. Formato de data
+  // -------------------------------------------------------------------------
+  const formatosValidos = Object.values(FormatoData) as string[];
+  if (!formatosValidos.includes(formatoData)) {
+    erros.push({
+      codigo: 'FORMATO_DATA_DESCONHECIDO',
+      mensagem: `Formato de data "${formatoData}" desconhecido. Formatos aceitos: ${formatosValidos.join(', ')}.`,
+    });
+  }
+
+  // -------------------------------------------------------------------------
+  // 4. Mapeamento: campos obrigatórios e colunas existentes
+  // -------------------------------------------------------------------------
+  const mapaInvertido: Record<string, string> = {};
+  for (const [coluna, campo] of Object.entries(mapaColunas || {})) {
+    if (campo && campo !== 'IGNORAR') {
+      mapaInvertido[campo] = coluna;
+    }
+  }
+
+  for (const campo of camposObrigatorios) {
+    if (!mapaInvertido[campo]) {
+      erros.push({
+        codigo: 'CAMPO_OBRIGATORIO_NAO_MAPEADO',
+        mensagem: `O campo obrigatório ${campo} não está mapeado para nenhuma coluna.`,
+      });
+    }
+  }
+
+  if (!CAMPOS_NUMERO_PEDIDO.some((campo) => mapaInvertido[campo])) {
+    erros.push({
+      codigo: 'NUMERO_PEDIDO_NAO_MAPEADO',
+      mensagem: `Nenhuma coluna de número de pedido mapeada (${CAMPOS_NUMERO_PEDIDO.join(', ')}).`,
+    });
+  }
+
+  for (const [campo, coluna] of Object.entries(mapaInvertido)) {
+    if (!vistos.has(coluna)) {
+      erros.push({
+        codigo: 'COLUNA_MAPEADA_AUSENTE',
+        mensagem: `A coluna "${coluna}" (mapeada para ${campo}) não existe no cabeçalho da planilha.`,
+        coluna,
+      });
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // 5. Coluna de CNPJ sem nenhum valor
+  // -------------------------------------------------------------------------
+  const colunaCnpj = mapaInvertido['CNPJ_OTICA'];
+  if (colunaCnpj && vistos.has(colunaCnpj)) {
+    const possuiCnpj = linhas.some((linha) => limparCnpj(linha[colunaCnpj]));
+    if (!possuiCnpj) {
+      erros.push({
+        codigo: 'COLUNA_CNPJ_VAZIA',
+        mensagem: `A coluna "${colunaCnpj}" (CNPJ_OTICA) está vazia em todas as ${linhas.length} linhas.`,
+        coluna: colunaCnpj,
+      });
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // 6. Datas que não respeitam o formato escolhido
+  // -------------------------------------------------------------------------
+  const colunaData = mapaInvertido['DATA_VENDA'];
+  if (colunaData && vistos.has(colunaData) && formatosValidos.includes(formatoData)) {
+    const linhasInvalidas: number[] = [];
+
+    linhas.forEach((linha, indice) => {
+      const valor = linha[colunaData];
+      if (valor && !parseDateWithFormat(valor, formatoData as FormatoData)) {
+        linhasInvalidas.push(numerosLinhas[indice]);
+      }
+    });
+
+    if (linhasInvalidas.length > 0) {
+      erros.push({
+        codigo: 'DATA_INVALIDA',
+        mensagem: `${linhasInvalidas.length} linha(s) com data de venda fora do formato ${formatoData} na coluna "${colunaData}".`,
+        coluna: colunaData,
+        linhas: linhasInvalidas.slice(0, LIMITE_OCORRENCIAS_POR_ERRO),
+        totalOcorrencias: linhasInvalidas.length,
+      });
+    }
+  }
+
+  return relatorio();
+}
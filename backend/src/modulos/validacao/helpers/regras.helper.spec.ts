@@ -0,0 +1,53 @@
+import * as ExcelJS from 'exceljs';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { converterNumeroRegra } from './regras.helper';
+import { lerPlanilha } from './planilha.helper';
+
+describe('converterNumeroRegra', () => {
+    it('should read a single dot followed by three digits as a thousands separator', () => {
+        expect(converterNumeroRegra('1.234')).toBe(1234);
+        expect(converterNumeroRegra('R$ 12.500')).toBe(12500);
+        expect(converterNumeroRegra('-1.234')).toBe(-1234);
+    });
+
+    it('should read a single dot followed by other digit counts as decimal', () => {
+        expect(converterNumeroRegra('1.5')).toBe(1.5);
+        expect(converterNumeroRegra('1234.56')).toBe(1234.56);
+        expect(converterNumeroRegra('1.2345')).toBe(1.2345);
+        expect(converterNumeroRegra('0.500')).toBe(0.5);
+    });
+
+    it('should keep the brazilian format with comma as decimal separator', () => {
+        expect(converterNumeroRegra('R$ 1.234,56')).toBe(1234.56);
+        expect(converterNumeroRegra('1,5')).toBe(1.5);
+    });
+
+    it('should treat several dots as thousands separators', () => {
+        expect(converterNumeroRegra('1.234.567')).toBe(1234567);
+    });
+
+    it('should return numbers as is and null for non numeric values', () => {
+        expect(converterNumeroRegra(350)).toBe(350);
+        expect(converterNumeroRegra('abc')).toBeNull();
+        expect(converterNumeroRegra(null)).toBeNull();
+    });
+
+    it('should keep numeric xlsx cells with three decimals as decimals', async () => {
+        const workbook = new ExcelJS.Workbook();
+        const aba = workbook.addWorksheet('Vendas');
+        aba.addRow(['Pedido', 'Grau']);
+        aba.addRow(['#100', 1.125]);
+        aba.addRow(['#101', 2.375]);
+        aba.addRow(['#102', '1.234']);
+        const caminho = join(tmpdir(), `regras-helper-spec-${process.pid}.xlsx`);
+        await workbook.xlsx.writeFile(caminho);
+
+        const { linhas } = await lerPlanilha(caminho, 'vendas.xlsx').finally(() => fs.unlink(caminho));
+
+        expect(converterNumeroRegra(linhas[0].Grau)).toBe(1.125);
+        expect(converterNumeroRegra(linhas[1].Grau)).toBe(2.375);
+        expect(converterNumeroRegra(linhas[2].Grau)).toBe(1234);
+    });
+});
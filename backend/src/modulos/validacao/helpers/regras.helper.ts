@@ -0,0 +1,498 @@
+/**
+ * ============================================================================
+ * REGRAS HELPER - Avaliador de Condições do Rule Builder (Grupos E/OU)
+ * ============================================================================
+ *
+ * Responsável por:
+ * - Montar a árvore de grupos E/OU de um requisito (GrupoCondicao + CondicaoRequisito)
+ * - Avaliar cada combinação CampoVerificacao × OperadorCondicao contra as
+ *   linhas da planilha de um pedido
+ * - Gerar explicações por condição (admin) e o resumo do que faltou (vendedor)
+ *
+ * SEMÂNTICA:
+ * - Raiz do requisito: condições sem grupo e grupos sem pai combinados com E
+ *   (mantém o comportamento das condições legadas, sem grupo)
+ * - Grupo vazio é neutro (atendido)
+ * - Uma condição só é atendida se TODAS as linhas do pedido a atenderem
+ *   (ex: requisito PAR exige que as duas lentes satisfaçam a condição)
+ * - Operadores de texto aceitam lista separada por vírgula no valor:
+ *   IGUAL_A/CONTEM = qualquer um; NAO_IGUAL_A/NAO_CONTEM = nenhum
+ * - Texto é comparado sem diferenciar maiúsculas/minúsculas e acentos
+ * - MAIOR_QUE/MENOR_QUE (e IGUAL_A/NAO_IGUAL_A em VALOR_VENDA) são numéricos,
+ *   aceitando formato brasileiro ("R$ 1.234,56") e americano ("1234.56")
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+/**
+ * Operador lógico de um grupo (espelha o enum OperadorLogico do Prisma)
+ */
+export type OperadorLogicoRegra = 'E' | 'OU';
+
+/**
+ * Profundidade máxima de aninhamento de grupos aceita na criação de campanhas
+ */
+export const PROFUNDIDADE_MAXIMA_GRUPOS = 3;
+
+/**
+ * Campo do sistema (mapaColunas) lido por cada CampoVerificacao.
+ * CODIGO_PRODUTO usa a coluna própria quando mapeada e, na ausência, a de
+ * CODIGO_REFERENCIA (a planilha padrão só traz o código da referência).
+ */
+const COLUNAS_POR_CAMPO: Record<string, string[]> = {
+  CODIGO_DA_REFERENCIA: ['CODIGO_REFERENCIA'],
+  CODIGO_PRODUTO: ['CODIGO_PRODUTO', 'CODIGO_REFERENCIA'],
+  NOME_PRODUTO: ['NOME_PRODUTO'],
+  VALOR_VENDA: ['VALOR_VENDA'],
+};
+
+/**
+ * Rótulos legíveis dos campos (mensagens admin/vendedor)
+ */
+export const ROTULOS_CAMPO: Record<string, string> = {
+  CODIGO_DA_REFERENCIA: 'Código da Referência',
+  CODIGO_PRODUTO: 'Código do Produto',
+  NOME_PRODUTO: 'Nome do Produto',
+  VALOR_VENDA: 'Valor da Venda',
+};
+
+/**
+ * Rótulos dos operadores na forma de expressão ("Nome do Produto contém X")
+ */
+export const ROTULOS_OPERADOR: Record<string, string> = {
+  CONTEM: 'contém',
+  NAO_CONTEM: 'não contém',
+  IGUAL_A: 'igual a',
+  NAO_IGUAL_A: 'diferente de',
+  MAIOR_QUE: 'maior que',
+  MENOR_QUE: 'menor que',
+};
+
+/**
+ * Rótulos dos operadores na forma de exigência ("Nome do Produto deve conter X")
+ */
+const ROTULOS_OPERADOR_EXIGENCIA: Record<string, string> = {
+  CONTEM: 'deve conter',
+  NAO_CONTEM: 'não deve conter',
+  IGUAL_A: 'deve ser igual a',
+  NAO_IGUAL_A: 'deve ser diferente de',
+  MAIOR_QUE: 'deve ser maior que',
+  MENOR_QUE: 'deve ser menor que',
+};
+
+/**
+ * Condição a ser avaliada (subconjunto de CondicaoRequisito)
+ */
+export interface CondicaoRegra {
+  id?: string;
+  campo: string;
+  operador: string;
+  valor: string;
+  grupoId?: string | null;
+}
+
+/**
+ * Grupo a ser avaliado (subconjunto de GrupoCondicao)
+ */
+export interface GrupoRegra {
+  id: string;
+  operadorLogico: OperadorLogicoRegra;
+  ordem?: number;
+  grupoPaiId?: string | null;
+}
+
+/**
+ * Nó da árvore de avaliação
+ */
+export interface NoGrupoRegra {
+  id: string | null;
+  operadorLogico: OperadorLogicoRegra;
+  condicoes: CondicaoRegra[];
+  subgrupos: NoGrupoRegra[];
+}
+
+/**
+ * Resultado da avaliação de uma condição
+ */
+export interface ResultadoCondicao {
+  condicaoId: string | null;
+  campo: string;
+  operador: string;
+  valorEsperado: string;
+  /** Valores lidos em cada linha do pedido */
+  valoresEncontrados: string[];
+  atendida: boolean;
+  /** Coluna do campo não foi mapeada na planilha */
+  colunaAusente: boolean;
+  /** Explicação técnica (admin), ex: ✗ Nome do Produto contém "BLUE" → encontrado "VARILUX" */
+  explicacao: string;
+}
+
+/**
+ * Resultado da avaliação de um grupo
+ */
+export interface ResultadoGrupo {
+  grupoId: string | null;
+  operadorLogico: OperadorLogicoRegra;
+  atendido: boolean;
+  condicoes: ResultadoCondicao[];
+  subgrupos: ResultadoGrupo[];
+}
+
+/**
+ * ============================================================================
+ * HELPER: normalizarTextoRegra
+ * ============================================================================
+ *
+ * Normaliza texto para comparação: sem acentos, maiúsculo e sem espaços
+ * nas extremidades.
+ *
+ * @example
+ * normalizarTextoRegra("  Lente Açaí ") // "LENTE ACAI"
+ */
+export function normalizarTextoRegra(valor: unknown): string {
+  if (valor === null || valor === undefined) {
+    return '';
+  }
+
+  return String(valor)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .trim();
+}
+
+/**
+ * Texto com um único ponto seguido de exatamente três dígitos (ex: "1.234"),
+ * que converterNumeroRegra lê como separador de milhar.
+ */
+export function ehMilharComPonto(texto: string): boolean {
+  return /^-?[1-9]\d{0,2}\.\d{3}$/.test(texto);
+}
+
+/**
+ * ============================================================================
+ * HELPER: converterNumeroRegra
+ * ============================================================================
+ *
+ * Converte valores numéricos da planilha/regra, aceitando formato brasileiro
+ * e americano. Retorna null se o valor não for numérico.
+ *
+ * Um único ponto seguido de exatamente três dígitos (ex: "1.234") é lido como
+ * separador de milhar, como nas planilhas brasileiras. Inteiro "0" antes do
+ * ponto (ex: "0.500") continua decimal.
+ *
+ * @example
+ * converterNumeroRegra("R$ 1.234,56") // 1234.56
+ * converterNumeroRegra("1234.56")     // 1234.56
+ * converterNumeroRegra("1.234")       // 1234
+ * converterNumeroRegra("1.5")         // 1.5
+ * converterNumeroRegra("1.234.567")   // 1234567
+ * converterNumeroRegra(350)           // 350
+ * converterNumeroRegra("abc")         // null
+ */
+export function converterNumeroRegra(valor: unknown): number | null {
+  if (typeof valor === 'number') {
+    return Number.isFinite(valor) ? valor : null;
+  }
+
+  if (valor === null || valor === undefined) {
+    return null;
+  }
+
+  let texto = String(valor).replace(/[^\d,.-]/g, '');
+
+  if (!/\d/.test(texto)) {
+    return null;
+  }
+
+  if (texto.includes(',')) {
+    // Formato brasileiro: ponto = milhar, vírgula = decimal
+    texto = texto.replace(/\./g, '').replace(',', '.');
+  } else if ((texto.match(/\./g) || []).length > 1 || ehMilharComPonto(texto)) {
+    // Vários pontos sem vírgula, ou um ponto seguido de exatamente três
+    // dígitos: separadores de milhar
+    texto = texto.replace(/\./g, '');
+  }
+
+  const numero = Number(texto);
+  return Number.isFinite(numero) ? numero : null;
+}
+
+/**
+ * ============================================================================
+ * HELPER: montarArvoreCondicoes
+ * ============================================================================
+ *
+ * Monta a árvore de avaliação a partir das listas planas do banco.
+ * A raiz (id null, operador E) recebe as condições sem grupo e os grupos
+ * sem pai. Condições que apontam para grupos inexistentes vão para a raiz.
+ *
+ * @param condicoes - Condições do requisito (com grupoId)
+ * @param grupos - Grupos do requisito (com grupoPaiId)
+ * @returns Nó raiz da árvore
+ */
+export function montarArvoreCondicoes(
+  condicoes: CondicaoRegra[] = [],
+  grupos: GrupoRegra[] = [],
+): NoGrupoRegra {
+  const raiz: NoGrupoRegra = { id: null, operadorLogico: 'E', condicoes: [], subgrupos: [] };
+  const nos = new Map<string, NoGrupoRegra>();
+
+  const gruposOrdenados = [...grupos].sort((a, b) => (a.ordem ?? 0) - (b.ordem ?? 0));
+
+  for (const grupo of gruposOrdenados) {
+    nos.set(grupo.id, {
+      id: grupo.id,
+      operadorLogico: grupo.operadorLogico,
+      condicoes: [],
+      subgrupos: [],
+    });
+  }
+
+  for (const grupo of gruposOrdenados) {
+    const no = nos.get(grupo.id)!;
+    const pai = grupo.grupoPaiId ? nos.get(grupo.grupoPaiId) : undefined;
+    (pai ?? raiz).subgrupos.push(no);
+  }
+
+  for (const condicao of condicoes) {
+    const grupo = condicao.grupoId ? nos.get(condicao.grupoId) : undefined;
+    (grupo ?? raiz).condicoes.push(condicao);
+  }
+
+  return raiz;
+}
+
+/**
+ * ============================================================================
+ * HELPER: contarCondicoes
+ * ============================================================================
+ *
+ * Total de condições na árvore (0 = requisito sem regras).
+ */
+export function contarCondicoes(no: NoGrupoRegra): number {
+  return no.condicoes.length + no.subgrupos.reduce((total, sub) => total + contarCondicoes(sub), 0);
+}
+
+/**
+ * ============================================================================
+ * HELPER: avaliarCondicao
+ * ============================================================================
+ *
+ * Avalia uma condição contra todas as linhas do pedido.
+ *
+ * @param condicao - Condição (campo, operador, valor)
+ * @param linhas - Linhas da planilha do pedido
+ * @param mapaInvertido - Mapa campo_sistema → nome_coluna_planilha
+ */
+export function avaliarCondicao(
+  condicao: CondicaoRegra,
+  linhas: Record<string, any>[],
+  mapaInvertido: Record<string, string>,
+): ResultadoCondicao {
+  const { campo, operador } = condicao;
+  const valorEsperado = String(condicao.valor ?? '');
+  const expressao = `${ROTULOS_CAMPO[campo] || campo} ${ROTULOS_OPERADOR[operador] || operador} "${valorEsperado}"`;
+
+  const nomeColuna = (COLUNAS_POR_CAMPO[campo] || [campo])
+    .map((campoSistema) => mapaInvertido[campoSistema])
+    .find((coluna) => !!coluna);
+
+  const base = {
+    condicaoId: condicao.id ?? null,
+    campo,
+    operador,
+    valorEsperado,
+  };
+
+  if (!nomeColuna) {
+    return {
+      ...base,
+      valoresEncontrados: [],
+      atendida: false,
+      colunaAusente: true,
+      explicacao: `✗ ${expressao} → coluna de "${ROTULOS_CAMPO[campo] || campo}" não mapeada na planilha`,
+    };
+  }
+
+  const valoresEncontrados = linhas.map((linha) =>
+    linha[nomeColuna] === null || linha[nomeColuna] === undefined ? '' : String(linha[nomeColuna]).trim(),
+  );
+
+  const atendida =
+    valoresEncontrados.length > 0 &&
+    valoresEncontrados.every((valorReal) => _compararValor(campo, operador, valorReal, valorEsperado));
+
+  const encontrados = valoresEncontrados.map((v) => `"${v}"`).join(', ') || 'nenhuma linha';
+
+  return {
+    ...base,
+    valoresEncontrados,
+    atendida,
+    colunaAusente: false,
+    explicacao: `${atendida ? '✓' : '✗'} ${expressao} → encontrado ${encontrados}`,
+  };
+}
+
+/**
+ * ============================================================================
+ * HELPER: avaliarGrupo
+ * ============================================================================
+ *
+ * Avalia recursivamente um grupo. Todas as condições são avaliadas (sem
+ * curto-circuito) para que o relatório explique cada uma.
+ *
+ * @param no - Nó da árvore (use montarArvoreCondicoes para obter a raiz)
+ * @param linhas - Linhas da planilha do pedido
+ * @param mapaInvertido - Mapa campo_sistema → nome_coluna_planilha
+ */
+export function avaliarGrupo(
+  no: NoGrupoRegra,
+  linhas: Record<string, any>[],
+  mapaInvertido: Record<string, string>,
+): ResultadoGrupo {
+  const condicoes = no.condicoes.map((condicao) => avaliarCondicao(condicao, linhas, mapaInvertido));
+  const subgrupos = no.subgrupos.map((sub) => avaliarGrupo(sub, linhas, mapaInvertido));
+
+  const parciais = [...condicoes.map((c) => c.atendida), ...subgrupos.map((s) => s.atendido)];
+
+  let atendido = true;
+  if (parciais.length > 0) {
+    atendido = no.operadorLogico === 'OU' ? parciais.some(Boolean) : parciais.every(Boolean);
+  }
+
+  return {
+    grupoId: no.id,
+    operadorLogico: no.operadorLogico,
+    atendido,
+    condicoes,
+    subgrupos,
+  };
+}
+
+/**
+ * ============================================================================
+ * HELPER: descreverExpressao
+ * ============================================================================
+ *
+ * Expressão legível da árvore, usada no relatório e no preview do wizard.
+ *
+ * @example
+ * // Nome do Produto contém "BLUE" E (Valor da Venda maior que "300" OU Código do Produto igual a "X1")
+ */
+export function descreverExpressao(no: NoGrupoRegra, raiz = true): string {
+  const partes = [
+    ...no.condicoes.map(
+      (c) => `${ROTULOS_CAMPO[c.campo] || c.campo} ${ROTULOS_OPERADOR[c.operador] || c.operador} "${c.valor}"`,
+    ),
+    ...no.subgrupos
+      .filter((sub) => contarCondicoes(sub) > 0)
+      .map((sub) => descreverExpressao(sub, false)),
+  ];
+
+  const expressao = partes.join(` ${no.operadorLogico} `);
+  return raiz || partes.length <= 1 ? expressao : `(${expressao})`;
+}
+
+/**
+ * ============================================================================
+ * HELPER: explicarResultadoAdmin
+ * ============================================================================
+ *
+ * Lista plana com a explicação de cada condição avaliada (✓/✗), prefixada
+ * pelo caminho do grupo. Ex: "[OU #1] ✗ Nome do Produto contém ..."
+ */
+export function explicarResultadoAdmin(resultado: ResultadoGrupo, caminho = ''): string[] {
+  const linhas = resultado.condicoes.map((c) => `${caminho}${c.explicacao}`);
+
+  resultado.subgrupos.forEach((sub, indice) => {
+    const prefixo = `${caminho}[${sub.operadorLogico} #${indice + 1}${sub.atendido ? ' ✓' : ' ✗'}] `;
+    linhas.push(...explicarResultadoAdmin(sub, prefixo));
+  });
+
+  return linhas;
+}
+
+/**
+ * ============================================================================
+ * HELPER: explicarFalhaVendedor
+ * ============================================================================
+ *
+ * Resume, em linguagem simples, o que o pedido precisaria atender.
+ * Grupo E reprovado: lista apenas o que falhou. Grupo OU reprovado: lista as
+ * alternativas ("... ou ...").
+ */
+export function explicarFalhaVendedor(resultado: ResultadoGrupo): string {
+  if (resultado.atendido) {
+    return '';
+  }
+
+  const descreverCondicao = (c: ResultadoCondicao) =>
+    `${ROTULOS_CAMPO[c.campo] || c.campo} ${ROTULOS_OPERADOR_EXIGENCIA[c.operador] || c.operador} "${c.valorEsperado}"`;
+
+  if (resultado.operadorLogico === 'OU') {
+    const alternativas = [
+      ...resultado.condicoes.map(descreverCondicao),
+      ...resultado.subgrupos.map(explicarFalhaVendedor).filter((texto) => texto.length > 0),
+    ];
+    return alternativas.length > 1 ? `(${alternativas.join(' ou ')})` : alternativas.join('');
+  }
+
+  return [
+    ...resultado.condicoes.filter((c) => !c.atendida).map(descreverCondicao),
+    ...resultado.subgrupos.filter((s) => !s.atendido).map(explicarFalhaVendedor),
+  ].join('; ');
+}
+
+/**
+ * Compara um valor da planilha com o valor da condição.
+ *
+ * @private
+ */
+function _compararValor(campo: string, operador: string, valorReal: string, valorEsperado: string): boolean {
+  const numerico =
+    operador === 'MAIOR_QUE' ||
+    operador === 'MENOR_QUE' ||
+    (campo === 'VALOR_VENDA' && (operador === 'IGUAL_A' || operador === 'NAO_IGUAL_A'));
+
+  if (numerico) {
+    const real = converterNumeroRegra(valorReal);
+    const esperado = converterNumeroRegra(valorEsperado);
+
+    if (real === null || esperado === null) {
+      return false;
+    }
+
+    switch (operador) {
+      case 'MAIOR_QUE':
+        return real > esperado;
+      case 'MENOR_QUE':
+        return real < esperado;
+      case 'IGUAL_A':
+        return Math.abs(real - esperado) < 0.005;
+      default:
+        return Math.abs(real - esperado) >= 0.005;
+    }
+  }
+
+  const real = normalizarTextoRegra(valorReal);
+  const opcoes = valorEsperado
+    .split(',')
+    .map(normalizarTextoRegra)
+    .filter((opcao) => opcao.length > 0);
+
+  switch (operador) {
+    case 'IGUAL_A':
+      return opcoes.some((opcao) => real === opcao);
+    case 'NAO_IGUAL_A':
+      return opcoes.every((opcao) => real !== opcao);
+    case 'CONTEM':
+      return opcoes.some((opcao) => real.includes(opcao));
+    case 'NAO_CONTEM':
+      return opcoes.every((opcao) => !real.includes(opcao));
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * ============================================================================
+ * IMPRESSAO PLANILHA SERVICE - Bloqueio de Reprocessamento de Planilhas
+ * ============================================================================
+ *
+ * Descrição:
+ * Impede que o mesmo export (ou um export que se sobrepõe a outro) seja
+ * processado duas vezes em execuções reais.
+ *
+ * Cada execução real grava em HistoricoValidacao a impressão digital do
+ * arquivo e, em LinhaProcessadaValidacao, a impressão de cada linha. Antes de
+ * uma nova execução real:
+ * - Arquivo idêntico a uma execução anterior → bloqueia
+ * - PERCENTUAL_MINIMO_SOBREPOSICAO ou mais das linhas já processadas → bloqueia
+ *
+ * O bloqueio (409 com relatório) só é liberado com confirmação explícita e
+ * justificativa, que ficam registradas no histórico da nova execução.
+ * Execuções revertidas e simulações não contam.
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import { Injectable, Logger, ConflictException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ImpressaoPlanilha } from './helpers/impressao-planilha.helper';
+
+/**
+ * Fração de linhas já processadas a partir da qual a planilha é bloqueada
+ */
+export const PERCENTUAL_MINIMO_SOBREPOSICAO = 0.5;
+
+/**
+ * Tamanho mínimo da justificativa de reprocessamento
+ */
+export const TAMANHO_MINIMO_JUSTIFICATIVA = 10;
+
+/**
+ * Quantidade de impressões por consulta (limite de parâmetros do PostgreSQL)
+ */
+const TAMANHO_LOTE_CONSULTA = 5000;
+
+/**
+ * Execução anterior que já processou o arquivo ou parte das linhas
+ */
+export interface ExecucaoSobreposta {
+  historicoId: string;
+  dataHora: string;
+  admin: string;
+  campanhaId: string;
+  nomeArquivo: string | null;
+  mesmoArquivo: boolean;
+  linhasRepetidas: number;
+}
+
+/**
+ * Relatório retornado no 409 (e gravado no histórico quando confirmado)
+ */
+export interface RelatorioReprocessamento {
+  hashArquivo: string;
+  nomeArquivo: string | null;
+  totalLinhas: number;
+  arquivoJaProcessado: boolean;
+  linhasJaProcessadas: number;
+  percentualJaProcessado: number;
+  execucoes: ExecucaoSobreposta[];
+}
+
+/**
+ * Resultado da verificação: impressões a gravar e, se o admin confirmou o
+ * reprocessamento, a justificativa e o relatório exibido
+ */
+export interface ImpressaoVerificada {
+  impressao: ImpressaoPlanilha;
+  reprocessamento: {
+    justificativa: string;
+    relatorio: RelatorioReprocessamento;
+  } | null;
+}
+
+/**
+ * Confirmação enviada pelo admin
+ */
+export interface ConfirmacaoReprocessamento {
+  confirmarReprocessamento?: boolean;
+  justificativaReprocessamento?: string;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: ImpressaoPlanilhaService
+ * ============================================================================
+ */
+@Injectable()
+export class ImpressaoPlanilhaService {
+  private readonly logger = new Logger(ImpressaoPlanilhaService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: analisar
+   * ==========================================================================
+   *
+   * Compara as impressões da planilha com as execuções reais anteriores
+   * (não revertidas).
+   *
+   * @param impressao - Impressões da planilha
+   * @returns Relatório de sobreposição
+   */
+  async analisar(impressao: ImpressaoPlanilha): Promise<RelatorioReprocessamento> {
+    const execucoesMesmoArquivo = await this.prisma.historicoValidacao.findMany({
+      where: { hashArquivo: impressao.hashArquivo, revertidoEm: null },
+      select: { id: true },
+    });
+
+    // Linhas repetidas por execução e linhas distintas já processadas
+    const repetidasPorExecucao = new Map<string, number>();
+    const linhasJaProcessadas = new Set<string>();
+
+    for (let inicio = 0; inicio < impressao.hashesLinhas.length; inicio += TAMANHO_LOTE_CONSULTA) {
+      const lote = impressao.hashesLinhas.slice(inicio, inicio + TAMANHO_LOTE_CONSULTA);
+      const encontradas = await this.prisma.linhaProcessadaValidacao.findMany({
+        where: {
+          hashLinha: { in: lote },
+          historicoValidacao: { revertidoEm: null },
+        },
+        select: { hashLinha: true, historicoValidacaoId: true },
+      });
+
+      for (const linha of encontradas) {
+        linhasJaProcessadas.add(linha.hashLinha);
+        repetidasPorExecucao.set(
+          linha.historicoValidacaoId,
+          (repetidasPorExecucao.get(linha.historicoValidacaoId) || 0) + 1,
+        );
+      }
+    }
+
+    const idsMesmoArquivo = new Set(execucoesMesmoArquivo.map((h) => h.id));
+    const idsExecucoes = Array.from(new Set([...idsMesmoArquivo, ...repetidasPorExecucao.keys()]));
+
+    const historicos = idsExecucoes.length
+      ? await this.prisma.historicoValidacao.findMany({
+          where: { id: { in: idsExecucoes } },
+          select: {
+            id: true,
+            dataHora: true,
+            campanhaId: true,
+            nomeArquivo: true,
+            admin: { select: { nome: true } },
+          },
+          orderBy: { dataHora: 'desc' },
+        })
+      : [];
+
+    const totalDistintas = impressao.hashesLinhas.length;
+
+    return {
+      hashArquivo: impressao.hashArquivo,
+      nomeArquivo: impressao.nomeArquivo,
+      totalLinhas: impressao.totalLinhas,
+      arquivoJaProcessado: idsMesmoArquivo.size > 0,
+      linhasJaProcessadas: linhasJaProcessadas.size,
+      percentualJaProcessado: totalDistintas > 0 ? linhasJaProcessadas.size / totalDistintas : 0,
+      execucoes: historicos.map((historico) => ({
+        historicoId: historico.id,
+        dataHora: historico.dataHora.toISOString(),
+        admin: historico.admin.nome,
+        campanhaId: historico.campanhaId,
+        nomeArquivo: historico.nomeArquivo,
+        mesmoArquivo: idsMesmoArquivo.has(historico.id),
+        linhasRepetidas: repetidasPorExecucao.get(historico.id) || 0,
+      })),
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: verificar
+   * ==========================================================================
+   *
+   * Bloqueia a execução real se a planilha já tiver sido processada, a menos
+   * que o admin tenha confirmado o reprocessamento com justificativa.
+   *
+   * @param impressao - Impressões da planilha
+   * @param confirmacao - Confirmação e justificativa enviadas pelo admin
+   * @returns Impressões a gravar + dados do reprocessamento confirmado
+   * @throws ConflictException (409) com o relatório, se não houver confirmação
+   * @throws BadRequestException se a confirmação vier sem justificativa válida
+   */
+  async verificar(
+    impressao: ImpressaoPlanilha,
+    confirmacao: ConfirmacaoReprocessamento,
+  ): Promise<ImpressaoVerificada> {
+    const relatorio = await this.analisar(impressao);
+
+    const jaProcessada =
+      relatorio.arquivoJaProcessado || relatorio.percentualJaProcessado >= PERCENTUAL_MINIMO_SOBREPOSICAO;
+
+    if (!jaProcessada) {
+      return { impressao, reprocessamento: null };
+    }
+
+    this.logger.warn(
+      `Planilha ${impressao.nomeArquivo || '(JSON)'} já processada: mesmo arquivo=${relatorio.arquivoJaProcessado}, linhas repetidas=${relatorio.linhasJaProcessadas}/${impressao.hashesLinhas.length}`,
+    );
+
+    if (!confirmacao.confirmarReprocessamento) {
+      throw new ConflictException({
+        message: relatorio.arquivoJaProcessado
+          ? 'Este arquivo já foi processado em uma validação anterior. Confirme o reprocessamento e informe uma justificativa para continuar.'
+          : `${Math.round(relatorio.percentualJaProcessado * 100)}% das linhas desta planilha já foram processadas em validações anteriores. Confirme o reprocessamento e informe uma justificativa para continuar.`,
+        codigo: 'PLANILHA_JA_PROCESSADA',
+        relatorio,
+      });
+    }
+
+    const justificativa = (confirmacao.justificativaReprocessamento || '').trim();
+    if (justificativa.length < TAMANHO_MINIMO_JUSTIFICATIVA) {
+      throw new BadRequestException(
+        `Informe uma justificativa de pelo menos ${TAMANHO_MINIMO_JUSTIFICATIVA} caracteres para reprocessar a planilha.`,
+      );
+    }
+
+    return { impressao, reprocessamento: { justificativa, relatorio } };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: registrarLinhas
+   * ==========================================================================
+   *
+   * Grava as impressões das linhas de uma execução real.
+   *
+   * @param historicoValidacaoId - Execução registrada no histórico
+   * @param impressao - Impressões da planilha
+   */
+  async registrarLinhas(historicoValidacaoId: string, impressao: ImpressaoPlanilha) {
+    for (let inicio = 0; inicio < impressao.hashesLinhas.length; inicio += TAMANHO_LOTE_CONSULTA) {
+      await this.prisma.linhaProcessadaValidacao.createMany({
+        data: impressao.hashesLinhas
+          .slice(inicio, inicio + TAMANHO_LOTE_CONSULTA)
+          .map((hashLinha) => ({ historicoValidacaoId, hashLinha })),
+        skipDuplicates: true,
+      });
+    }
+  }
+}
@@ -0,0 +1,509 @@
+/**
+ * ============================================================================
+ * JOB VALIDACAO SERVICE - Validação Assíncrona em Segundo Plano
+ * ============================================================================
+ *
+ * Descrição:
+ * Executa o "Robô" de validação (ValidacaoService.processarPlanilha) fora do
+ * ciclo da requisição HTTP. Validações "TODAS" com milhares de envios
+ * estouravam o timeout do request síncrono.
+ *
+ * Fluxo:
+ * 1. POST /validacao/jobs → lê e valida a planilha (erros de estrutura
+ *    retornam 400 imediatamente) e cria o registro JobValidacao (PENDENTE)
+ * 2. O processamento roda em segundo plano, em lotes de envios
+ * 3. A cada lote, o job é atualizado com progresso e contadores por status
+ * 4. O admin pode solicitar cancelamento; o job para no próximo limite de
+ *    lote, mantendo o que já foi persistido
+ * 5. Ao final, o job guarda o relatório e o vínculo com o HistoricoValidacao
+ *
+ * Observação:
+ * O processamento roda no mesmo processo da API. Jobs que estavam em
+ * andamento quando o servidor reiniciou são marcados como FALHOU na subida.
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { StatusJobValidacao } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ValidacaoService, LinhaDiffSimulacao } from './validacao.service';
+import { ProcessarValidacaoDto } from './dto/processar-validacao.dto';
+import { ProcessarArquivoValidacaoDto } from './dto/processar-arquivo-validacao.dto';
+import { ImpressaoVerificada } from './impressao-planilha.service';
+
+/**
+ * Quantidade de envios validados e persistidos por lote
+ */
+const TAMANHO_LOTE_JOB = 100;
+
+/**
+ * Status de jobs que ainda não terminaram
+ */
+const STATUS_JOB_ATIVOS: StatusJobValidacao[] = ['PENDENTE', 'PROCESSANDO'];
+
+/**
+ * Chave do advisory lock que serializa a criação de jobs reais. Um lock global
+ * (e não por campanha) porque um job "TODAS" conflita com qualquer campanha.
+ */
+const CHAVE_LOCK_JOB_REAL = 718_001;
+
+/**
+ * ============================================================================
+ * SERVICE: JobValidacaoService
+ * ============================================================================
+ */
+@Injectable()
+export class JobValidacaoService implements OnModuleInit {
+  private readonly logger = new Logger(JobValidacaoService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   * @param validacaoService - Robô de validação (processamento em lotes)
+   */
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly validacaoService: ValidacaoService,
+  ) {}
+
+  /**
+   * Marca como FALHOU os jobs que ficaram órfãos em um reinício do servidor.
+   */
+  async onModuleInit() {
+    try {
+      const { count } = await this.prisma.jobValidacao.updateMany({
+        where: { status: { in: STATUS_JOB_ATIVOS } },
+        data: {
+          status: 'FALHOU',
+          mensagemErro: 'Servidor reiniciado durante o processamento. Submeta a planilha novamente.',
+          finalizadoEm: new Date(),
+        },
+      });
+
+      if (count > 0) {
+        this.logger.warn(`${count} job(s) de validação órfão(s) marcados como FALHOU.`);
+      }
+    } catch (erro) {
+      this.logger.error(`Erro ao recuperar jobs órfãos: ${erro.message}`);
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: submeter
+   * ==========================================================================
+   *
+   * Lê e valida a planilha e cria o job. O processamento é disparado em
+   * segundo plano e este método retorna imediatamente.
+   *
+   * Regra: apenas um job REAL ativo por campanha (evita duas execuções
+   * concorrentes creditando os mesmos envios).
+   *
+   * @param arquivo - Arquivo da planilha (.xlsx/.csv)
+   * @param dto - Campos do formulário
+   * @param adminId - ID do admin que submeteu
+   * @returns Registro do job criado (status PENDENTE)
+   * @throws BadRequestException se a planilha tiver erros de estrutura
+   * @throws ConflictException se já houver job real ativo para a campanha
+   */
+  async submeter(
+    arquivo: Express.Multer.File,
+    dto: ProcessarArquivoValidacaoDto,
+    adminId: string,
+  ) {
+    const { dadosProcessamento, impressaoVerificada } = await this.validacaoService.prepararArquivo(
+      arquivo,
+      dto,
+      adminId,
+    );
+
+    const job = await this._criarJob({
+      adminId,
+      campanhaId: dto.campanhaId,
+      ehSimulacao: dto.ehSimulacao,
+      nomeArquivo: arquivo.originalname,
+    });
+
+    this.logger.log(`Job ${job.id} criado (campanha: ${dto.campanhaId}, simulação: ${dto.ehSimulacao}).`);
+
+    // Dispara em segundo plano (não aguarda)
+    setImmediate(() => {
+      this._executar(job.id, dadosProcessamento, adminId, impressaoVerificada).catch((erro) =>
+        this.logger.error(`Erro não tratado no job ${job.id}: ${erro.message}`, erro.stack),
+      );
+    });
+
+    return job;
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: processarSincrono
+   * ==========================================================================
+   *
+   * Execução síncrona de POST /validacao/processar. Execuções reais passam
+   * pela mesma regra de submeter (um job real ativo por campanha): são
+   * registradas como job PROCESSANDO enquanto rodam, de modo que um job em
+   * segundo plano e uma execução síncrona não creditam os mesmos envios.
+   * Simulações rodam direto.
+   *
+   * @param dto - Dados da planilha (JSON)
+   * @param adminId - ID do admin
+   * @throws ConflictException se já houver job real ativo para a campanha
+   */
+  async processarSincrono(dto: ProcessarValidacaoDto, adminId: string) {
+    return this._executarSincrono({ adminId, campanhaId: dto.campanhaId, ehSimulacao: dto.ehSimulacao }, () =>
+      this.validacaoService.processarPlanilha(dto, adminId),
+    );
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: processarArquivoSincrono
+   * ==========================================================================
+   *
+   * Execução síncrona de POST /validacao/processar-arquivo, com a mesma regra
+   * de processarSincrono. Erros de estrutura da planilha retornam 400 antes de
+   * qualquer registro.
+   *
+   * @param arquivo - Arquivo da planilha (.xlsx/.csv)
+   * @param dto - Campos do formulário
+   * @param adminId - ID do admin
+   * @returns Relatório consolidado do processamento + resumo do arquivo
+   * @throws BadRequestException se a planilha tiver erros de estrutura
+   * @throws ConflictException se já houver job real ativo para a campanha
+   */
+  async processarArquivoSincrono(
+    arquivo: Express.Multer.File,
+    dto: ProcessarArquivoValidacaoDto,
+    adminId: string,
+  ) {
+    const { dadosProcessamento, relatorioParse, perfilMapeamento, impressaoVerificada } =
+      await this.validacaoService.prepararArquivo(arquivo, dto, adminId);
+
+    const resultado = await this._executarSincrono(
+      {
+        adminId,
+        campanhaId: dto.campanhaId,
+        ehSimulacao: dto.ehSimulacao,
+        nomeArquivo: arquivo.originalname,
+      },
+      () => this.validacaoService.processarPlanilha(dadosProcessamento, adminId, { impressaoVerificada }),
+    );
+
+    return {
+      ...resultado,
+      arquivo: {
+        nome: relatorioParse.nomeArquivo,
+        totalLinhas: relatorioParse.totalLinhas,
+        formatoData: relatorioParse.formatoData,
+        perfilMapeamento,
+      },
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * HELPER: _criarJob
+   * ==========================================================================
+   *
+   * Cria o registro do job. Para jobs reais, a checagem de job ativo e o
+   * create rodam sob o mesmo advisory lock: sem ele, duas requisições
+   * simultâneas passariam pela checagem antes de qualquer create.
+   *
+   * @throws ConflictException se já houver job real ativo para a campanha
+   * @private
+   */
+  private async _criarJob(dados: {
+    adminId: string;
+    campanhaId: string;
+    ehSimulacao: boolean;
+    nomeArquivo?: string;
+  }) {
+    return this.prisma.$transaction(async (tx) => {
+      if (!dados.ehSimulacao) {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CHAVE_LOCK_JOB_REAL})`;
+
+        const jobAtivo = await tx.jobValidacao.findFirst({
+          where: {
+            ehSimulacao: false,
+            status: { in: STATUS_JOB_ATIVOS },
+            campanhaId: dados.campanhaId === 'TODAS' ? undefined : { in: [dados.campanhaId, 'TODAS'] },
+          },
+        });
+
+        if (jobAtivo) {
+          throw new ConflictException(
+            `Já existe uma validação em andamento para esta campanha (job ${jobAtivo.id}). Aguarde ou cancele antes de submeter outra.`,
+          );
+        }
+      }
+
+      return tx.jobValidacao.create({ data: dados });
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * HELPER: _executarSincrono
+   * ==========================================================================
+   *
+   * Roda o processamento na própria requisição. Execuções reais ficam
+   * registradas como job (PROCESSANDO → CONCLUIDO/FALHOU) durante a execução.
+   *
+   * @private
+   */
+  private async _executarSincrono<T extends Record<string, any>>(
+    dados: { adminId: string; campanhaId: string; ehSimulacao: boolean; nomeArquivo?: string },
+    processar: () => Promise<T>,
+  ): Promise<T> {
+    if (dados.ehSimulacao) {
+      return processar();
+    }
+
+    const job = await this._criarJob(dados);
+    await this.prisma.jobValidacao.update({
+      where: { id: job.id },
+      data: { status: 'PROCESSANDO', iniciadoEm: new Date() },
+    });
+
+    try {
+      const resultado = await processar();
+      await this._registrarConclusao(job.id, resultado);
+      return resultado;
+    } catch (erro) {
+      await this._registrarFalha(job.id, erro);
+      throw erro;
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * HELPER: _executar
+   * ==========================================================================
+   *
+   * Executa o processamento em lotes, atualizando o job a cada lote.
+   *
+   * @private
+   */
+  private async _executar(
+    jobId: string,
+    dados: ProcessarValidacaoDto,
+    adminId: string,
+    impressaoVerificada?: ImpressaoVerificada,
+  ) {
+    await this.prisma.jobValidacao.update({
+      where: { id: jobId },
+      data: { status: 'PROCESSANDO', iniciadoEm: new Date() },
+    });
+
+    try {
+      const resultado = await this.validacaoService.processarPlanilha(dados, adminId, {
+        tamanhoLote: TAMANHO_LOTE_JOB,
+        impressaoVerificada,
+        aoProgredir: async (progresso) => {
+          await this.prisma.jobValidacao.update({
+            where: { id: jobId },
+            data: progresso,
+          });
+        },
+        deveCancelar: async () => {
+          const job = await this.prisma.jobValidacao.findUnique({
+            where: { id: jobId },
+            select: { cancelamentoSolicitado: true },
+          });
+          return !!job?.cancelamentoSolicitado;
+        },
+      });
+
+      await this._registrarConclusao(jobId, resultado);
+    } catch (erro) {
+      await this._registrarFalha(jobId, erro);
+    }
+  }
+
+  /**
+   * Grava o relatório final e os contadores do job.
+   *
+   * @private
+   */
+  private async _registrarConclusao(jobId: string, resultado: Record<string, any>) {
+    const { detalhes, cancelado, historicoValidacaoId, ...resumo } = resultado;
+
+    await this.prisma.jobValidacao.update({
+      where: { id: jobId },
+      data: {
+        status: cancelado ? 'CANCELADO' : 'CONCLUIDO',
+        processados: resumo.totalProcessados,
+        validado: resumo.validado,
+        rejeitado: resumo.rejeitado,
+        conflito_manual: resumo.conflito_manual,
+        em_analise: resumo.em_analise,
+        revalidado: resumo.revalidado ?? 0,
+        resultadoJson: resultado as any,
+        historicoValidacaoId: historicoValidacaoId || null,
+        finalizadoEm: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `Job ${jobId} ${cancelado ? 'CANCELADO' : 'CONCLUIDO'}: ${resumo.totalProcessados} envios processados.`,
+    );
+  }
+
+  /**
+   * Marca o job como FALHOU com a mensagem do erro.
+   *
+   * @private
+   */
+  private async _registrarFalha(jobId: string, erro: Error) {
+    this.logger.error(`Job ${jobId} FALHOU: ${erro.message}`, erro.stack);
+
+    await this.prisma.jobValidacao.update({
+      where: { id: jobId },
+      data: {
+        status: 'FALHOU',
+        mensagemErro: erro.message,
+        finalizadoEm: new Date(),
+      },
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: buscar
+   * ==========================================================================
+   *
+   * Retorna o job com progresso atual (e o relatório final, se concluído).
+   *
+   * @param jobId - ID do job
+   * @throws NotFoundException se o job não existir
+   */
+  async buscar(jobId: string) {
+    const job = await this.prisma.jobValidacao.findUnique({
+      where: { id: jobId },
+      include: {
+        admin: { select: { id: true, nome: true, email: true } },
+      },
+    });
+
+    if (!job) {
+      throw new NotFoundException(`Job de validação ${jobId} não encontrado.`);
+    }
+
+    return job;
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: listar
+   * ==========================================================================
+   *
+   * Lista os jobs mais recentes (sem o relatório completo, que pode ser grande).
+   *
+   * @param limit - Quantidade máxima de jobs (padrão: 20)
+   */
+  async listar(limit = 20) {
+    return this.prisma.jobValidacao.findMany({
+      orderBy: { criadoEm: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        campanhaId: true,
+        ehSimulacao: true,
+        nomeArquivo: true,
+        status: true,
+        total: true,
+        processados: true,
+        validado: true,
+        rejeitado: true,
+        conflito_manual: true,
+        em_analise: true,
+        revalidado: true,
+        cancelamentoSolicitado: true,
+        mensagemErro: true,
+        historicoValidacaoId: true,
+        iniciadoEm: true,
+        finalizadoEm: true,
+        criadoEm: true,
+        admin: { select: { id: true, nome: true } },
+      },
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: buscarDiffSimulacao
+   * ==========================================================================
+   *
+   * Retorna o diff por envio de um job de SIMULAÇÃO finalizado (usado na
+   * exportação XLSX).
+   *
+   * @param jobId - ID do job
+   * @param statusDepois - Filtra pelos status resultantes (opcional)
+   * @throws NotFoundException se o job não existir
+   * @throws BadRequestException se não for simulação ou ainda não tiver terminado
+   */
+  async buscarDiffSimulacao(jobId: string, statusDepois?: string[]) {
+    const job = await this.buscar(jobId);
+
+    if (!job.ehSimulacao) {
+      throw new BadRequestException('O diff está disponível apenas para simulações.');
+    }
+
+    const diff = (job.resultadoJson as any)?.diffSimulacao as LinhaDiffSimulacao[] | undefined;
+
+    if (!diff) {
+      throw new BadRequestException(`A simulação ainda não terminou (status: ${job.status}).`);
+    }
+
+    return {
+      job,
+      linhas: statusDepois?.length
+        ? diff.filter((linha) => statusDepois.includes(linha.statusDepois))
+        : diff,
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: cancelar
+   * ==========================================================================
+   *
+   * Solicita o cancelamento de um job em andamento. O job é interrompido no
+   * próximo limite de lote; envios de lotes já concluídos permanecem
+   * persistidos (e entram no HistoricoValidacao gerado).
+   *
+   * @param jobId - ID do job
+   * @throws NotFoundException se o job não existir
+   * @throws BadRequestException se o job já tiver terminado
+   */
+  async cancelar(jobId: string) {
+    const job = await this.prisma.jobValidacao.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new NotFoundException(`Job de validação ${jobId} não encontrado.`);
+    }
+
+    if (!STATUS_JOB_ATIVOS.includes(job.status)) {
+      throw new BadRequestException(`O job já foi finalizado (status: ${job.status}).`);
+    }
+
+    this.logger.warn(`Cancelamento solicitado para o job ${jobId}.`);
+
+    return this.prisma.jobValidacao.update({
+      where: { id: jobId },
+      data: { cancelamentoSolicitado: true },
+    });
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * ============================================================================
+ * PERFIL MAPEAMENTO SERVICE - Perfis Compartilhados de Mapeamento de Colunas
+ * ============================================================================
+ *
+ * Descrição:
+ * Perfis nomeados de mapeamento (ex: "OS_OP_EPS export v3", "OptiClick"),
+ * compartilhados entre todos os admins. Cada perfil guarda o mapa de colunas,
+ * o formato de data do export, o tipo de pedido (opcional) e o cabeçalho do
+ * arquivo de referência.
+ *
+ * Substitui o mapeamento individual (Usuario.mapeamentoPlanilhaSalvo), que
+ * continua sendo usado apenas como último recurso.
+ *
+ * Detecção automática:
+ * O cabeçalho do arquivo enviado é comparado com os perfis cadastrados
+ * (helpers/perfil-mapeamento.helper.ts). O melhor perfil com todas as colunas
+ * mapeadas presentes no arquivo é selecionado.
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
+import { PerfilMapeamento, TipoPedido } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  SalvarPerfilMapeamentoDto,
+  AtualizarPerfilMapeamentoDto,
+} from './dto/salvar-perfil-mapeamento.dto';
+import {
+  PontuacaoPerfilMapeamento,
+  ranquearPerfisMapeamento,
+} from './helpers/perfil-mapeamento.helper';
+import { FormatoData } from './helpers/data.helper';
+
+/**
+ * Perfil selecionado automaticamente para um cabeçalho
+ */
+export interface PerfilMapeamentoDetectado {
+  perfil: PerfilMapeamento;
+  pontuacao: PontuacaoPerfilMapeamento;
+}
+
+/**
+ * ============================================================================
+ * SERVICE: PerfilMapeamentoService
+ * ============================================================================
+ */
+@Injectable()
+export class PerfilMapeamentoService {
+  private readonly logger = new Logger(PerfilMapeamentoService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: listar
+   * ==========================================================================
+   *
+   * @returns Todos os perfis, em ordem alfabética, com autor e último editor
+   */
+  async listar() {
+    return this.prisma.perfilMapeamento.findMany({
+      include: {
+        criadoPor: { select: { id: true, nome: true } },
+        atualizadoPor: { select: { id: true, nome: true } },
+      },
+      orderBy: { nome: 'asc' },
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: buscarPorId
+   * ==========================================================================
+   *
+   * @param id - ID do perfil
+   * @throws NotFoundException se o perfil não existir
+   */
+  async buscarPorId(id: string) {
+    const perfil = await this.prisma.perfilMapeamento.findUnique({ where: { id } });
+
+    if (!perfil) {
+      throw new NotFoundException(`Perfil de mapeamento ${id} não encontrado`);
+    }
+
+    return perfil;
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: criar
+   * ==========================================================================
+   *
+   * @param dto - Dados do perfil
+   * @param adminId - Admin que está criando
+   * @throws ConflictException se já existir perfil com o mesmo nome
+   */
+  async criar(dto: SalvarPerfilMapeamentoDto, adminId: string) {
+    await this._validarNomeDisponivel(dto.nome);
+
+    this.logger.log(`Criando perfil de mapeamento "${dto.nome}" (admin ${adminId})`);
+
+    return this.prisma.perfilMapeamento.create({
+      data: {
+        nome: dto.nome,
+        tipoPedido: dto.tipoPedido ?? null,
+        mapaColunas: dto.mapaColunas,
+        formatoData: dto.formatoData || FormatoData.BRASILEIRO,
+        cabecalhos: dto.cabecalhos ?? undefined,
+        criadoPorId: adminId,
+      },
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: atualizar
+   * ==========================================================================
+   *
+   * @param id - ID do perfil
+   * @param dto - Campos alterados
+   * @param adminId - Admin que está alterando
+   * @throws NotFoundException se o perfil não existir
+   * @throws ConflictException se o novo nome já estiver em uso
+   */
+  async atualizar(id: string, dto: AtualizarPerfilMapeamentoDto, adminId: string) {
+    const perfil = await this.buscarPorId(id);
+
+    if (dto.nome && dto.nome !== perfil.nome) {
+      await this._validarNomeDisponivel(dto.nome);
+    }
+
+    this.logger.log(`Atualizando perfil de mapeamento "${perfil.nome}" (admin ${adminId})`);
+
+    return this.prisma.perfilMapeamento.update({
+      where: { id },
+      data: {
+        nome: dto.nome,
+        tipoPedido: dto.tipoPedido,
+        mapaColunas: dto.mapaColunas,
+        formatoData: dto.formatoData,
+        cabecalhos: dto.cabecalhos,
+        atualizadoPorId: adminId,
+      },
+    });
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: remover
+   * ==========================================================================
+   *
+   * @param id - ID do perfil
+   * @throws NotFoundException se o perfil não existir
+   */
+  async remover(id: string) {
+    const perfil = await this.buscarPorId(id);
+
+    this.logger.log(`Removendo perfil de mapeamento "${perfil.nome}"`);
+
+    await this.prisma.perfilMapeamento.delete({ where: { id } });
+    return { mensagem: `Perfil "${perfil.nome}" removido com sucesso` };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: ranquear
+   * ==========================================================================
+   *
+   * Pontua todos os perfis contra o cabeçalho de um arquivo.
+   *
+   * @param cabecalhos - Cabeçalho do arquivo
+   * @param tipoPedido - Tipo de pedido esperado (desempate)
+   * @returns Pontuações ordenadas do melhor para o pior perfil
+   */
+  async ranquear(cabecalhos: string[], tipoPedido?: TipoPedido | null) {
+    const perfis = await this.prisma.perfilMapeamento.findMany();
+
+    return ranquearPerfisMapeamento(
+      perfis.map((perfil) => ({
+        id: perfil.id,
+        nome: perfil.nome,
+        tipoPedido: perfil.tipoPedido,
+        mapaColunas: perfil.mapaColunas as Record<string, string>,
+        cabecalhos: (perfil.cabecalhos as string[] | null) ?? null,
+      })),
+      cabecalhos,
+      tipoPedido,
+    );
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: detectar
+   * ==========================================================================
+   *
+   * Seleciona o melhor perfil compatível com o cabeçalho (todas as colunas
+   * mapeadas presentes no arquivo).
+   *
+   * @param cabecalhos - Cabeçalho do arquivo
+   * @param tipoPedido - Tipo de pedido esperado (desempate)
+   * @returns Perfil detectado ou null se nenhum for compatível
+   */
+  async detectar(
+    cabecalhos: string[],
+    tipoPedido?: TipoPedido | null,
+  ): Promise<PerfilMapeamentoDetectado | null> {
+    const [melhor] = await this.ranquear(cabecalhos, tipoPedido);
+
+    if (!melhor?.compativel) {
+      return null;
+    }
+
+    this.logger.log(
+      `Perfil de mapeamento detectado pelo cabeçalho: "${melhor.nome}" (${melhor.colunasEncontradas.length} colunas)`,
+    );
+
+    return { perfil: await this.buscarPorId(melhor.perfilId), pontuacao: melhor };
+  }
+
+  /**
+   * Garante que o nome do perfil ainda não está em uso.
+   */
+  private async _validarNomeDisponivel(nome: string) {
+    const existente = await this.prisma.perfilMapeamento.findUnique({ where: { nome } });
+
+    if (existente) {
+      throw new ConflictException(`Já existe um perfil de mapeamento chamado "${nome}"`);
+    }
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * ============================================================================
+ * REVERSAO VALIDACAO SERVICE - Desfazer uma Execução do Robô
+ * ============================================================================
+ *
+ * Descrição:
+ * Permite ao admin desfazer uma execução real de validação registrada em
+ * HistoricoValidacao (planilha errada, mapeamento de colunas errado, etc).
+ *
+ * A execução grava em HistoricoValidacao.reversaoJson o rastro do que
+ * alterou (RastroReversao): estado anterior de cada envio, cartelas
+ * concluídas, cartelas N+1 auto-criadas e créditos de saldo.
+ *
+ * Fluxo:
+ * 1. Verifica impedimentos (nada é alterado se houver algum):
+ *    - Pontos incluídos em lote financeiro PAGO (ou PENDENTE, com saldo reservado)
+ *    - Envios alterados depois da execução (status diferente do aplicado)
+ *    - Envios cujos pontos foram creditados por uma execução posterior
+ *    - Recompensas retidas pelo orçamento nesta execução e já liberadas
+ *    - Saldo atual insuficiente para o débito
+ *    - Validação real em andamento
+ * 2. Em uma única transação:
+ *    - Debita os créditos de vendedores e gerentes
+ *    - Desmarca pontosAdicionadosAoSaldo dos envios creditados
+ *    - Remove as cartelas concluídas pela execução
+ *    - Remove as recompensas retidas pelo orçamento nesta execução
+ *    - Restaura o estado anterior de cada envio
+ *    - Remove cartelas auto-criadas que não têm envios alocados
+ *    - Marca o histórico como revertido
+ *
+ * @module ValidacaoModule
+ * ============================================================================
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OrigemTransicaoEnvio, TipoAtorTransicao } from '@prisma/client';
+import { RastroReversao } from './validacao.service';
+import { movimentarSaldo } from '../livro-razao/helpers/movimentar-saldo.helper';
+
+/**
+ * Motivo que impede a reversão de uma execução.
+ */
+export interface ImpedimentoReversao {
+  codigo:
+    | 'LOTE_FINANCEIRO_PAGO'
+    | 'LOTE_FINANCEIRO_PENDENTE'
+    | 'ENVIO_LIQUIDADO'
+    | 'ENVIO_ALTERADO'
+    | 'CREDITO_POSTERIOR'
+    | 'RECOMPENSA_LIBERADA'
+    | 'SALDO_INSUFICIENTE'
+    | 'JOB_EM_ANDAMENTO';
+  mensagem: string;
+  numeroLote?: string | null;
+  usuarioId?: string;
+  enviosIds?: string[];
+}
+
+/**
+ * ============================================================================
+ * SERVICE: ReversaoValidacaoService
+ * ============================================================================
+ */
+@Injectable()
+export class ReversaoValidacaoService {
+  private readonly logger = new Logger(ReversaoValidacaoService.name);
+
+  /**
+   * Construtor do serviço.
+   *
+   * @param prisma - Serviço Prisma para operações de banco de dados
+   */
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * ==========================================================================
+   * MÉTODO: reverter
+   * ==========================================================================
+   *
+   * Desfaz todas as alterações de uma execução de validação.
+   *
+   * @param historicoId - ID do HistoricoValidacao
+   * @param adminId - ID do admin que solicitou a reversão
+   * @returns Resumo do que foi desfeito
+   * @throws NotFoundException se o histórico não existir
+   * @throws BadRequestException se já revertido ou sem rastro de reversão
+   * @throws ConflictException com relatório de impedimentos
+   */
+  async reverter(historicoId: string, adminId: string) {
+    const historico = await this.prisma.historicoValidacao.findUnique({
+      where: { id: historicoId },
+    });
+
+    if (!historico) {
+      throw new NotFoundException(`Histórico de validação ${historicoId} não encontrado.`);
+    }
+
+    if (historico.revertidoEm) {
+      throw new BadRequestException(
+        `Esta execução já foi revertida em ${historico.revertidoEm.toLocaleString('pt-BR')}.`,
+      );
+    }
+
+    if (!historico.reversaoJson) {
+      throw new BadRequestException(
+        'Esta execução foi registrada antes do rastreio de reversão e não pode ser desfeita automaticamente.',
+      );
+    }
+
+    const rastro = historico.reversaoJson as unknown as RastroReversao;
+
+    this.logger.warn(
+      `\n========== REVERTENDO EXECUÇÃO ${historicoId} (Admin: ${adminId}) ==========`,
+    );
+    this.logger.log(
+      `Envios: ${rastro.envios.length}, Cartelas concluídas: ${rastro.cartelasConcluidas.length}, Créditos: ${rastro.creditos.length}`,
+    );
+
+    // -------------------------------------------------------------------------
+    // ETAPA 1: Verificar impedimentos (nada é alterado se houver algum)
+    // -------------------------------------------------------------------------
+    const impedimentos = await this._verificarImpedimentos(historico.campanhaId, rastro);
+
+    if (impedimentos.length > 0) {
+      this.logger.warn(`⛔ Reversão recusada: ${impedimentos.length} impedimento(s).`);
+      throw new ConflictException({
+        message: 'A execução não pode ser revertida. Veja os impedimentos no relatório.',
+        relatorio: { historicoId, impedimentos },
+      });
+    }
+
+    // -------------------------------------------------------------------------
+    // ETAPA 2: Desfazer tudo de forma atômica
+    // -------------------------------------------------------------------------
+    const enviosCreditados = this._enviosCreditados(rastro);
+    const debitos = this._agruparDebitos(rastro);
+
+    const resumo = await this.prisma.$transaction(
+      async (tx) => {
+        // 2.1: Debitar créditos de vendedores e gerentes
+        for (const debito of debitos) {
+          await movimentarSaldo(tx, debito.usuarioId, [
+            {
+              tipo: 'REVERSAO_VALIDACAO',
+              valor: -debito.valor,
+              descricao: 'Estorno de créditos da execução de validação desfeita',
+              campanhaId: historico.campanhaId,
+              historicoValidacaoId: historicoId,
+              adminId,
+            },
+          ]);
+        }
+
+        // 2.2: Envios creditados voltam a "cartela incompleta"
+        if (enviosCreditados.length > 0) {
+          await tx.envioVenda.updateMany({
+            where: { id: { in: enviosCreditados } },
+            data: {
+              pontosAdicionadosAoSaldo: false,
+              multiplicadorAplicado: 1,
+              valorFinalComEvento: null,
+            },
+          });
+        }
+
+        // 2.3: Remover cartelas concluídas pela execução (livro-razão)
+        if (rastro.cartelasConcluidas.length > 0) {
+          await tx.cartelaConcluida.deleteMany({
+            where: { id: { in: rastro.cartelasConcluidas.map((c) => c.id) } },
+          });
+        }
+
+        // 2.3.1: Remover recompensas retidas pelo orçamento (nunca creditadas)
+        const recompensasRetidas = rastro.recompensasRetidas ?? [];
+        if (recompensasRetidas.length > 0) {
+          await tx.recompensaRetida.deleteMany({
+            where: { id: { in: recompensasRetidas.map((r) => r.id) } },
+          });
+        }
+
+        // 2.4: Restaurar o estado anterior de cada envio
+        for (const envio of rastro.envios) {
+          await tx.envioVenda.update({
+            where: { id: envio.id },
+            data: {
+              status: envio.statusAnterior,
+              motivoRejeicao: envio.motivoRejeicao,
+              motivoRejeicaoVendedor: envio.motivoRejeicaoVendedor,
+              infoConflito: envio.infoConflito,
+              dataValidacao: envio.dataValidacao,
+              numeroCartelaAtendida: envio.numeroCartelaAtendida,
+              codigoReferenciaUsado: envio.codigoReferenciaUsado,
+              valorPontosReaisRecebido: envio.valorPontosReaisRecebido,
+              dataVenda: envio.dataVenda,
+              // Linha do tempo: só registra quando o status efetivamente muda
+              transicoes:
+                envio.statusAplicado !== envio.statusAnterior
+                  ? {
+                      create: {
+                        statusAnterior: envio.statusAplicado,
+                        statusNovo: envio.statusAnterior,
+                        origem: OrigemTransicaoEnvio.REVERSAO_VALIDACAO,
+                        tipoAtor: TipoAtorTransicao.ADMIN,
+                        usuarioId: adminId,
+                        historicoValidacaoId: historicoId,
+                        motivo: `Execução de ${historico.dataHora.toLocaleString('pt-BR')} desfeita`,
+                      },
+                    }
+                  : undefined,
+            },
+          });
+        }
+
+        // 2.5: Remover cartelas auto-criadas (da maior para a menor) sem envios alocados
+        const cartelasRemovidas: number[] = [];
+        const cartelasMantidas: number[] = [];
+        const cartelasCriadas = [...rastro.cartelasCriadas].sort(
+          (a, b) => b.numeroCartela - a.numeroCartela,
+        );
+
+        for (const cartela of cartelasCriadas) {
+          const enviosAlocados = await tx.envioVenda.count({
+            where: { requisito: { regraCartelaId: cartela.regraCartelaId } },
+          });
+
+          if (enviosAlocados > 0) {
+            cartelasMantidas.push(cartela.numeroCartela);
+            continue;
+          }
+
+          await tx.regraCartela.deleteMany({ where: { id: cartela.regraCartelaId } });
+          cartelasRemovidas.push(cartela.numeroCartela);
+        }
+
+        // 2.6: Avisar vendedores cujos pedidos validados voltaram ao status anterior
+        const enviosValidados = rastro.envios.filter((e) => e.statusAplicado === 'VALIDADO');
+        if (enviosValidados.length > 0) {
+          const vendedores = await tx.envioVenda.groupBy({
+            by: ['vendedorId'],
+            where: { id: { in: enviosValidados.map((e) => e.id) } },
+            _count: { _all: true },
+          });
+
+          for (const vendedor of vendedores) {
+            await tx.notificacao.create({
+              data: {
+                mensagem: `A validação de ${vendedor._count._all} pedido(s) foi desfeita pela administração. Eles voltaram ao status anterior e serão reavaliados.`,
+                usuarioId: vendedor.vendedorId,
+              },
+            });
+          }
+        }
+
+        // 2.7: Marcar o histórico como revertido
+        await tx.historicoValidacao.update({
+          where: { id: historicoId },
+          data: { revertidoEm: new Date(), revertidoPorId: adminId },
+        });
+
+        return { cartelasRemovidas, cartelasMantidas };
+      },
+      { timeout: 60000 }, // Execuções grandes tocam milhares de envios
+    );
+
+    this.logger.log(`✅ Execução ${historicoId} revertida com sucesso.`);
+
+    return {
+      mensagem: 'Execução revertida com sucesso.',
+      historicoId,
+      enviosRestaurados: rastro.envios.length,
+      cartelasConcluidasRemovidas: rastro.cartelasConcluidas.length,
+      cartelasAutoCriadasRemovidas: resumo.cartelasRemovidas,
+      cartelasAutoCriadasMantidas: resumo.cartelasMantidas,
+      debitos,
+    };
+  }
+
+  /**
+   * ==========================================================================
+   * HELPER: _verificarImpedimentos
+   * ==========================================================================
+   *
+   * Levanta tudo que impede a reversão, sem alterar nada.
+   *
+   * @private
+   */
+  private async _verificarImpedimentos(
+    campanhaId: string,
+    rastro: RastroReversao,
+  ): Promise<ImpedimentoReversao[]> {
+    const impedimentos: ImpedimentoReversao[] = [];
+    const enviosCreditados = this._enviosCreditados(rastro);
+    const conjuntoCreditados = new Set(enviosCreditados);
+
+    // Validação real em andamento poderia recriar o que está sendo desfeito
+    const jobAtivo = await this.prisma.jobValidacao.findFirst({
+      where: {
+        ehSimulacao: false,
+        status: { in: ['PENDENTE', 'PROCESSANDO'] },
+        campanhaId: campanhaId === 'TODAS' ? undefined : { in: [campanhaId, 'TODAS'] },
+      },
+    });
+
+    if (jobAtivo) {
+      impedimentos.push({
+        codigo: 'JOB_EM_ANDAMENTO',
+        mensagem: `Há uma validação em andamento (job ${jobAtivo.id}). Aguarde o término ou cancele-a.`,
+      });
+    }
+
+    // Pontos incluídos em lotes financeiros (PAGO: irreversível | PENDENTE: saldo reservado)
+    if (enviosCreditados.length > 0) {
+      const relatorios = await this.prisma.relatorioFinanceiro.findMany({
+        where: {
+          deletedAt: null,
+          status: { in: ['PENDENTE', 'PAGO'] },
+          OR: enviosCreditados.map((id) => ({ enviosIncluidos: { array_contains: [id] } })),
+        },
+        select: {
+          numeroLote: true,
+          status: true,
+          tipo: true,
+          usuarioId: true,
+          enviosIncluidos: true,
+        },
+      });
+
+      for (const relatorio of relatorios) {
+        const enviosNoLote = ((relatorio.enviosIncluidos as string[]) || []).filter((id) =>
+          conjuntoCreditados.has(id),
+        );
+        const pago = relatorio.status === 'PAGO';
+
+        impedimentos.push({
+          codigo: pago ? 'LOTE_FINANCEIRO_PAGO' : 'LOTE_FINANCEIRO_PENDENTE',
+          mensagem: pago
+            ? `${enviosNoLote.length} envio(s) já foram pagos no lote ${relatorio.numeroLote || 'avulso'} (${relatorio.tipo}).`
+            : `${enviosNoLote.length} envio(s) estão reservados no lote ${relatorio.numeroLote || 'avulso'} (${relatorio.tipo}). Cancele o lote antes de reverter.`,
+          numeroLote: relatorio.numeroLote,
+          usuarioId: relatorio.usuarioId,
+          enviosIds: enviosNoLote,
+        });
+      }
+
+      const liquidados = await this.prisma.envioVenda.findMany({
+        where: { id: { in: enviosCreditados }, pontosLiquidados: true },
+        select: { id: true },
+      });
+
+      if (liquidados.length > 0) {
+        impedimentos.push({
+          codigo: 'ENVIO_LIQUIDADO',
+          mensagem: `${liquidados.length} envio(s) já tiveram os pontos liquidados pelo financeiro.`,
+          enviosIds: liquidados.map((e) => e.id),
+        });
+      }
+    }
+
+    // Envios alterados depois da execução (manualmente ou por outra execução)
+    const idsRastreados = rastro.envios.map((e) => e.id);
+    const enviosAtuais = idsRastreados.length
+      ? await this.prisma.envioVenda.findMany({
+          where: { id: { in: idsRastreados } },
+          select: { id: true, status: true, pontosAdicionadosAoSaldo: true },
+        })
+      : [];
+    const atuaisPorId = new Map(enviosAtuais.map((e) => [e.id, e]));
+
+    const alterados = rastro.envios
+      .filter((e) => atuaisPorId.get(e.id)?.status !== e.statusAplicado)
+      .map((e) => e.id);
+
+    if (alterados.length > 0) {
+      impedimentos.push({
+        codigo: 'ENVIO_ALTERADO',
+        mensagem: `${alterados.length} envio(s) mudaram de status depois desta execução (ou foram excluídos).`,
+        enviosIds: alterados,
+      });
+    }
+
+    // Recompensas retidas pelo orçamento nesta execução e liberadas depois
+    // (rastros anteriores ao orçamento não têm recompensasRetidas)
+    const idsRetidas = (rastro.recompensasRetidas ?? []).map((r) => r.id);
+    const retidasLiberadas = idsRetidas.length
+      ? await this.prisma.recompensaRetida.findMany({
+          where: { id: { in: idsRetidas }, status: 'LIBERADA' },
+          select: { enviosIds: true },
+        })
+      : [];
+    const enviosLiberados = retidasLiberadas.flatMap((r) => r.enviosIds as string[]);
+
+    if (retidasLiberadas.length > 0) {
+      impedimentos.push({
+        codigo: 'RECOMPENSA_LIBERADA',
+        mensagem: `${retidasLiberadas.length} recompensa(s) retidas pelo orçamento nesta execução já foram liberadas e creditadas.`,
+        enviosIds: enviosLiberados,
+      });
+    }
+
+    const conjuntoLiberados = new Set(enviosLiberados);
+    const creditadosDepois = rastro.envios
+      .filter(
+        (e) =>
+          e.statusAplicado === 'VALIDADO' &&
+          atuaisPorId.get(e.id)?.pontosAdicionadosAoSaldo &&
+          !conjuntoCreditados.has(e.id) &&
+          !conjuntoLiberados.has(e.id),
+      )
+      .map((e) => e.id);
+
+    if (creditadosDepois.length > 0) {
+      impedimentos.push({
+        codigo: 'CREDITO_POSTERIOR',
+        mensagem: `${creditadosDepois.length} envio(s) tiveram a cartela concluída por uma execução posterior. Reverta-a primeiro.`,
+        enviosIds: creditadosDepois,
+      });
+    }
+
+    // Saldo atual precisa cobrir o débito
+    const debitos = this._agruparDebitos(rastro);
+    if (debitos.length > 0) {
+      const usuarios = await this.prisma.usuario.findMany({
+        where: { id: { in: debitos.map((d) => d.usuarioId) } },
+        select: { id: true, nome: true, saldoPontos: true },
+      });
+      const usuariosPorId = new Map(usuarios.map((u) => [u.id, u]));
+
+      for (const debito of debitos) {
+        const usuario = usuariosPorId.get(debito.usuarioId);
+        const saldoAtual = Number(usuario?.saldoPontos ?? 0);
+
+        if (saldoAtual + 0.005 < debito.valor) {
+          impedimentos.push({
+            codigo: 'SALDO_INSUFICIENTE',
+            mensagem: `${usuario?.nome || debito.usuarioId} (${debito.papel}) tem saldo de R$ ${saldoAtual.toFixed(2)}, insuficiente para o débito de R$ ${debito.valor.toFixed(2)}.`,
+            usuarioId: debito.usuarioId,
+          });
+        }
+      }
+    }
+
+    return impedimentos;
+  }
+
+  /**
+   * IDs (únicos) dos envios cujos pontos foram creditados na execução.
+   *
+   * @private
+   */
+  private _enviosCreditados(rastro: RastroReversao): string[] {
+    return [...new Set(rastro.creditos.flatMap((c) => c.enviosIds))];
+  }
+
+  /**
+   * Soma os créditos da execução por usuário (vendedor ou gerente).
+   *
+   * @private
+   */
+  private _agruparDebitos(rastro: RastroReversao) {
+    const debitos = new Map<string, { usuarioId: string; papel: string; valor: number }>();
+
+    for (const credito of rastro.creditos) {
+      const atual = debitos.get(credito.usuarioId);
+      if (atual) {
+        atual.valor += credito.valor;
+      } else {
+        debitos.set(credito.usuarioId, {
+          usuarioId: credito.usuarioId,
+          papel: credito.papel,
+          valor: credito.valor,
+        });
+      }
+    }
+
+    return [...debitos.values()];
+  }
+}
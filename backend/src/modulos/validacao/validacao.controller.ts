@@ -16,6 +16,20 @@
  * 
  * Rotas:
  * - POST /api/validacao/processar - Roda o "robô" da planilha/processamento
+ * - POST /api/validacao/processar-arquivo - Mesmo robô, recebendo o arquivo
+ *   .xlsx/.csv bruto (leitura server-side)
+ * - POST /api/validacao/jobs - Submete validação assíncrona (em segundo plano)
+ * - GET /api/validacao/jobs - Lista jobs recentes (progresso)
+ * - GET /api/validacao/jobs/:id - Progresso/resultado de um job
+ * - POST /api/validacao/jobs/:id/cancelar - Solicita cancelamento de um job
+ * - GET /api/validacao/jobs/:id/simulacao/exportar-excel - Diff da simulação (.xlsx)
+ * - POST /api/validacao/historico/:id/reverter - Desfaz uma execução do histórico
+ * - GET/POST/PATCH/DELETE /api/validacao/perfis-mapeamento - Perfis de
+ *   mapeamento compartilhados entre admins
+ * - POST /api/validacao/perfis-mapeamento/detectar - Sugere o perfil pelo cabeçalho
+ * - POST /api/validacao/devolucoes - Estorna em lote os pedidos de uma planilha
+ *   de devoluções/cancelamentos (com simulação)
+ * - GET /api/validacao/devolucoes - Lista as importações de devoluções
  * 
  * Segurança:
  * - JwtAuthGuard: Requer autenticação JWT válida
@@ -29,19 +43,66 @@ import {
   Controller,
   Post,
   Get,
+  Patch,
+  Delete,
   Body,
+  Param,
   UseGuards,
   HttpCode,
   HttpStatus,
   Logger,
   Request,
+  Query,
+  Res,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { tmpdir } from 'os';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Response } from 'express';
+import * as ExcelJS from 'exceljs';
 import { ValidacaoService } from './validacao.service';
+import { JobValidacaoService } from './job-validacao.service';
+import { ReversaoValidacaoService } from './reversao-validacao.service';
+import { PerfilMapeamentoService } from './perfil-mapeamento.service';
+import { DevolucaoPedidosService } from './devolucao-pedidos.service';
 import { ProcessarValidacaoDto } from './dto/processar-validacao.dto';
+import { ProcessarArquivoValidacaoDto } from './dto/processar-arquivo-validacao.dto';
+import {
+  SalvarPerfilMapeamentoDto,
+  AtualizarPerfilMapeamentoDto,
+} from './dto/salvar-perfil-mapeamento.dto';
+import { DetectarPerfilMapeamentoDto } from './dto/detectar-perfil-mapeamento.dto';
+import { ImportarDevolucoesDto } from './dto/importar-devolucoes.dto';
+import { removerUploadTemporario } from './helpers/planilha.helper';
 import { JwtAuthGuard } from '../comum/guards/jwt-auth.guard';
 import { PapeisGuard } from '../comum/guards/papeis.guard';
 import { Papeis } from '../comum/decorators/papeis.decorator';
 
+/**
+ * Opções do Multer para upload de planilhas de validação (.xlsx/.csv, 20MB).
+ * Compartilhadas entre /processar-arquivo, /jobs e /devolucoes.
+ *
+ * O arquivo é gravado em disco (diretório temporário) e lido em stream; cada
+ * endpoint remove o temporário ao terminar (removerUploadTemporario).
+ */
+const OPCOES_UPLOAD_PLANILHA = {
+  storage: diskStorage({ destination: tmpdir() }),
+  limits: { fileSize: 20 * 1024 * 1024 }, // 20MB
+  fileFilter: (req, file, callback) => {
+    if (!file.originalname.match(/\.(xlsx|csv)$/i)) {
+      return callback(
+        new BadRequestException('Apenas planilhas .xlsx ou .csv são permitidas'),
+        false,
+      );
+    }
+    callback(null, true);
+  },
+};
+
 /**
  * ============================================================================
  * CONTROLLER: ValidacaoController
@@ -55,7 +116,13 @@ import { Papeis } from '../comum/decorators/papeis.decorator';
 export class ValidacaoController {
   private readonly logger = new Logger(ValidacaoController.name);
 
-  constructor(private readonly validacaoService: ValidacaoService) {}
+  constructor(
+    private readonly validacaoService: ValidacaoService,
+    private readonly jobValidacaoService: JobValidacaoService,
+    private readonly reversaoValidacaoService: ReversaoValidacaoService,
+    private readonly perfilMapeamentoService: PerfilMapeamentoService,
+    private readonly devolucaoPedidosService: DevolucaoPedidosService,
+  ) {}
 
   /**
    * ==========================================================================
@@ -89,6 +156,10 @@ export class ValidacaoController {
    * - Se qualquer validação falhar, retorna 400 Bad Request ANTES de
    *   chamar o service.
    * 
+   * Execuções reais ficam registradas como job enquanto rodam e retornam 409
+   * se já houver validação real em andamento para a campanha (mesma regra de
+   * POST /validacao/jobs).
+   * 
    * @param dto - ProcessarValidacaoDto com dados da planilha e configurações
    * @returns Relatório consolidado do processamento
    * 
@@ -148,7 +219,7 @@ export class ValidacaoController {
 
     try {
       // Delegar processamento ao service, passando adminId
-      const resultado = await this.validacaoService.processarPlanilha(dto, adminId);
+      const resultado = await this.jobValidacaoService.processarSincrono(dto, adminId);
 
       this.logger.log(
         `[POST /api/validacao/processar] Processamento concluído. Total: ${resultado.totalProcessados}, Validados: ${resultado.validado}, Rejeitados: ${resultado.rejeitado}, Conflitos: ${resultado.conflito_manual}`,
@@ -164,6 +235,265 @@ export class ValidacaoController {
     }
   }
 
+  /**
+   * ==========================================================================
+   * POST /api/validacao/processar-arquivo
+   * ==========================================================================
+   *
+   * Variante de /processar que recebe o arquivo bruto (.xlsx ou .csv) via
+   * multipart/form-data e faz a leitura no backend, evitando bodies JSON de
+   * vários MB e o travamento do navegador em exports grandes.
+   *
+   * Campos do formulário:
+   * - arquivo: Planilha (.xlsx ou .csv, máx. 20MB)
+   * - campanhaId: ID da campanha ou "TODAS"
+   * - ehSimulacao: "true" | "false"
+   * - mapaColunas (opcional): JSON do mapa; padrão = mapeamento salvo no perfil
+   * - formatoData (opcional): padrão = formatoDataPlanilha do perfil
+   *
+   * Erros de estrutura (cabeçalho, formato de data, coluna de CNPJ vazia,
+   * mapeamento) retornam 400 com relatório ANTES de tocar em qualquer envio:
+   *
+   * @example Response Error (Estrutura)
+   * {
+   *   "statusCode": 400,
+   *   "message": "A planilha possui erros de estrutura. Nenhum envio foi processado.",
+   *   "relatorio": {
+   *     "valido": false,
+   *     "nomeArquivo": "vendas-outubro.xlsx",
+   *     "totalLinhas": 1520,
+   *     "cabecalhos": ["OS", "CNPJ", "Data", "Referência"],
+   *     "formatoData": "DD/MM/YYYY",
+   *     "erros": [
+   *       { "codigo": "COLUNA_CNPJ_VAZIA", "mensagem": "...", "coluna": "CNPJ" },
+   *       { "codigo": "DATA_INVALIDA", "mensagem": "...", "coluna": "Data", "linhas": [4, 9], "totalOcorrencias": 2 }
+   *     ]
+   *   }
+   * }
+   *
+   * Execuções reais seguem a mesma regra de POST /processar (409 se já houver
+   * validação real em andamento para a campanha).
+   *
+   * Reprocessamento (execuções reais): se o arquivo, ou 50% ou mais das suas
+   * linhas, já tiver sido processado em uma validação anterior, retorna 409
+   * (codigo "PLANILHA_JA_PROCESSADA") com o relatório das execuções
+   * anteriores. Para prosseguir, reenviar com confirmarReprocessamento=true e
+   * justificativaReprocessamento (registrada no histórico).
+   *
+   * @param arquivo - Arquivo da planilha
+   * @param dto - Campos do formulário
+   * @returns Relatório consolidado do processamento + resumo do arquivo
+   */
+  @Post('processar-arquivo')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('arquivo', OPCOES_UPLOAD_PLANILHA))
+  async processarArquivo(
+    @UploadedFile() arquivo: Express.Multer.File,
+    @Body() dto: ProcessarArquivoValidacaoDto,
+    @Request() req,
+  ) {
+    const adminId = req.user.id;
+
+    this.logger.log(
+      `[POST /api/validacao/processar-arquivo] Arquivo: ${arquivo?.originalname}, Campanha: ${dto.campanhaId}, Simulação: ${dto.ehSimulacao}, Admin: ${adminId}`,
+    );
+
+    try {
+      const resultado = await this.jobValidacaoService.processarArquivoSincrono(arquivo, dto, adminId);
+
+      this.logger.log(
+        `[POST /api/validacao/processar-arquivo] Processamento concluído. Total: ${resultado.totalProcessados}, Validados: ${resultado.validado}, Rejeitados: ${resultado.rejeitado}, Conflitos: ${resultado.conflito_manual}`,
+      );
+
+      return resultado;
+    } catch (erro) {
+      this.logger.error(
+        `[POST /api/validacao/processar-arquivo] Erro durante processamento: ${erro.message}`,
+        erro.stack,
+      );
+      throw erro;
+    } finally {
+      await removerUploadTemporario(arquivo);
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * POST /api/validacao/jobs
+   * ==========================================================================
+   *
+   * Submete uma validação assíncrona. Recebe os mesmos campos de
+   * /processar-arquivo, valida a estrutura da planilha (400 com relatório se
+   * houver erro) e retorna imediatamente o job criado (202 Accepted).
+   * Planilhas já processadas retornam 409, como em /processar-arquivo.
+   *
+   * O progresso deve ser acompanhado via GET /api/validacao/jobs/:id.
+   *
+   * @returns Job criado (status PENDENTE)
+   */
+  @Post('jobs')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('arquivo', OPCOES_UPLOAD_PLANILHA))
+  async submeterJob(
+    @UploadedFile() arquivo: Express.Multer.File,
+    @Body() dto: ProcessarArquivoValidacaoDto,
+    @Request() req,
+  ) {
+    const adminId = req.user.id;
+    this.logger.log(
+      `[POST /api/validacao/jobs] Arquivo: ${arquivo?.originalname}, Campanha: ${dto.campanhaId}, Simulação: ${dto.ehSimulacao}, Admin: ${adminId}`,
+    );
+
+    try {
+      return await this.jobValidacaoService.submeter(arquivo, dto, adminId);
+    } catch (erro) {
+      this.logger.error(`[POST /api/validacao/jobs] Erro: ${erro.message}`, erro.stack);
+      throw erro;
+    } finally {
+      // As linhas já foram lidas na submissão: o job não usa o arquivo
+      await removerUploadTemporario(arquivo);
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * GET /api/validacao/jobs
+   * ==========================================================================
+   *
+   * Lista os jobs de validação mais recentes (sem o relatório completo).
+   * Sem rate limit: consultado em polling pelo dashboard.
+   */
+  @Get('jobs')
+  @Papeis('ADMIN')
+  @SkipThrottle()
+  async listarJobs() {
+    return this.jobValidacaoService.listar();
+  }
+
+  /**
+   * ==========================================================================
+   * GET /api/validacao/jobs/:id
+   * ==========================================================================
+   *
+   * Retorna progresso (processados/total, contadores por status) e, quando
+   * finalizado, o relatório completo e o historicoValidacaoId gerado.
+   * Sem rate limit: consultado em polling pelo frontend.
+   */
+  @Get('jobs/:id')
+  @Papeis('ADMIN')
+  @SkipThrottle()
+  async buscarJob(@Param('id') id: string) {
+    return this.jobValidacaoService.buscar(id);
+  }
+
+  /**
+   * ==========================================================================
+   * POST /api/validacao/jobs/:id/cancelar
+   * ==========================================================================
+   *
+   * Solicita o cancelamento de um job em andamento. O job para no próximo
+   * limite de lote; lotes já concluídos permanecem persistidos.
+   */
+  @Post('jobs/:id/cancelar')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async cancelarJob(@Param('id') id: string, @Request() req) {
+    this.logger.warn(`[POST /api/validacao/jobs/${id}/cancelar] Admin: ${req.user.id}`);
+
+    try {
+      return await this.jobValidacaoService.cancelar(id);
+    } catch (erro) {
+      this.logger.error(`[POST /api/validacao/jobs/${id}/cancelar] Erro: ${erro.message}`, erro.stack);
+      throw erro;
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * GET /api/validacao/jobs/:id/simulacao/exportar-excel
+   * ==========================================================================
+   *
+   * Exporta o diff por envio de uma simulação para revisão antes de rodar a
+   * validação real. Query opcional: status=VALIDADO,REJEITADO (status depois).
+   */
+  @Get('jobs/:id/simulacao/exportar-excel')
+  @Papeis('ADMIN')
+  async exportarDiffSimulacao(
+    @Param('id') id: string,
+    @Query('status') status: string | undefined,
+    @Res() res: Response,
+  ) {
+    const filtroStatus = status ? status.split(',').map((s) => s.trim().toUpperCase()) : undefined;
+    const { job, linhas } = await this.jobValidacaoService.buscarDiffSimulacao(id, filtroStatus);
+
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Simulação');
+
+    worksheet.columns = [
+      { header: 'Pedido', key: 'numeroPedido', width: 18 },
+      { header: 'Vendedor', key: 'vendedor', width: 28 },
+      { header: 'Ótica', key: 'optica', width: 28 },
+      { header: 'CNPJ Ótica', key: 'cnpj', width: 18 },
+      { header: 'Campanha', key: 'campanha', width: 28 },
+      { header: 'Status Antes', key: 'statusAntes', width: 16 },
+      { header: 'Status Depois', key: 'statusDepois', width: 16 },
+      { header: 'Motivo (Admin)', key: 'motivo', width: 60 },
+      { header: 'Multiplicador', key: 'multiplicador', width: 12 },
+      { header: 'Pontos Previstos (R$)', key: 'pontosPrevistos', width: 18 },
+      { header: 'Cartela', key: 'cartelaAtendida', width: 10 },
+      { header: 'Completa Cartela', key: 'cartelaConcluida', width: 16 },
+      { header: 'Crédito no Saldo (R$)', key: 'pontosCreditados', width: 18 },
+      { header: 'Retida pelo Orçamento', key: 'recompensaRetida', width: 20 },
+    ];
+
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.getRow(1).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFD9EAD3' },
+    };
+
+    for (const linha of linhas) {
+      worksheet.addRow({
+        numeroPedido: linha.numeroPedido,
+        vendedor: linha.vendedor.nome,
+        optica: linha.optica.nome,
+        cnpj: linha.optica.cnpj,
+        campanha: linha.campanha.titulo,
+        statusAntes: linha.statusAntes,
+        statusDepois: linha.statusDepois,
+        motivo: linha.motivo || '',
+        multiplicador: linha.multiplicador,
+        pontosPrevistos: linha.pontosPrevistos,
+        cartelaAtendida: linha.cartelaAtendida ?? '',
+        cartelaConcluida: linha.cartelaConcluida ?? '',
+        pontosCreditados: linha.pontosCreditados,
+        recompensaRetida: linha.recompensaRetida ?? '',
+      });
+    }
+
+    const totalRow = worksheet.addRow({
+      numeroPedido: 'TOTAL',
+      pontosPrevistos: linhas.reduce((acc, l) => acc + l.pontosPrevistos, 0),
+      pontosCreditados: linhas.reduce((acc, l) => acc + l.pontosCreditados, 0),
+    });
+    totalRow.font = { bold: true };
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=simulacao-${job.id.slice(0, 8)}.xlsx`,
+    );
+
+    await workbook.xlsx.write(res);
+    res.end();
+  }
+
   /**
    * ==========================================================================
    * GET /api/validacao/mapeamento
@@ -227,6 +557,80 @@ export class ValidacaoController {
     }
   }
 
+  /**
+   * ==========================================================================
+   * GET /api/validacao/perfis-mapeamento
+   * ==========================================================================
+   *
+   * Lista os perfis de mapeamento compartilhados entre os admins.
+   */
+  @Get('perfis-mapeamento')
+  @Papeis('ADMIN')
+  async listarPerfisMapeamento() {
+    return this.perfilMapeamentoService.listar();
+  }
+
+  /**
+   * ==========================================================================
+   * POST /api/validacao/perfis-mapeamento
+   * ==========================================================================
+   *
+   * Cria um perfil nomeado (409 se o nome já existir).
+   */
+  @Post('perfis-mapeamento')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.CREATED)
+  async criarPerfilMapeamento(@Body() dto: SalvarPerfilMapeamentoDto, @Request() req) {
+    return this.perfilMapeamentoService.criar(dto, req.user.id);
+  }
+
+  /**
+   * ==========================================================================
+   * POST /api/validacao/perfis-mapeamento/detectar
+   * ==========================================================================
+   *
+   * Pontua os perfis contra o cabeçalho do arquivo selecionado. O primeiro
+   * item com `compativel: true` é o perfil que será usado automaticamente.
+   *
+   * @example Response
+   * [
+   *   { "perfilId": "...", "nome": "OptiClick", "cobertura": 1, "compativel": true,
+   *     "colunasEncontradas": ["CNPJ", "Pedido"], "colunasAusentes": [], "semelhancaCabecalho": 0.9 }
+   * ]
+   */
+  @Post('perfis-mapeamento/detectar')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async detectarPerfilMapeamento(@Body() dto: DetectarPerfilMapeamentoDto) {
+    return this.perfilMapeamentoService.ranquear(dto.cabecalhos, dto.tipoPedido);
+  }
+
+  /**
+   * ==========================================================================
+   * PATCH /api/validacao/perfis-mapeamento/:id
+   * ==========================================================================
+   */
+  @Patch('perfis-mapeamento/:id')
+  @Papeis('ADMIN')
+  async atualizarPerfilMapeamento(
+    @Param('id') id: string,
+    @Body() dto: AtualizarPerfilMapeamentoDto,
+    @Request() req,
+  ) {
+    return this.perfilMapeamentoService.atualizar(id, dto, req.user.id);
+  }
+
+  /**
+   * ==========================================================================
+   * DELETE /api/validacao/perfis-mapeamento/:id
+   * ==========================================================================
+   */
+  @Delete('perfis-mapeamento/:id')
+  @Papeis('ADMIN')
+  async removerPerfilMapeamento(@Param('id') id: string) {
+    return this.perfilMapeamentoService.remover(id);
+  }
+
   /**
    * ==========================================================================
    * GET /api/validacao/historico
@@ -258,6 +662,102 @@ export class ValidacaoController {
     }
   }
 
+  /**
+   * ==========================================================================
+   * POST /api/validacao/historico/:id/reverter
+   * ==========================================================================
+   *
+   * Desfaz uma execução real do robô: restaura o status anterior dos envios,
+   * debita os pontos creditados (vendedor e gerente) e remove as cartelas
+   * concluídas. Retorna 409 com relatório de impedimentos se algum ponto já
+   * estiver em lote financeiro (pago ou reservado).
+   */
+  @Post('historico/:id/reverter')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  async reverterHistorico(@Param('id') id: string, @Request() req) {
+    this.logger.warn(`[POST /api/validacao/historico/${id}/reverter] Admin: ${req.user.id}`);
+
+    try {
+      return await this.reversaoValidacaoService.reverter(id, req.user.id);
+    } catch (erro) {
+      this.logger.error(`[POST /api/validacao/historico/${id}/reverter] Erro: ${erro.message}`, erro.stack);
+      throw erro;
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * POST /api/validacao/devolucoes
+   * ==========================================================================
+   *
+   * Importa a planilha de pedidos devolvidos/cancelados do laboratório e
+   * estorna os envios VALIDADOS correspondentes (número do pedido na coluna
+   * do tipo de pedido da campanha). Execução real em uma única transação,
+   * registrada em ImportacaoDevolucao.
+   *
+   * Campos do formulário:
+   * - arquivo: Planilha (.xlsx ou .csv, máx. 20MB)
+   * - campanhaId: ID da campanha ou "TODAS"
+   * - ehSimulacao: "true" | "false" (simulação não altera nada)
+   * - motivo: Motivo registrado em cada estorno
+   * - mapaColunas / formatoData / perfilMapeamentoId (opcionais, como em
+   *   /processar-arquivo); apenas as colunas NUMERO_PEDIDO_* são usadas
+   *
+   * @example Response
+   * {
+   *   "importacaoId": "...",
+   *   "ehSimulacao": false,
+   *   "totalLinhas": 12,
+   *   "totalEstornados": 9,
+   *   "totalNaoEncontrados": 2,
+   *   "totalNaoValidados": 1,
+   *   "valorDebitado": 450.5,
+   *   "totalPontosPagos": 3,
+   *   "pedidos": [
+   *     { "numeroPedido": "123", "tipoPedido": "OS_OP_EPS", "linhas": [2], "status": "ESTORNADO",
+   *       "enviosIgnorados": [], "estornos": [{ "envioId": "...", "numeroCartela": 2, "debitos": [...], "cartelasRemovidas": [2] }] }
+   *   ]
+   * }
+   */
+  @Post('devolucoes')
+  @Papeis('ADMIN')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('arquivo', OPCOES_UPLOAD_PLANILHA))
+  async importarDevolucoes(
+    @UploadedFile() arquivo: Express.Multer.File,
+    @Body() dto: ImportarDevolucoesDto,
+    @Request() req,
+  ) {
+    const adminId = req.user.id;
+
+    this.logger.warn(
+      `[POST /api/validacao/devolucoes] Arquivo: ${arquivo?.originalname}, Campanha: ${dto.campanhaId}, Simulação: ${dto.ehSimulacao}, Admin: ${adminId}`,
+    );
+
+    try {
+      return await this.devolucaoPedidosService.importar(arquivo, dto, adminId);
+    } catch (erro) {
+      this.logger.error(`[POST /api/validacao/devolucoes] Erro: ${erro.message}`, erro.stack);
+      throw erro;
+    } finally {
+      await removerUploadTemporario(arquivo);
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * GET /api/validacao/devolucoes
+   * ==========================================================================
+   *
+   * Lista as importações de devoluções executadas (sem o detalhamento).
+   */
+  @Get('devolucoes')
+  @Papeis('ADMIN')
+  async listarDevolucoes() {
+    return this.devolucaoPedidosService.listar();
+  }
+
   /**
    * ==========================================================================
    * GET /api/validacao/dashboard-stats
@@ -1,5 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ValidacaoService } from './validacao.service';
+import { JobValidacaoService } from './job-validacao.service';
+import { ReversaoValidacaoService } from './reversao-validacao.service';
+import { PerfilMapeamentoService } from './perfil-mapeamento.service';
+import { ImpressaoPlanilhaService } from './impressao-planilha.service';
+import { DevolucaoPedidosService } from './devolucao-pedidos.service';
 import { ValidacaoController } from './validacao.controller';
 import { RecompensaModule } from '../recompensa/recompensa.module';
 
@@ -8,13 +13,25 @@ import { RecompensaModule } from '../recompensa/recompensa.module';
  * Importa o RecompensaModule para habilitar a injeção do serviço de recompensa.
  * 
  * ATUALIZADO (Sprint 18): Removido ValoresReferenciaModule - agora usa ProdutoCampanha
+ * JobValidacaoService: execução assíncrona (em lotes) do robô de validação.
+ * ReversaoValidacaoService: desfaz uma execução registrada no histórico.
+ * PerfilMapeamentoService: perfis de mapeamento de colunas compartilhados.
+ * ImpressaoPlanilhaService: bloqueia o reprocessamento de planilhas já processadas.
+ * DevolucaoPedidosService: estorno em lote por planilha de devoluções/cancelamentos.
  */
 @Module({
   imports: [
     RecompensaModule,
   ],
   controllers: [ValidacaoController],
-  providers: [ValidacaoService],
+  providers: [
+    ValidacaoService,
+    JobValidacaoService,
+    ReversaoValidacaoService,
+    PerfilMapeamentoService,
+    ImpressaoPlanilhaService,
+    DevolucaoPedidosService,
+  ],
   exports: [],
 })
 export class ValidacaoModule {}
\ No newline at end of file
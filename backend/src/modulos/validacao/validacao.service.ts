@@ -27,8 +27,33 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ProcessarValidacaoDto } from './dto/processar-validacao.dto';
-import { StatusEnvioVenda, TipoUnidade } from '@prisma/client';
-import { RecompensaService } from '../recompensa/recompensa.service';
+import { ProcessarArquivoValidacaoDto } from './dto/processar-arquivo-validacao.dto';
+import {
+  StatusEnvioVenda,
+  TipoUnidade,
+  PerfilMapeamento,
+  OrigemTransicaoEnvio,
+  TipoAtorTransicao,
+  PoliticaEventos,
+  PoliticaOrcamento,
+  NivelVendedor,
+  Prisma,
+  StatusRecompensaRetida,
+} from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PerfilMapeamentoService } from './perfil-mapeamento.service';
+import { adaptarMapaAoCabecalho } from './helpers/perfil-mapeamento.helper';
+import { ImpressaoPlanilhaService, ImpressaoVerificada } from './impressao-planilha.service';
+import { calcularHashArquivo, calcularImpressaoPlanilha } from './helpers/impressao-planilha.helper';
+import {
+  RecompensaService,
+  EfeitosRecompensa,
+  criarEfeitosRecompensa,
+} from '../recompensa/recompensa.service';
+import { OrcamentoCampanhaService } from '../recompensa/orcamento-campanha.service';
+import { ComissaoGerenteService } from '../recompensa/comissao-gerente.service';
+import { multiplicadorDoNivel } from '../niveis/helpers/nivel.helper';
+import { arredondarCentavos } from '../livro-razao/helpers/movimentar-saldo.helper';
 import {
   parseDateWithFormat,
   parseDateAuto,
@@ -41,6 +66,28 @@ import {
   validarCnpj,
   formatarCnpj,
 } from './helpers/cnpj.helper';
+import {
+  EXTENSOES_PLANILHA_SUPORTADAS,
+  extensaoArquivo,
+  lerPlanilha,
+  validarEstruturaPlanilha,
+  CAMPOS_OBRIGATORIOS_VALIDACAO,
+  PlanilhaLida,
+} from './helpers/planilha.helper';
+import {
+  montarArvoreCondicoes,
+  contarCondicoes,
+  avaliarGrupo,
+  descreverExpressao,
+  explicarResultadoAdmin,
+  explicarFalhaVendedor,
+} from './helpers/regras.helper';
+import {
+  OticaDoVendedor,
+  combinarEventos,
+  eventoSeAplica,
+} from '../campanhas/helpers/evento-especial.helper';
+import { acimaDoLimiteCartelas, fatorDaCurva } from '../campanhas/helpers/curva-recompensa.helper';
 
 /**
  * Tipo robusto de resultado interno da validação de um envio.
@@ -55,6 +102,105 @@ type ResultadoValidacao = {
   motivoVendedor: string | null;
 };
 
+/**
+ * Progresso parcial de um processamento em lotes (chunks).
+ * Emitido ao final de cada lote para jobs assíncronos.
+ */
+export interface ProgressoProcessamento {
+  total: number;
+  processados: number;
+  validado: number;
+  rejeitado: number;
+  conflito_manual: number;
+  em_analise: number;
+  revalidado: number;
+}
+
+/**
+ * Opções de execução de processarPlanilha (usadas pelo JobValidacaoService).
+ *
+ * - tamanhoLote: quantidade de envios validados e persistidos por vez
+ *   (padrão: todos de uma vez, comportamento síncrono original)
+ * - aoProgredir: callback chamado ao final de cada lote
+ * - deveCancelar: consultado entre lotes; se true, interrompe o processamento
+ *   mantendo os lotes já persistidos
+ * - impressaoVerificada: impressões da planilha já conferidas contra execuções
+ *   anteriores (upload de arquivo); ausente = verificadas aqui, a partir das linhas
+ */
+export interface OpcoesProcessamento {
+  tamanhoLote?: number;
+  aoProgredir?: (progresso: ProgressoProcessamento) => Promise<void>;
+  deveCancelar?: () => Promise<boolean>;
+  impressaoVerificada?: ImpressaoVerificada;
+}
+
+/**
+ * Estado de um envio imediatamente antes de uma execução de validação real,
+ * junto com o status efetivamente persistido pela execução.
+ * Datas e decimais são guardados como string (serialização JSON).
+ */
+export interface EnvioRastreado {
+  id: string;
+  statusAnterior: StatusEnvioVenda;
+  motivoRejeicao: string | null;
+  motivoRejeicaoVendedor: string | null;
+  infoConflito: string | null;
+  dataValidacao: string | null;
+  numeroCartelaAtendida: number | null;
+  codigoReferenciaUsado: string | null;
+  valorPontosReaisRecebido: string | null;
+  dataVenda: string | null;
+  statusAplicado: StatusEnvioVenda;
+}
+
+/**
+ * Rastro de uma execução real (HistoricoValidacao.reversaoJson), usado
+ * pelo ReversaoValidacaoService para desfazer a execução.
+ */
+export interface RastroReversao extends EfeitosRecompensa {
+  envios: EnvioRastreado[];
+}
+
+/**
+ * Execução real da planilha referenciada nas transições de status dos envios.
+ * historicoValidacaoId é pré-gerado e usado como id do HistoricoValidacao.
+ */
+interface ExecucaoPlanilha {
+  historicoValidacaoId: string;
+  adminId?: string;
+}
+
+/**
+ * Linha do diff de uma simulação (ehSimulacao = true): o que aconteceria com
+ * cada envio se a planilha fosse processada de verdade.
+ *
+ * - pontosPrevistos: valor do envio com multiplicador de evento e curva da
+ *   cartela (0 se não validado ou além do limite de cartelas)
+ * - cartelaAtendida: cartela em que o envio seria alocado (spillover)
+ * - acimaLimiteCartelas: cartela além do limite da campanha (sem recompensa)
+ * - cartelaConcluida: cartela que este envio completaria (null = nenhuma)
+ * - pontosCreditados: valor que entraria no saldo do vendedor com a conclusão
+ *   (soma dos envios ainda não creditados da cartela, inclusive os anteriores)
+ */
+export interface LinhaDiffSimulacao {
+  envioId: string;
+  numeroPedido: string;
+  vendedor: { id: string; nome: string };
+  optica: { nome: string; cnpj: string };
+  campanha: { id: string; titulo: string };
+  statusAntes: StatusEnvioVenda;
+  statusDepois: StatusEnvioVenda;
+  motivo: string | null;
+  multiplicador: number;
+  pontosPrevistos: number;
+  cartelaAtendida: number | null;
+  acimaLimiteCartelas: boolean;
+  cartelaConcluida: number | null;
+  pontosCreditados: number;
+  /** Recompensa da cartela concluída retida pelo orçamento da campanha */
+  recompensaRetida: StatusRecompensaRetida | null;
+}
+
 /**
  * ============================================================================
  * SERVICE: ValidacaoService
@@ -69,10 +215,16 @@ export class ValidacaoService {
    * 
    * @param prisma - Serviço Prisma para operações de banco de dados
    * @param recompensaService - Serviço de recompensas (gatilhos gamificados)
+   * @param orcamentoCampanhaService - Orçamento da campanha (projeção da simulação)
+   * @param comissaoGerenteService - Comissões de gerentes (projeção da simulação)
    */
   constructor(
     private readonly prisma: PrismaService,
     private readonly recompensaService: RecompensaService,
+    private readonly perfilMapeamentoService: PerfilMapeamentoService,
+    private readonly impressaoPlanilhaService: ImpressaoPlanilhaService,
+    private readonly orcamentoCampanhaService: OrcamentoCampanhaService,
+    private readonly comissaoGerenteService: ComissaoGerenteService,
   ) {}
 
   /**
@@ -181,8 +333,8 @@ export class ValidacaoService {
 
       case 'REGRA_NAO_SATISFEITA':
         return {
-          admin: `[${campanhaTitulo}] [TÉCNICO] Condição de regra não satisfeita para o pedido ${contexto.numeroPedido}: Campo '${contexto.campo}' ${contexto.operador} '${contexto.valorEsperado}', mas foi encontrado '${contexto.valorReal}'. DETALHES DA REGRA: Requisito ID ${contexto.requisitoId}, Condição ID ${contexto.condicaoId || 'N/A'}. Verifique se a configuração da regra está correta ou se o pedido realmente não atende aos critérios.`,
-          vendedor: `O pedido não atende aos requisitos da campanha. Requisito: ${contexto.campo} deve ser ${contexto.operador} '${contexto.valorEsperado}'.`
+          admin: `[${campanhaTitulo}] [TÉCNICO] Regras do requisito (ID: ${contexto.requisitoId}) não satisfeitas para o pedido ${contexto.numeroPedido}. REGRA: ${contexto.expressao}. AVALIAÇÃO POR CONDIÇÃO: ${contexto.explicacoes}. Verifique se a configuração da regra está correta ou se o pedido realmente não atende aos critérios.`,
+          vendedor: `O pedido não atende aos requisitos da campanha. Para ser aceito: ${contexto.exigencias}.`
         };
 
       case 'CONFLITO_VENDEDOR_DUPLICADO':
@@ -232,9 +384,14 @@ export class ValidacaoService {
    *
    * @param dto - DTO com campanhaId, ehSimulacao, mapaColunas e linhasPlanilha
    * @param adminId - ID do admin que está executando a validação (para histórico)
+   * @param opcoes - Processamento em lotes, progresso e cancelamento (jobs assíncronos)
    * @returns Relatório consolidado do processamento
    */
-  async processarPlanilha(dto: ProcessarValidacaoDto, adminId?: string) {
+  async processarPlanilha(
+    dto: ProcessarValidacaoDto,
+    adminId?: string,
+    opcoes?: OpcoesProcessamento,
+  ) {
     const { campanhaId, ehSimulacao, mapaColunas, linhasPlanilha, formatoData } = dto;
 
     this.logger.log(
@@ -245,6 +402,19 @@ export class ValidacaoService {
     this.logger.log(`Linhas da planilha: ${linhasPlanilha.length}`);
     this.logger.log(`Formato de data: ${formatoData || 'AUTO (DD/MM/YYYY prioritário)'}`);
 
+    // -------------------------------------------------------------------------
+    // ETAPA 0: Bloqueio de reprocessamento (somente execuções reais)
+    // -------------------------------------------------------------------------
+    // Lança 409 com relatório, antes de tocar em qualquer envio, se a planilha
+    // já foi processada e o admin não confirmou o reprocessamento.
+    const impressaoVerificada = ehSimulacao
+      ? null
+      : opcoes?.impressaoVerificada ??
+        (await this.impressaoPlanilhaService.verificar(
+          calcularImpressaoPlanilha(linhasPlanilha),
+          dto,
+        ));
+
     // -------------------------------------------------------------------------
     // ETAPA 1: Buscar todos os envios EM_ANALISE da campanha
     // -------------------------------------------------------------------------
@@ -291,7 +461,8 @@ export class ValidacaoService {
         },
         requisito: {
           include: {
-            condicoes: true,          // DEPRECADO (Sprint 21): Mantido para compatibilidade
+            condicoes: true,          // Rule Builder: condições do requisito
+            gruposCondicao: true,     // Rule Builder: grupos E/OU das condições
             produtos: true,           // Sprint 21: Produtos do requisito específico
             // CRUCIAL: Include profundo até a Campanha
             regraCartela: {
@@ -362,9 +533,60 @@ export class ValidacaoService {
       revalidado: 0, // Contador para pedidos que estavam REJEITADO ou CONFLITO_MANUAL
     };
 
-    for (const envio of enviosPendentes) {
+    // Processamento em lotes (jobs assíncronos): cada lote é validado,
+    // persistido e reportado antes do próximo. Sem opcoes, há um único lote
+    // com todos os envios (comportamento síncrono original).
+    const tamanhoLote = opcoes?.tamanhoLote || enviosPendentes.length;
+    let inicioLoteAtual = 0;
+    let cancelado = false;
+
+    // Rastro para reversão (estado anterior + efeitos de recompensa)
+    const rastro: RastroReversao = { envios: [], ...criarEfeitosRecompensa() };
+
+    // Execução real: o id do histórico é gerado já aqui para que as transições
+    // de status dos envios (linha do tempo) apontem para a execução
+    const execucao: ExecucaoPlanilha = { historicoValidacaoId: randomUUID(), adminId };
+
+    if (opcoes?.aoProgredir) {
+      await opcoes.aoProgredir({ total: enviosPendentes.length, processados: 0, ...relatorio });
+    }
+
+    const fecharLote = async (fim: number) => {
+      const enviosLote = enviosPendentes.slice(inicioLoteAtual, fim);
+      inicioLoteAtual = fim;
+
+      // -----------------------------------------------------------------------
+      // ETAPA 5: Persistir resultados no banco (se não for simulação)
+      // -----------------------------------------------------------------------
+      if (!ehSimulacao) {
+        this.logger.log(`\n========== PERSISTINDO RESULTADOS NO BANCO (${enviosLote.length} envios) ==========`);
+        await this._persistirResultados(enviosLote, rastro, execucao);
+      } else {
+        this.logger.log(`\n========== MODO SIMULAÇÃO: Nenhuma alteração persistida ==========`);
+      }
+
+      if (opcoes?.aoProgredir) {
+        await opcoes.aoProgredir({ total: enviosPendentes.length, processados: fim, ...relatorio });
+      }
+    };
+
+    for (const [indiceEnvio, envio] of enviosPendentes.entries()) {
+      // Limite de lote: persiste o lote anterior e verifica cancelamento
+      if (indiceEnvio > 0 && indiceEnvio % tamanhoLote === 0) {
+        await fecharLote(indiceEnvio);
+
+        if (opcoes?.deveCancelar && (await opcoes.deveCancelar())) {
+          this.logger.warn(`⛔ Processamento cancelado após ${indiceEnvio}/${enviosPendentes.length} envios.`);
+          cancelado = true;
+          break;
+        }
+      }
+
       this.logger.log(`\n--- Processando Envio ID: ${envio.id} ---`);
       this.logger.log(`Pedido: ${envio.numeroPedido}, Vendedor: ${envio.vendedorId}, Status Atual: ${envio.status}`);
+
+      // Captura o estado ANTES de qualquer alteração em memória (reversão)
+      envio['estadoAnterior'] = this._capturarEstadoEnvio(envio);
       
       // Indicar se é reprocessamento (não é mais EM_ANALISE)
       if (envio.status !== 'EM_ANALISE') {
@@ -428,6 +650,9 @@ export class ValidacaoService {
         continue; // Pula para o próximo envio (mantém EM_ANALISE)
       }
 
+      // Guardar as linhas do pedido (exibidas no workspace de conflitos)
+      envio['linhasPlanilha'] = linhasEncontradas;
+
       // Extrair dados da planilha
       const linhaPlanilha = linhasEncontradas[0]; // Assumindo uma única linha relevante
       const cnpjDaPlanilha = this._limparCnpj(linhaPlanilha[nomeColunaCnpj]);
@@ -936,21 +1161,19 @@ export class ValidacaoService {
       );
     }
 
-    // -------------------------------------------------------------------------
-    // ETAPA 5: Persistir resultados no banco (se não for simulação)
-    // -------------------------------------------------------------------------
-    if (!ehSimulacao) {
-      this.logger.log(`\n========== PERSISTINDO RESULTADOS NO BANCO ==========`);
-      await this._persistirResultados(enviosPendentes);
-    } else {
-      this.logger.log(`\n========== MODO SIMULAÇÃO: Nenhuma alteração persistida ==========`);
+    // Último lote (ou único, no modo síncrono)
+    if (!cancelado) {
+      await fecharLote(enviosPendentes.length);
     }
 
+    // Em caso de cancelamento, apenas os lotes concluídos entram no relatório
+    const enviosProcessados = enviosPendentes.slice(0, inicioLoteAtual);
+
     // -------------------------------------------------------------------------
     // ETAPA 6: Retornar relatório consolidado
     // -------------------------------------------------------------------------
     this.logger.log(`\n========== FIM DO PROCESSAMENTO ==========`);
-    this.logger.log(`Total processados: ${enviosPendentes.length}`);
+    this.logger.log(`Total processados: ${enviosProcessados.length}`);
     this.logger.log(`Validados: ${relatorio.validado}`);
     this.logger.log(`Rejeitados: ${relatorio.rejeitado}`);
     this.logger.log(`Conflitos Manuais: ${relatorio.conflito_manual}`);
@@ -958,7 +1181,7 @@ export class ValidacaoService {
     this.logger.log(`Revalidados com sucesso: ${relatorio.revalidado}`);
 
     // Coletar detalhes dos envios processados para retornar ao frontend
-    const detalhesEnvios = enviosPendentes.map((envio: any) => ({
+    const detalhesEnvios = enviosProcessados.map((envio: any) => ({
       id: envio.id,
       numeroPedido: envio.numeroPedido,
       status: envio.resultado?.status || envio.status,
@@ -987,12 +1210,29 @@ export class ValidacaoService {
       dataValidacao: envio.dataValidacao,
     }));
 
+    // -------------------------------------------------------------------------
+    // ETAPA 6B: Diff da simulação (pontos e cartelas projetados em memória)
+    // -------------------------------------------------------------------------
+    const diffSimulacao = ehSimulacao
+      ? await this._projetarSimulacao(enviosProcessados)
+      : undefined;
+
     // -------------------------------------------------------------------------
     // ETAPA 7: Salvar histórico (NOVO - Sprint 19)
     // -------------------------------------------------------------------------
+    let historicoValidacaoId: string | null = null;
     if (!ehSimulacao && adminId) {
       try {
-        await this.salvarHistoricoValidacao(adminId, campanhaId, relatorio, detalhesEnvios);
+        const historico = await this.salvarHistoricoValidacao(
+          adminId,
+          campanhaId,
+          relatorio,
+          detalhesEnvios,
+          rastro,
+          impressaoVerificada,
+          execucao.historicoValidacaoId,
+        );
+        historicoValidacaoId = historico.id;
         this.logger.log(`✅ Histórico de validação salvo com sucesso!`);
       } catch (error) {
         this.logger.error(`❌ Erro ao salvar histórico: ${error.message}`);
@@ -1003,17 +1243,372 @@ export class ValidacaoService {
     }
 
     return {
-      mensagem: ehSimulacao
-        ? 'Simulação concluída. Nenhuma alteração foi persistida.'
-        : 'Processamento concluído com sucesso.',
-      totalProcessados: enviosPendentes.length,
+      mensagem: cancelado
+        ? `Processamento cancelado após ${enviosProcessados.length} de ${enviosPendentes.length} envios.`
+        : ehSimulacao
+          ? 'Simulação concluída. Nenhuma alteração foi persistida.'
+          : 'Processamento concluído com sucesso.',
+      totalProcessados: enviosProcessados.length,
       validado: relatorio.validado,
       rejeitado: relatorio.rejeitado,
       conflito_manual: relatorio.conflito_manual,
       em_analise: relatorio.em_analise,
       revalidado: relatorio.revalidado,
+      cancelado,
+      historicoValidacaoId,
       detalhes: detalhesEnvios,
+      diffSimulacao,
+    };
+  }
+
+  /**
+   * ============================================================================
+   * HELPER: _projetarSimulacao
+   * ============================================================================
+   *
+   * Monta o diff por envio de uma simulação, reproduzindo em memória o que
+   * _persistirResultados + RecompensaService fariam:
+   * 1. Spillover: cartela = floor(validados da mesma ordem / quantidade) + 1
+   * 2. Eventos aplicáveis na dataEnvio (abrangência + política de acúmulo),
+   *    multiplicador do nível do vendedor e fator da curva da cartela
+   * 3. Conclusão de cartelas (em cascata, até o limite de cartelas) e valor
+   *    creditado ao saldo
+   * 4. Orçamento da campanha: a recompensa da cartela (vendedor + comissões)
+   *    que ultrapassaria o teto é marcada como ENFILEIRADA/BLOQUEADA e não é
+   *    creditada; as cartelas creditadas na simulação consomem o orçamento
+   *
+   * Parte do estado atual do banco (envios VALIDADO e cartelas concluídas dos
+   * vendedores envolvidos). Nada é persistido.
+   *
+   * @param envios - Envios processados na simulação (com resultado anexado)
+   * @returns Uma linha de diff por envio, na ordem de processamento
+   */
+  private async _projetarSimulacao(envios: any[]): Promise<LinhaDiffSimulacao[]> {
+    const validados = envios.filter((e) => e['resultado']?.status === 'VALIDADO');
+    const vendedoresIds = [...new Set(validados.map((e) => e.vendedorId as string))];
+    const campanhasIds = [...new Set(validados.map((e) => e.campanhaId as string))];
+
+    const [enviosExistentes, cartelasConcluidas, eventos] = vendedoresIds.length
+      ? await Promise.all([
+          this.prisma.envioVenda.findMany({
+            where: {
+              vendedorId: { in: vendedoresIds },
+              campanhaId: { in: campanhasIds },
+              status: 'VALIDADO',
+            },
+            select: {
+              vendedorId: true,
+              campanhaId: true,
+              numeroCartelaAtendida: true,
+              pontosAdicionadosAoSaldo: true,
+              valorFinalComEvento: true,
+              valorPontosReaisRecebido: true,
+              dataEnvio: true,
+              codigoReferenciaUsado: true,
+              requisito: { select: { ordem: true } },
+            },
+          }),
+          this.prisma.cartelaConcluida.findMany({
+            where: { vendedorId: { in: vendedoresIds }, campanhaId: { in: campanhasIds } },
+            select: { vendedorId: true, campanhaId: true, numeroCartela: true },
+          }),
+          this.prisma.eventoEspecial.findMany({
+            where: { campanhaId: { in: campanhasIds }, ativo: true },
+          }),
+        ])
+      : [[], [], []];
+
+    // Ótica e nível do vendedor, política de eventos, curva, limite de cartelas
+    // e multiplicadores de nível da campanha (vêm dos envios simulados)
+    const opticaPorVendedor = new Map<string, OticaDoVendedor | null>();
+    const nivelPorVendedor = new Map<string, NivelVendedor>();
+    const politicaPorCampanha = new Map<string, PoliticaEventos>();
+    const campanhaPorId = new Map<
+      string,
+      { curvaRecompensa: Prisma.JsonValue; limiteCartelas: number | null; multiplicadoresNivel: Prisma.JsonValue }
+    >();
+    for (const envio of validados) {
+      nivelPorVendedor.set(envio.vendedorId, envio.vendedor.nivel);
+      const optica = envio.vendedor?.optica;
+      opticaPorVendedor.set(
+        envio.vendedorId,
+        optica ? { id: optica.id, matrizId: optica.matrizId ?? null, estado: optica.estado ?? null } : null,
+      );
+      const politica = envio.requisito?.regraCartela?.campanha?.politicaEventos;
+      if (politica) {
+        politicaPorCampanha.set(envio.campanhaId, politica);
+      }
+      const campanha = envio.requisito?.regraCartela?.campanha;
+      if (campanha) {
+        campanhaPorId.set(envio.campanhaId, {
+          curvaRecompensa: campanha.curvaRecompensa ?? null,
+          limiteCartelas: campanha.limiteCartelas ?? null,
+          multiplicadoresNivel: campanha.multiplicadoresNivel ?? null,
+        });
+      }
+    }
+
+    // Valor do envio na cartela: eventos × nível × curva + bônus fixos (0 além do
+    // limite de cartelas). A base (curva, sem eventos e nível) é a das comissões
+    const valorNaCartela = (
+      vendedorId: string,
+      campanhaId: string,
+      numeroCartela: number,
+      valorOriginal: number,
+      bonus: { multiplicador: number; bonusFixo: number },
+    ) => {
+      const config = campanhaPorId.get(campanhaId);
+      if (acimaDoLimiteCartelas(config?.limiteCartelas, numeroCartela)) {
+        return { multiplicador: 0, valor: 0, base: 0 };
+      }
+      const fatorCurva = fatorDaCurva(config?.curvaRecompensa, numeroCartela);
+      const nivel = nivelPorVendedor.get(vendedorId);
+      const multiplicadorNivel = nivel ? multiplicadorDoNivel(config?.multiplicadoresNivel, nivel) : 1;
+      const multiplicador = bonus.multiplicador * multiplicadorNivel * fatorCurva;
+      return {
+        multiplicador,
+        valor: valorOriginal * multiplicador + bonus.bonusFixo,
+        base: valorOriginal * fatorCurva,
+      };
+    };
+
+    // Orçamento da campanha: comprometido atual + cartelas creditadas na simulação
+    const comprometidoPorCampanha = new Map<string, number>();
+    const recompensaRetidaNoOrcamento = async (
+      envio: any,
+      numeroCartela: number,
+      valorFinal: number,
+      valorBase: number,
+    ): Promise<StatusRecompensaRetida | null> => {
+      const campanha = envio.requisito.regraCartela.campanha;
+      if (campanha.orcamentoMaximo === null || campanha.orcamentoMaximo === undefined) {
+        return null;
+      }
+
+      const comissoes = await this.comissaoGerenteService.calcular(
+        this.prisma,
+        campanha,
+        envio.vendedor,
+        numeroCartela,
+        valorBase,
+      );
+      const valor =
+        arredondarCentavos(valorFinal) + arredondarCentavos(comissoes.reduce((acc, c) => acc + c.valor, 0));
+      const comprometido =
+        comprometidoPorCampanha.get(envio.campanhaId) ??
+        (await this.orcamentoCampanhaService.comprometido(this.prisma, envio.campanhaId));
+
+      if (arredondarCentavos(comprometido + valor) > Number(campanha.orcamentoMaximo)) {
+        comprometidoPorCampanha.set(envio.campanhaId, comprometido);
+        return campanha.politicaOrcamento === PoliticaOrcamento.ENFILEIRAR
+          ? StatusRecompensaRetida.ENFILEIRADA
+          : StatusRecompensaRetida.BLOQUEADA;
+      }
+
+      comprometidoPorCampanha.set(envio.campanhaId, arredondarCentavos(comprometido + valor));
+      return null;
+    };
+
+    const bonusEventosEm = (
+      envio: {
+        vendedorId: string;
+        campanhaId: string;
+        dataEnvio: Date;
+        ordemRequisito: number | null;
+        codigoReferencia: string | null;
+      },
+      valorOriginal: number,
+    ) => {
+      const aplicaveis = eventos.filter(
+        (ev) =>
+          ev.campanhaId === envio.campanhaId &&
+          eventoSeAplica(ev, {
+            dataEnvio: envio.dataEnvio,
+            optica: opticaPorVendedor.get(envio.vendedorId) ?? null,
+            ordemRequisito: envio.ordemRequisito,
+            codigoReferencia: envio.codigoReferencia,
+          }),
+      );
+      return combinarEventos(
+        aplicaveis,
+        politicaPorCampanha.get(envio.campanhaId) ?? PoliticaEventos.MAIOR,
+        valorOriginal,
+      );
+    };
+
+    // Estado por vendedor+campanha
+    type EstadoVendedor = {
+      validadosPorOrdem: Map<number, number>;
+      alocadosPorCartela: Map<number, Map<number, number>>;
+      pendentesPorCartela: Map<number, number>;
+      basePorCartela: Map<number, number>;
+      concluidas: Set<number>;
+    };
+    const estados = new Map<string, EstadoVendedor>();
+    const estadoDe = (vendedorId: string, campanhaId: string) => {
+      const chave = `${vendedorId}|${campanhaId}`;
+      if (!estados.has(chave)) {
+        estados.set(chave, {
+          validadosPorOrdem: new Map(),
+          alocadosPorCartela: new Map(),
+          pendentesPorCartela: new Map(),
+          basePorCartela: new Map(),
+          concluidas: new Set(),
+        });
+      }
+      return estados.get(chave)!;
+    };
+    const alocar = (
+      estado: EstadoVendedor,
+      cartela: number,
+      ordem: number,
+      pendente: { valor: number; base: number },
+    ) => {
+      estado.validadosPorOrdem.set(ordem, (estado.validadosPorOrdem.get(ordem) ?? 0) + 1);
+      const porOrdem = estado.alocadosPorCartela.get(cartela) ?? new Map<number, number>();
+      porOrdem.set(ordem, (porOrdem.get(ordem) ?? 0) + 1);
+      estado.alocadosPorCartela.set(cartela, porOrdem);
+      estado.pendentesPorCartela.set(cartela, (estado.pendentesPorCartela.get(cartela) ?? 0) + pendente.valor);
+      estado.basePorCartela.set(cartela, (estado.basePorCartela.get(cartela) ?? 0) + pendente.base);
     };
+
+    for (const existente of enviosExistentes) {
+      if (existente.numeroCartelaAtendida == null || existente.requisito?.ordem == null) {
+        continue;
+      }
+      const valorOriginal = Number(existente.valorPontosReaisRecebido ?? 0);
+      const bonus = existente.pontosAdicionadosAoSaldo
+        ? null
+        : bonusEventosEm(
+            {
+              vendedorId: existente.vendedorId,
+              campanhaId: existente.campanhaId,
+              dataEnvio: existente.dataEnvio,
+              ordemRequisito: existente.requisito.ordem,
+              codigoReferencia: existente.codigoReferenciaUsado,
+            },
+            valorOriginal,
+          );
+      const pendente = bonus
+        ? valorNaCartela(
+            existente.vendedorId,
+            existente.campanhaId,
+            existente.numeroCartelaAtendida,
+            valorOriginal,
+            bonus,
+          )
+        : { valor: 0, base: 0 };
+      alocar(
+        estadoDe(existente.vendedorId, existente.campanhaId),
+        existente.numeroCartelaAtendida,
+        existente.requisito.ordem,
+        pendente,
+      );
+    }
+
+    for (const cartela of cartelasConcluidas) {
+      estadoDe(cartela.vendedorId, cartela.campanhaId).concluidas.add(cartela.numeroCartela);
+    }
+
+    // Requisitos da cartela N (cartelas inexistentes replicam a última, como o Auto-Replicante)
+    const requisitosDaCartela = (campanha: any, numeroCartela: number) => {
+      const cartelas = [...(campanha?.cartelas || [])]
+        .filter((c: any) => c.numeroCartela <= numeroCartela)
+        .sort((a: any, b: any) => b.numeroCartela - a.numeroCartela);
+      return (cartelas[0]?.requisitos || []) as { ordem: number; quantidade: number }[];
+    };
+
+    const linhas: LinhaDiffSimulacao[] = [];
+    for (const envio of envios) {
+      const resultado: ResultadoValidacao | undefined = envio['resultado'];
+      const estadoAnterior = envio['estadoAnterior'];
+      const campanha = envio.requisito?.regraCartela?.campanha;
+
+      const linha: LinhaDiffSimulacao = {
+        envioId: envio.id,
+        numeroPedido: envio.numeroPedido,
+        vendedor: { id: envio.vendedor.id, nome: envio.vendedor.nome },
+        optica: {
+          nome: envio.vendedor.optica?.nome || 'N/A',
+          cnpj: envio.vendedor.optica?.cnpj || 'N/A',
+        },
+        campanha: { id: envio.campanhaId, titulo: campanha?.titulo || 'N/A' },
+        statusAntes: estadoAnterior?.statusAnterior ?? envio.status,
+        statusDepois: resultado?.status ?? envio.status,
+        motivo: resultado?.motivo ?? null,
+        multiplicador: 1,
+        pontosPrevistos: 0,
+        cartelaAtendida: null,
+        acimaLimiteCartelas: false,
+        cartelaConcluida: null,
+        pontosCreditados: 0,
+        recompensaRetida: null,
+      };
+      linhas.push(linha);
+
+      if (resultado?.status !== 'VALIDADO') {
+        continue;
+      }
+
+      const estado = estadoDe(envio.vendedorId, envio.campanhaId);
+      const ordem: number = envio.requisito.ordem;
+      const cartelaAtendida =
+        Math.floor((estado.validadosPorOrdem.get(ordem) ?? 0) / envio.requisito.quantidade) + 1;
+
+      const valorOriginal = Number(envio['valorPontosReaisRecebido'] ?? 0);
+      const bonus = bonusEventosEm(
+        {
+          vendedorId: envio.vendedorId,
+          campanhaId: envio.campanhaId,
+          dataEnvio: new Date(envio.dataEnvio),
+          ordemRequisito: ordem,
+          codigoReferencia: envio['codigoReferenciaUsado'] ?? null,
+        },
+        valorOriginal,
+      );
+      const naCartela = valorNaCartela(envio.vendedorId, envio.campanhaId, cartelaAtendida, valorOriginal, bonus);
+      linha.multiplicador = naCartela.multiplicador;
+      linha.pontosPrevistos = naCartela.valor;
+      linha.cartelaAtendida = cartelaAtendida;
+      linha.acimaLimiteCartelas = acimaDoLimiteCartelas(campanha?.limiteCartelas, cartelaAtendida);
+      alocar(estado, cartelaAtendida, ordem, naCartela);
+
+      // Conclusão em cascata (mesma lógica de _analisarCartelasRecursivamente)
+      for (
+        let numero = cartelaAtendida;
+        !acimaDoLimiteCartelas(campanha?.limiteCartelas, numero);
+        numero++
+      ) {
+        const requisitos = requisitosDaCartela(campanha, numero);
+        const alocados = estado.alocadosPorCartela.get(numero);
+        const completa =
+          requisitos.length > 0 &&
+          requisitos.every((req) => (alocados?.get(req.ordem) ?? 0) >= req.quantidade);
+
+        if (!completa) {
+          break;
+        }
+
+        if (!estado.concluidas.has(numero)) {
+          estado.concluidas.add(numero);
+          linha.cartelaConcluida = linha.cartelaConcluida ?? numero;
+          const valorFinal = estado.pendentesPorCartela.get(numero) ?? 0;
+          const valorBase = estado.basePorCartela.get(numero) ?? 0;
+          estado.pendentesPorCartela.set(numero, 0);
+          estado.basePorCartela.set(numero, 0);
+
+          const retida =
+            valorFinal > 0 ? await recompensaRetidaNoOrcamento(envio, numero, valorFinal, valorBase) : null;
+          if (retida) {
+            linha.recompensaRetida = linha.recompensaRetida ?? retida;
+          } else {
+            linha.pontosCreditados += valorFinal;
+          }
+        }
+      }
+    }
+
+    return linhas;
   }
 
   /**
@@ -1180,10 +1775,17 @@ export class ValidacaoService {
    *
    * ATUALIZADO (Sprint 18 - Produtos da Campanha):
    * - Adicionado parâmetro `campanha` para validação de CODIGO_DA_REFERENCIA
-   * - Campo CODIGO_DA_REFERENCIA valida contra tabela ProdutoCampanha
+   *
+   * ATUALIZADO (Rule Builder E/OU):
+   * - Condições organizadas em grupos E/OU aninhados (GrupoCondicao)
+   * - Todos os campos × operadores avaliados por regras.helper, em todas as
+   *   linhas do pedido (PAR exige as duas linhas)
+   * - Mensagem de falha explica cada condição (admin) e o que faltou (vendedor)
+   * - CODIGO_DA_REFERENCIA compara o código da linha com a lista do valor
+   *   (o cadastro de produtos do requisito continua validado na etapa 2.5)
    *
    * @param linhasEncontradas - Linhas da planilha correspondentes ao pedido
-   * @param requisito - RequisitoCartela com condições a verificar
+   * @param requisito - RequisitoCartela com condições e grupos a verificar
    * @param mapaInvertido - Mapa invertido (campo_sistema -> nome_coluna_planilha)
    * @param campanha - Campanha com produtos associados
    * @param numeroPedido - Número do pedido sendo validado (para logs)
@@ -1241,155 +1843,35 @@ export class ValidacaoService {
       `✓ Validação PAR/UNIDADE: ${tipoUnidade} - ${linhasEncontradas.length} linha(s) encontrada(s) (esperado: ${quantidadeEsperada})`,
     );
 
-    // Implementação simplificada: assumindo que todas as condições devem ser satisfeitas
-    if (!requisito || !requisito.condicoes || requisito.condicoes.length === 0) {
+    // -----------------------------------------------------------------------
+    // RULE BUILDER: árvore de grupos E/OU (condições sem grupo = E na raiz)
+    // -----------------------------------------------------------------------
+    const arvore = montarArvoreCondicoes(requisito?.condicoes, requisito?.gruposCondicao);
+
+    if (contarCondicoes(arvore) === 0) {
       return { sucesso: true, motivo: null, motivoVendedor: null };
     }
 
-    for (const condicao of requisito.condicoes) {
-      const campoVerificacao = condicao.campo;
-      const operador = condicao.operador;
-      const valorEsperado = condicao.valor;
-
-      // -----------------------------------------------------------------------
-      // CASO ESPECIAL: CODIGO_DA_REFERENCIA (Sprint 18 - Produtos da Campanha)
-      // -----------------------------------------------------------------------
-      // Este campo valida o código do produto contra a tabela ProdutoCampanha
-      // Os códigos são extraídos da planilha (coluna mapeada) e validados
-      if (campoVerificacao === 'CODIGO_DA_REFERENCIA') {
-        // Buscar nome da coluna mapeada para CODIGO_REFERENCIA
-        const nomeColunaCodigo = mapaInvertido['CODIGO_REFERENCIA'];
-        
-        if (!nomeColunaCodigo) {
-          return {
-            sucesso: false,
-            motivo: '[TÉCNICO] Coluna de "Código da referência" não foi mapeada pelo admin. O admin deve realizar o mapeamento correto antes de processar.',
-            motivoVendedor: 'Configuração do mapeamento de colunas incompleta. Entre em contato com o administrador.',
-          };
-        }
-
-        // Extrair códigos das linhas da planilha
-        const codigosDaPlanilha: string[] = [];
-        for (const linha of linhasEncontradas) {
-          const codigoNaLinha = linha[nomeColunaCodigo];
-          this.logger.debug(`DEBUG: Coluna "${nomeColunaCodigo}", Valor: "${codigoNaLinha}"`);
-          if (codigoNaLinha) {
-            codigosDaPlanilha.push(String(codigoNaLinha).trim());
-          }
-        }
-
-        // Remover duplicatas (para PAR com 2 linhas iguais, mostrar código apenas 1x)
-        const codigosUnicos = Array.from(new Set(codigosDaPlanilha));
-
-        this.logger.log(`Códigos extraídos da planilha: ${codigosUnicos.length > 0 ? codigosUnicos.join(', ') : 'NENHUM'} (${codigosDaPlanilha.length} linhas, ${codigosUnicos.length} códigos únicos)`);
-
-        if (codigosUnicos.length === 0) {
-          return {
-            sucesso: false,
-            motivo: '[TÉCNICO] Nenhum código de referência encontrado nas linhas da planilha para este pedido.',
-            motivoVendedor: 'O pedido não possui código de produto válido. Verifique a planilha enviada.',
-          };
-        }
-
-        // Debug: Mostrar campanha e produtos cadastrados NO REQUISITO (Sprint 21)
-        const produtosCadastrados = requisito.produtos?.map((p: any) => p.codigoRef) || [];
-        this.logger.debug(`Campanha ID: ${campanha?.id}, Título: "${campanha?.titulo}"`);
-        this.logger.debug(`Produtos cadastrados no requisito: ${produtosCadastrados.length > 0 ? produtosCadastrados.slice(0, 10).join(', ') + (produtosCadastrados.length > 10 ? '...' : '') : 'NENHUM'}`);
-
-        // Verificar se os códigos da planilha existem nos produtos do requisito
-        const codigosNaoEncontrados = codigosUnicos.filter(
-          (codigo) => !requisito.produtos?.some((p: any) => p.codigoRef === codigo),
-        );
-
-        if (codigosNaoEncontrados.length > 0) {
-          // Reportar códigos não encontrados (sem duplicatas)
-          const quantidadeLinhas = codigosDaPlanilha.length;
-          const tipoRequisito = requisito.tipoUnidade || 'UNIDADE';
-          const mensagens = this._gerarMensagensDuais('CODIGO_REFERENCIA_NAO_CADASTRADO', {
-            campanhaTitulo: campanha?.titulo || 'N/A',
-            requisitoId: requisito.id,
-            numeroPedido: numeroPedido,
-            codigoReferencia: codigosNaoEncontrados.join(', '),
-            quantidadeLinhas,
-            tipoRequisito,
-            campanhaId: campanha?.id || 'N/A',
-          });
-          return {
-            sucesso: false,
-            motivo: mensagens.admin,
-            motivoVendedor: mensagens.vendedor,
-          };
-        }
-
-        // Produtos encontrados - validação OK
-        this.logger.log(`✓ Códigos de referência validados: ${codigosDaPlanilha.join(', ')}`);
-        continue;
-      }
+    const resultado = avaliarGrupo(arvore, linhasEncontradas, mapaInvertido);
 
-      // -----------------------------------------------------------------------
-      // CAMPOS NORMAIS (mapeados da planilha)
-      // -----------------------------------------------------------------------
-      const nomeColuna = mapaInvertido[campoVerificacao];
-
-      if (!nomeColuna) {
-        return {
-          sucesso: false,
-          motivo: `[TÉCNICO] Campo '${campoVerificacao}' não foi mapeado pelo admin na planilha. O admin deve realizar o mapeamento correto antes de processar.`,
-          motivoVendedor: 'Configuração do mapeamento de colunas incompleta. Entre em contato com o administrador.',
-        };
-      }
-
-      const valorReal = linhasEncontradas[0][nomeColuna];
-
-      // Lógica de comparação baseada no operador
-      let condicaoAtendida = false;
-
-      switch (operador) {
-        case 'IGUAL_A':
-          condicaoAtendida = String(valorReal).trim() === String(valorEsperado).trim();
-          break;
-        case 'NAO_IGUAL_A':
-          condicaoAtendida = String(valorReal).trim() !== String(valorEsperado).trim();
-          break;
-        case 'CONTEM':
-          condicaoAtendida = String(valorReal).includes(String(valorEsperado));
-          break;
-        case 'NAO_CONTEM':
-          condicaoAtendida = !String(valorReal).includes(String(valorEsperado));
-          break;
-        case 'MAIOR_QUE':
-          condicaoAtendida = parseFloat(valorReal) > parseFloat(valorEsperado);
-          break;
-        case 'MENOR_QUE':
-          condicaoAtendida = parseFloat(valorReal) < parseFloat(valorEsperado);
-          break;
-        default:
-          return {
-            sucesso: false,
-            motivo: `[TÉCNICO] Operador '${operador}' não é reconhecido pelo sistema. Operadores válidos: IGUAL_A, NAO_IGUAL_A, CONTEM, NAO_CONTEM, MAIOR_QUE, MENOR_QUE.`,
-            motivoVendedor: 'Erro na configuração da regra. Entre em contato com o administrador.',
-          };
-      }
-
-      if (!condicaoAtendida) {
-        const mensagens = this._gerarMensagensDuais('REGRA_NAO_SATISFEITA', {
-          campanhaTitulo: campanha?.titulo || 'N/A',
-          requisitoId: requisito.id,
-          condicaoId: condicao.id,
-          campo: campoVerificacao,
-          operador,
-          valorEsperado,
-          valorReal,
-          numeroPedido: 'N/A',
-        });
-        return {
-          sucesso: false,
-          motivo: mensagens.admin,
-          motivoVendedor: mensagens.vendedor,
-        };
-      }
+    if (!resultado.atendido) {
+      const mensagens = this._gerarMensagensDuais('REGRA_NAO_SATISFEITA', {
+        campanhaTitulo: campanha?.titulo || 'N/A',
+        requisitoId: requisito.id,
+        numeroPedido: tipoPedido ? `${numeroPedido} (${tipoPedido})` : numeroPedido,
+        expressao: descreverExpressao(arvore),
+        explicacoes: explicarResultadoAdmin(resultado).join('; '),
+        exigencias: explicarFalhaVendedor(resultado),
+      });
+      return {
+        sucesso: false,
+        motivo: mensagens.admin,
+        motivoVendedor: mensagens.vendedor,
+      };
     }
 
+    this.logger.log(`✓ Regras atendidas: ${descreverExpressao(arvore)}`);
+
     return { sucesso: true, motivo: null, motivoVendedor: null };
   }
 
@@ -1406,8 +1888,14 @@ export class ValidacaoService {
    * - REINTEGRADO: Chamada atômica ao RecompensaService.processarGatilhos() dentro da transação
    *
    * @param enviosPendentes - Array de envios processados com resultado anexado
+   * @param rastro - Rastro de reversão, alimentado apenas com o que foi efetivado
+   * @param execucao - Execução registrada nas transições de status dos envios
    */
-  private async _persistirResultados(enviosPendentes: any[]) {
+  private async _persistirResultados(
+    enviosPendentes: any[],
+    rastro?: RastroReversao,
+    execucao?: ExecucaoPlanilha,
+  ) {
     for (const envio of enviosPendentes) {
       const resultado: ResultadoValidacao = envio['resultado'];
 
@@ -1420,6 +1908,9 @@ export class ValidacaoService {
         // -----------------------------------------------------------------------
         // VALIDADO: Usar transação para operações atômicas (Validação + Recompensa)
         // -----------------------------------------------------------------------
+        // Efeitos só entram no rastro se a transação for confirmada
+        const efeitosEnvio = criarEfeitosRecompensa();
+
         try {
           await this.prisma.$transaction(async (tx) => {
           // -----------------------------------------------------------------------
@@ -1455,8 +1946,14 @@ export class ValidacaoService {
           const quantidadeRequisito = envio.requisito.quantidade;
           const numeroCartelaAtendida = Math.floor(countValidado / quantidadeRequisito) + 1;
 
+          // Além do limite de cartelas da campanha: validado, mas sem recompensa
+          const acimaLimiteCartelas = acimaDoLimiteCartelas(
+            envio.requisito.regraCartela.campanha?.limiteCartelas,
+            numeroCartelaAtendida,
+          );
+
           this.logger.log(
-            `[SPILLOVER] Envio ${envio.id}: countValidado=${countValidado}, quantidade=${quantidadeRequisito}, numeroCartela=${numeroCartelaAtendida}`,
+            `[SPILLOVER] Envio ${envio.id}: countValidado=${countValidado}, quantidade=${quantidadeRequisito}, numeroCartela=${numeroCartelaAtendida}${acimaLimiteCartelas ? ' (acima do limite de cartelas)' : ''}`,
           );
 
           // -----------------------------------------------------------------------
@@ -1470,9 +1967,11 @@ export class ValidacaoService {
               motivoRejeicaoVendedor: null, // Limpa mensagem do vendedor quando validado
               dataValidacao: new Date(),
               numeroCartelaAtendida: numeroCartelaAtendida, // ✅ CORRIGIDO: Usa spillover calculado
+              acimaLimiteCartelas,
               codigoReferenciaUsado: envio['codigoReferenciaUsado'], // NOVO Sprint 18
               valorPontosReaisRecebido: envio['valorPontosReaisRecebido'], // NOVO Sprint 18
               dataVenda: envio['dataVendaParsed'], // NOVO: Data da venda parseada e validada
+              transicoes: this._dadosTransicao(envio, 'VALIDADO', execucao),
             },
           });
 
@@ -1504,10 +2003,13 @@ export class ValidacaoService {
             envioAtualizado, // Passa o envio JÁ ATUALIZADO para VALIDADO
             campanha,
             vendedor,
+            efeitosEnvio,
           );
 
           this.logger.log(`Gatilhos de recompensa processados para Envio ID ${envioAtualizado.id}.`);
           });
+
+          this._registrarNoRastro(rastro, envio, 'VALIDADO', efeitosEnvio);
         } catch (error: any) {
           // -----------------------------------------------------------------------
           // TRATAMENTO DE RACE CONDITION (Sprint 19)
@@ -1556,9 +2058,13 @@ export class ValidacaoService {
                 status: 'CONFLITO_MANUAL',
                 motivoRejeicao: mensagens.admin,
                 motivoRejeicaoVendedor: mensagens.vendedor,
+                ...this._dadosConflito(envio),
+                transicoes: this._dadosTransicao(envio, 'CONFLITO_MANUAL', execucao, mensagens.admin),
               },
             });
 
+            this._registrarNoRastro(rastro, envio, 'CONFLITO_MANUAL');
+
             this.logger.log(
               `Envio ID ${envio.id} marcado como CONFLITO_MANUAL devido a race condition resolvida.`,
             );
@@ -1581,9 +2087,11 @@ export class ValidacaoService {
             status: resultado.status,
             motivoRejeicao: resultado.motivo,
             motivoRejeicaoVendedor: resultado.motivoVendedor, // Salva mensagem formal para vendedor
+            ...(resultado.status === 'CONFLITO_MANUAL' ? this._dadosConflito(envio) : {}),
+            transicoes: this._dadosTransicao(envio, resultado.status, execucao, resultado.motivo),
           },
         });
-
+        this._registrarNoRastro(rastro, envio, resultado.status);
 
         this.logger.log(
           `Envio ID ${envio.id} atualizado para ${resultado.status}. Motivo: ${resultado.motivo}`,
@@ -1592,6 +2100,318 @@ export class ValidacaoService {
     }
   }
 
+  /**
+   * ============================================================================
+   * HELPER: _dadosTransicao
+   * ============================================================================
+   *
+   * Transição de status (linha do tempo do envio) gravada junto com o update
+   * do envio. O status anterior é o capturado antes da execução.
+   *
+   * @param envio - Envio processado (com estadoAnterior anexado)
+   * @param statusNovo - Status gravado no banco
+   * @param execucao - Execução da planilha (ausente = transição sem execução)
+   * @param motivo - Motivo técnico (rejeição/conflito)
+   */
+  private _dadosTransicao(
+    envio: any,
+    statusNovo: StatusEnvioVenda,
+    execucao?: ExecucaoPlanilha,
+    motivo?: string | null,
+  ) {
+    return {
+      create: {
+        statusAnterior: envio['estadoAnterior']?.statusAnterior ?? envio.status,
+        statusNovo,
+        origem: OrigemTransicaoEnvio.VALIDACAO_PLANILHA,
+        tipoAtor: TipoAtorTransicao.PLANILHA,
+        motivo: motivo ?? null,
+        usuarioId: execucao?.adminId ?? null,
+        historicoValidacaoId: execucao?.historicoValidacaoId ?? null,
+      },
+    };
+  }
+
+  /**
+   * ============================================================================
+   * HELPER: _dadosConflito
+   * ============================================================================
+   *
+   * Campos gravados quando um envio vai para CONFLITO_MANUAL: as linhas da
+   * planilha (para o workspace de conflitos) e os dados já apurados do pedido,
+   * para que a resolução credite o valor correto sem reprocessar a planilha.
+   *
+   * @param envio - Envio processado (com dados anexados no loop)
+   */
+  private _dadosConflito(envio: any) {
+    return {
+      linhasPlanilhaConflito: envio['linhasPlanilha'] ?? undefined,
+      codigoReferenciaUsado: envio['codigoReferenciaUsado'] ?? undefined,
+      valorPontosReaisRecebido: envio['valorPontosReaisRecebido'] ?? undefined,
+      dataVenda: envio['dataVendaParsed'] ?? undefined,
+    };
+  }
+
+  /**
+   * ============================================================================
+   * HELPER: _capturarEstadoEnvio
+   * ============================================================================
+   *
+   * Fotografa os campos que uma execução real pode alterar, para que a
+   * execução possa ser desfeita (ReversaoValidacaoService).
+   *
+   * @param envio - Envio como lido do banco (antes do processamento)
+   * @returns Estado anterior serializável (sem statusAplicado)
+   */
+  private _capturarEstadoEnvio(envio: any): Omit<EnvioRastreado, 'statusAplicado'> {
+    return {
+      id: envio.id,
+      statusAnterior: envio.status,
+      motivoRejeicao: envio.motivoRejeicao ?? null,
+      motivoRejeicaoVendedor: envio.motivoRejeicaoVendedor ?? null,
+      infoConflito: envio.infoConflito ?? null,
+      dataValidacao: envio.dataValidacao ? new Date(envio.dataValidacao).toISOString() : null,
+      numeroCartelaAtendida: envio.numeroCartelaAtendida ?? null,
+      codigoReferenciaUsado: envio.codigoReferenciaUsado ?? null,
+      valorPontosReaisRecebido: envio.valorPontosReaisRecebido != null ? String(envio.valorPontosReaisRecebido) : null,
+      dataVenda: envio.dataVenda ? new Date(envio.dataVenda).toISOString() : null,
+    };
+  }
+
+  /**
+   * ============================================================================
+   * HELPER: _registrarNoRastro
+   * ============================================================================
+   *
+   * Registra no rastro de reversão um envio efetivamente persistido e os
+   * efeitos de recompensa que ele disparou.
+   *
+   * @param rastro - Rastro da execução (ausente = não rastrear)
+   * @param envio - Envio processado (com estadoAnterior anexado)
+   * @param statusAplicado - Status gravado no banco
+   * @param efeitos - Efeitos de recompensa confirmados (apenas VALIDADO)
+   */
+  private _registrarNoRastro(
+    rastro: RastroReversao | undefined,
+    envio: any,
+    statusAplicado: StatusEnvioVenda,
+    efeitos?: EfeitosRecompensa,
+  ) {
+    if (!rastro || !envio['estadoAnterior']) {
+      return;
+    }
+
+    rastro.envios.push({ ...envio['estadoAnterior'], statusAplicado });
+
+    if (efeitos) {
+      rastro.cartelasConcluidas.push(...efeitos.cartelasConcluidas);
+      rastro.cartelasCriadas.push(...efeitos.cartelasCriadas);
+      rastro.creditos.push(...efeitos.creditos);
+      rastro.recompensasRetidas.push(...efeitos.recompensasRetidas);
+    }
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: prepararArquivo
+   * ==========================================================================
+   *
+   * Recebe o arquivo bruto da planilha (upload .xlsx/.csv) e devolve o DTO
+   * pronto para processarPlanilha e a impressão verificada:
+   * 1. Valida a extensão do arquivo (.xlsx ou .csv)
+   * 2. Resolve mapaColunas e formatoData (request > perfil de mapeamento
+   *    informado > perfil detectado pelo cabeçalho > perfil do admin)
+   * 3. Lê a planilha (helpers/planilha.helper.ts, via lerArquivoMapeado)
+   * 4. Valida a estrutura (cabeçalho, formato de data, CNPJ vazio, mapeamento)
+   *    → Se houver erros, lança 400 com relatório estruturado ANTES de
+   *      qualquer envio ser tocado
+   *
+   * Usado pelo JobValidacaoService (submissão de job e execução síncrona de
+   * /processar-arquivo), para que erros de estrutura sejam retornados antes
+   * de qualquer registro de job.
+   *
+   * @param arquivo - Arquivo enviado via multipart
+   * @param dto - Campos do formulário
+   * @param adminId - ID do admin (perfil com mapeamento/formato salvos)
+   * @returns DTO de processamento + relatório de parsing (válido)
+   * @throws BadRequestException se o arquivo for inválido ou malformado
+   */
+  async prepararArquivo(
+    arquivo: Express.Multer.File,
+    dto: ProcessarArquivoValidacaoDto,
+    adminId: string,
+  ) {
+    const { planilha, mapaColunas, formatoData, relatorioParse, perfilMapeamento } =
+      await this.lerArquivoMapeado(arquivo, dto, adminId);
+
+    // -------------------------------------------------------------------------
+    // DTO para o pipeline normal (mesmo do upload via JSON)
+    // -------------------------------------------------------------------------
+    const dadosProcessamento: ProcessarValidacaoDto = {
+      campanhaId: dto.campanhaId,
+      ehSimulacao: dto.ehSimulacao,
+      mapaColunas,
+      linhasPlanilha: planilha.linhas,
+      formatoData,
+    };
+
+    // -------------------------------------------------------------------------
+    // Bloqueio de reprocessamento (execuções reais): 409 antes de criar o job
+    // -------------------------------------------------------------------------
+    const impressaoVerificada = dto.ehSimulacao
+      ? undefined
+      : await this.impressaoPlanilhaService.verificar(
+          calcularImpressaoPlanilha(planilha.linhas, await calcularHashArquivo(arquivo.path), arquivo.originalname),
+          dto,
+        );
+
+    return { dadosProcessamento, relatorioParse, perfilMapeamento, impressaoVerificada };
+  }
+
+  /**
+   * ==========================================================================
+   * MÉTODO: lerArquivoMapeado
+   * ==========================================================================
+   *
+   * Etapas 1 a 4 de prepararArquivo: resolve o mapeamento e o formato de
+   * data, lê e valida a estrutura da planilha. Também usado pela importação
+   * de devoluções, que exige apenas a coluna de número de pedido.
+   *
+   * @param arquivo - Arquivo enviado via multipart
+   * @param dto - Mapa, formato e perfil informados no formulário (opcionais)
+   * @param adminId - ID do admin (perfil com mapeamento/formato salvos)
+   * @param camposObrigatorios - Campos que devem estar mapeados
+   * @returns Planilha lida, mapeamento resolvido e relatório de parsing (válido)
+   * @throws BadRequestException se o arquivo for inválido ou malformado
+   */
+  async lerArquivoMapeado(
+    arquivo: Express.Multer.File,
+    dto: Pick<ProcessarArquivoValidacaoDto, 'mapaColunas' | 'formatoData' | 'perfilMapeamentoId'>,
+    adminId: string,
+    camposObrigatorios: string[] = CAMPOS_OBRIGATORIOS_VALIDACAO,
+  ) {
+    if (!arquivo) {
+      throw new BadRequestException('Nenhum arquivo foi enviado');
+    }
+
+    const extensao = extensaoArquivo(arquivo.originalname);
+    if (!EXTENSOES_PLANILHA_SUPORTADAS.includes(extensao)) {
+      throw new BadRequestException(
+        `Formato de arquivo não suportado (${extensao || 'sem extensão'}). Use: ${EXTENSOES_PLANILHA_SUPORTADAS.join(', ')}`,
+      );
+    }
+
+    // -------------------------------------------------------------------------
+    // Resolver perfil e formato de data
+    // (request > perfil informado > perfil detectado > perfil do admin)
+    // -------------------------------------------------------------------------
+    const admin = await this.prisma.usuario.findUnique({
+      where: { id: adminId },
+      select: { mapeamentoPlanilhaSalvo: true, formatoDataPlanilha: true },
+    });
+
+    let perfil: PerfilMapeamento | null = null;
+    let perfilAutomatico = false;
+    if (!dto.mapaColunas && dto.perfilMapeamentoId) {
+      perfil = await this.perfilMapeamentoService.buscarPorId(dto.perfilMapeamentoId);
+    }
+
+    let formatoData =
+      dto.formatoData || perfil?.formatoData || admin?.formatoDataPlanilha || FormatoData.BRASILEIRO;
+
+    // -------------------------------------------------------------------------
+    // Leitura da planilha
+    // -------------------------------------------------------------------------
+    let planilha = await this._lerArquivoPlanilha(arquivo, formatoData);
+
+    // -------------------------------------------------------------------------
+    // Detecção automática do perfil pelo cabeçalho
+    // -------------------------------------------------------------------------
+    if (!dto.mapaColunas && !perfil) {
+      const detectado = await this.perfilMapeamentoService.detectar(planilha.cabecalhos);
+
+      if (detectado) {
+        perfil = detectado.perfil;
+        perfilAutomatico = true;
+
+        // Datas nativas do Excel são serializadas no formato de leitura:
+        // relê o arquivo se o export do perfil usa outro formato
+        const formatoPerfil = dto.formatoData || perfil.formatoData;
+        if (formatoPerfil !== formatoData) {
+          formatoData = formatoPerfil;
+          planilha = await this._lerArquivoPlanilha(arquivo, formatoData);
+        }
+      }
+    }
+
+    const mapaColunas =
+      dto.mapaColunas ||
+      (perfil && adaptarMapaAoCabecalho(perfil.mapaColunas as Record<string, string>, planilha.cabecalhos)) ||
+      (admin?.mapeamentoPlanilhaSalvo as Record<string, string>) ||
+      {};
+
+    this.logger.log(
+      `Mapeamento: ${dto.mapaColunas ? 'informado no request' : perfil ? `perfil "${perfil.nome}"${perfilAutomatico ? ' (detectado)' : ''}` : 'perfil do admin'}, formato de data: ${formatoData}`,
+    );
+
+    // -------------------------------------------------------------------------
+    // Validação estrutural (nenhum envio foi tocado até aqui)
+    // -------------------------------------------------------------------------
+    const relatorioParse = validarEstruturaPlanilha(
+      planilha,
+      arquivo.originalname,
+      mapaColunas,
+      formatoData,
+      camposObrigatorios,
+    );
+
+    if (!relatorioParse.valido) {
+      this.logger.warn(
+        `Planilha "${arquivo.originalname}" rejeitada: ${relatorioParse.erros.map((e) => e.codigo).join(', ')}`,
+      );
+      throw new BadRequestException({
+        message: 'A planilha possui erros de estrutura. Nenhum envio foi processado.',
+        relatorio: relatorioParse,
+      });
+    }
+
+    const perfilMapeamento = perfil
+      ? { id: perfil.id, nome: perfil.nome, automatico: perfilAutomatico }
+      : null;
+
+    return { planilha, mapaColunas, formatoData, relatorioParse, perfilMapeamento };
+  }
+
+  /**
+   * Lê o arquivo da planilha no formato de data informado, convertendo falhas
+   * de leitura em 400 com relatório ARQUIVO_ILEGIVEL.
+   */
+  private async _lerArquivoPlanilha(
+    arquivo: Express.Multer.File,
+    formatoData: string,
+  ): Promise<PlanilhaLida> {
+    this.logger.log(
+      `Lendo arquivo "${arquivo.originalname}" (${(arquivo.size / 1024).toFixed(1)} KB), formato de data: ${formatoData}`,
+    );
+
+    try {
+      return await lerPlanilha(arquivo.path, arquivo.originalname, formatoData as FormatoData);
+    } catch (erro) {
+      this.logger.warn(`Falha ao ler "${arquivo.originalname}": ${erro.message}`);
+      throw new BadRequestException({
+        message: 'Não foi possível ler o arquivo da planilha.',
+        relatorio: {
+          valido: false,
+          nomeArquivo: arquivo.originalname,
+          totalLinhas: 0,
+          cabecalhos: [],
+          formatoData,
+          erros: [{ codigo: 'ARQUIVO_ILEGIVEL', mensagem: erro.message }],
+        },
+      });
+    }
+  }
+
   /**
    * ==========================================================================
    * MÉTODO: obterMapeamento
@@ -1713,6 +2533,7 @@ export class ValidacaoService {
         requisito: {
           include: {
             condicoes: true,
+            gruposCondicao: true,
             produtos: true, // Sprint 21: produtos por requisito
             regraCartela: {
               include: {
@@ -1873,17 +2694,25 @@ export class ValidacaoService {
    * @param campanhaId - ID da campanha (ou "TODAS")
    * @param relatorio - Objeto com contadores (validado, rejeitado, etc)
    * @param detalhes - Array completo com detalhes de todos os envios
+   * @param rastro - Rastro para reversão da execução (opcional)
+   * @param impressaoVerificada - Impressões da planilha e reprocessamento confirmado (opcional)
+   * @param id - ID pré-gerado da execução (referenciado nas transições dos envios)
+   * @returns Registro de histórico criado (o id é vinculado ao job, se houver)
    */
   async salvarHistoricoValidacao(
     adminId: string,
     campanhaId: string,
     relatorio: any,
     detalhes: any[],
+    rastro?: RastroReversao,
+    impressaoVerificada?: ImpressaoVerificada | null,
+    id?: string,
   ) {
     this.logger.log(`Salvando histórico de validação para admin ${adminId}...`);
 
-    await this.prisma.historicoValidacao.create({
+    const historico = await this.prisma.historicoValidacao.create({
       data: {
+        id,
         adminId,
         campanhaId,
         ehSimulacao: false,
@@ -1894,10 +2723,23 @@ export class ValidacaoService {
         em_analise: relatorio.em_analise,
         revalidado: relatorio.revalidado || 0,
         detalhesJson: detalhes,
+        reversaoJson: rastro ? (rastro as any) : undefined,
+        hashArquivo: impressaoVerificada?.impressao.hashArquivo,
+        nomeArquivo: impressaoVerificada?.impressao.nomeArquivo,
+        totalLinhasArquivo: impressaoVerificada?.impressao.totalLinhas,
+        justificativaReprocessamento: impressaoVerificada?.reprocessamento?.justificativa,
+        reprocessamentoJson: impressaoVerificada?.reprocessamento
+          ? (impressaoVerificada.reprocessamento.relatorio as any)
+          : undefined,
       },
     });
 
+    if (impressaoVerificada) {
+      await this.impressaoPlanilhaService.registrarLinhas(historico.id, impressaoVerificada.impressao);
+    }
+
     this.logger.log(`✓ Histórico salvo com sucesso!`);
+    return historico;
   }
 
   /**
@@ -1949,6 +2791,12 @@ export class ValidacaoService {
             email: true,
           },
         },
+        revertidoPor: {
+          select: {
+            id: true,
+            nome: true,
+          },
+        },
       },
       orderBy: {
         dataHora: 'desc',
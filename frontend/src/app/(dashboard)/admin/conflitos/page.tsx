@@ -0,0 +1,370 @@
+"use client";
+
+/**
+ * ============================================================================
+ * PÁGINA: Conflitos de Pedidos (Admin)
+ * ============================================================================
+ *
+ * Workspace para resolver pedidos em CONFLITO_MANUAL (mesmo número de pedido
+ * informado por mais de um vendedor).
+ *
+ * Features:
+ * - Conflitos abertos agrupados por número de pedido
+ * - Vendedores concorrentes lado a lado, com suas óticas
+ * - Linhas da planilha gravadas no momento do conflito
+ * - Ação única "Atribuir a X": valida um envio, rejeita os demais com o
+ *   motivo informado e dispara as recompensas
+ * - Histórico das últimas resoluções (quem decidiu e por quê)
+ *
+ * @module AdminConflitosPage
+ * ============================================================================
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import {
+  GitMerge,
+  Loader2,
+  Building2,
+  Trophy,
+  CheckCircle2,
+  History,
+  AlertTriangle,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { AxiosError } from "axios";
+import api from "@/lib/axios";
+import { useAuth } from "@/contexts/ContextoAutenticacao";
+import { useConflitos, type ConflitoPedido } from "@/hooks/useConflitos";
+
+// Cores por status
+const COR_STATUS: Record<string, string> = {
+  EM_ANALISE: "bg-gray-100 text-gray-700",
+  VALIDADO: "bg-green-100 text-green-700",
+  CONFLITO_MANUAL: "bg-yellow-100 text-yellow-700",
+};
+
+const MOTIVO_MINIMO = 5;
+
+const chaveConflito = (conflito: Pick<ConflitoPedido, "campanha" | "numeroPedido">) =>
+  `${conflito.campanha.id}::${conflito.numeroPedido}`;
+
+const formatarData = (data: string) => new Date(data).toLocaleString("pt-BR");
+
+const formatarCelula = (valor: unknown) =>
+  valor === null || valor === undefined || valor === "" ? "—" : String(valor);
+
+// ============================================================================
+// COMPONENTE: CartaoConflito
+// Um pedido em disputa com os envios concorrentes e a ação de atribuição
+// ============================================================================
+function CartaoConflito({
+  conflito,
+  onResolvido,
+}: {
+  conflito: ConflitoPedido;
+  onResolvido: () => void;
+}) {
+  const [motivo, setMotivo] = useState("");
+  const [resolvendoEnvioId, setResolvendoEnvioId] = useState<string | null>(null);
+
+  const colunas = useMemo(
+    () =>
+      Array.from(
+        new Set((conflito.linhasPlanilha || []).flatMap((linha) => Object.keys(linha)))
+      ),
+    [conflito.linhasPlanilha]
+  );
+
+  const motivoValido = motivo.trim().length >= MOTIVO_MINIMO;
+
+  const handleAtribuir = async (envioId: string, nomeVendedor: string) => {
+    if (!motivoValido) {
+      toast.error(`Informe o motivo da decisão (mínimo ${MOTIVO_MINIMO} caracteres)`);
+      return;
+    }
+
+    setResolvendoEnvioId(envioId);
+    try {
+      await api.post("/envios-venda/conflitos/resolver", {
+        campanhaId: conflito.campanha.id,
+        numeroPedido: conflito.numeroPedido,
+        envioVencedorId: envioId,
+        motivo: motivo.trim(),
+      });
+      toast.success(`Pedido ${conflito.numeroPedido} atribuído a ${nomeVendedor}`);
+      onResolvido();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string }>;
+      toast.error(axiosError.response?.data?.message || "Erro ao resolver o conflito");
+    } finally {
+      setResolvendoEnvioId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass rounded-2xl p-6 space-y-4"
+    >
+      {/* Cabeçalho */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold">
+            Pedido <span className="font-mono">{conflito.numeroPedido}</span>
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {conflito.campanha.titulo} · aberto desde {formatarData(conflito.abertoDesde)}
+          </p>
+        </div>
+        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-700">
+          {conflito.envios.length} envio(s) em disputa
+        </span>
+      </div>
+
+      {/* Vendedores concorrentes */}
+      <div className="grid gap-4 md:grid-cols-2">
+        {conflito.envios.map((envio) => (
+          <div key={envio.id} className="rounded-xl border border-border p-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-semibold">{envio.vendedor.nome}</p>
+                <p className="text-xs text-muted-foreground">{envio.vendedor.email}</p>
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${COR_STATUS[envio.status] || ""}`}>
+                {envio.status}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <Building2 className="w-4 h-4 text-muted-foreground" />
+              {envio.vendedor.optica ? (
+                <span>
+                  {envio.vendedor.optica.nome}{" "}
+                  <span className="text-xs text-muted-foreground">({envio.vendedor.optica.cnpj})</span>
+                </span>
+              ) : (
+                <span className="text-muted-foreground">Sem ótica vinculada</span>
+              )}
+            </div>
+
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>Enviado em {formatarData(envio.dataEnvio)}</p>
+              <p>
+                Cartela {envio.requisito.regraCartela.numeroCartela} · {envio.requisito.descricao}
+              </p>
+              {envio.codigoReferenciaUsado && <p>Código: {envio.codigoReferenciaUsado}</p>}
+              {(envio.infoConflito || envio.motivoRejeicao) && (
+                <p className="whitespace-pre-line">{envio.infoConflito || envio.motivoRejeicao}</p>
+              )}
+            </div>
+
+            <button
+              onClick={() => handleAtribuir(envio.id, envio.vendedor.nome)}
+              disabled={resolvendoEnvioId !== null || !motivoValido}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+            >
+              {resolvendoEnvioId === envio.id ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Trophy className="w-4 h-4" />
+              )}
+              Atribuir a {envio.vendedor.nome}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Linhas da planilha */}
+      {colunas.length > 0 ? (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-left">
+              <tr>
+                {colunas.map((coluna) => (
+                  <th key={coluna} className="px-3 py-2 whitespace-nowrap">
+                    {coluna}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(conflito.linhasPlanilha || []).map((linha, indice) => (
+                <tr key={indice} className="border-t border-border">
+                  {colunas.map((coluna) => (
+                    <td key={coluna} className="px-3 py-2 whitespace-nowrap">
+                      {formatarCelula(linha[coluna])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Linhas da planilha não disponíveis para este conflito (registrado antes da gravação das linhas).
+        </p>
+      )}
+
+      {/* Motivo */}
+      <div className="space-y-1">
+        <label className="text-sm font-medium">Motivo da decisão</label>
+        <textarea
+          value={motivo}
+          onChange={(e) => setMotivo(e.target.value)}
+          maxLength={500}
+          rows={2}
+          placeholder="Ex: Nota fiscal emitida pela ótica do vendedor escolhido."
+          className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm"
+        />
+        <p className="text-xs text-muted-foreground">
+          Registrado na resolução e enviado como motivo de rejeição aos demais vendedores.
+        </p>
+      </div>
+    </motion.div>
+  );
+}
+
+// ============================================================================
+// PÁGINA PRINCIPAL
+// ============================================================================
+export default function AdminConflitosPage() {
+  const router = useRouter();
+  const { usuario, estaAutenticado, carregando: isAuthLoading } = useAuth();
+  const { conflitos, resolucoes, isLoading, atualizar } = useConflitos();
+  const [filtroCampanha, setFiltroCampanha] = useState("TODAS");
+
+  // ========================================
+  // EFEITO: Proteção de Rota (ADMIN)
+  // ========================================
+  useEffect(() => {
+    if (isAuthLoading) return;
+
+    if (!estaAutenticado) {
+      toast.error("Você precisa estar autenticado para acessar esta página");
+      router.push("/login");
+      return;
+    }
+
+    if (usuario && usuario.papel !== "ADMIN") {
+      toast.error("Acesso negado! Esta página é exclusiva para administradores");
+      router.push("/");
+    }
+  }, [isAuthLoading, estaAutenticado, usuario, router]);
+
+  const campanhas = useMemo(
+    () =>
+      Array.from(new Map(conflitos.map((c) => [c.campanha.id, c.campanha])).values()),
+    [conflitos]
+  );
+
+  const conflitosFiltrados = conflitos.filter(
+    (c) => filtroCampanha === "TODAS" || c.campanha.id === filtroCampanha
+  );
+
+  if (isAuthLoading || !usuario || usuario.papel !== "ADMIN") {
+    return (
+      <div className="min-h-[50vh] flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-6 md:space-y-8 pb-8">
+      {/* Cabeçalho */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-12 h-12 rounded-2xl bg-gradient-to-br from-primary to-primary-light shadow-lg shadow-primary/30">
+            <GitMerge className="w-6 h-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-black tracking-tight">
+              Conflitos de <span className="text-gradient">Pedidos</span>
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Pedidos informados por mais de um vendedor aguardando decisão.
+            </p>
+          </div>
+        </div>
+
+        {campanhas.length > 1 && (
+          <select
+            value={filtroCampanha}
+            onChange={(e) => setFiltroCampanha(e.target.value)}
+            className="px-3 py-2 rounded-lg border border-border bg-background text-sm"
+          >
+            <option value="TODAS">Todas as campanhas</option>
+            {campanhas.map((campanha) => (
+              <option key={campanha.id} value={campanha.id}>
+                {campanha.titulo}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Conflitos abertos */}
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 text-primary animate-spin" />
+        </div>
+      ) : conflitosFiltrados.length === 0 ? (
+        <div className="glass rounded-2xl p-10 flex flex-col items-center gap-3 text-center">
+          <CheckCircle2 className="w-10 h-10 text-green-500" />
+          <p className="font-semibold">Nenhum conflito aberto</p>
+          <p className="text-sm text-muted-foreground">
+            Todos os pedidos disputados já foram resolvidos.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex items-center gap-2 text-sm text-amber-600">
+            <AlertTriangle className="w-4 h-4" />
+            {conflitosFiltrados.length} pedido(s) aguardando decisão
+          </div>
+          {conflitosFiltrados.map((conflito) => (
+            <CartaoConflito key={chaveConflito(conflito)} conflito={conflito} onResolvido={atualizar} />
+          ))}
+        </div>
+      )}
+
+      {/* Histórico de resoluções */}
+      {resolucoes.length > 0 && (
+        <div className="glass rounded-2xl p-6 space-y-4">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Últimas resoluções
+          </h3>
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left">
+                <tr>
+                  <th className="px-3 py-2">Data</th>
+                  <th className="px-3 py-2">Pedido</th>
+                  <th className="px-3 py-2">Campanha</th>
+                  <th className="px-3 py-2">Decidido por</th>
+                  <th className="px-3 py-2">Motivo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {resolucoes.map((resolucao) => (
+                  <tr key={resolucao.id} className="border-t border-border align-top">
+                    <td className="px-3 py-2 whitespace-nowrap">{formatarData(resolucao.criadoEm)}</td>
+                    <td className="px-3 py-2 font-mono">{resolucao.numeroPedido}</td>
+                    <td className="px-3 py-2">{resolucao.campanha.titulo}</td>
+                    <td className="px-3 py-2">{resolucao.admin.nome}</td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground max-w-md">{resolucao.motivo}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
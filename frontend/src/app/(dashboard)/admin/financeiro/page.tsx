@@ -57,6 +57,11 @@ import axios from '@/lib/axios';
 import toast from 'react-hot-toast';
 import { Badge } from '@/components/ui/badge';
 import ButtonWithLoading from '@/components/ui/ButtonWithLoading';
+import PoliticaExpiracaoPainel from '@/components/admin/financeiro/PoliticaExpiracaoPainel';
+import SolicitacoesResgatePainel from '@/components/admin/financeiro/SolicitacoesResgatePainel';
+import RemessaPixModal from '@/components/admin/financeiro/RemessaPixModal';
+import ConciliacaoRetornoModal from '@/components/admin/financeiro/ConciliacaoRetornoModal';
+import DecisaoLoteModal, { type TipoDecisaoLote } from '@/components/admin/financeiro/DecisaoLoteModal';
 import {
   Eye,
   FileDown,
@@ -85,7 +90,12 @@ import {
   ArrowDownRight,
   Wallet,
   Receipt,
-  Target
+  Target,
+  Hourglass,
+  Send,
+  FileCheck2,
+  XCircle,
+  ShieldCheck
 } from 'lucide-react';
 
 // ============================================================================
@@ -129,10 +139,22 @@ interface Usuario {
   };
 }
 
+type StatusLote = 'GERADO' | 'APROVADO' | 'PAGO' | 'REJEITADO' | 'CANCELADO';
+
+interface AprovacaoLote {
+  decisao: 'APROVADO' | 'REJEITADO';
+  comentario: string;
+  criadoEm: string;
+  admin: {
+    id: string;
+    nome: string;
+  };
+}
+
 interface Lote {
   numeroLote: string;
   dataCorte: string;
-  status: 'PENDENTE' | 'PAGO';
+  status: StatusLote;
   relatorios: any[];
   totalRelatorios: number;
   valorTotal: number;
@@ -141,6 +163,12 @@ interface Lote {
   processadoPor?: {
     nome: string;
   };
+  aprovacoesNecessarias: number;
+  aprovacoes: AprovacaoLote[];
+  geradoPor?: {
+    id: string;
+    nome: string;
+  } | null;
 }
 
 interface DashboardStats {
@@ -165,7 +193,12 @@ type AcaoFinanceira =
   | 'CANCELAR_LOTE'
   | 'EXPORTAR_EXCEL'
   | 'BUSCAR_LOTE'
-  | 'LISTAR_LOTES';
+  | 'LISTAR_LOTES'
+  | 'CONCILIAR_RETORNO'
+  | 'APROVAR_LOTE'
+  | 'REJEITAR_LOTE'
+  | 'APROVAR_RESGATE'
+  | 'REJEITAR_RESGATE';
 
 interface AuditoriaFinanceira {
   id: string;
@@ -208,6 +241,7 @@ interface MetricasRelatorio {
   totalLotesPendentes: number;
   ticketMedio: number;
   usuariosUnicosPagos: number;
+  totalExpirado: number | null; // null quando filtrado por campanha
   evolucaoTemporal: EvolucaoTemporal[];
 }
 
@@ -267,7 +301,10 @@ export default function FinanceiroPage() {
   // Filtros de Lotes
   const [filteredLotes, setFilteredLotes] = useState<Lote[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'ALL' | 'PENDENTE' | 'PAGO'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<'ALL' | 'GERADO' | 'APROVADO' | 'PAGO'>('ALL');
+  const [loteRemessa, setLoteRemessa] = useState<string | null>(null); // Lote com a prévia da remessa PIX aberta
+  const [loteRetorno, setLoteRetorno] = useState<string | null>(null); // Lote com a conciliação do retorno aberta
+  const [decisaoLote, setDecisaoLote] = useState<{ numeroLote: string; tipo: TipoDecisaoLote } | null>(null); // Aprovar/rejeitar/cancelar
 
   // Preview State (Lógica do V1 integrada)
   const [usuariosPreview, setUsuariosPreview] = useState<Usuario[]>([]);
@@ -408,26 +445,6 @@ export default function FinanceiroPage() {
     }
   };
 
-  const handleCancelarLote = async (numeroLote: string) => {
-    const confirmacao = window.confirm(
-      `Confirma o cancelamento do lote ${numeroLote}?\n\nTodos os relatórios serão removidos e saldos devolvidos.`
-    );
-
-    if (!confirmacao) return;
-
-    try {
-      setLoadingAction(true);
-      await axios.delete(`/financeiro/lotes/${numeroLote}`);
-
-      toast.success('Lote cancelado e saldos devolvidos com sucesso', { icon: '🗑️' });
-      await revalidarLotes(); // SWR revalida cache automaticamente
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || 'Erro ao cancelar lote');
-    } finally {
-      setLoadingAction(false);
-    }
-  };
-
   const handleExportarExcel = async (numeroLote: string) => {
     try {
       toast.loading('Gerando arquivo Excel...', { id: 'excel-export' });
@@ -745,13 +762,46 @@ export default function FinanceiroPage() {
             handleGerarLote={handleGerarLote}
             handleVoltarParaLista={handleVoltarParaLista}
             handleProcessarLote={handleProcessarLote}
-            handleCancelarLote={handleCancelarLote}
+            handleDecidirLote={(numeroLote, tipo) => setDecisaoLote({ numeroLote, tipo })}
             handleExportarExcel={handleExportarExcel}
             handleExportarExcelDetalhado={handleExportarExcelDetalhado}
+            handleAbrirRemessa={setLoteRemessa}
+            handleAbrirRetorno={setLoteRetorno}
             carregarLotes={revalidarLotes}
           />
         )}
 
+        {/* SOLICITAÇÕES DE RESGATE (fila do próximo lote) */}
+        {activeView === 'lotes' && viewMode === 'list' && (
+          <SolicitacoesResgatePainel onLoteGerado={revalidarLotes} />
+        )}
+
+        {/* REMESSA PIX DO LOTE */}
+        {loteRemessa && (
+          <RemessaPixModal key={loteRemessa} numeroLote={loteRemessa} onFechar={() => setLoteRemessa(null)} />
+        )}
+
+        {/* APROVAÇÃO / REJEIÇÃO / CANCELAMENTO DO LOTE */}
+        {decisaoLote && (
+          <DecisaoLoteModal
+            key={`${decisaoLote.numeroLote}-${decisaoLote.tipo}`}
+            numeroLote={decisaoLote.numeroLote}
+            tipo={decisaoLote.tipo}
+            onFechar={() => setDecisaoLote(null)}
+            onConcluido={() => revalidarLotes()}
+          />
+        )}
+
+        {/* CONCILIAÇÃO DO ARQUIVO RETORNO */}
+        {loteRetorno && (
+          <ConciliacaoRetornoModal
+            key={loteRetorno}
+            numeroLote={loteRetorno}
+            onFechar={() => setLoteRetorno(null)}
+            onConciliado={() => revalidarLotes()}
+          />
+        )}
+
         {/* AUDITORIA VIEW */}
         {activeView === 'auditoria' && (
           <AuditoriaView
@@ -1009,17 +1059,19 @@ interface LotesViewProps {
   valorTotalReservado: number;
   searchTerm: string;
   setSearchTerm: Dispatch<SetStateAction<string>>;
-  statusFilter: 'ALL' | 'PENDENTE' | 'PAGO';
-  setStatusFilter: Dispatch<SetStateAction<'ALL' | 'PENDENTE' | 'PAGO'>>;
+  statusFilter: 'ALL' | 'GERADO' | 'APROVADO' | 'PAGO';
+  setStatusFilter: Dispatch<SetStateAction<'ALL' | 'GERADO' | 'APROVADO' | 'PAGO'>>;
   dataFim: string;
   setDataFim: Dispatch<SetStateAction<string>>;
   handleVisualizarSaldos: () => void;
   handleGerarLote: () => void;
   handleVoltarParaLista: () => void;
   handleProcessarLote: (id: string) => void;
-  handleCancelarLote: (id: string) => void;
+  handleDecidirLote: (id: string, tipo: TipoDecisaoLote) => void;
   handleExportarExcel: (id: string) => void;
   handleExportarExcelDetalhado: (id: string) => void;
+  handleAbrirRemessa: (id: string) => void;
+  handleAbrirRetorno: (id: string) => void;
   carregarLotes: () => void;
 }
 
@@ -1049,11 +1101,12 @@ const LotesView: React.FC<LotesViewProps> = (props) => (
             </div>
             <select
               value={props.statusFilter}
-              onChange={(e) => props.setStatusFilter(e.target.value as 'ALL' | 'PENDENTE' | 'PAGO')}
+              onChange={(e) => props.setStatusFilter(e.target.value as 'ALL' | 'GERADO' | 'APROVADO' | 'PAGO')}
               className="px-4 py-2.5 border border-gray-300 dark:border-gray-600 rounded-xl bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-emerald-500"
             >
               <option value="ALL">Todos os status</option>
-              <option value="PENDENTE">Pendentes</option>
+              <option value="GERADO">Aguardando aprovação</option>
+              <option value="APROVADO">Aprovados</option>
               <option value="PAGO">Pagos</option>
             </select>
           </div>
@@ -1133,9 +1186,11 @@ const LotesView: React.FC<LotesViewProps> = (props) => (
         <LotesList
           lotes={props.lotes}
           handleProcessarLote={props.handleProcessarLote}
-          handleCancelarLote={props.handleCancelarLote}
+          handleDecidirLote={props.handleDecidirLote}
           handleExportarExcel={props.handleExportarExcel}
           handleExportarExcelDetalhado={props.handleExportarExcelDetalhado}
+          handleAbrirRemessa={props.handleAbrirRemessa}
+          handleAbrirRetorno={props.handleAbrirRetorno}
           loadingAction={props.loadingAction}
           loadingLotes={props.loadingLotes}
         />
@@ -1220,9 +1275,11 @@ const PreviewContent: React.FC<any> = ({ usuarios, valorTotalDisponivel, valorTo
 interface LotesListProps {
   lotes: Lote[];
   handleProcessarLote: (id: string) => void;
-  handleCancelarLote: (id: string) => void;
+  handleDecidirLote: (id: string, tipo: TipoDecisaoLote) => void;
   handleExportarExcel: (id: string) => void;
   handleExportarExcelDetalhado: (id: string) => void;
+  handleAbrirRemessa: (id: string) => void;
+  handleAbrirRetorno: (id: string) => void;
   loadingAction: boolean;
   loadingLotes: boolean;
 }
@@ -1230,9 +1287,11 @@ interface LotesListProps {
 const LotesList: React.FC<LotesListProps> = ({
   lotes,
   handleProcessarLote,
-  handleCancelarLote,
+  handleDecidirLote,
   handleExportarExcel,
   handleExportarExcelDetalhado,
+  handleAbrirRemessa,
+  handleAbrirRetorno,
   loadingAction,
   loadingLotes,
 }) => {
@@ -1247,9 +1306,11 @@ const LotesList: React.FC<LotesListProps> = ({
           lote={lote}
           index={index}
           onProcessar={handleProcessarLote}
-          onCancelar={handleCancelarLote}
+          onDecidir={handleDecidirLote}
           onExportar={handleExportarExcel}
           onExportarDetalhado={handleExportarExcelDetalhado}
+          onRemessa={handleAbrirRemessa}
+          onRetorno={handleAbrirRetorno}
           isActionLoading={loadingAction}
         />
       ))}
@@ -1283,17 +1344,30 @@ const EmptyState = () => (
   </motion.div>
 );
 
+const ESTILO_STATUS_LOTE: Record<
+  StatusLote,
+  { rotulo: string; fundo: string; icone: typeof CheckCircle; badge: 'default' | 'outline' | 'destructive'; classe: string }
+> = {
+  GERADO: { rotulo: 'AGUARDANDO APROVAÇÃO', fundo: 'bg-yellow-500', icone: Clock, badge: 'outline', classe: 'text-yellow-600 border-yellow-600' },
+  APROVADO: { rotulo: 'APROVADO', fundo: 'bg-blue-500', icone: ShieldCheck, badge: 'outline', classe: 'text-blue-600 border-blue-600' },
+  PAGO: { rotulo: 'PAGO', fundo: 'bg-emerald-500', icone: CheckCircle, badge: 'default', classe: '' },
+  REJEITADO: { rotulo: 'REJEITADO', fundo: 'bg-red-500', icone: XCircle, badge: 'destructive', classe: '' },
+  CANCELADO: { rotulo: 'CANCELADO', fundo: 'bg-gray-500', icone: Trash2, badge: 'destructive', classe: '' },
+};
+
 interface LoteCardProps {
   lote: Lote;
   index: number;
   onProcessar: (id: string) => void;
-  onCancelar: (id: string) => void;
+  onDecidir: (id: string, tipo: TipoDecisaoLote) => void;
   onExportar: (id: string) => void;
   onExportarDetalhado: (id: string) => void;
+  onRemessa: (id: string) => void;
+  onRetorno: (id: string) => void;
   isActionLoading: boolean;
 }
 
-const LoteCard: React.FC<LoteCardProps> = ({ lote, index, onProcessar, onCancelar, onExportar, onExportarDetalhado, isActionLoading }) => (
+const LoteCard: React.FC<LoteCardProps> = ({ lote, index, onProcessar, onDecidir, onExportar, onExportarDetalhado, onRemessa, onRetorno, isActionLoading }) => (
   <motion.div
     initial={{ opacity: 0, y: 20 }}
     animate={{ opacity: 1, y: 0 }}
@@ -1303,14 +1377,17 @@ const LoteCard: React.FC<LoteCardProps> = ({ lote, index, onProcessar, onCancela
     <div className="p-6">
       <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
         <div className="flex items-center gap-4">
-          <div className={`p-3 rounded-xl ${lote.status === 'PENDENTE' ? 'bg-yellow-500' : 'bg-emerald-500'}`}>
-            {lote.status === 'PENDENTE' ? <Clock className="w-6 h-6 text-white" /> : <CheckCircle className="w-6 h-6 text-white" />}
+          <div className={`p-3 rounded-xl ${ESTILO_STATUS_LOTE[lote.status].fundo}`}>
+            {(() => {
+              const IconeStatus = ESTILO_STATUS_LOTE[lote.status].icone;
+              return <IconeStatus className="w-6 h-6 text-white" />;
+            })()}
           </div>
           <div>
             <h3 className="text-xl font-bold">{lote.numeroLote}</h3>
             <div className="flex items-center gap-2 mt-1">
-              <Badge variant={lote.status === 'PENDENTE' ? 'outline' : 'default'} className={lote.status === 'PENDENTE' ? 'text-yellow-600 border-yellow-600' : ''}>
-                {lote.status}
+              <Badge variant={ESTILO_STATUS_LOTE[lote.status].badge} className={ESTILO_STATUS_LOTE[lote.status].classe}>
+                {ESTILO_STATUS_LOTE[lote.status].rotulo}
               </Badge>
               <span className="text-xs text-muted-foreground">
                 {format(new Date(lote.criadoEm), "dd/MM/yyyy 'às' HH:mm")}
@@ -1320,7 +1397,29 @@ const LoteCard: React.FC<LoteCardProps> = ({ lote, index, onProcessar, onCancela
         </div>
 
         <div className="flex flex-wrap gap-2">
-          {lote.status === 'PENDENTE' && (
+          {lote.status === 'GERADO' && (
+            <>
+              <ButtonWithLoading
+                icon={CheckCircle}
+                onClick={() => onDecidir(lote.numeroLote, 'aprovar')}
+                variant="success"
+                size="sm"
+                className="px-3 py-2 bg-emerald-500 text-white rounded-lg"
+              >
+                Aprovar
+              </ButtonWithLoading>
+              <ButtonWithLoading
+                icon={XCircle}
+                onClick={() => onDecidir(lote.numeroLote, 'rejeitar')}
+                variant="danger"
+                size="sm"
+                className="px-3 py-2 bg-red-500 text-white rounded-lg"
+              >
+                Rejeitar
+              </ButtonWithLoading>
+            </>
+          )}
+          {lote.status === 'APROVADO' && (
             <>
               <ButtonWithLoading
                 icon={CheckCircle}
@@ -1334,14 +1433,31 @@ const LoteCard: React.FC<LoteCardProps> = ({ lote, index, onProcessar, onCancela
               </ButtonWithLoading>
               <ButtonWithLoading
                 icon={Trash2}
-                onClick={() => onCancelar(lote.numeroLote)}
-                isLoading={isActionLoading}
+                onClick={() => onDecidir(lote.numeroLote, 'cancelar')}
                 variant="danger"
                 size="sm"
                 className="px-3 py-2 bg-red-500 text-white rounded-lg"
               >
                 Cancelar
               </ButtonWithLoading>
+              <ButtonWithLoading
+                icon={Send}
+                onClick={() => onRemessa(lote.numeroLote)}
+                variant="primary"
+                size="sm"
+                className="px-3 py-2 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-lg"
+              >
+                Remessa PIX
+              </ButtonWithLoading>
+              <ButtonWithLoading
+                icon={FileCheck2}
+                onClick={() => onRetorno(lote.numeroLote)}
+                variant="primary"
+                size="sm"
+                className="px-3 py-2 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 rounded-lg"
+              >
+                Conciliar retorno
+              </ButtonWithLoading>
             </>
           )}
           <ButtonWithLoading
@@ -1382,6 +1498,25 @@ const LoteCard: React.FC<LoteCardProps> = ({ lote, index, onProcessar, onCancela
           <p className="text-xl font-bold">{format(new Date(lote.dataCorte), 'dd/MM/yy')}</p>
         </div>
       </div>
+
+      {/* Revisão maker-checker: quem gerou, progresso e comentários dos revisores */}
+      <div className="mt-4 rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <span className="flex items-center gap-2 font-semibold">
+            <ShieldCheck className="w-4 h-4 text-blue-600" />
+            Aprovações: {lote.aprovacoes.filter((a) => a.decisao === 'APROVADO').length}/{lote.aprovacoesNecessarias}
+          </span>
+          <span className="text-xs text-muted-foreground">Gerado por {lote.geradoPor?.nome ?? '—'}</span>
+        </div>
+        {lote.aprovacoes.map((aprovacao) => (
+          <div key={`${aprovacao.admin.id}-${aprovacao.criadoEm}`} className="text-xs text-muted-foreground">
+            <span className={aprovacao.decisao === 'APROVADO' ? 'font-semibold text-emerald-600' : 'font-semibold text-red-600'}>
+              {aprovacao.decisao === 'APROVADO' ? 'Aprovado' : 'Rejeitado'}
+            </span>{' '}
+            por {aprovacao.admin.nome} em {format(new Date(aprovacao.criadoEm), 'dd/MM/yyyy HH:mm')}: “{aprovacao.comentario}”
+          </div>
+        ))}
+      </div>
     </div>
   </motion.div>
 );
@@ -1504,6 +1639,11 @@ const AuditoriaView: React.FC<AuditoriaViewProps> = ({
     EXPORTAR_EXCEL: 'Exportar Excel',
     BUSCAR_LOTE: 'Buscar Lote',
     LISTAR_LOTES: 'Listar Lotes',
+    CONCILIAR_RETORNO: 'Conciliar Retorno',
+    APROVAR_LOTE: 'Aprovar Lote',
+    REJEITAR_LOTE: 'Rejeitar Lote',
+    APROVAR_RESGATE: 'Aprovar Resgate',
+    REJEITAR_RESGATE: 'Rejeitar Resgate',
   };
 
   return (
@@ -1824,7 +1964,7 @@ const RelatoriosView: React.FC<RelatoriosViewProps> = ({
             {metricas ? (
               <>
                 {/* Cards de KPIs */}
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
                   <div className="p-4 bg-gradient-to-br from-emerald-50 to-green-50 dark:from-emerald-900/20 dark:to-green-900/20 rounded-xl border border-emerald-200 dark:border-emerald-800">
                     <div className="flex items-center gap-2 mb-2">
                       <DollarSign className="w-5 h-5 text-emerald-600" />
@@ -1867,6 +2007,23 @@ const RelatoriosView: React.FC<RelatoriosViewProps> = ({
                       {metricas.usuariosUnicosPagos}
                     </p>
                   </div>
+
+                  <div className="p-4 bg-gradient-to-br from-rose-50 to-red-50 dark:from-rose-900/20 dark:to-red-900/20 rounded-xl border border-rose-200 dark:border-rose-800">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Hourglass className="w-5 h-5 text-rose-600" />
+                      <span className="text-sm font-medium text-rose-700 dark:text-rose-300">Pontos Expirados</span>
+                    </div>
+                    <p className="text-2xl font-black text-rose-900 dark:text-rose-100">
+                      {metricas.totalExpirado !== null
+                        ? `R$ ${metricas.totalExpirado.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`
+                        : '—'}
+                    </p>
+                    {metricas.totalExpirado === null && (
+                      <p className="text-xs text-rose-600 dark:text-rose-400 mt-1">
+                        Não se aplica a uma campanha
+                      </p>
+                    )}
+                  </div>
                 </div>
 
                 {/* Gráfico de Evolução Temporal */}
@@ -2001,6 +2158,9 @@ const RelatoriosView: React.FC<RelatoriosViewProps> = ({
           </div>
         </>
       )}
+
+      {/* Seção 3: Política de Expiração de Pontos */}
+      <PoliticaExpiracaoPainel onExecutado={carregarTodosRelatorios} />
     </motion.div>
   );
 };
\ No newline at end of file
@@ -8,6 +8,7 @@ import { useSearchParams, useRouter } from "next/navigation";
 import { Trophy, Store, ChevronLeft, ChevronRight, Filter, Award } from "lucide-react";
 import toast from "react-hot-toast";
 import RankingSkeleton from "@/components/admin/ranking/RankingSkeleton";
+import RegrasNivelPainel from "@/components/admin/ranking/RegrasNivelPainel";
 import ButtonWithLoading from "@/components/ui/ButtonWithLoading";
 
 interface Vendedor {
@@ -234,6 +235,8 @@ export default function RankingAdminPage() {
           </div>
         )}
       </motion.div>
+
+      <RegrasNivelPainel />
     </div>
   );
 }
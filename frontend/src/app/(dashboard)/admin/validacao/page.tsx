@@ -53,10 +53,27 @@ import {
   ChevronLeft,
   ChevronRight,
   Calendar,
+  Undo2,
+  PackageX,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import UploadPlanilha from "@/components/validacao/UploadPlanilha";
 import api from "@/lib/axios";
+import type { AxiosError } from "axios";
+import {
+  useJobValidacao,
+  cancelarJobValidacao,
+  jobEstaAtivo,
+  JobValidacao,
+} from "@/hooks/useJobsValidacao";
+import type { LinhaDiffSimulacao } from "@/components/validacao/DiffSimulacao";
+import PerfisMapeamento, { type PerfilMapeamentoAtivo } from "@/components/validacao/PerfisMapeamento";
+import {
+  aplicarPerfilAoCabecalho,
+  usePerfisMapeamento,
+  type PerfilMapeamento,
+  type PontuacaoPerfilMapeamento,
+} from "@/hooks/usePerfisMapeamento";
 
 // ⚡ CODE SPLITTING: Componentes pesados carregados sob demanda
 const DashboardValidacao = dynamic(
@@ -77,6 +94,16 @@ const ModalFormatoData = dynamic(
   { ssr: false }
 );
 
+const DiffSimulacao = dynamic(
+  () => import("@/components/validacao/DiffSimulacao"),
+  { ssr: false }
+);
+
+const ImportacaoDevolucoes = dynamic(
+  () => import("@/components/validacao/ImportacaoDevolucoes"),
+  { ssr: false }
+);
+
 /**
  * ========================================
  * INTERFACES E TIPOS
@@ -138,6 +165,61 @@ interface ResultadoProcessamento {
   em_analise: number;
   revalidado: number;
   detalhes: EnvioDetalhe[];
+  diffSimulacao?: LinhaDiffSimulacao[]; // Apenas em simulações
+}
+
+/**
+ * Relatório de estrutura da planilha (400 de POST /api/validacao/processar-arquivo)
+ * Retornado antes de qualquer envio ser processado
+ */
+interface RelatorioParsePlanilha {
+  valido: boolean;
+  nomeArquivo: string;
+  totalLinhas: number;
+  cabecalhos: string[];
+  formatoData: string;
+  erros: Array<{
+    codigo: string;
+    mensagem: string;
+    coluna?: string;
+    linhas?: number[];
+    totalOcorrencias?: number;
+  }>;
+}
+
+/**
+ * Planilha já processada em execuções anteriores
+ * (409 "PLANILHA_JA_PROCESSADA" de POST /api/validacao/jobs)
+ */
+interface RelatorioReprocessamento {
+  nomeArquivo: string | null;
+  totalLinhas: number;
+  arquivoJaProcessado: boolean;
+  linhasJaProcessadas: number;
+  percentualJaProcessado: number;
+  execucoes: Array<{
+    historicoId: string;
+    dataHora: string;
+    admin: string;
+    nomeArquivo: string | null;
+    mesmoArquivo: boolean;
+    linhasRepetidas: number;
+  }>;
+}
+
+/**
+ * Impedimentos para desfazer uma execução
+ * (409 de POST /api/validacao/historico/:id/reverter)
+ */
+interface RelatorioReversao {
+  historicoId: string;
+  impedimentos: Array<{
+    codigo: string;
+    mensagem: string;
+    numeroLote?: string | null;
+    usuarioId?: string;
+    enviosIds?: string[];
+  }>;
 }
 
 /**
@@ -269,7 +351,7 @@ export default function ValidacaoPage() {
   // ========================================
   // ESTADOS: Sistema de Abas (NOVO - Sprint 19)
   // ========================================
-  type TabAtiva = "validacao" | "historico" | "dashboard";
+  type TabAtiva = "validacao" | "historico" | "dashboard" | "devolucoes";
   const [tabAtiva, setTabAtiva] = useState<TabAtiva>("validacao");
 
   // ========================================
@@ -280,6 +362,8 @@ export default function ValidacaoPage() {
   const [erroHistorico, setErroHistorico] = useState<string | null>(null);
   const [paginaHistorico, setPaginaHistorico] = useState(1);
   const itensPorPaginaHistorico = 10;
+  const [historicoRevertendoId, setHistoricoRevertendoId] = useState<string | null>(null);
+  const [relatorioReversao, setRelatorioReversao] = useState<RelatorioReversao | null>(null);
 
   // ========================================
   // ESTADOS: Dashboard de Estatísticas (NOVO - Sprint 19)
@@ -318,11 +402,51 @@ export default function ValidacaoPage() {
   const [isLoadingProcessamento, setIsLoadingProcessamento] = useState(false);
   const [resultadoProcessamento, setResultadoProcessamento] =
     useState<ResultadoProcessamento | null>(null);
+  const [relatorioParse, setRelatorioParse] =
+    useState<RelatorioParsePlanilha | null>(null);
+  const [relatorioReprocessamento, setRelatorioReprocessamento] =
+    useState<RelatorioReprocessamento | null>(null);
+  const [justificativaReprocessamento, setJustificativaReprocessamento] = useState("");
+
+  // Job assíncrono em acompanhamento (polling via SWR)
+  const [jobIdAtual, setJobIdAtual] = useState<string | null>(null);
+  // Job que gerou o resultado exibido (exportação do diff da simulação)
+  const [jobIdResultado, setJobIdResultado] = useState<string | null>(null);
+
+  // ========================================
+  // CALLBACK: Finalização do Job Assíncrono
+  // ========================================
+  const handleJobFinalizado = useCallback(
+    (job: JobValidacao<ResultadoProcessamento>) => {
+      if (job.status === "FALHOU") {
+        toast.error(job.mensagemErro || "A validação falhou.");
+      } else if (job.resultadoJson) {
+        setResultadoProcessamento(job.resultadoJson);
+        setJobIdResultado(job.id);
+        if (job.status === "CANCELADO") {
+          toast(job.resultadoJson.mensagem || "Validação cancelada.", { icon: "⛔" });
+        } else {
+          toast.success(job.resultadoJson.mensagem || "Processamento concluído!");
+        }
+      }
+
+      setJobIdAtual(null);
+      setIsLoadingProcessamento(false);
+    },
+    []
+  );
+
+  const { job: jobAtual } = useJobValidacao<ResultadoProcessamento>(
+    jobIdAtual,
+    handleJobFinalizado
+  );
 
   // ========================================
   // ESTADOS: Mapeamento Automático
   // ========================================
   const [mapeamentoCarregado, setMapeamentoCarregado] = useState(false);
+  const [perfilMapeamentoAtivo, setPerfilMapeamentoAtivo] = useState<PerfilMapeamentoAtivo | null>(null);
+  const { mutate: recarregarPerfisMapeamento } = usePerfisMapeamento();
 
   // ========================================
   // ESTADOS: Modal de Detalhes
@@ -468,11 +592,56 @@ export default function ValidacaoPage() {
     []
   );
 
+  // ========================================
+  // FUNÇÃO: Aplicar Perfil de Mapeamento (mapa + formato de data)
+  // ========================================
+  const aplicarPerfilMapeamento = useCallback(
+    (perfil: PerfilMapeamento, cabecalhosAtuais: string[], automatico: boolean) => {
+      setMapaColunas(aplicarPerfilAoCabecalho(perfil, cabecalhosAtuais, CAMPOS_MAPEAVEIS.IGNORAR));
+      setFormatoDataAtual(perfil.formatoData);
+      setPerfilMapeamentoAtivo({ id: perfil.id, nome: perfil.nome, automatico });
+    },
+    []
+  );
+
+  // ========================================
+  // FUNÇÃO: Detectar Perfil pelo Cabeçalho
+  // Retorna true se um perfil compatível foi aplicado
+  // ========================================
+  const detectarPerfilMapeamento = useCallback(
+    async (cabecalhosAtuais: string[]) => {
+      try {
+        const { data: ranking } = await api.post<PontuacaoPerfilMapeamento[]>(
+          "/validacao/perfis-mapeamento/detectar",
+          { cabecalhos: cabecalhosAtuais }
+        );
+        const melhor = ranking[0];
+        if (!melhor?.compativel) return false;
+
+        const perfis = await recarregarPerfisMapeamento();
+        const perfil = perfis?.find((p) => p.id === melhor.perfilId);
+        if (!perfil) return false;
+
+        aplicarPerfilMapeamento(perfil, cabecalhosAtuais, true);
+        toast.success(`Perfil "${perfil.nome}" detectado pelo cabeçalho da planilha`);
+        return true;
+      } catch (error) {
+        console.error("❌ Erro ao detectar perfil de mapeamento:", error);
+        return false;
+      }
+    },
+    [aplicarPerfilMapeamento, recarregarPerfisMapeamento]
+  );
+
   // ========================================
   // CALLBACK: Planilha Carregada (ATUALIZADO - Tarefa 41)
   // ========================================
   const handlePlanilhaCarregada = useCallback(
     async (cabecalhosExtraidos: string[], linhas: any[], arquivo: File) => {
+      // O mapeamento é resolvido aqui (perfil detectado > mapeamento salvo)
+      setMapeamentoCarregado(true);
+      setPerfilMapeamentoAtivo(null);
+
       // Armazenar cabeçalhos
       setCabecalhos(cabecalhosExtraidos);
 
@@ -485,10 +654,13 @@ export default function ValidacaoPage() {
       // Armazenar arquivo original
       setArquivoProcessado(arquivo);
 
-      // Carregar mapeamento salvo e inicializar mapa
-      await carregarMapaSalvoEIniciarMapeamento(cabecalhosExtraidos);
+      // Perfil compartilhado detectado pelo cabeçalho; senão, mapeamento salvo
+      const perfilDetectado = await detectarPerfilMapeamento(cabecalhosExtraidos);
+      if (!perfilDetectado) {
+        await carregarMapaSalvoEIniciarMapeamento(cabecalhosExtraidos);
+      }
     },
-    [carregarMapaSalvoEIniciarMapeamento]
+    [carregarMapaSalvoEIniciarMapeamento, detectarPerfilMapeamento]
   );
 
   // ========================================
@@ -527,8 +699,12 @@ export default function ValidacaoPage() {
     setLinhasCompletas([]);
     setArquivoProcessado(null);
     setMapaColunas({});
+    setPerfilMapeamentoAtivo(null);
     setCampanhaIdSelecionada("");
     setResultadoProcessamento(null); // ✅ NOVO: Limpa resultado
+    setRelatorioParse(null);
+    setRelatorioReprocessamento(null);
+    setJustificativaReprocessamento("");
     toast.success("Dados limpos com sucesso");
   };
 
@@ -568,68 +744,106 @@ export default function ValidacaoPage() {
   // HANDLER: Processar Planilha (IMPLEMENTADO - Tarefa 41)
   // ========================================
   /**
-   * Aciona o "Robô" de validação via POST /api/validacao/processar
+   * Aciona o "Robô" de validação via POST /api/validacao/jobs (assíncrono)
    * 
-   * Envia:
+   * O backend responde imediatamente com o job criado; o progresso é
+   * acompanhado por polling (useJobValidacao) até o job terminar.
+   * 
+   * Envia (multipart/form-data):
+   * - arquivo: Arquivo original (.xlsx/.csv) - a leitura é feita no backend
    * - campanhaId: ID da campanha selecionada
    * - ehSimulacao: true/false (define se altera dados reais)
-   * - mapaColunas: Mapa de colunas cabeçalho->campo_sistema
-   * - linhasPlanilha: TODAS as linhas da planilha (não apenas preview)
+   * - mapaColunas: Mapa de colunas cabeçalho->campo_sistema (JSON)
+   * - formatoData: Formato de data selecionado
    * 
    * Recebe:
-   * - ResultadoProcessamento (mensagem, totalProcessados, validado, rejeitado, conflito_manual)
+   * - JobValidacao (status PENDENTE); ao concluir, resultadoJson contém o
+   *   ResultadoProcessamento (mensagem, totalProcessados, validado, ...)
+   * - Em caso de erro de estrutura: 400 com relatorio (RelatorioParsePlanilha)
+   * - Planilha já processada (execução real): 409 com relatorio
+   *   (RelatorioReprocessamento); reenviar com confirmarReprocessamento e
+   *   justificativaReprocessamento para prosseguir
+   *
+   * @param justificativa - Justificativa do reprocessamento confirmado (opcional)
    */
-  const handleProcessarPlanilha = async () => {
+  const handleProcessarPlanilha = async (justificativa?: string) => {
+    if (!arquivoProcessado) {
+      toast.error("Nenhum arquivo carregado!");
+      return;
+    }
+
     // Limpa resultado anterior
     setResultadoProcessamento(null);
+    setRelatorioParse(null);
+    setRelatorioReprocessamento(null);
     setIsLoadingProcessamento(true);
 
     // ========================================
-    // MONTAR PAYLOAD
+    // MONTAR FORMULÁRIO (arquivo bruto, sem JSON de linhas)
     // ========================================
-    const payload = {
-      campanhaId: campanhaIdSelecionada,
-      ehSimulacao: ehSimulacao,
-      mapaColunas: mapaColunas,
-      linhasPlanilha: linhasCompletas, // ✅ CRÍTICO: Envia TODAS as linhas
-      formatoData: formatoDataAtual, // Formato de data selecionado pelo usuário
-    };
+    const formData = new FormData();
+    formData.append("arquivo", arquivoProcessado);
+    formData.append("campanhaId", campanhaIdSelecionada);
+    formData.append("ehSimulacao", String(ehSimulacao));
+    formData.append("mapaColunas", JSON.stringify(mapaColunas));
+    formData.append("formatoData", formatoDataAtual); // Formato de data selecionado pelo usuário
+    if (justificativa) {
+      formData.append("confirmarReprocessamento", "true");
+      formData.append("justificativaReprocessamento", justificativa);
+    }
 
     // ========================================
-    // CHAMAR API COM TOAST.PROMISE
+    // SUBMETER JOB (o acompanhamento é feito pelo efeito abaixo)
     // ========================================
     try {
-      const promise = api.post<ResultadoProcessamento>(
-        "/validacao/processar",
-        payload
+      const response = await api.post<JobValidacao>(
+        "/validacao/jobs",
+        formData,
+        { headers: { "Content-Type": "multipart/form-data" } }
       );
 
-      toast.promise(promise, {
-        loading: `Processando ${linhasCompletas.length} linhas... ${
+      setJobIdAtual(response.data.id);
+      setJustificativaReprocessamento("");
+      toast.success(
+        `Validação enviada para processamento ${
           ehSimulacao ? "(Simulação)" : "(Modo Real)"
-        }`,
-        success: (response) => {
-          setResultadoProcessamento(response.data);
-          return response.data.mensagem || "Processamento concluído!";
-        },
-        error: (err) => {
-          console.error("❌ Erro no processamento:", err);
-          return (
-            err.response?.data?.message ||
-            "Erro desconhecido durante o processamento."
-          );
-        },
-      });
-
-      await promise; // Aguarda resolução para o finally
-    } catch (error) {
-      // Erro já tratado pelo toast.promise
-      console.error("❌ Falha no processamento:", error);
-    } finally {
+        }`
+      );
+    } catch (err) {
+      const erro = err as AxiosError<{
+        message?: string;
+        codigo?: string;
+        relatorio?: RelatorioParsePlanilha | RelatorioReprocessamento;
+      }>;
+      console.error("❌ Erro ao submeter validação:", erro);
+      if (erro.response?.data?.codigo === "PLANILHA_JA_PROCESSADA") {
+        setRelatorioReprocessamento(erro.response.data.relatorio as RelatorioReprocessamento);
+      } else if (erro.response?.data?.relatorio) {
+        setRelatorioParse(erro.response.data.relatorio as RelatorioParsePlanilha);
+      }
+      toast.error(
+        erro.response?.data?.message ||
+          "Erro desconhecido durante o processamento."
+      );
       setIsLoadingProcessamento(false);
     }
   };
 
+  // ========================================
+  // HANDLER: Cancelar Job em Andamento
+  // ========================================
+  const handleCancelarJob = async () => {
+    if (!jobIdAtual) return;
+
+    try {
+      await cancelarJobValidacao(jobIdAtual);
+      toast("Cancelamento solicitado. O job para ao fim do lote atual.", { icon: "⏳" });
+    } catch (err) {
+      const erro = err as AxiosError<{ message?: string }>;
+      toast.error(erro.response?.data?.message || "Erro ao cancelar a validação.");
+    }
+  };
+
   // ========================================
   // FUNÇÃO: Buscar Histórico de Validações (NOVO - Sprint 19)
   // ========================================
@@ -656,6 +870,39 @@ export default function ValidacaoPage() {
     }
   }, []);
 
+  // ========================================
+  // FUNÇÃO: Desfazer uma execução do histórico
+  // Restaura status, debita pontos e remove cartelas concluídas
+  // ========================================
+  const handleReverterHistorico = async (historicoId: string) => {
+    if (
+      !confirm(
+        "Desfazer esta validação? Os envios voltam ao status anterior, os pontos creditados são debitados e as cartelas concluídas são removidas."
+      )
+    ) {
+      return;
+    }
+
+    setHistoricoRevertendoId(historicoId);
+    setRelatorioReversao(null);
+
+    try {
+      const response = await api.post(`/validacao/historico/${historicoId}/reverter`);
+      toast.success(
+        `Validação desfeita: ${response.data.enviosRestaurados} envio(s) restaurado(s).`
+      );
+      await buscarHistorico();
+    } catch (err) {
+      const erro = err as AxiosError<{ message?: string; relatorio?: RelatorioReversao }>;
+      if (erro.response?.data?.relatorio) {
+        setRelatorioReversao(erro.response.data.relatorio);
+      }
+      toast.error(erro.response?.data?.message || "Erro ao desfazer a validação.");
+    } finally {
+      setHistoricoRevertendoId(null);
+    }
+  };
+
   // ========================================
   // EFFECT: Carregar histórico ao trocar para aba Histórico
   // ========================================
@@ -830,6 +1077,23 @@ export default function ValidacaoPage() {
           <span className="hidden sm:inline">Dashboard</span>
           <span className="sm:hidden">Dashboard</span>
         </button>
+
+        <button
+          onClick={() => setTabAtiva("devolucoes")}
+          className={`
+            flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-lg font-semibold
+            transition-all duration-200
+            ${
+              tabAtiva === "devolucoes"
+                ? "bg-gradient-to-r from-red-500 to-rose-500 text-white shadow-lg shadow-red-500/30"
+                : "bg-transparent text-muted-foreground hover:bg-gray-100 dark:hover:bg-gray-700"
+            }
+          `}
+        >
+          <PackageX className="w-5 h-5" />
+          <span className="hidden sm:inline">Devoluções</span>
+          <span className="sm:hidden">Devoluções</span>
+        </button>
       </motion.div>
 
       {/* ========================================
@@ -1152,6 +1416,17 @@ export default function ValidacaoPage() {
                 Campos marcados com <span className="text-red-500 font-bold">*</span> são obrigatórios.
               </motion.p>
 
+              {/* Perfis de mapeamento compartilhados */}
+              <PerfisMapeamento
+                cabecalhos={cabecalhos}
+                mapaColunas={mapaColunas}
+                formatoData={formatoDataAtual}
+                valorIgnorar={CAMPOS_MAPEAVEIS.IGNORAR}
+                perfilAtivo={perfilMapeamentoAtivo}
+                onAplicar={(perfil) => aplicarPerfilMapeamento(perfil, cabecalhos, false)}
+                onPerfilSalvo={setPerfilMapeamentoAtivo}
+              />
+
               {/* Tabela de mapeamento */}
               <div className="overflow-x-auto rounded-xl border border-gray-200/50 shadow-sm mb-6">
                 <table className="min-w-full divide-y divide-gray-200">
@@ -1552,14 +1827,18 @@ export default function ValidacaoPage() {
               <motion.button
                 whileHover={isProcessarHabilitado ? { scale: 1.02 } : {}}
                 whileTap={isProcessarHabilitado ? { scale: 0.98 } : {}}
-                onClick={handleProcessarPlanilha}
+                onClick={() => handleProcessarPlanilha()}
                 disabled={!isProcessarHabilitado || isLoadingProcessamento}
                 className="w-full flex items-center justify-center gap-3 px-6 py-4 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed text-white font-bold text-lg rounded-xl transition-all shadow-lg hover:shadow-xl disabled:shadow-none"
               >
                 {isLoadingProcessamento ? (
                   <>
                     <Loader2 className="w-6 h-6 animate-spin" />
-                    <span>Processando {linhasCompletas.length} linhas...</span>
+                    <span>
+                      {jobAtual && jobAtual.total > 0
+                        ? `Processando ${jobAtual.processados}/${jobAtual.total} envios...`
+                        : `Processando ${linhasCompletas.length} linhas...`}
+                    </span>
                   </>
                 ) : (
                   <>
@@ -1573,6 +1852,47 @@ export default function ValidacaoPage() {
                 )}
               </motion.button>
 
+              {/* Progresso do job assíncrono (contadores parciais + cancelar) */}
+              {jobAtual && jobEstaAtivo(jobAtual) && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="mt-4 p-4 bg-white/80 border border-blue-200/50 rounded-xl"
+                >
+                  <div className="flex items-center justify-between mb-2 text-xs font-semibold text-gray-700">
+                    <span>
+                      {jobAtual.status === "PENDENTE" ? "Aguardando início..." : "Validando em segundo plano"}
+                    </span>
+                    <span>
+                      {jobAtual.total > 0
+                        ? `${Math.round((jobAtual.processados / jobAtual.total) * 100)}%`
+                        : "0%"}
+                    </span>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all"
+                      style={{
+                        width: `${jobAtual.total > 0 ? (jobAtual.processados / jobAtual.total) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                  <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+                    <span className="text-green-700">✓ {jobAtual.validado} validados</span>
+                    <span className="text-red-700">✗ {jobAtual.rejeitado} rejeitados</span>
+                    <span className="text-orange-700">⚠ {jobAtual.conflito_manual} conflitos</span>
+                    <span className="text-gray-600">⏳ {jobAtual.em_analise} em análise</span>
+                    <button
+                      onClick={handleCancelarJob}
+                      disabled={jobAtual.cancelamentoSolicitado}
+                      className="ml-auto px-3 py-1 rounded-lg bg-red-500 text-white font-semibold hover:bg-red-600 disabled:opacity-50"
+                    >
+                      {jobAtual.cancelamentoSolicitado ? "Cancelando..." : "Cancelar"}
+                    </button>
+                  </div>
+                </motion.div>
+              )}
+
               {isProcessarHabilitado && !isLoadingProcessamento && (
                 <motion.p
                   initial={{ opacity: 0 }}
@@ -1583,6 +1903,95 @@ export default function ValidacaoPage() {
                   ✅ Todos os requisitos foram atendidos. Clique para processar a planilha.
                 </motion.p>
               )}
+
+              {/* Relatório de estrutura da planilha (nenhum envio foi processado) */}
+              {relatorioParse && relatorioParse.erros.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="mt-6 p-4 bg-gradient-to-r from-red-50 to-rose-50 border border-red-200/50 rounded-xl"
+                >
+                  <div className="flex items-start gap-3">
+                    <XCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-bold text-red-800 mb-2">
+                        Planilha rejeitada ({relatorioParse.nomeArquivo}) - nenhum envio foi processado
+                      </p>
+                      <ul className="text-xs text-red-700 space-y-1">
+                        {relatorioParse.erros.map((erro, index) => (
+                          <li key={`${erro.codigo}-${index}`}>
+                            • <span className="font-mono font-semibold">{erro.codigo}</span>: {erro.mensagem}
+                            {erro.linhas && erro.linhas.length > 0 && (
+                              <span className="text-red-500">
+                                {" "}(linhas {erro.linhas.join(", ")}
+                                {erro.totalOcorrencias && erro.totalOcorrencias > erro.linhas.length ? ", ..." : ""})
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Planilha já processada: exige confirmação com justificativa */}
+              {relatorioReprocessamento && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="mt-6 p-4 bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200/50 rounded-xl"
+                >
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1 space-y-3">
+                      <p className="text-sm font-bold text-amber-800">
+                        {relatorioReprocessamento.arquivoJaProcessado
+                          ? "Este arquivo já foi processado"
+                          : `${Math.round(relatorioReprocessamento.percentualJaProcessado * 100)}% das linhas já foram processadas`}{" "}
+                        - nenhum envio foi processado
+                      </p>
+                      <ul className="text-xs text-amber-800 space-y-1">
+                        {relatorioReprocessamento.execucoes.map((execucao) => (
+                          <li key={execucao.historicoId}>
+                            • {new Date(execucao.dataHora).toLocaleString("pt-BR")} por {execucao.admin}
+                            {execucao.nomeArquivo && ` (${execucao.nomeArquivo})`}
+                            {execucao.mesmoArquivo
+                              ? " - mesmo arquivo"
+                              : ` - ${execucao.linhasRepetidas} linha(s) em comum`}
+                          </li>
+                        ))}
+                      </ul>
+                      <textarea
+                        value={justificativaReprocessamento}
+                        onChange={(e) => setJustificativaReprocessamento(e.target.value)}
+                        maxLength={500}
+                        rows={2}
+                        placeholder="Justificativa do reprocessamento (mín. 10 caracteres, fica registrada no histórico)"
+                        className="w-full px-3 py-2 rounded-lg border border-amber-300 bg-white text-sm"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setRelatorioReprocessamento(null)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium text-gray-600 hover:bg-gray-100 transition-colors"
+                        >
+                          Cancelar
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleProcessarPlanilha(justificativaReprocessamento.trim())}
+                          disabled={justificativaReprocessamento.trim().length < 10 || isLoadingProcessamento}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-amber-500 text-white hover:bg-amber-600 transition-colors disabled:opacity-50"
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" />
+                          Reprocessar mesmo assim
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
             </div>
           </motion.div>
         )}
@@ -1859,6 +2268,14 @@ export default function ValidacaoPage() {
                 </ul>
               </motion.div>
 
+              {/* Diff por envio (apenas simulação) */}
+              {resultadoProcessamento.diffSimulacao && (
+                <DiffSimulacao
+                  linhas={resultadoProcessamento.diffSimulacao}
+                  jobId={jobIdResultado}
+                />
+              )}
+
               {/* Ações */}
               <motion.div
                 initial={{ opacity: 0, y: 10 }}
@@ -2004,6 +2421,22 @@ export default function ValidacaoPage() {
                           <p className="text-xs text-muted-foreground">
                             {new Date(historico.dataHora).toLocaleTimeString("pt-BR")}
                           </p>
+                          {historico.revertidoEm && (
+                            <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full bg-orange-100 text-orange-700 text-xs font-semibold">
+                              <Undo2 className="w-3 h-3" />
+                              Desfeita em {new Date(historico.revertidoEm).toLocaleString("pt-BR")}
+                              {historico.revertidoPor?.nome && ` por ${historico.revertidoPor.nome}`}
+                            </span>
+                          )}
+                          {historico.justificativaReprocessamento && (
+                            <p
+                              className="mt-1 max-w-xs text-xs text-amber-700"
+                              title={historico.justificativaReprocessamento}
+                            >
+                              <RefreshCw className="inline w-3 h-3 mr-1" />
+                              Reprocessamento: {historico.justificativaReprocessamento}
+                            </p>
+                          )}
                         </div>
                       </div>
 
@@ -2057,6 +2490,23 @@ export default function ValidacaoPage() {
                           </span>
                         </div>
                         
+                        <div className="flex items-center gap-2">
+                        {/* Botão Desfazer (apenas execuções com rastro e não revertidas) */}
+                        {historico.reversaoJson && !historico.revertidoEm && (
+                          <button
+                            onClick={() => handleReverterHistorico(historico.id)}
+                            disabled={historicoRevertendoId !== null}
+                            className="flex items-center gap-2 px-4 py-2 border border-orange-300 text-orange-700 rounded-lg hover:bg-orange-50 transition-all disabled:opacity-50"
+                          >
+                            {historicoRevertendoId === historico.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <Undo2 className="w-4 h-4" />
+                            )}
+                            Desfazer
+                          </button>
+                        )}
+
                         {/* Botão Ver Detalhes */}
                         <button
                           onClick={() => {
@@ -2079,7 +2529,36 @@ export default function ValidacaoPage() {
                           <Eye className="w-4 h-4" />
                           Ver Detalhes
                         </button>
+                        </div>
                       </div>
+
+                      {/* Impedimentos da reversão (409) */}
+                      {relatorioReversao?.historicoId === historico.id && (
+                        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                          <div className="flex items-center justify-between mb-2">
+                            <p className="flex items-center gap-2 text-sm font-semibold text-red-700">
+                              <AlertTriangle className="w-4 h-4" />
+                              Não foi possível desfazer esta validação
+                            </p>
+                            <button
+                              onClick={() => setRelatorioReversao(null)}
+                              className="text-red-500 hover:text-red-700"
+                            >
+                              <XCircle className="w-4 h-4" />
+                            </button>
+                          </div>
+                          <ul className="space-y-1 text-sm text-red-700">
+                            {relatorioReversao?.impedimentos.map((impedimento, indice) => (
+                              <li key={indice}>
+                                <span className="font-mono text-xs bg-red-100 px-1.5 py-0.5 rounded mr-2">
+                                  {impedimento.codigo}
+                                </span>
+                                {impedimento.mensagem}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </motion.div>
                   ))}
 
@@ -2127,6 +2606,13 @@ export default function ValidacaoPage() {
         </AnimatePresence>
       )}
 
+      {/* ABA 4: DEVOLUÇÕES/CANCELAMENTOS - Code Splitted */}
+      {tabAtiva === "devolucoes" && (
+        <AnimatePresence mode="wait">
+          <ImportacaoDevolucoes campanhas={campanhasDisponiveis} />
+        </AnimatePresence>
+      )}
+
       {/* Modal de Detalhes - FORA DAS ABAS para funcionar em todas */}
       <ModalDetalhesValidacao
         isOpen={modalDetalhesAberto}
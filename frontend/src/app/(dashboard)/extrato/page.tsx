@@ -0,0 +1,344 @@
+/**
+ * ============================================================================
+ * PÁGINA DE EXTRATO (Vendedor e Gerente)
+ * ============================================================================
+ *
+ * Propósito:
+ * Extrato pessoal do saldo: créditos por cartela (com o multiplicador de
+ * evento de cada pedido), comissões do gerente por venda da equipe,
+ * reservas, pagamentos com o número do lote e estornos, com o saldo após
+ * cada lançamento. Download do período em PDF ou XLSX.
+ *
+ * @module ExtratoPage
+ * ============================================================================
+ */
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { motion } from "framer-motion";
+import { AxiosError } from "axios";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ChevronLeft, ChevronRight, Download, FileSpreadsheet, History, Loader2 } from "lucide-react";
+import api from "@/lib/axios";
+import { cn } from "@/lib/utils";
+
+type TipoLancamento =
+  | "SALDO_INICIAL"
+  | "CREDITO_CARTELA"
+  | "BONUS_EVENTO"
+  | "COMISSAO_GERENTE"
+  | "BONUS_EQUIPE"
+  | "RESERVA_LOTE"
+  | "RESERVA_RESGATE"
+  | "PAGAMENTO"
+  | "CANCELAMENTO_RESERVA"
+  | "REVERSAO_VALIDACAO"
+  | "ESTORNO_ENVIO"
+  | "EXPIRACAO_PONTOS"
+  | "AJUSTE_MANUAL"
+  | "AJUSTE_RECALCULO";
+
+interface EnvioExtrato {
+  id: string;
+  numeroPedido: string;
+  vendedorNome: string;
+  valorBase: number | null;
+  multiplicador: number;
+  valorFinal: number | null;
+}
+
+interface LancamentoExtrato {
+  id: string;
+  criadoEm: string;
+  tipo: TipoLancamento;
+  descricao: string;
+  valor: number;
+  valorReservado: number;
+  saldoApos: number;
+  reservadoApos: number;
+  campanhaTitulo: string | null;
+  numeroCartela: number | null;
+  numeroLote: string | null;
+  envios: EnvioExtrato[];
+}
+
+// Espelha GET /perfil/extrato
+interface RespostaExtrato {
+  resumo: {
+    saldoInicial: number;
+    reservadoInicial: number;
+    creditos: number;
+    debitos: number;
+    saldoFinal: number;
+    reservadoFinal: number;
+  };
+  lancamentos: LancamentoExtrato[];
+  paginacao: { pagina: number; porPagina: number; total: number; totalPaginas: number };
+}
+
+const ROTULOS_LANCAMENTO: Record<TipoLancamento, string> = {
+  SALDO_INICIAL: "Saldo inicial",
+  CREDITO_CARTELA: "Crédito de cartela",
+  BONUS_EVENTO: "Bônus de evento",
+  COMISSAO_GERENTE: "Comissão",
+  BONUS_EQUIPE: "Bônus de equipe",
+  RESERVA_LOTE: "Reserva para pagamento",
+  RESERVA_RESGATE: "Reserva de resgate",
+  PAGAMENTO: "Pagamento",
+  CANCELAMENTO_RESERVA: "Reserva devolvida",
+  REVERSAO_VALIDACAO: "Reversão de validação",
+  ESTORNO_ENVIO: "Estorno de envio",
+  EXPIRACAO_PONTOS: "Expiração de pontos",
+  AJUSTE_MANUAL: "Ajuste manual",
+  AJUSTE_RECALCULO: "Ajuste de recálculo",
+};
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+const POR_PAGINA = 20;
+
+const fetcher = (url: string) => api.get<RespostaExtrato>(url).then((res) => res.data);
+
+const mensagemDeErro = async (error: unknown, padrao: string) => {
+  const dados = (error as AxiosError<{ message?: string | string[] } | Blob>).response?.data;
+  // Download (responseType blob): o corpo do erro chega como Blob
+  const corpo = dados instanceof Blob ? JSON.parse((await dados.text()) || "{}") : dados;
+  const mensagem = corpo?.message;
+  return Array.isArray(mensagem) ? mensagem.join(", ") : mensagem || padrao;
+};
+
+/**
+ * Extrato paginado do usuário logado.
+ */
+export default function ExtratoPage() {
+  const [dataInicio, setDataInicio] = useState("");
+  const [dataFim, setDataFim] = useState("");
+  const [pagina, setPagina] = useState(1);
+  const [baixando, setBaixando] = useState<"pdf" | "xlsx" | null>(null);
+
+  const filtros = new URLSearchParams({
+    ...(dataInicio && { dataInicio }),
+    ...(dataFim && { dataFim }),
+  });
+  const { data, error, isLoading } = useSWR(
+    `/perfil/extrato?pagina=${pagina}&porPagina=${POR_PAGINA}${filtros.size ? `&${filtros}` : ""}`,
+    fetcher,
+    { revalidateOnFocus: false, keepPreviousData: true },
+  );
+
+  // ========================================
+  // AÇÃO: Baixar o extrato do período
+  // ========================================
+  const handleBaixar = async (formato: "pdf" | "xlsx") => {
+    setBaixando(formato);
+    try {
+      const response = await api.get("/perfil/extrato/exportar", {
+        params: { formato, ...(dataInicio && { dataInicio }), ...(dataFim && { dataFim }) },
+        responseType: "blob",
+      });
+
+      const nomeArquivo =
+        /filename=([^;]+)/.exec(response.headers["content-disposition"] ?? "")?.[1] ?? `extrato.${formato}`;
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement("a");
+      link.href = url;
+      link.setAttribute("download", nomeArquivo);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(await mensagemDeErro(error, "Erro ao gerar o extrato"));
+    } finally {
+      setBaixando(null);
+    }
+  };
+
+  const resumo = data?.resumo;
+  const paginacao = data?.paginacao;
+
+  return (
+    <div className="flex-1 space-y-6 pb-8">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, ease: "easeOut" }}
+        className="flex flex-wrap items-end justify-between gap-4"
+      >
+        <div className="flex items-center gap-3">
+          <History className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-3xl font-black tracking-tight text-foreground">Extrato</h1>
+            <p className="text-sm text-muted-foreground">Cada crédito, comissão, reserva e pagamento do seu saldo.</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="space-y-1 text-xs">
+            <span className="text-muted-foreground">De</span>
+            <input
+              type="date"
+              value={dataInicio}
+              onChange={(e) => {
+                setDataInicio(e.target.value);
+                setPagina(1);
+              }}
+              className="block rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-sm text-foreground"
+            />
+          </label>
+          <label className="space-y-1 text-xs">
+            <span className="text-muted-foreground">Até</span>
+            <input
+              type="date"
+              value={dataFim}
+              onChange={(e) => {
+                setDataFim(e.target.value);
+                setPagina(1);
+              }}
+              className="block rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-sm text-foreground"
+            />
+          </label>
+          <button
+            onClick={() => handleBaixar("pdf")}
+            disabled={baixando !== null}
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+          >
+            {baixando === "pdf" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            PDF
+          </button>
+          <button
+            onClick={() => handleBaixar("xlsx")}
+            disabled={baixando !== null}
+            className="flex items-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40 disabled:opacity-50"
+          >
+            {baixando === "xlsx" ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <FileSpreadsheet className="h-4 w-4" />
+            )}
+            XLSX
+          </button>
+        </div>
+      </motion.div>
+
+      {/* Totais do período */}
+      {resumo && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          {[
+            { rotulo: "Saldo inicial", valor: resumo.saldoInicial },
+            { rotulo: "Créditos", valor: resumo.creditos, classe: "text-success" },
+            { rotulo: "Débitos", valor: resumo.debitos, classe: "text-destructive" },
+            { rotulo: "Saldo final", valor: resumo.saldoFinal },
+          ].map((item) => (
+            <div key={item.rotulo} className="rounded-2xl border border-border/40 bg-card/60 p-4">
+              <p className="text-xs text-muted-foreground">{item.rotulo}</p>
+              <p className={cn("text-xl font-bold text-foreground", item.classe)}>
+                {currencyFormatter.format(item.valor)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+      {resumo && resumo.reservadoFinal > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {currencyFormatter.format(resumo.reservadoFinal)} reservado para pagamento ao fim do período.
+        </p>
+      )}
+
+      {/* Lançamentos */}
+      <div className="rounded-2xl border border-border/40 bg-card/60">
+        {isLoading && !data ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="p-6 text-sm text-destructive">Não foi possível carregar o extrato.</p>
+        ) : !data || data.lancamentos.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">Nenhum lançamento no período.</p>
+        ) : (
+          <div className="divide-y divide-border/40">
+            {data.lancamentos.map((lancamento) => {
+              const comissao = lancamento.tipo === "COMISSAO_GERENTE";
+              return (
+                <div key={lancamento.id} className="flex flex-wrap items-start justify-between gap-3 p-4 text-sm">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="rounded-md bg-muted/50 px-2 py-0.5 text-xs font-semibold text-foreground">
+                        {ROTULOS_LANCAMENTO[lancamento.tipo]}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(lancamento.criadoEm), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                      </span>
+                      {lancamento.numeroLote && (
+                        <span className="text-xs text-muted-foreground">Lote {lancamento.numeroLote}</span>
+                      )}
+                    </div>
+                    <p className="text-foreground">{lancamento.descricao}</p>
+                    {lancamento.envios.length > 0 && (
+                      <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                        {lancamento.envios.map((envio) => (
+                          <li key={envio.id}>
+                            Pedido {envio.numeroPedido}
+                            {comissao && ` • ${envio.vendedorNome}`}
+                            {!comissao && envio.multiplicador !== 1 && ` • ${envio.multiplicador}x`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    {lancamento.valor !== 0 && (
+                      <p className={cn("font-bold", lancamento.valor > 0 ? "text-success" : "text-destructive")}>
+                        {lancamento.valor > 0 && "+"}
+                        {currencyFormatter.format(lancamento.valor)}
+                      </p>
+                    )}
+                    {lancamento.valorReservado !== 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        Reservado {lancamento.valorReservado > 0 && "+"}
+                        {currencyFormatter.format(lancamento.valorReservado)}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Saldo {currencyFormatter.format(lancamento.saldoApos)}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {paginacao && paginacao.totalPaginas > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm">
+          <button
+            onClick={() => setPagina((p) => p - 1)}
+            disabled={pagina <= 1}
+            className="rounded-lg border border-border p-2 hover:bg-muted/40 disabled:opacity-50"
+            title="Página anterior"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <span className="text-muted-foreground">
+            Página {paginacao.pagina} de {paginacao.totalPaginas}
+          </span>
+          <button
+            onClick={() => setPagina((p) => p + 1)}
+            disabled={pagina >= paginacao.totalPaginas}
+            className="rounded-lg border border-border p-2 hover:bg-muted/40 disabled:opacity-50"
+            title="Próxima página"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -24,6 +24,8 @@ import type { DashboardGerenteCompleto } from "@/types/dashboard-gerente";
 
 // Componentes
 import { ComissaoHeroCard } from "@/components/dashboard/gerente/comissao-hero-card";
+import { ExtratoComissoesCard } from "@/components/dashboard/gerente/extrato-comissoes-card";
+import { SolicitarResgate } from "@/components/dashboard/SolicitarResgate";
 import { PerformanceEquipeCard } from "@/components/dashboard/gerente/performance-equipe-card";
 import { AlertasEquipeCard } from "@/components/dashboard/gerente/alertas-equipe-card";
 import { TopPerformersCarousel, PipelineVendasCard } from "@/components/dashboard/gerente/top-performers-pipeline";
@@ -227,6 +229,12 @@ export default function DashboardGerentePage() {
           {/* 1. HERO SECTION - Comissão */}
           <ComissaoHeroCard comissao={data.comissao} />
 
+          {/* 1.0 RESGATE DO SALDO (comissão disponível) */}
+          <SolicitarResgate onSaldoAlterado={() => mutate()} />
+
+          {/* 1.1 EXTRATO DE COMISSÕES (regra de cada crédito) */}
+          <ExtratoComissoesCard />
+
           {/* 2. PERFORMANCE EXPANDIDA (Grid 1 coluna) */}
           <div className="w-full">
             <PerformanceEquipeCard performance={data.performance} />
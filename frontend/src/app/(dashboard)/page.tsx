@@ -117,7 +117,7 @@ export default function DashboardPage() {
   /**
    * Hook de busca de dados (SWR) - Dashboard Completo (apenas Vendedor)
    */
-  const { data: dashboardCompleto, error: erroDashboard } = useSWR(
+  const { data: dashboardCompleto, error: erroDashboard, mutate: recarregarDashboard } = useSWR(
     usuario?.papel === "VENDEDOR" ? "/dashboard/vendedor/completo" : null,
     fetcher,
     { revalidateOnFocus: false }
@@ -171,7 +171,7 @@ export default function DashboardPage() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.5 }}
             >
-              <SaldoCard saldo={dashboardCompleto.saldo} />
+              <SaldoCard saldo={dashboardCompleto.saldo} onSaldoAlterado={() => recarregarDashboard()} />
             </motion.div>
 
             {/* Campanhas Ativas Carousel */}
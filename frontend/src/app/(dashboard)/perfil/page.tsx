@@ -22,6 +22,7 @@ import { useAuth } from "@/contexts/ContextoAutenticacao";
 import { AlterarSenhaCard } from "@/components/perfil/AlterarSenhaCard";
 import { InformacoesPerfilCard } from "@/components/perfil/InformacoesPerfilCard";
 import { InfoOticaCard } from "@/components/perfil/InfoOticaCard";
+import { ChavePixCard } from "@/components/perfil/ChavePixCard";
 import { motion } from "framer-motion";
 import { UserCircle2, Sparkles } from "lucide-react";
 
@@ -98,7 +99,16 @@ export default function PerfilPage() {
           <InformacoesPerfilCard />
         </motion.div>
 
-        {/* Linha 2: Info Ótica e Alterar Senha - Lado a Lado em Telas Grandes */}
+        {/* Linha 2: Chave PIX para recebimento (apenas para VENDEDOR e GERENTE) */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.55, duration: 0.6, ease: "easeOut" }}
+        >
+          <ChavePixCard />
+        </motion.div>
+
+        {/* Linha 3: Info Ótica e Alterar Senha - Lado a Lado em Telas Grandes */}
         <motion.div
           className="grid grid-cols-1 lg:grid-cols-2 gap-8"
           initial={{ opacity: 0, y: 20 }}
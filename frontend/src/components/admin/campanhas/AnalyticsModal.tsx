@@ -22,10 +22,15 @@ import {
   Zap,
   Award,
   Activity,
+  Undo2,
 } from 'lucide-react';
+import { AxiosError } from 'axios';
 import api from '@/lib/axios';
 import toast from 'react-hot-toast';
 import { formatarDataBR, formatarDataCurtaBR, formatarMoeda, formatarNumero } from '@/lib/timezone';
+import OrcamentoCampanhaPainel, { OrcamentoCampanha } from './OrcamentoCampanhaPainel';
+import RegrasComissaoPainel from './RegrasComissaoPainel';
+import RecalculoRecompensaPainel from './RecalculoRecompensaPainel';
 
 interface AnalyticsModalProps {
   isOpen: boolean;
@@ -74,7 +79,9 @@ interface AnalyticsData {
     multiplicadorAplicado?: number;
     valorFinalComEvento?: number;
     pontosAdicionadosAoSaldo?: boolean;
+    acimaLimiteCartelas?: boolean; // Além do limite de cartelas: sem recompensa
   }>;
+  orcamento: OrcamentoCampanha | null;
 }
 
 const STATUS_COLORS = {
@@ -103,6 +110,7 @@ export default function AnalyticsModal({
   const [statusFilter, setStatusFilter] = useState<string>('TODOS');
   const [activeTab, setActiveTab] = useState<'kpis' | 'ranking' | 'grafico' | 'envios'>('kpis');
   const [rejeitandoEnvioId, setRejeitandoEnvioId] = useState<string | null>(null);
+  const [estornandoEnvioId, setEstornandoEnvioId] = useState<string | null>(null);
   const [motivoRejeicao, setMotivoRejeicao] = useState('');
   const [processandoEnvioId, setProcessandoEnvioId] = useState<string | null>(null);
 
@@ -128,6 +136,7 @@ export default function AnalyticsModal({
         rankingVendedores: Array.isArray(raw.rankingVendedores) ? raw.rankingVendedores : [],
         evolucaoTemporal: Array.isArray(raw.evolucaoTemporal) ? raw.evolucaoTemporal : [],
         envios: Array.isArray(raw.envios) ? raw.envios : [],
+        orcamento: raw.orcamento ?? null,
       };
       setData(normalized);
     } catch (error: any) {
@@ -184,6 +193,43 @@ export default function AnalyticsModal({
     }
   };
 
+  const handleEstornarEnvio = async (envioId: string) => {
+    if (motivoRejeicao.trim().length < 5) {
+      toast.error('O motivo do estorno deve ter pelo menos 5 caracteres');
+      return;
+    }
+
+    if (processandoEnvioId) return;
+
+    setProcessandoEnvioId(envioId);
+    try {
+      const { data: estorno } = await api.patch(`/envios-venda/${envioId}/estornar`, {
+        motivo: motivoRejeicao.trim(),
+      });
+      const debitado = (estorno.debitos ?? []).reduce(
+        (acc: number, debito: { valor: number }) => acc + Number(debito.valor),
+        0
+      );
+      const saldoNegativo = (estorno.debitos ?? []).some(
+        (debito: { saldoAtual: number }) => Number(debito.saldoAtual) < 0
+      );
+      toast.success(
+        debitado > 0
+          ? `Envio estornado. ${formatarMoeda(debitado)} debitados${saldoNegativo ? ' (saldo negativo será descontado no próximo lote)' : ''}.`
+          : 'Envio estornado com sucesso!'
+      );
+      setEstornandoEnvioId(null);
+      setMotivoRejeicao('');
+      await fetchAnalytics();
+    } catch (error) {
+      console.error('Erro ao estornar envio:', error);
+      const mensagem = (error as AxiosError<{ message?: string }>).response?.data?.message;
+      toast.error(mensagem || 'Erro ao estornar envio');
+    } finally {
+      setProcessandoEnvioId(null);
+    }
+  };
+
   if (!isOpen) return null;
 
   const filteredEnvios = (data?.envios ?? []).filter((envio) => {
@@ -345,6 +391,21 @@ export default function AnalyticsModal({
                     />
                   </div>
 
+                  {/* Orçamento da Campanha */}
+                  {data.orcamento && (
+                    <OrcamentoCampanhaPainel
+                      campanhaId={campanhaId}
+                      orcamento={data.orcamento}
+                      onAtualizado={fetchAnalytics}
+                    />
+                  )}
+
+                  {/* Regras de Comissão de Gerentes */}
+                  <RegrasComissaoPainel campanhaId={campanhaId} />
+
+                  {/* Recálculo de Recompensas (spillover e créditos) */}
+                  <RecalculoRecompensaPainel campanhaId={campanhaId} onCorrigido={fetchAnalytics} />
+
                   {/* Seção de Pontos Ultra Detalhada */}
                   <div className="space-y-4">
                     <div className="flex items-center gap-2 mb-2">
@@ -630,9 +691,19 @@ export default function AnalyticsModal({
                               </td>
                               <td className="text-center p-3">
                                 {envio.numeroCartelaAtendida ? (
-                                  <span className="px-2 py-1 bg-primary/10 text-primary rounded-lg text-xs font-semibold border border-primary/20">
-                                    C{envio.numeroCartelaAtendida}
-                                  </span>
+                                  <div className="flex flex-col items-center gap-0.5">
+                                    <span className="px-2 py-1 bg-primary/10 text-primary rounded-lg text-xs font-semibold border border-primary/20">
+                                      C{envio.numeroCartelaAtendida}
+                                    </span>
+                                    {envio.acimaLimiteCartelas && (
+                                      <span
+                                        className="text-[10px] font-semibold text-amber-600 dark:text-amber-400"
+                                        title="Alocado além do limite de cartelas da campanha: não gera pontos"
+                                      >
+                                        Acima do limite
+                                      </span>
+                                    )}
+                                  </div>
                                 ) : (
                                   <span className="text-muted-foreground text-xs">-</span>
                                 )}
@@ -654,19 +725,28 @@ export default function AnalyticsModal({
                                 )}
                               </td>
                               <td className="p-3 text-xs text-muted-foreground max-w-xs">
-                                {envio.status === 'EM_ANALISE' && rejeitandoEnvioId === envio.id ? (
+                                {(envio.status === 'EM_ANALISE' && rejeitandoEnvioId === envio.id) ||
+                                (envio.status === 'VALIDADO' && estornandoEnvioId === envio.id) ? (
                                   <div className="space-y-2">
                                     <textarea
                                       value={motivoRejeicao}
                                       onChange={(e) => setMotivoRejeicao(e.target.value)}
-                                      placeholder="Motivo da rejeição..."
+                                      placeholder={
+                                        estornandoEnvioId === envio.id
+                                          ? 'Motivo do estorno (cancelamento, devolução)...'
+                                          : 'Motivo da rejeição...'
+                                      }
                                       className="w-full px-2 py-1 glass border border-border rounded text-xs resize-none focus:outline-none focus:ring-2 focus:ring-red-500"
                                       rows={2}
                                       autoFocus
                                     />
                                     <div className="flex gap-2">
                                       <button
-                                        onClick={() => handleRejeitarEnvio(envio.id)}
+                                        onClick={() =>
+                                          estornandoEnvioId === envio.id
+                                            ? handleEstornarEnvio(envio.id)
+                                            : handleRejeitarEnvio(envio.id)
+                                        }
                                         disabled={processandoEnvioId === envio.id || !motivoRejeicao.trim()}
                                         className="px-3 py-1.5 bg-gradient-to-r from-red-500 to-rose-500 text-white rounded-lg text-xs font-semibold hover:shadow-lg hover:shadow-red-500/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                                       >
@@ -675,6 +755,7 @@ export default function AnalyticsModal({
                                       <button
                                         onClick={() => {
                                           setRejeitandoEnvioId(null);
+                                          setEstornandoEnvioId(null);
                                           setMotivoRejeicao('');
                                         }}
                                         disabled={processandoEnvioId === envio.id}
@@ -729,7 +810,23 @@ export default function AnalyticsModal({
                                     </button>
                                   </div>
                                 )}
-                                {envio.status !== 'EM_ANALISE' && (
+                                {envio.status === 'VALIDADO' && estornandoEnvioId !== envio.id && (
+                                  <div className="flex justify-center">
+                                    <button
+                                      onClick={() => {
+                                        setRejeitandoEnvioId(null);
+                                        setMotivoRejeicao('');
+                                        setEstornandoEnvioId(envio.id);
+                                      }}
+                                      disabled={processandoEnvioId === envio.id}
+                                      className="p-2 bg-gradient-to-r from-amber-500 to-orange-500 text-white rounded-lg hover:shadow-lg hover:shadow-orange-500/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                      title="Estornar envio (pedido cancelado ou devolvido)"
+                                    >
+                                      <Undo2 className="h-4 w-4" />
+                                    </button>
+                                  </div>
+                                )}
+                                {envio.status !== 'EM_ANALISE' && envio.status !== 'VALIDADO' && (
                                   <span className="text-xs text-muted-foreground">-</span>
                                 )}
                               </td>
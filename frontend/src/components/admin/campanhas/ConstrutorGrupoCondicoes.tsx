@@ -0,0 +1,201 @@
+'use client';
+
+import { Plus, Trash2, CheckCircle2, XCircle, GitBranch } from 'lucide-react';
+import type { CondicaoFormData, GrupoCondicaoFormData } from './CriarCampanhaWizard';
+import {
+  PROFUNDIDADE_MAXIMA_GRUPOS,
+  ROTULOS_CAMPO_CONDICAO,
+  ROTULOS_OPERADOR_CONDICAO,
+  criarCondicaoVazia,
+  criarGrupoCondicoesVazio,
+  type ResultadoGrupoPreview,
+} from '@/lib/regras-condicoes';
+
+interface Props {
+  grupo: GrupoCondicaoFormData;
+  onChange: (grupo: GrupoCondicaoFormData) => void;
+  onRemover?: () => void;
+  profundidade?: number;
+  resultado?: ResultadoGrupoPreview | null;
+}
+
+/**
+ * Editor recursivo de um grupo de condições E/OU (Rule Builder).
+ *
+ * Cada grupo combina suas condições e subgrupos com o operador escolhido.
+ * Quando `resultado` é informado (preview com linha de teste), mostra ✓/✗
+ * por condição e por grupo.
+ */
+export default function ConstrutorGrupoCondicoes({
+  grupo,
+  onChange,
+  onRemover,
+  profundidade = 1,
+  resultado,
+}: Props) {
+  const atualizarCondicao = (indice: number, alteracao: Partial<CondicaoFormData>) => {
+    onChange({
+      ...grupo,
+      condicoes: grupo.condicoes.map((condicao, i) => (i === indice ? { ...condicao, ...alteracao } : condicao)),
+    });
+  };
+
+  const removerCondicao = (indice: number) => {
+    onChange({ ...grupo, condicoes: grupo.condicoes.filter((_, i) => i !== indice) });
+  };
+
+  const atualizarSubgrupo = (indice: number, subgrupo: GrupoCondicaoFormData) => {
+    onChange({ ...grupo, subgrupos: grupo.subgrupos.map((sub, i) => (i === indice ? subgrupo : sub)) });
+  };
+
+  const removerSubgrupo = (indice: number) => {
+    onChange({ ...grupo, subgrupos: grupo.subgrupos.filter((_, i) => i !== indice) });
+  };
+
+  const corBorda = grupo.operadorLogico === 'OU' ? 'border-amber-400/60' : 'border-purple-400/60';
+
+  return (
+    <div className={`rounded-xl border-2 border-dashed ${corBorda} p-3 space-y-3 bg-white/50 dark:bg-gray-900/30`}>
+      {/* Cabeçalho do grupo */}
+      <div className="flex flex-wrap items-center gap-2">
+        <GitBranch className="w-4 h-4 text-muted-foreground" />
+        <div className="inline-flex rounded-lg border border-border overflow-hidden text-xs font-semibold">
+          {(['E', 'OU'] as const).map((operador) => (
+            <button
+              key={operador}
+              type="button"
+              onClick={() => onChange({ ...grupo, operadorLogico: operador })}
+              className={`px-3 py-1 transition-colors ${
+                grupo.operadorLogico === operador
+                  ? operador === 'E'
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-amber-500 text-white'
+                  : 'bg-transparent text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              {operador === 'E' ? 'Todas (E)' : 'Qualquer uma (OU)'}
+            </button>
+          ))}
+        </div>
+        {resultado && (
+          <span
+            className={`inline-flex items-center gap-1 text-xs font-semibold ${
+              resultado.atendido ? 'text-green-600' : 'text-red-600'
+            }`}
+          >
+            {resultado.atendido ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {resultado.atendido ? 'Grupo atendido' : 'Grupo não atendido'}
+          </span>
+        )}
+        {onRemover && (
+          <button
+            type="button"
+            onClick={onRemover}
+            className="ml-auto p-1.5 rounded-lg text-red-500 hover:bg-red-500/10 transition-colors"
+            title="Remover grupo"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Condições */}
+      {grupo.condicoes.map((condicao, indice) => {
+        const atendida = resultado?.condicoes[indice];
+        return (
+          <div key={indice} className="flex flex-wrap items-center gap-2">
+            <select
+              value={condicao.campo}
+              onChange={(e) => atualizarCondicao(indice, { campo: e.target.value as CondicaoFormData['campo'] })}
+              className="px-2 py-1.5 rounded-lg border border-border bg-background text-sm"
+            >
+              {Object.entries(ROTULOS_CAMPO_CONDICAO).map(([valor, rotulo]) => (
+                <option key={valor} value={valor}>
+                  {rotulo}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condicao.operador}
+              onChange={(e) =>
+                atualizarCondicao(indice, { operador: e.target.value as CondicaoFormData['operador'] })
+              }
+              className="px-2 py-1.5 rounded-lg border border-border bg-background text-sm"
+            >
+              {Object.entries(ROTULOS_OPERADOR_CONDICAO).map(([valor, rotulo]) => (
+                <option key={valor} value={valor}>
+                  {rotulo}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={Array.isArray(condicao.valor) ? condicao.valor.join(',') : condicao.valor}
+              onChange={(e) => atualizarCondicao(indice, { valor: e.target.value })}
+              placeholder={
+                condicao.operador === 'MAIOR_QUE' || condicao.operador === 'MENOR_QUE'
+                  ? 'Ex: 300 ou 1.250,00'
+                  : 'Valor (alternativas separadas por vírgula)'
+              }
+              className="flex-1 min-w-[180px] px-3 py-1.5 rounded-lg border border-border bg-background text-sm"
+            />
+            {atendida === true && <CheckCircle2 className="w-4 h-4 text-green-600" />}
+            {atendida === false && <XCircle className="w-4 h-4 text-red-600" />}
+            <button
+              type="button"
+              onClick={() => removerCondicao(indice)}
+              className="p-1.5 rounded-lg text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors"
+              title="Remover condição"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+
+      {/* Subgrupos */}
+      {grupo.subgrupos.map((subgrupo, indice) => (
+        <div key={indice} className="pl-4">
+          <ConstrutorGrupoCondicoes
+            grupo={subgrupo}
+            onChange={(novo) => atualizarSubgrupo(indice, novo)}
+            onRemover={() => removerSubgrupo(indice)}
+            profundidade={profundidade + 1}
+            resultado={resultado?.subgrupos[indice]}
+          />
+        </div>
+      ))}
+
+      {/* Ações */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange({ ...grupo, condicoes: [...grupo.condicoes, criarCondicaoVazia()] })}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-purple-500/10 text-purple-600 hover:bg-purple-500/20 transition-colors"
+        >
+          <Plus className="w-3 h-3" />
+          Condição
+        </button>
+        <button
+          type="button"
+          disabled={profundidade >= PROFUNDIDADE_MAXIMA_GRUPOS}
+          onClick={() =>
+            onChange({
+              ...grupo,
+              subgrupos: [...grupo.subgrupos, criarGrupoCondicoesVazio(grupo.operadorLogico === 'E' ? 'OU' : 'E')],
+            })
+          }
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-500/10 text-amber-600 hover:bg-amber-500/20 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title={
+            profundidade >= PROFUNDIDADE_MAXIMA_GRUPOS
+              ? `Máximo de ${PROFUNDIDADE_MAXIMA_GRUPOS} níveis de grupos`
+              : 'Adicionar subgrupo'
+          }
+        >
+          <Plus className="w-3 h-3" />
+          Subgrupo
+        </button>
+      </div>
+    </div>
+  );
+}
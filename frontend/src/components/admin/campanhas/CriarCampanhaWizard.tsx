@@ -38,6 +38,11 @@ import Step4EventosEspeciais from './wizard-steps/Step4EventosEspeciais';
 import Step5Regras from './wizard-steps/Step5Regras';
 import Step6Revisao from './wizard-steps/Step6Revisao';
 import PreviewCampanha from './PreviewCampanha';
+import {
+  montarGrupoCondicoesFormData,
+  contarCondicoesGrupo,
+  serializarGrupoCondicoes,
+} from '@/lib/regras-condicoes';
 
 const timeZone = 'America/Sao_Paulo';
 
@@ -70,16 +75,26 @@ export interface WizardState {
   paraTodasOticas: boolean;
   oticasAlvoIds: string[];
   matrizesSelecionadasIds: string[];
+  nivelMinimo: 'BRONZE' | 'PRATA' | 'OURO' | 'DIAMANTE' | ''; // '' = todos os níveis
+  multiplicadoresNivel: Record<string, number>; // { OURO: 1.1 } - níveis ausentes usam 1x
 
   // Step 3: Cartelas e Requisitos
   modoCartelas: 'MANUAL' | 'AUTO_REPLICANTE';
   tipoIncremento: 'SEM_INCREMENTO' | 'MULTIPLICADOR';
   fatorIncremento: number;
-  limiteCartelas: number | null;
+  limiteCartelas: number | null; // Máximo de cartelas por vendedor (null = ilimitado)
+  curvaRecompensa: FaixaCurvaFormData[]; // [] = 100% em todas as cartelas
   cartelas: CartelaFormData[];
 
   // Step 4: Eventos Especiais
   eventosEspeciais: EventoEspecialFormData[];
+  politicaEventos: 'MAIOR' | 'MULTIPLICAR' | 'SOMAR'; // Eventos sobrepostos no mesmo envio
+}
+
+// A partir da cartela `cartela`, os envios valem `percentual`% (até a próxima faixa)
+export interface FaixaCurvaFormData {
+  cartela: number;
+  percentual: number;
 }
 
 export interface CartelaFormData {
@@ -99,27 +114,64 @@ export interface RequisitoFormData {
   importSessionId?: string; // ID da sessão de staging para este requisito
   quantidadeStaging?: number; // Quantidade de produtos na sessão de staging (para exibição na UI)
   maxPontos?: number; // Maior valor de pontos encontrado nos produtos deste requisito
-  // DEPRECADO: Condições removidas (validação agora é 100% por produtos)
+  // DEPRECADO: Condições soltas (combinadas com E); use grupoCondicoes
   condicoes?: CondicaoFormData[];
+  // Rule Builder: grupo raiz E/OU (configurado no Step 5)
+  grupoCondicoes?: GrupoCondicaoFormData;
 }
 
 export interface CondicaoFormData {
-  campo: 'NOME_PRODUTO' | 'CODIGO_PRODUTO' | 'VALOR_VENDA' | 'CATEGORIA_PRODUTO' | 'CODIGO_DA_REFERENCIA';
+  campo: 'NOME_PRODUTO' | 'CODIGO_PRODUTO' | 'VALOR_VENDA' | 'CODIGO_DA_REFERENCIA';
   operador: 'CONTEM' | 'NAO_CONTEM' | 'IGUAL_A' | 'NAO_IGUAL_A' | 'MAIOR_QUE' | 'MENOR_QUE';
   valor: string | string[];
 }
 
+export interface GrupoCondicaoFormData {
+  operadorLogico: 'E' | 'OU';
+  condicoes: CondicaoFormData[];
+  subgrupos: GrupoCondicaoFormData[];
+}
+
 export interface EventoEspecialFormData {
   id?: string; // ID do evento (apenas para edição)
   nome: string;
   descricao: string;
   multiplicador: number;
+  tipoBonus: 'MULTIPLICADOR' | 'VALOR_FIXO';
+  valorFixo: number; // R$ por envio (apenas VALOR_FIXO)
+  // Abrangência (listas vazias = sem restrição)
+  oticasIds: string[];
+  estados: string[];
+  ordensRequisito: number[];
+  codigosProduto: string[];
   dataInicio: string;
   dataFim: string;
   ativo: boolean;
   corDestaque: string;
 }
 
+// Evento do formulário → payload da API (datas no fuso de São Paulo)
+const eventoParaPayload = (evento: EventoEspecialFormData) => ({
+  nome: evento.nome,
+  descricao: evento.descricao,
+  tipoBonus: evento.tipoBonus,
+  ...(evento.tipoBonus === 'VALOR_FIXO'
+    ? { valorFixo: Number(evento.valorFixo) }
+    : { multiplicador: Number(evento.multiplicador) }),
+  oticasIds: evento.oticasIds,
+  estados: evento.estados,
+  ordensRequisito: evento.ordensRequisito,
+  codigosProduto: evento.codigosProduto,
+  dataInicio: fromZonedTime(new Date(evento.dataInicio + 'T00:00:00'), timeZone).toISOString(),
+  dataFim: fromZonedTime(new Date(evento.dataFim + 'T23:59:59'), timeZone).toISOString(),
+  ativo: !!evento.ativo,
+  corDestaque: evento.corDestaque,
+});
+
+// Curva do formulário → payload da API (120% → fator 1.2)
+const curvaParaPayload = (curva: FaixaCurvaFormData[]) =>
+  curva.map((faixa) => ({ cartela: Number(faixa.cartela), fator: Number(faixa.percentual) / 100 }));
+
 const initialState: WizardState = {
   titulo: '',
   descricao: '',
@@ -138,10 +190,13 @@ const initialState: WizardState = {
   paraTodasOticas: true,
   oticasAlvoIds: [],
   matrizesSelecionadasIds: [],
+  nivelMinimo: '',
+  multiplicadoresNivel: {},
   modoCartelas: 'AUTO_REPLICANTE',
   tipoIncremento: 'SEM_INCREMENTO',
   fatorIncremento: 0,
   limiteCartelas: null,
+  curvaRecompensa: [],
   cartelas: [
     {
       numeroCartela: 1,
@@ -162,6 +217,7 @@ const initialState: WizardState = {
     },
   ],
   eventosEspeciais: [],
+  politicaEventos: 'MAIOR',
 };
 
 export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campanhaParaEditar }: Props) {
@@ -223,14 +279,18 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
               pontosReais: Number(p.pontosReais),
             })),
             importSessionId: req.importSessionId || undefined,
-            // DEPRECADO: Condições (mantido para compatibilidade)
-            condicoes: (req.condicoes || []).map((cond: any) => ({
-              campo: cond.campo,
-              operador: cond.operador,
-              valor: cond.campo === 'CODIGO_DA_REFERENCIA' && cond.valor.includes(',')
-                ? cond.valor.split(',').map((v: string) => v.trim())
-                : cond.valor,
-            })),
+            // DEPRECADO: Condições soltas (mantido para compatibilidade)
+            condicoes: (req.condicoes || [])
+              .filter((cond: { grupoId?: string | null }) => !cond.grupoId)
+              .map((cond: any) => ({
+                campo: cond.campo,
+                operador: cond.operador,
+                valor: cond.campo === 'CODIGO_DA_REFERENCIA' && cond.valor.includes(',')
+                  ? cond.valor.split(',').map((v: string) => v.trim())
+                  : cond.valor,
+              })),
+            // Rule Builder: reconstruir a árvore E/OU a partir das listas planas
+            grupoCondicoes: montarGrupoCondicoesFormData(req.condicoes || [], req.gruposCondicao || []),
           })),
         }));
 
@@ -240,6 +300,12 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
           nome: evento.nome,
           descricao: evento.descricao,
           multiplicador: Number(evento.multiplicador),
+          tipoBonus: evento.tipoBonus || 'MULTIPLICADOR',
+          valorFixo: Number(evento.valorFixo || 0),
+          oticasIds: evento.oticasIds || [],
+          estados: evento.estados || [],
+          ordensRequisito: evento.ordensRequisito || [],
+          codigosProduto: evento.codigosProduto || [],
           dataInicio: format(toZonedTime(new Date(evento.dataInicio), timeZone), 'yyyy-MM-dd'),
           dataFim: format(toZonedTime(new Date(evento.dataFim), timeZone), 'yyyy-MM-dd'),
           ativo: evento.ativo,
@@ -264,13 +330,20 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
           paraTodasOticas: campanhaCompleta.paraTodasOticas || false,
           oticasAlvoIds,
           matrizesSelecionadasIds: [], // Será preenchido pelo Step2Targeting
+          nivelMinimo: campanhaCompleta.nivelMinimo || '',
+          multiplicadoresNivel: campanhaCompleta.multiplicadoresNivel || {},
           cartelas: cartelas.length > 0 ? cartelas : initialState.cartelas,
           eventosEspeciais,
+          politicaEventos: campanhaCompleta.politicaEventos || 'MAIOR',
           // Manter configurações de wizard padrão
           modoCartelas: initialState.modoCartelas,
           tipoIncremento: initialState.tipoIncremento,
           fatorIncremento: initialState.fatorIncremento,
-          limiteCartelas: initialState.limiteCartelas,
+          limiteCartelas: campanhaCompleta.limiteCartelas ?? null,
+          curvaRecompensa: (campanhaCompleta.curvaRecompensa || []).map((faixa: { cartela: number; fator: number }) => ({
+            cartela: faixa.cartela,
+            percentual: Math.round(Number(faixa.fator) * 100), // CONVERSÃO: 1.2 → 120%
+          })),
         });
 
         toast.success('Dados da campanha carregados com sucesso!');
@@ -325,28 +398,15 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
         // Eventos a adicionar (não têm ID)
         const eventosAdicionar = eventosAtuais
           .filter((e: any) => !e.id)
-          .map((evento: any) => ({
-            nome: evento.nome,
-            descricao: evento.descricao,
-            multiplicador: Number(evento.multiplicador),
-            dataInicio: fromZonedTime(new Date(evento.dataInicio + 'T00:00:00'), timeZone).toISOString(),
-            dataFim: fromZonedTime(new Date(evento.dataFim + 'T23:59:59'), timeZone).toISOString(),
-            ativo: !!evento.ativo,
-            corDestaque: evento.corDestaque,
-          }));
+          .map(eventoParaPayload);
 
         // Eventos a atualizar (têm ID e ainda existem)
         const eventosAtualizar = eventosAtuais
           .filter((e: any) => e.id && eventosIdsOriginais.includes(e.id))
           .map((evento: any) => ({
             id: evento.id,
-            nome: evento.nome,
-            descricao: evento.descricao,
-            multiplicador: Number(evento.multiplicador),
-            dataInicio: fromZonedTime(new Date(evento.dataInicio + 'T00:00:00'), timeZone).toISOString(),
-            dataFim: fromZonedTime(new Date(evento.dataFim + 'T23:59:59'), timeZone).toISOString(),
-            ativo: !!evento.ativo,
-            corDestaque: evento.corDestaque,
+            ...eventoParaPayload(evento),
+            ...(evento.tipoBonus === 'VALOR_FIXO' ? {} : { valorFixo: null }),
           }));
 
         // Eventos a remover (estavam no original mas não estão mais)
@@ -362,6 +422,11 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
           pontosReaisMaximo: Number(state.pontosReaisMaximo),
           percentualGerente: Number(state.percentualGerente) / 100, // CONVERSÃO: 10% → 0.1
           paraTodasOticas: !!state.paraTodasOticas,
+          nivelMinimo: state.nivelMinimo || null, // null remove a restrição
+          multiplicadoresNivel: state.multiplicadoresNivel, // {} remove os multiplicadores
+          politicaEventos: state.politicaEventos,
+          curvaRecompensa: curvaParaPayload(state.curvaRecompensa), // [] remove a curva
+          limiteCartelas: state.limiteCartelas, // null = ilimitado
           ...(state.tipoPedido ? { tipoPedido: state.tipoPedido } : {}),
           ...(state.regras ? { regras: state.regras } : {}),
           ...(state.tags && state.tags.length > 0 ? { tags: state.tags } : {}),
@@ -409,15 +474,7 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
         // ======================================================================
         console.log('✨ Modo Criação - Preparando dados...');
 
-        const eventosEspeciais = state.eventosEspeciais.map((evento) => ({
-          nome: evento.nome,
-          descricao: evento.descricao,
-          multiplicador: Number(evento.multiplicador),
-          dataInicio: fromZonedTime(new Date(evento.dataInicio + 'T00:00:00'), timeZone).toISOString(),
-          dataFim: fromZonedTime(new Date(evento.dataFim + 'T23:59:59'), timeZone).toISOString(),
-          ativo: !!evento.ativo,
-          corDestaque: evento.corDestaque,
-        }));
+        const eventosEspeciais = state.eventosEspeciais.map(eventoParaPayload);
 
         // Sprint 21: Mapear cartelas com produtos por requisito
         const cartelasParaEnvio = state.cartelas.map((cartela) => ({
@@ -439,6 +496,10 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
                   : condicao.valor,
               })),
             } : {}),
+            // Rule Builder: grupo raiz E/OU (omitido se não tiver condições)
+            ...(requisito.grupoCondicoes && contarCondicoesGrupo(requisito.grupoCondicoes) > 0 ? {
+              grupoCondicoes: serializarGrupoCondicoes(requisito.grupoCondicoes),
+            } : {}),
           })),
         }));
 
@@ -450,9 +511,14 @@ export default function CriarCampanhaWizard({ isOpen, onClose, onSuccess, campan
           pontosReaisMaximo: Number(state.pontosReaisMaximo),
           percentualGerente: Number(state.percentualGerente) / 100, // CONVERSÃO: 10% → 0.1
           paraTodasOticas: !!state.paraTodasOticas,
+          politicaEventos: state.politicaEventos,
           cartelas: cartelasParaEnvio,
+          ...(state.curvaRecompensa.length > 0 ? { curvaRecompensa: curvaParaPayload(state.curvaRecompensa) } : {}),
+          ...(state.limiteCartelas ? { limiteCartelas: state.limiteCartelas } : {}),
           // Sprint 21: produtosCampanha REMOVIDO - produtos agora são sempre por requisito
           ...(state.tipoPedido ? { tipoPedido: state.tipoPedido } : {}),
+          ...(state.nivelMinimo ? { nivelMinimo: state.nivelMinimo } : {}),
+          ...(Object.keys(state.multiplicadoresNivel).length > 0 ? { multiplicadoresNivel: state.multiplicadoresNivel } : {}),
           ...(state.regras ? { regras: state.regras } : {}),
           ...(state.tags && state.tags.length > 0 ? { tags: state.tags } : {}),
           ...(eventosEspeciais.length > 0 ? { eventosEspeciais } : {}),
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, PiggyBank, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+import { formatarMoeda } from '@/lib/timezone';
+
+export type PoliticaOrcamento = 'ENFILEIRAR' | 'BLOQUEAR';
+
+// Espelha o campo `orcamento` de GET /campanhas/:id/analytics
+export interface OrcamentoCampanha {
+  orcamentoMaximo: number | null;
+  politica: PoliticaOrcamento;
+  alertas: number[];
+  alertasEnviados: number[];
+  comprometido: number;
+  comprometidoVendedores: number;
+  comprometidoGerentes: number;
+  revertido: number;
+  disponivel: number | null;
+  percentualConsumido: number | null;
+  enfileiradas: { quantidade: number; valor: number };
+  bloqueadas: { quantidade: number; valor: number };
+}
+
+const ROTULOS_POLITICA: Record<PoliticaOrcamento, string> = {
+  ENFILEIRAR: 'Enfileirar (credita quando o orçamento for ampliado)',
+  BLOQUEAR: 'Bloquear (não paga recompensas além do teto)',
+};
+
+interface OrcamentoCampanhaPainelProps {
+  campanhaId: string;
+  orcamento: OrcamentoCampanha;
+  onAtualizado: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: OrcamentoCampanhaPainel
+// Consumo do orçamento da campanha e configuração de teto, política e alertas
+// ============================================================================
+export default function OrcamentoCampanhaPainel({
+  campanhaId,
+  orcamento,
+  onAtualizado,
+}: OrcamentoCampanhaPainelProps) {
+  const [teto, setTeto] = useState(orcamento.orcamentoMaximo?.toString() ?? '');
+  const [politica, setPolitica] = useState<PoliticaOrcamento>(orcamento.politica);
+  const [alertas, setAlertas] = useState(orcamento.alertas.join(', '));
+  const [salvando, setSalvando] = useState(false);
+
+  const percentual = Math.min(orcamento.percentualConsumido ?? 0, 100);
+  const corBarra =
+    percentual >= 100 ? 'bg-red-500' : percentual >= 90 ? 'bg-orange-500' : percentual >= 70 ? 'bg-amber-500' : 'bg-green-500';
+
+  // ========================================
+  // AÇÃO: Salvar configuração do orçamento
+  // ========================================
+  const handleSalvar = async () => {
+    const alertasNumericos = alertas
+      .split(',')
+      .map((valor) => valor.trim())
+      .filter(Boolean)
+      .map(Number);
+
+    if (alertasNumericos.some((valor) => !Number.isInteger(valor) || valor < 1 || valor > 100)) {
+      toast.error('Os alertas devem ser percentuais inteiros entre 1 e 100');
+      return;
+    }
+
+    setSalvando(true);
+    try {
+      const { data } = await api.patch<OrcamentoCampanha & { liberadas: number }>(
+        `/campanhas/${campanhaId}/orcamento`,
+        {
+          orcamentoMaximo: teto.trim() === '' ? null : Number(teto),
+          politicaOrcamento: politica,
+          alertasOrcamento: alertasNumericos,
+        }
+      );
+      toast.success(
+        data.liberadas > 0
+          ? `Orçamento salvo. ${data.liberadas} recompensa(s) da fila foram creditadas.`
+          : 'Orçamento salvo'
+      );
+      onAtualizado();
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string | string[] }>;
+      const mensagem = axiosError.response?.data?.message;
+      toast.error(Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || 'Erro ao salvar o orçamento');
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  return (
+    <div className="glass rounded-xl p-6 border border-border/50 space-y-4">
+      <div className="flex items-center gap-2">
+        <PiggyBank className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-bold text-foreground">Orçamento da Campanha</h3>
+      </div>
+
+      {orcamento.orcamentoMaximo === null ? (
+        <p className="text-sm text-muted-foreground">
+          Sem teto definido. Comprometido até agora: <strong>{formatarMoeda(orcamento.comprometido)}</strong>
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap justify-between gap-2 text-sm">
+            <span className="text-foreground font-semibold">
+              {formatarMoeda(orcamento.comprometido)} de {formatarMoeda(orcamento.orcamentoMaximo)}
+            </span>
+            <span className="text-muted-foreground">
+              {(orcamento.percentualConsumido ?? 0).toFixed(1)}% · disponível {formatarMoeda(orcamento.disponivel ?? 0)}
+            </span>
+          </div>
+          <div className="h-3 rounded-full bg-muted overflow-hidden">
+            <div className={`h-full ${corBarra} transition-all`} style={{ width: `${percentual}%` }} />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+        <div className="rounded-lg bg-muted/40 p-3">
+          <p className="text-xs text-muted-foreground">Vendedores</p>
+          <p className="font-bold text-foreground">{formatarMoeda(orcamento.comprometidoVendedores)}</p>
+        </div>
+        <div className="rounded-lg bg-muted/40 p-3">
+          <p className="text-xs text-muted-foreground">Comissões de gerentes</p>
+          <p className="font-bold text-foreground">{formatarMoeda(orcamento.comprometidoGerentes)}</p>
+        </div>
+        <div className="rounded-lg bg-muted/40 p-3">
+          <p className="text-xs text-muted-foreground">Retidas (fila / bloqueadas)</p>
+          <p className="font-bold text-foreground">
+            {orcamento.enfileiradas.quantidade} ({formatarMoeda(orcamento.enfileiradas.valor)}) /{' '}
+            {orcamento.bloqueadas.quantidade} ({formatarMoeda(orcamento.bloqueadas.valor)})
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <label className="text-xs font-semibold text-muted-foreground space-y-1">
+          <span>Teto (R$, vazio = sem teto)</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={teto}
+            onChange={(e) => setTeto(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm text-foreground"
+          />
+        </label>
+        <label className="text-xs font-semibold text-muted-foreground space-y-1">
+          <span>Ao atingir o teto</span>
+          <select
+            value={politica}
+            onChange={(e) => setPolitica(e.target.value as PoliticaOrcamento)}
+            className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm text-foreground"
+          >
+            {(Object.keys(ROTULOS_POLITICA) as PoliticaOrcamento[]).map((opcao) => (
+              <option key={opcao} value={opcao}>
+                {ROTULOS_POLITICA[opcao]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-semibold text-muted-foreground space-y-1">
+          <span>Alertas (% separados por vírgula)</span>
+          <input
+            type="text"
+            value={alertas}
+            onChange={(e) => setAlertas(e.target.value)}
+            placeholder="70, 90, 100"
+            className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm text-foreground"
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleSalvar}
+          disabled={salvando}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {salvando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Salvar orçamento
+        </button>
+      </div>
+    </div>
+  );
+}
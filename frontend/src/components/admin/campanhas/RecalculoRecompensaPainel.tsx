@@ -0,0 +1,300 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, Wrench } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+// Espelha GET /campanhas/:id/recalculo
+interface ResumoRecalculoVendedor {
+  vendedorId: string;
+  nome: string;
+  divergente: boolean;
+  enviosRealocados: number;
+  cartelasFaltando: number[];
+  cartelasSobrando: number[];
+  diferenca: number;
+}
+
+// Espelha GET /campanhas/:id/recalculo/:vendedorId
+interface EnvioRecalculado {
+  id: string;
+  numeroPedido: string;
+  ordemRequisito: number;
+  cartelaAtual: number | null;
+  cartelaEsperada: number;
+  creditado: boolean;
+  deveCreditar: boolean;
+  valorEsperado: number;
+  valorRecalculado: boolean;
+}
+
+interface RelatorioRecalculo {
+  vendedor: { id: string; nome: string };
+  totalEnvios: number;
+  envios: EnvioRecalculado[];
+  enviosRealocados: number;
+  cartelas: { concluidas: number[]; esperadas: number[]; faltando: number[]; sobrando: number[] };
+  valores: { creditado: number; esperado: number; diferenca: number };
+  retidasPendentes: number[];
+  possuiSaldoInicial: boolean;
+  divergente: boolean;
+}
+
+const formatarMoeda = (valor: number) =>
+  valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const listaCartelas = (numeros: number[]) => (numeros.length > 0 ? numeros.join(', ') : '—');
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface RecalculoRecompensaPainelProps {
+  campanhaId: string;
+  /** Chamado após aplicar uma correção (para recarregar a análise) */
+  onCorrigido?: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: RecalculoRecompensaPainel
+// Replay das recompensas por vendedor e correção das divergências
+// ============================================================================
+export default function RecalculoRecompensaPainel({ campanhaId, onCorrigido }: RecalculoRecompensaPainelProps) {
+  const [resumos, setResumos] = useState<ResumoRecalculoVendedor[] | null>(null);
+  const [verificando, setVerificando] = useState(false);
+  const [relatorio, setRelatorio] = useState<RelatorioRecalculo | null>(null);
+  const [carregandoVendedor, setCarregandoVendedor] = useState<string | null>(null);
+  const [justificativa, setJustificativa] = useState('');
+  const [aplicando, setAplicando] = useState(false);
+
+  // ========================================
+  // AÇÃO: Verificar todos os vendedores
+  // ========================================
+  const handleVerificarCampanha = async () => {
+    setVerificando(true);
+    setRelatorio(null);
+    try {
+      const { data } = await api.get<ResumoRecalculoVendedor[]>(`/campanhas/${campanhaId}/recalculo`);
+      setResumos(data);
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao verificar recompensas'));
+    } finally {
+      setVerificando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Detalhar um vendedor
+  // ========================================
+  const handleDetalhar = async (vendedorId: string) => {
+    setCarregandoVendedor(vendedorId);
+    try {
+      const { data } = await api.get<RelatorioRecalculo>(`/campanhas/${campanhaId}/recalculo/${vendedorId}`);
+      setRelatorio(data);
+      setJustificativa('');
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao recalcular vendedor'));
+    } finally {
+      setCarregandoVendedor(null);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Aplicar correção
+  // ========================================
+  const handleAplicar = async () => {
+    if (!relatorio) return;
+    if (!confirm(`Aplicar a correção para ${relatorio.vendedor.nome}? O ajuste será lançado no saldo do vendedor.`)) return;
+
+    setAplicando(true);
+    try {
+      const { data } = await api.post<{ valorAjuste: number }>(
+        `/campanhas/${campanhaId}/recalculo/${relatorio.vendedor.id}`,
+        { justificativa },
+      );
+      toast.success(`Correção aplicada. Ajuste de ${formatarMoeda(data.valorAjuste)} no saldo.`);
+      setRelatorio(null);
+      setResumos((prev) =>
+        prev?.map((r) => (r.vendedorId === relatorio.vendedor.id ? { ...r, divergente: false, diferenca: 0 } : r)) ?? null,
+      );
+      onCorrigido?.();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao aplicar correção'));
+    } finally {
+      setAplicando(false);
+    }
+  };
+
+  const divergentes = resumos?.filter((r) => r.divergente) ?? [];
+
+  return (
+    <div className="glass rounded-xl p-6 border border-border/50 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Wrench className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="text-lg font-bold text-foreground">Recálculo de Recompensas</h3>
+            <p className="text-xs text-muted-foreground">
+              Refaz spillover, cartelas concluídas e créditos dos vendedores e compara com o que está gravado
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleVerificarCampanha}
+          disabled={verificando}
+          className="flex items-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40 disabled:opacity-50"
+        >
+          {verificando ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          Verificar vendedores
+        </button>
+      </div>
+
+      {resumos && (
+        <p className="text-sm text-muted-foreground">
+          {divergentes.length === 0 ? (
+            <span className="flex items-center gap-1 text-emerald-600">
+              <CheckCircle2 className="h-4 w-4" /> Nenhuma divergência em {resumos.length} vendedor(es).
+            </span>
+          ) : (
+            <>
+              {divergentes.length} de {resumos.length} vendedor(es) com divergência.
+            </>
+          )}
+        </p>
+      )}
+
+      {divergentes.length > 0 && (
+        <div className="divide-y divide-border/20 rounded-lg bg-muted/40">
+          {divergentes.map((resumo) => (
+            <div key={resumo.vendedorId} className="flex flex-wrap items-center justify-between gap-2 p-3">
+              <div>
+                <p className="text-sm font-semibold text-foreground">{resumo.nome}</p>
+                <p className="text-xs text-muted-foreground">
+                  {resumo.enviosRealocados} envio(s) em cartela errada • faltando: {listaCartelas(resumo.cartelasFaltando)} •
+                  sobrando: {listaCartelas(resumo.cartelasSobrando)} • diferença: {formatarMoeda(resumo.diferenca)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDetalhar(resumo.vendedorId)}
+                disabled={carregandoVendedor !== null}
+                className="flex items-center gap-1 rounded-lg border border-border px-3 py-1 text-xs font-semibold hover:bg-muted/60 disabled:opacity-50"
+              >
+                {carregandoVendedor === resumo.vendedorId && <Loader2 className="h-3 w-3 animate-spin" />}
+                Detalhar
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {relatorio && (
+        <div className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            <p className="text-sm font-semibold text-foreground">
+              {relatorio.vendedor.nome} — {relatorio.totalEnvios} envio(s) validado(s)
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-xs">
+            <div className="rounded-lg bg-background/60 p-2">
+              <p className="text-muted-foreground">Cartelas concluídas (gravadas / esperadas)</p>
+              <p className="font-semibold text-foreground">
+                {listaCartelas(relatorio.cartelas.concluidas)} / {listaCartelas(relatorio.cartelas.esperadas)}
+              </p>
+            </div>
+            <div className="rounded-lg bg-background/60 p-2">
+              <p className="text-muted-foreground">Creditado / esperado</p>
+              <p className="font-semibold text-foreground">
+                {formatarMoeda(relatorio.valores.creditado)} / {formatarMoeda(relatorio.valores.esperado)}
+              </p>
+            </div>
+            <div className="rounded-lg bg-background/60 p-2">
+              <p className="text-muted-foreground">Ajuste a lançar</p>
+              <p
+                className={`font-semibold ${relatorio.valores.diferenca < 0 ? 'text-destructive' : 'text-emerald-600'}`}
+              >
+                {formatarMoeda(relatorio.valores.diferenca)}
+              </p>
+            </div>
+          </div>
+
+          {relatorio.envios.length > 0 && (
+            <div className="max-h-60 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="p-1">Pedido</th>
+                    <th className="p-1">Requisito</th>
+                    <th className="p-1">Cartela (atual → esperada)</th>
+                    <th className="p-1">Crédito</th>
+                    <th className="p-1 text-right">Valor esperado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {relatorio.envios.map((envio) => (
+                    <tr key={envio.id} className="border-t border-border/20">
+                      <td className="p-1 font-medium">{envio.numeroPedido}</td>
+                      <td className="p-1">#{envio.ordemRequisito}</td>
+                      <td className="p-1">
+                        {envio.cartelaAtual ?? '—'} → {envio.cartelaEsperada}
+                      </td>
+                      <td className="p-1">
+                        {envio.creditado === envio.deveCreditar ? 'OK' : envio.deveCreditar ? 'Não creditado' : 'Indevido'}
+                      </td>
+                      <td className="p-1 text-right">
+                        {formatarMoeda(envio.valorEsperado)}
+                        {envio.valorRecalculado && ' *'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-1 text-[11px] text-muted-foreground">* calculado com as regras atuais (eventos e nível)</p>
+            </div>
+          )}
+
+          {relatorio.possuiSaldoInicial && (
+            <p className="text-xs text-amber-600">
+              O vendedor tem saldo migrado anterior ao livro-razão: créditos antigos podem não aparecer como da campanha.
+            </p>
+          )}
+          {relatorio.retidasPendentes.length > 0 && (
+            <p className="text-xs text-amber-600">
+              Recompensas retidas pelo orçamento nas cartelas {relatorio.retidasPendentes.join(', ')}: libere-as antes de
+              corrigir.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">Comissões de gerentes não são recalculadas.</p>
+
+          <textarea
+            value={justificativa}
+            onChange={(e) => setJustificativa(e.target.value)}
+            placeholder="Justificativa da correção (mín. 10 caracteres, aparece no extrato do vendedor)"
+            rows={2}
+            className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-sm text-foreground"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setRelatorio(null)}
+              className="rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40"
+            >
+              Fechar
+            </button>
+            <button
+              onClick={handleAplicar}
+              disabled={aplicando || justificativa.trim().length < 10 || relatorio.retidasPendentes.length > 0}
+              className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+            >
+              {aplicando && <Loader2 className="h-4 w-4 animate-spin" />}
+              Aplicar correção
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
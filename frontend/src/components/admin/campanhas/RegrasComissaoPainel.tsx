@@ -0,0 +1,306 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Save, Trash2, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+type TipoRegraComissao = 'FAIXA_CARTELA' | 'FAIXA_VOLUME_EQUIPE' | 'OVERRIDE_MATRIZ' | 'BONUS_EQUIPE';
+
+// Espelha GET /campanhas/:id/comissoes (campos Decimal chegam como string)
+interface RegraComissao {
+  tipo: TipoRegraComissao;
+  descricao: string;
+  cartelaInicial: number | null;
+  cartelaFinal: number | null;
+  volumeMinimo: string | null;
+  percentual: string | null;
+  numeroCartela: number | null;
+  valorFixo: string | null;
+  ativa: boolean;
+}
+
+interface RegrasComissaoResposta {
+  percentualBase: number;
+  regras: RegraComissao[];
+}
+
+// Linha editável (percentual em %, como no wizard)
+interface RegraForm {
+  tipo: TipoRegraComissao;
+  descricao: string;
+  cartelaInicial: string;
+  cartelaFinal: string;
+  volumeMinimo: string;
+  percentual: string;
+  numeroCartela: string;
+  valorFixo: string;
+  ativa: boolean;
+}
+
+const ROTULOS_TIPO: Record<TipoRegraComissao, string> = {
+  FAIXA_CARTELA: 'Faixa de cartelas',
+  FAIXA_VOLUME_EQUIPE: 'Faixa de volume da equipe',
+  OVERRIDE_MATRIZ: 'Override do gerente da matriz',
+  BONUS_EQUIPE: 'Bônus por equipe completa',
+};
+
+const AJUDA_TIPO: Record<TipoRegraComissao, string> = {
+  FAIXA_CARTELA: 'Substitui o percentual base do gerente direto nas cartelas da faixa.',
+  FAIXA_VOLUME_EQUIPE: 'Substitui o percentual base quando a equipe atinge o volume validado (R$) na campanha.',
+  OVERRIDE_MATRIZ: 'Percentual extra ao gerente da ótica matriz sobre cartelas de vendedores das filiais.',
+  BONUS_EQUIPE: 'Valor fixo ao gerente quando todos os vendedores ativos da equipe concluem a cartela.',
+};
+
+const paraForm = (regra: RegraComissao): RegraForm => ({
+  tipo: regra.tipo,
+  descricao: regra.descricao,
+  cartelaInicial: regra.cartelaInicial?.toString() ?? '',
+  cartelaFinal: regra.cartelaFinal?.toString() ?? '',
+  volumeMinimo: regra.volumeMinimo !== null ? String(Number(regra.volumeMinimo)) : '',
+  percentual: regra.percentual !== null ? String(Math.round(Number(regra.percentual) * 10000) / 100) : '',
+  numeroCartela: regra.numeroCartela?.toString() ?? '',
+  valorFixo: regra.valorFixo !== null ? String(Number(regra.valorFixo)) : '',
+  ativa: regra.ativa,
+});
+
+const novaRegra = (tipo: TipoRegraComissao): RegraForm => ({
+  tipo,
+  descricao: '',
+  cartelaInicial: tipo === 'FAIXA_CARTELA' ? '1' : '',
+  cartelaFinal: '',
+  volumeMinimo: '',
+  percentual: '',
+  numeroCartela: tipo === 'BONUS_EQUIPE' ? '1' : '',
+  valorFixo: '',
+  ativa: true,
+});
+
+// Campo vazio = omitido (o backend valida os obrigatórios de cada tipo)
+const numeroOuOmitido = (valor: string, divisor = 1) => (valor.trim() === '' ? undefined : Number(valor) / divisor);
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface RegrasComissaoPainelProps {
+  campanhaId: string;
+}
+
+// ============================================================================
+// COMPONENTE: RegrasComissaoPainel
+// Regras de comissão de gerentes da campanha (faixas, override e bônus)
+// ============================================================================
+export default function RegrasComissaoPainel({ campanhaId }: RegrasComissaoPainelProps) {
+  const [percentualBase, setPercentualBase] = useState(0);
+  const [regras, setRegras] = useState<RegraForm[]>([]);
+  const [carregando, setCarregando] = useState(true);
+  const [salvando, setSalvando] = useState(false);
+  const [tipoNovaRegra, setTipoNovaRegra] = useState<TipoRegraComissao>('FAIXA_CARTELA');
+
+  useEffect(() => {
+    api
+      .get<RegrasComissaoResposta>(`/campanhas/${campanhaId}/comissoes`)
+      .then(({ data }) => {
+        setPercentualBase(data.percentualBase);
+        setRegras(data.regras.map(paraForm));
+      })
+      .catch((error) => toast.error(mensagemDeErro(error, 'Erro ao carregar regras de comissão')))
+      .finally(() => setCarregando(false));
+  }, [campanhaId]);
+
+  const atualizarRegra = (indice: number, campos: Partial<RegraForm>) => {
+    setRegras((prev) => prev.map((regra, i) => (i === indice ? { ...regra, ...campos } : regra)));
+  };
+
+  // ========================================
+  // AÇÃO: Salvar regras
+  // ========================================
+  const handleSalvar = async () => {
+    setSalvando(true);
+    try {
+      const { data } = await api.put<RegrasComissaoResposta>(`/campanhas/${campanhaId}/comissoes`, {
+        regras: regras.map((regra) => ({
+          tipo: regra.tipo,
+          descricao: regra.descricao,
+          cartelaInicial: numeroOuOmitido(regra.cartelaInicial),
+          cartelaFinal: numeroOuOmitido(regra.cartelaFinal),
+          volumeMinimo: numeroOuOmitido(regra.volumeMinimo),
+          percentual: numeroOuOmitido(regra.percentual, 100), // CONVERSÃO: 15% → 0.15
+          numeroCartela: numeroOuOmitido(regra.numeroCartela),
+          valorFixo: numeroOuOmitido(regra.valorFixo),
+          ativa: regra.ativa,
+        })),
+      });
+      setRegras(data.regras.map(paraForm));
+      toast.success('Regras de comissão salvas. Valem para as próximas cartelas concluídas.');
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao salvar regras de comissão'));
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  const inputClass =
+    'w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-sm text-foreground disabled:opacity-50';
+
+  return (
+    <div className="glass rounded-xl p-6 border border-border/50 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="text-lg font-bold text-foreground">Comissões de Gerentes</h3>
+            <p className="text-xs text-muted-foreground">
+              Percentual base da campanha: {(percentualBase * 100).toLocaleString('pt-BR')}% para o gerente direto
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleSalvar}
+          disabled={salvando || carregando}
+          className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+        >
+          {salvando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Salvar regras
+        </button>
+      </div>
+
+      {carregando ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Carregando regras...
+        </div>
+      ) : (
+        <>
+          {regras.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma regra: vale apenas o percentual base.</p>
+          )}
+
+          <div className="space-y-3">
+            {regras.map((regra, indice) => (
+              <div key={indice} className="rounded-lg bg-muted/40 p-3 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-semibold text-foreground">{ROTULOS_TIPO[regra.tipo]}</p>
+                    <p className="text-xs text-muted-foreground">{AJUDA_TIPO[regra.tipo]}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={regra.ativa}
+                        onChange={(e) => atualizarRegra(indice, { ativa: e.target.checked })}
+                      />
+                      Ativa
+                    </label>
+                    <button
+                      onClick={() => setRegras((prev) => prev.filter((_, i) => i !== indice))}
+                      className="text-destructive hover:opacity-80"
+                      title="Remover regra"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                  <input
+                    placeholder="Descrição (aparece no extrato do gerente)"
+                    value={regra.descricao}
+                    onChange={(e) => atualizarRegra(indice, { descricao: e.target.value })}
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                  {regra.tipo === 'FAIXA_CARTELA' && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="Da cartela"
+                        value={regra.cartelaInicial}
+                        onChange={(e) => atualizarRegra(indice, { cartelaInicial: e.target.value })}
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="Até a cartela (vazio = todas)"
+                        value={regra.cartelaFinal}
+                        onChange={(e) => atualizarRegra(indice, { cartelaFinal: e.target.value })}
+                        className={inputClass}
+                      />
+                    </>
+                  )}
+                  {regra.tipo === 'FAIXA_VOLUME_EQUIPE' && (
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      placeholder="Volume mínimo (R$)"
+                      value={regra.volumeMinimo}
+                      onChange={(e) => atualizarRegra(indice, { volumeMinimo: e.target.value })}
+                      className={inputClass}
+                    />
+                  )}
+                  {regra.tipo === 'BONUS_EQUIPE' ? (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="Cartela"
+                        value={regra.numeroCartela}
+                        onChange={(e) => atualizarRegra(indice, { numeroCartela: e.target.value })}
+                        className={inputClass}
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="Bônus (R$)"
+                        value={regra.valorFixo}
+                        onChange={(e) => atualizarRegra(indice, { valorFixo: e.target.value })}
+                        className={inputClass}
+                      />
+                    </>
+                  ) : (
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step="0.1"
+                      placeholder="Percentual (%)"
+                      value={regra.percentual}
+                      onChange={(e) => atualizarRegra(indice, { percentual: e.target.value })}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={tipoNovaRegra}
+              onChange={(e) => setTipoNovaRegra(e.target.value as TipoRegraComissao)}
+              className="rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-sm text-foreground"
+            >
+              {Object.entries(ROTULOS_TIPO).map(([valor, rotulo]) => (
+                <option key={valor} value={valor}>
+                  {rotulo}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setRegras((prev) => [...prev, novaRegra(tipoNovaRegra)])}
+              className="flex items-center gap-1 rounded-lg border border-border px-3 py-2 text-sm font-semibold hover:bg-muted/40"
+            >
+              <Plus className="h-4 w-4" /> Adicionar regra
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Target, Globe, Building2 } from 'lucide-react';
+import { Target, Globe, Building2, Award } from 'lucide-react';
 import api from '@/lib/axios';
 import toast from 'react-hot-toast';
 import type { WizardState } from '../CriarCampanhaWizard';
@@ -12,6 +12,13 @@ interface Props {
   setState: React.Dispatch<React.SetStateAction<WizardState>>;
 }
 
+const NIVEIS = [
+  { valor: 'BRONZE', rotulo: 'Bronze' },
+  { valor: 'PRATA', rotulo: 'Prata' },
+  { valor: 'OURO', rotulo: 'Ouro' },
+  { valor: 'DIAMANTE', rotulo: 'Diamante' },
+] as const;
+
 interface Optica {
   id: string;
   nome: string;
@@ -95,6 +102,20 @@ export default function Step2Targeting({ state, setState }: Props) {
     });
   };
 
+  const handleMultiplicadorNivel = (nivel: string, valor: string) => {
+    setState((prev) => {
+      const multiplicadoresNivel = { ...prev.multiplicadoresNivel };
+      const numero = parseFloat(valor);
+      // Campo vazio = sem multiplicador (1x)
+      if (valor === '' || Number.isNaN(numero)) {
+        delete multiplicadoresNivel[nivel];
+      } else {
+        multiplicadoresNivel[nivel] = numero;
+      }
+      return { ...prev, multiplicadoresNivel };
+    });
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -213,6 +234,54 @@ export default function Step2Targeting({ state, setState }: Props) {
           )}
         </div>
       )}
+
+      {/* Nível dos vendedores: elegibilidade e multiplicador de recompensa */}
+      <div className="pt-6 border-t border-border space-y-4">
+        <div className="flex items-center gap-2">
+          <Award className="h-5 w-5 text-primary" />
+          <h4 className="font-medium text-foreground">Nível dos Vendedores</h4>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Nível mínimo para participar</label>
+          <select
+            value={state.nivelMinimo}
+            onChange={(e) => setState((prev) => ({ ...prev, nivelMinimo: e.target.value as WizardState['nivelMinimo'] }))}
+            className="w-full px-4 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            <option value="">Todos os níveis</option>
+            {NIVEIS.map((nivel) => (
+              <option key={nivel.valor} value={nivel.valor}>
+                {nivel.rotulo} ou superior
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Multiplicador da recompensa por nível</label>
+          <p className="text-xs text-muted-foreground mb-3">
+            Deixe em branco para 1x. Ex: 1.1 paga 10% a mais aos vendedores daquele nível (máximo 5x).
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {NIVEIS.map((nivel) => (
+              <div key={nivel.valor}>
+                <span className="block text-xs text-muted-foreground mb-1">{nivel.rotulo}</span>
+                <input
+                  type="number"
+                  min={0.01}
+                  max={5}
+                  step={0.05}
+                  placeholder="1"
+                  value={state.multiplicadoresNivel[nivel.valor] ?? ''}
+                  onChange={(e) => handleMultiplicadorNivel(nivel.valor, e.target.value)}
+                  className="w-full px-3 py-2 bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
     </motion.div>
   );
 }
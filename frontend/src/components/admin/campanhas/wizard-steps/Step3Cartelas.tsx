@@ -9,12 +9,33 @@ import {
   AlertCircle,
   Package,
   Lock,
+  TrendingUp,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import api from '@/lib/axios';
-import type { WizardState } from '../CriarCampanhaWizard';
+import type { CartelaFormData, WizardState } from '../CriarCampanhaWizard';
 import GerenciarProdutosModal from '../GerenciarProdutosModal';
 
+// Valor máximo de uma cartela: soma de (maior valor dos produtos × quantidade) de cada requisito
+const valorMaximoDaCartela = (cartela: CartelaFormData) =>
+  cartela.requisitos.reduce((acc, req) => {
+    let maxReq = req.maxPontos || 0;
+    if (!maxReq && req.produtos && req.produtos.length > 0) {
+      maxReq = Math.max(...req.produtos.map((p) => Number(p.pontosReais || 0)));
+    }
+    return acc + maxReq * (req.quantidade || 1);
+  }, 0);
+
+// Percentual da curva para a cartela: faixa de maior cartela inicial que não passa dela (100% se nenhuma)
+const percentualDaCurva = (curva: WizardState['curvaRecompensa'], numeroCartela: number) =>
+  [...curva]
+    .filter((faixa) => faixa.cartela <= numeroCartela)
+    .sort((a, b) => a.cartela - b.cartela)
+    .pop()?.percentual ?? 100;
+
+// Cartelas exibidas na prévia quando não há limite
+const CARTELAS_PREVIA_SEM_LIMITE = 8;
+
 interface Props {
   state: WizardState;
   setState: React.Dispatch<React.SetStateAction<WizardState>>;
@@ -153,6 +174,46 @@ export default function Step3Cartelas({ state, setState, modoEdicao = false, car
     setState({ ...state, cartelas: novasCartelas });
   };
 
+  // ========================================
+  // CURVA DE RECOMPENSA
+  // ========================================
+  const addFaixaCurva = () => {
+    const ultimaCartela = Math.max(1, ...state.curvaRecompensa.map((f) => f.cartela));
+    setState({
+      ...state,
+      curvaRecompensa: [
+        ...state.curvaRecompensa,
+        { cartela: state.curvaRecompensa.length === 0 ? 2 : ultimaCartela + 1, percentual: 100 },
+      ],
+    });
+  };
+
+  const updateFaixaCurva = (index: number, field: 'cartela' | 'percentual', value: number) => {
+    const novaCurva = [...state.curvaRecompensa];
+    novaCurva[index] = { ...novaCurva[index], [field]: value };
+    setState({ ...state, curvaRecompensa: novaCurva });
+  };
+
+  const removeFaixaCurva = (index: number) => {
+    setState({ ...state, curvaRecompensa: state.curvaRecompensa.filter((_, i) => i !== index) });
+  };
+
+  // Prévia: valor de cada cartela (cartelas não configuradas replicam a última) × curva
+  const totalCartelasPrevia =
+    state.limiteCartelas ??
+    Math.max(CARTELAS_PREVIA_SEM_LIMITE, state.cartelas.length, ...state.curvaRecompensa.map((f) => f.cartela + 1));
+  const previaCurva = Array.from({ length: Math.min(totalCartelasPrevia, 30) }, (_, i) => {
+    const numeroCartela = i + 1;
+    const cartela =
+      [...state.cartelas].reverse().find((c) => c.numeroCartela <= numeroCartela) ?? state.cartelas[0];
+    const percentual = percentualDaCurva(state.curvaRecompensa, numeroCartela);
+    return { numeroCartela, percentual, valor: (valorMaximoDaCartela(cartela) * percentual) / 100 };
+  });
+  const maiorPercentualPrevia = Math.max(100, ...previaCurva.map((c) => c.percentual));
+  const cartelasDuplicadasCurva = state.curvaRecompensa
+    .map((f) => f.cartela)
+    .filter((cartela, i, todas) => todas.indexOf(cartela) !== i);
+
   const updateRequisito = (cartelaIndex: number, requisitoIndex: number, field: string, value: any) => {
     const novasCartelas = [...state.cartelas];
     novasCartelas[cartelaIndex].requisitos[requisitoIndex] = {
@@ -294,12 +355,111 @@ export default function Step3Cartelas({ state, setState, modoEdicao = false, car
                   placeholder="Deixe vazio para ilimitado"
                   className="w-full px-4 py-2 bg-accent border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Máximo de cartelas por vendedor. Vendas além do limite são validadas, mas não geram pontos.
+                </p>
               </div>
             </div>
           </motion.div>
         )}
       </div>
 
+      {/* SEÇÃO: Curva de Recompensa por Cartela */}
+      <div className="bg-card border border-border rounded-xl p-5 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h4 className="font-semibold text-foreground flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-primary" />
+              Curva de Recompensa
+            </h4>
+            <p className="text-xs text-muted-foreground mt-1">
+              Percentual do valor dos produtos pago em cada cartela. Cada faixa vale a partir da cartela indicada até a
+              próxima faixa; sem faixas, todas as cartelas pagam 100%.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={addFaixaCurva}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-semibold border border-border rounded-lg hover:bg-accent"
+          >
+            <Plus className="h-4 w-4" />
+            Adicionar faixa
+          </button>
+        </div>
+
+        {state.curvaRecompensa.length > 0 && (
+          <div className="space-y-2">
+            {state.curvaRecompensa.map((faixa, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-muted-foreground">A partir da cartela</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={faixa.cartela}
+                  onChange={(e) => updateFaixaCurva(index, 'cartela', parseInt(e.target.value) || 1)}
+                  className="w-20 px-3 py-1.5 bg-accent border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <span className="text-muted-foreground">paga</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="500"
+                  step="5"
+                  value={faixa.percentual}
+                  onChange={(e) => updateFaixaCurva(index, 'percentual', Number(e.target.value) || 0)}
+                  className="w-24 px-3 py-1.5 bg-accent border border-border rounded-lg focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <span className="text-muted-foreground">%</span>
+                <button
+                  type="button"
+                  onClick={() => removeFaixaCurva(index)}
+                  className="p-1.5 text-destructive hover:bg-destructive/10 rounded-lg"
+                  title="Remover faixa"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+            {cartelasDuplicadasCurva.length > 0 && (
+              <p className="text-xs text-destructive">
+                Mais de uma faixa a partir da cartela {cartelasDuplicadasCurva.join(', ')}: mantenha apenas uma.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Prévia da curva */}
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground">
+            Prévia por cartela (valor máximo estimado pelos produtos configurados)
+          </p>
+          <div className="flex items-end gap-1.5 overflow-x-auto pb-1">
+            {previaCurva.map((item) => (
+              <div key={item.numeroCartela} className="flex min-w-[52px] flex-col items-center gap-1">
+                <span className="text-[10px] font-semibold text-foreground">{item.percentual}%</span>
+                <div className="flex h-20 w-8 items-end rounded bg-accent">
+                  <div
+                    className={`w-full rounded ${item.percentual > 100 ? 'bg-green-500' : item.percentual < 100 ? 'bg-amber-500' : 'bg-primary'}`}
+                    style={{ height: `${(item.percentual / maiorPercentualPrevia) * 100}%` }}
+                  />
+                </div>
+                <span className="text-[10px] text-muted-foreground">C{item.numeroCartela}</span>
+                <span className="text-[10px] text-muted-foreground">
+                  {item.valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {state.limiteCartelas
+              ? `Até ${state.limiteCartelas} cartela(s) por vendedor: no máximo ${previaCurva
+                  .reduce((acc, item) => acc + item.valor, 0)
+                  .toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} por vendedor, antes de eventos e nível.`
+              : `Sem limite de cartelas: a partir da cartela ${previaCurva.length}, vale o percentual da última faixa.`}
+          </p>
+        </div>
+      </div>
+
       <div className="flex items-center gap-3 mb-6">
         <div className="p-3 bg-primary/10 rounded-lg">
           <Layers className="h-6 w-6 text-primary" />
@@ -1,20 +1,61 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Zap, Plus, Trash2, AlertTriangle, Calendar } from 'lucide-react';
-import type { WizardState } from '../CriarCampanhaWizard';
+import { Zap, Plus, Trash2, AlertTriangle, Calendar, Filter, Layers } from 'lucide-react';
+import api from '@/lib/axios';
+import type { EventoEspecialFormData, WizardState } from '../CriarCampanhaWizard';
 
 interface Props {
   state: WizardState;
   setState: React.Dispatch<React.SetStateAction<WizardState>>;
 }
 
+interface Optica {
+  id: string;
+  nome: string;
+  ativa: boolean;
+  ehMatriz: boolean;
+}
+
+const POLITICAS_EVENTOS: { valor: WizardState['politicaEventos']; rotulo: string; exemplo: string }[] = [
+  { valor: 'MAIOR', rotulo: 'Vale o maior', exemplo: '2x e 3x no mesmo pedido = 3x' },
+  { valor: 'MULTIPLICAR', rotulo: 'Multiplicar', exemplo: '2x e 3x no mesmo pedido = 6x' },
+  { valor: 'SOMAR', rotulo: 'Somar', exemplo: '2x e 3x no mesmo pedido = 4x' },
+];
+
+// Lista digitada separada por vírgula (itens vazios são descartados no backend)
+const paraLista = (texto: string) => texto.split(',').map((item) => item.trim().toUpperCase());
+
+const buscarOticas = () => api.get<Optica[]>('/oticas').then((res) => res.data.filter((o) => o.ativa));
+
 export default function Step4EventosEspeciais({ state, setState }: Props) {
+  const [oticas, setOticas] = useState<Optica[]>([]);
+
+  useEffect(() => {
+    buscarOticas()
+      .then(setOticas)
+      .catch(() => setOticas([]));
+  }, []);
+
+  // Requisitos pela ordem do card (a mesma ordem vale em todas as cartelas)
+  const requisitosPorOrdem = Array.from(
+    new Map(
+      state.cartelas.flatMap((c) => c.requisitos).map((r) => [r.ordem, r.descricao || `Requisito ${r.ordem}`]),
+    ),
+  ).sort(([a], [b]) => a - b);
+
   const addEvento = () => {
-    const novoEvento = {
+    const novoEvento: EventoEspecialFormData = {
       nome: '',
       descricao: '',
       multiplicador: 2.0,
+      tipoBonus: 'MULTIPLICADOR',
+      valorFixo: 0,
+      oticasIds: [],
+      estados: [],
+      ordensRequisito: [],
+      codigosProduto: [],
       dataInicio: state.dataInicio || '',
       dataFim: state.dataFim || '',
       ativo: true,
@@ -34,6 +75,9 @@ export default function Step4EventosEspeciais({ state, setState }: Props) {
     setState({ ...state, eventosEspeciais: novosEventos });
   };
 
+  const alternarNaLista = <T,>(lista: T[], item: T) =>
+    lista.includes(item) ? lista.filter((i) => i !== item) : [...lista, item];
+
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -73,10 +117,41 @@ export default function Step4EventosEspeciais({ state, setState }: Props) {
             <p>
               <strong>• Visibilidade:</strong> Vendedores verão apenas eventos ATIVOS (dentro do período) com design destacado.
             </p>
+            <p>
+              <strong>• Abrangência:</strong> Um evento pode valer só para algumas óticas, UFs, requisitos ou códigos de produto. Vendedores de fora da abrangência não veem o evento.
+            </p>
           </div>
         </div>
       </div>
 
+      {/* Política de acúmulo */}
+      <div className="border border-border rounded-xl p-4 bg-card space-y-3">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 text-primary" />
+          <p className="text-sm font-semibold text-foreground">Quando mais de um evento vale para o mesmo pedido</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {POLITICAS_EVENTOS.map((politica) => (
+            <button
+              key={politica.valor}
+              type="button"
+              onClick={() => setState({ ...state, politicaEventos: politica.valor })}
+              className={`text-left p-3 rounded-lg border transition-colors ${
+                state.politicaEventos === politica.valor
+                  ? 'border-primary bg-primary/10'
+                  : 'border-border hover:bg-accent/50'
+              }`}
+            >
+              <p className="text-sm font-semibold text-foreground">{politica.rotulo}</p>
+              <p className="text-xs text-muted-foreground">{politica.exemplo}</p>
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Bônus de valor fixo são somados (em &quot;Vale o maior&quot;, conta apenas o evento de maior ganho em R$).
+        </p>
+      </div>
+
       {/* Lista de Eventos */}
       {state.eventosEspeciais.length > 0 ? (
         <div className="space-y-4">
@@ -89,7 +164,11 @@ export default function Step4EventosEspeciais({ state, setState }: Props) {
               >
                 <div className="flex items-center gap-3">
                   <Zap className="h-5 w-5" />
-                  <span className="font-bold text-lg">{evento.multiplicador}X</span>
+                  <span className="font-bold text-lg">
+                    {evento.tipoBonus === 'VALOR_FIXO'
+                      ? `+R$ ${Number(evento.valorFixo || 0).toFixed(2)}`
+                      : `${evento.multiplicador}X`}
+                  </span>
                 </div>
                 <button
                   onClick={() => removeEvento(index)}
@@ -125,25 +204,54 @@ export default function Step4EventosEspeciais({ state, setState }: Props) {
                   />
                 </div>
 
-                {/* Multiplicador */}
+                {/* Tipo de bônus */}
                 <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Multiplicador (1.0 a 10.0) *
-                  </label>
-                  <input
-                    type="number"
-                    value={evento.multiplicador}
-                    onChange={(e) => updateEvento(index, 'multiplicador', parseFloat(e.target.value) || 1)}
-                    min="1.0"
-                    max="10.0"
-                    step="0.1"
+                  <label className="block text-sm font-medium text-foreground mb-2">Tipo de Bônus *</label>
+                  <select
+                    value={evento.tipoBonus}
+                    onChange={(e) => updateEvento(index, 'tipoBonus', e.target.value)}
                     className="w-full px-4 py-3 rounded-lg bg-background border border-border focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Ex: 2.0 = Prêmios dobrados, 3.0 = Prêmios triplicados
-                  </p>
+                  >
+                    <option value="MULTIPLICADOR">Multiplicador (2x, 3x...)</option>
+                    <option value="VALOR_FIXO">Valor fixo por pedido (R$)</option>
+                  </select>
                 </div>
 
+                {evento.tipoBonus === 'VALOR_FIXO' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">Bônus por Pedido (R$) *</label>
+                    <input
+                      type="number"
+                      value={evento.valorFixo}
+                      onChange={(e) => updateEvento(index, 'valorFixo', parseFloat(e.target.value) || 0)}
+                      min="0.01"
+                      step="0.01"
+                      className="w-full px-4 py-3 rounded-lg bg-background border border-border focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Somado a cada pedido validado enviado durante o evento
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-foreground mb-2">
+                      Multiplicador (1.0 a 10.0) *
+                    </label>
+                    <input
+                      type="number"
+                      value={evento.multiplicador}
+                      onChange={(e) => updateEvento(index, 'multiplicador', parseFloat(e.target.value) || 1)}
+                      min="1.0"
+                      max="10.0"
+                      step="0.1"
+                      className="w-full px-4 py-3 rounded-lg bg-background border border-border focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Ex: 2.0 = Prêmios dobrados, 3.0 = Prêmios triplicados
+                    </p>
+                  </div>
+                )}
+
                 {/* Datas */}
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div>
@@ -200,6 +308,87 @@ export default function Step4EventosEspeciais({ state, setState }: Props) {
                     </label>
                   </div>
                 </div>
+
+                {/* Abrangência */}
+                <div className="border-t border-border pt-4 space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Filter className="h-4 w-4 text-muted-foreground" />
+                    <p className="text-sm font-medium text-foreground">Abrangência (opcional — vazio = vale para todos)</p>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-muted-foreground mb-1">UFs (separadas por vírgula)</label>
+                      <input
+                        type="text"
+                        value={evento.estados.join(', ')}
+                        onChange={(e) => updateEvento(index, 'estados', e.target.value ? paraLista(e.target.value) : [])}
+                        placeholder="Ex: SP, PR"
+                        className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm text-foreground"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-muted-foreground mb-1">
+                        Códigos de produto (separados por vírgula)
+                      </label>
+                      <input
+                        type="text"
+                        value={evento.codigosProduto.join(', ')}
+                        onChange={(e) =>
+                          updateEvento(index, 'codigosProduto', e.target.value ? paraLista(e.target.value) : [])
+                        }
+                        placeholder="Ex: LNT-001, LNT-002"
+                        className="w-full px-3 py-2 rounded-lg bg-background border border-border text-sm text-foreground"
+                      />
+                    </div>
+                  </div>
+
+                  {requisitosPorOrdem.length > 0 && (
+                    <div>
+                      <label className="block text-xs font-medium text-muted-foreground mb-1">Requisitos</label>
+                      <div className="flex flex-wrap gap-2">
+                        {requisitosPorOrdem.map(([ordem, descricao]) => (
+                          <label
+                            key={ordem}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-background border border-border rounded-lg text-sm cursor-pointer"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={evento.ordensRequisito.includes(ordem)}
+                              onChange={() =>
+                                updateEvento(index, 'ordensRequisito', alternarNaLista(evento.ordensRequisito, ordem))
+                              }
+                            />
+                            {descricao}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {oticas.length > 0 && (
+                    <div>
+                      <label className="block text-xs font-medium text-muted-foreground mb-1">
+                        Óticas (uma matriz inclui as suas filiais)
+                      </label>
+                      <div className="max-h-40 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1 p-2 bg-background border border-border rounded-lg">
+                        {oticas.map((optica) => (
+                          <label key={optica.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={evento.oticasIds.includes(optica.id)}
+                              onChange={() => updateEvento(index, 'oticasIds', alternarNaLista(evento.oticasIds, optica.id))}
+                            />
+                            <span className="truncate">
+                              {optica.nome}
+                              {optica.ehMatriz && <span className="text-xs text-muted-foreground"> (matriz)</span>}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           ))}
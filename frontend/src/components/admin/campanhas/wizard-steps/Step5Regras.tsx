@@ -15,9 +15,20 @@ import {
   Upload,
   Crop as CropIcon,
   Check,
-  X
+  X,
+  Filter,
+  FlaskConical,
+  CheckCircle2,
+  XCircle
 } from 'lucide-react';
-import type { WizardState } from '../CriarCampanhaWizard';
+import type { WizardState, GrupoCondicaoFormData } from '../CriarCampanhaWizard';
+import ConstrutorGrupoCondicoes from '../ConstrutorGrupoCondicoes';
+import {
+  avaliarGrupoPreview,
+  criarGrupoCondicoesVazio,
+  descreverGrupoCondicoes,
+  type LinhaTesteCondicoes,
+} from '@/lib/regras-condicoes';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import { useEffect } from 'react';
@@ -36,6 +47,9 @@ interface Props {
  *
  * Editor WYSIWYG para o Admin escrever regras detalhadas da campanha.
  * Usa Tiptap (moderno e compatível com React 19) para formatação rica (HTML).
+ *
+ * Rule Builder: condições de validação por requisito, em grupos E/OU
+ * aninhados, com preview da expressão e teste contra uma linha de exemplo.
  */
 export default function Step5Regras({ state, setState }: Props) {
   // ========================================
@@ -52,6 +66,39 @@ export default function Step5Regras({ state, setState }: Props) {
   const [showCropModal1x1, setShowCropModal1x1] = useState(false);
   const imgRef1x1 = useRef<HTMLImageElement>(null);
 
+  // ========================================
+  // ESTADOS LOCAIS - RULE BUILDER
+  // ========================================
+  const [linhaTeste, setLinhaTeste] = useState<LinhaTesteCondicoes>({
+    nomeProduto: '',
+    codigo: '',
+    valorVenda: '',
+  });
+  const linhaTestePreenchida = Object.values(linhaTeste).some((valor) => valor.trim().length > 0);
+
+  // ========================================
+  // HANDLERS: RULE BUILDER
+  // ========================================
+  const atualizarGrupoRequisito = (
+    cartelaIndex: number,
+    requisitoIndex: number,
+    grupo: GrupoCondicaoFormData | undefined
+  ) => {
+    setState({
+      ...state,
+      cartelas: state.cartelas.map((cartela, ci) =>
+        ci !== cartelaIndex
+          ? cartela
+          : {
+              ...cartela,
+              requisitos: cartela.requisitos.map((requisito, ri) =>
+                ri !== requisitoIndex ? requisito : { ...requisito, grupoCondicoes: grupo }
+              ),
+            }
+      ),
+    });
+  };
+
   // ========================================
   // HANDLERS: IMAGEM 1:1
   // ========================================
@@ -383,6 +430,126 @@ export default function Step5Regras({ state, setState }: Props) {
         </div>
       </div>
 
+      {/* ============== SEÇÃO: CONDIÇÕES DE VALIDAÇÃO (RULE BUILDER) ============== */}
+      <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-gray-200 dark:border-gray-700 shadow-sm space-y-6">
+        <div className="flex items-center gap-3 pb-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="p-2 bg-purple-500/10 rounded-lg">
+            <Filter className="h-5 w-5 text-purple-600 dark:text-purple-400" />
+          </div>
+          <div className="flex-1">
+            <h4 className="font-bold text-lg text-gray-900 dark:text-white">Condições de Validação</h4>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Restrinja quais pedidos cada requisito aceita, combinando condições com E/OU (opcional)
+            </p>
+          </div>
+        </div>
+
+        {/* Linha de teste */}
+        <div className="rounded-xl bg-muted/30 border border-border p-4 space-y-3">
+          <p className="text-sm font-semibold text-foreground flex items-center gap-2">
+            <FlaskConical className="w-4 h-4 text-purple-500" />
+            Testar com uma linha de exemplo da planilha
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={linhaTeste.nomeProduto}
+              onChange={(e) => setLinhaTeste({ ...linhaTeste, nomeProduto: e.target.value })}
+              placeholder="Nome do produto"
+              className="px-3 py-2 rounded-lg border border-border bg-background text-sm"
+            />
+            <input
+              type="text"
+              value={linhaTeste.codigo}
+              onChange={(e) => setLinhaTeste({ ...linhaTeste, codigo: e.target.value })}
+              placeholder="Código da referência / produto"
+              className="px-3 py-2 rounded-lg border border-border bg-background text-sm"
+            />
+            <input
+              type="text"
+              value={linhaTeste.valorVenda}
+              onChange={(e) => setLinhaTeste({ ...linhaTeste, valorVenda: e.target.value })}
+              placeholder="Valor da venda (ex: 1.250,00)"
+              className="px-3 py-2 rounded-lg border border-border bg-background text-sm"
+            />
+          </div>
+        </div>
+
+        {state.cartelas.map((cartela, cartelaIndex) => (
+          <div key={cartelaIndex} className="space-y-4">
+            <p className="text-sm font-bold text-foreground">Cartela {cartela.numeroCartela}</p>
+            {cartela.requisitos.map((requisito, requisitoIndex) => {
+              const grupo = requisito.grupoCondicoes;
+              const expressao = grupo ? descreverGrupoCondicoes(grupo) : '';
+              const resultado = grupo && linhaTestePreenchida ? avaliarGrupoPreview(grupo, linhaTeste) : null;
+
+              return (
+                <div
+                  key={requisitoIndex}
+                  className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 space-y-3"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-sm font-medium text-foreground">
+                      {requisito.descricao || `Requisito ${requisitoIndex + 1}`}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        ({requisito.tipoUnidade === 'PAR' ? 'PAR: as duas linhas devem atender' : 'UNIDADE'})
+                      </span>
+                    </p>
+                    {grupo ? (
+                      <button
+                        type="button"
+                        onClick={() => atualizarGrupoRequisito(cartelaIndex, requisitoIndex, undefined)}
+                        className="text-xs text-red-500 hover:underline"
+                      >
+                        Remover condições
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          atualizarGrupoRequisito(cartelaIndex, requisitoIndex, criarGrupoCondicoesVazio())
+                        }
+                        className="text-xs font-semibold text-purple-600 hover:underline"
+                      >
+                        + Adicionar condições
+                      </button>
+                    )}
+                  </div>
+
+                  {grupo && (
+                    <>
+                      <ConstrutorGrupoCondicoes
+                        grupo={grupo}
+                        onChange={(novo) => atualizarGrupoRequisito(cartelaIndex, requisitoIndex, novo)}
+                        resultado={resultado}
+                      />
+
+                      {/* Preview da expressão */}
+                      <div className="rounded-lg bg-muted/40 px-3 py-2 text-xs font-mono text-muted-foreground">
+                        {expressao || 'Preencha ao menos uma condição'}
+                      </div>
+
+                      {resultado && expressao && (
+                        <p
+                          className={`flex items-center gap-1 text-sm font-semibold ${
+                            resultado.atendido ? 'text-green-600' : 'text-red-600'
+                          }`}
+                        >
+                          {resultado.atendido ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                          {resultado.atendido
+                            ? 'A linha de exemplo seria ACEITA por este requisito'
+                            : 'A linha de exemplo seria REJEITADA por este requisito'}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
       {/* Exemplo de Regras (Sugestão) */}
       {(!state.regras || state.regras === '<p></p>' || state.regras.trim().length === 0) && (
         <div className="rounded-xl bg-accent/50 border border-border p-4 space-y-2">
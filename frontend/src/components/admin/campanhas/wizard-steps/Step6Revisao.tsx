@@ -154,6 +154,21 @@ export default function Step6Revisao({ state }: Props) {
               )}
             </p>
           )}
+          {state.nivelMinimo && (
+            <p className="text-sm text-muted-foreground">
+              Nível mínimo: <strong>{state.nivelMinimo}</strong>
+            </p>
+          )}
+          {Object.keys(state.multiplicadoresNivel).length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Multiplicadores por nível:{' '}
+              <strong>
+                {Object.entries(state.multiplicadoresNivel)
+                  .map(([nivel, multiplicador]) => `${nivel} ${multiplicador}x`)
+                  .join(' • ')}
+              </strong>
+            </p>
+          )}
         </div>
 
         {/* Cartelas */}
@@ -180,6 +195,23 @@ export default function Step6Revisao({ state }: Props) {
           <p className="text-sm text-primary font-medium">
             Total: {state.cartelas.length} cartela(s)
           </p>
+          <p className="text-sm text-muted-foreground">
+            Limite por vendedor:{' '}
+            <span className="font-medium text-foreground">
+              {state.limiteCartelas ? `${state.limiteCartelas} cartela(s)` : 'Ilimitado'}
+            </span>
+          </p>
+          {state.curvaRecompensa.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Curva de recompensa:{' '}
+              <span className="font-medium text-foreground">
+                {[...state.curvaRecompensa]
+                  .sort((a, b) => a.cartela - b.cartela)
+                  .map((faixa) => `a partir da cartela ${faixa.cartela}: ${faixa.percentual}%`)
+                  .join(' • ')}
+              </span>
+            </p>
+          )}
         </div>
 
         {/* Eventos Especiais */}
@@ -202,15 +234,34 @@ export default function Step6Revisao({ state }: Props) {
                       <Calendar className="h-3 w-3 inline mr-1" />
                       {formatarDataBR(evento.dataInicio)} até {formatarDataBR(evento.dataFim)}
                     </p>
+                    {(evento.oticasIds.length > 0 ||
+                      evento.estados.length > 0 ||
+                      evento.ordensRequisito.length > 0 ||
+                      evento.codigosProduto.length > 0) && (
+                      <p className="text-xs opacity-90">
+                        Restrito a:{' '}
+                        {[
+                          evento.oticasIds.length > 0 && `${evento.oticasIds.length} ótica(s)`,
+                          evento.estados.length > 0 && `UFs ${evento.estados.filter(Boolean).join(', ')}`,
+                          evento.ordensRequisito.length > 0 && `requisito(s) ${evento.ordensRequisito.join(', ')}`,
+                          evento.codigosProduto.length > 0 && `${evento.codigosProduto.filter(Boolean).length} produto(s)`,
+                        ]
+                          .filter(Boolean)
+                          .join(' • ')}
+                      </p>
+                    )}
                   </div>
                   <div className="bg-white/20 px-3 py-1 rounded-full font-bold">
-                    {evento.multiplicador}X
+                    {evento.tipoBonus === 'VALOR_FIXO'
+                      ? `+R$ ${Number(evento.valorFixo || 0).toFixed(2)}`
+                      : `${evento.multiplicador}X`}
                   </div>
                 </div>
               ))}
             </div>
             <p className="text-sm text-yellow-500 font-medium">
-              {state.eventosEspeciais.length} evento(s) configurado(s)
+              {state.eventosEspeciais.length} evento(s) configurado(s) • Sobreposição:{' '}
+              {{ MAIOR: 'vale o maior', MULTIPLICAR: 'multiplicar', SOMAR: 'somar' }[state.politicaEventos]}
             </p>
           </div>
         )}
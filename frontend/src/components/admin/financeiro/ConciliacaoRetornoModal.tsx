@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, FileCheck2, Loader2, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+// Espelha POST /financeiro/lotes/:numeroLote/retorno
+type ResultadoConciliacao = 'PAGO' | 'FALHOU' | 'AGENDADO' | 'DIVERGENTE' | 'JA_CONCILIADO' | 'NAO_ENCONTRADO';
+
+interface ItemConciliacao {
+  identificador: string;
+  usuarioId: string | null;
+  nome: string | null;
+  valor: number;
+  resultado: ResultadoConciliacao;
+  ocorrencias: string[];
+  detalhe: string | null;
+}
+
+interface TotalConciliacao {
+  quantidade: number;
+  valor: number;
+}
+
+interface ResultadoRetorno {
+  numeroLote: string;
+  arquivo: string;
+  layout: string;
+  statusLote: string;
+  totais: {
+    linhas: number;
+    pagos: TotalConciliacao;
+    falhas: TotalConciliacao;
+    agendados: TotalConciliacao;
+    divergentes: TotalConciliacao;
+    jaConciliados: TotalConciliacao;
+    naoEncontrados: TotalConciliacao;
+  };
+  itens: ItemConciliacao[];
+}
+
+const ROTULOS: Record<ResultadoConciliacao, { rotulo: string; classe: string }> = {
+  PAGO: { rotulo: 'Pago', classe: 'text-emerald-600' },
+  FALHOU: { rotulo: 'Falhou', classe: 'text-destructive' },
+  AGENDADO: { rotulo: 'Agendado', classe: 'text-blue-600' },
+  DIVERGENTE: { rotulo: 'Valor divergente', classe: 'text-amber-600' },
+  JA_CONCILIADO: { rotulo: 'Já conciliado', classe: 'text-muted-foreground' },
+  NAO_ENCONTRADO: { rotulo: 'Não encontrado', classe: 'text-amber-600' },
+};
+
+const formatarMoeda = (valor: number) =>
+  valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface ConciliacaoRetornoModalProps {
+  numeroLote: string;
+  onFechar: () => void;
+  /** Chamado após uma conciliação aplicada (recarregar lotes) */
+  onConciliado: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: ConciliacaoRetornoModal
+// Upload do arquivo retorno do banco e resultado da baixa de cada pagamento
+// ============================================================================
+export default function ConciliacaoRetornoModal({ numeroLote, onFechar, onConciliado }: ConciliacaoRetornoModalProps) {
+  const [arquivo, setArquivo] = useState<File | null>(null);
+  const [enviando, setEnviando] = useState(false);
+  const [resultado, setResultado] = useState<ResultadoRetorno | null>(null);
+
+  // ========================================
+  // AÇÃO: Enviar o arquivo retorno
+  // ========================================
+  const handleConciliar = async () => {
+    if (!arquivo) return;
+    setEnviando(true);
+    try {
+      const formData = new FormData();
+      formData.append('arquivo', arquivo);
+      const { data } = await api.post<ResultadoRetorno>(`/financeiro/lotes/${numeroLote}/retorno`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      setResultado(data);
+      onConciliado();
+      toast.success(
+        `Retorno conciliado: ${data.totais.pagos.quantidade} pago(s), ${data.totais.falhas.quantidade} falha(s).`,
+      );
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao conciliar arquivo retorno'));
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  const naoAplicados = resultado
+    ? resultado.totais.divergentes.quantidade + resultado.totais.naoEncontrados.quantidade
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl border border-border bg-card p-6 space-y-4 shadow-2xl">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <FileCheck2 className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="text-lg font-bold text-foreground">Conciliar retorno — {numeroLote}</h3>
+              <p className="text-xs text-muted-foreground">
+                Baixa cada pagamento conforme o arquivo retorno do banco. Pagamentos rejeitados voltam ao saldo do
+                usuário.
+              </p>
+            </div>
+          </div>
+          <button onClick={onFechar} className="rounded-lg p-1 hover:bg-muted/40" title="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {!resultado && (
+          <>
+            <label className="flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed border-border/60 p-6 text-sm hover:bg-muted/30">
+              <Upload className="h-6 w-6 text-muted-foreground" />
+              <span className="font-medium text-foreground">{arquivo ? arquivo.name : 'Selecionar arquivo retorno'}</span>
+              <span className="text-xs text-muted-foreground">.ret, .txt ou .cnab (até 5MB)</span>
+              <input
+                type="file"
+                accept=".ret,.txt,.cnab"
+                className="hidden"
+                onChange={(e) => setArquivo(e.target.files?.[0] ?? null)}
+              />
+            </label>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={onFechar}
+                className="rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40"
+              >
+                Fechar
+              </button>
+              <button
+                onClick={handleConciliar}
+                disabled={!arquivo || enviando}
+                className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+              >
+                {enviando ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileCheck2 className="h-4 w-4" />}
+                Conciliar
+              </button>
+            </div>
+          </>
+        )}
+
+        {resultado && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+              <div className="rounded-lg bg-emerald-500/10 p-3">
+                <p className="text-muted-foreground">Pagos</p>
+                <p className="font-semibold text-foreground">
+                  {resultado.totais.pagos.quantidade} • {formatarMoeda(resultado.totais.pagos.valor)}
+                </p>
+              </div>
+              <div className="rounded-lg bg-destructive/10 p-3">
+                <p className="text-muted-foreground">Falharam (saldo devolvido)</p>
+                <p className="font-semibold text-foreground">
+                  {resultado.totais.falhas.quantidade} • {formatarMoeda(resultado.totais.falhas.valor)}
+                </p>
+              </div>
+              <div className="rounded-lg bg-blue-500/10 p-3">
+                <p className="text-muted-foreground">Agendados (aguardando)</p>
+                <p className="font-semibold text-foreground">
+                  {resultado.totais.agendados.quantidade} • {formatarMoeda(resultado.totais.agendados.valor)}
+                </p>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Lote agora está <span className="font-semibold text-foreground">{resultado.statusLote}</span>.
+            </p>
+
+            {naoAplicados > 0 && (
+              <div className="flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/5 p-3 text-xs">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-600" />
+                <p className="text-foreground">
+                  {naoAplicados} linha(s) do arquivo não foram aplicadas (valor divergente ou identificador fora do
+                  lote). Confira com o extrato do banco antes de processar manualmente.
+                </p>
+              </div>
+            )}
+
+            <div className="max-h-72 overflow-y-auto divide-y divide-border/20 rounded-lg bg-muted/40 text-xs">
+              {resultado.itens.map((item, i) => (
+                <div key={`${item.identificador}-${i}`} className="flex items-center justify-between gap-2 p-2">
+                  <span className="min-w-0">
+                    <span className="font-medium text-foreground">{item.nome ?? item.identificador}</span>
+                    {item.detalhe && <span className="block text-muted-foreground">{item.detalhe}</span>}
+                  </span>
+                  <span className={`whitespace-nowrap font-semibold ${ROTULOS[item.resultado].classe}`}>
+                    {ROTULOS[item.resultado].rotulo}
+                  </span>
+                  <span className="whitespace-nowrap font-semibold">{formatarMoeda(item.valor)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={onFechar}
+                className="rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40"
+              >
+                Fechar
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, Loader2, Trash2, X, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+export type TipoDecisaoLote = 'aprovar' | 'rejeitar' | 'cancelar';
+
+const DECISOES: Record<
+  TipoDecisaoLote,
+  { titulo: string; descricao: string; botao: string; sucesso: string; classe: string; icone: typeof CheckCircle }
+> = {
+  aprovar: {
+    titulo: 'Aprovar lote',
+    descricao: 'Confirme que conferiu os valores. Lotes de valor alto exigem a aprovação de um segundo admin.',
+    botao: 'Aprovar',
+    sucesso: 'Aprovação registrada',
+    classe: 'bg-emerald-500 text-white',
+    icone: CheckCircle,
+  },
+  rejeitar: {
+    titulo: 'Rejeitar lote',
+    descricao: 'O lote é encerrado e o saldo reservado volta para os usuários. Um novo lote precisará ser gerado.',
+    botao: 'Rejeitar',
+    sucesso: 'Lote rejeitado e saldos devolvidos',
+    classe: 'bg-red-500 text-white',
+    icone: XCircle,
+  },
+  cancelar: {
+    titulo: 'Cancelar lote',
+    descricao: 'Todos os relatórios do lote serão removidos e o saldo reservado volta para os usuários.',
+    botao: 'Cancelar lote',
+    sucesso: 'Lote cancelado e saldos devolvidos',
+    classe: 'bg-red-500 text-white',
+    icone: Trash2,
+  },
+};
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface DecisaoLoteModalProps {
+  numeroLote: string;
+  tipo: TipoDecisaoLote;
+  onFechar: () => void;
+  /** Chamado após a decisão registrada (recarregar lotes) */
+  onConcluido: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: DecisaoLoteModal
+// Aprovação, rejeição ou cancelamento de um lote (comentário obrigatório)
+// ============================================================================
+export default function DecisaoLoteModal({ numeroLote, tipo, onFechar, onConcluido }: DecisaoLoteModalProps) {
+  const [comentario, setComentario] = useState('');
+  const [enviando, setEnviando] = useState(false);
+  const decisao = DECISOES[tipo];
+  const Icone = decisao.icone;
+
+  // ========================================
+  // AÇÃO: Registrar a decisão
+  // ========================================
+  const handleConfirmar = async () => {
+    setEnviando(true);
+    try {
+      const corpo = { comentario: comentario.trim() };
+      if (tipo === 'cancelar') {
+        await api.delete(`/financeiro/lotes/${numeroLote}`, { data: corpo });
+      } else {
+        await api.patch(`/financeiro/lotes/${numeroLote}/${tipo}`, corpo);
+      }
+      toast.success(decisao.sucesso);
+      onConcluido();
+      onFechar();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, `Erro ao ${tipo} lote`));
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-lg rounded-2xl border border-border bg-card p-6 space-y-4 shadow-2xl">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Icone className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="text-lg font-bold text-foreground">
+                {decisao.titulo} — {numeroLote}
+              </h3>
+              <p className="text-xs text-muted-foreground">{decisao.descricao}</p>
+            </div>
+          </div>
+          <button onClick={onFechar} className="rounded-lg p-1 hover:bg-muted/40" title="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <label className="block space-y-1 text-sm">
+          <span className="text-muted-foreground">Comentário (obrigatório, fica na auditoria)</span>
+          <textarea
+            value={comentario}
+            onChange={(e) => setComentario(e.target.value)}
+            maxLength={500}
+            rows={4}
+            className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-foreground"
+          />
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onFechar}
+            className="rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40"
+          >
+            Voltar
+          </button>
+          <button
+            onClick={handleConfirmar}
+            disabled={!comentario.trim() || enviando}
+            className={`flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-semibold disabled:opacity-50 ${decisao.classe}`}
+          >
+            {enviando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Icone className="h-4 w-4" />}
+            {decisao.botao}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
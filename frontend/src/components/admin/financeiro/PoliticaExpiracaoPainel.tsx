@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Hourglass, Loader2, Play, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+// Espelha GET /livro-razao/expiracao/politica
+interface PoliticaExpiracao {
+  validadeMeses: number;
+  diasAviso: number;
+}
+
+// Espelha POST /livro-razao/expiracao/execucao
+interface ResultadoExpiracao {
+  usuariosExpirados: number;
+  totalExpirado: number;
+  avisosEnviados: number;
+}
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface PoliticaExpiracaoPainelProps {
+  /** Chamado após uma execução manual (para recarregar as métricas) */
+  onExecutado?: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: PoliticaExpiracaoPainel
+// Validade dos créditos de saldo, aviso prévio e execução manual da expiração
+// ============================================================================
+export default function PoliticaExpiracaoPainel({ onExecutado }: PoliticaExpiracaoPainelProps) {
+  const [validadeMeses, setValidadeMeses] = useState('0');
+  const [diasAviso, setDiasAviso] = useState('30');
+  const [carregando, setCarregando] = useState(true);
+  const [salvando, setSalvando] = useState(false);
+  const [executando, setExecutando] = useState(false);
+
+  useEffect(() => {
+    api
+      .get<PoliticaExpiracao>('/livro-razao/expiracao/politica')
+      .then(({ data }) => {
+        setValidadeMeses(String(data.validadeMeses));
+        setDiasAviso(String(data.diasAviso));
+      })
+      .catch((error) => toast.error(mensagemDeErro(error, 'Erro ao carregar política de expiração')))
+      .finally(() => setCarregando(false));
+  }, []);
+
+  // ========================================
+  // AÇÃO: Salvar política
+  // ========================================
+  const handleSalvar = async () => {
+    setSalvando(true);
+    try {
+      const { data } = await api.put<PoliticaExpiracao>('/livro-razao/expiracao/politica', {
+        validadeMeses: Number(validadeMeses),
+        diasAviso: Number(diasAviso),
+      });
+      setValidadeMeses(String(data.validadeMeses));
+      setDiasAviso(String(data.diasAviso));
+      toast.success('Política de expiração salva. Vale a partir da próxima execução.');
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao salvar política de expiração'));
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Executar expiração agora
+  // ========================================
+  const handleExecutar = async () => {
+    if (!confirm('Executar agora a expiração de pontos vencidos? Os débitos não podem ser desfeitos.')) return;
+
+    setExecutando(true);
+    try {
+      const { data } = await api.post<ResultadoExpiracao>('/livro-razao/expiracao/execucao');
+      toast.success(
+        `${data.usuariosExpirados} usuário(s), R$ ${data.totalExpirado.toLocaleString('pt-BR', { minimumFractionDigits: 2 })} expirados, ${data.avisosEnviados} aviso(s) enviados.`,
+      );
+      onExecutado?.();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao executar expiração'));
+    } finally {
+      setExecutando(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-sm disabled:opacity-50';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-gray-200 dark:border-gray-700 shadow-lg space-y-4 no-print">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Hourglass className="w-6 h-6 text-rose-500" />
+            Expiração de Pontos
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Créditos não pagos expiram após a validade, dos mais antigos para os mais recentes. Valores em lote não expiram.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExecutar}
+            disabled={executando || carregando || Number(validadeMeses) === 0}
+            className="px-4 py-2 rounded-lg border border-rose-300 text-rose-600 dark:text-rose-400 text-sm font-medium hover:bg-rose-50 dark:hover:bg-rose-900/20 disabled:opacity-50 flex items-center gap-2"
+            title="Executar agora (a rotina roda todas as noites)"
+          >
+            {executando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Executar agora
+          </button>
+          <button
+            onClick={handleSalvar}
+            disabled={salvando || carregando}
+            className="px-4 py-2 rounded-lg bg-emerald-500 text-white text-sm font-medium hover:bg-emerald-600 disabled:opacity-50 flex items-center gap-2"
+          >
+            {salvando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Salvar
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Validade dos créditos (meses)</span>
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={validadeMeses}
+            disabled={carregando}
+            onChange={(e) => setValidadeMeses(e.target.value)}
+            className={inputClass}
+          />
+          <span className="block text-xs text-gray-500 dark:text-gray-400">0 = pontos não expiram</span>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Aviso prévio ao usuário (dias)</span>
+          <input
+            type="number"
+            min={0}
+            max={180}
+            value={diasAviso}
+            disabled={carregando}
+            onChange={(e) => setDiasAviso(e.target.value)}
+            className={inputClass}
+          />
+          <span className="block text-xs text-gray-500 dark:text-gray-400">0 = sem aviso</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2, FileDown, Loader2, Send, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+// Espelha GET /financeiro/lotes/:numeroLote/remessa
+interface PagamentoIncluido {
+  usuarioId: string;
+  nome: string;
+  papel: string;
+  tipoChavePix: string;
+  chavePix: string;
+  valor: number;
+  identificadorRemessa: string | null;
+}
+
+interface PagamentoRetido {
+  usuarioId: string;
+  nome: string;
+  papel: string;
+  valor: number;
+  motivo: string;
+}
+
+interface PreviaRemessa {
+  numeroLote: string;
+  status: string;
+  layouts: { codigo: string; nome: string }[];
+  configuracoesFaltando: string[];
+  incluidos: PagamentoIncluido[];
+  retidos: PagamentoRetido[];
+  totais: { incluidos: number; valorIncluido: number; retidos: number; valorRetido: number };
+}
+
+const formatarMoeda = (valor: number) =>
+  valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const mensagemDeErro = async (error: unknown, padrao: string) => {
+  const dados = (error as AxiosError<{ message?: string | string[] } | Blob>).response?.data;
+  // Download (responseType blob): o corpo do erro chega como Blob
+  const corpo = dados instanceof Blob ? JSON.parse((await dados.text()) || '{}') : dados;
+  const mensagem = corpo?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface RemessaPixModalProps {
+  numeroLote: string;
+  onFechar: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: RemessaPixModal
+// Prévia e geração do arquivo de pagamento PIX (CNAB) de um lote aprovado
+// ============================================================================
+export default function RemessaPixModal({ numeroLote, onFechar }: RemessaPixModalProps) {
+  const [previa, setPrevia] = useState<PreviaRemessa | null>(null);
+  const [carregando, setCarregando] = useState(true);
+  const [layout, setLayout] = useState('');
+  const [dataPagamento, setDataPagamento] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [gerando, setGerando] = useState(false);
+
+  useEffect(() => {
+    api
+      .get<PreviaRemessa>(`/financeiro/lotes/${numeroLote}/remessa`)
+      .then(({ data }) => {
+        setPrevia(data);
+        setLayout(data.layouts[0]?.codigo ?? '');
+      })
+      .catch(async (error) => toast.error(await mensagemDeErro(error, 'Erro ao carregar prévia da remessa')))
+      .finally(() => setCarregando(false));
+  }, [numeroLote]);
+
+  // ========================================
+  // AÇÃO: Gerar e baixar o arquivo
+  // ========================================
+  const handleGerar = async () => {
+    setGerando(true);
+    try {
+      const response = await api.post(
+        `/financeiro/lotes/${numeroLote}/remessa`,
+        { layout, dataPagamento },
+        { responseType: 'blob' },
+      );
+
+      const nomeArquivo =
+        /filename=([^;]+)/.exec(response.headers['content-disposition'] ?? '')?.[1] ?? `remessa-${numeroLote}.rem`;
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', nomeArquivo);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+
+      const retidos = Number(response.headers['x-remessa-retidos'] ?? 0);
+      toast.success(
+        retidos > 0
+          ? `Remessa gerada. ${retidos} usuário(s) sem chave PIX ficaram fora do arquivo.`
+          : 'Remessa gerada com todos os usuários do lote.',
+      );
+      onFechar();
+    } catch (error) {
+      toast.error(await mensagemDeErro(error, 'Erro ao gerar remessa'));
+    } finally {
+      setGerando(false);
+    }
+  };
+
+  const podeGerar =
+    !!previa && previa.status === 'APROVADO' && previa.configuracoesFaltando.length === 0 && previa.incluidos.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl border border-border bg-card p-6 space-y-4 shadow-2xl">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Send className="h-5 w-5 text-primary" />
+            <div>
+              <h3 className="text-lg font-bold text-foreground">Remessa PIX — {numeroLote}</h3>
+              <p className="text-xs text-muted-foreground">
+                Arquivo de pagamento em lote para importar no banco. Uma transferência por usuário.
+              </p>
+            </div>
+          </div>
+          <button onClick={onFechar} className="rounded-lg p-1 hover:bg-muted/40" title="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {carregando && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {previa && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div className="rounded-lg bg-emerald-500/10 p-3">
+                <p className="text-muted-foreground">No arquivo</p>
+                <p className="font-semibold text-foreground">
+                  {previa.totais.incluidos} usuário(s) • {formatarMoeda(previa.totais.valorIncluido)}
+                </p>
+              </div>
+              <div className="rounded-lg bg-amber-500/10 p-3">
+                <p className="text-muted-foreground">Retidos (pagamento manual)</p>
+                <p className="font-semibold text-foreground">
+                  {previa.totais.retidos} usuário(s) • {formatarMoeda(previa.totais.valorRetido)}
+                </p>
+              </div>
+            </div>
+
+            {previa.status !== 'APROVADO' && (
+              <p className="text-sm text-destructive">Lote {previa.status}: apenas lotes aprovados geram remessa.</p>
+            )}
+
+            {previa.configuracoesFaltando.length > 0 && (
+              <div className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-xs">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 text-destructive" />
+                <p className="text-foreground">
+                  Dados da empresa pagadora não configurados: {previa.configuracoesFaltando.join(', ')}. Cadastre-os em
+                  Configurações Globais.
+                </p>
+              </div>
+            )}
+
+            {previa.retidos.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-semibold text-foreground">Fora do arquivo</p>
+                <div className="max-h-40 overflow-y-auto divide-y divide-border/20 rounded-lg bg-amber-500/5 text-xs">
+                  {previa.retidos.map((retido) => (
+                    <div key={retido.usuarioId} className="flex items-center justify-between gap-2 p-2">
+                      <span className="font-medium text-foreground">
+                        {retido.nome} <span className="text-muted-foreground">({retido.papel})</span>
+                      </span>
+                      <span className="text-amber-600">{retido.motivo}</span>
+                      <span className="font-semibold">{formatarMoeda(retido.valor)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {previa.incluidos.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-sm font-semibold text-foreground">No arquivo</p>
+                <div className="max-h-48 overflow-y-auto divide-y divide-border/20 rounded-lg bg-muted/40 text-xs">
+                  {previa.incluidos.map((pagamento) => (
+                    <div key={pagamento.usuarioId} className="flex items-center justify-between gap-2 p-2">
+                      <span className="font-medium text-foreground">{pagamento.nome}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {pagamento.tipoChavePix}: {pagamento.chavePix}
+                      </span>
+                      <span className="flex items-center gap-1 font-semibold">
+                        {pagamento.identificadorRemessa && (
+                          <CheckCircle2 className="h-3 w-3 text-emerald-600" aria-label="Já exportado" />
+                        )}
+                        {formatarMoeda(pagamento.valor)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Layout</span>
+                <select
+                  value={layout}
+                  onChange={(e) => setLayout(e.target.value)}
+                  className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-foreground"
+                >
+                  {previa.layouts.map((opcao) => (
+                    <option key={opcao.codigo} value={opcao.codigo}>
+                      {opcao.nome}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="text-muted-foreground">Data de pagamento</span>
+                <input
+                  type="date"
+                  value={dataPagamento}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setDataPagamento(e.target.value)}
+                  className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-foreground"
+                />
+              </label>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Cada geração recebe um novo número sequencial: envie ao banco apenas o último arquivo gerado.
+            </p>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={onFechar}
+                className="rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40"
+              >
+                Fechar
+              </button>
+              <button
+                onClick={handleGerar}
+                disabled={!podeGerar || gerando}
+                className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+              >
+                {gerando ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+                Gerar arquivo
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowDownToLine, CheckCircle, Loader2, Save, Send, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+// Espelha GET /financeiro/resgates/politica
+interface PoliticaResgate {
+  valorMinimo: number;
+  intervaloDias: number;
+}
+
+type StatusSolicitacaoResgate = 'SOLICITADO' | 'APROVADO' | 'EM_LOTE' | 'PAGO' | 'REJEITADO' | 'CANCELADO';
+
+// Espelha um item de GET /financeiro/resgates
+interface SolicitacaoResgate {
+  id: string;
+  valor: number;
+  status: StatusSolicitacaoResgate;
+  motivo: string | null;
+  criadoEm: string;
+  usuario: {
+    id: string;
+    nome: string;
+    email: string;
+    papel: 'VENDEDOR' | 'GERENTE';
+    chavePixCadastrada: boolean;
+  };
+  analisadoPor: { id: string; nome: string } | null;
+  numeroLote: string | null;
+}
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+interface SolicitacoesResgatePainelProps {
+  /** Chamado após gerar um lote com os resgates aprovados (recarregar lotes) */
+  onLoteGerado?: () => void;
+}
+
+// ============================================================================
+// COMPONENTE: SolicitacoesResgatePainel
+// Fila de resgates solicitados pelos usuários, aprovação/rejeição e limites
+// ============================================================================
+export default function SolicitacoesResgatePainel({ onLoteGerado }: SolicitacoesResgatePainelProps) {
+  const [solicitacoes, setSolicitacoes] = useState<SolicitacaoResgate[]>([]);
+  const [valorMinimo, setValorMinimo] = useState('0');
+  const [intervaloDias, setIntervaloDias] = useState('30');
+  const [carregando, setCarregando] = useState(true);
+  const [salvando, setSalvando] = useState(false);
+  const [processandoId, setProcessandoId] = useState<string | null>(null);
+  const [gerandoLote, setGerandoLote] = useState(false);
+
+  const carregarFila = () =>
+    Promise.all([
+      api.get<{ solicitacoes: SolicitacaoResgate[] }>('/financeiro/resgates', { params: { status: 'SOLICITADO' } }),
+      api.get<{ solicitacoes: SolicitacaoResgate[] }>('/financeiro/resgates', { params: { status: 'APROVADO' } }),
+    ]).then(([solicitados, aprovados]) =>
+      setSolicitacoes([...solicitados.data.solicitacoes, ...aprovados.data.solicitacoes]),
+    );
+
+  useEffect(() => {
+    Promise.all([
+      carregarFila(),
+      api.get<PoliticaResgate>('/financeiro/resgates/politica').then(({ data }) => {
+        setValorMinimo(String(data.valorMinimo));
+        setIntervaloDias(String(data.intervaloDias));
+      }),
+    ])
+      .catch((error) => toast.error(mensagemDeErro(error, 'Erro ao carregar solicitações de resgate')))
+      .finally(() => setCarregando(false));
+  }, []);
+
+  // ========================================
+  // AÇÃO: Salvar limites
+  // ========================================
+  const handleSalvarPolitica = async () => {
+    setSalvando(true);
+    try {
+      const { data } = await api.put<PoliticaResgate>('/financeiro/resgates/politica', {
+        valorMinimo: Number(valorMinimo),
+        intervaloDias: Number(intervaloDias),
+      });
+      setValorMinimo(String(data.valorMinimo));
+      setIntervaloDias(String(data.intervaloDias));
+      toast.success('Limites de resgate salvos');
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao salvar limites de resgate'));
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Aprovar / rejeitar
+  // ========================================
+  const handleDecidir = async (solicitacao: SolicitacaoResgate, decisao: 'aprovar' | 'rejeitar') => {
+    let corpo: { motivo: string } | undefined;
+    if (decisao === 'rejeitar') {
+      const motivo = window.prompt(`Motivo da rejeição do resgate de ${solicitacao.usuario.nome}:`);
+      if (!motivo?.trim()) return;
+      corpo = { motivo: motivo.trim() };
+    }
+
+    setProcessandoId(solicitacao.id);
+    try {
+      await api.patch(`/financeiro/resgates/${solicitacao.id}/${decisao}`, corpo);
+      toast.success(decisao === 'aprovar' ? 'Resgate aprovado' : 'Resgate rejeitado e saldo devolvido');
+      await carregarFila();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, `Erro ao ${decisao} resgate`));
+    } finally {
+      setProcessandoId(null);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Gerar lote apenas com os resgates aprovados
+  // ========================================
+  const handleGerarLote = async () => {
+    setGerandoLote(true);
+    try {
+      const { data } = await api.post<{ numeroLote: string; totalRelatorios: number }>('/financeiro/lotes', {
+        dataCorte: new Date().toISOString(),
+        observacoes: 'Lote de resgates solicitados',
+        apenasResgates: true,
+      });
+      toast.success(`Lote ${data.numeroLote} gerado com ${data.totalRelatorios} resgate(s)`);
+      await carregarFila();
+      onLoteGerado?.();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao gerar lote de resgates'));
+    } finally {
+      setGerandoLote(false);
+    }
+  };
+
+  const aprovados = solicitacoes.filter((s) => s.status === 'APROVADO');
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ArrowDownToLine className="h-5 w-5 text-primary" />
+          <div>
+            <h3 className="text-lg font-bold text-foreground">Solicitações de resgate</h3>
+            <p className="text-xs text-muted-foreground">
+              Valores já reservados do saldo dos usuários. Aprovados entram no próximo lote gerado.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={handleGerarLote}
+          disabled={gerandoLote || aprovados.length === 0}
+          className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+        >
+          {gerandoLote ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          Gerar lote só com aprovados ({aprovados.length})
+        </button>
+      </div>
+
+      {carregando ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : solicitacoes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma solicitação aguardando análise ou lote.</p>
+      ) : (
+        <div className="divide-y divide-border/50 rounded-xl border border-border/50">
+          {solicitacoes.map((solicitacao) => (
+            <div key={solicitacao.id} className="flex flex-wrap items-center justify-between gap-3 p-3 text-sm">
+              <div>
+                <p className="font-semibold text-foreground">
+                  {solicitacao.usuario.nome}{' '}
+                  <span className="text-xs font-normal text-muted-foreground">({solicitacao.usuario.papel})</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  R$ {solicitacao.valor.toFixed(2)} • solicitado em{' '}
+                  {new Date(solicitacao.criadoEm).toLocaleDateString('pt-BR')}
+                  {!solicitacao.usuario.chavePixCadastrada && ' • sem chave PIX'}
+                  {solicitacao.analisadoPor && ` • aprovado por ${solicitacao.analisadoPor.nome}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {solicitacao.status === 'SOLICITADO' && (
+                  <button
+                    onClick={() => handleDecidir(solicitacao, 'aprovar')}
+                    disabled={processandoId === solicitacao.id}
+                    className="flex items-center gap-1 rounded-lg bg-emerald-500 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+                  >
+                    <CheckCircle className="h-3.5 w-3.5" />
+                    Aprovar
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDecidir(solicitacao, 'rejeitar')}
+                  disabled={processandoId === solicitacao.id}
+                  className="flex items-center gap-1 rounded-lg bg-red-500 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+                >
+                  <XCircle className="h-3.5 w-3.5" />
+                  Rejeitar
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 border-t border-border/50 pt-4 md:grid-cols-3 md:items-end">
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Valor mínimo por resgate (R$, 0 = sem mínimo)</span>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={valorMinimo}
+            onChange={(e) => setValorMinimo(e.target.value)}
+            className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-foreground"
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Dias entre resgates do mesmo usuário (0 = livre)</span>
+          <input
+            type="number"
+            min={0}
+            max={365}
+            value={intervaloDias}
+            onChange={(e) => setIntervaloDias(e.target.value)}
+            className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-foreground"
+          />
+        </label>
+        <button
+          onClick={handleSalvarPolitica}
+          disabled={salvando || carregando}
+          className="flex items-center justify-center gap-2 rounded-lg border border-border px-4 py-2 text-sm font-semibold hover:bg-muted/40 disabled:opacity-50"
+        >
+          {salvando ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          Salvar limites
+        </button>
+      </div>
+    </div>
+  );
+}
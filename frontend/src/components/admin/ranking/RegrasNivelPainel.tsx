@@ -0,0 +1,289 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Award, Loader2, RefreshCw, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AxiosError } from 'axios';
+import api from '@/lib/axios';
+
+type Nivel = 'BRONZE' | 'PRATA' | 'OURO' | 'DIAMANTE';
+type CriterioNivel = 'PONTOS_VALIDADOS' | 'CARTELAS_CONCLUIDAS';
+
+// Espelha GET /niveis/regras (valorMinimo chega como string Decimal)
+interface RegraNivel {
+  nivel: Nivel;
+  criterio: CriterioNivel;
+  valorMinimo: string | number;
+  janelaDias: number;
+}
+
+// Linha editável do formulário (nível sem regra = desativado)
+interface RegraForm {
+  ativa: boolean;
+  criterio: CriterioNivel;
+  valorMinimo: string;
+  janelaDias: string;
+}
+
+interface ResultadoRecalculo {
+  recalculadoEm: string;
+  vendedoresAvaliados: number;
+  promovidos: number;
+  rebaixados: number;
+}
+
+interface HistoricoNivel {
+  id: string;
+  nivelAnterior: Nivel;
+  nivelNovo: Nivel;
+  recalculadoPorId: string | null;
+  criadoEm: string;
+  usuario: { id: string; nome: string };
+}
+
+const NIVEIS_COM_REGRA: Nivel[] = ['PRATA', 'OURO', 'DIAMANTE'];
+const ORDEM_NIVEIS: Nivel[] = ['BRONZE', ...NIVEIS_COM_REGRA];
+
+const ROTULOS_NIVEL: Record<Nivel, string> = {
+  BRONZE: 'Bronze',
+  PRATA: 'Prata',
+  OURO: 'Ouro',
+  DIAMANTE: 'Diamante',
+};
+
+const ROTULOS_CRITERIO: Record<CriterioNivel, string> = {
+  PONTOS_VALIDADOS: 'R$ em pontos validados',
+  CARTELAS_CONCLUIDAS: 'Cartelas concluídas',
+};
+
+const FORM_VAZIO: Record<Nivel, RegraForm> = {
+  BRONZE: { ativa: false, criterio: 'PONTOS_VALIDADOS', valorMinimo: '', janelaDias: '90' },
+  PRATA: { ativa: false, criterio: 'PONTOS_VALIDADOS', valorMinimo: '', janelaDias: '90' },
+  OURO: { ativa: false, criterio: 'PONTOS_VALIDADOS', valorMinimo: '', janelaDias: '90' },
+  DIAMANTE: { ativa: false, criterio: 'PONTOS_VALIDADOS', valorMinimo: '', janelaDias: '90' },
+};
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(', ') : mensagem || padrao;
+};
+
+const buscarDados = () =>
+  Promise.all([api.get<RegraNivel[]>('/niveis/regras'), api.get<HistoricoNivel[]>('/niveis/historico')]);
+
+const montarForm = (regras: RegraNivel[]) => {
+  const form = { ...FORM_VAZIO };
+  for (const regra of regras) {
+    form[regra.nivel] = {
+      ativa: true,
+      criterio: regra.criterio,
+      valorMinimo: String(Number(regra.valorMinimo)),
+      janelaDias: String(regra.janelaDias),
+    };
+  }
+  return form;
+};
+
+// ============================================================================
+// COMPONENTE: RegrasNivelPainel
+// Regras de progressão de nível dos vendedores, recálculo manual e histórico
+// ============================================================================
+export default function RegrasNivelPainel() {
+  const [form, setForm] = useState<Record<Nivel, RegraForm>>(FORM_VAZIO);
+  const [historico, setHistorico] = useState<HistoricoNivel[]>([]);
+  const [carregando, setCarregando] = useState(true);
+  const [salvando, setSalvando] = useState(false);
+  const [recalculando, setRecalculando] = useState(false);
+  const [resultado, setResultado] = useState<ResultadoRecalculo | null>(null);
+
+  useEffect(() => {
+    buscarDados()
+      .then(([{ data: regras }, { data: mudancas }]) => {
+        setForm(montarForm(regras));
+        setHistorico(mudancas.slice(0, 20));
+      })
+      .catch((error) => toast.error(mensagemDeErro(error, 'Erro ao carregar regras de nível')))
+      .finally(() => setCarregando(false));
+  }, []);
+
+  const atualizarLinha = (nivel: Nivel, campos: Partial<RegraForm>) => {
+    setForm((prev) => ({ ...prev, [nivel]: { ...prev[nivel], ...campos } }));
+  };
+
+  // ========================================
+  // AÇÃO: Salvar regras
+  // ========================================
+  const handleSalvar = async () => {
+    const regras = NIVEIS_COM_REGRA.filter((nivel) => form[nivel].ativa).map((nivel) => ({
+      nivel,
+      criterio: form[nivel].criterio,
+      valorMinimo: Number(form[nivel].valorMinimo),
+      janelaDias: Number(form[nivel].janelaDias),
+    }));
+
+    if (regras.some((regra) => !(regra.valorMinimo > 0) || !Number.isInteger(regra.janelaDias))) {
+      toast.error('Informe um valor mínimo maior que zero e uma janela em dias inteiros');
+      return;
+    }
+
+    setSalvando(true);
+    try {
+      await api.put('/niveis/regras', { regras });
+      toast.success('Regras de nível salvas. Elas valem a partir do próximo recálculo.');
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao salvar regras de nível'));
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Recalcular níveis agora
+  // ========================================
+  const handleRecalcular = async () => {
+    setRecalculando(true);
+    try {
+      const { data } = await api.post<ResultadoRecalculo>('/niveis/recalcular');
+      setResultado(data);
+      toast.success(`Níveis recalculados: ${data.promovidos} promoção(ões), ${data.rebaixados} rebaixamento(s)`);
+      const [{ data: regras }, { data: mudancas }] = await buscarDados();
+      setForm(montarForm(regras));
+      setHistorico(mudancas.slice(0, 20));
+    } catch (error) {
+      toast.error(mensagemDeErro(error, 'Erro ao recalcular níveis'));
+    } finally {
+      setRecalculando(false);
+    }
+  };
+
+  if (carregando) {
+    return (
+      <div className="bg-card/70 border border-border/20 rounded-2xl p-6 flex items-center gap-2 text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" /> Carregando regras de nível...
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card/70 border border-border/20 rounded-2xl p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Award className="w-5 h-5 text-warning" />
+          <div>
+            <h3 className="text-lg font-bold">Níveis dos Vendedores</h3>
+            <p className="text-xs text-muted-foreground">
+              Recalculados toda madrugada. Todos começam em Bronze; o vendedor fica no maior nível cuja regra atingir.
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleSalvar}
+            disabled={salvando}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-warning text-warning-foreground font-semibold disabled:opacity-50"
+          >
+            {salvando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Salvar regras
+          </button>
+          <button
+            onClick={handleRecalcular}
+            disabled={recalculando}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-border font-semibold hover:bg-warning/10 disabled:opacity-50"
+          >
+            {recalculando ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Recalcular agora
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {NIVEIS_COM_REGRA.map((nivel) => {
+          const linha = form[nivel];
+          return (
+            <div key={nivel} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-center rounded-xl bg-muted/30 p-3">
+              <label className="flex items-center gap-2 font-semibold">
+                <input
+                  type="checkbox"
+                  checked={linha.ativa}
+                  onChange={(e) => atualizarLinha(nivel, { ativa: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                {ROTULOS_NIVEL[nivel]}
+              </label>
+              <select
+                value={linha.criterio}
+                disabled={!linha.ativa}
+                onChange={(e) => atualizarLinha(nivel, { criterio: e.target.value as CriterioNivel })}
+                className="h-10 px-3 bg-background/60 border border-border/50 rounded-lg text-sm disabled:opacity-50"
+              >
+                {Object.entries(ROTULOS_CRITERIO).map(([valor, rotulo]) => (
+                  <option key={valor} value={valor}>
+                    {rotulo}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                step={linha.criterio === 'PONTOS_VALIDADOS' ? '0.01' : '1'}
+                placeholder="Mínimo"
+                value={linha.valorMinimo}
+                disabled={!linha.ativa}
+                onChange={(e) => atualizarLinha(nivel, { valorMinimo: e.target.value })}
+                className="h-10 px-3 bg-background/60 border border-border/50 rounded-lg text-sm disabled:opacity-50"
+              />
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>nos últimos</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={730}
+                  value={linha.janelaDias}
+                  disabled={!linha.ativa}
+                  onChange={(e) => atualizarLinha(nivel, { janelaDias: e.target.value })}
+                  className="h-10 w-24 px-3 bg-background/60 border border-border/50 rounded-lg text-sm disabled:opacity-50"
+                />
+                <span>dias</span>
+              </label>
+            </div>
+          );
+        })}
+      </div>
+
+      {resultado && (
+        <p className="text-sm text-muted-foreground">
+          Último recálculo: {new Date(resultado.recalculadoEm).toLocaleString('pt-BR')} •{' '}
+          {resultado.vendedoresAvaliados} vendedor(es) avaliado(s) • {resultado.promovidos} promovido(s) •{' '}
+          {resultado.rebaixados} rebaixado(s)
+        </p>
+      )}
+
+      <div>
+        <h4 className="text-sm font-bold mb-2">Mudanças recentes</h4>
+        {historico.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma mudança de nível registrada.</p>
+        ) : (
+          <ul className="divide-y divide-border/20 text-sm">
+            {historico.map((item) => {
+              const promocao = ORDEM_NIVEIS.indexOf(item.nivelNovo) > ORDEM_NIVEIS.indexOf(item.nivelAnterior);
+              return (
+                <li key={item.id} className="py-2 flex flex-wrap justify-between gap-2">
+                  <span>
+                    <strong>{item.usuario.nome}</strong>: {ROTULOS_NIVEL[item.nivelAnterior]} →{' '}
+                    <span className={promocao ? 'text-success font-semibold' : 'text-destructive font-semibold'}>
+                      {ROTULOS_NIVEL[item.nivelNovo]}
+                    </span>
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(item.criadoEm).toLocaleString('pt-BR')}
+                    {item.recalculadoPorId ? ' • manual' : ' • automático'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
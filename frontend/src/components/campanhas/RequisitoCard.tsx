@@ -67,6 +67,30 @@ interface EnvioVenda {
   pontosAdicionadosAoSaldo?: boolean;
 }
 
+/**
+ * Aviso não bloqueante devolvido por POST /api/envios-venda
+ */
+interface AvisoEnvio {
+  codigo: string;
+  mensagem: string;
+  totalReivindicacoes: number;
+}
+
+/**
+ * Títulos dos bloqueios de elegibilidade (codigo de POST /api/envios-venda)
+ */
+const TITULOS_INELEGIBILIDADE: Record<string, string> = {
+  CAMPANHA_NAO_ENCONTRADA: "Campanha indisponível",
+  CAMPANHA_INATIVA: "Campanha inativa",
+  CAMPANHA_NAO_INICIADA: "Campanha ainda não começou",
+  CAMPANHA_ENCERRADA: "Campanha encerrada",
+  REQUISITO_FORA_DA_CAMPANHA: "Requisito inválido",
+  VENDEDOR_SEM_OTICA: "Ótica não vinculada",
+  OTICA_FORA_DO_ALVO: "Ótica não participante",
+  NIVEL_INSUFICIENTE: "Nível insuficiente",
+  PEDIDO_JA_ENVIADO: "Pedido duplicado",
+};
+
 /**
  * Props do componente RequisitoCard
  * (ATUALIZADO Sprint 16.5: Nova prop status, numeroCartelaAtual e idsRequisitosRelacionados)
@@ -442,7 +466,7 @@ export default function RequisitoCard({
       // Chamada à API de envio de vendas
       const requisitoIdParaEnvio = requisitoDestinoId || requisito.id;
 
-      await api.post("/envios-venda", {
+      const { data } = await api.post<{ avisos?: AvisoEnvio[] }>("/envios-venda", {
         numeroPedido: numeroPedido.trim(),
         campanhaId,
         requisitoId: requisitoIdParaEnvio,
@@ -451,18 +475,26 @@ export default function RequisitoCard({
       // Feedback de sucesso
       toast.success(`Pedido '${numeroPedido}' submetido para validação! 🎯`);
 
+      // Avisos não bloqueantes (ex: pedido já enviado por um colega)
+      data.avisos?.forEach((aviso) => toast(aviso.mensagem, { icon: "⚠️", duration: 8000 }));
+
       // Limpa o input após sucesso
       setNumeroPedido("");
 
       // **REFETCH**: Chama callback para atualizar lista de envios na página pai
       onSubmissaoSucesso();
     } catch (error: any) {
-      // Tratamento de erros da API
+      // Tratamento de erros da API (bloqueios de elegibilidade vêm com codigo)
+      const codigo: string | undefined = error.response?.data?.codigo;
       const mensagemErro =
         error.response?.data?.message ||
         error.response?.data?.error ||
         "Erro ao submeter pedido. Tente novamente.";
-      toast.error(mensagemErro);
+      toast.error(
+        codigo && TITULOS_INELEGIBILIDADE[codigo]
+          ? `${TITULOS_INELEGIBILIDADE[codigo]}: ${mensagemErro}`
+          : mensagemErro
+      );
     } finally {
       setIsSubmitting(false);
     }
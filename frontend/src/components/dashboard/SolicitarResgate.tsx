@@ -0,0 +1,237 @@
+/**
+ * ============================================================================
+ * COMPONENT: SOLICITAR RESGATE
+ * ============================================================================
+ *
+ * Propósito:
+ * Vendedores e gerentes pedem o resgate de parte (ou de todo) o saldo
+ * disponível. O valor fica reservado até o pagamento no próximo lote
+ * (depois da aprovação do admin) ou até a rejeição/cancelamento.
+ *
+ * Limites (valor mínimo e intervalo entre solicitações) vêm da política de
+ * resgate configurada pelo admin.
+ *
+ * @module Dashboard
+ * ============================================================================
+ */
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { AxiosError } from "axios";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import api from "@/lib/axios";
+import { AlertCircle, ArrowDownToLine, Clock, Loader2, X } from "lucide-react";
+
+type StatusSolicitacaoResgate = "SOLICITADO" | "APROVADO" | "EM_LOTE" | "PAGO" | "REJEITADO" | "CANCELADO";
+
+interface SolicitacaoResgate {
+  id: string;
+  valor: number;
+  status: StatusSolicitacaoResgate;
+  motivo: string | null;
+  analisadoEm: string | null;
+  criadoEm: string;
+}
+
+// Espelha GET /perfil/resgates
+interface MeusResgates {
+  saldoDisponivel: number;
+  chavePixCadastrada: boolean;
+  politica: { valorMinimo: number; intervaloDias: number };
+  solicitacaoEmAberto: SolicitacaoResgate | null;
+  proximaSolicitacaoEm: string | null;
+  solicitacoes: SolicitacaoResgate[];
+}
+
+const ROTULOS_STATUS: Record<StatusSolicitacaoResgate, string> = {
+  SOLICITADO: "Aguardando análise",
+  APROVADO: "Aprovado, aguardando lote",
+  EM_LOTE: "Em pagamento",
+  PAGO: "Pago",
+  REJEITADO: "Rejeitado",
+  CANCELADO: "Cancelado",
+};
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+const fetcherResgates = async (url: string): Promise<MeusResgates> => {
+  const res = await api.get(url);
+  return res.data;
+};
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(", ") : mensagem || padrao;
+};
+
+interface SolicitarResgateProps {
+  /** Chamado após solicitar ou cancelar (o saldo do dashboard mudou) */
+  onSaldoAlterado?: () => void;
+}
+
+/**
+ * Botão de resgate com formulário e andamento da solicitação em aberto.
+ */
+export function SolicitarResgate({ onSaldoAlterado }: SolicitarResgateProps) {
+  const { data, mutate } = useSWR<MeusResgates>("/perfil/resgates", fetcherResgates, {
+    revalidateOnFocus: false,
+  });
+  // Valor digitado (null = formulário fechado)
+  const [valor, setValor] = useState<string | null>(null);
+  const [enviando, setEnviando] = useState(false);
+
+  if (!data) {
+    return null;
+  }
+
+  const { saldoDisponivel, politica, solicitacaoEmAberto, proximaSolicitacaoEm } = data;
+  const ultima = data.solicitacoes[0];
+  const valorNumero = Number((valor ?? "").replace(",", "."));
+  const saldoAbaixoDoMinimo = saldoDisponivel < Math.max(politica.valorMinimo, 0.01);
+  const bloqueio = solicitacaoEmAberto
+    ? null
+    : proximaSolicitacaoEm
+      ? `Próximo resgate a partir de ${format(new Date(proximaSolicitacaoEm), "dd/MM/yyyy", { locale: ptBR })}`
+      : saldoAbaixoDoMinimo
+        ? `Resgate mínimo de ${currencyFormatter.format(politica.valorMinimo)}`
+        : null;
+
+  const atualizar = async () => {
+    await mutate();
+    onSaldoAlterado?.();
+  };
+
+  // ========================================
+  // AÇÃO: Solicitar resgate
+  // ========================================
+  const handleSolicitar = async () => {
+    setEnviando(true);
+    try {
+      await api.post("/perfil/resgates", { valor: Math.round(valorNumero * 100) / 100 });
+      toast.success("Resgate solicitado! O valor ficou reservado até o pagamento.");
+      setValor(null);
+      await atualizar();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, "Erro ao solicitar resgate"));
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Cancelar solicitação em análise
+  // ========================================
+  const handleCancelar = async (id: string) => {
+    setEnviando(true);
+    try {
+      await api.delete(`/perfil/resgates/${id}`);
+      toast.success("Solicitação cancelada. O valor voltou para o seu saldo.");
+      await atualizar();
+    } catch (error) {
+      toast.error(mensagemDeErro(error, "Erro ao cancelar resgate"));
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-border/40 bg-card/60 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <ArrowDownToLine className="h-4 w-4 text-primary" />
+          <div>
+            <p className="text-sm font-semibold text-foreground">Resgatar saldo</p>
+            <p className="text-xs text-muted-foreground">
+              Disponível: {currencyFormatter.format(saldoDisponivel)}
+              {politica.valorMinimo > 0 && ` • mínimo ${currencyFormatter.format(politica.valorMinimo)}`}
+              {politica.intervaloDias > 0 && ` • 1 resgate a cada ${politica.intervaloDias} dia(s)`}
+            </p>
+          </div>
+        </div>
+
+        {solicitacaoEmAberto ? (
+          <div className="flex items-center gap-2 text-sm">
+            <Clock className="h-4 w-4 text-warning" />
+            <span className="font-medium text-foreground">
+              {currencyFormatter.format(solicitacaoEmAberto.valor)} — {ROTULOS_STATUS[solicitacaoEmAberto.status]}
+            </span>
+            {solicitacaoEmAberto.status === "SOLICITADO" && (
+              <button
+                onClick={() => handleCancelar(solicitacaoEmAberto.id)}
+                disabled={enviando}
+                className="rounded-lg border border-border px-2 py-1 text-xs font-semibold hover:bg-muted/40 disabled:opacity-50"
+              >
+                Cancelar
+              </button>
+            )}
+          </div>
+        ) : bloqueio ? (
+          <span className="text-xs text-muted-foreground">{bloqueio}</span>
+        ) : (
+          valor === null && (
+            <button
+              onClick={() => setValor(saldoDisponivel.toFixed(2))}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground hover:bg-primary/90"
+            >
+              Solicitar resgate
+            </button>
+          )
+        )}
+      </div>
+
+      {valor !== null && !solicitacaoEmAberto && !bloqueio && (
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="flex-1 space-y-1 text-xs">
+            <span className="text-muted-foreground">Valor do resgate (R$)</span>
+            <input
+              type="number"
+              min={politica.valorMinimo || 0.01}
+              max={saldoDisponivel}
+              step="0.01"
+              value={valor}
+              onChange={(e) => setValor(e.target.value)}
+              className="w-full rounded-lg border border-border/50 bg-background/60 px-3 py-2 text-sm text-foreground"
+            />
+          </label>
+          <button
+            onClick={() => setValor(saldoDisponivel.toFixed(2))}
+            className="rounded-lg border border-border px-3 py-2 text-xs font-semibold hover:bg-muted/40"
+          >
+            Tudo
+          </button>
+          <button
+            onClick={handleSolicitar}
+            disabled={
+              enviando || !(valorNumero > 0) || valorNumero > saldoDisponivel || valorNumero < politica.valorMinimo
+            }
+            className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground disabled:opacity-50"
+          >
+            {enviando && <Loader2 className="h-4 w-4 animate-spin" />}
+            Confirmar
+          </button>
+          <button onClick={() => setValor(null)} className="rounded-lg p-2 hover:bg-muted/40" title="Fechar">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {!data.chavePixCadastrada && (
+        <p className="flex items-center gap-1 text-xs text-warning">
+          <AlertCircle className="h-3.5 w-3.5" />
+          Cadastre sua chave PIX no perfil para receber o pagamento.
+        </p>
+      )}
+      {!solicitacaoEmAberto && ultima?.motivo && (ultima.status === "REJEITADO" || ultima.status === "CANCELADO") && (
+        <p className="text-xs text-muted-foreground">
+          Último resgate {ultima.status === "REJEITADO" ? "rejeitado" : "não pago"}: {ultima.motivo}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * COMPONENT: EXTRATO DE COMISSÕES CARD
+ * ============================================================================
+ *
+ * Lançamentos de comissão do gerente (créditos, bônus de equipe e estornos)
+ * com a regra de comissão que produziu cada crédito.
+ *
+ * @module DashboardGerente
+ * ============================================================================
+ */
+"use client";
+
+import useSWR from "swr";
+import { motion } from "framer-motion";
+import { Receipt, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import api from "@/lib/axios";
+
+type TipoRegraComissao = "FAIXA_CARTELA" | "FAIXA_VOLUME_EQUIPE" | "OVERRIDE_MATRIZ" | "BONUS_EQUIPE";
+
+// Espelha GET /perfil/minhas-comissoes
+interface LancamentoComissao {
+  id: string;
+  tipo: "COMISSAO_GERENTE" | "BONUS_EQUIPE" | "REVERSAO_VALIDACAO" | "ESTORNO_ENVIO";
+  valor: number;
+  descricao: string;
+  campanhaTitulo: string | null;
+  numeroCartela: number | null;
+  criadoEm: string;
+  regra: { id: string; tipo: TipoRegraComissao | null; descricao: string | null } | null;
+}
+
+const ROTULOS_REGRA: Record<TipoRegraComissao, string> = {
+  FAIXA_CARTELA: "Faixa de cartela",
+  FAIXA_VOLUME_EQUIPE: "Faixa de volume",
+  OVERRIDE_MATRIZ: "Override da matriz",
+  BONUS_EQUIPE: "Bônus de equipe",
+};
+
+const currencyFormatter = new Intl.NumberFormat("pt-BR", {
+  style: "currency",
+  currency: "BRL",
+});
+
+const fetcher = (url: string) => api.get<LancamentoComissao[]>(url).then((res) => res.data);
+
+export function ExtratoComissoesCard() {
+  const { data: lancamentos, isLoading } = useSWR("/perfil/minhas-comissoes", fetcher, {
+    revalidateOnFocus: false,
+  });
+
+  const rotuloRegra = (lancamento: LancamentoComissao) => {
+    if (lancamento.tipo === "REVERSAO_VALIDACAO" || lancamento.tipo === "ESTORNO_ENVIO") return "Estorno";
+    if (!lancamento.regra) return "Percentual da campanha";
+    return lancamento.regra.tipo ? ROTULOS_REGRA[lancamento.regra.tipo] : "Regra removida";
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="rounded-2xl border border-border/30 bg-card/60 p-6 space-y-4"
+    >
+      <div className="flex items-center gap-2">
+        <Receipt className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-bold text-foreground">Extrato de Comissões</h3>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" /> Carregando lançamentos...
+        </div>
+      )}
+
+      {lancamentos && lancamentos.length === 0 && (
+        <p className="text-sm text-muted-foreground">Nenhuma comissão lançada ainda.</p>
+      )}
+
+      {lancamentos && lancamentos.length > 0 && (
+        <div className="max-h-96 overflow-y-auto divide-y divide-border/20">
+          {lancamentos.map((lancamento) => (
+            <div key={lancamento.id} className="py-3 flex flex-wrap items-start justify-between gap-3">
+              <div className="space-y-1 min-w-0">
+                <p className="text-sm text-foreground">{lancamento.descricao}</p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(lancamento.criadoEm), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                  {" • "}
+                  <span className="font-medium">{rotuloRegra(lancamento)}</span>
+                  {lancamento.regra?.descricao && <> ({lancamento.regra.descricao})</>}
+                </p>
+              </div>
+              <span
+                className={`text-sm font-bold whitespace-nowrap ${
+                  lancamento.valor < 0 ? "text-destructive" : "text-emerald-600"
+                }`}
+              >
+                {currencyFormatter.format(lancamento.valor)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
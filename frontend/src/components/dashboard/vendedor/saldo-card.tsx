@@ -3,6 +3,7 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { Wallet, TrendingUp, DollarSign, Lock, Info } from "lucide-react";
 import { useState } from "react";
+import { SolicitarResgate } from "@/components/dashboard/SolicitarResgate";
 
 interface SaldoCardProps {
   saldo: {
@@ -11,6 +12,8 @@ interface SaldoCardProps {
     total: number;
     ganhosMes: number;
   };
+  /** Chamado após solicitar/cancelar um resgate (recarregar o saldo) */
+  onSaldoAlterado?: () => void;
 }
 
 /**
@@ -53,7 +56,7 @@ function InfoTooltip({ text, colorClass }: { text: string; colorClass: string })
   );
 }
 
-export function SaldoCard({ saldo }: SaldoCardProps) {
+export function SaldoCard({ saldo, onSaldoAlterado }: SaldoCardProps) {
   const { disponivel, reservado, total, ganhosMes } = saldo;
 
   return (
@@ -177,6 +180,11 @@ export function SaldoCard({ saldo }: SaldoCardProps) {
             </p>
           </motion.div>
         </div>
+
+        {/* Resgate do saldo disponível */}
+        <div className="mt-4">
+          <SolicitarResgate onSaldoAlterado={onSaldoAlterado} />
+        </div>
       </div>
     </motion.div>
   );
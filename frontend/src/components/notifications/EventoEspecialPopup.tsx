@@ -11,6 +11,10 @@ interface EventoEspecial {
   nome: string;
   descricao?: string;
   multiplicador: number;
+  tipoBonus?: "MULTIPLICADOR" | "VALOR_FIXO";
+  valorFixo?: string | number | null;
+  ordensRequisito?: number[];
+  codigosProduto?: string[];
   corDestaque: string;
   dataInicio: string;
   dataFim: string;
@@ -23,6 +27,12 @@ interface CampanhaComEvento {
   eventosEspeciais?: EventoEspecial[];
 }
 
+function rotuloBonus(evento: EventoEspecial) {
+  return evento.tipoBonus === "VALOR_FIXO"
+    ? `+R$ ${Number(evento.valorFixo || 0).toLocaleString("pt-BR", { minimumFractionDigits: 2 })} por pedido`
+    : `x${evento.multiplicador}`;
+}
+
 function todayKeyBR(date = new Date()) {
   // Chave diária simples para exibir uma vez ao dia por usuário
   const y = date.getFullYear();
@@ -51,7 +61,8 @@ export default function EventoEspecialPopup() {
 
     (async () => {
       try {
-        // Buscar campanhas visíveis (já vem com eventos ativos no backend em /campanhas)
+        // Buscar campanhas visíveis (o backend já devolve só os eventos ativos
+        // que alcançam a ótica/UF do vendedor)
         const resp = await api.get<CampanhaComEvento[]>("/campanhas");
         const comEvento = resp.data
           .filter((c) => (c.eventosEspeciais || []).length > 0)
@@ -103,12 +114,21 @@ export default function EventoEspecialPopup() {
             </div>
             <div>
               <p className="text-xs uppercase text-muted-foreground">Evento Especial</p>
-              <h3 className="text-xl font-bold">{evento.nome} • x{evento.multiplicador}</h3>
+              <h3 className="text-xl font-bold">{evento.nome} • {rotuloBonus(evento)}</h3>
             </div>
           </div>
           <p className="mb-4 text-sm text-muted-foreground">
             {evento.descricao || "Ganhe mais ao enviar pedidos durante o período do evento!"}
           </p>
+          {((evento.codigosProduto?.length ?? 0) > 0 || (evento.ordensRequisito?.length ?? 0) > 0) && (
+            <p className="mb-2 text-xs text-muted-foreground">
+              Válido apenas para{" "}
+              {(evento.codigosProduto?.length ?? 0) > 0
+                ? `os produtos ${evento.codigosProduto!.join(", ")}`
+                : "alguns requisitos"}{" "}
+              da campanha {campanha.titulo}.
+            </p>
+          )}
           <div className="mb-6 text-xs text-muted-foreground">
             Vigência: {formatarDataBR(evento.dataInicio)} até {formatarDataBR(evento.dataFim)}
           </div>
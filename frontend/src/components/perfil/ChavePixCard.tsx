@@ -0,0 +1,183 @@
+/**
+ * ============================================================================
+ * CARD: CHAVE PIX PARA RECEBIMENTO
+ * ============================================================================
+ *
+ * Propósito:
+ * Cadastro da chave PIX usada nos pagamentos dos lotes (VENDEDOR e GERENTE).
+ * Quem não tem chave válida fica fora do arquivo de pagamento do banco e
+ * depende de pagamento manual.
+ *
+ * A chave é validada e normalizada pelo backend conforme o tipo
+ * (ex: telefone gravado como +5511987654321).
+ *
+ * @module Perfil
+ * ============================================================================
+ */
+"use client";
+
+import { useState } from "react";
+import useSWR, { mutate } from "swr";
+import { AxiosError } from "axios";
+import toast from "react-hot-toast";
+import api from "@/lib/axios";
+import { AlertCircle, CheckCircle2, KeyRound, Loader2, Save, Trash2 } from "lucide-react";
+
+type TipoChavePix = "CPF" | "EMAIL" | "TELEFONE" | "ALEATORIA";
+
+interface DadosPerfilPix {
+  papel: "ADMIN" | "GERENTE" | "VENDEDOR";
+  tipoChavePix: TipoChavePix | null;
+  chavePix: string | null;
+}
+
+const TIPOS_CHAVE: { valor: TipoChavePix; rotulo: string; placeholder: string }[] = [
+  { valor: "CPF", rotulo: "CPF", placeholder: "000.000.000-00" },
+  { valor: "EMAIL", rotulo: "E-mail", placeholder: "seu@email.com" },
+  { valor: "TELEFONE", rotulo: "Celular", placeholder: "(11) 98765-4321" },
+  { valor: "ALEATORIA", rotulo: "Chave aleatória", placeholder: "123e4567-e89b-12d3-a456-426614174000" },
+];
+
+const fetcherPerfil = async (url: string): Promise<DadosPerfilPix> => {
+  const res = await api.get(url);
+  return res.data;
+};
+
+const mensagemDeErro = (error: unknown, padrao: string) => {
+  const mensagem = (error as AxiosError<{ message?: string | string[] }>).response?.data?.message;
+  return Array.isArray(mensagem) ? mensagem.join(", ") : mensagem || padrao;
+};
+
+/**
+ * Card de cadastro da chave PIX.
+ */
+export function ChavePixCard() {
+  const { data: dadosPerfil } = useSWR<DadosPerfilPix>("/perfil/meu", fetcherPerfil);
+  // Edição em andamento (null = exibindo a chave gravada)
+  const [rascunho, setRascunho] = useState<{ tipo: TipoChavePix; chave: string } | null>(null);
+  const [salvando, setSalvando] = useState(false);
+
+  if (!dadosPerfil || dadosPerfil.papel === "ADMIN") {
+    return null;
+  }
+
+  const tipo = rascunho?.tipo ?? dadosPerfil.tipoChavePix ?? "CPF";
+  const chave = rascunho?.chave ?? dadosPerfil.chavePix ?? "";
+  const possuiChave = !!dadosPerfil.tipoChavePix && !!dadosPerfil.chavePix;
+  const placeholder = TIPOS_CHAVE.find((t) => t.valor === tipo)?.placeholder;
+
+  const salvar = async (payload: { tipoChavePix: TipoChavePix | null; chavePix: string | null }) => {
+    setSalvando(true);
+    try {
+      await api.patch("/perfil/meu", payload);
+      await mutate("/perfil/meu");
+      setRascunho(null);
+      toast.success(payload.chavePix ? "Chave PIX salva!" : "Chave PIX removida.");
+    } catch (error) {
+      toast.error(mensagemDeErro(error, "Erro ao salvar chave PIX"));
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  return (
+    <div
+      className="bg-gradient-to-br from-card/95 via-card/90 to-card/95
+                 backdrop-blur-xl border border-border/30 rounded-3xl
+                 shadow-2xl shadow-primary/5 transition-all duration-500 overflow-hidden h-fit"
+    >
+      {/* Cabeçalho */}
+      <div className="relative p-6 md:p-8 border-b border-border/30 bg-gradient-to-r from-primary/5 via-transparent to-primary/5">
+        <div className="flex items-start gap-4">
+          <div className="p-3 rounded-2xl bg-primary/10 border border-primary/20 backdrop-blur-sm">
+            <KeyRound className="w-6 h-6 text-primary" />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-2xl font-bold text-foreground tracking-tight">Chave PIX</h3>
+            <p className="text-sm text-muted-foreground mt-2 leading-relaxed">
+              Conta onde você recebe os pagamentos da campanha
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Corpo */}
+      <div className="p-6 md:p-8 space-y-5">
+        <div className="space-y-2.5">
+          <label className="block text-sm font-bold text-foreground tracking-wide uppercase">Tipo da chave</label>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {TIPOS_CHAVE.map((opcao) => (
+              <button
+                key={opcao.valor}
+                type="button"
+                onClick={() => setRascunho({ tipo: opcao.valor, chave: opcao.valor === tipo ? chave : "" })}
+                className={`px-3 py-2 rounded-xl border-2 text-sm font-semibold transition-colors ${
+                  tipo === opcao.valor
+                    ? "border-primary bg-primary/10 text-primary"
+                    : "border-border/50 text-muted-foreground hover:bg-muted/40"
+                }`}
+              >
+                {opcao.rotulo}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2.5">
+          <label htmlFor="chavePix" className="block text-sm font-bold text-foreground tracking-wide uppercase">
+            Chave
+          </label>
+          <input
+            id="chavePix"
+            value={chave}
+            onChange={(e) => setRascunho({ tipo, chave: e.target.value })}
+            placeholder={placeholder}
+            className="w-full h-14 px-4 text-base bg-background/60 border-2 border-border/50 rounded-xl
+                       text-foreground focus:outline-none focus:border-primary"
+          />
+        </div>
+
+        {possuiChave ? (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-success/5 border border-success/30">
+            <CheckCircle2 className="w-5 h-5 text-success flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              Seus pagamentos serão enviados por PIX para a chave cadastrada.
+            </p>
+          </div>
+        ) : (
+          <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/5 border border-amber-500/30">
+            <AlertCircle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <p className="text-xs text-muted-foreground leading-relaxed">
+              Sem chave PIX cadastrada, seus pagamentos ficam fora do envio automático ao banco e podem atrasar.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {possuiChave && (
+            <button
+              type="button"
+              disabled={salvando}
+              onClick={() => salvar({ tipoChavePix: null, chavePix: null })}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl border border-border/50 text-sm font-semibold
+                         text-destructive hover:bg-destructive/10 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Remover
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={salvando || !rascunho || !chave.trim()}
+            onClick={() => salvar({ tipoChavePix: tipo, chavePix: chave.trim() })}
+            className="flex items-center gap-2 px-5 py-2 rounded-xl bg-primary text-primary-foreground text-sm font-semibold
+                       disabled:opacity-50"
+          >
+            {salvando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Salvar chave
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
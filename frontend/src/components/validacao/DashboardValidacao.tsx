@@ -12,7 +12,11 @@ import {
   BarChart3,
   AlertTriangle,
   Target,
+  ListChecks,
+  XCircle,
 } from "lucide-react";
+import toast from "react-hot-toast";
+import type { AxiosError } from "axios";
 import {
   LineChart,
   Line,
@@ -28,6 +32,21 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
+import {
+  useJobsValidacao,
+  cancelarJobValidacao,
+  jobEstaAtivo,
+  JobValidacao,
+} from "@/hooks/useJobsValidacao";
+
+// Rótulos e cores por status de job
+const ESTILO_STATUS_JOB: Record<JobValidacao["status"], { rotulo: string; classe: string }> = {
+  PENDENTE: { rotulo: "Pendente", classe: "bg-gray-100 text-gray-700" },
+  PROCESSANDO: { rotulo: "Processando", classe: "bg-blue-100 text-blue-700" },
+  CONCLUIDO: { rotulo: "Concluído", classe: "bg-green-100 text-green-700" },
+  CANCELADO: { rotulo: "Cancelado", classe: "bg-orange-100 text-orange-700" },
+  FALHOU: { rotulo: "Falhou", classe: "bg-red-100 text-red-700" },
+};
 
 interface DashboardValidacaoProps {
   statsDashboard: any;
@@ -42,6 +61,20 @@ export default function DashboardValidacao({
   erroDashboard,
   buscarStatsDashboard,
 }: DashboardValidacaoProps) {
+  // Jobs de validação (polling automático enquanto houver job ativo)
+  const { jobs, mutate: atualizarJobs } = useJobsValidacao();
+
+  const handleCancelarJob = async (jobId: string) => {
+    try {
+      await cancelarJobValidacao(jobId);
+      toast("Cancelamento solicitado. O job para ao fim do lote atual.", { icon: "⏳" });
+      atualizarJobs();
+    } catch (err) {
+      const erro = err as AxiosError<{ message?: string }>;
+      toast.error(erro.response?.data?.message || "Erro ao cancelar a validação.");
+    }
+  };
+
   return (
     <motion.div
       key="dashboard"
@@ -78,6 +111,73 @@ export default function DashboardValidacao({
         </div>
       </div>
 
+      {/* Jobs de Validação (assíncronos) */}
+      {jobs.length > 0 && (
+        <div className="glass rounded-xl p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <ListChecks className="w-5 h-5 text-blue-500" />
+            <h3 className="text-lg font-semibold">Jobs de Validação</h3>
+          </div>
+          <div className="space-y-3">
+            {jobs.map((job) => {
+              const percentual = job.total > 0 ? (job.processados / job.total) * 100 : 0;
+              const estilo = ESTILO_STATUS_JOB[job.status];
+
+              return (
+                <div key={job.id} className="p-4 rounded-lg border border-gray-200/50 bg-white/60">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold truncate">
+                        {job.nomeArquivo || "Planilha"}{" "}
+                        <span className="text-xs font-normal text-muted-foreground">
+                          {job.ehSimulacao ? "(Simulação)" : "(Real)"} ·{" "}
+                          {new Date(job.criadoEm).toLocaleString("pt-BR")}
+                          {job.admin ? ` · ${job.admin.nome}` : ""}
+                        </span>
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`text-xs font-medium px-2 py-1 rounded-full ${estilo.classe}`}>
+                        {estilo.rotulo}
+                      </span>
+                      {jobEstaAtivo(job) && (
+                        <button
+                          onClick={() => handleCancelarJob(job.id)}
+                          disabled={job.cancelamentoSolicitado}
+                          className="flex items-center gap-1 text-xs px-2 py-1 rounded-lg bg-red-500 text-white hover:bg-red-600 disabled:opacity-50"
+                        >
+                          <XCircle className="w-3 h-3" />
+                          {job.cancelamentoSolicitado ? "Cancelando..." : "Cancelar"}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all"
+                      style={{ width: `${percentual}%` }}
+                    />
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-3 text-xs text-muted-foreground">
+                    <span>
+                      {job.processados}/{job.total} envios
+                    </span>
+                    <span className="text-green-700">✓ {job.validado}</span>
+                    <span className="text-red-700">✗ {job.rejeitado}</span>
+                    <span className="text-orange-700">⚠ {job.conflito_manual}</span>
+                    <span>⏳ {job.em_analise}</span>
+                    {job.historicoValidacaoId && (
+                      <span className="font-mono">Histórico: {job.historicoValidacaoId.slice(0, 8)}</span>
+                    )}
+                    {job.mensagemErro && <span className="text-red-600">{job.mensagemErro}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Loading State */}
       {carregandoDashboard && !statsDashboard && (
         <div className="glass rounded-xl p-12">
@@ -0,0 +1,299 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Download,
+  Filter,
+  Search,
+  Loader2,
+  ArrowRight,
+  Trophy,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/axios";
+
+// ============================================================================
+// TIPOS
+// Espelha LinhaDiffSimulacao do backend (resultado.diffSimulacao)
+// ============================================================================
+export interface LinhaDiffSimulacao {
+  envioId: string;
+  numeroPedido: string;
+  vendedor: { id: string; nome: string };
+  optica: { nome: string; cnpj: string };
+  campanha: { id: string; titulo: string };
+  statusAntes: string;
+  statusDepois: string;
+  motivo: string | null;
+  multiplicador: number;
+  pontosPrevistos: number;
+  cartelaAtendida: number | null;
+  cartelaConcluida: number | null;
+  pontosCreditados: number;
+  recompensaRetida?: "ENFILEIRADA" | "BLOQUEADA" | null; // Orçamento da campanha esgotado
+}
+
+interface DiffSimulacaoProps {
+  linhas: LinhaDiffSimulacao[];
+  jobId: string | null;
+}
+
+// Cores por status
+const COR_STATUS: Record<string, string> = {
+  EM_ANALISE: "bg-gray-100 text-gray-700",
+  VALIDADO: "bg-green-100 text-green-700",
+  REJEITADO: "bg-red-100 text-red-700",
+  CONFLITO_MANUAL: "bg-yellow-100 text-yellow-700",
+};
+
+const LINHAS_POR_PAGINA = 50;
+
+const formatarReais = (valor: number) =>
+  valor.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// ============================================================================
+// COMPONENTE: DiffSimulacao
+// Diff por envio de uma simulação, com filtros e exportação XLSX
+// ============================================================================
+export default function DiffSimulacao({ linhas, jobId }: DiffSimulacaoProps) {
+  const [filtroStatus, setFiltroStatus] = useState<string>("TODOS");
+  const [apenasMudancas, setApenasMudancas] = useState(false);
+  const [apenasConclusoes, setApenasConclusoes] = useState(false);
+  const [busca, setBusca] = useState("");
+  const [pagina, setPagina] = useState(1);
+  const [exportando, setExportando] = useState(false);
+
+  const linhasFiltradas = useMemo(() => {
+    const termo = busca.trim().toLowerCase();
+    return linhas.filter((linha) => {
+      if (filtroStatus !== "TODOS" && linha.statusDepois !== filtroStatus) return false;
+      if (apenasMudancas && linha.statusAntes === linha.statusDepois) return false;
+      if (apenasConclusoes && linha.cartelaConcluida === null) return false;
+      if (!termo) return true;
+      return (
+        linha.numeroPedido.toLowerCase().includes(termo) ||
+        linha.vendedor.nome.toLowerCase().includes(termo) ||
+        linha.optica.nome.toLowerCase().includes(termo)
+      );
+    });
+  }, [linhas, filtroStatus, apenasMudancas, apenasConclusoes, busca]);
+
+  const totalPaginas = Math.max(1, Math.ceil(linhasFiltradas.length / LINHAS_POR_PAGINA));
+  const paginaAtual = Math.min(pagina, totalPaginas);
+  const linhasPagina = linhasFiltradas.slice(
+    (paginaAtual - 1) * LINHAS_POR_PAGINA,
+    paginaAtual * LINHAS_POR_PAGINA
+  );
+
+  const totalCreditado = linhasFiltradas.reduce((acc, l) => acc + l.pontosCreditados, 0);
+  const totalConclusoes = linhasFiltradas.filter((l) => l.cartelaConcluida !== null).length;
+
+  // ========================================
+  // AÇÃO: Exportar XLSX (filtro de status aplicado no backend)
+  // ========================================
+  const handleExportar = async () => {
+    if (!jobId) return;
+    setExportando(true);
+
+    try {
+      const response = await api.get(`/validacao/jobs/${jobId}/simulacao/exportar-excel`, {
+        params: filtroStatus !== "TODOS" ? { status: filtroStatus } : undefined,
+        responseType: "blob",
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement("a");
+      link.href = url;
+      link.setAttribute("download", `simulacao-${jobId.slice(0, 8)}.xlsx`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+
+      toast.success("Diff da simulação exportado", { icon: "📊" });
+    } catch {
+      toast.error("Erro ao exportar o diff da simulação");
+    } finally {
+      setExportando(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="glass rounded-2xl p-6 space-y-4"
+    >
+      {/* Cabeçalho */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-bold">Diff da Simulação</h3>
+          <p className="text-sm text-muted-foreground">
+            {linhasFiltradas.length} de {linhas.length} envios · {totalConclusoes} cartela(s) concluída(s) ·{" "}
+            {formatarReais(totalCreditado)} creditados
+          </p>
+        </div>
+        <button
+          onClick={handleExportar}
+          disabled={!jobId || exportando}
+          className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-lg shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+        >
+          {exportando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Exportar XLSX
+        </button>
+      </div>
+
+      {/* Filtros */}
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Filter className="w-4 h-4 text-muted-foreground" />
+        <select
+          value={filtroStatus}
+          onChange={(e) => {
+            setFiltroStatus(e.target.value);
+            setPagina(1);
+          }}
+          className="px-3 py-1.5 rounded-lg border border-border bg-background"
+        >
+          <option value="TODOS">Todos os status</option>
+          <option value="VALIDADO">Validado</option>
+          <option value="REJEITADO">Rejeitado</option>
+          <option value="CONFLITO_MANUAL">Conflito manual</option>
+          <option value="EM_ANALISE">Em análise</option>
+        </select>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={apenasMudancas}
+            onChange={(e) => {
+              setApenasMudancas(e.target.checked);
+              setPagina(1);
+            }}
+          />
+          Apenas mudanças de status
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={apenasConclusoes}
+            onChange={(e) => {
+              setApenasConclusoes(e.target.checked);
+              setPagina(1);
+            }}
+          />
+          Apenas cartelas concluídas
+        </label>
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <input
+            type="text"
+            value={busca}
+            onChange={(e) => {
+              setBusca(e.target.value);
+              setPagina(1);
+            }}
+            placeholder="Pedido, vendedor ou ótica"
+            className="w-full pl-8 pr-3 py-1.5 rounded-lg border border-border bg-background"
+          />
+        </div>
+      </div>
+
+      {/* Tabela */}
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50 text-left">
+            <tr>
+              <th className="px-3 py-2">Pedido</th>
+              <th className="px-3 py-2">Vendedor / Ótica</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2">Motivo</th>
+              <th className="px-3 py-2 text-right">Pontos</th>
+              <th className="px-3 py-2 text-center">Cartela</th>
+              <th className="px-3 py-2 text-right">Crédito</th>
+            </tr>
+          </thead>
+          <tbody>
+            {linhasPagina.map((linha) => (
+              <tr key={linha.envioId} className="border-t border-border align-top">
+                <td className="px-3 py-2 font-mono">{linha.numeroPedido}</td>
+                <td className="px-3 py-2">
+                  <p className="font-medium">{linha.vendedor.nome}</p>
+                  <p className="text-xs text-muted-foreground">{linha.optica.nome}</p>
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-1.5 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${COR_STATUS[linha.statusAntes] || ""}`}>
+                      {linha.statusAntes}
+                    </span>
+                    <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${COR_STATUS[linha.statusDepois] || ""}`}>
+                      {linha.statusDepois}
+                    </span>
+                  </div>
+                </td>
+                <td className="px-3 py-2 text-xs text-muted-foreground max-w-md">{linha.motivo || "—"}</td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  {linha.pontosPrevistos > 0 ? formatarReais(linha.pontosPrevistos) : "—"}
+                  {linha.multiplicador > 1 && (
+                    <span className="ml-1 text-xs text-purple-600">({linha.multiplicador}x)</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-center whitespace-nowrap">
+                  {linha.cartelaAtendida ?? "—"}
+                  {linha.cartelaConcluida !== null && (
+                    <span className="ml-1 inline-flex items-center gap-0.5 text-xs text-amber-600 font-semibold">
+                      <Trophy className="w-3 h-3" />C{linha.cartelaConcluida}
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-right whitespace-nowrap font-semibold">
+                  {linha.pontosCreditados > 0 ? formatarReais(linha.pontosCreditados) : "—"}
+                  {linha.recompensaRetida && (
+                    <p
+                      className={`text-xs font-normal ${
+                        linha.recompensaRetida === "ENFILEIRADA" ? "text-amber-600" : "text-red-600"
+                      }`}
+                    >
+                      {linha.recompensaRetida === "ENFILEIRADA" ? "Na fila do orçamento" : "Bloqueada pelo orçamento"}
+                    </p>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {linhasPagina.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-3 py-6 text-center text-muted-foreground">
+                  Nenhum envio corresponde aos filtros.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Paginação */}
+      {totalPaginas > 1 && (
+        <div className="flex items-center justify-center gap-2 text-sm">
+          <button
+            onClick={() => setPagina(Math.max(1, paginaAtual - 1))}
+            disabled={paginaAtual === 1}
+            className="p-1.5 rounded-lg border border-border disabled:opacity-50"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>
+            Página {paginaAtual} de {totalPaginas}
+          </span>
+          <button
+            onClick={() => setPagina(Math.min(totalPaginas, paginaAtual + 1))}
+            disabled={paginaAtual === totalPaginas}
+            className="p-1.5 rounded-lg border border-border disabled:opacity-50"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,362 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, Loader2, PackageX, PlayCircle, Undo2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { AxiosError } from "axios";
+import api from "@/lib/axios";
+import { formatarMoeda } from "@/lib/timezone";
+import UploadPlanilha from "@/components/validacao/UploadPlanilha";
+
+/**
+ * Colunas de número de pedido (cada uma corresponde a um tipo de pedido de campanha)
+ */
+const CAMPOS_PEDIDO = [
+  { campo: "NUMERO_PEDIDO_OS", label: "Número Pedido (OS/OP EPS)" },
+  { campo: "NUMERO_PEDIDO_OPTICLICK", label: "Número Pedido (OptiClick)" },
+  { campo: "NUMERO_PEDIDO_ONLINE", label: "Número Pedido (EPSWEB)" },
+  { campo: "NUMERO_PEDIDO_ENVELOPE", label: "Número Pedido (Envelope da Ótica)" },
+] as const;
+
+type StatusPedidoDevolucao = "ESTORNADO" | "NAO_VALIDADO" | "NAO_ENCONTRADO";
+
+// Espelha RelatorioImportacaoDevolucao de POST /validacao/devolucoes
+interface RelatorioDevolucoes {
+  importacaoId: string | null;
+  ehSimulacao: boolean;
+  nomeArquivo: string;
+  totalLinhas: number;
+  totalEstornados: number;
+  totalNaoEncontrados: number;
+  totalNaoValidados: number;
+  valorDebitado: number;
+  totalPontosPagos: number;
+  pedidos: {
+    numeroPedido: string;
+    tipoPedido: string;
+    linhas: number[];
+    status: StatusPedidoDevolucao;
+    enviosIgnorados: { envioId: string; status: string; vendedor: string; campanha: string }[];
+    estornos: {
+      envioId: string;
+      vendedor: string;
+      campanha: string;
+      numeroCartela: number;
+      pontosPagos: boolean;
+      debitos: { usuarioId: string; papel: "VENDEDOR" | "GERENTE"; valor: number; saldoAtual: number }[];
+      cartelasRemovidas: number[];
+    }[];
+  }[];
+}
+
+const ESTILOS_STATUS: Record<StatusPedidoDevolucao, { rotulo: string; classe: string }> = {
+  ESTORNADO: { rotulo: "Estornado", classe: "bg-red-500/10 text-red-600" },
+  NAO_VALIDADO: { rotulo: "Não validado", classe: "bg-amber-500/10 text-amber-600" },
+  NAO_ENCONTRADO: { rotulo: "Não encontrado", classe: "bg-muted text-muted-foreground" },
+};
+
+interface ImportacaoDevolucoesProps {
+  campanhas: { id: string; titulo: string }[];
+}
+
+// ============================================================================
+// COMPONENTE: ImportacaoDevolucoes
+// Planilha de pedidos devolvidos/cancelados -> estorno em lote dos envios
+// validados (simulação antes da execução real)
+// ============================================================================
+export default function ImportacaoDevolucoes({ campanhas }: ImportacaoDevolucoesProps) {
+  const [arquivo, setArquivo] = useState<File | null>(null);
+  const [cabecalhos, setCabecalhos] = useState<string[]>([]);
+  const [colunasPedido, setColunasPedido] = useState<Record<string, string>>({});
+  const [campanhaId, setCampanhaId] = useState("TODAS");
+  const [motivo, setMotivo] = useState("");
+  const [relatorio, setRelatorio] = useState<RelatorioDevolucoes | null>(null);
+  const [processando, setProcessando] = useState(false);
+
+  // ========================================
+  // Planilha carregada: pré-seleciona as colunas do mapeamento salvo
+  // ========================================
+  const handlePlanilhaCarregada = async (novosCabecalhos: string[], _linhas: unknown[], novoArquivo: File) => {
+    setArquivo(novoArquivo);
+    setCabecalhos(novosCabecalhos);
+    setRelatorio(null);
+
+    const colunas: Record<string, string> = {};
+    try {
+      const { data } = await api.get<{ mapeamento: Record<string, string> | null }>("/validacao/mapeamento");
+      for (const [coluna, campo] of Object.entries(data.mapeamento ?? {})) {
+        if (novosCabecalhos.includes(coluna) && CAMPOS_PEDIDO.some((c) => c.campo === campo)) {
+          colunas[campo] = coluna;
+        }
+      }
+    } catch {
+      // Sem mapeamento salvo: o admin escolhe as colunas manualmente
+    }
+    setColunasPedido(colunas);
+  };
+
+  // ========================================
+  // AÇÃO: Simular / aplicar estornos
+  // ========================================
+  const handleProcessar = async (ehSimulacao: boolean) => {
+    if (!arquivo) return;
+
+    const mapaColunas = Object.fromEntries(
+      Object.entries(colunasPedido)
+        .filter(([, coluna]) => coluna)
+        .map(([campo, coluna]) => [coluna, campo])
+    );
+
+    if (Object.keys(mapaColunas).length === 0) {
+      toast.error("Selecione ao menos uma coluna de número de pedido");
+      return;
+    }
+    if (motivo.trim().length < 5) {
+      toast.error("Informe o motivo do estorno (mínimo 5 caracteres)");
+      return;
+    }
+    if (
+      !ehSimulacao &&
+      !window.confirm(
+        "Os envios validados encontrados serão estornados e os pontos debitados dos vendedores e gerentes. Confirmar?"
+      )
+    ) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("arquivo", arquivo);
+    formData.append("campanhaId", campanhaId);
+    formData.append("ehSimulacao", String(ehSimulacao));
+    formData.append("motivo", motivo.trim());
+    formData.append("mapaColunas", JSON.stringify(mapaColunas));
+
+    setProcessando(true);
+    try {
+      const { data } = await api.post<RelatorioDevolucoes>("/validacao/devolucoes", formData, {
+        headers: { "Content-Type": "multipart/form-data" },
+      });
+      setRelatorio(data);
+      toast.success(
+        ehSimulacao
+          ? `Simulação: ${data.totalEstornados} pedido(s) seriam estornados`
+          : `${data.totalEstornados} pedido(s) estornados`
+      );
+    } catch (error) {
+      const axiosError = error as AxiosError<{ message?: string | string[] }>;
+      const mensagem = axiosError.response?.data?.message;
+      toast.error(Array.isArray(mensagem) ? mensagem.join(", ") : mensagem || "Erro ao importar devoluções");
+    } finally {
+      setProcessando(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="glass rounded-xl p-6 border border-border/50 space-y-4">
+        <div className="flex items-center gap-2">
+          <PackageX className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-bold text-foreground">Devoluções e Cancelamentos</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Importe a planilha de pedidos devolvidos/cancelados do laboratório. Cada pedido encontrado como
+          validado é estornado: o envio volta para rejeitado, a recompensa é debitada e as cartelas são
+          recalculadas. Simule antes de aplicar.
+        </p>
+
+        <UploadPlanilha onPlanilhaCarregada={handlePlanilhaCarregada} />
+
+        {cabecalhos.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {CAMPOS_PEDIDO.map(({ campo, label }) => (
+                <label key={campo} className="text-xs font-semibold text-muted-foreground space-y-1">
+                  <span>{label}</span>
+                  <select
+                    value={colunasPedido[campo] ?? ""}
+                    onChange={(e) => setColunasPedido((atual) => ({ ...atual, [campo]: e.target.value }))}
+                    className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm text-foreground"
+                  >
+                    <option value="">Não usar</option>
+                    {cabecalhos.map((cabecalho) => (
+                      <option key={cabecalho} value={cabecalho}>
+                        {cabecalho}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-xs font-semibold text-muted-foreground space-y-1">
+                <span>Campanha</span>
+                <select
+                  value={campanhaId}
+                  onChange={(e) => setCampanhaId(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm text-foreground"
+                >
+                  <option value="TODAS">Todas as campanhas</option>
+                  {campanhas.map((campanha) => (
+                    <option key={campanha.id} value={campanha.id}>
+                      {campanha.titulo}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-xs font-semibold text-muted-foreground space-y-1">
+                <span>Motivo do estorno</span>
+                <input
+                  type="text"
+                  value={motivo}
+                  maxLength={500}
+                  onChange={(e) => setMotivo(e.target.value)}
+                  placeholder="Ex.: Pedidos cancelados pelo laboratório - outubro"
+                  className="w-full px-3 py-2 rounded-lg border border-border bg-background text-sm text-foreground"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => handleProcessar(true)}
+                disabled={processando}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border border-border text-foreground disabled:opacity-50"
+              >
+                {processando ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlayCircle className="w-4 h-4" />}
+                Simular
+              </button>
+              <button
+                type="button"
+                onClick={() => handleProcessar(false)}
+                disabled={processando || !relatorio?.ehSimulacao}
+                title={relatorio?.ehSimulacao ? undefined : "Simule antes de aplicar"}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium bg-red-600 text-white disabled:opacity-50"
+              >
+                <Undo2 className="w-4 h-4" />
+                Aplicar estornos
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {relatorio && (
+        <div className="glass rounded-xl p-6 border border-border/50 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-bold text-foreground">
+              {relatorio.ehSimulacao ? "Simulação" : "Estornos aplicados"} · {relatorio.nomeArquivo}
+            </h3>
+            {relatorio.importacaoId && (
+              <span className="text-xs text-muted-foreground">Importação {relatorio.importacaoId.slice(0, 8)}</span>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="rounded-lg bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">Pedidos na planilha</p>
+              <p className="font-bold text-foreground">{relatorio.totalLinhas}</p>
+            </div>
+            <div className="rounded-lg bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">{relatorio.ehSimulacao ? "Seriam estornados" : "Estornados"}</p>
+              <p className="font-bold text-red-600">{relatorio.totalEstornados}</p>
+            </div>
+            <div className="rounded-lg bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">Não validados / não encontrados</p>
+              <p className="font-bold text-foreground">
+                {relatorio.totalNaoValidados} / {relatorio.totalNaoEncontrados}
+              </p>
+            </div>
+            <div className="rounded-lg bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">Débito em saldo</p>
+              <p className="font-bold text-foreground">{formatarMoeda(relatorio.valorDebitado)}</p>
+            </div>
+          </div>
+
+          {relatorio.totalPontosPagos > 0 && (
+            <p className="flex items-center gap-2 text-sm text-amber-600">
+              <AlertTriangle className="w-4 h-4" />
+              {relatorio.totalPontosPagos} estorno(s) de pontos já pagos ou em lote financeiro: o saldo pode ficar
+              negativo e será descontado dos próximos créditos.
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-3">Pedido</th>
+                  <th className="py-2 pr-3">Linhas</th>
+                  <th className="py-2 pr-3">Situação</th>
+                  <th className="py-2 pr-3">Vendedor / Campanha</th>
+                  <th className="py-2 pr-3">Cartela</th>
+                  <th className="py-2 pr-3">Cartelas removidas</th>
+                  <th className="py-2 pr-3 text-right">Débito</th>
+                </tr>
+              </thead>
+              <tbody>
+                {relatorio.pedidos.map((pedido) => {
+                  const estilo = ESTILOS_STATUS[pedido.status];
+                  const envios =
+                    pedido.estornos.length > 0
+                      ? pedido.estornos.map((estorno) => ({
+                          chave: estorno.envioId,
+                          descricao: `${estorno.vendedor} · ${estorno.campanha}`,
+                          cartela: String(estorno.numeroCartela),
+                          removidas: estorno.cartelasRemovidas.join(", ") || "-",
+                          debito: estorno.debitos.reduce((total, debito) => total + debito.valor, 0),
+                          pago: estorno.pontosPagos,
+                        }))
+                      : pedido.enviosIgnorados.map((envio) => ({
+                          chave: envio.envioId,
+                          descricao: `${envio.vendedor} · ${envio.campanha} (${envio.status})`,
+                          cartela: "-",
+                          removidas: "-",
+                          debito: 0,
+                          pago: false,
+                        }));
+
+                  return (
+                    <tr key={`${pedido.tipoPedido}-${pedido.numeroPedido}`} className="border-b border-border/50 align-top">
+                      <td className="py-2 pr-3 font-mono">
+                        {pedido.numeroPedido}
+                        <span className="block text-xs text-muted-foreground">{pedido.tipoPedido}</span>
+                      </td>
+                      <td className="py-2 pr-3 text-muted-foreground">{pedido.linhas.join(", ")}</td>
+                      <td className="py-2 pr-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${estilo.classe}`}>
+                          {estilo.rotulo}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-3">
+                        {envios.length === 0 ? "-" : envios.map((envio) => <div key={envio.chave}>{envio.descricao}</div>)}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {envios.map((envio) => (
+                          <div key={envio.chave}>{envio.cartela}</div>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {envios.map((envio) => (
+                          <div key={envio.chave}>{envio.removidas}</div>
+                        ))}
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        {envios.map((envio) => (
+                          <div key={envio.chave} className={envio.pago ? "text-amber-600 font-semibold" : undefined}>
+                            {envio.debito > 0 ? formatarMoeda(envio.debito) : "-"}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
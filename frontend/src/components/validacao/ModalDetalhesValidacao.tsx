@@ -14,6 +14,7 @@
  * - Tabs para filtrar por status
  * - Cards individuais para cada envio
  * - Informações completas (vendedor, ótica, produto, motivo)
+ * - Linha do tempo de status de cada envio (carregada sob demanda)
  * - Animações Framer Motion
  * - Design glassmorphism
  * 
@@ -38,8 +39,15 @@ import {
   Search,
   Clock,
   RefreshCw,
+  History,
+  Loader2,
+  ArrowRight,
 } from "lucide-react";
 import { useState, useMemo } from "react";
+import {
+  ROTULOS_ORIGEM_TRANSICAO,
+  useTransicoesEnvio,
+} from "@/hooks/useTransicoesEnvio";
 
 /**
  * Interface para um envio processado
@@ -351,6 +359,7 @@ function TabButton({
 function EnvioCard({ envio, index }: { envio: EnvioDetalhe; index: number }) {
   const config = getStatusConfig(envio.status);
   const StatusIcon = config.icon;
+  const [mostrarLinhaDoTempo, setMostrarLinhaDoTempo] = useState(false);
 
   return (
     <motion.div
@@ -439,8 +448,18 @@ function EnvioCard({ envio, index }: { envio: EnvioDetalhe; index: number }) {
             <span>Validação: {new Date(envio.dataValidacao).toLocaleDateString("pt-BR")}</span>
           </div>
         )}
+        <button
+          type="button"
+          onClick={() => setMostrarLinhaDoTempo((atual) => !atual)}
+          className="ml-auto flex items-center gap-1 font-semibold text-blue-600 hover:text-blue-800"
+        >
+          <History className="w-3 h-3" />
+          {mostrarLinhaDoTempo ? "Ocultar linha do tempo" : "Linha do tempo"}
+        </button>
       </div>
 
+      {mostrarLinhaDoTempo && <LinhaDoTempoEnvio envioId={envio.id} />}
+
       {/* Motivo/Info Conflito */}
       {(envio.motivo || envio.infoConflito || envio.motivoVendedor) && (
         <div className={`p-3 ${config.badge} rounded-lg space-y-2`}>
@@ -483,6 +502,68 @@ function EnvioCard({ envio, index }: { envio: EnvioDetalhe; index: number }) {
   );
 }
 
+// Componente de Linha do Tempo (transições de status do envio)
+function LinhaDoTempoEnvio({ envioId }: { envioId: string }) {
+  const { transicoes, isLoading, error } = useTransicoesEnvio(envioId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500 mb-3">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Carregando linha do tempo...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-600 mb-3">Erro ao carregar a linha do tempo.</p>;
+  }
+
+  if (transicoes.length === 0) {
+    return <p className="text-xs text-gray-500 mb-3">Nenhuma transição registrada para este envio.</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2 mb-3 space-y-3">
+      {transicoes.map((transicao) => {
+        const configNovo = getStatusConfig(transicao.statusNovo);
+        return (
+          <li key={transicao.id} className="ml-4">
+            <span className={`absolute -left-[7px] mt-1 w-3 h-3 rounded-full ${configNovo.badge}`} />
+            <div className="flex flex-wrap items-center gap-1.5 text-xs">
+              {transicao.statusAnterior && (
+                <>
+                  <span className={`px-1.5 py-0.5 rounded ${getStatusConfig(transicao.statusAnterior).badge}`}>
+                    {transicao.statusAnterior}
+                  </span>
+                  <ArrowRight className="w-3 h-3 text-gray-400" />
+                </>
+              )}
+              <span className={`px-1.5 py-0.5 rounded font-semibold ${configNovo.badge}`}>
+                {transicao.statusNovo}
+              </span>
+              <span className="text-gray-500">
+                {new Date(transicao.criadoEm).toLocaleString("pt-BR")}
+              </span>
+            </div>
+            <p className="text-xs text-gray-700 mt-1">
+              {ROTULOS_ORIGEM_TRANSICAO[transicao.origem]}
+              {transicao.usuario && ` · ${transicao.usuario.nome}`}
+              {transicao.execucao &&
+                ` · execução de ${new Date(transicao.execucao.dataHora).toLocaleString("pt-BR")}` +
+                  (transicao.execucao.nomeArquivo ? ` (${transicao.execucao.nomeArquivo})` : "") +
+                  (transicao.execucao.revertidoEm ? " - desfeita" : "")}
+            </p>
+            {transicao.motivo && (
+              <p className="text-xs text-gray-500 mt-0.5 font-mono break-words">{transicao.motivo}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
 // Função helper para obter configuração de status (duplicada para usar no componente)
 function getStatusConfig(status: string) {
   switch (status) {
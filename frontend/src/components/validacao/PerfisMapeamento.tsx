@@ -0,0 +1,236 @@
+"use client";
+
+import { useState } from "react";
+import { BookmarkPlus, Loader2, Save, Sparkles, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { AxiosError } from "axios";
+import api from "@/lib/axios";
+import {
+  ROTULOS_TIPO_PEDIDO,
+  usePerfisMapeamento,
+  type PerfilMapeamento,
+  type TipoPedido,
+} from "@/hooks/usePerfisMapeamento";
+
+export interface PerfilMapeamentoAtivo {
+  id: string;
+  nome: string;
+  automatico: boolean;
+}
+
+interface PerfisMapeamentoProps {
+  cabecalhos: string[];
+  mapaColunas: Record<string, string>;
+  formatoData: string;
+  valorIgnorar: string;
+  perfilAtivo: PerfilMapeamentoAtivo | null;
+  onAplicar: (perfil: PerfilMapeamento) => void;
+  onPerfilSalvo: (perfil: PerfilMapeamentoAtivo | null) => void;
+}
+
+// ============================================================================
+// COMPONENTE: PerfisMapeamento
+// Seleção, criação e atualização dos perfis de mapeamento compartilhados
+// ============================================================================
+export default function PerfisMapeamento({
+  cabecalhos,
+  mapaColunas,
+  formatoData,
+  valorIgnorar,
+  perfilAtivo,
+  onAplicar,
+  onPerfilSalvo,
+}: PerfisMapeamentoProps) {
+  const { perfis, mutate } = usePerfisMapeamento();
+  const [criando, setCriando] = useState(false);
+  const [nome, setNome] = useState("");
+  const [tipoPedido, setTipoPedido] = useState<TipoPedido | "">("");
+  const [salvando, setSalvando] = useState(false);
+
+  // Perfis guardam apenas as colunas efetivamente mapeadas
+  const payloadMapeamento = () => ({
+    mapaColunas: Object.fromEntries(
+      Object.entries(mapaColunas).filter(([, campo]) => campo && campo !== valorIgnorar)
+    ),
+    formatoData,
+    cabecalhos,
+  });
+
+  const tratarErro = (error: unknown, mensagemPadrao: string) => {
+    const axiosError = error as AxiosError<{ message?: string | string[] }>;
+    const mensagem = axiosError.response?.data?.message;
+    toast.error(Array.isArray(mensagem) ? mensagem.join(", ") : mensagem || mensagemPadrao);
+  };
+
+  // ========================================
+  // AÇÃO: Salvar como novo perfil
+  // ========================================
+  const handleCriar = async () => {
+    if (!nome.trim()) {
+      toast.error("Informe o nome do perfil");
+      return;
+    }
+
+    setSalvando(true);
+    try {
+      const { data } = await api.post<PerfilMapeamento>("/validacao/perfis-mapeamento", {
+        nome: nome.trim(),
+        tipoPedido: tipoPedido || undefined,
+        ...payloadMapeamento(),
+      });
+      await mutate();
+      onPerfilSalvo({ id: data.id, nome: data.nome, automatico: false });
+      setCriando(false);
+      setNome("");
+      setTipoPedido("");
+      toast.success(`Perfil "${data.nome}" salvo para todos os admins`);
+    } catch (error) {
+      tratarErro(error, "Erro ao salvar o perfil de mapeamento");
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Atualizar o perfil ativo com o mapeamento atual
+  // ========================================
+  const handleAtualizar = async () => {
+    if (!perfilAtivo) return;
+
+    setSalvando(true);
+    try {
+      await api.patch(`/validacao/perfis-mapeamento/${perfilAtivo.id}`, payloadMapeamento());
+      await mutate();
+      toast.success(`Perfil "${perfilAtivo.nome}" atualizado`);
+    } catch (error) {
+      tratarErro(error, "Erro ao atualizar o perfil de mapeamento");
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  // ========================================
+  // AÇÃO: Remover o perfil ativo
+  // ========================================
+  const handleRemover = async () => {
+    if (!perfilAtivo) return;
+    if (!window.confirm(`Remover o perfil "${perfilAtivo.nome}" para todos os admins?`)) return;
+
+    setSalvando(true);
+    try {
+      await api.delete(`/validacao/perfis-mapeamento/${perfilAtivo.id}`);
+      await mutate();
+      onPerfilSalvo(null);
+      toast.success(`Perfil "${perfilAtivo.nome}" removido`);
+    } catch (error) {
+      tratarErro(error, "Erro ao remover o perfil de mapeamento");
+    } finally {
+      setSalvando(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200/70 bg-gray-50/60 p-4 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="text-sm font-semibold text-gray-700">Perfil de mapeamento</label>
+        <select
+          value={perfilAtivo?.id || ""}
+          onChange={(e) => {
+            const perfil = perfis.find((p) => p.id === e.target.value);
+            if (perfil) onAplicar(perfil);
+          }}
+          className="min-w-[220px] px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm"
+        >
+          <option value="" disabled>
+            {perfis.length === 0 ? "Nenhum perfil cadastrado" : "Selecione um perfil"}
+          </option>
+          {perfis.map((perfil) => (
+            <option key={perfil.id} value={perfil.id}>
+              {perfil.nome}
+              {perfil.tipoPedido ? ` · ${ROTULOS_TIPO_PEDIDO[perfil.tipoPedido]}` : ""} · {perfil.formatoData}
+            </option>
+          ))}
+        </select>
+
+        {perfilAtivo?.automatico && (
+          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-700">
+            <Sparkles className="w-3 h-3" />
+            Detectado pelo cabeçalho
+          </span>
+        )}
+
+        <div className="ml-auto flex flex-wrap gap-2">
+          {perfilAtivo && (
+            <>
+              <button
+                type="button"
+                onClick={handleAtualizar}
+                disabled={salvando}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-500/10 text-blue-700 hover:bg-blue-500/20 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-3.5 h-3.5" />
+                Atualizar perfil
+              </button>
+              <button
+                type="button"
+                onClick={handleRemover}
+                disabled={salvando}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-red-600 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                title="Remover perfil"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setCriando((atual) => !atual)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-green-500/10 text-green-700 hover:bg-green-500/20 transition-colors"
+          >
+            <BookmarkPlus className="w-3.5 h-3.5" />
+            Salvar como novo perfil
+          </button>
+        </div>
+      </div>
+
+      {criando && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={nome}
+            onChange={(e) => setNome(e.target.value)}
+            maxLength={80}
+            placeholder='Nome do perfil (ex: "OS_OP_EPS export v3")'
+            className="flex-1 min-w-[220px] px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm"
+          />
+          <select
+            value={tipoPedido}
+            onChange={(e) => setTipoPedido(e.target.value as TipoPedido | "")}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-sm"
+          >
+            <option value="">Qualquer tipo de pedido</option>
+            {(Object.keys(ROTULOS_TIPO_PEDIDO) as TipoPedido[]).map((tipo) => (
+              <option key={tipo} value={tipo}>
+                {ROTULOS_TIPO_PEDIDO[tipo]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCriar}
+            disabled={salvando}
+            className="flex items-center gap-1.5 px-4 py-1.5 rounded-lg text-sm font-medium bg-gradient-to-r from-green-500 to-emerald-600 text-white disabled:opacity-50"
+          >
+            {salvando ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Salvar
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Perfis são compartilhados entre todos os admins e incluem o formato de data ({formatoData}). Ao carregar uma
+        planilha, o perfil cujas colunas aparecem no cabeçalho é selecionado automaticamente.
+      </p>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import {
   LucideIcon,
   Store,
   DollarSign,
+  GitMerge,
 } from "lucide-react";
 
 // Para segurança de tipos, definimos os papéis que existem no sistema
@@ -99,6 +100,14 @@ export const ALL_MENU_ITEMS: NavItem[] = [
     shouldShow: (usuario: any) =>
       usuario?.optica?.rankingVisivelParaVendedores === true,
   },
+  // Extrato de saldo para VENDEDOR e GERENTE
+  {
+    href: "/extrato",
+    label: "Extrato",
+    icon: History,
+    roles: [PapelUsuario.GERENTE, PapelUsuario.VENDEDOR],
+    position: "main",
+  },
   // Prêmios e resgates removidos no escopo atual
 
   // === ITENS DE GERENTE ===
@@ -118,6 +127,13 @@ export const ALL_MENU_ITEMS: NavItem[] = [
     roles: [PapelUsuario.ADMIN],
     position: "main",
   },
+  {
+    href: "/admin/conflitos",
+    label: "Conflitos de Pedidos",
+    icon: GitMerge,
+    roles: [PapelUsuario.ADMIN],
+    position: "main",
+  },
   {
     href: "/admin/oticas",
     label: "Óticas",
@@ -0,0 +1,81 @@
+"use client";
+
+import useSWR from "swr";
+import axios from "@/lib/axios";
+
+// Fetcher genérico
+const fetcher = (url: string) => axios.get(url).then((res) => res.data);
+
+// ============================================================================
+// TIPOS
+// Espelha o retorno de GET /envios-venda/conflitos (ConflitoEnvioService.listar)
+// ============================================================================
+export interface EnvioEmConflito {
+  id: string;
+  numeroPedido: string;
+  status: "VALIDADO" | "CONFLITO_MANUAL" | "EM_ANALISE";
+  dataEnvio: string;
+  infoConflito: string | null;
+  motivoRejeicao: string | null;
+  codigoReferenciaUsado: string | null;
+  valorPontosReaisRecebido: number | string | null;
+  pontosAdicionadosAoSaldo: boolean;
+  vendedor: {
+    id: string;
+    nome: string;
+    email: string;
+    optica: { nome: string; cnpj: string } | null;
+  };
+  requisito: {
+    descricao: string;
+    regraCartela: { numeroCartela: number };
+  };
+}
+
+export interface ConflitoPedido {
+  campanha: { id: string; titulo: string };
+  numeroPedido: string;
+  abertoDesde: string;
+  linhasPlanilha: Array<Record<string, unknown>> | null;
+  envios: EnvioEmConflito[];
+}
+
+export interface ResolucaoConflito {
+  id: string;
+  numeroPedido: string;
+  envioVencedorId: string;
+  vendedorVencedorId: string;
+  enviosRejeitadosIds: string[];
+  motivo: string;
+  criadoEm: string;
+  admin: { id: string; nome: string };
+  campanha: { id: string; titulo: string };
+}
+
+// ============================================================================
+// HOOK: useConflitos
+// Conflitos abertos agrupados por pedido (+ histórico de resoluções)
+// ============================================================================
+export function useConflitos(campanhaId?: string) {
+  const query = campanhaId ? `?campanhaId=${campanhaId}` : "";
+
+  const { data, error, isLoading, mutate } = useSWR<ConflitoPedido[]>(
+    `/envios-venda/conflitos${query}`,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  const { data: resolucoes, mutate: mutateResolucoes } = useSWR<ResolucaoConflito[]>(
+    `/envios-venda/conflitos/resolucoes${query}`,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    conflitos: data || [],
+    resolucoes: resolucoes || [],
+    isLoading,
+    error,
+    atualizar: () => Promise.all([mutate(), mutateResolucoes()]),
+  };
+}
@@ -118,7 +118,10 @@ export function useDashboardFinanceiro() {
           lotesPagos.length
         : 0;
 
-    const pendentes = lotes.filter((l: any) => l.status === "PENDENTE").length;
+    // Lotes ainda não pagos (aguardando aprovação ou pagamento)
+    const pendentes = lotes.filter(
+      (l: any) => l.status === "GERADO" || l.status === "APROVADO"
+    ).length;
 
     return {
       totalPagoMesAtual,
@@ -0,0 +1,108 @@
+"use client";
+
+import useSWR from "swr";
+import axios from "@/lib/axios";
+
+// Fetcher genérico
+const fetcher = (url: string) => axios.get(url).then((res) => res.data);
+
+// Intervalo de polling enquanto houver job ativo
+const INTERVALO_POLLING_MS = 2000;
+
+// ============================================================================
+// TIPOS
+// ============================================================================
+export type StatusJobValidacao =
+  | "PENDENTE"
+  | "PROCESSANDO"
+  | "CONCLUIDO"
+  | "CANCELADO"
+  | "FALHOU";
+
+export interface JobValidacao<TResultado = unknown> {
+  id: string;
+  campanhaId: string;
+  ehSimulacao: boolean;
+  nomeArquivo: string | null;
+  status: StatusJobValidacao;
+  total: number;
+  processados: number;
+  validado: number;
+  rejeitado: number;
+  conflito_manual: number;
+  em_analise: number;
+  revalidado: number;
+  cancelamentoSolicitado: boolean;
+  mensagemErro: string | null;
+  historicoValidacaoId: string | null;
+  iniciadoEm: string | null;
+  finalizadoEm: string | null;
+  criadoEm: string;
+  admin?: { id: string; nome: string };
+  resultadoJson?: TResultado | null;
+}
+
+export const jobEstaAtivo = (job?: Pick<JobValidacao, "status"> | null) =>
+  !!job && (job.status === "PENDENTE" || job.status === "PROCESSANDO");
+
+// ============================================================================
+// HOOK: useJobsValidacao
+// Lista os jobs recentes; faz polling apenas enquanto algum estiver ativo
+// ============================================================================
+export function useJobsValidacao() {
+  const { data, error, isLoading, mutate } = useSWR<JobValidacao[]>(
+    "/validacao/jobs",
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      refreshInterval: (jobs) =>
+        jobs?.some((job) => jobEstaAtivo(job)) ? INTERVALO_POLLING_MS : 0,
+    }
+  );
+
+  return {
+    jobs: data || [],
+    isLoading,
+    error,
+    mutate,
+  };
+}
+
+// ============================================================================
+// HOOK: useJobValidacao
+// Acompanha um job específico até ele terminar (null = sem job)
+// aoFinalizar é chamado uma vez quando o job chega a um status final
+// ============================================================================
+export function useJobValidacao<TResultado = unknown>(
+  jobId: string | null,
+  aoFinalizar?: (job: JobValidacao<TResultado>) => void
+) {
+  const { data, error, mutate } = useSWR<JobValidacao<TResultado>>(
+    jobId ? `/validacao/jobs/${jobId}` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      refreshInterval: (job) => (!job || jobEstaAtivo(job) ? INTERVALO_POLLING_MS : 0),
+      onSuccess: (job) => {
+        if (!jobEstaAtivo(job)) {
+          aoFinalizar?.(job);
+        }
+      },
+    }
+  );
+
+  return {
+    job: data || null,
+    error,
+    mutate,
+  };
+}
+
+// ============================================================================
+// AÇÃO: cancelarJobValidacao
+// O job para no próximo lote; o que já foi processado é mantido
+// ============================================================================
+export async function cancelarJobValidacao(jobId: string) {
+  const response = await axios.post<JobValidacao>(`/validacao/jobs/${jobId}/cancelar`);
+  return response.data;
+}
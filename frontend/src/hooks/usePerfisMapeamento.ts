@@ -0,0 +1,94 @@
+"use client";
+
+import useSWR from "swr";
+import axios from "@/lib/axios";
+
+// Fetcher genérico
+const fetcher = (url: string) => axios.get(url).then((res) => res.data);
+
+// ============================================================================
+// TIPOS
+// Espelha PerfilMapeamento e PontuacaoPerfilMapeamento do backend
+// ============================================================================
+export type TipoPedido = "OS_OP_EPS" | "OPTICLICK" | "EPSWEB" | "ENVELOPE_OTICA";
+
+export const ROTULOS_TIPO_PEDIDO: Record<TipoPedido, string> = {
+  OS_OP_EPS: "OS/OP EPS",
+  OPTICLICK: "OptiClick",
+  EPSWEB: "EPSWEB",
+  ENVELOPE_OTICA: "Envelope da Ótica",
+};
+
+export interface PerfilMapeamento {
+  id: string;
+  nome: string;
+  tipoPedido: TipoPedido | null;
+  mapaColunas: Record<string, string>;
+  formatoData: string;
+  cabecalhos: string[] | null;
+  criadoEm: string;
+  atualizadoEm: string;
+  criadoPor?: { id: string; nome: string };
+  atualizadoPor?: { id: string; nome: string } | null;
+}
+
+export interface PontuacaoPerfilMapeamento {
+  perfilId: string;
+  nome: string;
+  cobertura: number;
+  semelhancaCabecalho: number;
+  colunasEncontradas: string[];
+  colunasAusentes: string[];
+  compativel: boolean;
+}
+
+/**
+ * Normaliza um nome de coluna para comparação (mesma regra do backend)
+ */
+export const normalizarCabecalho = (cabecalho: string) =>
+  cabecalho
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+
+/**
+ * Monta o mapa completo do arquivo a partir de um perfil: cada cabeçalho
+ * recebe o campo do perfil (comparação normalizada) ou o valor "ignorar"
+ */
+export function aplicarPerfilAoCabecalho(
+  perfil: Pick<PerfilMapeamento, "mapaColunas">,
+  cabecalhos: string[],
+  valorIgnorar: string
+): Record<string, string> {
+  const campoPorColuna = new Map(
+    Object.entries(perfil.mapaColunas).map(([coluna, campo]) => [normalizarCabecalho(coluna), campo])
+  );
+
+  return Object.fromEntries(
+    cabecalhos.map((cabecalho) => [
+      cabecalho,
+      campoPorColuna.get(normalizarCabecalho(cabecalho)) ?? valorIgnorar,
+    ])
+  );
+}
+
+// ============================================================================
+// HOOK: usePerfisMapeamento
+// Perfis de mapeamento compartilhados entre os admins
+// ============================================================================
+export function usePerfisMapeamento() {
+  const { data, error, isLoading, mutate } = useSWR<PerfilMapeamento[]>(
+    "/validacao/perfis-mapeamento",
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    perfis: data || [],
+    isLoading,
+    error,
+    mutate,
+  };
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import useSWR from "swr";
+import axios from "@/lib/axios";
+
+// Fetcher genérico
+const fetcher = (url: string) => axios.get(url).then((res) => res.data);
+
+// ============================================================================
+// TIPOS
+// Espelha o retorno de GET /envios-venda/:id/transicoes (linha do tempo)
+// ============================================================================
+export type StatusEnvio = "EM_ANALISE" | "VALIDADO" | "REJEITADO" | "CONFLITO_MANUAL";
+
+export type OrigemTransicaoEnvio =
+  | "SUBMISSAO"
+  | "VALIDACAO_PLANILHA"
+  | "VALIDACAO_MANUAL"
+  | "REJEICAO_MANUAL"
+  | "RESOLUCAO_CONFLITO"
+  | "REVERSAO_VALIDACAO"
+  | "ESTORNO";
+
+export const ROTULOS_ORIGEM_TRANSICAO: Record<OrigemTransicaoEnvio, string> = {
+  SUBMISSAO: "Submissão do vendedor",
+  VALIDACAO_PLANILHA: "Validação por planilha",
+  VALIDACAO_MANUAL: "Validação manual",
+  REJEICAO_MANUAL: "Rejeição manual",
+  RESOLUCAO_CONFLITO: "Resolução de conflito",
+  REVERSAO_VALIDACAO: "Execução desfeita",
+  ESTORNO: "Estorno (pedido cancelado/devolvido)",
+};
+
+export interface TransicaoEnvio {
+  id: string;
+  statusAnterior: StatusEnvio | null;
+  statusNovo: StatusEnvio;
+  origem: OrigemTransicaoEnvio;
+  tipoAtor: "ADMIN" | "PLANILHA" | "SISTEMA" | "VENDEDOR";
+  motivo: string | null;
+  criadoEm: string;
+  usuario: { id: string; nome: string } | null;
+  execucao: {
+    id: string;
+    dataHora: string;
+    nomeArquivo: string | null;
+    revertidoEm: string | null;
+  } | null;
+}
+
+// ============================================================================
+// HOOK: useTransicoesEnvio
+// Linha do tempo de um envio (envioId null = não carrega)
+// ============================================================================
+export function useTransicoesEnvio(envioId: string | null) {
+  const { data, error, isLoading } = useSWR<TransicaoEnvio[]>(
+    envioId ? `/envios-venda/${envioId}/transicoes` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  );
+
+  return {
+    transicoes: data || [],
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Rule Builder (grupos E/OU) - utilitários do wizard de campanhas.
+ *
+ * A avaliação espelha o backend (validacao/helpers/regras.helper.ts) para que
+ * o preview do Step 5 mostre o mesmo resultado que o robô de validação:
+ * - texto sem diferenciar maiúsculas/minúsculas e acentos
+ * - valor com vírgula = lista (IGUAL_A/CONTEM: qualquer um; NAO_*: nenhum)
+ * - MAIOR_QUE/MENOR_QUE (e IGUAL_A/NAO_IGUAL_A em VALOR_VENDA) numéricos
+ * - grupo vazio é neutro (atendido)
+ */
+
+import type {
+  CondicaoFormData,
+  GrupoCondicaoFormData,
+} from '@/components/admin/campanhas/CriarCampanhaWizard';
+
+export const PROFUNDIDADE_MAXIMA_GRUPOS = 3;
+
+export const ROTULOS_CAMPO_CONDICAO: Record<CondicaoFormData['campo'], string> = {
+  CODIGO_DA_REFERENCIA: 'Código da Referência',
+  CODIGO_PRODUTO: 'Código do Produto',
+  NOME_PRODUTO: 'Nome do Produto',
+  VALOR_VENDA: 'Valor da Venda',
+};
+
+export const ROTULOS_OPERADOR_CONDICAO: Record<CondicaoFormData['operador'], string> = {
+  CONTEM: 'contém',
+  NAO_CONTEM: 'não contém',
+  IGUAL_A: 'igual a',
+  NAO_IGUAL_A: 'diferente de',
+  MAIOR_QUE: 'maior que',
+  MENOR_QUE: 'menor que',
+};
+
+/**
+ * Linha de exemplo usada no preview (um pedido de uma linha)
+ */
+export interface LinhaTesteCondicoes {
+  nomeProduto: string;
+  codigo: string;
+  valorVenda: string;
+}
+
+/**
+ * Resultado do preview, com a mesma forma da árvore de grupos
+ */
+export interface ResultadoGrupoPreview {
+  atendido: boolean;
+  /** null = condição sem valor (ignorada, não é enviada ao backend) */
+  condicoes: Array<boolean | null>;
+  subgrupos: ResultadoGrupoPreview[];
+}
+
+export const criarCondicaoVazia = (): CondicaoFormData => ({
+  campo: 'NOME_PRODUTO',
+  operador: 'CONTEM',
+  valor: '',
+});
+
+export const criarGrupoCondicoesVazio = (operadorLogico: 'E' | 'OU' = 'E'): GrupoCondicaoFormData => ({
+  operadorLogico,
+  condicoes: [criarCondicaoVazia()],
+  subgrupos: [],
+});
+
+const valorComoTexto = (valor: string | string[]) => (Array.isArray(valor) ? valor.join(',') : valor);
+
+export function contarCondicoesGrupo(grupo: GrupoCondicaoFormData): number {
+  return (
+    grupo.condicoes.length +
+    grupo.subgrupos.reduce((total, sub) => total + contarCondicoesGrupo(sub), 0)
+  );
+}
+
+/**
+ * Payload do backend (CriarGrupoCondicaoDto): valores em texto, sem
+ * condições vazias nem subgrupos sem condições
+ */
+export function serializarGrupoCondicoes(grupo: GrupoCondicaoFormData): GrupoCondicaoFormData {
+  return {
+    operadorLogico: grupo.operadorLogico,
+    condicoes: grupo.condicoes
+      .map((condicao) => ({ ...condicao, valor: valorComoTexto(condicao.valor).trim() }))
+      .filter((condicao) => condicao.valor.length > 0),
+    subgrupos: grupo.subgrupos
+      .filter((sub) => contarCondicoesGrupo(sub) > 0)
+      .map(serializarGrupoCondicoes),
+  };
+}
+
+/**
+ * Reconstrói a árvore a partir das listas planas retornadas pela API
+ * (condicoes com grupoId + gruposCondicao com grupoPaiId)
+ */
+export function montarGrupoCondicoesFormData(
+  condicoes: Array<{ campo: string; operador: string; valor: string; grupoId?: string | null }>,
+  grupos: Array<{ id: string; operadorLogico: 'E' | 'OU'; ordem?: number; grupoPaiId?: string | null }>,
+): GrupoCondicaoFormData | undefined {
+  const montar = (grupoId: string, operadorLogico: 'E' | 'OU'): GrupoCondicaoFormData => ({
+    operadorLogico,
+    condicoes: condicoes
+      .filter((c) => c.grupoId === grupoId)
+      .map((c) => ({
+        campo: c.campo as CondicaoFormData['campo'],
+        operador: c.operador as CondicaoFormData['operador'],
+        valor: c.valor,
+      })),
+    subgrupos: grupos
+      .filter((g) => g.grupoPaiId === grupoId)
+      .sort((a, b) => (a.ordem ?? 0) - (b.ordem ?? 0))
+      .map((g) => montar(g.id, g.operadorLogico)),
+  });
+
+  const raizes = grupos
+    .filter((g) => !g.grupoPaiId)
+    .sort((a, b) => (a.ordem ?? 0) - (b.ordem ?? 0))
+    .map((g) => montar(g.id, g.operadorLogico));
+
+  if (raizes.length === 0) return undefined;
+  if (raizes.length === 1) return raizes[0];
+  return { operadorLogico: 'E', condicoes: [], subgrupos: raizes };
+}
+
+/**
+ * Expressão legível, ex: Nome do Produto contém "BLUE" E (Valor da Venda maior que "300" OU ...)
+ */
+export function descreverGrupoCondicoes(grupo: GrupoCondicaoFormData, raiz = true): string {
+  const partes = [
+    ...grupo.condicoes
+      .filter((c) => valorComoTexto(c.valor).trim().length > 0)
+      .map(
+        (c) =>
+          `${ROTULOS_CAMPO_CONDICAO[c.campo]} ${ROTULOS_OPERADOR_CONDICAO[c.operador]} "${valorComoTexto(c.valor).trim()}"`
+      ),
+    ...grupo.subgrupos
+      .map((sub) => descreverGrupoCondicoes(sub, false))
+      .filter((texto) => texto.length > 0),
+  ];
+
+  const expressao = partes.join(` ${grupo.operadorLogico} `);
+  return raiz || partes.length <= 1 ? expressao : `(${expressao})`;
+}
+
+const normalizar = (valor: string) =>
+  valor.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().trim();
+
+const converterNumero = (valor: string): number | null => {
+  let texto = valor.replace(/[^\d,.-]/g, '');
+  if (!/\d/.test(texto)) return null;
+
+  if (texto.includes(',')) {
+    texto = texto.replace(/\./g, '').replace(',', '.');
+  } else if ((texto.match(/\./g) || []).length > 1) {
+    texto = texto.replace(/\./g, '');
+  }
+
+  const numero = Number(texto);
+  return Number.isFinite(numero) ? numero : null;
+};
+
+export function avaliarCondicaoPreview(condicao: CondicaoFormData, linha: LinhaTesteCondicoes): boolean {
+  const valorEsperado = valorComoTexto(condicao.valor);
+  const valorReal =
+    condicao.campo === 'NOME_PRODUTO'
+      ? linha.nomeProduto
+      : condicao.campo === 'VALOR_VENDA'
+        ? linha.valorVenda
+        : linha.codigo;
+
+  const numerico =
+    condicao.operador === 'MAIOR_QUE' ||
+    condicao.operador === 'MENOR_QUE' ||
+    (condicao.campo === 'VALOR_VENDA' && (condicao.operador === 'IGUAL_A' || condicao.operador === 'NAO_IGUAL_A'));
+
+  if (numerico) {
+    const real = converterNumero(valorReal);
+    const esperado = converterNumero(valorEsperado);
+    if (real === null || esperado === null) return false;
+
+    switch (condicao.operador) {
+      case 'MAIOR_QUE':
+        return real > esperado;
+      case 'MENOR_QUE':
+        return real < esperado;
+      case 'IGUAL_A':
+        return Math.abs(real - esperado) < 0.005;
+      default:
+        return Math.abs(real - esperado) >= 0.005;
+    }
+  }
+
+  const real = normalizar(valorReal);
+  const opcoes = valorEsperado.split(',').map(normalizar).filter((opcao) => opcao.length > 0);
+
+  switch (condicao.operador) {
+    case 'IGUAL_A':
+      return opcoes.some((opcao) => real === opcao);
+    case 'NAO_IGUAL_A':
+      return opcoes.every((opcao) => real !== opcao);
+    case 'CONTEM':
+      return opcoes.some((opcao) => real.includes(opcao));
+    case 'NAO_CONTEM':
+      return opcoes.every((opcao) => !real.includes(opcao));
+    default:
+      return false;
+  }
+}
+
+export function avaliarGrupoPreview(
+  grupo: GrupoCondicaoFormData,
+  linha: LinhaTesteCondicoes
+): ResultadoGrupoPreview {
+  const condicoes = grupo.condicoes.map((condicao) =>
+    valorComoTexto(condicao.valor).trim().length > 0 ? avaliarCondicaoPreview(condicao, linha) : null
+  );
+  const subgrupos = grupo.subgrupos.map((sub) => avaliarGrupoPreview(sub, linha));
+  const parciais = [
+    ...condicoes.filter((resultado): resultado is boolean => resultado !== null),
+    ...grupo.subgrupos
+      .map((sub, indice) => (descreverGrupoCondicoes(sub).length > 0 ? subgrupos[indice].atendido : null))
+      .filter((resultado): resultado is boolean => resultado !== null),
+  ];
+
+  const atendido =
+    parciais.length === 0 ||
+    (grupo.operadorLogico === 'OU' ? parciais.some(Boolean) : parciais.every(Boolean));
+
+  return { atendido, condicoes, subgrupos };
+}